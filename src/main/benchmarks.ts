@@ -0,0 +1,260 @@
+/**
+ * Benchmark Comparison
+ * KOSPI/KOSDAQ/S&P 500/NASDAQ 지수 일별 종가 저장 및 포트폴리오 성과 비교
+ * 지수 이력은 Yahoo(국내 지수는 네이버 fallback) 또는 로컬 CSV로 채움
+ */
+
+import * as fs from 'fs'
+import { getDatabase } from './database'
+import { DailyClose, fetchYahooHistory, fetchNaverDailyHistory } from './market-data-api'
+import { parseFxCsv, listBusinessDays } from './fx-history'
+import {
+  PerformanceWindow,
+  ValuePoint,
+  windowBaseDate,
+  combineValueSeries,
+  sliceWindow,
+  computeTwrSeries,
+  measurePerformance,
+  loadPerformanceInputs,
+  accountLabel
+} from './performance'
+
+// ===== 타입 정의 =====
+export type BenchmarkCode = 'KOSPI' | 'KOSDAQ' | 'SP500' | 'NASDAQ'
+export type BenchmarkSource = 'API' | 'CSV'
+
+export interface BenchmarkDefinition {
+  code: BenchmarkCode
+  name: string
+  currency: string
+  yahoo_symbol: string
+  naver_symbol: string | null
+}
+
+export interface BenchmarkCoverage extends BenchmarkDefinition {
+  count: number
+  first_date: string | null
+  last_date: string | null
+}
+
+export interface BenchmarkSyncResult {
+  success: boolean
+  code: string
+  saved: number
+  provider?: 'YAHOO' | 'NAVER' | 'CSV'
+  error?: string
+}
+
+export interface BenchmarkComparisonPoint {
+  date: string
+  portfolio: number             // 포트폴리오 누적 TWR (%)
+  benchmark: number | null      // 지수 누적 수익률 (지수 통화, %)
+  benchmark_base: number | null // 지수 누적 수익률 (기준통화 환산, %)
+}
+
+export interface BenchmarkExcessRow {
+  key: string
+  label: string
+  start_date: string
+  end_date: string
+  twr: number | null
+  benchmark_return: number | null
+  benchmark_return_base: number | null
+  excess: number | null         // TWR - 기준통화 환산 지수 수익률 (%p)
+}
+
+export interface BenchmarkComparison {
+  baseCurrency: string
+  window: PerformanceWindow
+  benchmark: BenchmarkDefinition
+  series: BenchmarkComparisonPoint[]
+  household: BenchmarkExcessRow | null
+  byAccount: BenchmarkExcessRow[]
+}
+
+export const BENCHMARKS: BenchmarkDefinition[] = [
+  { code: 'KOSPI', name: '코스피', currency: 'KRW', yahoo_symbol: '^KS11', naver_symbol: 'KOSPI' },
+  { code: 'KOSDAQ', name: '코스닥', currency: 'KRW', yahoo_symbol: '^KQ11', naver_symbol: 'KOSDAQ' },
+  { code: 'SP500', name: 'S&P 500', currency: 'USD', yahoo_symbol: '^GSPC', naver_symbol: null },
+  { code: 'NASDAQ', name: '나스닥 종합', currency: 'USD', yahoo_symbol: '^IXIC', naver_symbol: null }
+]
+
+export function findBenchmark(code: string): BenchmarkDefinition {
+  const benchmark = BENCHMARKS.find(b => b.code === code)
+  if (!benchmark) {
+    throw new Error(`Unknown benchmark: ${code}`)
+  }
+  return benchmark
+}
+
+// ===== 지수 수익률 (순수 함수) =====
+
+// 해당 일자 이전 마지막 종가 (closes는 일자 오름차순)
+export function closeOnOrBefore(closes: DailyClose[], date: string): number | null {
+  let low = 0
+  let high = closes.length - 1
+  let found: number | null = null
+  while (low <= high) {
+    const mid = (low + high) >> 1
+    if (closes[mid].date <= date) {
+      found = closes[mid].close
+      low = mid + 1
+    } else {
+      high = mid - 1
+    }
+  }
+  return found
+}
+
+export function benchmarkReturn(closes: DailyClose[], startDate: string, endDate: string): number | null {
+  const start = closeOnOrBefore(closes, startDate)
+  const end = closeOnOrBefore(closes, endDate)
+  if (!start || !end) return null
+  return (end / start - 1) * 100
+}
+
+// 지수 통화 수익률에 환율 변동을 반영 (fx: 1 지수통화 = ? 기준통화)
+export function convertReturn(returnPercent: number | null, fxStart: number, fxEnd: number): number | null {
+  if (returnPercent === null || !(fxStart > 0) || !(fxEnd > 0)) return null
+  return ((1 + returnPercent / 100) * (fxEnd / fxStart) - 1) * 100
+}
+
+// ===== DB 연동 =====
+
+export function saveBenchmarkHistory(code: string, closes: DailyClose[], source: BenchmarkSource): number {
+  const db = getDatabase()
+  const stmt = db.prepare(`
+    INSERT INTO benchmark_history (benchmark, date, close, source) VALUES (?, ?, ?, ?)
+    ON CONFLICT(benchmark, date) DO UPDATE SET
+      close = excluded.close, source = excluded.source, updated_at = datetime('now')
+  `)
+
+  let saved = 0
+  db.transaction(() => {
+    for (const c of closes) {
+      saved += stmt.run(code, c.date, c.close, source).changes
+    }
+  })()
+  return saved
+}
+
+export function getBenchmarkCloses(code: string): DailyClose[] {
+  const db = getDatabase()
+  return db.prepare(`
+    SELECT date, close FROM benchmark_history WHERE benchmark = ? ORDER BY date ASC
+  `).all(code) as DailyClose[]
+}
+
+export function getBenchmarkCoverage(): BenchmarkCoverage[] {
+  const db = getDatabase()
+  const stmt = db.prepare(`
+    SELECT COUNT(*) as count, MIN(date) as first_date, MAX(date) as last_date
+    FROM benchmark_history WHERE benchmark = ?
+  `)
+  return BENCHMARKS.map(b => ({ ...b, ...(stmt.get(b.code) as { count: number; first_date: string | null; last_date: string | null }) }))
+}
+
+// 시작일 미지정 시 가장 오래된 거래일부터 (거래가 없으면 1년 전부터)
+export async function syncBenchmarkHistory(code: string, startDate?: string): Promise<BenchmarkSyncResult> {
+  const benchmark = findBenchmark(code)
+  const db = getDatabase()
+  const endDate = new Date().toISOString().split('T')[0]
+  const oneYearAgo = windowBaseDate('1Y', endDate) as string
+  const start = startDate ||
+    (db.prepare('SELECT MIN(date) as first_date FROM transactions').get() as { first_date: string | null }).first_date ||
+    oneYearAgo
+
+  try {
+    const closes = await fetchYahooHistory(benchmark.yahoo_symbol, start, endDate)
+    if (closes.length === 0) throw new Error('No data')
+    return { success: true, code, saved: saveBenchmarkHistory(code, closes, 'API'), provider: 'YAHOO' }
+  } catch (error) {
+    console.error(`Failed to fetch ${code} history from Yahoo:`, error)
+    if (!benchmark.naver_symbol) {
+      return { success: false, code, saved: 0, error: `${error instanceof Error ? error.message : 'Unknown error'} (CSV 가져오기를 이용하세요)` }
+    }
+  }
+
+  try {
+    const count = listBusinessDays(start, endDate).length + 10
+    const closes = (await fetchNaverDailyHistory(benchmark.naver_symbol, count)).filter(c => c.date >= start)
+    if (closes.length === 0) throw new Error('No data')
+    return { success: true, code, saved: saveBenchmarkHistory(code, closes, 'API'), provider: 'NAVER' }
+  } catch (error) {
+    console.error(`Failed to fetch ${code} history from Naver:`, error)
+    return { success: false, code, saved: 0, error: `${error instanceof Error ? error.message : 'Unknown error'} (CSV 가져오기를 이용하세요)` }
+  }
+}
+
+// 오프라인 경로: "날짜,종가" CSV (환율 CSV와 같은 형식)
+export function importBenchmarkCsvFile(filePath: string, code: string): BenchmarkSyncResult {
+  try {
+    findBenchmark(code)
+    const closes = parseFxCsv(fs.readFileSync(filePath, 'utf-8')).map(r => ({ date: r.date, close: r.rate }))
+    if (closes.length === 0) {
+      return { success: false, code, saved: 0, error: '유효한 지수 데이터가 없습니다' }
+    }
+    return { success: true, code, saved: saveBenchmarkHistory(code, closes, 'CSV'), provider: 'CSV' }
+  } catch (error) {
+    return { success: false, code, saved: 0, error: error instanceof Error ? error.message : 'Unknown error' }
+  }
+}
+
+export async function compareWithBenchmark(code: string, window: PerformanceWindow): Promise<BenchmarkComparison> {
+  const benchmark = findBenchmark(code)
+  const closes = getBenchmarkCloses(code)
+  const today = new Date().toISOString().split('T')[0]
+  const baseDate = windowBaseDate(window, today)
+
+  const { baseCurrency, accounts, valuesByAccount, flowsByAccount, krwRateOn } = await loadPerformanceInputs([benchmark.currency])
+
+  // 1 지수통화 = ? 기준통화
+  const fxOn = (date: string): number => {
+    const baseRate = krwRateOn(baseCurrency, date)
+    return baseRate > 0 ? krwRateOn(benchmark.currency, date) / baseRate : 0
+  }
+  const returnsBetween = (startDate: string, endDate: string): { native: number | null; base: number | null } => {
+    const native = benchmarkReturn(closes, startDate, endDate)
+    return { native, base: convertReturn(native, fxOn(startDate), fxOn(endDate)) }
+  }
+  const excessRow = (key: string, label: string, values: ValuePoint[], accountIds: string[]): BenchmarkExcessRow | null => {
+    const result = measurePerformance(values, accountIds.flatMap(id => flowsByAccount.get(id) || []), baseDate)
+    if (!result) return null
+
+    const bench = returnsBetween(result.start_date, result.end_date)
+    return {
+      key,
+      label,
+      start_date: result.start_date,
+      end_date: result.end_date,
+      twr: result.twr,
+      benchmark_return: bench.native,
+      benchmark_return_base: bench.base,
+      excess: result.twr !== null && bench.base !== null ? result.twr - bench.base : null
+    }
+  }
+
+  const allIds = accounts.map(a => a.id)
+  const householdValues = combineValueSeries(allIds.map(id => valuesByAccount.get(id) || []))
+  const slice = sliceWindow(householdValues, allIds.flatMap(id => flowsByAccount.get(id) || []), baseDate)
+
+  const series: BenchmarkComparisonPoint[] = slice
+    ? computeTwrSeries(slice.series, slice.flows).map(point => {
+      const bench = returnsBetween(slice.series[0].date, point.date)
+      return { date: point.date, portfolio: point.value, benchmark: bench.native, benchmark_base: bench.base }
+    })
+    : []
+
+  return {
+    baseCurrency,
+    window,
+    benchmark,
+    series,
+    household: excessRow('household', '가족 전체', householdValues, allIds),
+    byAccount: accounts.flatMap(a => {
+      const row = excessRow(a.id, accountLabel(a), valuesByAccount.get(a.id) || [], [a.id])
+      return row ? [row] : []
+    })
+  }
+}
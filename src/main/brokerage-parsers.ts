@@ -66,7 +66,7 @@ export const BROKERAGE_CONFIGS: Record<string, BrokerageConfig> = {
     taxColumns: ['세금', '제세금', '거래세', 'tax'],
     typeMappings: {
       '매수': 'BUY', '매도': 'SELL', '배당': 'DIVIDEND', '배당금': 'DIVIDEND',
-      '현금배당': 'DIVIDEND', '주식배당': 'DIVIDEND', '입고': 'BUY', '출고': 'SELL',
+      '현금배당': 'DIVIDEND', '주식배당': 'BUY', '입고': 'BUY', '출고': 'SELL',
       'buy': 'BUY', 'sell': 'SELL', 'dividend': 'DIVIDEND'
     },
     dateFormats: ['YYYYMMDD', 'YYYY-MM-DD', 'YYYY/MM/DD', 'YYYY.MM.DD']
@@ -106,7 +106,7 @@ export const BROKERAGE_CONFIGS: Record<string, BrokerageConfig> = {
     taxColumns: ['제세금', '세금', '거래세'],
     typeMappings: {
       '매수': 'BUY', '매도': 'SELL', '배당': 'DIVIDEND', '배당금입금': 'DIVIDEND',
-      '현금배당': 'DIVIDEND', '주식배당': 'DIVIDEND'
+      '현금배당': 'DIVIDEND', '주식배당': 'BUY'
     },
     dateFormats: ['YYYY/MM/DD', 'YYYYMMDD', 'YYYY-MM-DD']
   },
@@ -212,9 +212,11 @@ const COMMON_TYPE_MAPPINGS: Record<string, 'BUY' | 'SELL' | 'DIVIDEND'> = {
   '배당': 'DIVIDEND',
   '배당금': 'DIVIDEND',
   '현금배당': 'DIVIDEND',
-  '주식배당': 'DIVIDEND',
+  '주식배당': 'BUY',
   '입고': 'BUY',
   '출고': 'SELL',
+  '무상증자': 'BUY',
+  '무상주': 'BUY',
   'buy': 'BUY',
   'sell': 'SELL',
   'dividend': 'DIVIDEND',
@@ -222,6 +224,10 @@ const COMMON_TYPE_MAPPINGS: Record<string, 'BUY' | 'SELL' | 'DIVIDEND'> = {
   'sale': 'SELL'
 }
 
+// 주식배당/무상증자는 현금이 아닌 주식 입고 → 취득단가 0인 매수로 기록
+// (전체 평균단가가 희석되며, 같은 주식배당을 기업행위로 적용하면 입고가 기록된 계좌는 조정에서 제외)
+const ZERO_COST_TYPES = ['주식배당', '무상증자', '무상주']
+
 const CURRENCY_MAPPINGS: Record<string, string> = {
   '원': 'KRW',
   '원화': 'KRW',
@@ -427,6 +433,14 @@ export function parseWithBrokerageConfig(
     ...(config?.currencyColumns || []),
     '통화', '화폐', 'currency', '결제통화'
   ])]
+  const allFeeColumns = [...new Set([
+    ...(config?.feeColumns || []),
+    '수수료', '거래수수료', '위탁수수료', 'fee', 'commission'
+  ])]
+  const allTaxColumns = [...new Set([
+    ...(config?.taxColumns || []),
+    '세금', '제세금', '거래세', '증권거래세', 'tax'
+  ])]
 
   const dateCol = findColumnIndex(headers, allDateColumns)
   const codeCol = findColumnIndex(headers, allCodeColumns)
@@ -435,6 +449,8 @@ export function parseWithBrokerageConfig(
   const qtyCol = findColumnIndex(headers, allQtyColumns)
   const priceCol = findColumnIndex(headers, allPriceColumns)
   const currencyCol = findColumnIndex(headers, allCurrencyColumns)
+  const feeCol = findColumnIndex(headers, allFeeColumns)
+  const taxCol = findColumnIndex(headers, allTaxColumns)
 
   const results: ImportRow[] = []
 
@@ -469,8 +485,9 @@ export function parseWithBrokerageConfig(
       errors.push('Invalid quantity')
     }
 
-    // 단가 파싱
-    const price = priceCol !== -1 ? parseNumber(row[priceCol]) : null
+    // 단가 파싱 (무상 입고는 0)
+    const zeroCost = typeCol !== -1 && ZERO_COST_TYPES.includes(String(row[typeCol] ?? '').trim())
+    const price = zeroCost ? 0 : priceCol !== -1 ? parseNumber(row[priceCol]) : null
     if (price === null || price < 0) {
       errors.push('Invalid price')
     }
@@ -478,6 +495,10 @@ export function parseWithBrokerageConfig(
     // 통화 파싱
     const currency = currencyCol !== -1 ? parseCurrency(row[currencyCol]) : 'KRW'
 
+    // 수수료/세금 (증권사 파일에 따라 음수로 표기되기도 함)
+    const fee = feeCol !== -1 ? parseNumber(row[feeCol]) : null
+    const tax = taxCol !== -1 ? parseNumber(row[taxCol]) : null
+
     results.push({
       date: date || '',
       stockCode: stockCode || stockName,
@@ -486,6 +507,8 @@ export function parseWithBrokerageConfig(
       quantity: quantity || 0,
       price: price || 0,
       currency,
+      fee: Math.abs(fee || 0),
+      tax: Math.abs(tax || 0),
       isValid: errors.length === 0,
       errors
     })
@@ -0,0 +1,152 @@
+/**
+ * Cash Ledger
+ * 입금/출금/이자 및 매매·배당 현금흐름으로 계좌별·통화별 예수금 계산
+ * 확인된 예수금(cash_balances: 직접 입력 또는 대사에서 증권사 값 수용)이 있으면 그 시점 이후의 거래만 반영
+ */
+
+import { getDatabase } from './database'
+
+// ===== 타입 정의 =====
+export type CashTransactionType = 'DEPOSIT' | 'WITHDRAWAL' | 'INTEREST'
+export type CashBalanceSource = 'API' | 'MANUAL'
+
+export interface CashFlowRecord {
+  account_id: string
+  type: string
+  source: string
+  currency: string
+  total_amount: number
+  fee: number
+  tax: number
+  date: string
+}
+
+export interface CashSnapshot {
+  account_id: string
+  currency: string
+  balance: number
+  as_of: string              // YYYY-MM-DD (당일 거래는 스냅샷에 포함된 것으로 간주)
+  source: CashBalanceSource
+}
+
+export interface CashBalance {
+  account_id: string
+  currency: string
+  balance: number
+  reported_balance: number | null
+  as_of: string | null
+  source: CashBalanceSource | 'LEDGER'
+}
+
+export const CASH_TRANSACTION_TYPES: CashTransactionType[] = ['DEPOSIT', 'WITHDRAWAL', 'INTEREST']
+
+// 현금 거래는 종목이 없으므로 빈 종목코드로 저장
+export const CASH_STOCK_CODE = ''
+
+// ===== 예수금 계산 (순수 함수) =====
+
+export function isCashTransaction(type: string): boolean {
+  return (CASH_TRANSACTION_TYPES as string[]).includes(type)
+}
+
+// 거래 1건이 예수금에 미치는 영향 (기초잔고/조정 거래는 실제 현금 이동이 아니므로 제외)
+export function cashFlowOf(tx: Pick<CashFlowRecord, 'type' | 'source' | 'total_amount' | 'fee' | 'tax'>): number {
+  if (tx.source === 'OPENING' || tx.source === 'ADJUSTMENT') return 0
+
+  const costs = (tx.fee || 0) + (tx.tax || 0)
+  switch (tx.type) {
+    case 'BUY': return -(tx.total_amount + costs)
+    case 'SELL': return tx.total_amount - costs
+    case 'DIVIDEND':
+    case 'INTEREST':
+    case 'DEPOSIT': return tx.total_amount - costs
+    case 'WITHDRAWAL': return -(tx.total_amount + costs)
+    default: return 0
+  }
+}
+
+// 스냅샷이 없는 통화는 입출금 기록이 있을 때만 원장으로 예수금을 추적
+// (매수만 기록된 계좌가 음수 예수금으로 표시되지 않도록)
+export function computeCashBalances(flows: CashFlowRecord[], snapshots: CashSnapshot[]): CashBalance[] {
+  const keyOf = (accountId: string, currency: string): string => `${accountId}|${currency}`
+  const balances = new Map<string, CashBalance>()
+
+  for (const s of snapshots) {
+    balances.set(keyOf(s.account_id, s.currency), {
+      account_id: s.account_id,
+      currency: s.currency,
+      balance: s.balance,
+      reported_balance: s.balance,
+      as_of: s.as_of,
+      source: s.source
+    })
+  }
+
+  const tracked = new Set(
+    flows.filter(f => isCashTransaction(f.type)).map(f => keyOf(f.account_id, f.currency))
+  )
+
+  for (const f of flows) {
+    const key = keyOf(f.account_id, f.currency)
+    let balance = balances.get(key)
+
+    if (!balance) {
+      if (!tracked.has(key)) continue
+      balance = { account_id: f.account_id, currency: f.currency, balance: 0, reported_balance: null, as_of: null, source: 'LEDGER' }
+      balances.set(key, balance)
+    }
+    if (balance.as_of && f.date <= balance.as_of) continue
+
+    balance.balance += cashFlowOf(f)
+  }
+
+  return [...balances.values()]
+}
+
+// ===== DB 연동 =====
+
+export function getCashBalances(userId: string, accountId?: string): CashBalance[] {
+  const db = getDatabase()
+  const accountFilter = accountId ? 'AND a.id = ?' : ''
+  const params = accountId ? [userId, accountId] : [userId]
+
+  const flows = db.prepare(`
+    SELECT t.account_id, t.type, t.source, t.currency, t.total_amount, t.fee, t.tax, t.date
+    FROM transactions t
+    JOIN accounts a ON t.account_id = a.id
+    WHERE a.user_id = ? ${accountFilter}
+  `).all(...params) as CashFlowRecord[]
+
+  const snapshots = db.prepare(`
+    SELECT c.account_id, c.currency, c.balance, c.as_of, c.source
+    FROM cash_balances c
+    JOIN accounts a ON c.account_id = a.id
+    WHERE a.user_id = ? ${accountFilter}
+  `).all(...params) as CashSnapshot[]
+
+  return computeCashBalances(flows, snapshots)
+}
+
+export function setCashBalance(
+  accountId: string,
+  currency: string,
+  balance: number,
+  source: CashBalanceSource,
+  asOf: string = new Date().toISOString().split('T')[0]
+): void {
+  const db = getDatabase()
+  db.prepare(`
+    INSERT INTO cash_balances (account_id, currency, balance, as_of, source, updated_at)
+    VALUES (?, ?, ?, ?, ?, datetime('now'))
+    ON CONFLICT(account_id, currency) DO UPDATE SET
+      balance = excluded.balance,
+      as_of = excluded.as_of,
+      source = excluded.source,
+      updated_at = excluded.updated_at
+  `).run(accountId, currency.toUpperCase(), balance, asOf, source)
+}
+
+export function clearCashBalance(accountId: string, currency: string): void {
+  const db = getDatabase()
+  db.prepare('DELETE FROM cash_balances WHERE account_id = ? AND currency = ?').run(accountId, currency.toUpperCase())
+}
@@ -0,0 +1,468 @@
+/**
+ * Corporate Actions
+ * 액면분할/병합, 주식배당, 합병, 종목코드 변경
+ * 권리락일(ex_date) 이전 거래내역·보유종목·증권사 잔고·매매 신호의 수량과 주당 가격을 조정
+ * 적용 직전 상태를 저장하여 되돌리기 지원
+ */
+
+import { getDatabase } from './database'
+import { v4 as uuidv4 } from 'uuid'
+import { rebuildTaxLots } from './tax-lots'
+import { replayHolding } from './ledger-replay'
+
+// ===== 타입 정의 =====
+export type CorporateActionType = 'SPLIT' | 'REVERSE_SPLIT' | 'STOCK_DIVIDEND' | 'MERGER' | 'CODE_CHANGE'
+export type CorporateActionStatus = 'PENDING' | 'APPLIED' | 'UNDONE'
+
+export interface CorporateActionInput {
+  type: CorporateActionType
+  stock_code: string
+  stock_name?: string
+  new_stock_code?: string
+  new_stock_name?: string
+  ratio_from: number          // 기존 주식 수 (예: 1:5 분할의 1)
+  ratio_to: number            // 조정 후 주식 수 (예: 1:5 분할의 5)
+  ex_date: string             // YYYY-MM-DD, 이 날짜 이전 거래를 조정
+  memo?: string
+}
+
+export interface CorporateAction extends Required<Omit<CorporateActionInput, 'memo' | 'new_stock_code' | 'new_stock_name'>> {
+  id: string
+  new_stock_code: string | null
+  new_stock_name: string | null
+  memo: string | null
+  status: CorporateActionStatus
+  applied_at: string | null
+  undone_at: string | null
+  created_at: string
+}
+
+export interface CorporateActionSummary extends CorporateAction {
+  can_undo: boolean
+}
+
+// 조정 계산에 필요한 항목 (입력값과 저장된 행 모두 허용)
+export type AdjustmentSpec = Pick<CorporateActionInput, 'type' | 'stock_code' | 'ratio_from' | 'ratio_to'> & {
+  new_stock_code?: string | null
+  new_stock_name?: string | null
+}
+
+export interface AdjustableTrade {
+  stock_code: string
+  stock_name: string
+  quantity: number
+  price: number
+}
+
+interface HoldingRow {
+  id: string
+  account_id: string
+  stock_code: string
+  stock_name: string
+  quantity: number
+  avg_cost: number
+  current_price: number
+  prev_close: number
+  currency: string
+  last_synced: string | null
+}
+
+interface BrokerHoldingRow {
+  account_id: string
+  stock_code: string
+  stock_name: string
+  quantity: number
+  avg_cost: number
+  currency: string
+  source: string
+  captured_at: string
+}
+
+interface SignalRow {
+  id: string
+  account_id: string
+  holding_id: string
+  stock_code: string
+  stock_name: string
+  trigger_price: number
+  avg_cost: number
+  current_quantity: number
+  suggested_quantity: number
+  created_at: string
+}
+
+interface UndoData {
+  transactions: Array<AdjustableTrade & { id: string }>
+  selections: Array<{ sell_transaction_id: string; lot_id: string; quantity: number }>
+  holdings: HoldingRow[]
+  brokerHoldings: BrokerHoldingRow[]
+  signals: SignalRow[]
+  strategies: Array<{ id: string; stock_code: string }>
+  accounts: string[]
+}
+
+export const CORPORATE_ACTION_TYPES: CorporateActionType[] = ['SPLIT', 'REVERSE_SPLIT', 'STOCK_DIVIDEND', 'MERGER', 'CODE_CHANGE']
+
+// ===== 조정 계산 (순수 함수) =====
+
+// 기존 1주가 조정 후 몇 주가 되는지
+export function actionFactor(action: Pick<CorporateActionInput, 'ratio_from' | 'ratio_to'>): number {
+  return action.ratio_to / action.ratio_from
+}
+
+// 종목코드가 바뀌는 행위는 새 코드, 아니면 기존 코드
+export function targetStockCode(action: Pick<AdjustmentSpec, 'type' | 'stock_code' | 'new_stock_code'>): string {
+  return (action.type === 'MERGER' || action.type === 'CODE_CHANGE') && action.new_stock_code
+    ? action.new_stock_code
+    : action.stock_code
+}
+
+export function validateCorporateAction(input: CorporateActionInput): string[] {
+  const errors: string[] = []
+
+  if (!CORPORATE_ACTION_TYPES.includes(input.type)) errors.push('Invalid action type')
+  if (!input.stock_code) errors.push('Missing stock code')
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(input.ex_date || '')) errors.push('Invalid ex-date')
+  if (!(input.ratio_from > 0) || !(input.ratio_to > 0)) {
+    errors.push('Ratio must be positive')
+    return errors
+  }
+
+  switch (input.type) {
+    case 'SPLIT':
+    case 'STOCK_DIVIDEND':
+      if (input.ratio_to <= input.ratio_from) errors.push('Ratio must increase the share count')
+      break
+    case 'REVERSE_SPLIT':
+      if (input.ratio_to >= input.ratio_from) errors.push('Ratio must decrease the share count')
+      break
+    case 'MERGER':
+    case 'CODE_CHANGE':
+      if (!input.new_stock_code) errors.push('Missing new stock code')
+      else if (input.new_stock_code === input.stock_code) errors.push('New stock code must differ')
+      if (input.type === 'CODE_CHANGE' && input.ratio_from !== input.ratio_to) errors.push('Code change must be 1:1')
+      break
+  }
+
+  return errors
+}
+
+// 거래 1건 조정: 수량 × 비율, 주당 가격 ÷ 비율 (거래금액 불변)
+export function adjustTrade<T extends AdjustableTrade>(trade: T, action: AdjustmentSpec): T {
+  const factor = actionFactor(action)
+  const renamed = targetStockCode(action) !== action.stock_code
+
+  return {
+    ...trade,
+    stock_code: targetStockCode(action),
+    stock_name: renamed ? (action.new_stock_name || action.new_stock_code || trade.stock_name) : trade.stock_name,
+    quantity: trade.quantity * factor,
+    price: trade.price / factor
+  }
+}
+
+// 같은 계좌에 대상 종목이 이미 있으면 수량 가중평균으로 합침
+export function mergePositions(
+  target: { quantity: number; avg_cost: number },
+  incoming: { quantity: number; avg_cost: number }
+): { quantity: number; avg_cost: number } {
+  const quantity = target.quantity + incoming.quantity
+  return {
+    quantity,
+    avg_cost: quantity > 0 ? (target.quantity * target.avg_cost + incoming.quantity * incoming.avg_cost) / quantity : 0
+  }
+}
+
+// 가장 최근에 적용한 행위만 되돌릴 수 있음 (이후 행위의 조정 결과를 덮어쓰지 않도록)
+export function findUndoableActionId(actions: Array<{ id: string; status: string; applied_at: string | null }>): string | null {
+  const applied = actions
+    .filter(a => a.status === 'APPLIED' && a.applied_at)
+    .sort((a, b) => (b.applied_at as string).localeCompare(a.applied_at as string) || b.id.localeCompare(a.id))
+  return applied[0]?.id ?? null
+}
+
+// ===== DB 연동 =====
+
+export function listCorporateActions(): CorporateActionSummary[] {
+  const db = getDatabase()
+  const rows = db.prepare(`
+    SELECT id, type, stock_code, stock_name, new_stock_code, new_stock_name, ratio_from, ratio_to,
+      ex_date, memo, status, applied_at, undone_at, created_at
+    FROM corporate_actions
+    ORDER BY ex_date DESC, created_at DESC
+  `).all() as CorporateAction[]
+
+  const undoable = findUndoableActionId(rows)
+  return rows.map(row => ({ ...row, can_undo: row.id === undoable }))
+}
+
+export function createCorporateAction(input: CorporateActionInput): CorporateAction {
+  const errors = validateCorporateAction(input)
+  if (errors.length > 0) {
+    throw new Error(errors.join(', '))
+  }
+
+  const db = getDatabase()
+  const id = uuidv4()
+  db.prepare(`
+    INSERT INTO corporate_actions (id, type, stock_code, stock_name, new_stock_code, new_stock_name, ratio_from, ratio_to, ex_date, memo)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    id,
+    input.type,
+    input.stock_code,
+    input.stock_name || input.stock_code,
+    input.new_stock_code || null,
+    input.new_stock_name || null,
+    input.ratio_from,
+    input.ratio_to,
+    input.ex_date,
+    input.memo || null
+  )
+  return db.prepare('SELECT * FROM corporate_actions WHERE id = ?').get(id) as CorporateAction
+}
+
+export function deleteCorporateAction(id: string): void {
+  const db = getDatabase()
+  const action = db.prepare('SELECT status FROM corporate_actions WHERE id = ?').get(id) as { status: CorporateActionStatus } | undefined
+  if (action?.status === 'APPLIED') {
+    throw new Error('Undo the corporate action before deleting it')
+  }
+  db.prepare('DELETE FROM corporate_actions WHERE id = ?').run(id)
+}
+
+function isBefore(timestamp: string | null, exDate: string): boolean {
+  return !timestamp || timestamp.substring(0, 10) < exDate
+}
+
+export function applyCorporateAction(id: string): { transactions: number; holdings: number; accounts: number; skippedAccounts: number } {
+  const db = getDatabase()
+  const action = db.prepare('SELECT * FROM corporate_actions WHERE id = ?').get(id) as CorporateAction | undefined
+  if (!action) {
+    throw new Error('Corporate action not found')
+  }
+  if (action.status === 'APPLIED') {
+    throw new Error('Corporate action already applied')
+  }
+
+  const factor = actionFactor(action)
+  const target = targetStockCode(action)
+  const renamed = target !== action.stock_code
+  const codes = renamed ? [action.stock_code, target] : [action.stock_code]
+  const codeList = codes.map(() => '?').join(', ')
+  const targetName = renamed ? (action.new_stock_name || target) : null
+
+  const run = db.transaction(() => {
+    // 주식배당 입고를 취득단가 0 매수로 이미 가져온 계좌는 조정하지 않음 (수량 이중 반영 방지)
+    const recorded = new Set(action.type === 'STOCK_DIVIDEND'
+      ? (db.prepare(`
+          SELECT DISTINCT account_id FROM transactions
+          WHERE stock_code = ? AND type = 'BUY' AND price = 0 AND date >= ?
+        `).all(action.stock_code, action.ex_date) as Array<{ account_id: string }>).map(r => r.account_id)
+      : [])
+    const adjustable = <T extends { account_id: string }>(rows: T[]): T[] => rows.filter(r => !recorded.has(r.account_id))
+
+    // 되돌리기용 적용 이전 상태
+    const transactions = adjustable(db.prepare(`
+      SELECT id, account_id, stock_code, stock_name, quantity, price, date FROM transactions
+      WHERE stock_code = ? AND type IN ('BUY', 'SELL', 'DIVIDEND')
+    `).all(action.stock_code) as Array<AdjustableTrade & { id: string; account_id: string; date: string }>)
+    const transactionIds = new Set(transactions.map(t => t.id))
+    const selections = (db.prepare(`
+      SELECT s.sell_transaction_id, s.lot_id, s.quantity FROM tax_lot_selections s
+      JOIN transactions t ON s.sell_transaction_id = t.id
+      WHERE t.stock_code = ? AND t.date < ?
+    `).all(action.stock_code, action.ex_date) as UndoData['selections']).filter(s => transactionIds.has(s.sell_transaction_id))
+    const holdings = adjustable(db.prepare(`SELECT * FROM holdings WHERE stock_code IN (${codeList})`).all(...codes) as HoldingRow[])
+    const brokerHoldings = adjustable(db.prepare(`SELECT * FROM broker_holdings WHERE stock_code IN (${codeList})`).all(...codes) as BrokerHoldingRow[])
+    const signals = adjustable(db.prepare(`
+      SELECT id, account_id, holding_id, stock_code, stock_name, trigger_price, avg_cost, current_quantity, suggested_quantity, created_at
+      FROM strategy_signals WHERE stock_code = ?
+    `).all(action.stock_code) as SignalRow[])
+    const strategies = db.prepare('SELECT id, stock_code FROM trading_strategies WHERE stock_code = ?')
+      .all(action.stock_code) as UndoData['strategies']
+
+    const accounts = [...new Set([
+      ...transactions.map(t => t.account_id),
+      ...holdings.filter(h => h.stock_code === action.stock_code).map(h => h.account_id),
+      ...brokerHoldings.filter(h => h.stock_code === action.stock_code).map(h => h.account_id)
+    ])]
+
+    // 1. 거래내역: 권리락일 이전은 수량/단가 조정, 코드 변경 시 전체 이관
+    const updateTx = db.prepare('UPDATE transactions SET stock_code = ?, stock_name = ?, quantity = ?, price = ? WHERE id = ?')
+    let adjustedTransactions = 0
+    for (const t of transactions) {
+      if (t.date < action.ex_date) {
+        const adjusted = adjustTrade(t, action)
+        updateTx.run(adjusted.stock_code, adjusted.stock_name, adjusted.quantity, adjusted.price, t.id)
+        adjustedTransactions++
+      } else if (renamed) {
+        updateTx.run(target, targetName, t.quantity, t.price, t.id)
+      }
+    }
+    const updateSelection = db.prepare('UPDATE tax_lot_selections SET quantity = ? WHERE sell_transaction_id = ? AND lot_id = ?')
+    for (const s of selections) {
+      updateSelection.run(s.quantity * factor, s.sell_transaction_id, s.lot_id)
+    }
+
+    // 2. 보유종목: 권리락일 이전 스냅샷만 수량/평균단가 조정 후 코드 이관 (id 유지 → 매매 신호 보존)
+    let adjustedHoldings = 0
+    for (const h of holdings.filter(h => h.stock_code === action.stock_code)) {
+      const stale = isBefore(h.last_synced, action.ex_date)
+      const quantity = stale ? h.quantity * factor : h.quantity
+      const avgCost = stale ? h.avg_cost / factor : h.avg_cost
+      const existing = renamed ? holdings.find(o => o.account_id === h.account_id && o.stock_code === target) : undefined
+
+      if (existing) {
+        const merged = mergePositions(existing, { quantity, avg_cost: avgCost })
+        db.prepare('UPDATE holdings SET quantity = ?, avg_cost = ? WHERE id = ?').run(merged.quantity, merged.avg_cost, existing.id)
+        db.prepare('UPDATE strategy_signals SET holding_id = ? WHERE holding_id = ?').run(existing.id, h.id)
+        db.prepare('DELETE FROM holdings WHERE id = ?').run(h.id)
+      } else {
+        db.prepare('UPDATE holdings SET stock_code = ?, stock_name = ?, quantity = ?, avg_cost = ? WHERE id = ?')
+          .run(target, targetName ?? h.stock_name, quantity, avgCost, h.id)
+      }
+      adjustedHoldings++
+    }
+
+    // 3. 증권사 잔고 스냅샷 (대사 기준값)
+    for (const b of brokerHoldings.filter(b => b.stock_code === action.stock_code)) {
+      const stale = isBefore(b.captured_at, action.ex_date)
+      const quantity = stale ? b.quantity * factor : b.quantity
+      const avgCost = stale ? b.avg_cost / factor : b.avg_cost
+      const existing = renamed ? brokerHoldings.find(o => o.account_id === b.account_id && o.stock_code === target) : undefined
+      const merged = existing ? mergePositions(existing, { quantity, avg_cost: avgCost }) : { quantity, avg_cost: avgCost }
+
+      db.prepare('DELETE FROM broker_holdings WHERE account_id = ? AND stock_code = ?').run(b.account_id, b.stock_code)
+      db.prepare(`
+        INSERT OR REPLACE INTO broker_holdings (account_id, stock_code, stock_name, quantity, avg_cost, currency, source, captured_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      `).run(b.account_id, target, targetName ?? b.stock_name, merged.quantity, merged.avg_cost, b.currency, b.source, b.captured_at)
+    }
+
+    // 4. 매매 신호 / 전략 대상 종목
+    const updateSignal = db.prepare(`
+      UPDATE strategy_signals SET stock_code = ?, stock_name = ?, trigger_price = ?, avg_cost = ?,
+        current_quantity = ?, suggested_quantity = ?
+      WHERE id = ?
+    `)
+    for (const s of signals) {
+      const f = isBefore(s.created_at, action.ex_date) ? factor : 1
+      updateSignal.run(target, targetName ?? s.stock_name, s.trigger_price / f, s.avg_cost / f,
+        s.current_quantity * f, s.suggested_quantity * f, s.id)
+    }
+    if (renamed) {
+      db.prepare('UPDATE trading_strategies SET stock_code = ? WHERE stock_code = ?').run(target, action.stock_code)
+    }
+
+    // 5. lot 재구성 및 원장 재생 (이전 코드 lot 먼저 정리: lot id = 매수 거래 id)
+    for (const accountId of accounts) {
+      if (renamed) rebuildTaxLots(accountId, action.stock_code)
+      const ledger = db.prepare(`
+        SELECT COUNT(*) as count FROM transactions WHERE account_id = ? AND stock_code = ? AND type IN ('BUY', 'SELL')
+      `).get(accountId, target) as { count: number }
+      if (ledger.count > 0) replayHolding(accountId, target)
+    }
+
+    const undoData: UndoData = {
+      transactions: transactions.map(({ id, stock_code, stock_name, quantity, price }) => ({ id, stock_code, stock_name, quantity, price })),
+      selections,
+      holdings,
+      brokerHoldings,
+      signals,
+      strategies,
+      accounts
+    }
+    db.prepare(`
+      UPDATE corporate_actions SET status = 'APPLIED', applied_at = datetime('now'), undone_at = NULL, undo_data = ?
+      WHERE id = ?
+    `).run(JSON.stringify(undoData), id)
+
+    return { transactions: adjustedTransactions, holdings: adjustedHoldings, accounts: accounts.length, skippedAccounts: recorded.size }
+  })
+
+  return run()
+}
+
+export function undoCorporateAction(id: string): void {
+  const db = getDatabase()
+  const action = db.prepare('SELECT * FROM corporate_actions WHERE id = ?').get(id) as (CorporateAction & { undo_data: string | null }) | undefined
+  if (!action) {
+    throw new Error('Corporate action not found')
+  }
+  if (action.status !== 'APPLIED' || !action.undo_data) {
+    throw new Error('Corporate action is not applied')
+  }
+
+  const all = db.prepare('SELECT id, status, applied_at FROM corporate_actions').all() as Array<{ id: string; status: string; applied_at: string | null }>
+  if (findUndoableActionId(all) !== id) {
+    throw new Error('Only the most recently applied corporate action can be undone')
+  }
+
+  const undo = JSON.parse(action.undo_data) as UndoData
+  const target = targetStockCode(action)
+  const codes = [...new Set([action.stock_code, target])]
+  const codeList = codes.map(() => '?').join(', ')
+
+  const run = db.transaction(() => {
+    const updateTx = db.prepare('UPDATE transactions SET stock_code = ?, stock_name = ?, quantity = ?, price = ? WHERE id = ?')
+    for (const t of undo.transactions) {
+      updateTx.run(t.stock_code, t.stock_name, t.quantity, t.price, t.id)
+    }
+    const updateSelection = db.prepare('UPDATE tax_lot_selections SET quantity = ? WHERE sell_transaction_id = ? AND lot_id = ?')
+    for (const s of undo.selections) {
+      updateSelection.run(s.quantity, s.sell_transaction_id, s.lot_id)
+    }
+
+    // 보유종목: 적용 이후 생긴 행 제거 후 이전 행 복원 (id 유지)
+    const keepIds = new Set(undo.holdings.map(h => h.id))
+    const current = db.prepare(`SELECT id FROM holdings WHERE stock_code IN (${codeList})`).all(...codes) as Array<{ id: string }>
+    for (const h of current) {
+      if (!keepIds.has(h.id)) db.prepare('DELETE FROM holdings WHERE id = ?').run(h.id)
+    }
+    for (const h of undo.holdings) {
+      const exists = db.prepare('SELECT id FROM holdings WHERE id = ?').get(h.id)
+      if (exists) {
+        db.prepare(`
+          UPDATE holdings SET stock_code = ?, stock_name = ?, quantity = ?, avg_cost = ?, last_synced = ? WHERE id = ?
+        `).run(h.stock_code, h.stock_name, h.quantity, h.avg_cost, h.last_synced, h.id)
+      } else {
+        db.prepare(`
+          INSERT INTO holdings (id, account_id, stock_code, stock_name, quantity, avg_cost, current_price, prev_close, currency, last_synced)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `).run(h.id, h.account_id, h.stock_code, h.stock_name, h.quantity, h.avg_cost, h.current_price, h.prev_close, h.currency, h.last_synced)
+      }
+    }
+
+    db.prepare(`DELETE FROM broker_holdings WHERE stock_code IN (${codeList})`).run(...codes)
+    const insertBroker = db.prepare(`
+      INSERT INTO broker_holdings (account_id, stock_code, stock_name, quantity, avg_cost, currency, source, captured_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `)
+    for (const b of undo.brokerHoldings) {
+      insertBroker.run(b.account_id, b.stock_code, b.stock_name, b.quantity, b.avg_cost, b.currency, b.source, b.captured_at)
+    }
+
+    const updateSignal = db.prepare(`
+      UPDATE strategy_signals SET holding_id = ?, stock_code = ?, stock_name = ?, trigger_price = ?, avg_cost = ?,
+        current_quantity = ?, suggested_quantity = ?
+      WHERE id = ?
+    `)
+    for (const s of undo.signals) {
+      updateSignal.run(s.holding_id, s.stock_code, s.stock_name, s.trigger_price, s.avg_cost, s.current_quantity, s.suggested_quantity, s.id)
+    }
+    for (const s of undo.strategies) {
+      db.prepare('UPDATE trading_strategies SET stock_code = ? WHERE id = ?').run(s.stock_code, s.id)
+    }
+
+    // lot 재구성 (새 코드 lot 먼저 정리)
+    for (const accountId of undo.accounts) {
+      if (target !== action.stock_code) rebuildTaxLots(accountId, target)
+      rebuildTaxLots(accountId, action.stock_code)
+    }
+
+    db.prepare("UPDATE corporate_actions SET status = 'UNDONE', undone_at = datetime('now'), undo_data = NULL WHERE id = ?").run(id)
+  })
+
+  run()
+}
@@ -5,6 +5,39 @@ import { existsSync, mkdirSync } from 'fs'
 
 let db: Database.Database | null = null
 
+// transactions CHECK 제약 값 (값 추가 시 runMigrations에서 테이블 재생성)
+export const TRANSACTION_TYPES = ['BUY', 'SELL', 'DIVIDEND', 'DEPOSIT', 'WITHDRAWAL', 'INTEREST']
+export const TRANSACTION_SOURCES = ['API', 'MANUAL', 'EXCEL', 'OPENING', 'ADJUSTMENT']
+
+function sqlList(values: string[]): string {
+  return values.map(v => `'${v}'`).join(', ')
+}
+
+function transactionsTableSql(tableName: string): string {
+  return `
+    CREATE TABLE IF NOT EXISTS ${tableName} (
+      id TEXT PRIMARY KEY,
+      account_id TEXT NOT NULL,
+      stock_code TEXT NOT NULL,
+      stock_name TEXT NOT NULL,
+      type TEXT NOT NULL CHECK (type IN (${sqlList(TRANSACTION_TYPES)})),
+      quantity REAL NOT NULL,
+      price REAL NOT NULL,
+      total_amount REAL NOT NULL,
+      currency TEXT NOT NULL DEFAULT 'KRW',
+      date TEXT NOT NULL,
+      is_manual INTEGER NOT NULL DEFAULT 0,
+      source TEXT NOT NULL CHECK (source IN (${sqlList(TRANSACTION_SOURCES)})),
+      import_batch_id TEXT,
+      fx_rate REAL,
+      fee REAL NOT NULL DEFAULT 0,
+      tax REAL NOT NULL DEFAULT 0,
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      FOREIGN KEY (account_id) REFERENCES accounts(id) ON DELETE CASCADE
+    )
+  `
+}
+
 export function getDatabase(): Database.Database {
   if (!db) {
     throw new Error('Database not initialized')
@@ -12,16 +45,18 @@ export function getDatabase(): Database.Database {
   return db
 }
 
-export async function initDatabase(): Promise<void> {
-  const userDataPath = app.getPath('userData')
-  const dbDir = join(userDataPath, 'data')
+// dbPath 지정 시 해당 경로(':memory:' 포함) 사용 - 테스트용
+export async function initDatabase(dbPath?: string): Promise<void> {
+  if (!dbPath) {
+    const dbDir = join(app.getPath('userData'), 'data')
 
-  // Ensure data directory exists
-  if (!existsSync(dbDir)) {
-    mkdirSync(dbDir, { recursive: true })
-  }
+    // Ensure data directory exists
+    if (!existsSync(dbDir)) {
+      mkdirSync(dbDir, { recursive: true })
+    }
 
-  const dbPath = join(dbDir, 'family-assets.db')
+    dbPath = join(dbDir, 'family-assets.db')
+  }
   console.log('Database path:', dbPath)
 
   db = new Database(dbPath)
@@ -33,6 +68,9 @@ export async function initDatabase(): Promise<void> {
 
   // Run migrations
   runMigrations()
+
+  // Create views (테이블 마이그레이션 후 최신 정의로 재생성)
+  createViews()
 }
 
 function createTables(): void {
@@ -59,6 +97,8 @@ function createTables(): void {
       account_alias TEXT,
       api_key TEXT,
       api_secret TEXT,
+      cost_basis_method TEXT NOT NULL DEFAULT 'AVERAGE' CHECK (cost_basis_method IN ('FIFO', 'AVERAGE', 'SPECIFIC')),
+      rebalance_policy TEXT NOT NULL DEFAULT 'AUTO' CHECK (rebalance_policy IN ('AUTO', 'FULL', 'BUY_ONLY', 'HOLD')),
       created_at TEXT NOT NULL DEFAULT (datetime('now')),
       FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
     )
@@ -83,25 +123,7 @@ function createTables(): void {
   `)
 
   // Transactions table
-  database.exec(`
-    CREATE TABLE IF NOT EXISTS transactions (
-      id TEXT PRIMARY KEY,
-      account_id TEXT NOT NULL,
-      stock_code TEXT NOT NULL,
-      stock_name TEXT NOT NULL,
-      type TEXT NOT NULL CHECK (type IN ('BUY', 'SELL', 'DIVIDEND')),
-      quantity REAL NOT NULL,
-      price REAL NOT NULL,
-      total_amount REAL NOT NULL,
-      currency TEXT NOT NULL DEFAULT 'KRW',
-      date TEXT NOT NULL,
-      is_manual INTEGER NOT NULL DEFAULT 0,
-      source TEXT NOT NULL CHECK (source IN ('API', 'MANUAL', 'EXCEL')),
-      import_batch_id TEXT,
-      created_at TEXT NOT NULL DEFAULT (datetime('now')),
-      FOREIGN KEY (account_id) REFERENCES accounts(id) ON DELETE CASCADE
-    )
-  `)
+  database.exec(transactionsTableSql('transactions'))
 
   // Sync log table
   database.exec(`
@@ -180,18 +202,359 @@ function createTables(): void {
     )
   `)
 
+  // Securities table (종목 마스터)
+  database.exec(`
+    CREATE TABLE IF NOT EXISTS securities (
+      code TEXT PRIMARY KEY,
+      name_ko TEXT,
+      name_en TEXT,
+      yahoo_symbol TEXT,
+      naver_symbol TEXT,
+      market TEXT NOT NULL DEFAULT 'KR',
+      exchange TEXT,
+      asset_type TEXT NOT NULL DEFAULT 'STOCK' CHECK (asset_type IN ('STOCK', 'ETF', 'ETN', 'REIT', 'FUND')),
+      sector TEXT,
+      currency TEXT NOT NULL DEFAULT 'KRW',
+      quote_enabled INTEGER NOT NULL DEFAULT 1,
+      source TEXT NOT NULL DEFAULT 'USER' CHECK (source IN ('SEED', 'USER', 'AUTO')),
+      updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+    )
+  `)
+
+  // Security aliases table (증권사별 종목명/코드 → 표준코드, alias_key는 공백 제거·대문자)
+  database.exec(`
+    CREATE TABLE IF NOT EXISTS security_aliases (
+      alias_key TEXT PRIMARY KEY,
+      alias TEXT NOT NULL,
+      code TEXT NOT NULL,
+      FOREIGN KEY (code) REFERENCES securities(code) ON DELETE CASCADE ON UPDATE CASCADE
+    )
+  `)
+
+  // Tax lots table (매수 lot, id = 매수 거래 ID)
+  database.exec(`
+    CREATE TABLE IF NOT EXISTS tax_lots (
+      id TEXT PRIMARY KEY,
+      account_id TEXT NOT NULL,
+      stock_code TEXT NOT NULL,
+      stock_name TEXT NOT NULL,
+      acquired_date TEXT NOT NULL,
+      quantity REAL NOT NULL,
+      remaining_quantity REAL NOT NULL,
+      unit_cost REAL NOT NULL,
+      fee REAL NOT NULL DEFAULT 0,
+      currency TEXT NOT NULL DEFAULT 'KRW',
+      fx_rate REAL,
+      FOREIGN KEY (id) REFERENCES transactions(id) ON DELETE CASCADE,
+      FOREIGN KEY (account_id) REFERENCES accounts(id) ON DELETE CASCADE
+    )
+  `)
+
+  // Tax lot matches table (매도 ↔ lot 매칭 결과)
+  database.exec(`
+    CREATE TABLE IF NOT EXISTS tax_lot_matches (
+      id TEXT PRIMARY KEY,
+      sell_transaction_id TEXT NOT NULL,
+      lot_id TEXT NOT NULL,
+      account_id TEXT NOT NULL,
+      stock_code TEXT NOT NULL,
+      quantity REAL NOT NULL,
+      cost_basis REAL NOT NULL,
+      proceeds REAL NOT NULL,
+      fees REAL NOT NULL DEFAULT 0,
+      buy_fx_rate REAL,
+      sell_fx_rate REAL,
+      acquired_date TEXT NOT NULL,
+      sold_date TEXT NOT NULL,
+      method TEXT NOT NULL CHECK (method IN ('FIFO', 'AVERAGE', 'SPECIFIC')),
+      FOREIGN KEY (sell_transaction_id) REFERENCES transactions(id) ON DELETE CASCADE,
+      FOREIGN KEY (lot_id) REFERENCES tax_lots(id) ON DELETE CASCADE,
+      FOREIGN KEY (account_id) REFERENCES accounts(id) ON DELETE CASCADE
+    )
+  `)
+
+  // Tax lot selections table (개별 지정 매도 시 사용자가 고른 lot)
+  database.exec(`
+    CREATE TABLE IF NOT EXISTS tax_lot_selections (
+      sell_transaction_id TEXT NOT NULL,
+      lot_id TEXT NOT NULL,
+      quantity REAL NOT NULL,
+      PRIMARY KEY (sell_transaction_id, lot_id),
+      FOREIGN KEY (sell_transaction_id) REFERENCES transactions(id) ON DELETE CASCADE
+    )
+  `)
+
+  // FX rate history table (일자별 환율)
+  database.exec(`
+    CREATE TABLE IF NOT EXISTS fx_rate_history (
+      currency_pair TEXT NOT NULL,
+      date TEXT NOT NULL,
+      rate REAL NOT NULL,
+      source TEXT NOT NULL DEFAULT 'API' CHECK (source IN ('API', 'CSV', 'STANDIN')),
+      updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+      PRIMARY KEY (currency_pair, date)
+    )
+  `)
+
+  // Broker holdings table (증권사 잔고 스냅샷: API 동기화 / 엑셀 잔고 가져오기)
+  database.exec(`
+    CREATE TABLE IF NOT EXISTS broker_holdings (
+      account_id TEXT NOT NULL,
+      stock_code TEXT NOT NULL,
+      stock_name TEXT NOT NULL,
+      quantity REAL NOT NULL,
+      avg_cost REAL NOT NULL,
+      currency TEXT NOT NULL DEFAULT 'KRW',
+      source TEXT NOT NULL CHECK (source IN ('API', 'EXCEL')),
+      captured_at TEXT NOT NULL DEFAULT (datetime('now')),
+      PRIMARY KEY (account_id, stock_code),
+      FOREIGN KEY (account_id) REFERENCES accounts(id) ON DELETE CASCADE
+    )
+  `)
+
+  // Broker cash table (증권사 예수금 스냅샷: 원장 예수금과 대사용, 원장 잔고에는 반영하지 않음)
+  database.exec(`
+    CREATE TABLE IF NOT EXISTS broker_cash_balances (
+      account_id TEXT NOT NULL,
+      currency TEXT NOT NULL DEFAULT 'KRW',
+      balance REAL NOT NULL,
+      source TEXT NOT NULL CHECK (source IN ('API', 'EXCEL')),
+      captured_at TEXT NOT NULL DEFAULT (datetime('now')),
+      PRIMARY KEY (account_id, currency),
+      FOREIGN KEY (account_id) REFERENCES accounts(id) ON DELETE CASCADE
+    )
+  `)
+
+  // Opening balances table (원장 편입 시점의 스냅샷 보유종목, 기초잔고(OPENING) 거래 산출 기준)
+  database.exec(`
+    CREATE TABLE IF NOT EXISTS opening_balances (
+      account_id TEXT NOT NULL,
+      stock_code TEXT NOT NULL,
+      stock_name TEXT NOT NULL,
+      quantity REAL NOT NULL,
+      avg_cost REAL NOT NULL,
+      currency TEXT NOT NULL DEFAULT 'KRW',
+      snapshot_date TEXT NOT NULL,
+      import_batch_id TEXT,
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      PRIMARY KEY (account_id, stock_code),
+      FOREIGN KEY (account_id) REFERENCES accounts(id) ON DELETE CASCADE
+    )
+  `)
+
+  // Import batches table (가져오기 기록 및 되돌리기용 이전 상태)
+  database.exec(`
+    CREATE TABLE IF NOT EXISTS import_batches (
+      id TEXT PRIMARY KEY,
+      account_id TEXT NOT NULL,
+      kind TEXT NOT NULL CHECK (kind IN ('TRANSACTIONS', 'HOLDINGS')),
+      file_name TEXT,
+      overwrite INTEGER NOT NULL DEFAULT 0,
+      total_rows INTEGER NOT NULL DEFAULT 0,
+      imported INTEGER NOT NULL DEFAULT 0,
+      skipped INTEGER NOT NULL DEFAULT 0,
+      deleted INTEGER NOT NULL DEFAULT 0,
+      stock_codes TEXT,
+      holdings_before TEXT NOT NULL,
+      broker_holdings_before TEXT,
+      transactions_before TEXT,
+      status TEXT NOT NULL DEFAULT 'ACTIVE' CHECK (status IN ('ACTIVE', 'UNDONE')),
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      undone_at TEXT,
+      FOREIGN KEY (account_id) REFERENCES accounts(id) ON DELETE CASCADE
+    )
+  `)
+
+  // Cash balances table (확인된 계좌별·통화별 예수금, 이후 거래만 원장으로 반영)
+  database.exec(`
+    CREATE TABLE IF NOT EXISTS cash_balances (
+      account_id TEXT NOT NULL,
+      currency TEXT NOT NULL DEFAULT 'KRW',
+      balance REAL NOT NULL,
+      as_of TEXT NOT NULL,
+      source TEXT NOT NULL CHECK (source IN ('API', 'MANUAL')),
+      updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+      PRIMARY KEY (account_id, currency),
+      FOREIGN KEY (account_id) REFERENCES accounts(id) ON DELETE CASCADE
+    )
+  `)
+
+  // Corporate actions table (분할/병합/주식배당/합병/코드변경 및 되돌리기용 이전 상태)
+  database.exec(`
+    CREATE TABLE IF NOT EXISTS corporate_actions (
+      id TEXT PRIMARY KEY,
+      type TEXT NOT NULL CHECK (type IN ('SPLIT', 'REVERSE_SPLIT', 'STOCK_DIVIDEND', 'MERGER', 'CODE_CHANGE')),
+      stock_code TEXT NOT NULL,
+      stock_name TEXT NOT NULL,
+      new_stock_code TEXT,
+      new_stock_name TEXT,
+      ratio_from REAL NOT NULL DEFAULT 1,
+      ratio_to REAL NOT NULL DEFAULT 1,
+      ex_date TEXT NOT NULL,
+      memo TEXT,
+      status TEXT NOT NULL DEFAULT 'PENDING' CHECK (status IN ('PENDING', 'APPLIED', 'UNDONE')),
+      applied_at TEXT,
+      undone_at TEXT,
+      undo_data TEXT,
+      created_at TEXT NOT NULL DEFAULT (datetime('now'))
+    )
+  `)
+
+  // Portfolio snapshots table (일별 계좌·통화별 평가금액/원가/예수금/누적배당, 순자산 추이용)
+  database.exec(`
+    CREATE TABLE IF NOT EXISTS portfolio_snapshots (
+      user_id TEXT NOT NULL,
+      account_id TEXT NOT NULL,
+      currency TEXT NOT NULL DEFAULT 'KRW',
+      date TEXT NOT NULL,
+      market_value REAL NOT NULL DEFAULT 0,
+      cost_basis REAL NOT NULL DEFAULT 0,
+      cash REAL NOT NULL DEFAULT 0,
+      dividends REAL NOT NULL DEFAULT 0,
+      fx_rate REAL,
+      source TEXT NOT NULL CHECK (source IN ('LIVE', 'BACKFILL')),
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      PRIMARY KEY (account_id, currency, date),
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+      FOREIGN KEY (account_id) REFERENCES accounts(id) ON DELETE CASCADE
+    )
+  `)
+
+  // Benchmark history table (KOSPI/KOSDAQ/S&P 500/NASDAQ 일별 종가)
+  database.exec(`
+    CREATE TABLE IF NOT EXISTS benchmark_history (
+      benchmark TEXT NOT NULL,
+      date TEXT NOT NULL,
+      close REAL NOT NULL,
+      source TEXT NOT NULL CHECK (source IN ('API', 'CSV')),
+      updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+      PRIMARY KEY (benchmark, date)
+    )
+  `)
+
+  // Allocation targets table (목표 비중, user_id NULL = 가족 전체)
+  database.exec(`
+    CREATE TABLE IF NOT EXISTS allocation_targets (
+      id TEXT PRIMARY KEY,
+      user_id TEXT,
+      dimension TEXT NOT NULL CHECK (dimension IN ('ASSET_CLASS', 'REGION', 'CURRENCY', 'STOCK')),
+      target_key TEXT NOT NULL,
+      weight REAL NOT NULL,
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+    )
+  `)
+
+  // ETF constituents table (ETF 구성종목 비중, 로컬 CSV 가져오기 → 노출도 투시용)
+  database.exec(`
+    CREATE TABLE IF NOT EXISTS etf_constituents (
+      etf_code TEXT NOT NULL,
+      constituent_code TEXT,
+      constituent_name TEXT NOT NULL,
+      weight REAL NOT NULL,
+      sector TEXT,
+      country TEXT,
+      asset_class TEXT,
+      imported_at TEXT NOT NULL DEFAULT (datetime('now')),
+      PRIMARY KEY (etf_code, constituent_name)
+    )
+  `)
+
+  // Price history table (종목별 일봉: 시세 갱신 / 과거 이력 조회 / CSV / 오프라인 대체값)
+  database.exec(`
+    CREATE TABLE IF NOT EXISTS price_history (
+      stock_code TEXT NOT NULL,
+      date TEXT NOT NULL,
+      open REAL,
+      high REAL,
+      low REAL,
+      close REAL NOT NULL,
+      volume REAL,
+      source TEXT NOT NULL DEFAULT 'API' CHECK (source IN ('API', 'CSV', 'STANDIN')),
+      updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+      PRIMARY KEY (stock_code, date)
+    )
+  `)
+
+  // Quotes table (종목별 최신 시세, 보유종목은 priced_holdings 뷰로 조인 / 가족 전체 공유)
+  database.exec(`
+    CREATE TABLE IF NOT EXISTS quotes (
+      instrument_code TEXT PRIMARY KEY,
+      price REAL NOT NULL,
+      prev_close REAL,
+      currency TEXT NOT NULL DEFAULT 'KRW',
+      source TEXT NOT NULL,
+      as_of TEXT NOT NULL,
+      updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+    )
+  `)
+
+  // Price overrides table (비상장·조회 불가 종목의 수동 시세, 만료일까지 시세 갱신보다 우선)
+  database.exec(`
+    CREATE TABLE IF NOT EXISTS price_overrides (
+      instrument_code TEXT PRIMARY KEY,
+      price REAL NOT NULL CHECK (price > 0),
+      currency TEXT NOT NULL DEFAULT 'KRW',
+      valuation_date TEXT NOT NULL,
+      note TEXT,
+      expires_at TEXT,
+      updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+    )
+  `)
+
+  // Market holidays table (사용자 추가 휴장일, 기본 휴장일은 price-scheduler에 내장)
+  database.exec(`
+    CREATE TABLE IF NOT EXISTS market_holidays (
+      exchange TEXT NOT NULL CHECK (exchange IN ('KRX', 'NYSE')),
+      date TEXT NOT NULL,
+      name TEXT,
+      PRIMARY KEY (exchange, date)
+    )
+  `)
+
+  // Price refresh runs table (시세 갱신 이력, 일일 호출 예산 집계용 / ALL = 수동 전체 갱신)
+  database.exec(`
+    CREATE TABLE IF NOT EXISTS price_refresh_runs (
+      id TEXT PRIMARY KEY,
+      exchange TEXT NOT NULL CHECK (exchange IN ('KRX', 'NYSE', 'ALL')),
+      trigger TEXT NOT NULL CHECK (trigger IN ('SCHEDULED', 'MANUAL')),
+      run_date TEXT NOT NULL,
+      ran_at TEXT NOT NULL,
+      updated INTEGER NOT NULL DEFAULT 0,
+      failed INTEGER NOT NULL DEFAULT 0
+    )
+  `)
+
+  // App settings table (key-value 설정)
+  database.exec(`
+    CREATE TABLE IF NOT EXISTS app_settings (
+      key TEXT PRIMARY KEY,
+      value TEXT NOT NULL,
+      updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+    )
+  `)
+
   // Create indexes
   database.exec(`
     CREATE INDEX IF NOT EXISTS idx_accounts_user ON accounts(user_id);
     CREATE INDEX IF NOT EXISTS idx_holdings_account ON holdings(account_id);
     CREATE INDEX IF NOT EXISTS idx_transactions_account ON transactions(account_id);
     CREATE INDEX IF NOT EXISTS idx_transactions_date ON transactions(date);
+    CREATE INDEX IF NOT EXISTS idx_transactions_batch ON transactions(import_batch_id);
     CREATE INDEX IF NOT EXISTS idx_sync_logs_account ON sync_logs(account_id);
     CREATE INDEX IF NOT EXISTS idx_strategies_user ON trading_strategies(user_id);
     CREATE INDEX IF NOT EXISTS idx_signals_strategy ON strategy_signals(strategy_id);
     CREATE INDEX IF NOT EXISTS idx_signals_status ON strategy_signals(status);
     CREATE INDEX IF NOT EXISTS idx_signals_holding ON strategy_signals(holding_id);
     CREATE INDEX IF NOT EXISTS idx_ticker_mappings_name ON ticker_mappings(stock_name);
+    CREATE INDEX IF NOT EXISTS idx_security_aliases_code ON security_aliases(code);
+    CREATE INDEX IF NOT EXISTS idx_tax_lots_holding ON tax_lots(account_id, stock_code);
+    CREATE INDEX IF NOT EXISTS idx_tax_lot_matches_sell ON tax_lot_matches(sell_transaction_id);
+    CREATE INDEX IF NOT EXISTS idx_import_batches_account ON import_batches(account_id);
+    CREATE INDEX IF NOT EXISTS idx_corporate_actions_stock ON corporate_actions(stock_code);
+    CREATE INDEX IF NOT EXISTS idx_portfolio_snapshots_user ON portfolio_snapshots(user_id, date);
+    CREATE INDEX IF NOT EXISTS idx_allocation_targets_scope ON allocation_targets(user_id, dimension);
+    CREATE INDEX IF NOT EXISTS idx_price_refresh_runs_date ON price_refresh_runs(run_date);
   `)
 
   console.log('Database tables created successfully')
@@ -212,6 +575,59 @@ function runMigrations(): void {
     console.error('Migration error:', error)
   }
 
+  // 컬럼 추가 마이그레이션 (기존 DB에 없는 컬럼만)
+  const columnMigrations: Array<{ table: string; column: string; definition: string }> = [
+    // 거래일 기준 KRW 환율
+    { table: 'transactions', column: 'fx_rate', definition: 'REAL' },
+    // 거래 수수료
+    { table: 'transactions', column: 'fee', definition: 'REAL NOT NULL DEFAULT 0' },
+    { table: 'transactions', column: 'tax', definition: 'REAL NOT NULL DEFAULT 0' },
+    // lot 매칭 방식
+    { table: 'accounts', column: 'cost_basis_method', definition: `TEXT NOT NULL DEFAULT 'AVERAGE' CHECK (cost_basis_method IN ('FIFO', 'AVERAGE', 'SPECIFIC'))` },
+    // lot / 매칭별 수수료 및 환율
+    { table: 'tax_lots', column: 'fee', definition: 'REAL NOT NULL DEFAULT 0' },
+    { table: 'tax_lot_matches', column: 'fees', definition: 'REAL NOT NULL DEFAULT 0' },
+    { table: 'tax_lot_matches', column: 'buy_fx_rate', definition: 'REAL' },
+    { table: 'tax_lot_matches', column: 'sell_fx_rate', definition: 'REAL' },
+    // 계좌별 리밸런싱 정책
+    { table: 'accounts', column: 'rebalance_policy', definition: `TEXT NOT NULL DEFAULT 'AUTO' CHECK (rebalance_policy IN ('AUTO', 'FULL', 'BUY_ONLY', 'HOLD'))` }
+  ]
+
+  for (const { table, column, definition } of columnMigrations) {
+    try {
+      const columns = database.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>
+      if (!columns.some(col => col.name === column)) {
+        database.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`)
+        console.log(`Migration: Added ${column} column to ${table}`)
+      }
+    } catch (error) {
+      console.error('Migration error:', error)
+    }
+  }
+
+  // transactions CHECK 제약 갱신 (type/source 값 추가 시 테이블 재생성)
+  try {
+    migrateTransactionsTable(database)
+  } catch (error) {
+    console.error('Transactions table migration error:', error)
+  }
+
+  // 증권사 예수금(API)을 대사용 스냅샷 테이블로 이관 (원장 예수금 고정 해제)
+  try {
+    const moved = database.transaction(() => {
+      database.exec(`
+        INSERT OR IGNORE INTO broker_cash_balances (account_id, currency, balance, source, captured_at)
+        SELECT account_id, currency, balance, 'API', updated_at FROM cash_balances WHERE source = 'API'
+      `)
+      return database.prepare("DELETE FROM cash_balances WHERE source = 'API'").run().changes
+    })()
+    if (moved > 0) {
+      console.log(`Migration: Moved ${moved} broker cash balances to broker_cash_balances`)
+    }
+  } catch (error) {
+    console.error('Broker cash migration error:', error)
+  }
+
   // 기본 티커 매핑 추가
   try {
     const defaultMappings = [
@@ -237,6 +653,85 @@ function runMigrations(): void {
   }
 }
 
+// 보유종목 + 시세: 종목 마스터 코드/별칭으로 표준 종목코드를 해석해 수동 시세 → quotes 순으로 조인
+// (둘 다 없으면 증권사 동기화/가져오기 때 저장된 holdings.current_price 사용)
+function createViews(): void {
+  const database = getDatabase()
+
+  database.exec(`
+    DROP VIEW IF EXISTS priced_holdings;
+    CREATE VIEW priced_holdings AS
+    SELECT
+      h.id, h.account_id, h.stock_code, h.stock_name, h.quantity, h.avg_cost,
+      CASE WHEN o.price > 0 THEN o.price WHEN q.price > 0 THEN q.price ELSE h.current_price END AS current_price,
+      CASE WHEN o.price > 0 THEN o.price WHEN q.price > 0 THEN COALESCE(q.prev_close, q.price) ELSE h.prev_close END AS prev_close,
+      h.currency, h.last_synced, h.instrument_code,
+      CASE WHEN o.price > 0 THEN 'MANUAL' WHEN q.price > 0 THEN 'QUOTE' ELSE 'BROKER' END AS price_basis,
+      q.source AS quote_source,
+      q.as_of AS quote_as_of,
+      o.valuation_date AS manual_valuation_date,
+      o.note AS manual_note,
+      o.expires_at AS manual_expires_at
+    FROM (
+      SELECT holdings.*, COALESCE(
+        (SELECT s.code FROM securities s WHERE s.code = UPPER(TRIM(holdings.stock_code))),
+        (SELECT a.code FROM security_aliases a WHERE a.alias_key = UPPER(REPLACE(holdings.stock_code, ' ', ''))),
+        (SELECT a.code FROM security_aliases a WHERE a.alias_key = UPPER(REPLACE(holdings.stock_name, ' ', ''))),
+        holdings.stock_code
+      ) AS instrument_code
+      FROM holdings
+    ) h
+    LEFT JOIN quotes q ON q.instrument_code = h.instrument_code
+    LEFT JOIN price_overrides o ON o.instrument_code = h.instrument_code
+      AND (o.expires_at IS NULL OR o.expires_at >= date('now', 'localtime'));
+  `)
+}
+
+// SQLite는 CHECK 제약을 변경할 수 없으므로 새 테이블로 복사 후 교체
+function migrateTransactionsTable(database: Database.Database): void {
+  const row = database.prepare("SELECT sql FROM sqlite_master WHERE type = 'table' AND name = 'transactions'").get() as { sql: string } | undefined
+  if (!row) return
+
+  const required = [...TRANSACTION_TYPES, ...TRANSACTION_SOURCES]
+  if (required.every(value => row.sql.includes(`'${value}'`))) return
+
+  const oldColumns = (database.prepare('PRAGMA table_info(transactions)').all() as Array<{ name: string }>).map(c => c.name)
+
+  database.pragma('foreign_keys = OFF')
+  try {
+    database.transaction(() => {
+      database.exec(transactionsTableSql('transactions_new'))
+      const newColumns = (database.prepare('PRAGMA table_info(transactions_new)').all() as Array<{ name: string }>).map(c => c.name)
+      const columns = oldColumns.filter(c => newColumns.includes(c)).join(', ')
+
+      database.exec(`INSERT INTO transactions_new (${columns}) SELECT ${columns} FROM transactions`)
+      database.exec('DROP TABLE transactions')
+      database.exec('ALTER TABLE transactions_new RENAME TO transactions')
+      database.exec(`
+        CREATE INDEX IF NOT EXISTS idx_transactions_account ON transactions(account_id);
+        CREATE INDEX IF NOT EXISTS idx_transactions_date ON transactions(date);
+        CREATE INDEX IF NOT EXISTS idx_transactions_batch ON transactions(import_batch_id);
+      `)
+    })()
+    console.log('Migration: Rebuilt transactions table with updated CHECK constraints')
+  } finally {
+    database.pragma('foreign_keys = ON')
+  }
+}
+
+// ===== App Settings =====
+export function getSetting(key: string): string | null {
+  const row = getDatabase().prepare('SELECT value FROM app_settings WHERE key = ?').get(key) as { value: string } | undefined
+  return row ? row.value : null
+}
+
+export function setSetting(key: string, value: string): void {
+  getDatabase().prepare(`
+    INSERT INTO app_settings (key, value, updated_at) VALUES (?, ?, datetime('now'))
+    ON CONFLICT(key) DO UPDATE SET value = excluded.value, updated_at = excluded.updated_at
+  `).run(key, value)
+}
+
 export function closeDatabase(): void {
   if (db) {
     db.close()
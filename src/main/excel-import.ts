@@ -16,6 +16,8 @@ export interface ImportRow {
   quantity: number
   price: number
   currency: string
+  fee?: number              // 수수료
+  tax?: number              // 세금 (거래세 등)
   isValid: boolean
   errors: string[]
 }
@@ -38,7 +40,9 @@ const TYPE_MAPPINGS: Record<string, 'BUY' | 'SELL' | 'DIVIDEND'> = {
   '배당': 'DIVIDEND',
   '배당금': 'DIVIDEND',
   '현금배당': 'DIVIDEND',
-  '주식배당': 'DIVIDEND',
+  '주식배당': 'BUY',
+  '무상증자': 'BUY',
+  '무상주': 'BUY',
   '입고': 'BUY',
   '출고': 'SELL',
   // English
@@ -49,6 +53,9 @@ const TYPE_MAPPINGS: Record<string, 'BUY' | 'SELL' | 'DIVIDEND'> = {
   'sale': 'SELL'
 }
 
+// 무상 입고 (취득단가 0)
+const ZERO_COST_TYPES = ['주식배당', '무상증자', '무상주']
+
 // 통화 매핑
 const CURRENCY_MAPPINGS: Record<string, string> = {
   '원': 'KRW',
@@ -71,7 +78,9 @@ const COLUMN_MAPPINGS = {
   type: ['거래유형', '거래구분', '유형', '구분', 'type', 'trade_type', '매매구분'],
   quantity: ['수량', '거래수량', 'quantity', 'qty', '체결수량'],
   price: ['단가', '거래단가', '가격', 'price', '체결단가', '체결가'],
-  currency: ['통화', '화폐', 'currency', '결제통화']
+  currency: ['통화', '화폐', 'currency', '결제통화'],
+  fee: ['수수료', '거래수수료', '위탁수수료', 'fee', 'commission'],
+  tax: ['세금', '제세금', '거래세', '증권거래세', 'tax']
 }
 
 function findColumnIndex(headers: string[], mappings: string[]): number {
@@ -169,6 +178,8 @@ function parseLegacy(data: unknown[][]): ImportRow[] {
   const quantityCol = findColumnIndex(headers, COLUMN_MAPPINGS.quantity)
   const priceCol = findColumnIndex(headers, COLUMN_MAPPINGS.price)
   const currencyCol = findColumnIndex(headers, COLUMN_MAPPINGS.currency)
+  const feeCol = findColumnIndex(headers, COLUMN_MAPPINGS.fee)
+  const taxCol = findColumnIndex(headers, COLUMN_MAPPINGS.tax)
 
   const rows: ImportRow[] = []
 
@@ -191,10 +202,13 @@ function parseLegacy(data: unknown[][]): ImportRow[] {
     const quantity = parseNumber(row[quantityCol])
     if (quantity === null || quantity <= 0) errors.push('Invalid quantity')
 
-    const price = parseNumber(row[priceCol])
+    const zeroCost = ZERO_COST_TYPES.includes(String(row[typeCol] ?? '').trim())
+    const price = zeroCost ? 0 : parseNumber(row[priceCol])
     if (price === null || price < 0) errors.push('Invalid price')
 
     const currency = currencyCol !== -1 ? parseCurrency(row[currencyCol]) : 'KRW'
+    const fee = feeCol !== -1 ? parseNumber(row[feeCol]) : null
+    const tax = taxCol !== -1 ? parseNumber(row[taxCol]) : null
 
     rows.push({
       date: date || '',
@@ -204,6 +218,8 @@ function parseLegacy(data: unknown[][]): ImportRow[] {
       quantity: quantity || 0,
       price: price || 0,
       currency,
+      fee: Math.abs(fee || 0),
+      tax: Math.abs(tax || 0),
       isValid: errors.length === 0,
       errors
     })
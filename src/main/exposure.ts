@@ -0,0 +1,360 @@
+/**
+ * Exposure Analytics
+ * 섹터/국가/자산군별 노출도 (보유종목 기준)
+ * ETF 구성종목 비중(로컬 CSV)을 이용해 ETF를 기초자산으로 투시(look-through)
+ */
+
+import * as fs from 'fs'
+import { getDatabase } from './database'
+import { loadFxTable, toBaseCurrency } from './valuation'
+import { assetClassOf, regionOf } from './rebalancing'
+import { findSecurity, getSecurityIndex, isKoreanEtfName } from './securities'
+import { canonicalCode } from './instrument-identity'
+
+// ===== 타입 정의 =====
+export type ExposureDimension = 'SECTOR' | 'COUNTRY' | 'ASSET_CLASS'
+
+export const EXPOSURE_DIMENSIONS: ExposureDimension[] = ['SECTOR', 'COUNTRY', 'ASSET_CLASS']
+
+// 섹터 정보가 없는 종목
+export const UNKNOWN_KEY = 'UNKNOWN'
+
+export interface EtfConstituent {
+  etf_code: string
+  constituent_code: string | null
+  constituent_name: string
+  weight: number              // ETF 내 비중 (%)
+  sector: string | null
+  country: string | null      // 국가코드 (KR, US, ...)
+  asset_class: string | null  // EQUITY, BOND, ...
+}
+
+export interface ExposurePosition {
+  stock_code: string
+  stock_name: string
+  currency: string
+  value: number               // 평가금액 (기준통화 환산)
+  sector: string | null       // 종목 마스터 섹터
+  is_etf: boolean
+}
+
+export interface ExposureRow {
+  key: string
+  value: number
+  weight: number              // %
+  look_through_value: number  // 이 중 ETF 투시로 배분된 금액
+}
+
+export interface ExposureReport {
+  baseCurrency: string
+  user_id: string | null      // null: 가족 전체
+  dimension: ExposureDimension
+  look_through: boolean
+  total_value: number
+  looked_through_value: number
+  rows: ExposureRow[]
+  etfs_without_data: Array<{ stock_code: string; stock_name: string; value: number }>
+}
+
+export interface ConstituentCoverage {
+  etf_code: string
+  count: number
+  total_weight: number
+  imported_at: string
+}
+
+export interface ConstituentImportResult {
+  success: boolean
+  etfs: number
+  saved: number
+  error?: string
+}
+
+// ===== 구성종목 CSV 파싱 (순수 함수) =====
+
+const HEADER_ALIASES: Record<keyof EtfConstituent, string[]> = {
+  etf_code: ['etf_code', 'etfcode', 'etf', 'etf코드'],
+  constituent_name: ['name', 'constituent_name', 'constituentname', '종목명', '구성종목명', '구성종목'],
+  constituent_code: ['code', 'constituent_code', 'constituentcode', 'ticker', '종목코드', '티커'],
+  weight: ['weight', '비중', '구성비중', '비중%', 'weight%'],
+  sector: ['sector', '섹터', '업종'],
+  country: ['country', '국가'],
+  asset_class: ['asset_class', 'assetclass', '자산군', '자산구분']
+}
+
+const COUNTRY_ALIASES: Record<string, string> = {
+  '한국': 'KR', '대한민국': 'KR', KOREA: 'KR', 'SOUTH KOREA': 'KR', KOR: 'KR',
+  '미국': 'US', USA: 'US', 'UNITED STATES': 'US',
+  '중국': 'CN', CHINA: 'CN', CHN: 'CN',
+  '홍콩': 'HK', 'HONG KONG': 'HK',
+  '일본': 'JP', JAPAN: 'JP', JPN: 'JP',
+  '대만': 'TW', TAIWAN: 'TW',
+  '인도': 'IN', INDIA: 'IN',
+  '영국': 'GB', 'UNITED KINGDOM': 'GB', UK: 'GB',
+  '독일': 'DE', GERMANY: 'DE',
+  '프랑스': 'FR', FRANCE: 'FR',
+  '네덜란드': 'NL', NETHERLANDS: 'NL',
+  '캐나다': 'CA', CANADA: 'CA',
+  '스위스': 'CH', SWITZERLAND: 'CH'
+}
+
+const ASSET_CLASS_ALIASES: Record<string, string> = {
+  '주식': 'EQUITY', STOCK: 'EQUITY',
+  '채권': 'BOND',
+  '원자재': 'COMMODITY',
+  '리츠': 'REIT',
+  '현금': 'CASH', '현금성자산': 'CASH', '예금': 'CASH'
+}
+
+function normalizeHeader(cell: string): string {
+  return cell.replace(/[\s()]/g, '').toLowerCase()
+}
+
+function splitCsvLine(line: string): string[] {
+  return line
+    .split(/,(?=(?:[^"]*"[^"]*")*[^"]*$)/)
+    .map(cell => cell.replace(/^"|"$/g, '').trim())
+}
+
+export function normalizeCountry(value: string | null | undefined): string | null {
+  const trimmed = value?.trim()
+  if (!trimmed) return null
+  const upper = trimmed.toUpperCase()
+  return COUNTRY_ALIASES[trimmed] || COUNTRY_ALIASES[upper] || upper
+}
+
+export function normalizeAssetClass(value: string | null | undefined): string | null {
+  const trimmed = value?.trim()
+  if (!trimmed) return null
+  const upper = trimmed.toUpperCase()
+  return ASSET_CLASS_ALIASES[trimmed] || ASSET_CLASS_ALIASES[upper] || upper
+}
+
+// 헤더 필수: 종목명, 비중 (+ ETF코드 열이 없으면 etfCode 인자로 지정)
+export function parseConstituentCsv(content: string, etfCode?: string): EtfConstituent[] {
+  const lines = content.replace(/^﻿/, '').split(/\r?\n/).filter(line => line.trim())
+  if (lines.length === 0) return []
+
+  const headers = splitCsvLine(lines[0]).map(normalizeHeader)
+  const column = (field: keyof EtfConstituent) => headers.findIndex(h => HEADER_ALIASES[field].includes(h))
+  const columns = Object.fromEntries(
+    (Object.keys(HEADER_ALIASES) as Array<keyof EtfConstituent>).map(field => [field, column(field)])
+  ) as Record<keyof EtfConstituent, number>
+
+  if (columns.constituent_name < 0 || columns.weight < 0) {
+    throw new Error('종목명과 비중 열이 필요합니다')
+  }
+  if (columns.etf_code < 0 && !etfCode) {
+    throw new Error('ETF 코드 열이 없습니다. 가져올 ETF를 선택해주세요')
+  }
+
+  const byKey = new Map<string, EtfConstituent>()
+  for (const line of lines.slice(1)) {
+    const cells = splitCsvLine(line)
+    const cell = (field: keyof EtfConstituent) => (columns[field] >= 0 ? cells[columns[field]] || '' : '')
+
+    const etf = (cell('etf_code') || etfCode || '').trim()
+    const name = cell('constituent_name')
+    const weight = parseFloat(cell('weight').replace(/[,%]/g, ''))
+    if (!etf || !name || isNaN(weight) || weight <= 0) continue
+
+    // 같은 ETF의 같은 종목이 여러 번 나오면 비중 합산
+    const key = `${etf}|${name}`
+    const existing = byKey.get(key)
+    if (existing) {
+      existing.weight += weight
+      continue
+    }
+    byKey.set(key, {
+      etf_code: etf,
+      constituent_code: cell('constituent_code') || null,
+      constituent_name: name,
+      weight,
+      sector: cell('sector') || null,
+      country: normalizeCountry(cell('country')),
+      asset_class: normalizeAssetClass(cell('asset_class'))
+    })
+  }
+
+  return [...byKey.values()]
+}
+
+// ===== 노출도 계산 (순수 함수) =====
+
+export function isEtfPosition(stockName: string, assetType?: string | null): boolean {
+  return assetType === 'ETF' || assetType === 'ETN' || isKoreanEtfName(stockName) || /\bETF\b/i.test(stockName)
+}
+
+export function exposureKeyOf(dimension: ExposureDimension, position: Pick<ExposurePosition, 'stock_code' | 'stock_name' | 'currency' | 'sector'>): string {
+  switch (dimension) {
+    case 'SECTOR':
+      return position.sector?.trim() || UNKNOWN_KEY
+    case 'COUNTRY':
+      return regionOf(position)
+    case 'ASSET_CLASS':
+      return assetClassOf(position)
+  }
+}
+
+function constituentKeyOf(dimension: ExposureDimension, constituent: EtfConstituent, etf: ExposurePosition): string {
+  switch (dimension) {
+    case 'SECTOR':
+      return constituent.sector?.trim() || UNKNOWN_KEY
+    case 'COUNTRY':
+      return constituent.country || regionOf(etf)
+    case 'ASSET_CLASS':
+      return constituent.asset_class || assetClassOf(etf)
+  }
+}
+
+// ETF 구성종목이 있으면 비중대로 배분 (합계 100% 미만은 ETF 자체 분류, 초과는 정규화)
+export function computeExposure(
+  dimension: ExposureDimension,
+  positions: ExposurePosition[],
+  constituentsByEtf: Map<string, EtfConstituent[]>,
+  lookThrough: boolean
+): { rows: ExposureRow[]; total_value: number; looked_through_value: number } {
+  const totals = new Map<string, { value: number; look_through_value: number }>()
+  const add = (key: string, value: number, lookedThrough: boolean) => {
+    const entry = totals.get(key) || { value: 0, look_through_value: 0 }
+    entry.value += value
+    if (lookedThrough) entry.look_through_value += value
+    totals.set(key, entry)
+  }
+
+  let totalValue = 0
+  let lookedThroughValue = 0
+  for (const position of positions) {
+    if (position.value <= 0) continue
+    totalValue += position.value
+
+    const constituents = lookThrough ? constituentsByEtf.get(position.stock_code) : undefined
+    const weightSum = constituents ? constituents.reduce((sum, c) => sum + c.weight, 0) : 0
+    if (!constituents || weightSum <= 0) {
+      add(exposureKeyOf(dimension, position), position.value, false)
+      continue
+    }
+
+    const scale = Math.max(weightSum, 100)
+    for (const c of constituents) {
+      add(constituentKeyOf(dimension, c, position), position.value * c.weight / scale, true)
+    }
+    const covered = position.value * weightSum / scale
+    lookedThroughValue += covered
+    if (position.value - covered > 0.005) {
+      add(exposureKeyOf(dimension, position), position.value - covered, false)
+    }
+  }
+
+  const rows = [...totals.entries()]
+    .map(([key, t]) => ({
+      key,
+      value: t.value,
+      weight: totalValue > 0 ? (t.value / totalValue) * 100 : 0,
+      look_through_value: t.look_through_value
+    }))
+    .sort((a, b) => b.value - a.value)
+
+  return { rows, total_value: totalValue, looked_through_value: lookedThroughValue }
+}
+
+// ===== DB 연동 =====
+
+// ETF 코드는 종목 마스터 표준 코드로 저장 (파일에 있는 ETF는 구성종목을 통째로 교체)
+export function saveConstituents(constituents: EtfConstituent[]): { etfs: number; saved: number } {
+  const db = getDatabase()
+  const index = getSecurityIndex()
+  const rows = constituents.map(c => ({ ...c, etf_code: canonicalCode(index, c.etf_code, null) }))
+  const etfs = [...new Set(rows.map(r => r.etf_code))]
+
+  const insert = db.prepare(`
+    INSERT OR REPLACE INTO etf_constituents (etf_code, constituent_code, constituent_name, weight, sector, country, asset_class)
+    VALUES (@etf_code, @constituent_code, @constituent_name, @weight, @sector, @country, @asset_class)
+  `)
+  db.transaction(() => {
+    for (const etf of etfs) {
+      db.prepare('DELETE FROM etf_constituents WHERE etf_code = ?').run(etf)
+    }
+    for (const row of rows) insert.run(row)
+  })()
+
+  return { etfs: etfs.length, saved: rows.length }
+}
+
+export function importConstituentCsvFile(filePath: string, etfCode?: string): ConstituentImportResult {
+  try {
+    const constituents = parseConstituentCsv(fs.readFileSync(filePath, 'utf-8'), etfCode)
+    if (constituents.length === 0) {
+      return { success: false, etfs: 0, saved: 0, error: '유효한 구성종목 데이터가 없습니다' }
+    }
+    return { success: true, ...saveConstituents(constituents) }
+  } catch (error) {
+    return { success: false, etfs: 0, saved: 0, error: error instanceof Error ? error.message : 'Unknown error' }
+  }
+}
+
+export function getConstituentCoverage(): ConstituentCoverage[] {
+  const db = getDatabase()
+  return db.prepare(`
+    SELECT etf_code, COUNT(*) as count, SUM(weight) as total_weight, MAX(imported_at) as imported_at
+    FROM etf_constituents
+    GROUP BY etf_code
+    ORDER BY etf_code
+  `).all() as ConstituentCoverage[]
+}
+
+export function deleteConstituents(etfCode: string): void {
+  const db = getDatabase()
+  db.prepare('DELETE FROM etf_constituents WHERE etf_code = ?').run(etfCode)
+}
+
+export async function getExposureReport(userId: string | null, dimension: ExposureDimension, lookThrough: boolean = true): Promise<ExposureReport> {
+  if (!EXPOSURE_DIMENSIONS.includes(dimension)) {
+    throw new Error(`지원하지 않는 노출도 기준입니다: ${dimension}`)
+  }
+
+  const db = getDatabase()
+  const holdings = db.prepare(`
+    SELECT h.stock_code, h.stock_name, h.currency, SUM(h.quantity * h.current_price) as value
+    FROM priced_holdings h
+    JOIN accounts a ON h.account_id = a.id
+    WHERE h.quantity > 0 ${userId ? 'AND a.user_id = ?' : ''}
+    GROUP BY h.stock_code, h.currency
+  `).all(...(userId ? [userId] : [])) as Array<{ stock_code: string; stock_name: string; currency: string; value: number }>
+
+  const fx = await loadFxTable(holdings.map(h => h.currency))
+  // 환율이 없는 외화 보유분은 제외
+  const positions: ExposurePosition[] = holdings.flatMap(h => {
+    const value = toBaseCurrency(h.value, h.currency, fx)
+    if (value === null) return []
+    const security = findSecurity({ code: h.stock_code })
+    return [{
+      stock_code: h.stock_code,
+      stock_name: h.stock_name,
+      currency: h.currency,
+      value,
+      sector: security?.sector ?? null,
+      is_etf: isEtfPosition(h.stock_name, security?.asset_type)
+    }]
+  })
+
+  const constituentsByEtf = new Map<string, EtfConstituent[]>()
+  const constituents = db.prepare('SELECT * FROM etf_constituents').all() as EtfConstituent[]
+  for (const c of constituents) {
+    constituentsByEtf.set(c.etf_code, [...(constituentsByEtf.get(c.etf_code) || []), c])
+  }
+
+  const result = computeExposure(dimension, positions, constituentsByEtf, lookThrough)
+
+  return {
+    baseCurrency: fx.baseCurrency,
+    user_id: userId,
+    dimension,
+    look_through: lookThrough,
+    ...result,
+    etfs_without_data: positions
+      .filter(p => p.is_etf && p.value > 0 && !constituentsByEtf.has(p.stock_code))
+      .sort((a, b) => b.value - a.value)
+      .map(p => ({ stock_code: p.stock_code, stock_name: p.stock_name, value: p.value }))
+  }
+}
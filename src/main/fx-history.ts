@@ -0,0 +1,345 @@
+/**
+ * FX Rate History Service
+ * 일자별 환율 이력 (CSV / Frankfurter 시계열 / 오프라인 대체값)
+ * 외화 거래의 거래일 환율 고정 및 환차익 분리 계산
+ */
+
+import * as fs from 'fs'
+import { getDatabase } from './database'
+import { FRANKFURTER_API } from './market-data-api'
+import { httpFetch } from './http-client'
+import { rebuildTaxLots } from './tax-lots'
+
+// ===== 타입 정의 =====
+export type FxRateSource = 'API' | 'CSV' | 'STANDIN'
+
+export interface DatedFxRate {
+  date: string   // YYYY-MM-DD
+  rate: number
+}
+
+export interface FxRateLookup extends DatedFxRate {
+  source: FxRateSource
+}
+
+export interface FxBackfillResult {
+  success: boolean
+  pair: string
+  saved: number
+  standIn: number
+  error?: string
+}
+
+export interface FxLedgerEntry {
+  type: 'BUY' | 'SELL' | 'DIVIDEND'
+  quantity: number
+  total_amount: number
+  fx_rate: number | null
+  date: string
+}
+
+export interface FxReturnSplit {
+  costForeign: number
+  valueForeign: number
+  costBase: number        // 매수 시점 환율 기준 원가 (KRW)
+  valueBase: number       // 현재 환율 기준 평가액 (KRW)
+  priceGain: number       // 주가 변동 손익 (매수 환율 기준)
+  fxGain: number          // 환차익
+  totalGain: number
+}
+
+// ===== 날짜 유틸 =====
+
+// 2024-01-02 / 2024.01.02 / 2024/01/02 / 20240102 → 2024-01-02
+export function normalizeFxDate(value: string): string | null {
+  const trimmed = value.trim()
+  const compact = trimmed.match(/^(\d{4})(\d{2})(\d{2})$/)
+  if (compact) return `${compact[1]}-${compact[2]}-${compact[3]}`
+
+  const separated = trimmed.match(/^(\d{4})[-./](\d{1,2})[-./](\d{1,2})/)
+  if (separated) {
+    return `${separated[1]}-${separated[2].padStart(2, '0')}-${separated[3].padStart(2, '0')}`
+  }
+  return null
+}
+
+function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`)
+  d.setUTCDate(d.getUTCDate() + days)
+  return d.toISOString().split('T')[0]
+}
+
+// 주말을 제외한 영업일 목록
+export function listBusinessDays(startDate: string, endDate: string): string[] {
+  const days: string[] = []
+  for (let date = startDate; date <= endDate; date = addDays(date, 1)) {
+    const day = new Date(`${date}T00:00:00Z`).getUTCDay()
+    if (day !== 0 && day !== 6) days.push(date)
+  }
+  return days
+}
+
+// ===== CSV 파싱 =====
+
+// "날짜,환율" 형식 (헤더/따옴표/천단위 콤마 허용)
+export function parseFxCsv(content: string): DatedFxRate[] {
+  const rates = new Map<string, number>()
+
+  for (const line of content.split(/\r?\n/)) {
+    if (!line.trim()) continue
+
+    const cells = line
+      .split(/,(?=(?:[^"]*"[^"]*")*[^"]*$)/)
+      .map(cell => cell.replace(/^"|"$/g, '').trim())
+    if (cells.length < 2) continue
+
+    const date = normalizeFxDate(cells[0])
+    const rate = parseFloat(cells[1].replace(/,/g, ''))
+    if (!date || isNaN(rate) || rate <= 0) continue
+
+    rates.set(date, rate)
+  }
+
+  return [...rates.entries()]
+    .map(([date, rate]) => ({ date, rate }))
+    .sort((a, b) => a.date.localeCompare(b.date))
+}
+
+// ===== 저장 / 조회 =====
+
+// STANDIN 값은 실제 값(API/CSV)을 덮어쓰지 않음
+export function saveFxRates(pair: string, rates: DatedFxRate[], source: FxRateSource): number {
+  const db = getDatabase()
+  const stmt = db.prepare(`
+    INSERT INTO fx_rate_history (currency_pair, date, rate, source) VALUES (?, ?, ?, ?)
+    ON CONFLICT(currency_pair, date) DO UPDATE SET
+      rate = excluded.rate, source = excluded.source, updated_at = datetime('now')
+    WHERE excluded.source != 'STANDIN' OR fx_rate_history.source = 'STANDIN'
+  `)
+
+  let saved = 0
+  const run = db.transaction(() => {
+    for (const r of rates) {
+      saved += stmt.run(pair, r.date, r.rate, source).changes
+    }
+  })
+  run()
+  return saved
+}
+
+// 해당 일자 환율 (없으면 직전 영업일, 그것도 없으면 가장 가까운 이후 값)
+export function getFxRateOnDate(pair: string, date: string): FxRateLookup | null {
+  const db = getDatabase()
+  const before = db.prepare(`
+    SELECT date, rate, source FROM fx_rate_history
+    WHERE currency_pair = ? AND date <= ?
+    ORDER BY date DESC LIMIT 1
+  `).get(pair, date) as FxRateLookup | undefined
+  if (before) return before
+
+  const after = db.prepare(`
+    SELECT date, rate, source FROM fx_rate_history
+    WHERE currency_pair = ? AND date > ?
+    ORDER BY date ASC LIMIT 1
+  `).get(pair, date) as FxRateLookup | undefined
+  return after || null
+}
+
+// 고정 가능한 환율: 거래일 당일 또는 직전의 실제 환율(API/CSV)만
+// 거래일 이후 환율이나 대체값은 이력이 보강될 때까지 고정하지 않음
+export function isLockableFxRate(lookup: FxRateLookup | null, date: string): lookup is FxRateLookup {
+  return !!lookup && lookup.date <= date && lookup.source !== 'STANDIN'
+}
+
+// 거래 저장 시 고정할 환율 (KRW 거래 또는 고정 가능한 환율이 없으면 null)
+export function resolveTradeFxRate(currency: string | undefined, date: string): number | null {
+  if (!currency || currency === 'KRW') return null
+  const lookup = getFxRateOnDate(`${currency}/KRW`, date)
+  return isLockableFxRate(lookup, date) ? lookup.rate : null
+}
+
+export function getFxHistoryCoverage(pair: string): { pair: string; count: number; firstDate: string | null; lastDate: string | null; standIn: number } {
+  const db = getDatabase()
+  const row = db.prepare(`
+    SELECT COUNT(*) as count, MIN(date) as firstDate, MAX(date) as lastDate,
+           SUM(CASE WHEN source = 'STANDIN' THEN 1 ELSE 0 END) as standIn
+    FROM fx_rate_history WHERE currency_pair = ?
+  `).get(pair) as { count: number; firstDate: string | null; lastDate: string | null; standIn: number | null }
+  return { pair, ...row, standIn: row.standIn || 0 }
+}
+
+// ===== 백필 =====
+
+export function importFxCsvFile(filePath: string, pair: string = 'USD/KRW'): FxBackfillResult {
+  try {
+    const content = fs.readFileSync(filePath, 'utf-8')
+    const rates = parseFxCsv(content)
+    if (rates.length === 0) {
+      return { success: false, pair, saved: 0, standIn: 0, error: '유효한 환율 데이터가 없습니다' }
+    }
+    return { success: true, pair, saved: saveFxRates(pair, rates, 'CSV'), standIn: 0 }
+  } catch (error) {
+    return { success: false, pair, saved: 0, standIn: 0, error: error instanceof Error ? error.message : 'Unknown error' }
+  }
+}
+
+export async function fetchFxTimeSeries(from: string, to: string, startDate: string, endDate: string): Promise<DatedFxRate[]> {
+  const response = await httpFetch(`${FRANKFURTER_API}/${startDate}..${endDate}?from=${from}&to=${to}`)
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}`)
+  }
+
+  const data = await response.json() as { rates: Record<string, Record<string, number>> }
+  return Object.entries(data.rates || {})
+    .filter(([, rates]) => rates[to] > 0)
+    .map(([date, rates]) => ({ date, rate: rates[to] }))
+    .sort((a, b) => a.date.localeCompare(b.date))
+}
+
+// 오프라인 대체값: 비어있는 영업일을 직전(없으면 최초) 알려진 환율로 채움
+export function buildStandInRates(known: DatedFxRate[], days: string[], fallbackRate: number | null): DatedFxRate[] {
+  const sorted = [...known].sort((a, b) => a.date.localeCompare(b.date))
+  const knownDates = new Set(sorted.map(r => r.date))
+  const result: DatedFxRate[] = []
+
+  let index = 0
+  let last: number | null = null
+  for (const day of days) {
+    while (index < sorted.length && sorted[index].date <= day) {
+      last = sorted[index].rate
+      index++
+    }
+    if (knownDates.has(day)) continue
+
+    const rate = last ?? (sorted.length > 0 ? sorted[0].rate : fallbackRate)
+    if (rate && rate > 0) result.push({ date: day, rate })
+  }
+  return result
+}
+
+export async function backfillFxHistory(
+  from: string,
+  to: string,
+  startDate: string,
+  endDate: string = new Date().toISOString().split('T')[0]
+): Promise<FxBackfillResult> {
+  const pair = `${from}/${to}`
+
+  try {
+    const rates = await fetchFxTimeSeries(from, to, startDate, endDate)
+    return { success: true, pair, saved: saveFxRates(pair, rates, 'API'), standIn: 0 }
+  } catch (error) {
+    console.error(`Failed to fetch FX time series ${pair}:`, error)
+
+    // 오프라인: 저장된 이력 + 마지막 조회 환율로 대체값 생성
+    const db = getDatabase()
+    const known = db.prepare(`
+      SELECT date, rate FROM fx_rate_history
+      WHERE currency_pair = ? AND source != 'STANDIN'
+      ORDER BY date
+    `).all(pair) as DatedFxRate[]
+    const lastRate = db.prepare(
+      'SELECT rate FROM exchange_rates WHERE currency_pair = ? ORDER BY fetched_at DESC LIMIT 1'
+    ).get(pair) as { rate: number } | undefined
+
+    const standIns = buildStandInRates(known, listBusinessDays(startDate, endDate), lastRate?.rate ?? null)
+    const saved = saveFxRates(pair, standIns, 'STANDIN')
+
+    return {
+      success: saved > 0 || known.length > 0,
+      pair,
+      saved,
+      standIn: saved,
+      error: `Offline stand-in used: ${error instanceof Error ? error.message : 'Unknown error'}`
+    }
+  }
+}
+
+// 외화 거래에 거래일 환율 기록
+// 이력 보강 후에는 고정된 환율도 다시 확인해 거래일 환율(일자·출처)이 바뀐 거래를 갱신
+// (이전에 고정된 이후 날짜 환율·대체값은 고정 가능한 환율이 없으면 비움)
+export function lockTransactionFxRates(): { updated: number; missing: number } {
+  const db = getDatabase()
+  const rows = db.prepare(`
+    SELECT id, account_id, stock_code, type, currency, date, fx_rate FROM transactions
+    WHERE currency != 'KRW'
+  `).all() as Array<{ id: string; account_id: string; stock_code: string; type: string; currency: string; date: string; fx_rate: number | null }>
+
+  const update = db.prepare('UPDATE transactions SET fx_rate = ? WHERE id = ?')
+  let updated = 0
+  let missing = 0
+  const touched = new Map<string, { account_id: string; stock_code: string }>()
+
+  const run = db.transaction(() => {
+    for (const row of rows) {
+      const rate = resolveTradeFxRate(row.currency, row.date)
+      if (rate === null) missing++
+      if (rate === row.fx_rate) continue
+
+      update.run(rate, row.id)
+      if (rate !== null) updated++
+      if (row.type === 'BUY' || row.type === 'SELL') {
+        touched.set(`${row.account_id}|${row.stock_code}`, { account_id: row.account_id, stock_code: row.stock_code })
+      }
+    }
+
+    // lot 원가 환율도 갱신된 거래 환율로 재구성
+    for (const t of touched.values()) {
+      rebuildTaxLots(t.account_id, t.stock_code)
+    }
+  })
+  run()
+
+  return { updated, missing }
+}
+
+// ===== 환차익 계산 =====
+
+// 이동평균 방식으로 남은 수량의 원가 환율 계산 (매도 시 원화/외화 원가를 같은 비율로 차감)
+export function computeLockedCostFxRate(entries: FxLedgerEntry[], fallbackRate: number): number {
+  let quantity = 0
+  let costForeign = 0
+  let costBase = 0
+
+  const sorted = [...entries].sort((a, b) => a.date.localeCompare(b.date))
+  for (const entry of sorted) {
+    if (entry.type === 'BUY') {
+      quantity += entry.quantity
+      costForeign += entry.total_amount
+      costBase += entry.total_amount * (entry.fx_rate ?? fallbackRate)
+    } else if (entry.type === 'SELL' && quantity > 0) {
+      const ratio = Math.min(entry.quantity / quantity, 1)
+      costForeign -= costForeign * ratio
+      costBase -= costBase * ratio
+      quantity -= Math.min(entry.quantity, quantity)
+    }
+  }
+
+  return costForeign > 0 ? costBase / costForeign : fallbackRate
+}
+
+// 외화 자산 손익 = 주가 손익(매수 환율 기준) + 환차익(현재가 × 환율 변동)
+export function splitFxReturn(
+  quantity: number,
+  avgCost: number,
+  currentPrice: number,
+  costFxRate: number,
+  currentFxRate: number
+): FxReturnSplit {
+  const costForeign = quantity * avgCost
+  const valueForeign = quantity * currentPrice
+  const costBase = costForeign * costFxRate
+  const valueBase = valueForeign * currentFxRate
+  const priceGain = (valueForeign - costForeign) * costFxRate
+  const fxGain = valueForeign * (currentFxRate - costFxRate)
+
+  return {
+    costForeign,
+    valueForeign,
+    costBase,
+    valueBase,
+    priceGain,
+    fxGain,
+    totalGain: valueBase - costBase
+  }
+}
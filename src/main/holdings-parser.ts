@@ -5,260 +5,20 @@
 
 import * as XLSX from 'xlsx'
 import { readFileSync } from 'fs'
+import { findSecurity, guessOverseasTicker, isKoreanCompanyEnglishName, isKoreanEtfName } from './securities'
 
-// ===== 해외주식 판별 데이터 =====
-
-// 알려진 해외주식 (한글명 -> 티커 매핑)
-const KNOWN_OVERSEAS_STOCKS: Record<string, string> = {
-  // 빅테크
-  '애플': 'AAPL',
-  '마이크로소프트': 'MSFT',
-  '알파벳': 'GOOGL',
-  '구글': 'GOOGL',
-  '아마존': 'AMZN',
-  '아마존닷컴': 'AMZN',
-  '메타': 'META',
-  '메타 플랫폼스': 'META',
-  '엔비디아': 'NVDA',
-  '테슬라': 'TSLA',
-  '넷플릭스': 'NFLX',
-
-  // 반도체/테크
-  '브로드컴': 'AVGO',
-  '어도비': 'ADBE',
-  '세일즈포스': 'CRM',
-  '오라클': 'ORCL',
-  '인텔': 'INTC',
-  'AMD': 'AMD',
-  '퀄컴': 'QCOM',
-  '마이크론': 'MU',
-  'ASML': 'ASML',
-  'TSMC': 'TSM',
-  '대만반도체': 'TSM',
-  '어플라이드머티리얼즈': 'AMAT',
-  '램리서치': 'LRCX',
-  'KLA': 'KLAC',
-  '시놉시스': 'SNPS',
-  '케이던스': 'CDNS',
-  '마벨테크놀로지': 'MRVL',
-  'ARM': 'ARM',
-  '암홀딩스': 'ARM',
-  '팔란티어': 'PLTR',
-  '스노우플레이크': 'SNOW',
-  '크라우드스트라이크': 'CRWD',
-  '데이터독': 'DDOG',
-  '서비스나우': 'NOW',
-
-  // 금융
-  'JP모건': 'JPM',
-  'JP모간': 'JPM',
-  '뱅크오브아메리카': 'BAC',
-  '웰스파고': 'WFC',
-  '골드만삭스': 'GS',
-  '모건스탠리': 'MS',
-  '비자': 'V',
-  '마스터카드': 'MA',
-  '아메리칸익스프레스': 'AXP',
-  '페이팔': 'PYPL',
-  '블랙록': 'BLK',
-  '찰스슈왑': 'SCHW',
-  'HSBC': 'HSBC',
-  'HSBC홀딩스': 'HSBC',
-  '버크셔해서웨이': 'BRK.B',
-
-  // 헬스케어
-  '존슨앤드존슨': 'JNJ',
-  '존슨앤존슨': 'JNJ',
-  '유나이티드헬스': 'UNH',
-  '화이자': 'PFE',
-  '머크': 'MRK',
-  '애브비': 'ABBV',
-  '일라이릴리': 'LLY',
-  '노보노디스크': 'NVO',
-  '암젠': 'AMGN',
-  '길리어드': 'GILD',
-  '모더나': 'MRNA',
-  '바이오엔테크': 'BNTX',
-
-  // 소비재
-  '월마트': 'WMT',
-  '코스트코': 'COST',
-  '홈디포': 'HD',
-  '맥도날드': 'MCD',
-  '스타벅스': 'SBUX',
-  '나이키': 'NKE',
-  '코카콜라': 'KO',
-  '펩시코': 'PEP',
-  '프록터앤드갬블': 'PG',
-  'P&G': 'PG',
-  '루이비통': 'LVMUY',
-  'LVMH': 'LVMUY',
-
-  // 산업재
-  '보잉': 'BA',
-  '캐터필러': 'CAT',
-  '유니온퍼시픽': 'UNP',
-  '허니웰': 'HON',
-  '3M': 'MMM',
-  '레이시온': 'RTX',
-  '록히드마틴': 'LMT',
-  '제너럴일렉트릭': 'GE',
-  'GE': 'GE',
-
-  // 에너지
-  '엑손모빌': 'XOM',
-  '셰브론': 'CVX',
-
-  // 통신
-  'AT&T': 'T',
-  '버라이즌': 'VZ',
-  '티모바일': 'TMUS',
-  '디즈니': 'DIS',
-  '월트디즈니': 'DIS',
-  '컴캐스트': 'CMCSA',
-
-  // 중국 ADR
-  '알리바바': 'BABA',
-  '텐센트': 'TCEHY',
-  '바이두': 'BIDU',
-  'JD닷컴': 'JD',
-  '징동': 'JD',
-  '핀둬둬': 'PDD',
-  '니오': 'NIO',
-  '샤오펑': 'XPEV',
-  '리오토': 'LI',
-  'BYD': 'BYDDY',
-  '비야디': 'BYDDY',
-
-  // AI/클라우드
-  '코어위브': 'CRWV',
-  '슈퍼마이크로': 'SMCI',
-  'C3.ai': 'AI',
-  '빅베어AI': 'BBAI',
-  '사운드하운드': 'SOUN',
-
-  // 기타
-  '마라홀딩스': 'MARA',
-  '마라 홀딩스': 'MARA',
-  '넷스코프': 'NTSK',
-  '리졸브AI': 'RZLV',
-  '리졸브 AI': 'RZLV',
-  '트윌리오': 'TWLO',
-  '줌비디오': 'ZM',
-  '도큐사인': 'DOCU',
-  '로블록스': 'RBLX',
-  '유니티': 'U',
-  '코인베이스': 'COIN',
-  '로빈후드': 'HOOD',
-  '업스타트': 'UPST',
-  '어펌': 'AFRM',
-  '리비안': 'RIVN',
-  '루시드': 'LCID',
-
-  // 항공/우주
-  '아처 에비에이션': 'ACHR',
-  '아처에비에이션': 'ACHR',
-  '조비 에비에이션': 'JOBY',
-  '조비에비에이션': 'JOBY',
-  '불리쉬': 'BWLSH',  // Bullish
-  '버진갤럭틱': 'SPCE',
-  '로켓랩': 'RKLB',
-
-  // 원자재/에너지
-  '카메코': 'CCJ',
-  '우라늄에너지': 'UEC',
-
-  // 암호화폐/블록체인
-  '비트마인 이머션 테크놀로지스': 'BTBT',
-  '비트마인 이머전 테크놀로지스': 'BTBT',  // 오타 대응
-  '비트마인': 'BTBT',
-  '라이엇플랫폼스': 'RIOT',
-  '마이크로스트래티지': 'MSTR',
-
-  // IBM (별도 추가)
-  'IBM': 'IBM',
-}
-
-// 해외 ETF 패턴 (한국 ETF가 아닌 미국 ETF)
-const OVERSEAS_ETF_PATTERNS = [
-  'YIELDMAX',
-  'PROSHARES',
-  'DIREXION',
-  'GRAYSCALE',
-  'ISHARES',
-  'SPDR',
-  'INVESCO',
-  'VANECK',
-  'ARK ',
-  'REX ',
-]
+// ===== 해외주식 판별 =====
 
-// 한국 기업이지만 영문 이름인 경우 (해외 주식으로 오인 방지)
-const KOREAN_COMPANIES_ENGLISH_NAME = [
-  'NAVER', 'KAKAO', 'LG', 'SK', 'POSCO', 'HYUNDAI', 'SAMSUNG',
-  'HANWHA', 'CJ', 'LOTTE', 'GS', 'KUMHO', 'HANA', 'SHINHAN',
-  'KB', 'NH', 'WOORI', 'DOUZONE', 'NCSOFT', 'NEXON', 'NETMARBLE',
-  'KRAFTON', 'PEARL ABYSS', 'DEVSISTERS', 'COM2US'
-]
-
-// 해외주식 판별 함수
+// 한국 기업 영문명 → 종목 마스터 → 종목명 규칙 순
 function detectOverseasStock(stockName: string): { isOverseas: boolean; ticker: string } {
-  const trimmedName = stockName.trim()
-  const upperName = trimmedName.toUpperCase()
-
-  // 0. 한국 기업 영문명 체크 (해외로 오인 방지)
-  for (const korCompany of KOREAN_COMPANIES_ENGLISH_NAME) {
-    if (upperName.startsWith(korCompany) || upperName === korCompany) {
-      return { isOverseas: false, ticker: '' }
-    }
-  }
-
-  // 1. 정확한 매칭
-  if (KNOWN_OVERSEAS_STOCKS[trimmedName]) {
-    return { isOverseas: true, ticker: KNOWN_OVERSEAS_STOCKS[trimmedName] }
-  }
-
-  // 2. 부분 매칭 (종목명에 포함된 경우)
-  for (const [korName, ticker] of Object.entries(KNOWN_OVERSEAS_STOCKS)) {
-    if (trimmedName.includes(korName) || korName.includes(trimmedName)) {
-      return { isOverseas: true, ticker }
-    }
-  }
-
-  // 3. 해외 ETF 패턴 체크 (YIELDMAX, REX 등)
-  for (const pattern of OVERSEAS_ETF_PATTERNS) {
-    if (upperName.includes(pattern.trim())) {
-      // 티커 추출 시도
-      const words = trimmedName.split(/\s+/)
-      const possibleTicker = words.find(w => /^[A-Z]{2,5}$/.test(w))
-      return { isOverseas: true, ticker: possibleTicker || pattern.trim() }
-    }
+  if (isKoreanCompanyEnglishName(stockName)) {
+    return { isOverseas: false, ticker: '' }
   }
-
-  // 4. 영문 티커 형식 (1-5자리 대문자) - 단, 한국 기업 제외됨
-  if (/^[A-Z]{1,5}$/.test(trimmedName)) {
-    return { isOverseas: true, ticker: trimmedName }
+  const security = findSecurity({ name: stockName })
+  if (security) {
+    return { isOverseas: security.market !== 'KR', ticker: security.code }
   }
-
-  // 5. 영문 티커 + 한글 설명 형식 (예: "AAPL 애플")
-  const tickerMatch = trimmedName.match(/^([A-Z]{1,5})\s/)
-  if (tickerMatch) {
-    return { isOverseas: true, ticker: tickerMatch[1] }
-  }
-
-  return { isOverseas: false, ticker: '' }
-}
-
-// 한국 ETF 판별 (해외지수 추종이어도 한국 ETF)
-function isKoreanETF(stockName: string): boolean {
-  const etfPrefixes = [
-    'KODEX', 'TIGER', 'KBSTAR', 'ARIRANG', 'HANARO',
-    'KOSEF', 'KINDEX', 'SOL', 'ACE', 'RISE', 'KoAct',
-    'TIMEFOLIO', 'FOCUS', 'PLUS', 'SMART', 'WOORI'
-  ]
-
-  const upperName = stockName.toUpperCase()
-  return etfPrefixes.some(prefix => upperName.startsWith(prefix))
+  return guessOverseasTicker(stockName)
 }
 
 // 파싱된 보유종목 데이터
@@ -488,7 +248,7 @@ function parseSamsung(data: unknown[][]): ParsedHolding[] {
     let isOverseas = false
     let stockCode = ''
 
-    if (isKoreanETF(stockName)) {
+    if (isKoreanEtfName(stockName)) {
       // 한국 ETF: KODEX 미국나스닥 등도 국내 상품
       isOverseas = false
     } else {
@@ -707,6 +467,13 @@ export function parseHoldingsFile(filePath: string): HoldingsImportResult {
         return result
     }
 
+    // 후처리: 종목코드가 없으면 종목 마스터에서 보강
+    for (const h of holdings) {
+      if (!h.stockCode) {
+        h.stockCode = findSecurity({ name: h.stockName })?.code || ''
+      }
+    }
+
     // 후처리: 500배 기준 USD 자동 감지
     // currency가 KRW인데 가격 비율이 500배 이상이면 USD로 변경
     for (const h of holdings) {
@@ -0,0 +1,344 @@
+/**
+ * HTTP Client
+ * 외부 시세/증권사 API 공용 호출 - 호스트별 토큰 버킷 호출 제한, 429/5xx 지터 백오프 재시도, 서킷 브레이커
+ * 출처(네이버, Yahoo, 환율, 한국투자증권)별 오류 통계를 설정 화면에 제공
+ */
+
+// ===== 타입 정의 =====
+export type HttpErrorKind = 'RATE_LIMITED' | 'SERVER' | 'CLIENT' | 'TIMEOUT' | 'NETWORK' | 'CIRCUIT_OPEN'
+export type BreakerState = 'CLOSED' | 'OPEN' | 'HALF_OPEN'
+
+export interface HttpSource {
+  id: string
+  name: string
+  hosts: string[]
+  ratePerSec: number    // 초당 허용 호출 (토큰 보충 속도)
+  burst: number         // 버킷 크기 (순간 최대 호출)
+}
+
+export interface TokenBucket {
+  tokens: number        // 음수 = 이미 예약된 대기 호출
+  updated_at: number
+}
+
+export interface CircuitBreaker {
+  state: BreakerState
+  consecutive_failures: number
+  opened_at: number | null
+}
+
+export interface HttpRequestOptions {
+  retries?: number
+  timeoutMs?: number
+}
+
+export interface HostBreakerStatus {
+  host: string
+  state: BreakerState
+  consecutive_failures: number
+  retry_at: string | null
+}
+
+export interface NetworkStatus {
+  offline: boolean      // 마지막 호출이 네트워크 오류로 실패 (응답을 하나라도 받으면 해제)
+  since: string | null
+  last_error: string | null
+}
+
+export interface HttpSourceStats {
+  id: string
+  name: string
+  requests: number
+  successes: number
+  failures: number
+  retries: number
+  errors: Record<HttpErrorKind, number>
+  last_status: number | null
+  last_error: string | null
+  last_error_at: string | null
+  last_success_at: string | null
+  breakers: HostBreakerStatus[]
+}
+
+export const HTTP_SOURCES: HttpSource[] = [
+  {
+    id: 'naver',
+    name: '네이버 금융',
+    hosts: ['polling.finance.naver.com', 'fchart.stock.naver.com', 'ac.stock.naver.com'],
+    ratePerSec: 5,
+    burst: 5
+  },
+  { id: 'yahoo', name: 'Yahoo Finance', hosts: ['query1.finance.yahoo.com', 'query2.finance.yahoo.com'], ratePerSec: 2, burst: 4 },
+  { id: 'frankfurter', name: 'Frankfurter (환율)', hosts: ['api.frankfurter.app'], ratePerSec: 2, burst: 4 },
+  // 한국투자증권: 실전 초당 20건, 모의 초당 2건 제한
+  { id: 'kis', name: '한국투자증권', hosts: ['openapi.koreainvestment.com'], ratePerSec: 15, burst: 15 },
+  { id: 'kis-paper', name: '한국투자증권 (모의)', hosts: ['openapivts.koreainvestment.com'], ratePerSec: 2, burst: 2 }
+]
+
+const DEFAULT_RATE_PER_SEC = 2
+const MAX_RETRIES = 2
+const BASE_BACKOFF_MS = 500
+const MAX_BACKOFF_MS = 8000
+const TIMEOUT_MS = 10 * 1000
+const BREAKER_THRESHOLD = 5             // 연속 실패 시 차단
+const BREAKER_COOLDOWN_MS = 60 * 1000   // 차단 후 재시도까지 대기
+
+const ERROR_KINDS: HttpErrorKind[] = ['RATE_LIMITED', 'SERVER', 'CLIENT', 'TIMEOUT', 'NETWORK', 'CIRCUIT_OPEN']
+const CLOSED_BREAKER: CircuitBreaker = { state: 'CLOSED', consecutive_failures: 0, opened_at: null }
+
+const buckets = new Map<string, TokenBucket>()
+const breakers = new Map<string, CircuitBreaker>()
+const stats = new Map<string, HttpSourceStats>()
+let network: NetworkStatus = { offline: false, since: null, last_error: null }
+
+// ===== 호출 제한 / 재시도 / 차단 (순수 함수) =====
+
+export function sourceForHost(host: string): HttpSource {
+  return HTTP_SOURCES.find(s => s.hosts.includes(host)) ||
+    { id: host, name: host, hosts: [host], ratePerSec: DEFAULT_RATE_PER_SEC, burst: DEFAULT_RATE_PER_SEC }
+}
+
+// 토큰 1개 예약: 부족하면 보충될 때까지 기다릴 시간 반환 (동시 호출은 순서대로 대기)
+export function takeToken(
+  bucket: TokenBucket | undefined,
+  ratePerSec: number,
+  burst: number,
+  now: number
+): { bucket: TokenBucket; waitMs: number } {
+  const current = bucket || { tokens: burst, updated_at: now }
+  const refilled = Math.min(burst, current.tokens + ((now - current.updated_at) / 1000) * ratePerSec)
+  const tokens = refilled - 1
+  return {
+    bucket: { tokens, updated_at: now },
+    waitMs: tokens < 0 ? Math.ceil((-tokens / ratePerSec) * 1000) : 0
+  }
+}
+
+export function classifyStatus(status: number): HttpErrorKind | null {
+  if (status === 429) return 'RATE_LIMITED'
+  if (status >= 500) return 'SERVER'
+  if (status >= 400) return 'CLIENT'
+  return null
+}
+
+export function isRetryable(kind: HttpErrorKind): boolean {
+  return kind === 'RATE_LIMITED' || kind === 'SERVER' || kind === 'TIMEOUT' || kind === 'NETWORK'
+}
+
+// Retry-After 헤더 (초 또는 HTTP 날짜) → 대기 ms
+export function parseRetryAfter(header: string | null | undefined, now: number): number | null {
+  if (!header) return null
+  const seconds = Number(header)
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000)
+  const at = Date.parse(header)
+  return isNaN(at) ? null : Math.max(0, at - now)
+}
+
+// 지수 백오프 (절반 고정 + 절반 지터), 서버가 지정한 대기 시간이 있으면 우선
+export function backoffDelay(attempt: number, retryAfterMs: number | null, random: () => number = Math.random): number {
+  if (retryAfterMs !== null) return Math.min(retryAfterMs, MAX_BACKOFF_MS)
+  const exp = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** attempt)
+  return Math.round(exp / 2 + random() * (exp / 2))
+}
+
+// 차단 중이면 대기 시간이 지난 뒤 시험 호출 1건 허용 (HALF_OPEN)
+export function breakerAllows(breaker: CircuitBreaker | undefined, now: number): { allowed: boolean; breaker: CircuitBreaker } {
+  const current = breaker || CLOSED_BREAKER
+  if (current.state !== 'OPEN') return { allowed: current.state === 'CLOSED', breaker: current }
+  if (current.opened_at !== null && now - current.opened_at >= BREAKER_COOLDOWN_MS) {
+    return { allowed: true, breaker: { ...current, state: 'HALF_OPEN' } }
+  }
+  return { allowed: false, breaker: current }
+}
+
+export function recordBreaker(breaker: CircuitBreaker | undefined, success: boolean, now: number): CircuitBreaker {
+  if (success) return CLOSED_BREAKER
+  const current = breaker || CLOSED_BREAKER
+  const consecutive = current.consecutive_failures + 1
+  if (current.state === 'HALF_OPEN' || consecutive >= BREAKER_THRESHOLD) {
+    return { state: 'OPEN', consecutive_failures: consecutive, opened_at: now }
+  }
+  return { ...current, consecutive_failures: consecutive }
+}
+
+// ===== 통계 =====
+
+function statsFor(source: HttpSource): HttpSourceStats {
+  let entry = stats.get(source.id)
+  if (!entry) {
+    entry = {
+      id: source.id,
+      name: source.name,
+      requests: 0,
+      successes: 0,
+      failures: 0,
+      retries: 0,
+      errors: Object.fromEntries(ERROR_KINDS.map(k => [k, 0])) as Record<HttpErrorKind, number>,
+      last_status: null,
+      last_error: null,
+      last_error_at: null,
+      last_success_at: null,
+      breakers: []
+    }
+    stats.set(source.id, entry)
+  }
+  return entry
+}
+
+function recordFailure(entry: HttpSourceStats, kind: HttpErrorKind, message: string, status: number | null): void {
+  entry.failures++
+  entry.errors[kind]++
+  entry.last_status = status
+  entry.last_error = message
+  entry.last_error_at = new Date().toISOString()
+}
+
+// 호출 이력이 있는 출처 (등록 순)
+export function getHttpStats(now: number = Date.now()): HttpSourceStats[] {
+  const order = (id: string): number => {
+    const index = HTTP_SOURCES.findIndex(s => s.id === id)
+    return index < 0 ? HTTP_SOURCES.length : index
+  }
+  return [...stats.values()]
+    .sort((a, b) => order(a.id) - order(b.id))
+    .map(entry => ({
+      ...entry,
+      errors: { ...entry.errors },
+      breakers: [...breakers.entries()]
+        .filter(([host]) => sourceForHost(host).id === entry.id)
+        .map(([host, b]) => ({
+          host,
+          state: b.state === 'OPEN' && b.opened_at !== null && now - b.opened_at >= BREAKER_COOLDOWN_MS ? 'HALF_OPEN' : b.state,
+          consecutive_failures: b.consecutive_failures,
+          retry_at: b.state === 'OPEN' && b.opened_at !== null ? new Date(b.opened_at + BREAKER_COOLDOWN_MS).toISOString() : null
+        }))
+    }))
+}
+
+export function resetHttpStats(): void {
+  stats.clear()
+  breakers.clear()
+  network = { offline: false, since: null, last_error: null }
+}
+
+export function getNetworkStatus(): NetworkStatus {
+  return { ...network }
+}
+
+// 응답 수신 여부로 오프라인 판단 (시간 초과는 서버 문제일 수 있어 제외)
+function recordNetwork(reached: boolean, message: string | null): void {
+  if (reached) {
+    if (network.offline) console.log('[HTTP] 네트워크 연결 복구')
+    network = { offline: false, since: null, last_error: null }
+  } else if (!network.offline) {
+    console.log(`[HTTP] 오프라인 전환: ${message}`)
+    network = { offline: true, since: new Date().toISOString(), last_error: message }
+  }
+}
+
+// ===== 호출 =====
+
+// 취소 신호가 오면 대기를 바로 끝냄
+function sleep(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise(resolve => {
+    if (signal?.aborted) return resolve()
+    const done = (): void => {
+      clearTimeout(timer)
+      signal?.removeEventListener('abort', done)
+      resolve()
+    }
+    const timer = setTimeout(done, ms)
+    signal?.addEventListener('abort', done)
+  })
+}
+
+async function acquireToken(host: string, source: HttpSource, signal?: AbortSignal | null): Promise<void> {
+  const { bucket, waitMs } = takeToken(buckets.get(host), source.ratePerSec, source.burst, Date.now())
+  buckets.set(host, bucket)
+  if (waitMs > 0) await sleep(waitMs, signal)
+}
+
+// 호출부 취소 신호와 시간 초과를 함께 적용
+async function fetchWithTimeout(url: string, init: RequestInit, timeoutMs: number): Promise<Response> {
+  const controller = new AbortController()
+  const timer = setTimeout(() => controller.abort(), timeoutMs)
+  const forward = (): void => controller.abort()
+  if (init.signal?.aborted) controller.abort()
+  init.signal?.addEventListener('abort', forward)
+  try {
+    return await fetch(url, { ...init, signal: controller.signal })
+  } finally {
+    clearTimeout(timer)
+    init.signal?.removeEventListener('abort', forward)
+  }
+}
+
+function canceledError(): Error {
+  const error = new Error('요청 취소')
+  error.name = 'AbortError'
+  return error
+}
+
+// fetch 대체: 재시도 후에도 HTTP 오류면 마지막 응답을 그대로 반환 (호출부에서 response.ok 확인)
+// 네트워크 오류·시간 초과·차단 중이면 예외
+// init.signal로 취소하면 진행 중인 호출과 재시도 대기를 멈추고 예외 (오류 통계·차단 판단에서 제외)
+export async function httpFetch(url: string, init: RequestInit = {}, options: HttpRequestOptions = {}): Promise<Response> {
+  const host = new URL(url).hostname
+  const source = sourceForHost(host)
+  const entry = statsFor(source)
+  // 오프라인 상태면 재시도 없이 빠르게 실패 (첫 호출이 연결 확인 역할)
+  const maxRetries = network.offline ? 0 : (options.retries ?? MAX_RETRIES)
+
+  const gate = breakerAllows(breakers.get(host), Date.now())
+  breakers.set(host, gate.breaker)
+  if (!gate.allowed) {
+    const message = `${source.name} 호출 일시 차단 (연속 실패)`
+    recordFailure(entry, 'CIRCUIT_OPEN', message, null)
+    throw new Error(message)
+  }
+
+  entry.requests++
+  for (let attempt = 0; ; attempt++) {
+    await acquireToken(host, source, init.signal)
+    if (init.signal?.aborted) throw canceledError()
+
+    let response: Response | null = null
+    let kind: HttpErrorKind | null
+    let message: string
+    try {
+      response = await fetchWithTimeout(url, init, options.timeoutMs ?? TIMEOUT_MS)
+      kind = classifyStatus(response.status)
+      message = `HTTP ${response.status}`
+      recordNetwork(true, null)
+    } catch (error) {
+      if (init.signal?.aborted) throw canceledError()
+      kind = error instanceof Error && error.name === 'AbortError' ? 'TIMEOUT' : 'NETWORK'
+      message = kind === 'TIMEOUT' ? '응답 시간 초과' : (error instanceof Error ? error.message : 'Network error')
+      if (kind === 'NETWORK') recordNetwork(false, message)
+    }
+
+    if (!kind) {
+      entry.successes++
+      entry.last_status = response?.status ?? null
+      entry.last_success_at = new Date().toISOString()
+      breakers.set(host, recordBreaker(breakers.get(host), true, Date.now()))
+      return response as Response
+    }
+
+    if (attempt < maxRetries && isRetryable(kind)) {
+      const retryAfter = kind === 'RATE_LIMITED' ? parseRetryAfter(response?.headers.get('retry-after'), Date.now()) : null
+      const delay = backoffDelay(attempt, retryAfter)
+      entry.retries++
+      console.log(`[HTTP] ${host} ${message} → ${delay}ms 후 재시도 (${attempt + 1}/${maxRetries})`)
+      await sleep(delay, init.signal)
+      if (init.signal?.aborted) throw canceledError()
+      continue
+    }
+
+    recordFailure(entry, kind, message, response?.status ?? null)
+    // 4xx는 서버가 정상 응답한 것이므로 차단 판단에서 제외
+    breakers.set(host, recordBreaker(breakers.get(host), kind === 'CLIENT', Date.now()))
+    if (response) return response
+    throw new Error(message)
+  }
+}
@@ -0,0 +1,289 @@
+/**
+ * Import History
+ * 가져오기 배치(import_batch_id) 기록 및 되돌리기
+ * 가져오기 직전의 보유종목/증권사 잔고/거래내역을 배치에 저장하여 원상 복구
+ */
+
+import { getDatabase } from './database'
+import { rebuildTaxLots, rebuildAccountTaxLots } from './tax-lots'
+import { replayHolding, syncOpeningBalance } from './ledger-replay'
+
+// ===== 타입 정의 =====
+export type ImportBatchKind = 'TRANSACTIONS' | 'HOLDINGS'
+
+export interface HoldingSnapshot {
+  id: string
+  stock_code: string
+  stock_name: string
+  quantity: number
+  avg_cost: number
+  current_price: number
+  prev_close: number
+  currency: string
+  last_synced: string | null
+}
+
+export interface BrokerHoldingSnapshot {
+  stock_code: string
+  stock_name: string
+  quantity: number
+  avg_cost: number
+  currency: string
+  source: string
+  captured_at: string
+}
+
+export interface ImportBatchRecord {
+  id: string
+  accountId: string
+  kind: ImportBatchKind
+  fileName?: string
+  overwrite: boolean
+  totalRows: number
+  imported: number
+  skipped?: number
+  deleted?: number
+  stockCodes: string[]
+  holdingsBefore: HoldingSnapshot[]
+  brokerHoldingsBefore?: BrokerHoldingSnapshot[]
+  transactionsBefore?: Array<Record<string, unknown>>
+}
+
+export interface ImportBatchSummary {
+  id: string
+  account_id: string
+  brokerage: string
+  account_type: string
+  account_alias: string | null
+  kind: ImportBatchKind
+  file_name: string | null
+  overwrite: number
+  total_rows: number
+  imported: number
+  skipped: number
+  deleted: number
+  status: 'ACTIVE' | 'UNDONE'
+  created_at: string
+  undone_at: string | null
+  can_undo: boolean
+}
+
+interface ImportBatchRow {
+  id: string
+  account_id: string
+  kind: ImportBatchKind
+  overwrite: number
+  stock_codes: string | null
+  holdings_before: string
+  broker_holdings_before: string | null
+  transactions_before: string | null
+  status: 'ACTIVE' | 'UNDONE'
+  created_at: string
+}
+
+// ===== 되돌리기 계획 (순수 함수) =====
+
+// 계좌별 가장 최근의 유효 배치만 되돌릴 수 있음 (이후 가져오기 결과를 덮어쓰지 않도록)
+export function findUndoableBatchIds(
+  batches: Array<{ id: string; account_id: string; status: string; created_at: string }>
+): Set<string> {
+  const latest = new Map<string, { id: string; created_at: string }>()
+  for (const batch of batches) {
+    if (batch.status !== 'ACTIVE') continue
+    const current = latest.get(batch.account_id)
+    if (!current || batch.created_at > current.created_at ||
+        (batch.created_at === current.created_at && batch.id > current.id)) {
+      latest.set(batch.account_id, batch)
+    }
+  }
+  return new Set([...latest.values()].map(b => b.id))
+}
+
+// stockCodes가 null이면 계좌 전체를 이전 상태로
+export function planHoldingsRestore<T extends { stock_code: string }>(
+  before: T[],
+  current: Array<{ stock_code: string }>,
+  stockCodes: string[] | null
+): { restore: T[]; remove: string[] } {
+  const inScope = (code: string): boolean => stockCodes === null || stockCodes.includes(code)
+  const beforeCodes = new Set(before.map(h => h.stock_code))
+
+  return {
+    restore: before.filter(h => inScope(h.stock_code)),
+    remove: current.map(h => h.stock_code).filter(code => inScope(code) && !beforeCodes.has(code))
+  }
+}
+
+// ===== DB 연동 =====
+
+export function captureHoldings(accountId: string): HoldingSnapshot[] {
+  const db = getDatabase()
+  return db.prepare(`
+    SELECT id, stock_code, stock_name, quantity, avg_cost, current_price, prev_close, currency, last_synced
+    FROM holdings WHERE account_id = ?
+  `).all(accountId) as HoldingSnapshot[]
+}
+
+export function captureBrokerHoldings(accountId: string): BrokerHoldingSnapshot[] {
+  const db = getDatabase()
+  return db.prepare(`
+    SELECT stock_code, stock_name, quantity, avg_cost, currency, source, captured_at
+    FROM broker_holdings WHERE account_id = ?
+  `).all(accountId) as BrokerHoldingSnapshot[]
+}
+
+export function captureTransactions(accountId: string): Array<Record<string, unknown>> {
+  const db = getDatabase()
+  return db.prepare('SELECT * FROM transactions WHERE account_id = ?').all(accountId) as Array<Record<string, unknown>>
+}
+
+export function recordImportBatch(batch: ImportBatchRecord): void {
+  const db = getDatabase()
+  db.prepare(`
+    INSERT INTO import_batches (
+      id, account_id, kind, file_name, overwrite, total_rows, imported, skipped, deleted,
+      stock_codes, holdings_before, broker_holdings_before, transactions_before
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    batch.id,
+    batch.accountId,
+    batch.kind,
+    batch.fileName ?? null,
+    batch.overwrite ? 1 : 0,
+    batch.totalRows,
+    batch.imported,
+    batch.skipped ?? 0,
+    batch.deleted ?? 0,
+    JSON.stringify(batch.stockCodes),
+    JSON.stringify(batch.holdingsBefore),
+    batch.brokerHoldingsBefore ? JSON.stringify(batch.brokerHoldingsBefore) : null,
+    batch.transactionsBefore ? JSON.stringify(batch.transactionsBefore) : null
+  )
+}
+
+export function listImportBatches(userId: string): ImportBatchSummary[] {
+  const db = getDatabase()
+  const rows = db.prepare(`
+    SELECT
+      b.id, b.account_id, a.brokerage, a.account_type, a.account_alias,
+      b.kind, b.file_name, b.overwrite, b.total_rows, b.imported, b.skipped, b.deleted,
+      b.status, b.created_at, b.undone_at
+    FROM import_batches b
+    JOIN accounts a ON b.account_id = a.id
+    WHERE a.user_id = ?
+    ORDER BY b.created_at DESC
+  `).all(userId) as Array<Omit<ImportBatchSummary, 'can_undo'>>
+
+  const undoable = findUndoableBatchIds(rows)
+  return rows.map(row => ({ ...row, can_undo: undoable.has(row.id) }))
+}
+
+function restoreHoldings(accountId: string, before: HoldingSnapshot[], stockCodes: string[] | null): number {
+  const db = getDatabase()
+  const plan = planHoldingsRestore(before, captureHoldings(accountId), stockCodes)
+
+  // id를 유지해야 매매 신호(strategy_signals)가 연결된 보유종목이 보존됨
+  const upsert = db.prepare(`
+    INSERT INTO holdings (id, account_id, stock_code, stock_name, quantity, avg_cost, current_price, prev_close, currency, last_synced)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT(account_id, stock_code) DO UPDATE SET
+      stock_name = excluded.stock_name,
+      quantity = excluded.quantity,
+      avg_cost = excluded.avg_cost,
+      currency = excluded.currency,
+      last_synced = excluded.last_synced
+  `)
+  for (const h of plan.restore) {
+    upsert.run(h.id, accountId, h.stock_code, h.stock_name, h.quantity, h.avg_cost, h.current_price, h.prev_close, h.currency, h.last_synced)
+  }
+  for (const code of plan.remove) {
+    db.prepare('DELETE FROM holdings WHERE account_id = ? AND stock_code = ?').run(accountId, code)
+  }
+  return plan.restore.length + plan.remove.length
+}
+
+function restoreBrokerHoldings(accountId: string, before: BrokerHoldingSnapshot[], stockCodes: string[] | null): void {
+  const db = getDatabase()
+  const plan = planHoldingsRestore(before, captureBrokerHoldings(accountId), stockCodes)
+  const upsert = db.prepare(`
+    INSERT OR REPLACE INTO broker_holdings (account_id, stock_code, stock_name, quantity, avg_cost, currency, source, captured_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `)
+  for (const h of plan.restore) {
+    upsert.run(accountId, h.stock_code, h.stock_name, h.quantity, h.avg_cost, h.currency, h.source, h.captured_at)
+  }
+  for (const code of plan.remove) {
+    db.prepare('DELETE FROM broker_holdings WHERE account_id = ? AND stock_code = ?').run(accountId, code)
+  }
+}
+
+function reinsertTransactions(rows: Array<Record<string, unknown>>): void {
+  const db = getDatabase()
+  for (const row of rows) {
+    const columns = Object.keys(row)
+    db.prepare(`INSERT OR IGNORE INTO transactions (${columns.join(', ')}) VALUES (${columns.map(() => '?').join(', ')})`)
+      .run(...columns.map(c => row[c]))
+  }
+}
+
+export function undoImportBatch(batchId: string): { deletedTransactions: number; restoredHoldings: number } {
+  const db = getDatabase()
+  const batch = db.prepare('SELECT * FROM import_batches WHERE id = ?').get(batchId) as ImportBatchRow | undefined
+  if (!batch) {
+    throw new Error('Import batch not found')
+  }
+  if (batch.status !== 'ACTIVE') {
+    throw new Error('Import batch already undone')
+  }
+
+  const accountBatches = db.prepare('SELECT id, account_id, status, created_at FROM import_batches WHERE account_id = ?')
+    .all(batch.account_id) as Array<{ id: string; account_id: string; status: string; created_at: string }>
+  if (!findUndoableBatchIds(accountBatches).has(batchId)) {
+    throw new Error('Only the most recent import for this account can be undone')
+  }
+
+  const holdingsBefore = JSON.parse(batch.holdings_before) as HoldingSnapshot[]
+  const scope = batch.overwrite ? null : (JSON.parse(batch.stock_codes || '[]') as string[])
+
+  const apply = db.transaction(() => {
+    let deletedTransactions = 0
+
+    if (batch.kind === 'TRANSACTIONS') {
+      deletedTransactions = db.prepare('DELETE FROM transactions WHERE import_batch_id = ?').run(batchId).changes
+      db.prepare('DELETE FROM opening_balances WHERE import_batch_id = ?').run(batchId)
+      if (batch.overwrite && batch.transactions_before) {
+        reinsertTransactions(JSON.parse(batch.transactions_before))
+      }
+
+      // lot 재구성 (가져온 과거 거래만큼 줄었던 기초잔고 복원)
+      if (scope === null) {
+        rebuildAccountTaxLots(batch.account_id)
+      } else {
+        for (const code of scope) {
+          syncOpeningBalance(batch.account_id, code)
+          rebuildTaxLots(batch.account_id, code)
+        }
+      }
+    } else if (batch.broker_holdings_before) {
+      restoreBrokerHoldings(batch.account_id, JSON.parse(batch.broker_holdings_before), scope)
+    }
+
+    const restoredHoldings = restoreHoldings(batch.account_id, holdingsBefore, scope)
+
+    // 가져오기 이후 직접 입력한 거래가 있는 종목은 원장 재생으로 보유종목 재계산
+    if (batch.kind === 'TRANSACTIONS') {
+      const later = db.prepare(`
+        SELECT DISTINCT stock_code FROM transactions
+        WHERE account_id = ? AND type IN ('BUY', 'SELL') AND created_at > ?
+      `).all(batch.account_id, batch.created_at) as Array<{ stock_code: string }>
+      for (const { stock_code } of later) {
+        if (scope === null || scope.includes(stock_code)) replayHolding(batch.account_id, stock_code)
+      }
+    }
+
+    db.prepare("UPDATE import_batches SET status = 'UNDONE', undone_at = datetime('now') WHERE id = ?").run(batchId)
+    return { deletedTransactions, restoredHoldings }
+  })
+
+  return apply()
+}
@@ -3,6 +3,10 @@ import { join } from 'path'
 import { electronApp, optimizer, is } from '@electron-toolkit/utils'
 import { initDatabase } from './database'
 import { registerIpcHandlers } from './ipc-handlers'
+import { startSnapshotScheduler } from './portfolio-snapshots'
+import { startPriceRefreshScheduler } from './price-scheduler'
+import { seedSecurities } from './securities'
+import { loadPersistedMarketData } from './market-data-api'
 
 let mainWindow: BrowserWindow | null = null
 
@@ -53,9 +57,23 @@ app.whenReady().then(async () => {
   // Initialize database
   await initDatabase()
 
+  // 종목 마스터 기본 데이터 적재
+  seedSecurities()
+
+  // 마지막으로 저장된 환율·시세를 캐시에 적재 (오프라인에서도 즉시 표시)
+  loadPersistedMarketData()
+
   // Register IPC handlers
   registerIpcHandlers()
 
+  // 당일 순자산 스냅샷 누락 여부 주기 점검
+  startSnapshotScheduler()
+
+  // 거래소 개장 시간에 맞춘 시세 백그라운드 갱신 → 렌더러에 갱신 이벤트 전송
+  startPriceRefreshScheduler((event) => {
+    mainWindow?.webContents.send('prices-updated', event)
+  })
+
   // F5 refresh handler
   ipcMain.on('refresh-data', () => {
     mainWindow?.webContents.send('trigger-sync')
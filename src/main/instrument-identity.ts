@@ -0,0 +1,265 @@
+/**
+ * Instrument Identity
+ * 증권사마다 다른 종목코드/종목명(한화 "0052D0"형 코드, 코드 없는 종목명, 미국 티커 vs 한글명)을
+ * 하나의 표준 코드로 해석하고, 이미 갈라진 종목을 하나로 통합
+ */
+
+import { getDatabase } from './database'
+import { mergePositions } from './corporate-actions'
+import { rebuildTaxLots } from './tax-lots'
+import { replayHolding } from './ledger-replay'
+import { SecurityIndex, getSecurityIndex, mergeSecurityCodes, normalizeSecurityKey, resolveSecurity } from './securities'
+
+// ===== 타입 정의 =====
+export interface Instrument {
+  stock_code: string
+  stock_name: string
+  currency: string
+  holding_count: number
+  transaction_count: number
+}
+
+export interface MergeCandidate {
+  key: string
+  suggested_code: string
+  instruments: Instrument[]
+}
+
+export interface MergeResult {
+  target_code: string
+  transactions: number
+  holdings: number
+  accounts: number
+}
+
+interface HoldingRow {
+  id: string
+  account_id: string
+  stock_code: string
+  stock_name: string
+  quantity: number
+  avg_cost: number
+}
+
+interface BrokerHoldingRow extends Omit<HoldingRow, 'id'> {
+  currency: string
+  source: string
+  captured_at: string
+}
+
+interface OpeningBalanceRow extends Omit<HoldingRow, 'id'> {
+  currency: string
+  snapshot_date: string
+  import_batch_id: string | null
+}
+
+// ===== 종목 식별 (순수 함수) =====
+
+// 증권사 코드/종목명 → 표준 코드 (마스터의 코드·별칭·정확한 종목명만 사용, 부분 매칭 제외)
+export function canonicalCode(index: SecurityIndex, code: string | null | undefined, name: string | null | undefined): string {
+  const raw = (code || name || '').trim()
+  const security = resolveSecurity(index, { code, name }, false)
+  return security ? security.code : raw
+}
+
+// 같은 종목으로 보이는 코드 묶음: 마스터 해석 결과가 같거나 종목명(공백 무시)이 같은 경우
+export function findMergeCandidates(instruments: Instrument[], index: SecurityIndex): MergeCandidate[] {
+  const groups = new Map<string, Instrument[]>()
+  for (const instrument of instruments) {
+    const security = resolveSecurity(index, { code: instrument.stock_code, name: instrument.stock_name }, false)
+    const key = security ? security.code : `NAME:${normalizeSecurityKey(instrument.stock_name)}`
+    groups.set(key, [...(groups.get(key) || []), instrument])
+  }
+
+  const candidates: MergeCandidate[] = []
+  for (const [key, members] of groups) {
+    if (new Set(members.map(m => m.stock_code)).size < 2) continue
+    candidates.push({ key, suggested_code: suggestTargetCode(key, members), instruments: members })
+  }
+  return candidates.sort((a, b) => a.key.localeCompare(b.key))
+}
+
+// 마스터 코드 > 종목명과 다른 실제 코드 > 거래/보유가 많은 코드 순
+export function suggestTargetCode(key: string, members: Instrument[]): string {
+  const master = members.find(m => m.stock_code === key)
+  if (master) return master.stock_code
+  if (!key.startsWith('NAME:')) return key
+
+  const usage = (m: Instrument) => m.holding_count + m.transaction_count
+  const ranked = [...members].sort((a, b) => {
+    const aReal = a.stock_code !== a.stock_name.trim() ? 1 : 0
+    const bReal = b.stock_code !== b.stock_name.trim() ? 1 : 0
+    return bReal - aReal || usage(b) - usage(a) || a.stock_code.localeCompare(b.stock_code)
+  })
+  return ranked[0].stock_code
+}
+
+export function validateMerge(targetCode: string, sourceCodes: string[], instruments: Instrument[]): void {
+  if (!targetCode.trim()) {
+    throw new Error('대상 종목코드를 입력해주세요')
+  }
+  if (sourceCodes.filter(c => c !== targetCode).length === 0) {
+    throw new Error('통합할 종목을 하나 이상 선택해주세요')
+  }
+
+  const currencies = new Set(
+    instruments
+      .filter(i => i.stock_code === targetCode || sourceCodes.includes(i.stock_code))
+      .map(i => i.currency)
+  )
+  if (currencies.size > 1) {
+    throw new Error('통화가 다른 종목은 통합할 수 없습니다')
+  }
+}
+
+// ===== DB 연동 =====
+
+export function getInstruments(): Instrument[] {
+  const db = getDatabase()
+  return db.prepare(`
+    SELECT stock_code, MAX(stock_name) as stock_name, currency,
+      SUM(holding_count) as holding_count, SUM(transaction_count) as transaction_count
+    FROM (
+      SELECT stock_code, stock_name, currency, 1 as holding_count, 0 as transaction_count FROM holdings
+      UNION ALL
+      SELECT stock_code, stock_name, currency, 0, 1 FROM transactions WHERE stock_code != ''
+    )
+    GROUP BY stock_code, currency
+    ORDER BY stock_name, stock_code
+  `).all() as Instrument[]
+}
+
+export function getMergeCandidates(): MergeCandidate[] {
+  return findMergeCandidates(getInstruments(), getSecurityIndex())
+}
+
+// 가져오기/동기화 시 저장할 종목코드
+// 계좌에 이미 같은 코드로 쌓인 보유/거래가 있으면 그대로 두어 통합 전 데이터와 갈라지지 않게 함
+export function resolveInstrumentCode(accountId: string, code: string | null | undefined, name: string | null | undefined): string {
+  const raw = (code || name || '').trim()
+  const resolved = canonicalCode(getSecurityIndex(), code, name)
+  if (resolved === raw) return raw
+
+  const db = getDatabase()
+  const existing = db.prepare(`
+    SELECT 1 FROM holdings WHERE account_id = ? AND stock_code = ?
+    UNION ALL
+    SELECT 1 FROM transactions WHERE account_id = ? AND stock_code = ?
+    LIMIT 1
+  `).get(accountId, raw, accountId, raw)
+  return existing ? raw : resolved
+}
+
+// 이전 코드의 거래내역·보유종목·증권사 잔고·매매 신호를 대상 코드로 옮기고 마스터에 별칭 등록
+export function mergeInstruments(targetCode: string, sourceCodes: string[]): MergeResult {
+  const db = getDatabase()
+  const instruments = getInstruments()
+  const requested = targetCode.trim()
+  validateMerge(requested, sourceCodes, instruments)
+
+  // 마스터 코드는 대문자 → 대상 코드가 소문자를 포함하면 대상 자체도 이관
+  const target = requested.toUpperCase()
+  const sources = [...new Set([requested, ...sourceCodes.map(c => c.trim())])].filter(c => c && c !== target)
+  const members = instruments.filter(i => sources.includes(i.stock_code) || i.stock_code === target)
+  const targetInfo = instruments.find(i => i.stock_code === requested) || members[0]
+  const targetName = targetInfo?.stock_name || target
+  const currency = targetInfo?.currency || 'KRW'
+
+  const run = db.transaction(() => {
+    mergeSecurityCodes(
+      { code: target, name_ko: targetName, market: currency === 'KRW' ? 'KR' : 'US', currency },
+      sources,
+      members.map(m => m.stock_name)
+    )
+
+    const codeList = sources.map(() => '?').join(', ')
+    const accounts = new Set<string>()
+    let holdingsMoved = 0
+
+    const transactions = db.prepare(`SELECT DISTINCT account_id FROM transactions WHERE stock_code IN (${codeList})`)
+      .all(...sources) as Array<{ account_id: string }>
+    transactions.forEach(t => accounts.add(t.account_id))
+    const updatedTx = db.prepare(`UPDATE transactions SET stock_code = ?, stock_name = ? WHERE stock_code IN (${codeList})`)
+      .run(target, targetName, ...sources)
+
+    // 보유종목: 같은 계좌에 대상 코드가 있으면 수량 가중평균으로 합침 (매매 신호는 남는 보유종목으로)
+    const holdings = db.prepare(`SELECT * FROM holdings WHERE stock_code IN (${codeList}, ?)`).all(...sources, target) as HoldingRow[]
+    for (const h of holdings.filter(h => h.stock_code !== target)) {
+      const existing = db.prepare('SELECT * FROM holdings WHERE account_id = ? AND stock_code = ?').get(h.account_id, target) as HoldingRow | undefined
+      if (existing) {
+        const merged = mergePositions(existing, h)
+        db.prepare('UPDATE holdings SET quantity = ?, avg_cost = ?, stock_name = ? WHERE id = ?')
+          .run(merged.quantity, merged.avg_cost, targetName, existing.id)
+        db.prepare('UPDATE strategy_signals SET holding_id = ? WHERE holding_id = ?').run(existing.id, h.id)
+        db.prepare('DELETE FROM holdings WHERE id = ?').run(h.id)
+      } else {
+        db.prepare('UPDATE holdings SET stock_code = ?, stock_name = ? WHERE id = ?').run(target, targetName, h.id)
+      }
+      accounts.add(h.account_id)
+      holdingsMoved++
+    }
+    db.prepare('UPDATE holdings SET stock_name = ? WHERE stock_code = ?').run(targetName, target)
+
+    // 증권사 잔고 스냅샷 (대사 기준값)
+    const brokerHoldings = db.prepare(`SELECT * FROM broker_holdings WHERE stock_code IN (${codeList})`).all(...sources) as BrokerHoldingRow[]
+    for (const b of brokerHoldings) {
+      const existing = db.prepare('SELECT * FROM broker_holdings WHERE account_id = ? AND stock_code = ?').get(b.account_id, target) as BrokerHoldingRow | undefined
+      const merged = existing ? mergePositions(existing, b) : { quantity: b.quantity, avg_cost: b.avg_cost }
+      db.prepare('DELETE FROM broker_holdings WHERE account_id = ? AND stock_code = ?').run(b.account_id, b.stock_code)
+      db.prepare(`
+        INSERT OR REPLACE INTO broker_holdings (account_id, stock_code, stock_name, quantity, avg_cost, currency, source, captured_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      `).run(b.account_id, target, targetName, merged.quantity, merged.avg_cost, b.currency, b.source, existing?.captured_at ?? b.captured_at)
+    }
+    // 기초잔고 스냅샷 (같은 계좌에 대상 코드 스냅샷이 있으면 합치고 OPENING 거래는 하나만 남김 → 원장 재생 시 다시 산출)
+    const openings = db.prepare(`SELECT * FROM opening_balances WHERE stock_code IN (${codeList})`).all(...sources) as OpeningBalanceRow[]
+    for (const o of openings) {
+      const existing = db.prepare('SELECT * FROM opening_balances WHERE account_id = ? AND stock_code = ?').get(o.account_id, target) as OpeningBalanceRow | undefined
+      const merged = existing ? mergePositions(existing, o) : { quantity: o.quantity, avg_cost: o.avg_cost }
+      const snapshotDate = existing && existing.snapshot_date > o.snapshot_date ? existing.snapshot_date : o.snapshot_date
+      db.prepare('DELETE FROM opening_balances WHERE account_id = ? AND stock_code = ?').run(o.account_id, o.stock_code)
+      db.prepare(`
+        INSERT OR REPLACE INTO opening_balances (account_id, stock_code, stock_name, quantity, avg_cost, currency, snapshot_date, import_batch_id)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      `).run(o.account_id, target, targetName, merged.quantity, merged.avg_cost, o.currency, snapshotDate, existing?.import_batch_id ?? o.import_batch_id)
+      if (existing) {
+        db.prepare(`
+          DELETE FROM transactions
+          WHERE account_id = ? AND stock_code = ? AND source = 'OPENING' AND id NOT IN (
+            SELECT id FROM transactions WHERE account_id = ? AND stock_code = ? AND source = 'OPENING' LIMIT 1
+          )
+        `).run(o.account_id, target, o.account_id, target)
+      }
+      accounts.add(o.account_id)
+    }
+
+
+    // 일봉 이력 (같은 날짜는 대상 코드 값 유지)
+    db.prepare(`UPDATE OR IGNORE price_history SET stock_code = ? WHERE stock_code IN (${codeList})`).run(target, ...sources)
+    db.prepare(`DELETE FROM price_history WHERE stock_code IN (${codeList})`).run(...sources)
+
+    // 최신 시세 / 수동 시세 (마스터로 해석되지 않는 코드는 코드 자체가 시세 키)
+    db.prepare(`UPDATE OR IGNORE quotes SET instrument_code = ? WHERE instrument_code IN (${codeList})`).run(target, ...sources)
+    db.prepare(`DELETE FROM quotes WHERE instrument_code IN (${codeList})`).run(...sources)
+    db.prepare(`UPDATE OR IGNORE price_overrides SET instrument_code = ? WHERE instrument_code IN (${codeList})`).run(target, ...sources)
+    db.prepare(`DELETE FROM price_overrides WHERE instrument_code IN (${codeList})`).run(...sources)
+
+    // 매매 신호 / 전략 / 적용 전 기업행위 대상 종목
+    db.prepare(`UPDATE strategy_signals SET stock_code = ?, stock_name = ? WHERE stock_code IN (${codeList})`).run(target, targetName, ...sources)
+    db.prepare(`UPDATE trading_strategies SET stock_code = ? WHERE stock_code IN (${codeList})`).run(target, ...sources)
+    db.prepare(`UPDATE corporate_actions SET stock_code = ? WHERE status = 'PENDING' AND stock_code IN (${codeList})`).run(target, ...sources)
+
+    // lot 재구성 및 원장 재생 (이전 코드 lot 먼저 정리: lot id = 매수 거래 id)
+    for (const accountId of accounts) {
+      for (const source of sources) rebuildTaxLots(accountId, source)
+      const ledger = db.prepare(`
+        SELECT COUNT(*) as count FROM transactions WHERE account_id = ? AND stock_code = ? AND type IN ('BUY', 'SELL')
+      `).get(accountId, target) as { count: number }
+      if (ledger.count > 0) replayHolding(accountId, target)
+    }
+
+    return { target_code: target, transactions: updatedTx.changes, holdings: holdingsMoved, accounts: accounts.size }
+  })
+
+  return run()
+}
@@ -1,4 +1,4 @@
-import { ipcMain, dialog } from 'electron'
+import { ipcMain, dialog, net } from 'electron'
 import { getDatabase } from './database'
 import { v4 as uuidv4 } from 'uuid'
 import { parseExcelFile, generateBatchId, ImportRow, getBrokerageList } from './excel-import'
@@ -9,8 +9,142 @@ import {
   fetchStockPrice,
   updateAllHoldingPrices,
   updateHoldingPrice,
-  clearMarketDataCache
+  BulkPriceResult,
+  clearMarketDataCache,
+  getLastExchangeRate,
+  saveExchangeRate
 } from './market-data-api'
+import { getMarketDataStatus } from './market-data-status'
+import {
+  ValuationRow,
+  getBaseCurrency,
+  setBaseCurrency,
+  loadFxTable,
+  summarizeByCurrency,
+  aggregateInBaseCurrency,
+  sumInBaseCurrency,
+  describeFxRates,
+  findUnconvertible
+} from './valuation'
+import {
+  FxLedgerEntry,
+  FxReturnSplit,
+  resolveTradeFxRate,
+  getFxHistoryCoverage,
+  importFxCsvFile,
+  backfillFxHistory,
+  lockTransactionFxRates,
+  computeLockedCostFxRate,
+  splitFxReturn
+} from './fx-history'
+import {
+  CostBasisMethod,
+  COST_BASIS_METHODS,
+  LotSelection,
+  saveLotSelections,
+  rebuildAccountTaxLots
+} from './tax-lots'
+import {
+  isLedgerTrade,
+  ensureOpeningBalance,
+  clearOpeningBalance,
+  replayHolding,
+  replayAccount
+} from './ledger-replay'
+import {
+  SnapshotRow,
+  recordBrokerSnapshot,
+  getReconciliationReport,
+  addAdjustingTransaction,
+  acceptBrokerValue
+} from './reconciliation'
+import {
+  captureHoldings,
+  captureBrokerHoldings,
+  captureTransactions,
+  recordImportBatch,
+  listImportBatches,
+  undoImportBatch
+} from './import-history'
+import { getRealizedGains } from './realized-gains'
+import { getFeeSummary } from './trading-costs'
+import {
+  CashTransactionType,
+  getCashBalances,
+  setCashBalance,
+  clearCashBalance
+} from './cash-ledger'
+import {
+  CorporateActionInput,
+  listCorporateActions,
+  createCorporateAction,
+  deleteCorporateAction,
+  applyCorporateAction,
+  undoCorporateAction
+} from './corporate-actions'
+import {
+  SnapshotRange,
+  recordPortfolioSnapshot,
+  backfillPortfolioSnapshots,
+  getNetWorthHistory
+} from './portfolio-snapshots'
+import { PerformanceWindow, getPerformanceReport } from './performance'
+import {
+  getBenchmarkCoverage,
+  syncBenchmarkHistory,
+  importBenchmarkCsvFile,
+  compareWithBenchmark
+} from './benchmarks'
+import {
+  AllocationDimension,
+  AllocationTarget,
+  RebalancePolicy,
+  REBALANCE_POLICIES,
+  getAllocationTargets,
+  setAllocationTargets,
+  getRebalancePlan
+} from './rebalancing'
+import {
+  SecurityInput,
+  getSecurities,
+  upsertSecurity,
+  deleteSecurity,
+  addSecurityAlias,
+  removeSecurityAlias,
+  searchSecurities,
+  syncTickerMapping
+} from './securities'
+import { getInstruments, getMergeCandidates, mergeInstruments, resolveInstrumentCode } from './instrument-identity'
+import {
+  ExposureDimension,
+  getExposureReport,
+  importConstituentCsvFile,
+  getConstituentCoverage,
+  deleteConstituents
+} from './exposure'
+import { getPriceChart, backfillPriceHistory, importPriceCsvFile } from './price-history'
+import {
+  ProviderMarket,
+  getProviderStatus,
+  getProviderSettings,
+  setProviderEnabled,
+  setProviderPriority,
+  resetProviderHealth
+} from './market-data-providers'
+import { getFixturePath, setFixturePath } from './market-data-fixtures'
+import { getHttpStats, resetHttpStats } from './http-client'
+import { PriceOverrideInput, getPriceOverrides, setPriceOverride, deletePriceOverride } from './price-overrides'
+import {
+  ExchangeCode,
+  RefreshConfig,
+  getSchedulerStatus,
+  setRefreshConfig,
+  getHolidays,
+  addHoliday,
+  deleteHoliday,
+  logRefreshRun
+} from './price-scheduler'
+import { startJob, cancelJob, getRunningJobs } from './jobs'
 
 export function registerIpcHandlers(): void {
   // ===== USER HANDLERS =====
@@ -96,6 +230,8 @@ export function registerIpcHandlers(): void {
     account_alias: string
     api_key: string
     api_secret: string
+    cost_basis_method: CostBasisMethod
+    rebalance_policy: RebalancePolicy
   }>) => {
     const db = getDatabase()
     const updates: string[] = []
@@ -113,12 +249,25 @@ export function registerIpcHandlers(): void {
       updates.push('api_secret = ?')
       values.push(data.api_secret)
     }
+    if (data.cost_basis_method !== undefined && COST_BASIS_METHODS.includes(data.cost_basis_method)) {
+      updates.push('cost_basis_method = ?')
+      values.push(data.cost_basis_method)
+    }
+    if (data.rebalance_policy !== undefined && REBALANCE_POLICIES.includes(data.rebalance_policy)) {
+      updates.push('rebalance_policy = ?')
+      values.push(data.rebalance_policy)
+    }
 
     if (updates.length > 0) {
       values.push(id)
       db.prepare(`UPDATE accounts SET ${updates.join(', ')} WHERE id = ?`).run(...values)
     }
 
+    // 매칭 방식 변경 시 lot 및 평균단가 재계산
+    if (data.cost_basis_method !== undefined) {
+      replayAccount(id)
+    }
+
     return db.prepare('SELECT * FROM accounts WHERE id = ?').get(id)
   })
 
@@ -131,36 +280,37 @@ export function registerIpcHandlers(): void {
   // ===== HOLDING HANDLERS =====
   ipcMain.handle('holding:getByAccount', (_, accountId: string) => {
     const db = getDatabase()
-    return db.prepare('SELECT * FROM holdings WHERE account_id = ? ORDER BY stock_name').all(accountId)
+    return db.prepare('SELECT * FROM priced_holdings WHERE account_id = ? ORDER BY stock_name').all(accountId)
   })
 
   ipcMain.handle('holding:getByUser', (_, userId: string) => {
     const db = getDatabase()
     return db.prepare(`
       SELECT h.*, a.brokerage, a.account_type, a.account_alias
-      FROM holdings h
+      FROM priced_holdings h
       JOIN accounts a ON h.account_id = a.id
       WHERE a.user_id = ?
       ORDER BY h.stock_name
     `).all(userId)
   })
 
+  // 계좌마다 코드 표기가 달라도(별칭·종목명) 같은 종목은 표준 코드(instrument_code)로 합산
   ipcMain.handle('holding:getAggregated', (_, userId: string) => {
     const db = getDatabase()
     return db.prepare(`
       SELECT
-        stock_code,
-        stock_name,
+        instrument_code as stock_code,
+        MAX(stock_name) as stock_name,
         currency,
         SUM(quantity) as total_quantity,
         SUM(quantity * avg_cost) / SUM(quantity) as weighted_avg_cost,
         SUM(quantity * current_price) as total_value,
         MAX(current_price) as current_price,
-        COUNT(*) as account_count
-      FROM holdings h
+        COUNT(DISTINCT h.account_id) as account_count
+      FROM priced_holdings h
       JOIN accounts a ON h.account_id = a.id
       WHERE a.user_id = ?
-      GROUP BY stock_code, stock_name, currency
+      GROUP BY instrument_code, currency
       ORDER BY total_value DESC
     `).all(userId)
   })
@@ -183,14 +333,139 @@ export function registerIpcHandlers(): void {
           stock_name = ?, quantity = ?, avg_cost = ?, current_price = ?, currency = ?, last_synced = datetime('now')
         WHERE id = ?
       `).run(data.stock_name, data.quantity, data.avg_cost, data.current_price, data.currency || 'KRW', existing.id)
-      return db.prepare('SELECT * FROM holdings WHERE id = ?').get(existing.id)
+      return db.prepare('SELECT * FROM priced_holdings WHERE id = ?').get(existing.id)
     } else {
       const id = uuidv4()
       db.prepare(`
         INSERT INTO holdings (id, account_id, stock_code, stock_name, quantity, avg_cost, current_price, currency, last_synced)
         VALUES (?, ?, ?, ?, ?, ?, ?, ?, datetime('now'))
       `).run(id, data.account_id, data.stock_code, data.stock_name, data.quantity, data.avg_cost, data.current_price, data.currency || 'KRW')
-      return db.prepare('SELECT * FROM holdings WHERE id = ?').get(id)
+      return db.prepare('SELECT * FROM priced_holdings WHERE id = ?').get(id)
+    }
+  })
+
+  // 거래내역 재생으로 계좌 보유종목 재계산 (기존 데이터 복구용)
+  ipcMain.handle('holding:rebuildAccount', (_, accountId: string) => {
+    try {
+      return { success: true, ...replayAccount(accountId) }
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+    }
+  })
+
+  // ===== RECONCILIATION HANDLERS =====
+  // 증권사 잔고 스냅샷 ↔ 거래내역 원장 대사
+  ipcMain.handle('reconciliation:getReport', (_, accountId: string) => {
+    return getReconciliationReport(accountId)
+  })
+
+  ipcMain.handle('reconciliation:addAdjustment', (_, accountId: string, stockCode: string, date?: string) => {
+    try {
+      return { success: true, ...addAdjustingTransaction(accountId, stockCode, date) }
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+    }
+  })
+
+  ipcMain.handle('reconciliation:acceptBroker', (_, accountId: string, stockCode: string) => {
+    try {
+      return { success: true, ...acceptBrokerValue(accountId, stockCode) }
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+    }
+  })
+
+  // ===== CASH HANDLERS =====
+  // 계좌별·통화별 예수금 (증권사 보고값 + 이후 현금흐름)
+  ipcMain.handle('cash:getBalances', (_, userId: string, accountId?: string) => {
+    return getCashBalances(userId, accountId)
+  })
+
+  ipcMain.handle('cash:setBalance', (_, accountId: string, currency: string, balance: number, asOf?: string) => {
+    try {
+      setCashBalance(accountId, currency, balance, 'MANUAL', asOf)
+      return { success: true }
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+    }
+  })
+
+  ipcMain.handle('cash:clearBalance', (_, accountId: string, currency: string) => {
+    clearCashBalance(accountId, currency)
+    return { success: true }
+  })
+
+  // ===== CORPORATE ACTION HANDLERS =====
+  // 분할/병합/주식배당/합병/코드변경: 등록 후 적용, 최근 적용분 되돌리기
+  ipcMain.handle('corporateAction:getAll', () => {
+    return listCorporateActions()
+  })
+
+  ipcMain.handle('corporateAction:create', (_, data: CorporateActionInput) => {
+    try {
+      return { success: true, action: createCorporateAction(data) }
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+    }
+  })
+
+  ipcMain.handle('corporateAction:delete', (_, id: string) => {
+    try {
+      deleteCorporateAction(id)
+      return { success: true }
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+    }
+  })
+
+  ipcMain.handle('corporateAction:apply', (_, id: string) => {
+    try {
+      return { success: true, ...applyCorporateAction(id) }
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+    }
+  })
+
+  ipcMain.handle('corporateAction:undo', (_, id: string) => {
+    try {
+      undoCorporateAction(id)
+      return { success: true }
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+    }
+  })
+
+  // ===== TAX LOT HANDLERS =====
+  ipcMain.handle('taxLot:getByHolding', (_, accountId: string, stockCode: string) => {
+    const db = getDatabase()
+    return db.prepare(`
+      SELECT * FROM tax_lots
+      WHERE account_id = ? AND stock_code = ?
+      ORDER BY acquired_date, id
+    `).all(accountId, stockCode)
+  })
+
+  ipcMain.handle('taxLot:getOpenByAccount', (_, accountId: string) => {
+    const db = getDatabase()
+    return db.prepare(`
+      SELECT * FROM tax_lots
+      WHERE account_id = ? AND remaining_quantity > 0
+      ORDER BY stock_name, acquired_date
+    `).all(accountId)
+  })
+
+  ipcMain.handle('taxLot:getMatches', (_, sellTransactionId: string) => {
+    const db = getDatabase()
+    return db.prepare(`
+      SELECT * FROM tax_lot_matches WHERE sell_transaction_id = ? ORDER BY acquired_date
+    `).all(sellTransactionId)
+  })
+
+  ipcMain.handle('taxLot:rebuildAccount', (_, accountId: string) => {
+    try {
+      return { success: true, ...rebuildAccountTaxLots(accountId) }
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
     }
   })
 
@@ -228,44 +503,72 @@ export function registerIpcHandlers(): void {
     account_id: string
     stock_code: string
     stock_name: string
-    type: 'BUY' | 'SELL' | 'DIVIDEND'
+    type: 'BUY' | 'SELL' | 'DIVIDEND' | CashTransactionType
     quantity: number
     price: number
     currency?: string
     date: string
     is_manual?: boolean
+    fee?: number
+    tax?: number
+    lot_selections?: LotSelection[]
   }) => {
     const db = getDatabase()
     const id = uuidv4()
     const total_amount = data.quantity * data.price
 
-    db.prepare(`
-      INSERT INTO transactions (id, account_id, stock_code, stock_name, type, quantity, price, total_amount, currency, date, is_manual, source)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-    `).run(
-      id,
-      data.account_id,
-      data.stock_code,
-      data.stock_name,
-      data.type,
-      data.quantity,
-      data.price,
-      total_amount,
-      data.currency || 'KRW',
-      data.date,
-      data.is_manual ? 1 : 0,
-      data.is_manual ? 'MANUAL' : 'API'
-    )
+    // 거래 기록과 원장 재생을 한 트랜잭션으로 (재생 실패 시 거래도 롤백)
+    db.transaction(() => {
+      // 스냅샷 보유종목은 기초잔고로 원장에 편입 후 거래 기록
+      if (isLedgerTrade(data.type)) {
+        ensureOpeningBalance(data.account_id, data.stock_code, data.date)
+      }
 
-    // Update holdings with moving average
-    updateHoldingsAfterTransaction(data)
+      db.prepare(`
+        INSERT INTO transactions (id, account_id, stock_code, stock_name, type, quantity, price, total_amount, currency, date, is_manual, source, fx_rate, fee, tax)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `).run(
+        id,
+        data.account_id,
+        data.stock_code,
+        data.stock_name,
+        data.type,
+        data.quantity,
+        data.price,
+        total_amount,
+        data.currency || 'KRW',
+        data.date,
+        data.is_manual ? 1 : 0,
+        data.is_manual ? 'MANUAL' : 'API',
+        resolveTradeFxRate(data.currency, data.date),
+        data.fee || 0,
+        data.tax || 0
+      )
+
+      // 개별 지정 매도: 선택한 lot 저장 후 원장 재생
+      if (data.type === 'SELL' && data.lot_selections && data.lot_selections.length > 0) {
+        saveLotSelections(id, data.lot_selections)
+      }
+      if (isLedgerTrade(data.type)) {
+        replayHolding(data.account_id, data.stock_code)
+      }
+    })()
 
     return db.prepare('SELECT * FROM transactions WHERE id = ?').get(id)
   })
 
   ipcMain.handle('transaction:delete', (_, id: string) => {
     const db = getDatabase()
-    db.prepare('DELETE FROM transactions WHERE id = ?').run(id)
+    const existing = db.prepare('SELECT account_id, stock_code, type, source FROM transactions WHERE id = ?').get(id) as { account_id: string; stock_code: string; type: string; source: string } | undefined
+    db.transaction(() => {
+      db.prepare('DELETE FROM transactions WHERE id = ?').run(id)
+      if (existing?.source === 'OPENING') {
+        clearOpeningBalance(existing.account_id, existing.stock_code)
+      }
+      if (existing && isLedgerTrade(existing.type)) {
+        replayHolding(existing.account_id, existing.stock_code)
+      }
+    })()
     return { success: true }
   })
 
@@ -273,154 +576,202 @@ export function registerIpcHandlers(): void {
     account_id: string
     stock_code: string
     stock_name: string
-    type: 'BUY' | 'SELL' | 'DIVIDEND'
+    type: 'BUY' | 'SELL' | 'DIVIDEND' | CashTransactionType
     quantity: number
     price: number
     currency: string
     date: string
+    fee?: number
+    tax?: number
   }) => {
     const db = getDatabase()
     const totalAmount = data.quantity * data.price
-    db.prepare(`
-      UPDATE transactions SET
-        account_id = ?, stock_code = ?, stock_name = ?, type = ?,
-        quantity = ?, price = ?, total_amount = ?, currency = ?, date = ?
-      WHERE id = ?
-    `).run(data.account_id, data.stock_code, data.stock_name, data.type,
-           data.quantity, data.price, totalAmount, data.currency, data.date, id)
+    const previous = db.prepare('SELECT account_id, stock_code, type, source FROM transactions WHERE id = ?').get(id) as { account_id: string; stock_code: string; type: string; source: string } | undefined
+    db.transaction(() => {
+      if (previous?.source === 'OPENING') {
+        clearOpeningBalance(previous.account_id, previous.stock_code)
+      }
+      if (isLedgerTrade(data.type)) {
+        ensureOpeningBalance(data.account_id, data.stock_code, data.date)
+      }
+      db.prepare(`
+        UPDATE transactions SET
+          account_id = ?, stock_code = ?, stock_name = ?, type = ?,
+          quantity = ?, price = ?, total_amount = ?, currency = ?, date = ?, fx_rate = ?, fee = ?, tax = ?
+        WHERE id = ?
+      `).run(data.account_id, data.stock_code, data.stock_name, data.type,
+             data.quantity, data.price, totalAmount, data.currency, data.date,
+             resolveTradeFxRate(data.currency, data.date), data.fee || 0, data.tax || 0, id)
+
+      // 이전 종목 먼저 재생 후 새 종목 재생
+      if (previous && isLedgerTrade(previous.type) &&
+          (previous.account_id !== data.account_id || previous.stock_code !== data.stock_code)) {
+        replayHolding(previous.account_id, previous.stock_code)
+      }
+      if (isLedgerTrade(data.type) || (previous && isLedgerTrade(previous.type))) {
+        replayHolding(data.account_id, data.stock_code)
+      }
+    })()
+
     return db.prepare('SELECT * FROM transactions WHERE id = ?').get(id)
   })
 
   // ===== PORTFOLIO SUMMARY =====
-  ipcMain.handle('portfolio:getSummary', (_, userId: string) => {
+  // 모든 금액은 기준통화(설정, 기본 KRW)로 환산하여 합산
+  ipcMain.handle('portfolio:getSummary', async (_, userId: string) => {
     const db = getDatabase()
 
-    const holdings = db.prepare(`
+    const rows = db.prepare(`
       SELECT
+        a.account_type,
+        a.brokerage,
         h.currency,
         SUM(h.quantity * h.current_price) as market_value,
         SUM(h.quantity * h.avg_cost) as cost_basis
-      FROM holdings h
+      FROM priced_holdings h
       JOIN accounts a ON h.account_id = a.id
       WHERE a.user_id = ?
-      GROUP BY h.currency
-    `).all(userId) as Array<{ currency: string; market_value: number; cost_basis: number }>
+      GROUP BY a.account_type, a.brokerage, h.currency
+    `).all(userId) as Array<ValuationRow & { account_type: string; brokerage: string }>
 
-    const byAccountType = db.prepare(`
-      SELECT
-        a.account_type,
-        SUM(h.quantity * h.current_price) as market_value,
-        SUM(h.quantity * h.avg_cost) as cost_basis
-      FROM holdings h
-      JOIN accounts a ON h.account_id = a.id
-      WHERE a.user_id = ?
-      GROUP BY a.account_type
-    `).all(userId)
+    // 예수금: 평가금액/원가와 별도로 집계하여 계좌 총자산에 합산
+    const accountMeta = new Map(
+      (db.prepare('SELECT id, account_type, brokerage FROM accounts WHERE user_id = ?').all(userId) as Array<{ id: string; account_type: string; brokerage: string }>)
+        .map(a => [a.id, a])
+    )
+    const cashRows = getCashBalances(userId).map(c => ({
+      account_type: accountMeta.get(c.account_id)?.account_type || '',
+      brokerage: accountMeta.get(c.account_id)?.brokerage || '',
+      currency: c.currency,
+      market_value: c.balance,
+      cost_basis: 0
+    }))
+
+    const fx = await loadFxTable([...rows.map(r => r.currency), ...cashRows.map(c => c.currency)])
+    const byCurrency = summarizeByCurrency(rows, fx)
+    const totalCash = sumInBaseCurrency(cashRows.map(c => ({ currency: c.currency, amount: c.market_value })), fx)
+
+    // 그룹별 예수금 (예수금만 있는 그룹도 포함)
+    const withCash = (keyOf: (row: { account_type: string; brokerage: string }) => string) => {
+      const groups = aggregateInBaseCurrency(rows, keyOf, fx)
+      const cash = new Map(aggregateInBaseCurrency(cashRows, keyOf, fx).map(c => [c.key, c.market_value]))
+      for (const key of cash.keys()) {
+        if (!groups.some(g => g.key === key)) groups.push({ key, market_value: 0, cost_basis: 0 })
+      }
+      return groups.map(g => ({ ...g, cash: cash.get(g.key) || 0 }))
+    }
 
-    const byBrokerage = db.prepare(`
-      SELECT
-        a.brokerage,
-        SUM(h.quantity * h.current_price) as market_value,
-        SUM(h.quantity * h.avg_cost) as cost_basis
-      FROM holdings h
-      JOIN accounts a ON h.account_id = a.id
-      WHERE a.user_id = ?
-      GROUP BY a.brokerage
-    `).all(userId)
+    const byAccountType = withCash(r => r.account_type)
+      .map(({ key, ...values }) => ({ account_type: key, ...values }))
+    const byBrokerage = withCash(r => r.brokerage)
+      .map(({ key, ...values }) => ({ brokerage: key, ...values }))
 
     let totalMarketValue = 0
     let totalCostBasis = 0
 
-    for (const h of holdings) {
-      totalMarketValue += h.market_value
-      totalCostBasis += h.cost_basis
+    for (const c of byCurrency) {
+      totalMarketValue += c.market_value_base
+      totalCostBasis += c.cost_basis_base
     }
 
     return {
+      baseCurrency: fx.baseCurrency,
+      fxRates: describeFxRates(fx),
+      // 환율이 없어 합계에서 제외된 통화별 평가금액 + 예수금
+      excluded: findUnconvertible([
+        ...rows.map(r => ({ currency: r.currency, amount: r.market_value })),
+        ...cashRows.map(c => ({ currency: c.currency, amount: c.market_value }))
+      ], fx),
       totalMarketValue,
       totalCostBasis,
+      totalCash,
+      totalAssets: totalMarketValue + totalCash,
       totalReturn: totalMarketValue - totalCostBasis,
       totalReturnPercent: totalCostBasis > 0 ? ((totalMarketValue - totalCostBasis) / totalCostBasis) * 100 : 0,
-      byCurrency: holdings,
+      byCurrency,
       byAccountType,
       byBrokerage
     }
   })
 
   // ===== PORTFOLIO RETURNS =====
-  ipcMain.handle('portfolio:getReturns', (_, userId: string) => {
+  ipcMain.handle('portfolio:getReturns', async (_, userId: string) => {
     const db = getDatabase()
 
-    // 1. Get daily change from prev_close
-    const dailyChange = db.prepare(`
+    // 1. Get current value, prev_close value and cost basis per currency
+    const portfolioRows = db.prepare(`
       SELECT
-        SUM(h.quantity * h.current_price) as current_value,
-        SUM(h.quantity * COALESCE(h.prev_close, h.current_price)) as prev_value
-      FROM holdings h
+        h.currency,
+        COALESCE(SUM(h.quantity * h.current_price), 0) as market_value,
+        COALESCE(SUM(h.quantity * COALESCE(h.prev_close, h.current_price)), 0) as prev_value,
+        COALESCE(SUM(h.quantity * h.avg_cost), 0) as cost_basis
+      FROM priced_holdings h
       JOIN accounts a ON h.account_id = a.id
       WHERE a.user_id = ?
-    `).get(userId) as { current_value: number; prev_value: number } | undefined
-
-    const dailyReturn = dailyChange && dailyChange.prev_value > 0
-      ? ((dailyChange.current_value - dailyChange.prev_value) / dailyChange.prev_value) * 100
-      : 0
-    const dailyReturnValue = dailyChange
-      ? dailyChange.current_value - dailyChange.prev_value
-      : 0
-
-    // 2. Get total dividends received
-    const dividends = db.prepare(`
-      SELECT COALESCE(SUM(t.total_amount), 0) as total_dividends
-      FROM transactions t
-      JOIN accounts a ON t.account_id = a.id
-      WHERE a.user_id = ? AND t.type = 'DIVIDEND'
-    `).get(userId) as { total_dividends: number }
+      GROUP BY h.currency
+    `).all(userId) as Array<ValuationRow & { prev_value: number }>
 
-    // 3. Get dividends this month (MTD)
+    // 2. Get dividends per currency (total / MTD / YTD)
     const startOfMonth = new Date()
     startOfMonth.setDate(1)
     startOfMonth.setHours(0, 0, 0, 0)
-    const mtdDividends = db.prepare(`
-      SELECT COALESCE(SUM(t.total_amount), 0) as mtd_dividends
-      FROM transactions t
-      JOIN accounts a ON t.account_id = a.id
-      WHERE a.user_id = ? AND t.type = 'DIVIDEND' AND t.date >= ?
-    `).get(userId, startOfMonth.toISOString().split('T')[0]) as { mtd_dividends: number }
-
-    // 4. Get dividends this year (YTD)
     const startOfYear = new Date()
     startOfYear.setMonth(0, 1)
     startOfYear.setHours(0, 0, 0, 0)
-    const ytdDividends = db.prepare(`
-      SELECT COALESCE(SUM(t.total_amount), 0) as ytd_dividends
-      FROM transactions t
-      JOIN accounts a ON t.account_id = a.id
-      WHERE a.user_id = ? AND t.type = 'DIVIDEND' AND t.date >= ?
-    `).get(userId, startOfYear.toISOString().split('T')[0]) as { ytd_dividends: number }
 
-    // 5. Get current portfolio value and cost basis
-    const portfolio = db.prepare(`
+    const dividendRows = db.prepare(`
       SELECT
-        COALESCE(SUM(h.quantity * h.current_price), 0) as market_value,
-        COALESCE(SUM(h.quantity * h.avg_cost), 0) as cost_basis
-      FROM holdings h
-      JOIN accounts a ON h.account_id = a.id
-      WHERE a.user_id = ?
-    `).get(userId) as { market_value: number; cost_basis: number }
+        t.currency,
+        COALESCE(SUM(t.total_amount), 0) as total_dividends,
+        COALESCE(SUM(CASE WHEN t.date >= ? THEN t.total_amount ELSE 0 END), 0) as mtd_dividends,
+        COALESCE(SUM(CASE WHEN t.date >= ? THEN t.total_amount ELSE 0 END), 0) as ytd_dividends
+      FROM transactions t
+      JOIN accounts a ON t.account_id = a.id
+      WHERE a.user_id = ? AND t.type = 'DIVIDEND'
+      GROUP BY t.currency
+    `).all(
+      startOfMonth.toISOString().split('T')[0],
+      startOfYear.toISOString().split('T')[0],
+      userId
+    ) as Array<{ currency: string; total_dividends: number; mtd_dividends: number; ytd_dividends: number }>
+
+    const fx = await loadFxTable([
+      ...portfolioRows.map(r => r.currency),
+      ...dividendRows.map(r => r.currency)
+    ])
+
+    const marketValue = sumInBaseCurrency(portfolioRows.map(r => ({ currency: r.currency, amount: r.market_value })), fx)
+    const prevValue = sumInBaseCurrency(portfolioRows.map(r => ({ currency: r.currency, amount: r.prev_value })), fx)
+    const costBasis = sumInBaseCurrency(portfolioRows.map(r => ({ currency: r.currency, amount: r.cost_basis })), fx)
+    const totalDividends = sumInBaseCurrency(dividendRows.map(r => ({ currency: r.currency, amount: r.total_dividends })), fx)
+    const mtdDividends = sumInBaseCurrency(dividendRows.map(r => ({ currency: r.currency, amount: r.mtd_dividends })), fx)
+    const ytdDividends = sumInBaseCurrency(dividendRows.map(r => ({ currency: r.currency, amount: r.ytd_dividends })), fx)
+
+    // Daily change (from prev_close)
+    const dailyReturnValue = marketValue - prevValue
+    const dailyReturn = prevValue > 0 ? (dailyReturnValue / prevValue) * 100 : 0
 
     // Price return (unrealized)
-    const priceReturn = portfolio.market_value - portfolio.cost_basis
-    const priceReturnPercent = portfolio.cost_basis > 0
-      ? (priceReturn / portfolio.cost_basis) * 100
+    const priceReturn = marketValue - costBasis
+    const priceReturnPercent = costBasis > 0
+      ? (priceReturn / costBasis) * 100
       : 0
 
     // Total return = price return + dividends
-    const totalReturnWithDividends = priceReturn + dividends.total_dividends
-    const totalReturnWithDividendsPercent = portfolio.cost_basis > 0
-      ? (totalReturnWithDividends / portfolio.cost_basis) * 100
+    const totalReturnWithDividends = priceReturn + totalDividends
+    const totalReturnWithDividendsPercent = costBasis > 0
+      ? (totalReturnWithDividends / costBasis) * 100
       : 0
 
     return {
+      baseCurrency: fx.baseCurrency,
+      fxRates: describeFxRates(fx),
+      // 환율이 없어 합계에서 제외된 통화별 평가금액 + 배당금
+      excluded: findUnconvertible([
+        ...portfolioRows.map(r => ({ currency: r.currency, amount: r.market_value })),
+        ...dividendRows.map(r => ({ currency: r.currency, amount: r.total_dividends }))
+      ], fx),
+
       // Daily change (from prev_close)
       dailyReturn: dailyReturnValue,
       dailyReturnPercent: dailyReturn,
@@ -430,33 +781,327 @@ export function registerIpcHandlers(): void {
       priceReturnPercent,
 
       // Dividend returns
-      totalDividends: dividends.total_dividends,
-      mtdDividends: mtdDividends.mtd_dividends,
-      ytdDividends: ytdDividends.ytd_dividends,
+      totalDividends,
+      mtdDividends,
+      ytdDividends,
 
       // Total return (price + dividends)
       totalReturnWithDividends,
       totalReturnWithDividendsPercent,
 
       // Portfolio values
-      marketValue: portfolio.market_value,
-      costBasis: portfolio.cost_basis
+      marketValue,
+      costBasis,
+
+      // 통화별 소계 (원 통화 + 기준통화 환산)
+      byCurrency: summarizeByCurrency(portfolioRows, fx)
+    }
+  })
+
+  // ===== PERFORMANCE (TWR / XIRR) =====
+  ipcMain.handle('portfolio:getPerformance', async (_, window: PerformanceWindow = 'YTD') => {
+    return getPerformanceReport(window)
+  })
+
+  // ===== FX RETURN SPLIT (환차익) =====
+  // 외화 보유종목 손익을 주가 손익과 환차익으로 분리 (원화 기준)
+  ipcMain.handle('portfolio:getFxReturns', async (_, userId: string) => {
+    const db = getDatabase()
+
+    const holdings = db.prepare(`
+      SELECT h.account_id, h.stock_code, h.stock_name, h.quantity, h.avg_cost, h.current_price, h.currency
+      FROM priced_holdings h
+      JOIN accounts a ON h.account_id = a.id
+      WHERE a.user_id = ? AND h.currency != 'KRW'
+    `).all(userId) as Array<{
+      account_id: string
+      stock_code: string
+      stock_name: string
+      quantity: number
+      avg_cost: number
+      current_price: number
+      currency: string
+    }>
+
+    const ledgerStmt = db.prepare(`
+      SELECT type, quantity, total_amount, fx_rate, date FROM transactions
+      WHERE account_id = ? AND stock_code = ? AND type IN ('BUY', 'SELL')
+    `)
+
+    const currentRates = new Map<string, number>()
+    const items: Array<FxReturnSplit & { account_id: string; stock_code: string; stock_name: string; currency: string; costFxRate: number; currentFxRate: number; lockedFx: boolean }> = []
+
+    for (const h of holdings) {
+      if (!currentRates.has(h.currency)) {
+        const fx = await fetchExchangeRate(h.currency, 'KRW')
+        currentRates.set(h.currency, fx.success ? fx.rate : 0)
+      }
+      const currentFxRate = currentRates.get(h.currency) || 0
+      if (currentFxRate <= 0) continue
+
+      const entries = ledgerStmt.all(h.account_id, h.stock_code) as FxLedgerEntry[]
+      const lockedFx = entries.some(e => e.type === 'BUY' && e.fx_rate)
+      const costFxRate = computeLockedCostFxRate(entries, currentFxRate)
+
+      items.push({
+        account_id: h.account_id,
+        stock_code: h.stock_code,
+        stock_name: h.stock_name,
+        currency: h.currency,
+        costFxRate,
+        currentFxRate,
+        lockedFx,
+        ...splitFxReturn(h.quantity, h.avg_cost, h.current_price, costFxRate, currentFxRate)
+      })
+    }
+
+    const totals = items.reduce((acc, item) => ({
+      costBase: acc.costBase + item.costBase,
+      valueBase: acc.valueBase + item.valueBase,
+      priceGain: acc.priceGain + item.priceGain,
+      fxGain: acc.fxGain + item.fxGain,
+      totalGain: acc.totalGain + item.totalGain
+    }), { costBase: 0, valueBase: 0, priceGain: 0, fxGain: 0, totalGain: 0 })
+
+    return { items, totals }
+  })
+
+  // ===== REALIZED GAINS (실현손익) =====
+  ipcMain.handle('portfolio:getRealizedGains', async (_, userId: string, year?: number) => {
+    return getRealizedGains(userId, year)
+  })
+
+  ipcMain.handle('portfolio:getFeeSummary', async (_, userId: string) => {
+    return getFeeSummary(userId)
+  })
+
+  // ===== PORTFOLIO SNAPSHOTS (순자산 추이) =====
+  ipcMain.handle('snapshot:getHistory', async (_, userId: string, range: SnapshotRange) => {
+    return getNetWorthHistory(userId, range)
+  })
+
+  ipcMain.handle('snapshot:record', async (_, userId: string) => {
+    try {
+      const saved = await recordPortfolioSnapshot(userId)
+      return { success: true, saved }
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+    }
+  })
+
+  ipcMain.handle('snapshot:backfill', async (_, userId: string) => {
+    try {
+      return { success: true, ...(await backfillPortfolioSnapshots(userId)) }
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+    }
+  })
+
+  // ===== SETTINGS HANDLERS =====
+  ipcMain.handle('settings:getBaseCurrency', () => {
+    return getBaseCurrency()
+  })
+
+  ipcMain.handle('settings:setBaseCurrency', (_, currency: string) => {
+    try {
+      return { success: true, baseCurrency: setBaseCurrency(currency) }
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
     }
   })
 
   // ===== EXCHANGE RATE HANDLERS =====
+  // 마지막으로 알려진 환율 (자동 조회·수동 입력 중 최신, 네트워크 호출 없음)
   ipcMain.handle('exchangeRate:get', (_, currencyPair: string) => {
-    const db = getDatabase()
-    return db.prepare('SELECT * FROM exchange_rates WHERE currency_pair = ? ORDER BY fetched_at DESC LIMIT 1').get(currencyPair)
+    const [from, to] = currencyPair.split('/')
+    const last = getLastExchangeRate(from, to)
+    return last.success
+      ? { currency_pair: last.pair, rate: last.rate, fetched_at: last.timestamp, stale: last.stale ?? false }
+      : null
   })
 
   ipcMain.handle('exchangeRate:update', (_, currencyPair: string, rate: number) => {
-    const db = getDatabase()
-    const id = uuidv4()
-    db.prepare('INSERT INTO exchange_rates (id, currency_pair, rate) VALUES (?, ?, ?)').run(id, currencyPair, rate)
+    saveExchangeRate(currencyPair, rate)
     return { success: true, rate }
   })
 
+  // ===== FX HISTORY HANDLERS =====
+  ipcMain.handle('fxHistory:getCoverage', (_, currencyPair: string = 'USD/KRW') => {
+    return getFxHistoryCoverage(currencyPair)
+  })
+
+  ipcMain.handle('fxHistory:getRange', (_, currencyPair: string, startDate: string, endDate: string) => {
+    const db = getDatabase()
+    return db.prepare(`
+      SELECT date, rate, source FROM fx_rate_history
+      WHERE currency_pair = ? AND date BETWEEN ? AND ?
+      ORDER BY date
+    `).all(currencyPair, startDate, endDate)
+  })
+
+  ipcMain.handle('fxHistory:selectCsv', async () => {
+    const result = await dialog.showOpenDialog({
+      title: '환율 CSV 파일 선택',
+      filters: [
+        { name: 'CSV Files', extensions: ['csv', 'txt'] },
+        { name: 'All Files', extensions: ['*'] }
+      ],
+      properties: ['openFile']
+    })
+
+    if (result.canceled || result.filePaths.length === 0) {
+      return { success: false, canceled: true }
+    }
+
+    return { success: true, filePath: result.filePaths[0] }
+  })
+
+  ipcMain.handle('fxHistory:importCsv', (_, filePath: string, currencyPair: string = 'USD/KRW') => {
+    const result = importFxCsvFile(filePath, currencyPair)
+    const locked = lockTransactionFxRates()
+    return { ...result, lockedTransactions: locked.updated, missingTransactions: locked.missing }
+  })
+
+  ipcMain.handle('fxHistory:backfill', async (_, startDate?: string, endDate?: string) => {
+    const db = getDatabase()
+
+    // 시작일 미지정 시 가장 오래된 외화 거래일부터
+    const start = startDate || (db.prepare(`
+      SELECT MIN(date) as first_date FROM transactions WHERE currency = 'USD'
+    `).get() as { first_date: string | null }).first_date
+
+    if (!start) {
+      return { success: false, pair: 'USD/KRW', saved: 0, standIn: 0, error: '외화 거래내역이 없습니다' }
+    }
+
+    const result = await backfillFxHistory('USD', 'KRW', start, endDate)
+    const locked = lockTransactionFxRates()
+    return { ...result, lockedTransactions: locked.updated, missingTransactions: locked.missing }
+  })
+
+  // ===== BENCHMARK HANDLERS =====
+  ipcMain.handle('benchmark:getCoverage', () => {
+    return getBenchmarkCoverage()
+  })
+
+  ipcMain.handle('benchmark:sync', async (_, code: string, startDate?: string) => {
+    return syncBenchmarkHistory(code, startDate)
+  })
+
+  ipcMain.handle('benchmark:selectCsv', async () => {
+    const result = await dialog.showOpenDialog({
+      title: '지수 CSV 파일 선택',
+      filters: [
+        { name: 'CSV Files', extensions: ['csv', 'txt'] },
+        { name: 'All Files', extensions: ['*'] }
+      ],
+      properties: ['openFile']
+    })
+
+    if (result.canceled || result.filePaths.length === 0) {
+      return { success: false, canceled: true }
+    }
+
+    return { success: true, filePath: result.filePaths[0] }
+  })
+
+  ipcMain.handle('benchmark:importCsv', (_, filePath: string, code: string) => {
+    return importBenchmarkCsvFile(filePath, code)
+  })
+
+  ipcMain.handle('benchmark:compare', async (_, code: string, window: PerformanceWindow = 'YTD') => {
+    try {
+      return { success: true, ...(await compareWithBenchmark(code, window)) }
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+    }
+  })
+
+  // ===== EXPOSURE HANDLERS =====
+  // userId가 null이면 가족 전체
+  ipcMain.handle('exposure:getReport', async (_, userId: string | null, dimension: ExposureDimension, lookThrough: boolean = true) => {
+    return getExposureReport(userId, dimension, lookThrough)
+  })
+
+  ipcMain.handle('exposure:selectCsv', async () => {
+    const result = await dialog.showOpenDialog({
+      title: 'ETF 구성종목 CSV 파일 선택',
+      filters: [
+        { name: 'CSV Files', extensions: ['csv', 'txt'] },
+        { name: 'All Files', extensions: ['*'] }
+      ],
+      properties: ['openFile']
+    })
+
+    if (result.canceled || result.filePaths.length === 0) {
+      return { success: false, canceled: true }
+    }
+
+    return { success: true, filePath: result.filePaths[0] }
+  })
+
+  ipcMain.handle('exposure:importConstituents', (_, filePath: string, etfCode?: string) => {
+    return importConstituentCsvFile(filePath, etfCode)
+  })
+
+  ipcMain.handle('exposure:getConstituentCoverage', () => {
+    return getConstituentCoverage()
+  })
+
+  ipcMain.handle('exposure:deleteConstituents', (_, etfCode: string) => {
+    deleteConstituents(etfCode)
+    return { success: true }
+  })
+
+  // ===== PRICE HISTORY HANDLERS =====
+  // userId가 null이면 가족 전체 거래 표시
+  ipcMain.handle('priceHistory:getChart', (_, stockCode: string, userId: string | null, startDate?: string) => {
+    return getPriceChart(stockCode, userId, startDate)
+  })
+
+  ipcMain.handle('priceHistory:backfill', async (_, stockCode: string, startDate?: string) => {
+    return backfillPriceHistory(stockCode, startDate)
+  })
+
+  ipcMain.handle('priceHistory:selectCsv', async () => {
+    const result = await dialog.showOpenDialog({
+      title: '시세 CSV 파일 선택',
+      filters: [
+        { name: 'CSV Files', extensions: ['csv', 'txt'] },
+        { name: 'All Files', extensions: ['*'] }
+      ],
+      properties: ['openFile']
+    })
+
+    if (result.canceled || result.filePaths.length === 0) {
+      return { success: false, canceled: true }
+    }
+
+    return { success: true, filePath: result.filePaths[0] }
+  })
+
+  ipcMain.handle('priceHistory:importCsv', (_, filePath: string, stockCode: string) => {
+    return importPriceCsvFile(filePath, stockCode)
+  })
+
+  // ===== REBALANCING HANDLERS =====
+  // userId가 null이면 가족 전체 목표
+  ipcMain.handle('rebalance:getTargets', (_, userId: string | null, dimension: AllocationDimension) => {
+    return getAllocationTargets(userId, dimension)
+  })
+
+  ipcMain.handle('rebalance:setTargets', (_, userId: string | null, dimension: AllocationDimension, targets: AllocationTarget[]) => {
+    try {
+      return { success: true, targets: setAllocationTargets(userId, dimension, targets) }
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+    }
+  })
+
+  ipcMain.handle('rebalance:getPlan', async (_, userId: string | null, dimension: AllocationDimension) => {
+    return getRebalancePlan(userId, dimension)
+  })
+
   // ===== EXCEL IMPORT HANDLERS =====
   ipcMain.handle('import:selectFile', async () => {
     const result = await dialog.showOpenDialog({
@@ -497,16 +1142,17 @@ export function registerIpcHandlers(): void {
     return parseExcelFile(filePath)
   })
 
-  ipcMain.handle('import:execute', (_, accountId: string, rows: ImportRow[], overwrite?: boolean) => {
+  ipcMain.handle('import:execute', (_, accountId: string, rows: ImportRow[], overwrite?: boolean, fileName?: string) => {
     const db = getDatabase()
     const batchId = generateBatchId()
+    rows = rows.map(row => row.isValid ? { ...row, stockCode: resolveInstrumentCode(accountId, row.stockCode, row.stockName) } : row)
     let imported = 0
     let skipped = 0
     let deleted = 0
 
     const insertStmt = db.prepare(`
-      INSERT INTO transactions (id, account_id, stock_code, stock_name, type, quantity, price, total_amount, currency, date, is_manual, source)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 0, 'EXCEL')
+      INSERT INTO transactions (id, account_id, stock_code, stock_name, type, quantity, price, total_amount, currency, date, is_manual, source, fx_rate, fee, tax, import_batch_id)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 0, 'EXCEL', ?, ?, ?, ?)
     `)
 
     const checkDuplicate = db.prepare(`
@@ -516,12 +1162,28 @@ export function registerIpcHandlers(): void {
 
     const deleteTransactions = db.prepare(`DELETE FROM transactions WHERE account_id = ?`)
     const deleteHoldings = db.prepare(`DELETE FROM holdings WHERE account_id = ?`)
+    const deleteOpeningBalances = db.prepare(`DELETE FROM opening_balances WHERE account_id = ?`)
+
+    const touchedStocks = new Set<string>()
+
+    // 종목별 가장 이른 거래일 (기초잔고 기준일)
+    const earliestDates = new Map<string, string>()
+    for (const row of rows) {
+      if (!row.isValid || !isLedgerTrade(row.type)) continue
+      const current = earliestDates.get(row.stockCode)
+      if (!current || row.date < current) earliestDates.set(row.stockCode, row.date)
+    }
 
     const transaction = db.transaction(() => {
+      // 되돌리기용 가져오기 이전 상태
+      const holdingsBefore = captureHoldings(accountId)
+      const transactionsBefore = overwrite ? captureTransactions(accountId) : undefined
+
       // 덮어쓰기 모드: 기존 데이터 삭제
       if (overwrite) {
         const delTxResult = deleteTransactions.run(accountId)
         const delHoldResult = deleteHoldings.run(accountId)
+        deleteOpeningBalances.run(accountId)
         deleted = delTxResult.changes
         console.log(`[Import] Overwrite mode: deleted ${deleted} transactions, ${delHoldResult.changes} holdings`)
       }
@@ -552,6 +1214,10 @@ export function registerIpcHandlers(): void {
         const id = uuidv4()
         const totalAmount = row.quantity * row.price
 
+        if (!overwrite && isLedgerTrade(row.type)) {
+          ensureOpeningBalance(accountId, row.stockCode, earliestDates.get(row.stockCode) || row.date, batchId)
+        }
+
         insertStmt.run(
           id,
           accountId,
@@ -562,22 +1228,42 @@ export function registerIpcHandlers(): void {
           row.price,
           totalAmount,
           row.currency,
-          row.date
+          row.date,
+          resolveTradeFxRate(row.currency, row.date),
+          row.fee || 0,
+          row.tax || 0,
+          batchId
         )
 
-        // Update holdings
-        updateHoldingsAfterTransaction({
-          account_id: accountId,
-          stock_code: row.stockCode,
-          stock_name: row.stockName,
-          type: row.type,
-          quantity: row.quantity,
-          price: row.price,
-          currency: row.currency
-        })
-
+        if (isLedgerTrade(row.type)) {
+          touchedStocks.add(row.stockCode)
+        }
         imported++
       }
+
+      // 가져온 거래를 포함해 원장 재생
+      if (overwrite) {
+        replayAccount(accountId)
+      } else {
+        for (const stockCode of touchedStocks) {
+          replayHolding(accountId, stockCode)
+        }
+      }
+
+      recordImportBatch({
+        id: batchId,
+        accountId,
+        kind: 'TRANSACTIONS',
+        fileName,
+        overwrite: !!overwrite,
+        totalRows: rows.length,
+        imported,
+        skipped,
+        deleted,
+        stockCodes: [...touchedStocks],
+        holdingsBefore,
+        transactionsBefore
+      })
     })
 
     try {
@@ -593,6 +1279,19 @@ export function registerIpcHandlers(): void {
     }
   })
 
+  // 가져오기 기록 및 되돌리기
+  ipcMain.handle('import:getHistory', (_, userId: string) => {
+    return listImportBatches(userId)
+  })
+
+  ipcMain.handle('import:undoBatch', (_, batchId: string) => {
+    try {
+      return { success: true, ...undoImportBatch(batchId) }
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+    }
+  })
+
   ipcMain.handle('import:getTemplate', () => {
     return {
       columns: ['거래일자', '종목코드', '종목명', '거래유형', '수량', '단가', '통화'],
@@ -632,6 +1331,44 @@ export function registerIpcHandlers(): void {
     }
   })
 
+  // 작업으로 실행: 즉시 jobId 반환, 진행 상황은 'job-progress' 이벤트로 전달
+  ipcMain.handle('sync:startAll', (event, accountId: string) => {
+    const jobId = startJob('ACCOUNT_SYNC', async ({ signal, setTotal, setCurrent, reportItem }) => {
+      setTotal(2)
+      setCurrent('잔고')
+      // 종목별로 반영되는 즉시 보고 (잔고 종목 수 + 거래내역 1단계)
+      const holdingsResult = await syncHoldings(accountId, {
+        signal,
+        onStart: total => setTotal(total + 1),
+        onItem: s => reportItem({ key: s.stock_code, label: s.stock_name, success: true })
+      })
+      if (!holdingsResult.success && !holdingsResult.canceled) {
+        reportItem({ key: 'holdings', label: '잔고', success: false, error: holdingsResult.error })
+      }
+
+      if (signal.aborted) {
+        return { holdings: holdingsResult, transactions: null }
+      }
+
+      setCurrent('거래내역')
+      const transactionsResult = await syncTransactions(accountId, undefined, undefined, { signal })
+      if (transactionsResult.canceled) {
+        return { holdings: holdingsResult, transactions: transactionsResult }
+      }
+      reportItem({
+        key: 'transactions',
+        label: transactionsResult.success ? `거래내역 ${transactionsResult.synced}건` : '거래내역',
+        success: transactionsResult.success,
+        error: transactionsResult.error
+      })
+
+      return { holdings: holdingsResult, transactions: transactionsResult }
+    }, progress => {
+      if (!event.sender.isDestroyed()) event.sender.send('job-progress', progress)
+    })
+    return { jobId }
+  })
+
   ipcMain.handle('sync:getLogs', (_, accountId: string, limit?: number) => {
     const db = getDatabase()
     const sql = limit
@@ -652,6 +1389,15 @@ export function registerIpcHandlers(): void {
     `).get(accountId)
   })
 
+  // ===== JOB HANDLERS =====
+  ipcMain.handle('jobs:cancel', (_, jobId: string) => {
+    return { success: cancelJob(jobId) }
+  })
+
+  ipcMain.handle('jobs:getRunning', () => {
+    return getRunningJobs()
+  })
+
   // ===== MARKET DATA HANDLERS =====
   // 환율 조회 (forceRefresh: 캐시 무시하고 강제 새로고침)
   ipcMain.handle('marketData:getExchangeRate', async (_, from: string, to: string, forceRefresh?: boolean) => {
@@ -669,16 +1415,168 @@ export function registerIpcHandlers(): void {
   })
 
   // 사용자의 모든 보유종목 현재가 일괄 업데이트
+  const afterManualRefresh = async (userId: string, result: BulkPriceResult): Promise<void> => {
+    logRefreshRun('ALL', 'MANUAL', result)
+
+    // 새 시세로 당일 순자산 스냅샷 기록 (실패해도 새로고침 결과는 반환)
+    try {
+      await recordPortfolioSnapshot(userId)
+    } catch (error) {
+      console.error('[Snapshot] Failed to record after refresh:', error)
+    }
+  }
+
   ipcMain.handle('marketData:refreshAll', async (_, userId: string) => {
-    return await updateAllHoldingPrices(userId)
+    const result = await updateAllHoldingPrices(userId)
+    await afterManualRefresh(userId, result)
+    return result
+  })
+
+  // 작업으로 실행: 종목별 진행 상황을 'job-progress' 이벤트로 전달, jobs:cancel로 중단
+  ipcMain.handle('marketData:startRefresh', (event, userId: string) => {
+    const jobId = startJob('PRICE_REFRESH', async ({ signal, setTotal, setCurrent, reportItem }) => {
+      const result = await updateAllHoldingPrices(userId, undefined, {
+        signal,
+        onStart: setTotal,
+        onBatch: labels => setCurrent(labels.join(', ')),
+        onItem: (r, label) => reportItem({ key: r.stockCode, label, success: r.success, error: r.error })
+      })
+      await afterManualRefresh(userId, result)
+      return result
+    }, progress => {
+      if (!event.sender.isDestroyed()) event.sender.send('job-progress', progress)
+    })
+    return { jobId }
   })
 
   // 캐시 클리어
+  // 저장된 환율 (네트워크 없이 즉시 표시용)
+  ipcMain.handle('marketData:getLastExchangeRate', (_, from: string, to: string) => {
+    return getLastExchangeRate(from, to)
+  })
+
+  // 시세·환율 기준 시각, 지연 종목, 오프라인 여부
+  ipcMain.handle('marketData:getStatus', (_, userId: string) => {
+    return getMarketDataStatus(userId, net.isOnline())
+  })
+
   ipcMain.handle('marketData:clearCache', () => {
     clearMarketDataCache()
     return { success: true }
   })
 
+  // 시세 공급자 목록 / 우선순위 / 사용 여부 / 상태
+  ipcMain.handle('marketData:getProviders', () => {
+    return { providers: getProviderStatus(), ...getProviderSettings(), fixturePath: getFixturePath() }
+  })
+
+  ipcMain.handle('marketData:setProviderEnabled', (_, id: string, enabled: boolean) => {
+    setProviderEnabled(id, enabled)
+    return { success: true }
+  })
+
+  ipcMain.handle('marketData:setProviderPriority', (_, market: ProviderMarket, ids: string[]) => {
+    try {
+      setProviderPriority(market, ids)
+      return { success: true }
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+    }
+  })
+
+  ipcMain.handle('marketData:resetProviderHealth', () => {
+    resetProviderHealth()
+    return { success: true }
+  })
+
+  // 외부 API 출처별 호출/오류 통계 (재시도, 호출 제한, 차단 상태)
+  ipcMain.handle('marketData:getHttpStats', () => {
+    return getHttpStats()
+  })
+
+  ipcMain.handle('marketData:resetHttpStats', () => {
+    resetHttpStats()
+    return { success: true }
+  })
+
+  ipcMain.handle('marketData:selectFixture', async () => {
+    const result = await dialog.showOpenDialog({
+      title: '시세 픽스처 파일 선택',
+      filters: [
+        { name: 'JSON Files', extensions: ['json'] },
+        { name: 'All Files', extensions: ['*'] }
+      ],
+      properties: ['openFile']
+    })
+
+    if (result.canceled || result.filePaths.length === 0) {
+      return { success: false, canceled: true }
+    }
+
+    return { success: true, filePath: result.filePaths[0] }
+  })
+
+  // filePath가 null이면 픽스처 해제
+  ipcMain.handle('marketData:setFixturePath', (_, filePath: string | null) => {
+    try {
+      setFixturePath(filePath)
+      clearMarketDataCache()
+      return { success: true }
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+    }
+  })
+
+  // ===== PRICE OVERRIDE HANDLERS =====
+  // 수동 시세 (비상장·조회 불가 종목)
+  ipcMain.handle('priceOverride:getAll', () => {
+    return getPriceOverrides()
+  })
+
+  ipcMain.handle('priceOverride:set', (_, input: PriceOverrideInput) => {
+    try {
+      return { success: true, override: setPriceOverride(input) }
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+    }
+  })
+
+  ipcMain.handle('priceOverride:delete', (_, instrumentCode: string) => {
+    return { success: deletePriceOverride(instrumentCode) }
+  })
+
+  // ===== PRICE SCHEDULER HANDLERS =====
+  // 백그라운드 시세 갱신 상태 (거래소별 개장 여부 / 다음 갱신 / 오늘 사용 횟수)
+  ipcMain.handle('priceScheduler:getStatus', () => {
+    return getSchedulerStatus()
+  })
+
+  ipcMain.handle('priceScheduler:setConfig', (_, config: Partial<RefreshConfig>) => {
+    try {
+      return { success: true, config: setRefreshConfig(config) }
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+    }
+  })
+
+  ipcMain.handle('priceScheduler:getHolidays', (_, exchange: ExchangeCode) => {
+    return getHolidays(exchange)
+  })
+
+  ipcMain.handle('priceScheduler:addHoliday', (_, exchange: ExchangeCode, date: string, name: string | null) => {
+    try {
+      addHoliday(exchange, date, name)
+      return { success: true }
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+    }
+  })
+
+  ipcMain.handle('priceScheduler:deleteHoliday', (_, exchange: ExchangeCode, date: string) => {
+    deleteHoliday(exchange, date)
+    return { success: true }
+  })
+
 // ===== HOLDINGS IMPORT HANDLERS =====
 // 보유종목 파일 파싱
 ipcMain.handle('import:parseHoldings', (_, filePath: string) => {
@@ -686,8 +1584,10 @@ ipcMain.handle('import:parseHoldings', (_, filePath: string) => {
 })
 
 // 보유종목 일괄 저장
-ipcMain.handle('import:saveHoldings', (_, accountId: string, holdings: ParsedHolding[]) => {
+ipcMain.handle('import:saveHoldings', (_, accountId: string, holdings: ParsedHolding[], fileName?: string) => {
   const db = getDatabase()
+  const batchId = generateBatchId()
+  holdings = resolveHoldingCodes(accountId, holdings)
   let imported = 0
   let updated = 0
 
@@ -706,6 +1606,9 @@ ipcMain.handle('import:saveHoldings', (_, accountId: string, holdings: ParsedHol
   const checkExisting = db.prepare('SELECT id FROM holdings WHERE account_id = ? AND stock_code = ?')
 
   const transaction = db.transaction(() => {
+    const holdingsBefore = captureHoldings(accountId)
+    const brokerHoldingsBefore = captureBrokerHoldings(accountId)
+
     for (const h of holdings) {
       if (!h.isValid) continue
 
@@ -730,11 +1633,29 @@ ipcMain.handle('import:saveHoldings', (_, accountId: string, holdings: ParsedHol
         imported++
       }
     }
+
+    // 원장 대사용 증권사 잔고 스냅샷 (종목별 갱신)
+    const snapshotRows = toSnapshotRows(holdings)
+    recordBrokerSnapshot(accountId, snapshotRows, 'EXCEL', false)
+
+    recordImportBatch({
+      id: batchId,
+      accountId,
+      kind: 'HOLDINGS',
+      fileName,
+      overwrite: false,
+      totalRows: holdings.length,
+      imported: imported + updated,
+      skipped: holdings.length - snapshotRows.length,
+      stockCodes: snapshotRows.map(r => r.stock_code),
+      holdingsBefore,
+      brokerHoldingsBefore
+    })
   })
 
   try {
     transaction()
-    return { success: true, imported, updated }
+    return { success: true, imported, updated, batchId }
   } catch (error) {
     return {
       success: false,
@@ -745,11 +1666,32 @@ ipcMain.handle('import:saveHoldings', (_, accountId: string, holdings: ParsedHol
   }
 })
 
+// 증권사별 종목코드/종목명 → 표준 코드 (동일 종목 통합 반영)
+function resolveHoldingCodes(accountId: string, holdings: ParsedHolding[]): ParsedHolding[] {
+  return holdings.map(h => h.isValid ? { ...h, stockCode: resolveInstrumentCode(accountId, h.stockCode, h.stockName) } : h)
+}
+
+// 잔고 파일 행 → 증권사 잔고 스냅샷 행
+function toSnapshotRows(holdings: ParsedHolding[]): SnapshotRow[] {
+  return holdings.filter(h => h.isValid).map(h => ({
+    stock_code: (h.stockCode || h.stockName).trim(),
+    stock_name: h.stockName.trim(),
+    quantity: h.quantity,
+    avg_cost: h.avgPrice,
+    currency: h.currency
+  }))
+}
+
 // 계좌의 모든 보유종목 삭제 후 새로 저장
-ipcMain.handle('import:replaceHoldings', (_, accountId: string, holdings: ParsedHolding[]) => {
+ipcMain.handle('import:replaceHoldings', (_, accountId: string, holdings: ParsedHolding[], fileName?: string) => {
   const db = getDatabase()
+  const batchId = generateBatchId()
+  holdings = resolveHoldingCodes(accountId, holdings)
 
   const transaction = db.transaction(() => {
+    const holdingsBefore = captureHoldings(accountId)
+    const brokerHoldingsBefore = captureBrokerHoldings(accountId)
+
     // 기존 보유종목 삭제
     db.prepare('DELETE FROM holdings WHERE account_id = ?').run(accountId)
 
@@ -785,12 +1727,30 @@ ipcMain.handle('import:replaceHoldings', (_, accountId: string, holdings: Parsed
       imported++
     }
 
+    const snapshotRows = toSnapshotRows(holdings)
+    recordBrokerSnapshot(accountId, snapshotRows, 'EXCEL', true)
+
+    recordImportBatch({
+      id: batchId,
+      accountId,
+      kind: 'HOLDINGS',
+      fileName,
+      overwrite: true,
+      totalRows: holdings.length,
+      imported,
+      skipped: holdings.length - snapshotRows.length,
+      deleted: holdingsBefore.length,
+      stockCodes: snapshotRows.map(r => r.stock_code),
+      holdingsBefore,
+      brokerHoldingsBefore
+    })
+
     return imported
   })
 
   try {
     const imported = transaction()
-    return { success: true, imported }
+    return { success: true, imported, batchId }
   } catch (error) {
     return {
       success: false,
@@ -805,8 +1765,8 @@ ipcMain.handle('holding:getAllAggregated', () => {
   const db = getDatabase()
   return db.prepare(`
     SELECT
-      h.stock_code,
-      h.stock_name,
+      h.instrument_code as stock_code,
+      MAX(h.stock_name) as stock_name,
       h.currency,
       SUM(h.quantity) as total_quantity,
       SUM(h.quantity * h.avg_cost) / NULLIF(SUM(h.quantity), 0) as weighted_avg_cost,
@@ -815,10 +1775,10 @@ ipcMain.handle('holding:getAllAggregated', () => {
       MAX(h.prev_close) as prev_close,
       COUNT(DISTINCT a.id) as account_count,
       GROUP_CONCAT(DISTINCT u.name) as users
-    FROM holdings h
+    FROM priced_holdings h
     JOIN accounts a ON h.account_id = a.id
     JOIN users u ON a.user_id = u.id
-    GROUP BY h.stock_code, h.stock_name, h.currency
+    GROUP BY h.instrument_code, h.currency
     ORDER BY total_value DESC
   `).all()
 })
@@ -827,13 +1787,13 @@ ipcMain.handle('holding:getAllAggregated', () => {
 ipcMain.handle('stock:search', (_, userId: string, query: string) => {
   const db = getDatabase()
   const searchQuery = `%${query}%`
-  return db.prepare(`
+  const held = db.prepare(`
     SELECT DISTINCT
       h.stock_code,
       h.stock_name,
       h.currency,
       MAX(h.current_price) as current_price
-    FROM holdings h
+    FROM priced_holdings h
     JOIN accounts a ON h.account_id = a.id
     WHERE a.user_id = ?
       AND (h.stock_code LIKE ? OR h.stock_name LIKE ?)
@@ -842,7 +1802,15 @@ ipcMain.handle('stock:search', (_, userId: string, query: string) => {
       CASE WHEN h.stock_code LIKE ? THEN 0 ELSE 1 END,
       h.stock_name
     LIMIT 10
-  `).all(userId, searchQuery, searchQuery, query + '%')
+  `).all(userId, searchQuery, searchQuery, query + '%') as Array<{ stock_code: string; stock_name: string; currency: string; current_price: number }>
+
+  // 보유종목 다음에 종목 마스터 결과 (현재가 없음)
+  const heldCodes = new Set(held.map(h => h.stock_code))
+  const master = searchSecurities(query, 10)
+    .filter(s => !heldCodes.has(s.code))
+    .map(s => ({ stock_code: s.code, stock_name: s.name_ko || s.name_en || s.code, currency: s.currency, current_price: 0 }))
+
+  return [...held, ...master].slice(0, 10)
 })
 
 // 사용자별 통합 보유종목 (prev_close 포함)
@@ -858,7 +1826,7 @@ ipcMain.handle('holding:getByUserWithChange', (_, userId: string) => {
         WHEN h.prev_close > 0 THEN ((h.current_price - h.prev_close) / h.prev_close) * 100
         ELSE 0
       END as day_change_percent
-    FROM holdings h
+    FROM priced_holdings h
     JOIN accounts a ON h.account_id = a.id
     WHERE a.user_id = ?
     ORDER BY h.stock_name
@@ -1003,49 +1971,6 @@ ipcMain.handle('seed:importDemoData', async () => {
   }
 })
 
-// Helper function to update holdings after a transaction
-function updateHoldingsAfterTransaction(data: {
-  account_id: string
-  stock_code: string
-  stock_name: string
-  type: 'BUY' | 'SELL' | 'DIVIDEND'
-  quantity: number
-  price: number
-  currency?: string
-}): void {
-  const db = getDatabase()
-  const existing = db.prepare('SELECT * FROM holdings WHERE account_id = ? AND stock_code = ?').get(data.account_id, data.stock_code) as { id: string; quantity: number; avg_cost: number } | undefined
-
-  if (data.type === 'BUY') {
-    if (existing) {
-      // Moving average calculation
-      const newQuantity = existing.quantity + data.quantity
-      const newAvgCost = (existing.quantity * existing.avg_cost + data.quantity * data.price) / newQuantity
-
-      db.prepare('UPDATE holdings SET quantity = ?, avg_cost = ?, last_synced = datetime("now") WHERE id = ?').run(
-        newQuantity,
-        newAvgCost,
-        existing.id
-      )
-    } else {
-      const id = uuidv4()
-      db.prepare(`
-        INSERT INTO holdings (id, account_id, stock_code, stock_name, quantity, avg_cost, current_price, currency, last_synced)
-        VALUES (?, ?, ?, ?, ?, ?, ?, ?, datetime('now'))
-      `).run(id, data.account_id, data.stock_code, data.stock_name, data.quantity, data.price, data.price, data.currency || 'KRW')
-    }
-  } else if (data.type === 'SELL' && existing) {
-    const newQuantity = existing.quantity - data.quantity
-    if (newQuantity <= 0) {
-      db.prepare('DELETE FROM holdings WHERE id = ?').run(existing.id)
-    } else {
-      // Keep the same avg_cost for selling (moving average method)
-      db.prepare('UPDATE holdings SET quantity = ?, last_synced = datetime("now") WHERE id = ?').run(newQuantity, existing.id)
-    }
-  }
-  // DIVIDEND doesn't affect holdings quantity/cost
-}
-
 // ===== TRADING STRATEGY HANDLERS =====
 
 interface TradingStrategy {
@@ -1175,7 +2100,7 @@ ipcMain.handle('strategy:checkSignals', (_, userId: string) => {
   // Get user's holdings with account info
   const holdings = db.prepare(`
     SELECT h.*, a.user_id, a.brokerage, a.account_type
-    FROM holdings h
+    FROM priced_holdings h
     JOIN accounts a ON h.account_id = a.id
     WHERE a.user_id = ? AND h.quantity > 0
   `).all(userId) as Array<{
@@ -1305,7 +2230,7 @@ ipcMain.handle('strategy:getSignals', (_, userId: string, status?: 'PENDING' | '
     FROM strategy_signals ss
     JOIN trading_strategies ts ON ss.strategy_id = ts.id
     JOIN accounts a ON ss.account_id = a.id
-    JOIN holdings h ON ss.holding_id = h.id
+    JOIN priced_holdings h ON ss.holding_id = h.id
     WHERE ts.user_id = ?
   `
   const params: (string | undefined)[] = [userId]
@@ -1334,7 +2259,7 @@ ipcMain.handle('strategy:executeSignal', (_, signalId: string) => {
   }
 
   // Get current holding info
-  const holding = db.prepare('SELECT * FROM holdings WHERE id = ?').get(signal.holding_id) as { current_price: number; currency: string } | undefined
+  const holding = db.prepare('SELECT * FROM priced_holdings WHERE id = ?').get(signal.holding_id) as { current_price: number; currency: string } | undefined
   if (!holding) {
     throw new Error('Holding not found')
   }
@@ -1342,10 +2267,13 @@ ipcMain.handle('strategy:executeSignal', (_, signalId: string) => {
   // Create transaction
   const transactionId = uuidv4()
   const totalAmount = signal.suggested_quantity * holding.current_price
+  const tradeDate = new Date().toISOString().split('T')[0]
+
+  ensureOpeningBalance(signal.account_id, signal.stock_code, tradeDate)
 
   db.prepare(`
-    INSERT INTO transactions (id, account_id, stock_code, stock_name, type, quantity, price, total_amount, currency, date, is_manual, source)
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 0, 'MANUAL')
+    INSERT INTO transactions (id, account_id, stock_code, stock_name, type, quantity, price, total_amount, currency, date, is_manual, source, fx_rate)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 0, 'MANUAL', ?)
   `).run(
     transactionId,
     signal.account_id,
@@ -1356,19 +2284,12 @@ ipcMain.handle('strategy:executeSignal', (_, signalId: string) => {
     holding.current_price,
     totalAmount,
     holding.currency,
-    new Date().toISOString().split('T')[0]
+    tradeDate,
+    resolveTradeFxRate(holding.currency, tradeDate)
   )
 
   // Update holdings
-  updateHoldingsAfterTransaction({
-    account_id: signal.account_id,
-    stock_code: signal.stock_code,
-    stock_name: signal.stock_name,
-    type: signal.signal_type,
-    quantity: signal.suggested_quantity,
-    price: holding.current_price,
-    currency: holding.currency
-  })
+  replayHolding(signal.account_id, signal.stock_code)
 
   // Mark signal as executed
   db.prepare(`
@@ -1414,6 +2335,7 @@ ipcMain.handle('tickerMapping:create', async (_, data: { stock_name: string; tic
     INSERT INTO ticker_mappings (id, stock_name, ticker, market)
     VALUES (?, ?, ?, ?)
   `).run(id, data.stock_name, data.ticker, data.market)
+  syncTickerMapping(data.stock_name, data.ticker, data.market)
   return { success: true, id }
 })
 
@@ -1423,12 +2345,16 @@ ipcMain.handle('tickerMapping:update', (_, id: string, data: { ticker: string; m
   db.prepare(`
     UPDATE ticker_mappings SET ticker = ?, market = ? WHERE id = ?
   `).run(data.ticker, data.market, id)
+  const mapping = db.prepare('SELECT stock_name FROM ticker_mappings WHERE id = ?').get(id) as { stock_name: string } | undefined
+  if (mapping) syncTickerMapping(mapping.stock_name, data.ticker, data.market)
   return { success: true }
 })
 
 // 매핑 삭제
 ipcMain.handle('tickerMapping:delete', (_, id: string) => {
   const db = getDatabase()
+  const mapping = db.prepare('SELECT stock_name FROM ticker_mappings WHERE id = ?').get(id) as { stock_name: string } | undefined
+  if (mapping) removeSecurityAlias(mapping.stock_name)
   db.prepare('DELETE FROM ticker_mappings WHERE id = ?').run(id)
   return { success: true }
 })
@@ -1443,7 +2369,7 @@ ipcMain.handle('tickerMapping:getFailedStocks', (_, userId: string) => {
       h.currency,
       h.current_price,
       h.last_synced
-    FROM holdings h
+    FROM priced_holdings h
     JOIN accounts a ON h.account_id = a.id
     WHERE a.user_id = ?
       AND h.current_price = 0
@@ -1451,6 +2377,57 @@ ipcMain.handle('tickerMapping:getFailedStocks', (_, userId: string) => {
   `).all(userId)
 })
 
+// ===== SECURITY MASTER HANDLERS =====
+
+ipcMain.handle('security:getAll', () => {
+  return getSecurities()
+})
+
+ipcMain.handle('security:upsert', (_, data: SecurityInput) => {
+  try {
+    return { success: true, security: upsertSecurity(data) }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+  }
+})
+
+ipcMain.handle('security:delete', (_, code: string) => {
+  deleteSecurity(code)
+  return { success: true }
+})
+
+ipcMain.handle('security:addAlias', (_, alias: string, code: string) => {
+  try {
+    addSecurityAlias(alias, code)
+    return { success: true }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+  }
+})
+
+ipcMain.handle('security:removeAlias', (_, alias: string) => {
+  removeSecurityAlias(alias)
+  return { success: true }
+})
+
+// ===== INSTRUMENT IDENTITY HANDLERS =====
+
+ipcMain.handle('instrument:getAll', () => {
+  return getInstruments()
+})
+
+ipcMain.handle('instrument:getMergeCandidates', () => {
+  return getMergeCandidates()
+})
+
+ipcMain.handle('instrument:merge', (_, targetCode: string, sourceCodes: string[]) => {
+  try {
+    return { success: true, ...mergeInstruments(targetCode, sourceCodes) }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+  }
+})
+
 // ===== DIVIDEND ANALYSIS HANDLERS =====
 
 // 월별 배당금 집계
@@ -1477,7 +2454,7 @@ ipcMain.handle('dividend:getByStock', (_, userId: string) => {
   return db.prepare(`
     SELECT
       t.stock_code,
-      t.stock_name,
+      MAX(t.stock_name) as stock_name,
       t.currency,
       SUM(t.total_amount) as total_dividends,
       COUNT(*) as dividend_count,
@@ -1493,10 +2470,10 @@ ipcMain.handle('dividend:getByStock', (_, userId: string) => {
       END as dividend_yield
     FROM transactions t
     JOIN accounts a ON t.account_id = a.id
-    LEFT JOIN holdings h ON h.account_id = t.account_id AND h.stock_code = t.stock_code
+    LEFT JOIN priced_holdings h ON h.account_id = t.account_id AND h.stock_code = t.stock_code
     WHERE a.user_id = ?
       AND t.type = 'DIVIDEND'
-    GROUP BY t.stock_code, t.stock_name, t.currency
+    GROUP BY t.stock_code, t.currency
     ORDER BY total_dividends DESC
   `).all(userId)
 })
@@ -1526,7 +2503,7 @@ ipcMain.handle('strategy:getSignalHistory', (_, userId: string, limit: number =
     FROM strategy_signals ss
     JOIN trading_strategies ts ON ss.strategy_id = ts.id
     JOIN accounts a ON ss.account_id = a.id
-    JOIN holdings h ON ss.holding_id = h.id
+    JOIN priced_holdings h ON ss.holding_id = h.id
     WHERE ts.user_id = ? AND ss.status != 'PENDING'
     ORDER BY COALESCE(ss.executed_at, ss.dismissed_at) DESC
     LIMIT ?
@@ -0,0 +1,157 @@
+/**
+ * Jobs
+ * 오래 걸리는 작업(시세 일괄 갱신, 증권사 동기화)을 ID가 있는 작업으로 실행
+ * 종목별 진행 상황을 이벤트로 전달하고, 취소 요청 시 다음 항목부터 중단
+ */
+
+import { v4 as uuidv4 } from 'uuid'
+
+// ===== 타입 정의 =====
+export type JobKind = 'PRICE_REFRESH' | 'ACCOUNT_SYNC'
+export type JobStatus = 'RUNNING' | 'COMPLETED' | 'CANCELED' | 'FAILED'
+
+export interface JobItem {
+  key: string           // 종목코드 또는 단계 id
+  label: string
+  success: boolean
+  error?: string
+}
+
+export interface JobProgress {
+  job_id: string
+  kind: JobKind
+  status: JobStatus
+  total: number
+  completed: number
+  succeeded: number
+  failed: number
+  current: string | null
+  item?: JobItem        // 방금 끝난 항목 (진행 이벤트)
+  items?: JobItem[]     // 전체 항목 결과 (종료 이벤트)
+  result?: unknown      // 작업별 최종 결과 (종료 이벤트)
+  error?: string
+  started_at: string
+  finished_at: string | null
+}
+
+export interface JobContext {
+  signal: AbortSignal
+  setTotal: (total: number) => void
+  setCurrent: (label: string | null) => void
+  reportItem: (item: JobItem) => void
+}
+
+interface RunningJob {
+  progress: JobProgress
+  items: JobItem[]
+  controller: AbortController
+}
+
+const jobs = new Map<string, RunningJob>()
+
+// ===== 진행 상황 (순수 함수) =====
+
+export function applyItem(progress: JobProgress, item: JobItem): JobProgress {
+  return {
+    ...progress,
+    completed: progress.completed + 1,
+    succeeded: progress.succeeded + (item.success ? 1 : 0),
+    failed: progress.failed + (item.success ? 0 : 1),
+    total: Math.max(progress.total, progress.completed + 1),
+    item
+  }
+}
+
+export function progressPercent(progress: Pick<JobProgress, 'total' | 'completed'>): number {
+  if (progress.total <= 0) return 0
+  return Math.min(100, Math.round((progress.completed / progress.total) * 100))
+}
+
+// ===== 실행 =====
+
+// 작업 시작 후 즉시 ID 반환, 진행/종료는 emit으로 전달
+export function startJob<T>(
+  kind: JobKind,
+  run: (context: JobContext) => Promise<T>,
+  emit: (progress: JobProgress) => void
+): string {
+  const id = uuidv4()
+  const job: RunningJob = {
+    progress: {
+      job_id: id,
+      kind,
+      status: 'RUNNING',
+      total: 0,
+      completed: 0,
+      succeeded: 0,
+      failed: 0,
+      current: null,
+      started_at: new Date().toISOString(),
+      finished_at: null
+    },
+    items: [],
+    controller: new AbortController()
+  }
+  jobs.set(id, job)
+
+  const send = (): void => {
+    try {
+      emit(job.progress)
+    } catch (error) {
+      console.error(`[Job] Failed to emit progress for ${id}:`, error)
+    }
+  }
+
+  const context: JobContext = {
+    signal: job.controller.signal,
+    setTotal: (total) => {
+      job.progress = { ...job.progress, total, item: undefined }
+      send()
+    },
+    setCurrent: (label) => {
+      job.progress = { ...job.progress, current: label, item: undefined }
+      send()
+    },
+    reportItem: (item) => {
+      job.items.push(item)
+      job.progress = applyItem(job.progress, item)
+      send()
+    }
+  }
+
+  const finish = (status: JobStatus, result?: unknown, error?: string): void => {
+    job.progress = {
+      ...job.progress,
+      status,
+      current: null,
+      item: undefined,
+      items: job.items,
+      result,
+      error,
+      finished_at: new Date().toISOString()
+    }
+    send()
+    jobs.delete(id)
+  }
+
+  // 이벤트 구독 전에 종료 이벤트가 나가지 않도록 다음 틱에 시작
+  setImmediate(() => {
+    send()
+    run(context)
+      .then(result => finish(job.controller.signal.aborted ? 'CANCELED' : 'COMPLETED', result))
+      .catch(error => finish('FAILED', undefined, error instanceof Error ? error.message : 'Unknown error'))
+  })
+
+  return id
+}
+
+export function cancelJob(jobId: string): boolean {
+  const job = jobs.get(jobId)
+  if (!job) return false
+  job.controller.abort()
+  return true
+}
+
+export function getRunningJobs(): JobProgress[] {
+  return [...jobs.values()].map(job => job.progress)
+}
@@ -6,6 +6,11 @@
  */
 
 import { getDatabase } from './database'
+import { recordBrokerCash, recordBrokerSnapshot } from './reconciliation'
+import { ensureOpeningBalance, replayHolding } from './ledger-replay'
+import { DailyTradeCost, allocateTradeCosts } from './trading-costs'
+import { resolveInstrumentCode } from './instrument-identity'
+import { httpFetch } from './http-client'
 
 // API Base URLs
 const API_BASE_PROD = 'https://openapi.koreainvestment.com:9443'
@@ -74,6 +79,31 @@ interface TransactionResponse {
   ctx_area_nk100: string
 }
 
+// 동기화 작업 진행 보고·취소 (작업 큐에서 사용)
+export interface SyncOptions {
+  signal?: AbortSignal
+  onStart?: (total: number) => void
+  onItem?: (stock: { stock_code: string; stock_name: string }) => void
+}
+
+interface TradeProfitItem {
+  trad_dt: string // 매매일자
+  pdno: string // 종목코드
+  buy_amt: string // 매수금액
+  sll_amt: string // 매도금액
+  fee: string // 수수료
+  tl_tax: string // 제세금
+}
+
+interface TradeProfitResponse {
+  rt_cd: string
+  msg_cd: string
+  msg1: string
+  output1: TradeProfitItem[]
+  ctx_area_fk100: string
+  ctx_area_nk100: string
+}
+
 /**
  * Get access token for KIS API
  * Token is valid for 24 hours, cached in memory
@@ -95,7 +125,7 @@ export async function getAccessToken(
   const url = `${baseUrl}/oauth2/tokenP`
 
   try {
-    const response = await fetch(url, {
+    const response = await httpFetch(url, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json'
@@ -144,6 +174,22 @@ export async function fetchHoldings(
   accountId: string,
   isPaper: boolean = false
 ): Promise<HoldingItem[]> {
+  const balance = await fetchBalance(appKey, appSecret, accountNumber, accountId, isPaper)
+  return balance.holdings
+}
+
+/**
+ * Fetch holdings and cash deposit (예수금) from KIS API
+ * Uses tr_id: TTTC8434R (real) / VTTC8434R (paper)
+ */
+export async function fetchBalance(
+  appKey: string,
+  appSecret: string,
+  accountNumber: string,
+  accountId: string,
+  isPaper: boolean = false,
+  signal?: AbortSignal
+): Promise<{ holdings: HoldingItem[]; cashBalance: number | null }> {
   const accessToken = await getAccessToken(appKey, appSecret, accountId, isPaper)
   const baseUrl = isPaper ? API_BASE_VTS : API_BASE_PROD
   const trId = isPaper ? 'VTTC8434R' : 'TTTC8434R'
@@ -169,8 +215,9 @@ export async function fetchHoldings(
   const url = `${baseUrl}/uapi/domestic-stock/v1/trading/inquire-balance?${params}`
 
   try {
-    const response = await fetch(url, {
+    const response = await httpFetch(url, {
       method: 'GET',
+      signal,
       headers: {
         'Content-Type': 'application/json; charset=utf-8',
         authorization: `Bearer ${accessToken}`,
@@ -191,7 +238,12 @@ export async function fetchHoldings(
       throw new Error(`API Error: ${data.msg1}`)
     }
 
-    return data.output1.filter((item) => parseFloat(item.hldg_qty) > 0)
+    const cash = data.output2?.[0] ? parseFloat(data.output2[0].dnca_tot_amt) : NaN
+
+    return {
+      holdings: data.output1.filter((item) => parseFloat(item.hldg_qty) > 0),
+      cashBalance: Number.isFinite(cash) ? cash : null
+    }
   } catch (error) {
     console.error('Failed to fetch holdings:', error)
     throw error
@@ -209,7 +261,8 @@ export async function fetchTransactions(
   accountId: string,
   startDate: string, // YYYYMMDD
   endDate: string, // YYYYMMDD
-  isPaper: boolean = false
+  isPaper: boolean = false,
+  signal?: AbortSignal
 ): Promise<TransactionItem[]> {
   const accessToken = await getAccessToken(appKey, appSecret, accountId, isPaper)
   const baseUrl = isPaper ? API_BASE_VTS : API_BASE_PROD
@@ -224,6 +277,9 @@ export async function fetchTransactions(
   let hasMore = true
 
   while (hasMore) {
+    // 취소 요청 시 다음 페이지부터 중단
+    if (signal?.aborted) break
+
     const params = new URLSearchParams({
       CANO: cano,
       ACNT_PRDT_CD: acntPrdtCd,
@@ -243,8 +299,9 @@ export async function fetchTransactions(
 
     const url = `${baseUrl}/uapi/domestic-stock/v1/trading/inquire-daily-ccld?${params}`
 
-    const response = await fetch(url, {
+    const response = await httpFetch(url, {
       method: 'GET',
+      signal,
       headers: {
         'Content-Type': 'application/json; charset=utf-8',
         authorization: `Bearer ${accessToken}`,
@@ -284,12 +341,105 @@ export async function fetchTransactions(
   return allTransactions.filter((item) => parseFloat(item.tot_ccld_qty) > 0)
 }
 
+/**
+ * Fetch daily fees and taxes per stock from KIS API
+ * Uses tr_id: TTTC8715R (real only, paper trading not supported)
+ */
+export async function fetchTradeCosts(
+  appKey: string,
+  appSecret: string,
+  accountNumber: string,
+  accountId: string,
+  startDate: string, // YYYYMMDD
+  endDate: string, // YYYYMMDD
+  signal?: AbortSignal
+): Promise<DailyTradeCost[]> {
+  const accessToken = await getAccessToken(appKey, appSecret, accountId, false)
+
+  const cano = accountNumber.slice(0, 8)
+  const acntPrdtCd = accountNumber.slice(8, 10) || '01'
+
+  const costs: DailyTradeCost[] = []
+  let ctxAreaFk100 = ''
+  let ctxAreaNk100 = ''
+  let hasMore = true
+
+  while (hasMore) {
+    if (signal?.aborted) break
+
+    const params = new URLSearchParams({
+      CANO: cano,
+      ACNT_PRDT_CD: acntPrdtCd,
+      SORT_DVSN: '00',
+      PDNO: '',
+      INQR_STRT_DT: startDate,
+      INQR_END_DT: endDate,
+      CBLC_DVSN: '00',
+      CTX_AREA_FK100: ctxAreaFk100,
+      CTX_AREA_NK100: ctxAreaNk100
+    })
+
+    const url = `${API_BASE_PROD}/uapi/domestic-stock/v1/trading/inquire-period-trade-profit?${params}`
+
+    const response = await httpFetch(url, {
+      method: 'GET',
+      signal,
+      headers: {
+        'Content-Type': 'application/json; charset=utf-8',
+        authorization: `Bearer ${accessToken}`,
+        appkey: appKey,
+        appsecret: appSecret,
+        tr_id: 'TTTC8715R',
+        custtype: 'P'
+      }
+    })
+
+    if (!response.ok) {
+      throw new Error(`Trade profit request failed: ${response.status} ${response.statusText}`)
+    }
+
+    const data: TradeProfitResponse = await response.json()
+
+    if (data.rt_cd !== '0') {
+      throw new Error(`API Error: ${data.msg1}`)
+    }
+
+    for (const item of data.output1) {
+      const fee = parseFloat(item.fee) || 0
+      const tax = parseFloat(item.tl_tax) || 0
+      if (fee === 0 && tax === 0) continue
+      costs.push({
+        date: `${item.trad_dt.slice(0, 4)}-${item.trad_dt.slice(4, 6)}-${item.trad_dt.slice(6, 8)}`,
+        stock_code: item.pdno,
+        fee,
+        tax
+      })
+    }
+
+    if (data.ctx_area_fk100 && data.ctx_area_nk100) {
+      ctxAreaFk100 = data.ctx_area_fk100
+      ctxAreaNk100 = data.ctx_area_nk100
+    } else {
+      hasMore = false
+    }
+
+    // Safety limit
+    if (costs.length > 1000) {
+      break
+    }
+  }
+
+  return costs
+}
+
 /**
  * Sync holdings from KIS API to local database
  */
-export async function syncHoldings(accountId: string): Promise<{
+export async function syncHoldings(accountId: string, options: SyncOptions = {}): Promise<{
   success: boolean
   synced: number
+  stocks?: Array<{ stock_code: string; stock_name: string }>
+  canceled?: boolean
   error?: string
 }> {
   const db = getDatabase()
@@ -323,14 +473,27 @@ export async function syncHoldings(accountId: string): Promise<{
       throw new Error('API credentials not configured')
     }
 
-    // Fetch holdings from API
-    const holdings = await fetchHoldings(
+    // Fetch holdings and cash from API
+    const { holdings, cashBalance } = await fetchBalance(
       account.api_key,
       account.api_secret,
       account.account_number,
-      accountId
+      accountId,
+      false,
+      options.signal
     )
 
+    // 통합된 종목은 표준 코드로 저장
+    for (const h of holdings) {
+      h.pdno = resolveInstrumentCode(accountId, h.pdno, h.prdt_name)
+    }
+
+    // 조회 중 취소되면 기존 잔고를 그대로 둠
+    if (options.signal?.aborted) {
+      return { success: false, synced: 0, canceled: true }
+    }
+    options.onStart?.(holdings.length)
+
     // Begin transaction
     const updateHolding = db.prepare(`
       INSERT INTO holdings (id, account_id, stock_code, stock_name, quantity, avg_cost, current_price, currency, last_synced)
@@ -362,6 +525,7 @@ export async function syncHoldings(accountId: string): Promise<{
           parseFloat(h.pchs_avg_pric),
           parseFloat(h.prpr)
         )
+        options.onItem?.({ stock_code: h.pdno, stock_name: h.prdt_name })
       }
 
       // Remove holdings that no longer exist
@@ -371,6 +535,20 @@ export async function syncHoldings(accountId: string): Promise<{
         // Delete all holdings for this account if API returned empty
         db.prepare('DELETE FROM holdings WHERE account_id = ?').run(accountId)
       }
+
+      // 원장 대사용 증권사 잔고 스냅샷
+      recordBrokerSnapshot(accountId, holdings.map((h) => ({
+        stock_code: h.pdno,
+        stock_name: h.prdt_name,
+        quantity: parseFloat(h.hldg_qty),
+        avg_cost: parseFloat(h.pchs_avg_pric),
+        currency: 'KRW'
+      })), 'API', true)
+
+      // 증권사 예수금은 대사용으로만 저장 (원장 예수금을 덮어쓰지 않음)
+      if (cashBalance !== null) {
+        recordBrokerCash(accountId, 'KRW', cashBalance, 'API')
+      }
     })()
 
     // Log sync success
@@ -380,8 +558,17 @@ export async function syncHoldings(accountId: string): Promise<{
       VALUES (?, ?, 'SUCCESS')
     `).run(logId, accountId)
 
-    return { success: true, synced: holdings.length }
+    return {
+      success: true,
+      synced: holdings.length,
+      stocks: holdings.map((h) => ({ stock_code: h.pdno, stock_name: h.prdt_name }))
+    }
   } catch (error) {
+    // 취소로 중단된 조회는 실패로 기록하지 않음
+    if (options.signal?.aborted) {
+      return { success: false, synced: 0, canceled: true }
+    }
+
     // Log sync failure
     const { v4: uuidv4 } = await import('uuid')
     db.prepare(`
@@ -403,11 +590,13 @@ export async function syncHoldings(accountId: string): Promise<{
 export async function syncTransactions(
   accountId: string,
   startDate?: string,
-  endDate?: string
+  endDate?: string,
+  options: SyncOptions = {}
 ): Promise<{
   success: boolean
   synced: number
   skipped: number
+  canceled?: boolean
   error?: string
 }> {
   const db = getDatabase()
@@ -454,9 +643,52 @@ export async function syncTransactions(
       account.account_number,
       accountId,
       startDate || defaultStart,
-      endDate || defaultEnd
+      endDate || defaultEnd,
+      false,
+      options.signal
     )
 
+    // 통합된 종목은 표준 코드로 저장
+    for (const t of transactions) {
+      t.pdno = resolveInstrumentCode(accountId, t.pdno, t.prdt_name)
+    }
+
+    // 수수료/세금 조회 실패 시 비용 없이 동기화 진행
+    let costs: DailyTradeCost[] = []
+    try {
+      costs = await fetchTradeCosts(
+        account.api_key,
+        account.api_secret,
+        account.account_number,
+        accountId,
+        startDate || defaultStart,
+        endDate || defaultEnd,
+        options.signal
+      )
+    } catch (error) {
+      console.error('Failed to fetch trade costs:', error)
+    }
+
+    // 일부 페이지만 받은 상태로 저장하지 않음
+    if (options.signal?.aborted) {
+      return { success: false, synced: 0, skipped: 0, canceled: true }
+    }
+
+    const trades = transactions.map((t) => ({
+      date: `${t.ord_dt.slice(0, 4)}-${t.ord_dt.slice(4, 6)}-${t.ord_dt.slice(6, 8)}`,
+      stock_code: t.pdno,
+      type: (t.sll_buy_dvsn_cd === '02' ? 'BUY' : 'SELL') as 'BUY' | 'SELL',
+      total_amount: parseFloat(t.tot_ccld_amt)
+    }))
+    const allocations = allocateTradeCosts(trades, costs)
+
+    // 스냅샷 보유종목의 기초잔고 산출 기준 (종목별 가장 이른 거래일)
+    const earliestDates = new Map<string, string>()
+    for (const t of trades) {
+      const current = earliestDates.get(t.stock_code)
+      if (!current || t.date < current) earliestDates.set(t.stock_code, t.date)
+    }
+
     const { v4: uuidv4 } = await import('uuid')
 
     // Check for existing transactions to avoid duplicates
@@ -481,27 +713,31 @@ export async function syncTransactions(
     )
 
     const insertTxn = db.prepare(`
-      INSERT INTO transactions (id, account_id, stock_code, stock_name, type, quantity, price, total_amount, currency, date, source)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, 'KRW', ?, 'API')
+      INSERT INTO transactions (id, account_id, stock_code, stock_name, type, quantity, price, total_amount, currency, date, source, fee, tax)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, 'KRW', ?, 'API', ?, ?)
     `)
 
     let synced = 0
     let skipped = 0
 
+    const touchedStocks = new Set<string>()
+
     db.transaction(() => {
-      for (const t of transactions) {
-        const type = t.sll_buy_dvsn_cd === '02' ? 'BUY' : 'SELL'
+      transactions.forEach((t, i) => {
+        const { type, date } = trades[i]
         const qty = parseFloat(t.tot_ccld_qty)
         const price = parseFloat(t.avg_prvs)
-        const date = `${t.ord_dt.slice(0, 4)}-${t.ord_dt.slice(4, 6)}-${t.ord_dt.slice(6, 8)}`
 
         const key = `${date}|${t.pdno}|${type}|${qty}|${price}`
 
         if (existingSet.has(key)) {
           skipped++
-          continue
+          return
         }
 
+        // 거래내역 없이 동기화된 잔고는 먼저 기초잔고로 원장에 편입
+        ensureOpeningBalance(accountId, t.pdno, earliestDates.get(t.pdno) || date)
+
         insertTxn.run(
           uuidv4(),
           accountId,
@@ -511,14 +747,25 @@ export async function syncTransactions(
           qty,
           price,
           parseFloat(t.tot_ccld_amt),
-          date
+          date,
+          allocations[i].fee,
+          allocations[i].tax
         )
+        touchedStocks.add(t.pdno)
         synced++
+      })
+
+      // 수수료/세금이 반영된 원가로 원장 재생 (tax lot과 보유종목 함께 갱신)
+      for (const stockCode of touchedStocks) {
+        replayHolding(accountId, stockCode)
       }
     })()
 
     return { success: true, synced, skipped }
   } catch (error) {
+    if (options.signal?.aborted) {
+      return { success: false, synced: 0, skipped: 0, canceled: true }
+    }
     return {
       success: false,
       synced: 0,
@@ -540,7 +787,7 @@ export async function testConnection(
     const baseUrl = API_BASE_PROD
     const url = `${baseUrl}/oauth2/tokenP`
 
-    const response = await fetch(url, {
+    const response = await httpFetch(url, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json'
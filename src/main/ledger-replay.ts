@@ -0,0 +1,245 @@
+/**
+ * Ledger Replay
+ * 거래내역 전체를 날짜순으로 재생하여 보유종목(수량/평균단가)을 결정적으로 재계산
+ * 거래 생성/수정/삭제/가져오기 후 및 계좌 재계산 명령에서 호출
+ */
+
+import { getDatabase } from './database'
+import { v4 as uuidv4 } from 'uuid'
+import {
+  TaxLotBuildResult,
+  summarizeOpenLots,
+  rebuildTaxLots,
+  clearOrphanTaxLots
+} from './tax-lots'
+
+// ===== 타입 정의 =====
+export type ReplayAction = 'UPSERT' | 'DELETE' | 'INCOMPLETE'
+
+export interface ReplayedHolding {
+  action: ReplayAction
+  quantity: number
+  avgCost: number
+  unmatchedQuantity: number   // 매수 없이 매도된 수량 (원장 누락)
+}
+
+export interface ReplayAccountResult {
+  stocks: number
+  updated: number
+  removed: number
+  incomplete: string[]        // 원장이 불완전하여 보유종목을 유지한 종목코드
+}
+
+interface OpeningBalanceRow {
+  stock_name: string
+  quantity: number
+  avg_cost: number
+  currency: string
+  snapshot_date: string
+  import_batch_id: string | null
+}
+
+export interface EarlierTrade {
+  type: string
+  quantity: number
+  price: number
+}
+
+interface LastTrade {
+  stock_name: string
+  price: number
+  currency: string
+}
+
+const QUANTITY_EPSILON = 1e-9
+
+// ===== 재생 결과 해석 (순수 함수) =====
+
+// 매도 수량이 매수 lot보다 많으면 원장 누락으로 보고 보유종목을 건드리지 않음
+export function resolveReplayedHolding(result: TaxLotBuildResult): ReplayedHolding {
+  const open = summarizeOpenLots(result.lots)
+
+  if (result.unmatchedQuantity > QUANTITY_EPSILON) {
+    return { action: 'INCOMPLETE', quantity: open.quantity, avgCost: open.avgCost, unmatchedQuantity: result.unmatchedQuantity }
+  }
+  if (open.quantity <= QUANTITY_EPSILON) {
+    return { action: 'DELETE', quantity: 0, avgCost: 0, unmatchedQuantity: 0 }
+  }
+  return { action: 'UPSERT', quantity: open.quantity, avgCost: open.avgCost, unmatchedQuantity: 0 }
+}
+
+export function isLedgerTrade(type: string): boolean {
+  return type === 'BUY' || type === 'SELL'
+}
+
+// 기초잔고 = 스냅샷 - 기준일 이전 거래의 순매수 (원가도 이전 매수 평균단가만큼 차감)
+export function sizeOpeningBalance(
+  snapshot: { quantity: number; avgCost: number },
+  earlierTrades: EarlierTrade[]
+): { quantity: number; avgCost: number } {
+  let bought = 0
+  let boughtCost = 0
+  let sold = 0
+  for (const trade of earlierTrades) {
+    if (trade.type === 'BUY') {
+      bought += trade.quantity
+      boughtCost += trade.quantity * trade.price
+    } else if (trade.type === 'SELL') {
+      sold += trade.quantity
+    }
+  }
+
+  const net = bought - sold
+  const quantity = snapshot.quantity - net
+  if (quantity <= QUANTITY_EPSILON) return { quantity: 0, avgCost: 0 }
+
+  const earlierBasis = bought > 0 && net > 0 ? (boughtCost / bought) * net : 0
+  const cost = snapshot.quantity * snapshot.avgCost - earlierBasis
+  return { quantity, avgCost: cost > 0 ? cost / quantity : snapshot.avgCost }
+}
+
+// ===== DB 연동 =====
+
+// 거래내역 없이 스냅샷으로만 존재하는 보유종목(시드/잔고 가져오기/API 동기화)은
+// 첫 거래 기록 전에 스냅샷을 기초잔고로 저장하고 기초잔고(OPENING) 매수로 원장에 편입
+// (가져오기 중 생성된 기초잔고는 같은 배치로 묶어 되돌리기 시 함께 삭제)
+export function ensureOpeningBalance(accountId: string, stockCode: string, tradeDate: string, importBatchId?: string): boolean {
+  const db = getDatabase()
+
+  const holding = db.prepare(`
+    SELECT stock_name, quantity, avg_cost, currency, last_synced
+    FROM holdings WHERE account_id = ? AND stock_code = ?
+  `).get(accountId, stockCode) as { stock_name: string; quantity: number; avg_cost: number; currency: string; last_synced: string | null } | undefined
+  if (!holding || holding.quantity <= 0) return false
+
+  const ledger = db.prepare(`
+    SELECT COUNT(*) as count FROM transactions
+    WHERE account_id = ? AND stock_code = ? AND type IN ('BUY', 'SELL')
+  `).get(accountId, stockCode) as { count: number }
+  if (ledger.count > 0) return false
+
+  // 스냅샷 기준일: 마지막 동기화일 (없으면 첫 거래일)
+  const snapshotDate = holding.last_synced ? holding.last_synced.substring(0, 10) : tradeDate
+
+  db.prepare(`
+    INSERT OR REPLACE INTO opening_balances (account_id, stock_code, stock_name, quantity, avg_cost, currency, snapshot_date, import_batch_id)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(accountId, stockCode, holding.stock_name, holding.quantity, holding.avg_cost, holding.currency, snapshotDate, importBatchId ?? null)
+
+  return syncOpeningBalance(accountId, stockCode)
+}
+
+// 기초잔고 스냅샷에서 기준일 이전 거래의 순매수분을 뺀 수량을 OPENING 거래로 반영
+// (스냅샷 이후 과거 거래내역을 가져와도 이중 집계되지 않음)
+export function syncOpeningBalance(accountId: string, stockCode: string): boolean {
+  const db = getDatabase()
+
+  const snapshot = db.prepare(`
+    SELECT stock_name, quantity, avg_cost, currency, snapshot_date, import_batch_id
+    FROM opening_balances WHERE account_id = ? AND stock_code = ?
+  `).get(accountId, stockCode) as OpeningBalanceRow | undefined
+  if (!snapshot) return false
+
+  const earlier = db.prepare(`
+    SELECT type, quantity, price FROM transactions
+    WHERE account_id = ? AND stock_code = ? AND type IN ('BUY', 'SELL') AND source != 'OPENING' AND date < ?
+  `).all(accountId, stockCode, snapshot.snapshot_date) as EarlierTrade[]
+
+  const opening = sizeOpeningBalance({ quantity: snapshot.quantity, avgCost: snapshot.avg_cost }, earlier)
+  const existing = db.prepare(`
+    SELECT id FROM transactions WHERE account_id = ? AND stock_code = ? AND source = 'OPENING'
+  `).get(accountId, stockCode) as { id: string } | undefined
+
+  if (opening.quantity <= QUANTITY_EPSILON) {
+    if (existing) db.prepare('DELETE FROM transactions WHERE id = ?').run(existing.id)
+    return false
+  }
+
+  if (existing) {
+    db.prepare(`
+      UPDATE transactions SET quantity = ?, price = ?, total_amount = ?, date = ? WHERE id = ?
+    `).run(opening.quantity, opening.avgCost, opening.quantity * opening.avgCost, snapshot.snapshot_date, existing.id)
+  } else {
+    db.prepare(`
+      INSERT INTO transactions (id, account_id, stock_code, stock_name, type, quantity, price, total_amount, currency, date, is_manual, source, import_batch_id)
+      VALUES (?, ?, ?, ?, 'BUY', ?, ?, ?, ?, ?, 0, 'OPENING', ?)
+    `).run(
+      uuidv4(),
+      accountId,
+      stockCode,
+      snapshot.stock_name,
+      opening.quantity,
+      opening.avgCost,
+      opening.quantity * opening.avgCost,
+      snapshot.currency,
+      snapshot.snapshot_date,
+      snapshot.import_batch_id
+    )
+  }
+  return true
+}
+
+// OPENING 거래를 직접 수정/삭제하면 스냅샷 기준 산출을 중단 (입력한 값 유지)
+export function clearOpeningBalance(accountId: string, stockCode: string): void {
+  getDatabase().prepare('DELETE FROM opening_balances WHERE account_id = ? AND stock_code = ?').run(accountId, stockCode)
+}
+
+// 종목 하나의 lot 재구성 후 보유종목 반영
+export function replayHolding(accountId: string, stockCode: string): ReplayedHolding {
+  const db = getDatabase()
+
+  const apply = db.transaction(() => {
+    syncOpeningBalance(accountId, stockCode)
+    const replayed = resolveReplayedHolding(rebuildTaxLots(accountId, stockCode))
+    const existing = db.prepare('SELECT id FROM holdings WHERE account_id = ? AND stock_code = ?')
+      .get(accountId, stockCode) as { id: string } | undefined
+
+    if (replayed.action === 'DELETE') {
+      if (existing) db.prepare('DELETE FROM holdings WHERE id = ?').run(existing.id)
+    } else if (replayed.action === 'UPSERT') {
+      if (existing) {
+        // 현재가/전일종가는 시세 갱신 값 유지
+        db.prepare(`UPDATE holdings SET quantity = ?, avg_cost = ?, last_synced = datetime('now') WHERE id = ?`)
+          .run(replayed.quantity, replayed.avgCost, existing.id)
+      } else {
+        const lastTrade = db.prepare(`
+          SELECT stock_name, price, currency FROM transactions
+          WHERE account_id = ? AND stock_code = ? AND type IN ('BUY', 'SELL')
+          ORDER BY date DESC, created_at DESC, id DESC LIMIT 1
+        `).get(accountId, stockCode) as LastTrade
+        db.prepare(`
+          INSERT INTO holdings (id, account_id, stock_code, stock_name, quantity, avg_cost, current_price, currency, last_synced)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, datetime('now'))
+        `).run(uuidv4(), accountId, stockCode, lastTrade.stock_name, replayed.quantity, replayed.avgCost, lastTrade.price, lastTrade.currency)
+      }
+    }
+
+    return replayed
+  })
+
+  return apply()
+}
+
+// 계좌 전체 재계산: 거래내역이 있는 종목만 대상 (스냅샷 전용 보유종목은 유지)
+export function replayAccount(accountId: string): ReplayAccountResult {
+  const db = getDatabase()
+
+  const apply = db.transaction(() => {
+    clearOrphanTaxLots(accountId)
+
+    const stocks = db.prepare(`
+      SELECT DISTINCT stock_code FROM transactions WHERE account_id = ? AND type IN ('BUY', 'SELL')
+    `).all(accountId) as Array<{ stock_code: string }>
+
+    const result: ReplayAccountResult = { stocks: stocks.length, updated: 0, removed: 0, incomplete: [] }
+    for (const { stock_code } of stocks) {
+      const replayed = replayHolding(accountId, stock_code)
+      if (replayed.action === 'UPSERT') result.updated++
+      else if (replayed.action === 'DELETE') result.removed++
+      else result.incomplete.push(stock_code)
+    }
+    return result
+  })
+
+  return apply()
+}
@@ -4,12 +4,28 @@
  */
 
 import { getDatabase } from './database'
+import { findSecurity, rememberSecurity } from './securities'
+import { recordQuotes } from './price-history'
+import {
+  MarketDataProvider,
+  ProviderMarket,
+  QuoteRequest,
+  classifyMarket,
+  fetchQuoteFromProviders,
+  registerProvider
+} from './market-data-providers'
+import { fixtureProvider } from './market-data-fixtures'
+import { Quote, getQuoteTargets, instrumentCodeOf, quoteFromResult, saveQuotes } from './quotes'
+import { getActiveOverrideCodes } from './price-overrides'
+import { httpFetch } from './http-client'
+import { v4 as uuidv4 } from 'uuid'
 // ===== 타입 정의 =====
 export interface ExchangeRateResult {
   success: boolean
   pair: string
   rate: number
   timestamp: string
+  stale?: boolean     // 조회 실패로 저장된 환율 사용, 또는 기준 시각이 오래됨
   error?: string
 }
 
@@ -21,30 +37,95 @@ export interface StockPriceResult {
   prevClose?: number
   change?: number
   changePercent?: number
+  open?: number
+  high?: number
+  low?: number
+  volume?: number
+  tradeDate?: string  // 시세 기준일 (YYYY-MM-DD, 없으면 조회일)
+  provider?: string   // 응답한 시세 공급자 id
   currency: string
   timestamp: string
   error?: string
 }
 
+export interface DailyClose {
+  date: string    // YYYY-MM-DD
+  close: number
+}
+
+export interface DailyBar extends DailyClose {
+  open?: number
+  high?: number
+  low?: number
+  volume?: number
+}
+
 export interface BulkPriceResult {
   success: boolean
   updated: number
   failed: number
   results: StockPriceResult[]
+  manual?: number      // 수동 시세 사용 중이라 조회하지 않은 종목 수
+  canceled?: boolean   // 취소되어 남은 종목을 조회하지 않음
   exchangeRate?: ExchangeRateResult
 }
 
+// 일괄 업데이트 진행 상황 / 취소 (작업으로 실행할 때)
+export interface BulkPriceOptions {
+  signal?: AbortSignal
+  onStart?: (total: number) => void
+  onBatch?: (labels: string[]) => void
+  onItem?: (result: StockPriceResult, label: string) => void
+}
+
 // ===== 환율 API (Frankfurter - 무료, 제한없음) =====
-const FRANKFURTER_API = 'https://api.frankfurter.app'
+export const FRANKFURTER_API = 'https://api.frankfurter.app'
 
-// 캐시 (5분)
+// 캐시 (5분) - 시작 시 DB에 저장된 마지막 환율로 채움
 const exchangeRateCache: Map<string, { rate: number; timestamp: number }> = new Map()
 const CACHE_TTL = 5 * 60 * 1000 // 5분
+const FX_STALE_MS = 24 * 60 * 60 * 1000 // 하루 넘게 갱신되지 않은 환율은 지연 표시
+
+// SQLite datetime('now') (UTC, 'YYYY-MM-DD HH:MM:SS') → ISO
+export function toIsoTimestamp(value: string): string {
+  return /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}$/.test(value) ? `${value.replace(' ', 'T')}Z` : value
+}
+
+export function isExchangeRateStale(timestamp: string, now: number = Date.now()): boolean {
+  return now - new Date(timestamp).getTime() > FX_STALE_MS
+}
+
+// 환율 저장 (자동 조회·수동 입력 공통) 후 캐시 갱신
+export function saveExchangeRate(pair: string, rate: number): void {
+  const db = getDatabase()
+  db.prepare('INSERT INTO exchange_rates (id, currency_pair, rate) VALUES (?, ?, ?)').run(uuidv4(), pair, rate)
+  exchangeRateCache.set(pair, { rate, timestamp: Date.now() })
+}
+
+// 네트워크 없이 마지막으로 알려진 환율 (캐시 → DB)
+export function getLastExchangeRate(from: string = 'USD', to: string = 'KRW'): ExchangeRateResult {
+  const pair = `${from}/${to}`
+  const cached = exchangeRateCache.get(pair)
+  if (cached) {
+    const timestamp = new Date(cached.timestamp).toISOString()
+    return { success: true, pair, rate: cached.rate, timestamp, stale: isExchangeRateStale(timestamp) }
+  }
+
+  const db = getDatabase()
+  const lastRate = db.prepare(
+    'SELECT rate, fetched_at FROM exchange_rates WHERE currency_pair = ? ORDER BY fetched_at DESC LIMIT 1'
+  ).get(pair) as { rate: number; fetched_at: string } | undefined
+  if (lastRate) {
+    const timestamp = toIsoTimestamp(lastRate.fetched_at)
+    return { success: true, pair, rate: lastRate.rate, timestamp, stale: isExchangeRateStale(timestamp) }
+  }
+
+  return { success: false, pair, rate: 0, timestamp: new Date().toISOString(), error: '저장된 환율 없음' }
+}
 
 export async function fetchExchangeRate(from: string = 'USD', to: string = 'KRW', forceRefresh: boolean = false): Promise<ExchangeRateResult> {
   const pair = `${from}/${to}`
-  const cacheKey = pair
-  const cached = exchangeRateCache.get(cacheKey)
+  const cached = exchangeRateCache.get(pair)
 
   // 강제 새로고침이 아닐 때만 캐시 사용
   if (!forceRefresh && cached && Date.now() - cached.timestamp < CACHE_TTL) {
@@ -57,7 +138,7 @@ export async function fetchExchangeRate(from: string = 'USD', to: string = 'KRW'
   }
 
   try {
-    const response = await fetch(`${FRANKFURTER_API}/latest?from=${from}&to=${to}`)
+    const response = await httpFetch(`${FRANKFURTER_API}/latest?from=${from}&to=${to}`)
 
     if (!response.ok) {
       throw new Error(`HTTP ${response.status}`)
@@ -70,17 +151,17 @@ export async function fetchExchangeRate(from: string = 'USD', to: string = 'KRW'
       throw new Error(`Rate not found for ${pair}`)
     }
 
-    // 캐시 저장
-    exchangeRateCache.set(cacheKey, { rate, timestamp: Date.now() })
-
-    // DB에도 저장
+    // DB 저장 + 캐시 갱신 (재시작 후에도 마지막 환율 사용)
+    saveExchangeRate(pair, rate)
     const db = getDatabase()
-    const { v4: uuidv4 } = await import('uuid')
-    db.prepare('INSERT INTO exchange_rates (id, currency_pair, rate) VALUES (?, ?, ?)').run(
-      uuidv4(),
-      pair,
-      rate
-    )
+
+    // 일자별 환율 이력에도 기록 (STANDIN 값은 실제 환율로 덮어씀)
+    if (data.date) {
+      db.prepare(`
+        INSERT INTO fx_rate_history (currency_pair, date, rate, source) VALUES (?, ?, ?, 'API')
+        ON CONFLICT(currency_pair, date) DO UPDATE SET rate = excluded.rate, source = excluded.source, updated_at = datetime('now')
+      `).run(pair, data.date, rate)
+    }
 
     return {
       success: true,
@@ -91,31 +172,10 @@ export async function fetchExchangeRate(from: string = 'USD', to: string = 'KRW'
   } catch (error) {
     console.error(`Failed to fetch exchange rate ${pair}:`, error)
 
-    // 캐시에서 fallback
-    if (cached) {
-      return {
-        success: true,
-        pair,
-        rate: cached.rate,
-        timestamp: new Date(cached.timestamp).toISOString(),
-        error: 'Using cached data'
-      }
-    }
-
-    // DB에서 마지막 환율 조회
-    const db = getDatabase()
-    const lastRate = db.prepare(
-      'SELECT rate, fetched_at FROM exchange_rates WHERE currency_pair = ? ORDER BY fetched_at DESC LIMIT 1'
-    ).get(pair) as { rate: number; fetched_at: string } | undefined
-
-    if (lastRate) {
-      return {
-        success: true,
-        pair,
-        rate: lastRate.rate,
-        timestamp: lastRate.fetched_at,
-        error: 'Using database fallback'
-      }
+    // 마지막으로 저장된 환율로 fallback (오프라인)
+    const last = getLastExchangeRate(from, to)
+    if (last.success) {
+      return { ...last, stale: true, error: 'Using last saved rate' }
     }
 
     return {
@@ -131,7 +191,7 @@ export async function fetchExchangeRate(from: string = 'USD', to: string = 'KRW'
 // ===== 종목코드 검색 (이름 → 코드) =====
 const stockCodeCache: Map<string, string> = new Map()
 
-async function searchStockCode(stockName: string): Promise<string | null> {
+async function searchStockCode(stockName: string, signal?: AbortSignal): Promise<string | null> {
   // 캐시 확인
   const cached = stockCodeCache.get(stockName)
   if (cached) return cached
@@ -140,7 +200,8 @@ async function searchStockCode(stockName: string): Promise<string | null> {
     // 네이버 금융 검색 API
     const url = `https://ac.stock.naver.com/ac?q=${encodeURIComponent(stockName)}&target=stock`
 
-    const response = await fetch(url, {
+    const response = await httpFetch(url, {
+      signal,
       headers: {
         'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36'
       }
@@ -183,12 +244,13 @@ async function searchStockCode(stockName: string): Promise<string | null> {
 // ===== 주식 현재가 API =====
 
 // 네이버 금융 API (한국 주식용 - 안정적)
-async function fetchNaverPrice(stockCode: string): Promise<StockPriceResult> {
+async function fetchNaverPrice(stockCode: string, signal?: AbortSignal): Promise<StockPriceResult> {
   try {
     const url = `https://polling.finance.naver.com/api/realtime?query=SERVICE_ITEM:${stockCode}`
     console.log(`[Naver API] 요청: ${stockCode}`)
 
-    const response = await fetch(url, {
+    const response = await httpFetch(url, {
+      signal,
       headers: {
         'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36'
       }
@@ -245,6 +307,10 @@ async function fetchNaverPrice(stockCode: string): Promise<StockPriceResult> {
       prevClose: stockData.sv,  // sv = 전일종가 (기준가)
       change,
       changePercent,
+      open: stockData.ov || undefined,
+      high: stockData.hv || undefined,
+      low: stockData.lv || undefined,
+      volume: stockData.aq || undefined,
       currency: 'KRW',
       timestamp: new Date().toISOString()
     }
@@ -262,12 +328,13 @@ async function fetchNaverPrice(stockCode: string): Promise<StockPriceResult> {
 }
 
 // Yahoo Finance API (미국 주식용)
-async function fetchYahooPrice(symbol: string): Promise<StockPriceResult> {
+async function fetchYahooPrice(symbol: string, signal?: AbortSignal): Promise<StockPriceResult> {
   try {
     const url = `https://query1.finance.yahoo.com/v8/finance/chart/${symbol}?interval=1d&range=1d`
     console.log(`[Yahoo API] 요청: ${symbol}`)
 
-    const response = await fetch(url, {
+    const response = await httpFetch(url, {
+      signal,
       headers: {
         'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36'
       }
@@ -316,6 +383,8 @@ function parseYahooResponse(data: any, originalSymbol: string): StockPriceResult
     const previousClose = meta.previousClose || meta.chartPreviousClose || currentPrice
     const change = currentPrice - previousClose
     const changePercent = previousClose > 0 ? (change / previousClose) * 100 : 0
+    const lastOf = (values?: Array<number | null>): number | undefined =>
+      values && values.length > 0 ? values[values.length - 1] ?? undefined : undefined
 
     return {
       success: true,
@@ -325,6 +394,11 @@ function parseYahooResponse(data: any, originalSymbol: string): StockPriceResult
       prevClose: previousClose,
       change,
       changePercent,
+      open: lastOf(quote?.open),
+      high: meta.regularMarketDayHigh || lastOf(quote?.high),
+      low: meta.regularMarketDayLow || lastOf(quote?.low),
+      volume: meta.regularMarketVolume || lastOf(quote?.volume),
+      tradeDate: meta.regularMarketTime ? new Date(meta.regularMarketTime * 1000).toISOString().split('T')[0] : undefined,
       currency: meta.currency || 'USD',
       timestamp: new Date().toISOString()
     }
@@ -340,184 +414,219 @@ function parseYahooResponse(data: any, originalSymbol: string): StockPriceResult
   }
 }
 
-// 주식 현재가 조회 (캐시 포함)
-const stockPriceCache: Map<string, { price: number; timestamp: number }> = new Map()
-const STOCK_CACHE_TTL = 1 * 60 * 1000 // 1분
+// ===== 일별 종가 이력 API =====
+
+// Yahoo Finance 일봉 (지수는 ^KS11, ^GSPC 형식)
+export async function fetchYahooHistory(symbol: string, startDate: string, endDate: string): Promise<DailyBar[]> {
+  const period1 = Math.floor(Date.parse(`${startDate}T00:00:00Z`) / 1000)
+  const period2 = Math.floor(Date.parse(`${endDate}T00:00:00Z`) / 1000) + 24 * 60 * 60
+  const url = `https://query1.finance.yahoo.com/v8/finance/chart/${encodeURIComponent(symbol)}?interval=1d&period1=${period1}&period2=${period2}`
+  console.log(`[Yahoo API] 이력 요청: ${symbol} ${startDate}~${endDate}`)
+
+  const response = await httpFetch(url, {
+    headers: {
+      'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36'
+    }
+  })
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}`)
+  }
+
+  type Series = Array<number | null>
+  const data = await response.json() as {
+    chart?: { result?: Array<{ timestamp?: number[]; indicators?: { quote?: Array<{ open?: Series; high?: Series; low?: Series; close?: Series; volume?: Series }> } }> }
+  }
+  const result = data.chart?.result?.[0]
+  const timestamps = result?.timestamp || []
+  const quote = result?.indicators?.quote?.[0] || {}
+  const closes = quote.close || []
+
+  return timestamps
+    .map((ts, i) => ({
+      date: new Date(ts * 1000).toISOString().split('T')[0],
+      close: closes[i] ?? 0,
+      open: quote.open?.[i] ?? undefined,
+      high: quote.high?.[i] ?? undefined,
+      low: quote.low?.[i] ?? undefined,
+      volume: quote.volume?.[i] ?? undefined
+    }))
+    .filter(row => row.close > 0)
+}
+
+// 네이버 금융 일봉 차트 (KOSPI, KOSDAQ 지수 및 국내 종목)
+// 응답: <item data="20240102|시가|고가|저가|종가|거래량" />
+export async function fetchNaverDailyHistory(symbol: string, count: number): Promise<DailyBar[]> {
+  const url = `https://fchart.stock.naver.com/sise.nhn?symbol=${encodeURIComponent(symbol)}&timeframe=day&count=${count}&requestType=0`
+  console.log(`[Naver API] 이력 요청: ${symbol} (${count}일)`)
+
+  const response = await httpFetch(url, {
+    headers: {
+      'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36'
+    }
+  })
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}`)
+  }
+
+  const text = await response.text()
+  const rows: DailyBar[] = []
+  for (const match of text.matchAll(/data="(\d{8})\|([^|]*)\|([^|]*)\|([^|]*)\|([\d.]+)\|([^"]*)"/g)) {
+    const [, ymd, open, high, low, close, volume] = match
+    rows.push({
+      date: `${ymd.slice(0, 4)}-${ymd.slice(4, 6)}-${ymd.slice(6, 8)}`,
+      close: parseFloat(close),
+      open: parseFloat(open) || undefined,
+      high: parseFloat(high) || undefined,
+      low: parseFloat(low) || undefined,
+      volume: parseFloat(volume) || undefined
+    })
+  }
+  return rows.filter(row => row.close > 0)
+}
 
-// 시세 조회 제외 종목 (조회 오류 발생)
-const SKIP_STOCK_CODES = ['HSBC', 'HSBC.L', 'HSBC.N']
+// ===== 시세 공급자 (네이버 / Yahoo) =====
 
 // 6자리 숫자 코드인지 확인 (한국 주식 표준)
 const isStandardKoreanCode = (code: string): boolean => /^\d{6}$/.test(code)
 
-// 티커 매핑 테이블에서 조회
-function getTickerMapping(stockName: string): { ticker: string; market: string } | null {
-  try {
-    const db = getDatabase()
-    const mapping = db.prepare(
-      'SELECT ticker, market FROM ticker_mappings WHERE stock_name = ?'
-    ).get(stockName) as { ticker: string; market: string } | undefined
-    return mapping || null
-  } catch (error) {
-    console.error('Failed to get ticker mapping:', error)
-    return null
+// 네이버 코드: 마스터 심볼 → 6자리 코드 → 종목명 검색 (찾으면 마스터에 기억)
+async function resolveNaverSymbol(request: QuoteRequest): Promise<string | null> {
+  const { stockCode, stockName, security } = request
+  if (security?.naver_symbol) return security.naver_symbol
+  const code = security?.code || stockCode
+  if (isStandardKoreanCode(code)) return code
+  if (security) return null
+
+  const searchTerm = stockName || stockCode
+  console.log(`[Naver] 종목명으로 코드 검색: "${searchTerm}"`)
+  const foundCode = await searchStockCode(searchTerm, request.signal)
+  if (foundCode) {
+    console.log(`[Naver] 코드 발견: "${searchTerm}" → ${foundCode}`)
+    rememberSecurity({ code: foundCode, name_ko: stockName || null, naver_symbol: foundCode, market: 'KR', currency: 'KRW' }, stockCode)
   }
+  return foundCode
 }
 
-export async function fetchStockPrice(stockCode: string, stockName?: string, currency?: string): Promise<StockPriceResult> {
-  console.log(`[fetchStockPrice] 시작: code="${stockCode}", name="${stockName || ''}", currency="${currency || ''}"`)
+// Yahoo 심볼: 마스터 심볼 → 국내 6자리 코드는 .KS → 미국 종목은 코드 그대로
+export function yahooSymbolFor(request: QuoteRequest): string | null {
+  const { stockCode, security, market } = request
+  if (security) return security.yahoo_symbol
+  if (isStandardKoreanCode(stockCode)) return `${stockCode}.KS`
+  return market === 'US' ? stockCode : null
+}
 
-  // 1. 먼저 ticker_mappings 테이블에서 매핑 확인
-  if (stockName) {
-    const mapping = getTickerMapping(stockName)
-    if (mapping) {
-      console.log(`[fetchStockPrice] 매핑 발견: "${stockName}" → ${mapping.ticker} (${mapping.market})`)
-      const result = await fetchYahooPrice(mapping.ticker)
-      if (result.success) {
-        result.stockCode = stockCode  // 원래 코드 유지
-        result.stockName = stockName  // 원래 이름 유지
-        stockPriceCache.set(stockCode, { price: result.currentPrice, timestamp: Date.now() })
-        console.log(`[fetchStockPrice] ✅ 매핑 성공: "${stockName}" → $${result.currentPrice}`)
-        return result
-      }
-    }
+const naverProvider: MarketDataProvider = {
+  id: 'naver',
+  name: '네이버 금융',
+  markets: ['KR'],
+  async fetchQuote(request) {
+    const symbol = await resolveNaverSymbol(request)
+    return symbol ? fetchNaverPrice(symbol, request.signal) : null
+  },
+  async fetchHistory(request, startDate, endDate) {
+    const symbol = await resolveNaverSymbol(request)
+    if (!symbol) return null
+    // 요청 개수는 달력일 기준 (영업일보다 넉넉하게)
+    const count = Math.ceil((Date.parse(endDate) - Date.parse(startDate)) / (24 * 60 * 60 * 1000)) + 10
+    return (await fetchNaverDailyHistory(symbol, count)).filter(b => b.date >= startDate && b.date <= endDate)
+  }
+}
+
+const yahooProvider: MarketDataProvider = {
+  id: 'yahoo',
+  name: 'Yahoo Finance',
+  markets: ['US', 'KR'],
+  async fetchQuote(request) {
+    const symbol = yahooSymbolFor(request)
+    return symbol ? fetchYahooPrice(symbol, request.signal) : null
+  },
+  async fetchHistory(request, startDate, endDate) {
+    const symbol = yahooSymbolFor(request)
+    return symbol ? fetchYahooHistory(symbol, startDate, endDate) : null
   }
+}
+
+// 기본 공급자 등록 (등록 순 = 기본 우선순위, 픽스처는 파일이 지정된 경우에만 응답)
+registerProvider(fixtureProvider)
+registerProvider(naverProvider)
+registerProvider(yahooProvider)
+
+// 보유종목의 시장 (종목 마스터 → 통화/코드 순으로 분류)
+export function holdingMarket(stockCode: string, stockName: string, currency: string): ProviderMarket | null {
+  return classifyMarket(stockCode, stockName, currency, findSecurity({ code: stockCode, name: stockName }))
+}
 
-  // HSBC 등 조회 제외 종목
-  if (SKIP_STOCK_CODES.some(skip => stockCode.toUpperCase().includes(skip.toUpperCase()))) {
-    console.log(`[fetchStockPrice] SKIP: "${stockCode}" - 제외 목록`)
+// 주식 현재가 조회 (캐시 포함, 전일종가·통화까지 조회 결과 그대로 보관)
+const stockPriceCache: Map<string, { result: StockPriceResult; timestamp: number }> = new Map()
+const STOCK_CACHE_TTL = 1 * 60 * 1000 // 1분
+
+export async function fetchStockPrice(stockCode: string, stockName?: string, currency?: string, signal?: AbortSignal): Promise<StockPriceResult> {
+  console.log(`[fetchStockPrice] 시작: code="${stockCode}", name="${stockName || ''}", currency="${currency || ''}"`)
+
+  // 1. 종목 마스터에서 조회 (코드 → 별칭 → 종목명)
+  const security = findSecurity({ code: stockCode, name: stockName })
+
+  // HSBC 등 시세 조회 제외 종목
+  if (security && !security.quote_enabled) {
+    console.log(`[fetchStockPrice] SKIP: "${stockCode}" - 시세 조회 제외 종목`)
     return {
       success: false,
       stockCode,
       currentPrice: 0,
-      currency: 'USD',
+      currency: security.currency,
       timestamp: new Date().toISOString(),
       error: 'Skipped (known issue)'
     }
   }
 
-  // 캐시 확인
+  // 2. 캐시 확인
   const cached = stockPriceCache.get(stockCode)
   if (cached && Date.now() - cached.timestamp < STOCK_CACHE_TTL) {
+    return { ...cached.result }
+  }
+
+  // 3. 시장 분류 후 공급자 우선순위대로 조회
+  const market = classifyMarket(stockCode, stockName, currency, security)
+  if (!market) {
+    console.log(`[fetchStockPrice] ❌ "${stockCode}" → 분류 불가`)
     return {
-      success: true,
+      success: false,
       stockCode,
-      currentPrice: cached.price,
+      currentPrice: 0,
       currency: currency || 'KRW',
-      timestamp: new Date(cached.timestamp).toISOString()
-    }
-  }
-
-  // 미국 주식 판단: currency가 USD
-  const isUSStock = currency === 'USD'
-
-  // 한국 주식 판단: currency가 KRW이거나, 6자리 숫자 코드이거나, 한글 포함
-  const isKoreanStock = currency === 'KRW' ||
-    isStandardKoreanCode(stockCode) ||
-    (stockName && /[가-힣]/.test(stockName)) ||
-    /[가-힣]/.test(stockCode)
-
-  let actualCode = stockCode
-
-  // 미국 주식: Yahoo Finance로 조회
-  if (isUSStock) {
-    console.log(`[fetchStockPrice] 미국 주식 → Yahoo API: ${stockCode}`)
-    const result = await fetchYahooPrice(stockCode)
-
-    if (result.success) {
-      console.log(`[fetchStockPrice] ✅ "${stockCode}" → $${result.currentPrice}`)
-      stockPriceCache.set(stockCode, { price: result.currentPrice, timestamp: Date.now() })
-    } else {
-      console.log(`[fetchStockPrice] ❌ "${stockCode}" → 실패: ${result.error}`)
-    }
-
-    return result
-  }
-
-  // 한국 주식: 종목명으로 네이버에서 코드 검색
-  if (isKoreanStock) {
-    // 표준 6자리 숫자 코드가 아니면 → 종목명으로 검색
-    if (!isStandardKoreanCode(stockCode)) {
-      const searchTerm = stockName || stockCode
-      console.log(`[fetchStockPrice] 종목명으로 코드 검색: "${searchTerm}"`)
-      const foundCode = await searchStockCode(searchTerm)
-      if (foundCode) {
-        actualCode = foundCode
-        console.log(`[fetchStockPrice] 코드 발견: "${searchTerm}" → ${foundCode}`)
-      } else {
-        // 네이버에서 못 찾으면 Yahoo로 fallback 시도
-        console.log(`[fetchStockPrice] 네이버에서 못찾음, Yahoo fallback: "${stockCode}"`)
-        const yahooResult = await fetchYahooPrice(stockCode)
-        if (yahooResult.success) {
-          console.log(`[fetchStockPrice] ✅ Yahoo fallback 성공: "${stockCode}" → $${yahooResult.currentPrice}`)
-          stockPriceCache.set(stockCode, { price: yahooResult.currentPrice, timestamp: Date.now() })
-          return yahooResult
-        }
-        // Yahoo도 실패
-        console.log(`[fetchStockPrice] ❌ Yahoo fallback도 실패: "${stockCode}"`)
-        return {
-          success: false,
-          stockCode,
-          currentPrice: 0,
-          currency: 'KRW',
-          timestamp: new Date().toISOString(),
-          error: `종목 코드를 찾을 수 없음: ${searchTerm}`
-        }
-      }
-    }
-
-    // 네이버 API로 조회
-    console.log(`[fetchStockPrice] 네이버 API 호출: ${actualCode}`)
-    const result = await fetchNaverPrice(actualCode)
-    result.stockCode = stockCode  // 원래 코드로 반환
-
-    if (result.success) {
-      stockPriceCache.set(stockCode, { price: result.currentPrice, timestamp: Date.now() })
-      return result
-    }
-
-    // 네이버 실패 시 Yahoo fallback (찾은 코드로 시도)
-    console.log(`[fetchStockPrice] 네이버 실패, Yahoo fallback: "${actualCode}"`)
-    const yahooFallback = await fetchYahooPrice(actualCode)
-    if (yahooFallback.success) {
-      console.log(`[fetchStockPrice] ✅ Yahoo fallback 성공: "${stockCode}" → $${yahooFallback.currentPrice}`)
-      stockPriceCache.set(stockCode, { price: yahooFallback.currentPrice, timestamp: Date.now() })
-      return yahooFallback
+      timestamp: new Date().toISOString(),
+      error: '종목 분류 불가 (한국/미국 아님)'
     }
-
-    return result  // 네이버 실패 결과 반환
   }
 
-  // 분류 불가: 에러 반환
-  console.log(`[fetchStockPrice] ❌ "${stockCode}" → 분류 불가`)
-  return {
-    success: false,
-    stockCode,
-    currentPrice: 0,
-    currency: currency || 'KRW',
-    timestamp: new Date().toISOString(),
-    error: '종목 분류 불가 (한국/미국 아님)'
+  const result = await fetchQuoteFromProviders({ stockCode, stockName, currency, market, security, signal })
+  if (result.success) {
+    stockPriceCache.set(stockCode, { result: { ...result }, timestamp: Date.now() })
+  } else {
+    console.log(`[fetchStockPrice] ❌ "${stockCode}" → 실패: ${result.error}`)
   }
+  return result
 }
 
-// 모든 보유종목 현재가 일괄 업데이트
-export async function updateAllHoldingPrices(userId: string): Promise<BulkPriceResult> {
-  const db = getDatabase()
-
-  // 사용자의 모든 보유종목 조회 (stock_name도 함께)
-  const holdings = db.prepare(`
-    SELECT DISTINCT h.stock_code, h.stock_name, h.currency
-    FROM holdings h
-    JOIN accounts a ON h.account_id = a.id
-    WHERE a.user_id = ?
-  `).all(userId) as Array<{ stock_code: string; stock_name: string; currency: string }>
+// 보유종목 현재가 일괄 업데이트 (userId null = 가족 전체, market 지정 시 해당 시장 종목만)
+// 시세는 종목(표준 코드)별로 한 번만 조회해 quotes에 저장 → 모든 계좌의 보유종목이 같은 시세 사용
+export async function updateAllHoldingPrices(
+  userId: string | null,
+  market?: ProviderMarket,
+  options: BulkPriceOptions = {}
+): Promise<BulkPriceResult> {
+  const manualCodes = getActiveOverrideCodes()
+  const targets = getQuoteTargets(userId).filter(h => !market || holdingMarket(h.instrument_code, h.stock_name, h.currency) === market)
+  const holdings = targets.filter(h => !manualCodes.has(h.instrument_code))
 
   console.log(`\n========== 시세 일괄 업데이트 시작 ==========`)
-  console.log(`[updateAll] 총 ${holdings.length}개 종목:`, holdings.map(h => h.stock_code))
+  console.log(`[updateAll] 총 ${holdings.length}개 종목:`, holdings.map(h => h.instrument_code))
+  options.onStart?.(holdings.length)
 
   const results: StockPriceResult[] = []
   let updated = 0
   let failed = 0
+  let canceled = false
 
   // 환율 먼저 조회 (USD 종목이 있는 경우)
   let exchangeRate: ExchangeRateResult | undefined
@@ -526,39 +635,47 @@ export async function updateAllHoldingPrices(userId: string): Promise<BulkPriceR
     exchangeRate = await fetchExchangeRate('USD', 'KRW')
   }
 
-  // 병렬 처리 (5개씩 배치)
+  // 병렬 처리 (5개씩 배치, 호출 제한은 http-client의 호스트별 토큰 버킷이 담당)
   const batchSize = 5
   for (let i = 0; i < holdings.length; i += batchSize) {
+    // 취소 요청 시 진행 중인 조회를 멈추고 완료된 결과까지만 반영
+    if (options.signal?.aborted) {
+      canceled = true
+      break
+    }
+
     const batch = holdings.slice(i, i + batchSize)
-    const batchResults = await Promise.all(
-      batch.map(h => fetchStockPrice(h.stock_code, h.stock_name, h.currency))
-    )
+    options.onBatch?.(batch.map(h => h.stock_name || h.instrument_code))
+    // 취소로 중단된 조회는 실패로 보고·집계하지 않음
+    const isCanceled = (result: StockPriceResult): boolean => !result.success && !!options.signal?.aborted
+    const batchResults = (await Promise.all(
+      batch.map(h => fetchStockPrice(h.instrument_code, h.stock_name, h.currency, options.signal).then(result => {
+        if (!isCanceled(result)) options.onItem?.(result, h.stock_name || h.instrument_code)
+        return result
+      }))
+    )).filter(result => !isCanceled(result))
+    if (options.signal?.aborted) canceled = true
 
+    const quotes: Quote[] = []
     for (const result of batchResults) {
       results.push(result)
 
-      if (result.success && result.currentPrice > 0) {
-        // DB 업데이트 (prev_close 포함)
-        const prevClose = result.prevClose || (result.currentPrice - (result.change || 0))
-        db.prepare(`
-          UPDATE holdings
-          SET current_price = ?, prev_close = ?, last_synced = datetime('now')
-          WHERE stock_code = ?
-        `).run(result.currentPrice, prevClose > 0 ? prevClose : result.currentPrice, result.stockCode)
+      const quote = quoteFromResult(result)
+      if (quote) {
+        quotes.push(quote)
         updated++
       } else {
         failed++
       }
     }
+    saveQuotes(quotes)
 
-    // Rate limiting: 배치 간 딜레이
-    if (i + batchSize < holdings.length) {
-      await new Promise(resolve => setTimeout(resolve, 500))
-    }
+    // 일봉 이력에 당일 시세 기록
+    recordQuotes(batchResults)
   }
 
   console.log(`\n========== 시세 업데이트 완료 ==========`)
-  console.log(`[updateAll] 성공: ${updated}개, 실패: ${failed}개`)
+  console.log(`[updateAll] 성공: ${updated}개, 실패: ${failed}개${canceled ? ' (취소됨)' : ''}`)
   const failedResults = results.filter(r => !r.success)
   if (failedResults.length > 0) {
     console.log(`[updateAll] 실패 목록:`)
@@ -570,26 +687,74 @@ export async function updateAllHoldingPrices(userId: string): Promise<BulkPriceR
     updated,
     failed,
     results,
+    manual: targets.length - holdings.length,
+    canceled,
     exchangeRate
   }
 }
 
 // 특정 종목 현재가 업데이트
 export async function updateHoldingPrice(stockCode: string): Promise<StockPriceResult> {
-  const result = await fetchStockPrice(stockCode)
+  const instrumentCode = instrumentCodeOf(stockCode)
+  if (getActiveOverrideCodes().has(instrumentCode)) {
+    return {
+      success: false,
+      stockCode: instrumentCode,
+      currentPrice: 0,
+      currency: 'KRW',
+      timestamp: new Date().toISOString(),
+      error: '수동 시세 사용 중'
+    }
+  }
 
-  if (result.success && result.currentPrice > 0) {
-    const db = getDatabase()
-    db.prepare(`
-      UPDATE holdings
-      SET current_price = ?, last_synced = datetime('now')
-      WHERE stock_code = ?
-    `).run(result.currentPrice, stockCode)
+  const result = await fetchStockPrice(instrumentCode)
+
+  const quote = quoteFromResult(result)
+  if (quote) {
+    saveQuotes([quote])
+    recordQuotes([result])
   }
 
   return result
 }
 
+// 앱 시작 시 저장된 환율/시세로 캐시 채움 (네트워크 없이도 마지막 값 표시)
+export function loadPersistedMarketData(): { rates: number; quotes: number } {
+  const db = getDatabase()
+  const rates = db.prepare(`
+    SELECT currency_pair, rate, MAX(fetched_at) AS fetched_at FROM exchange_rates GROUP BY currency_pair
+  `).all() as Array<{ currency_pair: string; rate: number; fetched_at: string }>
+  for (const r of rates) {
+    exchangeRateCache.set(r.currency_pair, { rate: r.rate, timestamp: new Date(toIsoTimestamp(r.fetched_at)).getTime() })
+  }
+
+  const quotes = db.prepare('SELECT instrument_code, price, prev_close, currency, source, as_of FROM quotes').all() as Array<{
+    instrument_code: string
+    price: number
+    prev_close: number | null
+    currency: string
+    source: string
+    as_of: string
+  }>
+  for (const q of quotes) {
+    stockPriceCache.set(q.instrument_code, {
+      result: {
+        success: true,
+        stockCode: q.instrument_code,
+        currentPrice: q.price,
+        prevClose: q.prev_close ?? undefined,
+        currency: q.currency,
+        provider: q.source,
+        timestamp: q.as_of
+      },
+      timestamp: new Date(q.as_of).getTime()
+    })
+  }
+
+  console.log(`[MarketData] 저장된 환율 ${rates.length}건, 시세 ${quotes.length}건 불러옴`)
+  return { rates: rates.length, quotes: quotes.length }
+}
+
 // 캐시 클리어
 export function clearMarketDataCache(): void {
   exchangeRateCache.clear()
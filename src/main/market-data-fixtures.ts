@@ -0,0 +1,144 @@
+/**
+ * Market Data Fixtures
+ * 파일 기반 시세 공급자 (JSON 픽스처) - 네트워크 없이 앱/테스트 실행
+ *
+ * {
+ *   "quotes": { "005930": { "price": 71000, "prevClose": 70000, "name": "삼성전자", "currency": "KRW" } },
+ *   "history": { "005930": [{ "date": "2024-01-02", "close": 70000 }] }
+ * }
+ * 키는 종목코드 또는 종목 마스터의 네이버/Yahoo 심볼
+ */
+
+import * as fs from 'fs'
+import { getSetting, setSetting } from './database'
+import { DailyBar, StockPriceResult } from './market-data-api'
+import { MarketDataProvider, QuoteRequest } from './market-data-providers'
+
+// ===== 타입 정의 =====
+export interface FixtureQuote {
+  price: number
+  prevClose?: number
+  open?: number
+  high?: number
+  low?: number
+  volume?: number
+  name?: string
+  currency?: string
+  date?: string         // 시세 기준일 (YYYY-MM-DD)
+}
+
+export interface MarketDataFixture {
+  quotes: Record<string, FixtureQuote>
+  history: Record<string, DailyBar[]>
+}
+
+const FIXTURE_PATH_SETTING = 'market_data_fixture_path'
+const FIXTURE_PATH_ENV = 'MARKET_DATA_FIXTURES'
+
+let loaded: { path: string; mtimeMs: number; fixture: MarketDataFixture } | null = null
+
+// ===== 픽스처 해석 (순수 함수) =====
+
+export function parseFixture(content: string): MarketDataFixture {
+  let data: Partial<MarketDataFixture>
+  try {
+    data = JSON.parse(content)
+  } catch {
+    throw new Error('시세 픽스처 파일이 올바른 JSON이 아닙니다')
+  }
+  if (!data || typeof data !== 'object' || (!data.quotes && !data.history)) {
+    throw new Error('시세 픽스처에 quotes 또는 history 항목이 필요합니다')
+  }
+
+  const history: Record<string, DailyBar[]> = {}
+  for (const [key, bars] of Object.entries(data.history || {})) {
+    history[key.toUpperCase()] = (Array.isArray(bars) ? bars : [])
+      .filter(b => b && typeof b.date === 'string' && b.close > 0)
+      .sort((a, b) => a.date.localeCompare(b.date))
+  }
+  const quotes: Record<string, FixtureQuote> = {}
+  for (const [key, quote] of Object.entries(data.quotes || {})) {
+    if (quote && quote.price > 0) quotes[key.toUpperCase()] = quote
+  }
+  return { quotes, history }
+}
+
+// 조회 키: 요청 코드 → 마스터 코드 → 네이버/Yahoo 심볼
+export function fixtureKeys(request: QuoteRequest): string[] {
+  const { security } = request
+  const keys = [request.stockCode, security?.code, security?.naver_symbol, security?.yahoo_symbol]
+    .filter((k): k is string => !!k)
+    .map(k => k.toUpperCase())
+  return [...new Set(keys)]
+}
+
+export function fixtureQuote(fixture: MarketDataFixture, request: QuoteRequest): StockPriceResult | null {
+  const key = fixtureKeys(request).find(k => fixture.quotes[k])
+  if (!key) return null
+
+  const quote = fixture.quotes[key]
+  const prevClose = quote.prevClose ?? quote.price
+  return {
+    success: true,
+    stockCode: request.stockCode,
+    stockName: quote.name,
+    currentPrice: quote.price,
+    prevClose,
+    change: quote.price - prevClose,
+    changePercent: prevClose > 0 ? ((quote.price - prevClose) / prevClose) * 100 : 0,
+    open: quote.open,
+    high: quote.high,
+    low: quote.low,
+    volume: quote.volume,
+    tradeDate: quote.date,
+    currency: quote.currency || request.currency || (request.market === 'US' ? 'USD' : 'KRW'),
+    timestamp: new Date().toISOString()
+  }
+}
+
+export function fixtureHistory(fixture: MarketDataFixture, request: QuoteRequest, startDate: string, endDate: string): DailyBar[] | null {
+  const key = fixtureKeys(request).find(k => fixture.history[k])
+  if (!key) return null
+  return fixture.history[key].filter(b => b.date >= startDate && b.date <= endDate)
+}
+
+// ===== 파일 연동 =====
+
+// 설정값 우선, 없으면 환경변수 (테스트/오프라인 실행용)
+export function getFixturePath(): string | null {
+  return getSetting(FIXTURE_PATH_SETTING) || process.env[FIXTURE_PATH_ENV] || null
+}
+
+export function setFixturePath(filePath: string | null): void {
+  if (filePath) {
+    parseFixture(fs.readFileSync(filePath, 'utf-8'))
+  }
+  setSetting(FIXTURE_PATH_SETTING, filePath || '')
+  loaded = null
+}
+
+// 파일이 바뀌면 다시 읽음
+export function loadFixture(): MarketDataFixture | null {
+  const filePath = getFixturePath()
+  if (!filePath || !fs.existsSync(filePath)) return null
+
+  const mtimeMs = fs.statSync(filePath).mtimeMs
+  if (!loaded || loaded.path !== filePath || loaded.mtimeMs !== mtimeMs) {
+    loaded = { path: filePath, mtimeMs, fixture: parseFixture(fs.readFileSync(filePath, 'utf-8')) }
+  }
+  return loaded.fixture
+}
+
+export const fixtureProvider: MarketDataProvider = {
+  id: 'fixture',
+  name: '픽스처 파일',
+  markets: ['KR', 'US'],
+  async fetchQuote(request) {
+    const fixture = loadFixture()
+    return fixture ? fixtureQuote(fixture, request) : null
+  },
+  async fetchHistory(request, startDate, endDate) {
+    const fixture = loadFixture()
+    return fixture ? fixtureHistory(fixture, request, startDate, endDate) : null
+  }
+}
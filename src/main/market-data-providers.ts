@@ -0,0 +1,299 @@
+/**
+ * Market Data Providers
+ * 시세 공급자 인터페이스와 등록부
+ * 시장별 우선순위(설정) 순서로 조회하고, 연속 실패한 공급자는 잠시 뒤로 미룸
+ */
+
+import { getSetting, setSetting } from './database'
+import { DailyBar, StockPriceResult } from './market-data-api'
+import { Security } from './securities'
+
+// ===== 타입 정의 =====
+export type ProviderMarket = 'KR' | 'US'
+
+export interface QuoteRequest {
+  stockCode: string
+  stockName?: string
+  currency?: string
+  market: ProviderMarket
+  security: Security | null
+  signal?: AbortSignal      // 작업 취소 시 진행 중인 호출 중단
+}
+
+// fetchQuote/fetchHistory가 null을 반환하면 "이 종목은 조회 대상 아님" (실패로 집계하지 않음)
+export interface MarketDataProvider {
+  id: string
+  name: string
+  markets: ProviderMarket[]
+  fetchQuote(request: QuoteRequest): Promise<StockPriceResult | null>
+  fetchHistory?(request: QuoteRequest, startDate: string, endDate: string): Promise<DailyBar[] | null>
+}
+
+export interface ProviderHealth {
+  successes: number
+  failures: number
+  consecutive_failures: number
+  last_success: string | null
+  last_failure: string | null
+  last_error: string | null
+  cooling_until: string | null
+}
+
+export interface ProviderStatus {
+  id: string
+  name: string
+  markets: ProviderMarket[]
+  enabled: boolean
+  supports_history: boolean
+  health: ProviderHealth
+}
+
+export interface ProviderSettings {
+  priority: Record<ProviderMarket, string[]>
+  disabled: string[]
+}
+
+export interface HistoryFetchResult {
+  bars: DailyBar[]
+  provider: string | null
+  errors: string[]
+}
+
+export const PROVIDER_MARKETS: ProviderMarket[] = ['KR', 'US']
+
+// 연속 실패 3회 → 5분간 후순위
+const FAILURE_THRESHOLD = 3
+const COOLDOWN_MS = 5 * 60 * 1000
+
+const PRIORITY_SETTING = 'market_data_priority'
+const DISABLED_SETTING = 'market_data_disabled'
+
+const EMPTY_HEALTH: ProviderHealth = {
+  successes: 0,
+  failures: 0,
+  consecutive_failures: 0,
+  last_success: null,
+  last_failure: null,
+  last_error: null,
+  cooling_until: null
+}
+
+const providers: MarketDataProvider[] = []
+const healthById: Map<string, ProviderHealth> = new Map()
+
+// ===== 등록부 =====
+
+// 같은 id로 다시 등록하면 교체
+export function registerProvider(provider: MarketDataProvider): void {
+  const index = providers.findIndex(p => p.id === provider.id)
+  if (index >= 0) {
+    providers[index] = provider
+  } else {
+    providers.push(provider)
+  }
+}
+
+export function unregisterProvider(id: string): void {
+  const index = providers.findIndex(p => p.id === id)
+  if (index >= 0) providers.splice(index, 1)
+  healthById.delete(id)
+}
+
+export function getProviders(): MarketDataProvider[] {
+  return [...providers]
+}
+
+// ===== 공급자 선택 (순수 함수) =====
+
+// 시장 분류: 종목 마스터 > 통화 > 코드/종목명 (6자리 숫자 또는 한글이면 한국)
+export function classifyMarket(
+  stockCode: string,
+  stockName: string | undefined,
+  currency: string | undefined,
+  security: Security | null
+): ProviderMarket | null {
+  if (security && PROVIDER_MARKETS.includes(security.market as ProviderMarket)) {
+    return security.market as ProviderMarket
+  }
+  if (currency === 'USD') return 'US'
+  if (currency === 'KRW' || /^\d{6}$/.test(stockCode) || /[가-힣]/.test(stockCode) || (stockName && /[가-힣]/.test(stockName))) {
+    return 'KR'
+  }
+  return null
+}
+
+export function isCooling(health: ProviderHealth | undefined, now: number): boolean {
+  return !!health?.cooling_until && Date.parse(health.cooling_until) > now
+}
+
+// 시장 지원·사용 여부로 거른 뒤 우선순위 순 (목록에 없는 공급자는 등록 순으로 뒤에), 쿨다운 중인 공급자는 맨 뒤
+export function orderProviders(
+  candidates: MarketDataProvider[],
+  market: ProviderMarket,
+  priority: string[],
+  disabled: string[],
+  health: Map<string, ProviderHealth>,
+  now: number
+): MarketDataProvider[] {
+  const rank = (id: string): number => {
+    const index = priority.indexOf(id)
+    return index >= 0 ? index : priority.length
+  }
+  const eligible = candidates
+    .map((provider, order) => ({ provider, order }))
+    .filter(({ provider }) => provider.markets.includes(market) && !disabled.includes(provider.id))
+    .sort((a, b) => rank(a.provider.id) - rank(b.provider.id) || a.order - b.order)
+    .map(({ provider }) => provider)
+
+  return [
+    ...eligible.filter(p => !isCooling(health.get(p.id), now)),
+    ...eligible.filter(p => isCooling(health.get(p.id), now))
+  ]
+}
+
+export function recordOutcome(health: ProviderHealth | undefined, ok: boolean, error: string | null, now: number): ProviderHealth {
+  const current = health || EMPTY_HEALTH
+  const timestamp = new Date(now).toISOString()
+
+  if (ok) {
+    return { ...current, successes: current.successes + 1, consecutive_failures: 0, last_success: timestamp, cooling_until: null }
+  }
+
+  const consecutive = current.consecutive_failures + 1
+  return {
+    ...current,
+    failures: current.failures + 1,
+    consecutive_failures: consecutive,
+    last_failure: timestamp,
+    last_error: error,
+    cooling_until: consecutive >= FAILURE_THRESHOLD ? new Date(now + COOLDOWN_MS).toISOString() : current.cooling_until
+  }
+}
+
+// ===== 설정 =====
+
+function parseJsonSetting<T>(key: string, fallback: T): T {
+  const value = getSetting(key)
+  if (!value) return fallback
+  try {
+    return JSON.parse(value) as T
+  } catch {
+    return fallback
+  }
+}
+
+export function getProviderSettings(): ProviderSettings {
+  const priority = parseJsonSetting<Partial<Record<ProviderMarket, string[]>>>(PRIORITY_SETTING, {})
+  return {
+    priority: { KR: priority.KR || [], US: priority.US || [] },
+    disabled: parseJsonSetting<string[]>(DISABLED_SETTING, [])
+  }
+}
+
+export function setProviderPriority(market: ProviderMarket, ids: string[]): void {
+  if (!PROVIDER_MARKETS.includes(market)) {
+    throw new Error(`지원하지 않는 시장입니다: ${market}`)
+  }
+  const settings = getProviderSettings()
+  setSetting(PRIORITY_SETTING, JSON.stringify({ ...settings.priority, [market]: ids }))
+}
+
+export function setProviderEnabled(id: string, enabled: boolean): void {
+  const disabled = getProviderSettings().disabled.filter(d => d !== id)
+  setSetting(DISABLED_SETTING, JSON.stringify(enabled ? disabled : [...disabled, id]))
+}
+
+export function getProviderStatus(): ProviderStatus[] {
+  const settings = getProviderSettings()
+  return providers.map(p => ({
+    id: p.id,
+    name: p.name,
+    markets: p.markets,
+    enabled: !settings.disabled.includes(p.id),
+    supports_history: !!p.fetchHistory,
+    health: healthById.get(p.id) || EMPTY_HEALTH
+  }))
+}
+
+export function resetProviderHealth(): void {
+  healthById.clear()
+}
+
+// ===== 조회 =====
+
+function providersFor(market: ProviderMarket): MarketDataProvider[] {
+  const settings = getProviderSettings()
+  return orderProviders(providers, market, settings.priority[market], settings.disabled, healthById, Date.now())
+}
+
+function markOutcome(id: string, ok: boolean, error: string | null = null): void {
+  healthById.set(id, recordOutcome(healthById.get(id), ok, error, Date.now()))
+}
+
+// 우선순위 순으로 첫 성공 시세 반환 (결과의 종목코드는 요청 코드로 통일)
+export async function fetchQuoteFromProviders(request: QuoteRequest): Promise<StockPriceResult> {
+  const errors: string[] = []
+
+  for (const provider of providersFor(request.market)) {
+    if (request.signal?.aborted) break
+
+    let result: StockPriceResult | null
+    try {
+      result = await provider.fetchQuote(request)
+    } catch (error) {
+      result = {
+        success: false,
+        stockCode: request.stockCode,
+        currentPrice: 0,
+        currency: request.currency || 'KRW',
+        timestamp: new Date().toISOString(),
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }
+    }
+    if (!result) continue
+
+    if (result.success && result.currentPrice > 0) {
+      markOutcome(provider.id, true)
+      console.log(`[Provider] ✅ ${provider.id}: "${request.stockCode}" → ${result.currentPrice}`)
+      return { ...result, stockCode: request.stockCode, stockName: request.stockName || result.stockName, provider: provider.id }
+    }
+
+    // 취소로 끝난 호출은 공급자 실패로 집계하지 않음
+    if (request.signal?.aborted) break
+    markOutcome(provider.id, false, result.error || 'No price')
+    errors.push(`${provider.name}: ${result.error || 'No price'}`)
+  }
+
+  return {
+    success: false,
+    stockCode: request.stockCode,
+    currentPrice: 0,
+    currency: request.currency || (request.market === 'US' ? 'USD' : 'KRW'),
+    timestamp: new Date().toISOString(),
+    error: request.signal?.aborted
+      ? '취소됨'
+      : errors.length > 0 ? errors.join(', ') : `조회 가능한 시세 공급자가 없습니다: ${request.stockName || request.stockCode}`
+  }
+}
+
+export async function fetchHistoryFromProviders(request: QuoteRequest, startDate: string, endDate: string): Promise<HistoryFetchResult> {
+  const errors: string[] = []
+
+  for (const provider of providersFor(request.market)) {
+    if (!provider.fetchHistory) continue
+    try {
+      const bars = await provider.fetchHistory(request, startDate, endDate)
+      if (!bars) continue
+      if (bars.length === 0) throw new Error('No data')
+      markOutcome(provider.id, true)
+      return { bars, provider: provider.id, errors }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error'
+      console.error(`Failed to fetch ${request.stockCode} history from ${provider.id}:`, error)
+      markOutcome(provider.id, false, message)
+      errors.push(`${provider.name}: ${message}`)
+    }
+  }
+
+  return { bars: [], provider: null, errors }
+}
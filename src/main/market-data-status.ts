@@ -0,0 +1,81 @@
+/**
+ * Market Data Status
+ * 저장된 시세·환율의 기준 시각과 지연 여부, 오프라인 상태
+ * 네트워크 없이도 마지막 값을 보여주고, 최근 장 마감 이후 갱신되지 않은 시세는 지연으로 표시
+ */
+
+import { getDatabase } from './database'
+import { ExchangeRateResult, getLastExchangeRate, holdingMarket } from './market-data-api'
+import { ExchangeSession, EXCHANGES, getHolidays, latestDueSlot } from './price-scheduler'
+import { getQuoteTargets } from './quotes'
+import { getActiveOverrideCodes } from './price-overrides'
+import { getNetworkStatus } from './http-client'
+import { getBaseCurrency } from './valuation'
+
+// ===== 타입 정의 =====
+export interface StaleQuote {
+  instrument_code: string
+  stock_name: string
+  as_of: string
+}
+
+export interface MarketDataStatus {
+  offline: boolean
+  offline_since: string | null
+  quotes_as_of: string | null       // 가장 최근 시세 시각
+  stale_quotes: StaleQuote[]        // 최근 장 마감 이후 갱신되지 않은 시세
+  exchange_rates: ExchangeRateResult[]
+}
+
+// ===== 지연 판단 (순수 함수) =====
+
+// 해당 거래소의 마지막 장 마감(종가 확정) 이전에 조회된 시세면 지연
+export function isQuoteStale(asOf: string, session: ExchangeSession, holidays: Set<string>, now: Date): boolean {
+  const lastClose = latestDueSlot(session, holidays, 1, now)
+  return lastClose !== null && new Date(asOf).getTime() < lastClose.getTime()
+}
+
+// ===== DB 연동 =====
+
+export function getMarketDataStatus(userId: string | null, online: boolean = true, now: Date = new Date()): MarketDataStatus {
+  const db = getDatabase()
+  const targets = getQuoteTargets(userId)
+  const manualCodes = getActiveOverrideCodes()
+
+  const quotes = new Map(
+    (db.prepare('SELECT instrument_code, as_of FROM quotes').all() as Array<{ instrument_code: string; as_of: string }>)
+      .map(q => [q.instrument_code, q.as_of])
+  )
+
+  const holidays = new Map(
+    Object.values(EXCHANGES).map(session => [session.code, new Set(getHolidays(session.code).map(h => h.date))])
+  )
+
+  let quotesAsOf: string | null = null
+  const staleQuotes: StaleQuote[] = []
+  for (const target of targets) {
+    const asOf = quotes.get(target.instrument_code)
+    // 수동 시세는 평가일로 관리, 시세가 없는 종목은 증권사 가격 사용
+    if (!asOf || manualCodes.has(target.instrument_code)) continue
+    if (!quotesAsOf || asOf > quotesAsOf) quotesAsOf = asOf
+
+    const market = holdingMarket(target.instrument_code, target.stock_name, target.currency)
+    const session = Object.values(EXCHANGES).find(s => s.market === market)
+    if (session && isQuoteStale(asOf, session, holidays.get(session.code) as Set<string>, now)) {
+      staleQuotes.push({ instrument_code: target.instrument_code, stock_name: target.stock_name, as_of: asOf })
+    }
+  }
+
+  const baseCurrency = getBaseCurrency()
+  const currencies = [...new Set(targets.map(t => (t.currency || baseCurrency).toUpperCase()))]
+    .filter(c => c !== baseCurrency)
+  const network = getNetworkStatus()
+
+  return {
+    offline: !online || network.offline,
+    offline_since: network.since,
+    quotes_as_of: quotesAsOf,
+    stale_quotes: staleQuotes,
+    exchange_rates: currencies.map(c => getLastExchangeRate(c, baseCurrency)).filter(r => r.success)
+  }
+}
@@ -0,0 +1,382 @@
+/**
+ * Performance Returns
+ * 시간가중수익률(TWR)과 금액가중수익률(XIRR) 계산
+ * 평가금액은 portfolio_snapshots, 외부 현금흐름은 거래내역(입출금 또는 매매)에서 산출
+ */
+
+import { getDatabase } from './database'
+import { fetchExchangeRate } from './market-data-api'
+import { isCashTransaction } from './cash-ledger'
+import { getFxRateOnDate } from './fx-history'
+import { getBaseCurrency } from './valuation'
+
+// ===== 타입 정의 =====
+export type PerformanceWindow = 'MTD' | 'YTD' | '1Y' | 'ALL'
+
+export interface ValuePoint {
+  date: string          // YYYY-MM-DD
+  value: number         // 평가금액 + 예수금 (기준통화)
+}
+
+export interface ExternalFlow {
+  date: string
+  amount: number        // 포트폴리오로 들어온 돈(+), 나간 돈(-)
+}
+
+export interface PerformanceResult {
+  start_date: string
+  end_date: string
+  start_value: number
+  end_value: number
+  net_flows: number
+  gain: number                    // 기말 - 기초 - 순유입
+  twr: number | null              // 기간 누적 (%)
+  twr_annualized: number | null   // 1년 이상 기간만 (%)
+  xirr: number | null             // 연환산 (%)
+}
+
+export interface PerformanceGroup extends PerformanceResult {
+  key: string
+  label: string
+}
+
+export interface PerformanceReport {
+  baseCurrency: string
+  window: PerformanceWindow
+  household: PerformanceResult | null
+  byUser: PerformanceGroup[]
+  byAccountType: PerformanceGroup[]
+  byAccount: PerformanceGroup[]
+}
+
+export interface FlowTransaction {
+  type: string
+  source: string
+  total_amount: number
+  fee: number
+  tax: number
+  date: string
+}
+
+export const PERFORMANCE_WINDOWS: PerformanceWindow[] = ['MTD', 'YTD', '1Y', 'ALL']
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// ===== 수익률 계산 (순수 함수) =====
+
+function daysBetween(from: string, to: string): number {
+  return (Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS
+}
+
+// 기초 평가 기준일 (이 날의 종가 평가금액이 기초값, 이후 흐름부터 반영)
+export function windowBaseDate(window: PerformanceWindow, endDate: string): string | null {
+  const d = new Date(`${endDate}T00:00:00Z`)
+  switch (window) {
+    case 'MTD':
+      d.setUTCDate(0)
+      break
+    case 'YTD':
+      d.setUTCMonth(0, 0)
+      break
+    case '1Y':
+      d.setUTCFullYear(d.getUTCFullYear() - 1)
+      break
+    default:
+      return null
+  }
+  return d.toISOString().split('T')[0]
+}
+
+// 외부 현금흐름
+// - 예수금을 추적하는 계좌: 입금/출금만 외부 흐름 (매매·배당·이자는 계좌 내부 이동)
+// - 예수금을 추적하지 않는 계좌: 매수는 유입, 매도·배당 수령은 유출로 간주
+// - 기초잔고/조정 거래는 현금 없이 종목이 들어오고 나가므로 항상 외부 흐름
+export function externalFlowOf(tx: FlowTransaction, tracksCash: boolean): number {
+  const costs = (tx.fee || 0) + (tx.tax || 0)
+
+  if (tx.source === 'OPENING' || tx.source === 'ADJUSTMENT') {
+    if (tx.type === 'BUY') return tx.total_amount
+    if (tx.type === 'SELL') return -tx.total_amount
+    return 0
+  }
+
+  if (tracksCash) {
+    if (tx.type === 'DEPOSIT') return tx.total_amount - costs
+    if (tx.type === 'WITHDRAWAL') return -(tx.total_amount + costs)
+    return 0
+  }
+
+  switch (tx.type) {
+    case 'BUY': return tx.total_amount + costs
+    case 'SELL':
+    case 'DIVIDEND':
+    case 'INTEREST': return -(tx.total_amount - costs)
+    default: return 0
+  }
+}
+
+// 계좌별 평가금액 시계열을 합산 (다른 계좌의 빈 일자는 직전 값으로 채움)
+export function combineValueSeries(series: ValuePoint[][]): ValuePoint[] {
+  const dates = [...new Set(series.flat().map(p => p.date))].sort()
+  const sorted = series.map(s => [...s].sort((a, b) => a.date.localeCompare(b.date)))
+  const cursors = sorted.map(() => 0)
+  const last = sorted.map(() => 0)
+
+  return dates.map(date => {
+    let value = 0
+    sorted.forEach((points, i) => {
+      while (cursors[i] < points.length && points[cursors[i]].date <= date) {
+        last[i] = points[cursors[i]++].value
+      }
+      value += last[i]
+    })
+    return { date, value }
+  })
+}
+
+// 일별 연쇄 누적수익률(%): r = (V_t - F_t) / V_{t-1} - 1 (흐름은 해당 일 종가에 포함된 것으로 간주)
+// 직전 평가금액이 0인 구간(최초 납입 전)은 연결하지 않음
+export function computeTwrSeries(values: ValuePoint[], flows: ExternalFlow[]): ValuePoint[] {
+  if (values.length === 0) return []
+
+  let growth = 1
+  let next = 0
+  const sortedFlows = [...flows].sort((a, b) => a.date.localeCompare(b.date))
+  while (next < sortedFlows.length && sortedFlows[next].date <= values[0].date) next++
+
+  const series: ValuePoint[] = [{ date: values[0].date, value: 0 }]
+  for (let i = 1; i < values.length; i++) {
+    let flow = 0
+    while (next < sortedFlows.length && sortedFlows[next].date <= values[i].date) {
+      flow += sortedFlows[next++].amount
+    }
+    const prev = values[i - 1].value
+    if (prev > 0) growth *= (values[i].value - flow) / prev
+    series.push({ date: values[i].date, value: (growth - 1) * 100 })
+  }
+  return series
+}
+
+export function computeTwr(values: ValuePoint[], flows: ExternalFlow[]): number | null {
+  if (!values.slice(0, -1).some(v => v.value > 0)) return null
+  const series = computeTwrSeries(values, flows)
+  return series[series.length - 1].value
+}
+
+// 투자자 관점 현금흐름(납입 -, 회수 +)의 연환산 내부수익률
+// 뉴턴법으로 수렴하지 않으면 이분법으로 재시도
+export function computeXirr(cashflows: ExternalFlow[]): number | null {
+  const flows = cashflows.filter(f => f.amount !== 0)
+  if (!flows.some(f => f.amount > 0) || !flows.some(f => f.amount < 0)) return null
+
+  const origin = flows.reduce((min, f) => (f.date < min ? f.date : min), flows[0].date)
+  const years = flows.map(f => daysBetween(origin, f.date) / 365)
+  const npv = (rate: number): number =>
+    flows.reduce((sum, f, i) => sum + f.amount / Math.pow(1 + rate, years[i]), 0)
+  const derivative = (rate: number): number =>
+    flows.reduce((sum, f, i) => sum - years[i] * f.amount / Math.pow(1 + rate, years[i] + 1), 0)
+
+  let rate = 0.1
+  for (let i = 0; i < 100; i++) {
+    const value = npv(rate)
+    const slope = derivative(rate)
+    if (!isFinite(value) || !isFinite(slope) || slope === 0) break
+    const next = rate - value / slope
+    if (next <= -1 || !isFinite(next)) break
+    if (Math.abs(next - rate) < 1e-10) return next * 100
+    rate = next
+  }
+
+  let low = -0.9999
+  let high = 10
+  if (npv(low) * npv(high) > 0) return null
+  for (let i = 0; i < 200; i++) {
+    const mid = (low + high) / 2
+    if (npv(low) * npv(mid) <= 0) high = mid
+    else low = mid
+  }
+  return ((low + high) / 2) * 100
+}
+
+// 기간 구간: 기초값은 기준일 이전 마지막 평가금액 (없으면 0, 기간 중 시작)
+export function sliceWindow(values: ValuePoint[], flows: ExternalFlow[], baseDate: string | null): {
+  series: ValuePoint[]
+  flows: ExternalFlow[]
+  start_date: string
+  start_value: number
+} | null {
+  const sorted = [...values].sort((a, b) => a.date.localeCompare(b.date))
+  const basePoint = baseDate ? [...sorted].reverse().find(p => p.date <= baseDate) : undefined
+  const inWindow = sorted.filter(p => !baseDate || p.date > baseDate)
+  if (inWindow.length === 0) return null
+
+  const end = inWindow[inWindow.length - 1]
+  const windowFlows = flows.filter(f =>
+    (basePoint ? f.date > basePoint.date : !baseDate || f.date > baseDate) && f.date <= end.date
+  )
+
+  // 기초값이 없으면 기간 중 최초 납입일 또는 첫 평가일부터
+  const firstDate = [inWindow[0].date, ...windowFlows.map(f => f.date)].sort()[0]
+  return {
+    series: basePoint ? [basePoint, ...inWindow] : inWindow,
+    flows: windowFlows,
+    start_date: basePoint ? basePoint.date : firstDate,
+    start_value: basePoint ? basePoint.value : 0
+  }
+}
+
+export function measurePerformance(values: ValuePoint[], flows: ExternalFlow[], baseDate: string | null): PerformanceResult | null {
+  const window = sliceWindow(values, flows, baseDate)
+  if (!window) return null
+
+  const { series, flows: windowFlows, start_date: startDate, start_value: startValue } = window
+  const end = series[series.length - 1]
+  const netFlows = windowFlows.reduce((sum, f) => sum + f.amount, 0)
+
+  const twr = computeTwr(series, windowFlows)
+  const years = daysBetween(startDate, end.date) / 365
+  const xirr = computeXirr([
+    { date: startDate, amount: -startValue },
+    ...windowFlows.map(f => ({ date: f.date, amount: -f.amount })),
+    { date: end.date, amount: end.value }
+  ])
+
+  return {
+    start_date: startDate,
+    end_date: end.date,
+    start_value: startValue,
+    end_value: end.value,
+    net_flows: netFlows,
+    gain: end.value - startValue - netFlows,
+    twr,
+    twr_annualized: twr !== null && years >= 1 ? (Math.pow(1 + twr / 100, 1 / years) - 1) * 100 : null,
+    xirr
+  }
+}
+
+// ===== DB 연동 =====
+
+export interface AccountMeta {
+  id: string
+  user_id: string
+  user_name: string
+  account_type: string
+  brokerage: string
+  account_alias: string | null
+}
+
+export interface PerformanceInputs {
+  baseCurrency: string
+  accounts: AccountMeta[]
+  valuesByAccount: Map<string, ValuePoint[]>
+  flowsByAccount: Map<string, ExternalFlow[]>
+  krwRateOn: (currency: string, date: string) => number   // 1 currency = ? KRW (없으면 0)
+}
+
+// 전체 계좌의 평가금액 시계열과 외부 현금흐름 (기준통화 환산)
+export async function loadPerformanceInputs(extraCurrencies: string[] = []): Promise<PerformanceInputs> {
+  const db = getDatabase()
+  const baseCurrency = getBaseCurrency()
+
+  const accounts = db.prepare(`
+    SELECT a.id, a.user_id, u.name as user_name, a.account_type, a.brokerage, a.account_alias
+    FROM accounts a
+    JOIN users u ON a.user_id = u.id
+  `).all() as AccountMeta[]
+
+  const snapshots = db.prepare(`
+    SELECT account_id, date, currency, market_value, cash, fx_rate
+    FROM portfolio_snapshots
+    ORDER BY date ASC
+  `).all() as Array<{ account_id: string; date: string; currency: string; market_value: number; cash: number; fx_rate: number | null }>
+
+  const transactions = db.prepare(`
+    SELECT account_id, type, source, total_amount, fee, tax, currency, fx_rate, date
+    FROM transactions
+    ORDER BY date ASC
+  `).all() as Array<FlowTransaction & { account_id: string; currency: string; fx_rate: number | null }>
+
+  const cashAccounts = new Set([
+    ...transactions.filter(t => isCashTransaction(t.type)).map(t => t.account_id),
+    ...(db.prepare('SELECT DISTINCT account_id FROM cash_balances').all() as Array<{ account_id: string }>).map(r => r.account_id)
+  ])
+
+  // 환율: 스냅샷/거래에 고정된 값 → 환율 이력 → 현재 환율 (모두 1 통화 = ? KRW)
+  const currentRates = new Map<string, number>()
+  const currencies = [baseCurrency, ...extraCurrencies, ...snapshots.map(s => s.currency), ...transactions.map(t => t.currency)]
+  for (const currency of new Set(currencies)) {
+    if (!currency || currency === 'KRW') continue
+    const result = await fetchExchangeRate(currency, 'KRW')
+    if (result.success && result.rate > 0) currentRates.set(currency, result.rate)
+  }
+  const rateCache = new Map<string, number>()
+  const krwRateOn = (currency: string, date: string): number => {
+    if (!currency || currency === 'KRW') return 1
+    const key = `${currency}|${date}`
+    if (!rateCache.has(key)) {
+      rateCache.set(key, getFxRateOnDate(`${currency}/KRW`, date)?.rate ?? currentRates.get(currency) ?? 0)
+    }
+    return rateCache.get(key) as number
+  }
+  const toBase = (amount: number, currency: string, date: string, lockedRate: number | null): number => {
+    const baseRate = krwRateOn(baseCurrency, date)
+    const rate = currency === 'KRW' ? 1 : lockedRate || krwRateOn(currency, date)
+    return baseRate > 0 ? amount * rate / baseRate : 0
+  }
+
+  const valuesByAccount = new Map<string, ValuePoint[]>()
+  for (const s of snapshots) {
+    const points = valuesByAccount.get(s.account_id) || []
+    const value = toBase(s.market_value + s.cash, s.currency, s.date, s.fx_rate)
+    const last = points[points.length - 1]
+    if (last && last.date === s.date) last.value += value
+    else points.push({ date: s.date, value })
+    valuesByAccount.set(s.account_id, points)
+  }
+
+  const flowsByAccount = new Map<string, ExternalFlow[]>()
+  for (const t of transactions) {
+    const amount = externalFlowOf(t, cashAccounts.has(t.account_id))
+    if (amount === 0) continue
+    const flows = flowsByAccount.get(t.account_id) || []
+    flows.push({ date: t.date, amount: toBase(amount, t.currency, t.date, t.fx_rate) })
+    flowsByAccount.set(t.account_id, flows)
+  }
+
+  return { baseCurrency, accounts, valuesByAccount, flowsByAccount, krwRateOn }
+}
+
+export function accountLabel(account: Pick<AccountMeta, 'account_alias' | 'brokerage' | 'account_type'>): string {
+  return account.account_alias || `${account.brokerage} ${account.account_type}`
+}
+
+export async function getPerformanceReport(window: PerformanceWindow): Promise<PerformanceReport> {
+  const today = new Date().toISOString().split('T')[0]
+  const { baseCurrency, accounts, valuesByAccount, flowsByAccount } = await loadPerformanceInputs()
+
+  const baseDate = windowBaseDate(window, today)
+  const measure = (accountIds: string[]): PerformanceResult | null => measurePerformance(
+    combineValueSeries(accountIds.map(id => valuesByAccount.get(id) || [])),
+    accountIds.flatMap(id => flowsByAccount.get(id) || []),
+    baseDate
+  )
+  const groupBy = (keyOf: (a: AccountMeta) => string, labelOf: (a: AccountMeta) => string): PerformanceGroup[] => {
+    const groups = new Map<string, AccountMeta[]>()
+    for (const account of accounts) {
+      groups.set(keyOf(account), [...(groups.get(keyOf(account)) || []), account])
+    }
+    return [...groups.entries()].flatMap(([key, members]) => {
+      const result = measure(members.map(m => m.id))
+      return result ? [{ key, label: labelOf(members[0]), ...result }] : []
+    })
+  }
+
+  return {
+    baseCurrency,
+    window,
+    household: measure(accounts.map(a => a.id)),
+    byUser: groupBy(a => a.user_id, a => a.user_name),
+    byAccountType: groupBy(a => a.account_type, a => a.account_type),
+    byAccount: groupBy(a => a.id, accountLabel)
+  }
+}
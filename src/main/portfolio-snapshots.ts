@@ -0,0 +1,376 @@
+/**
+ * Portfolio Snapshots
+ * 사용자·계좌·통화별 평가금액/원가/예수금/누적배당을 하루 1건씩 기록하여 순자산 추이 제공
+ * 시세 새로고침·주기 점검 시 당일분(LIVE)을 기록하고, 과거분은 거래내역으로 재구성(BACKFILL)
+ */
+
+import { getDatabase } from './database'
+import { fetchExchangeRate } from './market-data-api'
+import { getCashBalances, cashFlowOf, isCashTransaction } from './cash-ledger'
+import { getFxRateOnDate, listBusinessDays } from './fx-history'
+import { getBaseCurrency, loadFxTable } from './valuation'
+
+// ===== 타입 정의 =====
+export type SnapshotSource = 'LIVE' | 'BACKFILL'
+export type SnapshotRange = '1M' | '3M' | '1Y' | 'ALL'
+
+export interface SnapshotValues {
+  account_id: string
+  currency: string
+  date: string              // YYYY-MM-DD
+  market_value: number      // 원 통화 기준
+  cost_basis: number
+  cash: number
+  dividends: number         // 해당 일자까지 누적 배당금 (세후)
+}
+
+export interface SnapshotRow extends SnapshotValues {
+  user_id: string
+  fx_rate: number | null    // 1 currency = fx_rate KRW (KRW는 1)
+  source: SnapshotSource
+}
+
+export interface SnapshotTrade {
+  account_id: string
+  stock_code: string
+  currency: string
+  type: string
+  source: string
+  quantity: number
+  price: number
+  total_amount: number
+  fee: number
+  tax: number
+  date: string
+}
+
+export interface NetWorthPoint {
+  date: string
+  market_value: number      // 기준통화 환산
+  cost_basis: number
+  cash: number
+  dividends: number
+  total: number             // 평가금액 + 예수금
+}
+
+export const SNAPSHOT_RANGES: SnapshotRange[] = ['1M', '3M', '1Y', 'ALL']
+
+const SNAPSHOT_CHECK_INTERVAL_MS = 60 * 60 * 1000
+
+// ===== 스냅샷 계산 (순수 함수) =====
+
+function today(): string {
+  return new Date().toISOString().split('T')[0]
+}
+
+// 조회 범위 시작일 (ALL은 제한 없음)
+export function rangeStartDate(range: SnapshotRange, endDate: string): string | null {
+  const months = { '1M': 1, '3M': 3, '1Y': 12 }[range as Exclude<SnapshotRange, 'ALL'>]
+  if (!months) return null
+
+  const d = new Date(`${endDate}T00:00:00Z`)
+  d.setUTCMonth(d.getUTCMonth() - months)
+  return d.toISOString().split('T')[0]
+}
+
+// 거래내역을 일자순으로 재생하여 각 일자의 계좌·통화별 값 재구성
+// - 원가: 이동평균법 (매수 수수료/세금 포함, 매도 시 수량 비례 차감)
+// - 시세: 해당 일자까지의 마지막 체결가 (체결가가 없으면 원가)
+// - 예수금: 입출금 기록이 있는 계좌·통화만 원장으로 추적 (cash-ledger와 동일 기준)
+export function buildBackfillSnapshots(trades: SnapshotTrade[], dates: string[]): SnapshotValues[] {
+  const sorted = [...trades].sort((a, b) => a.date.localeCompare(b.date))
+  const keyOf = (a: string, b: string): string => `${a}|${b}`
+
+  const positions = new Map<string, { account_id: string; stock_code: string; currency: string; quantity: number; cost: number }>()
+  const lastPrice = new Map<string, number>()
+  const cash = new Map<string, number>()
+  const dividends = new Map<string, number>()
+  const tracked = new Set(sorted.filter(t => isCashTransaction(t.type)).map(t => keyOf(t.account_id, t.currency)))
+
+  const apply = (t: SnapshotTrade): void => {
+    const costs = (t.fee || 0) + (t.tax || 0)
+    const accountKey = keyOf(t.account_id, t.currency)
+
+    if (tracked.has(accountKey)) {
+      cash.set(accountKey, (cash.get(accountKey) || 0) + cashFlowOf(t))
+    }
+
+    if (t.type === 'DIVIDEND') {
+      dividends.set(accountKey, (dividends.get(accountKey) || 0) + t.total_amount - costs)
+      return
+    }
+    if (t.type !== 'BUY' && t.type !== 'SELL') return
+
+    const positionKey = keyOf(t.account_id, t.stock_code)
+    const position = positions.get(positionKey) ||
+      { account_id: t.account_id, stock_code: t.stock_code, currency: t.currency, quantity: 0, cost: 0 }
+
+    if (t.type === 'BUY') {
+      position.quantity += t.quantity
+      position.cost += t.total_amount + costs
+    } else if (position.quantity > 0) {
+      const sold = Math.min(t.quantity, position.quantity)
+      position.cost -= position.cost * sold / position.quantity
+      position.quantity -= sold
+      if (position.quantity < 1e-9) {
+        position.quantity = 0
+        position.cost = 0
+      }
+    }
+    if (t.price > 0) lastPrice.set(t.stock_code, t.price)
+    positions.set(positionKey, position)
+  }
+
+  const snapshots: SnapshotValues[] = []
+  let next = 0
+
+  for (const date of dates) {
+    while (next < sorted.length && sorted[next].date <= date) apply(sorted[next++])
+
+    const groups = new Map<string, SnapshotValues>()
+    const groupOf = (accountId: string, currency: string): SnapshotValues => {
+      const key = keyOf(accountId, currency)
+      let group = groups.get(key)
+      if (!group) {
+        group = { account_id: accountId, currency, date, market_value: 0, cost_basis: 0, cash: 0, dividends: 0 }
+        groups.set(key, group)
+      }
+      return group
+    }
+
+    for (const p of positions.values()) {
+      if (p.quantity <= 0) continue
+      const group = groupOf(p.account_id, p.currency)
+      const price = lastPrice.get(p.stock_code) ?? p.cost / p.quantity
+      group.market_value += p.quantity * price
+      group.cost_basis += p.cost
+    }
+    for (const [key, balance] of cash) {
+      const [accountId, currency] = key.split('|')
+      groupOf(accountId, currency).cash = balance
+    }
+    for (const [key, total] of dividends) {
+      const [accountId, currency] = key.split('|')
+      groupOf(accountId, currency).dividends = total
+    }
+
+    snapshots.push(...groups.values())
+  }
+
+  return snapshots
+}
+
+// 일자별 합산 후 기준통화 환산
+// baseRateOn: 해당 일자의 1 기준통화 = ? KRW (KRW 기준이면 1)
+// 환율이 없는 외화 행은 합계에서 제외 (valuation.toBaseCurrency와 동일)
+export function buildNetWorthSeries(
+  rows: Array<Pick<SnapshotRow, 'date' | 'currency' | 'market_value' | 'cost_basis' | 'cash' | 'dividends' | 'fx_rate'>>,
+  baseRateOn: (date: string) => number
+): NetWorthPoint[] {
+  const points = new Map<string, NetWorthPoint>()
+
+  for (const row of rows) {
+    const krwRate = row.currency === 'KRW' ? 1 : row.fx_rate
+    const baseRate = baseRateOn(row.date)
+    if (!krwRate || !baseRate) continue
+
+    const rate = krwRate / baseRate
+    const point = points.get(row.date) ||
+      { date: row.date, market_value: 0, cost_basis: 0, cash: 0, dividends: 0, total: 0 }
+
+    point.market_value += row.market_value * rate
+    point.cost_basis += row.cost_basis * rate
+    point.cash += row.cash * rate
+    point.dividends += row.dividends * rate
+    point.total = point.market_value + point.cash
+    points.set(row.date, point)
+  }
+
+  return [...points.values()].sort((a, b) => a.date.localeCompare(b.date))
+}
+
+// ===== DB 연동 =====
+
+function insertSnapshots(rows: SnapshotRow[], overwrite: boolean): number {
+  const db = getDatabase()
+  // LIVE 스냅샷은 BACKFILL을 덮어쓰지만 그 반대는 허용하지 않음
+  const stmt = db.prepare(`
+    INSERT INTO portfolio_snapshots (user_id, account_id, currency, date, market_value, cost_basis, cash, dividends, fx_rate, source)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT(account_id, currency, date) DO ${overwrite ? `UPDATE SET
+      market_value = excluded.market_value,
+      cost_basis = excluded.cost_basis,
+      cash = excluded.cash,
+      dividends = excluded.dividends,
+      fx_rate = excluded.fx_rate,
+      source = excluded.source,
+      created_at = datetime('now')` : 'NOTHING'}
+  `)
+
+  let saved = 0
+  for (const r of rows) {
+    saved += stmt.run(r.user_id, r.account_id, r.currency, r.date, r.market_value, r.cost_basis,
+      r.cash, r.dividends, r.fx_rate, r.source).changes
+  }
+  return saved
+}
+
+// 현재 보유종목·예수금·배당 기준 당일 스냅샷 기록 (같은 날 다시 기록하면 교체)
+export async function recordPortfolioSnapshot(userId: string, date: string = today()): Promise<number> {
+  const db = getDatabase()
+
+  const holdings = db.prepare(`
+    SELECT h.account_id, h.currency,
+      SUM(h.quantity * h.current_price) as market_value,
+      SUM(h.quantity * h.avg_cost) as cost_basis
+    FROM priced_holdings h
+    JOIN accounts a ON h.account_id = a.id
+    WHERE a.user_id = ?
+    GROUP BY h.account_id, h.currency
+  `).all(userId) as Array<{ account_id: string; currency: string; market_value: number; cost_basis: number }>
+
+  const dividendRows = db.prepare(`
+    SELECT t.account_id, t.currency, SUM(t.total_amount - t.fee - t.tax) as dividends
+    FROM transactions t
+    JOIN accounts a ON t.account_id = a.id
+    WHERE a.user_id = ? AND t.type = 'DIVIDEND' AND t.date <= ?
+    GROUP BY t.account_id, t.currency
+  `).all(userId, date) as Array<{ account_id: string; currency: string; dividends: number }>
+
+  const groups = new Map<string, SnapshotValues>()
+  const groupOf = (accountId: string, currency: string): SnapshotValues => {
+    const key = `${accountId}|${currency}`
+    let group = groups.get(key)
+    if (!group) {
+      group = { account_id: accountId, currency, date, market_value: 0, cost_basis: 0, cash: 0, dividends: 0 }
+      groups.set(key, group)
+    }
+    return group
+  }
+
+  for (const h of holdings) {
+    const group = groupOf(h.account_id, h.currency)
+    group.market_value = h.market_value || 0
+    group.cost_basis = h.cost_basis || 0
+  }
+  for (const c of getCashBalances(userId)) groupOf(c.account_id, c.currency).cash = c.balance
+  for (const d of dividendRows) groupOf(d.account_id, d.currency).dividends = d.dividends || 0
+
+  const fx = await loadFxTable([...groups.values()].map(g => g.currency), 'KRW')
+  const rows: SnapshotRow[] = [...groups.values()].map(g => ({
+    ...g,
+    user_id: userId,
+    fx_rate: g.currency === 'KRW' ? 1 : (fx.quotes[g.currency]?.rate || null),
+    source: 'LIVE'
+  }))
+
+  let saved = 0
+  db.transaction(() => {
+    db.prepare('DELETE FROM portfolio_snapshots WHERE user_id = ? AND date = ?').run(userId, date)
+    saved = insertSnapshots(rows, true)
+  })()
+  return saved
+}
+
+// 첫 거래일부터 어제까지 영업일별 스냅샷 재구성 (기존 BACKFILL은 교체, LIVE는 유지)
+export async function backfillPortfolioSnapshots(userId: string): Promise<{ created: number; from: string | null; to: string | null }> {
+  const db = getDatabase()
+
+  const trades = db.prepare(`
+    SELECT t.account_id, t.stock_code, t.currency, t.type, t.source, t.quantity, t.price, t.total_amount, t.fee, t.tax, t.date
+    FROM transactions t
+    JOIN accounts a ON t.account_id = a.id
+    WHERE a.user_id = ?
+    ORDER BY t.date ASC, t.created_at ASC
+  `).all(userId) as SnapshotTrade[]
+
+  const yesterday = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString().split('T')[0]
+  if (trades.length === 0 || trades[0].date > yesterday) {
+    return { created: 0, from: null, to: null }
+  }
+
+  const dates = listBusinessDays(trades[0].date, yesterday)
+  const values = buildBackfillSnapshots(trades, dates)
+
+  // 환율: 과거 환율 이력 → 없으면 현재 환율
+  const currentRates = new Map<string, number | null>()
+  for (const currency of new Set(values.map(v => v.currency))) {
+    if (currency === 'KRW') continue
+    const result = await fetchExchangeRate(currency, 'KRW')
+    currentRates.set(currency, result.success && result.rate > 0 ? result.rate : null)
+  }
+  const fxRateOn = (currency: string, date: string): number | null => {
+    if (currency === 'KRW') return 1
+    return getFxRateOnDate(`${currency}/KRW`, date)?.rate ?? currentRates.get(currency) ?? null
+  }
+
+  const rows: SnapshotRow[] = values.map(v => ({
+    ...v,
+    user_id: userId,
+    fx_rate: fxRateOn(v.currency, v.date),
+    source: 'BACKFILL'
+  }))
+
+  let created = 0
+  db.transaction(() => {
+    db.prepare("DELETE FROM portfolio_snapshots WHERE user_id = ? AND source = 'BACKFILL'").run(userId)
+    created = insertSnapshots(rows, false)
+  })()
+
+  return { created, from: dates[0] || null, to: dates[dates.length - 1] || null }
+}
+
+export async function getNetWorthHistory(userId: string, range: SnapshotRange): Promise<{ baseCurrency: string; points: NetWorthPoint[] }> {
+  const db = getDatabase()
+  const baseCurrency = getBaseCurrency()
+  const start = rangeStartDate(range, today())
+
+  const rows = db.prepare(`
+    SELECT date, currency, market_value, cost_basis, cash, dividends, fx_rate
+    FROM portfolio_snapshots
+    WHERE user_id = ? ${start ? 'AND date >= ?' : ''}
+    ORDER BY date ASC
+  `).all(...(start ? [userId, start] : [userId])) as SnapshotRow[]
+
+  let baseRateOn = (_date: string): number => 1
+  if (baseCurrency !== 'KRW') {
+    const current = await fetchExchangeRate(baseCurrency, 'KRW')
+    const fallback = current.success ? current.rate : 0
+    const cache = new Map<string, number>()
+    baseRateOn = (date: string): number => {
+      if (!cache.has(date)) cache.set(date, getFxRateOnDate(`${baseCurrency}/KRW`, date)?.rate ?? fallback)
+      return cache.get(date) as number
+    }
+  }
+
+  return { baseCurrency, points: buildNetWorthSeries(rows, baseRateOn) }
+}
+
+// 오늘 스냅샷이 없는 사용자만 기록 (주기 점검용)
+export async function recordDueSnapshots(): Promise<number> {
+  const db = getDatabase()
+  const users = db.prepare(`
+    SELECT u.id FROM users u
+    WHERE EXISTS (SELECT 1 FROM accounts a WHERE a.user_id = u.id)
+      AND NOT EXISTS (SELECT 1 FROM portfolio_snapshots s WHERE s.user_id = u.id AND s.date = ?)
+  `).all(today()) as Array<{ id: string }>
+
+  let recorded = 0
+  for (const user of users) {
+    try {
+      await recordPortfolioSnapshot(user.id)
+      recorded++
+    } catch (error) {
+      console.error(`[Snapshot] Failed to record snapshot for ${user.id}:`, error)
+    }
+  }
+  return recorded
+}
+
+// 앱 실행 중 주기적으로 당일 스냅샷 누락 여부 확인 (반환값으로 중지)
+export function startSnapshotScheduler(intervalMs: number = SNAPSHOT_CHECK_INTERVAL_MS): () => void {
+  const timer = setInterval(() => {
+    recordDueSnapshots().catch(error => console.error('[Snapshot] Scheduled check failed:', error))
+  }, intervalMs)
+  return () => clearInterval(timer)
+}
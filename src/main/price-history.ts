@@ -0,0 +1,320 @@
+/**
+ * Price History
+ * 종목별 일봉(종가, 가능하면 시가/고가/저가/거래량) 저장
+ * 시세 갱신 시 당일 시세 기록, 과거 이력은 시세 공급자 일봉 또는 로컬 CSV로 채우고
+ * 오프라인일 때는 저장된 종가·체결가로 대체값 생성
+ */
+
+import * as fs from 'fs'
+import { getDatabase } from './database'
+import { DailyBar, DailyClose, StockPriceResult } from './market-data-api'
+import { classifyMarket, fetchHistoryFromProviders } from './market-data-providers'
+import { normalizeFxDate, listBusinessDays, buildStandInRates } from './fx-history'
+import { closeOnOrBefore } from './benchmarks'
+import { windowBaseDate } from './performance'
+import { findSecurity } from './securities'
+
+// ===== 타입 정의 =====
+export type PriceSource = 'API' | 'CSV' | 'STANDIN'
+
+export interface PriceBar {
+  date: string            // YYYY-MM-DD
+  open: number | null
+  high: number | null
+  low: number | null
+  close: number
+  volume: number | null
+  source: PriceSource
+}
+
+export interface PriceHistoryResult {
+  success: boolean
+  stock_code: string
+  saved: number
+  standIn: number
+  provider?: string             // 시세 공급자 id, 'CSV' 또는 'STANDIN'
+  error?: string
+}
+
+export interface PriceCoverage {
+  count: number
+  first_date: string | null
+  last_date: string | null
+  stand_in: number
+}
+
+export interface PriceMarker {
+  id: string
+  date: string
+  type: 'BUY' | 'SELL' | 'DIVIDEND'
+  quantity: number
+  price: number
+  total_amount: number
+  account_id: string
+  chart_price: number | null   // 차트 표시 위치 (매수/매도 체결가, 배당은 당일 종가)
+}
+
+export interface PriceChart {
+  stock_code: string
+  stock_name: string
+  currency: string
+  bars: PriceBar[]
+  markers: PriceMarker[]
+  coverage: PriceCoverage
+}
+
+// ===== 이력 계산 (순수 함수) =====
+
+function parseNumber(value: string | undefined): number | null {
+  if (value === undefined) return null
+  const parsed = parseFloat(value.replace(/,/g, ''))
+  return isNaN(parsed) ? null : parsed
+}
+
+// "날짜,종가" 또는 "날짜,시가,고가,저가,종가[,거래량]" (헤더/따옴표/천단위 콤마 허용)
+export function parsePriceCsv(content: string): DailyBar[] {
+  const bars = new Map<string, DailyBar>()
+
+  for (const line of content.split(/\r?\n/)) {
+    if (!line.trim()) continue
+
+    const cells = line
+      .split(/,(?=(?:[^"]*"[^"]*")*[^"]*$)/)
+      .map(cell => cell.replace(/^"|"$/g, '').trim())
+    if (cells.length < 2) continue
+
+    const date = normalizeFxDate(cells[0])
+    if (!date) continue
+
+    const ohlc = cells.length >= 5
+    const close = parseNumber(ohlc ? cells[4] : cells[1])
+    if (close === null || close <= 0) continue
+
+    bars.set(date, ohlc
+      ? {
+        date,
+        close,
+        open: parseNumber(cells[1]) || undefined,
+        high: parseNumber(cells[2]) || undefined,
+        low: parseNumber(cells[3]) || undefined,
+        volume: parseNumber(cells[5]) ?? undefined
+      }
+      : { date, close })
+  }
+
+  return [...bars.values()].sort((a, b) => a.date.localeCompare(b.date))
+}
+
+// 조회 결과 → 시세 기준일 일봉
+export function quoteToBar(result: StockPriceResult, today: string): DailyBar | null {
+  if (!result.success || !(result.currentPrice > 0)) return null
+  return {
+    date: result.tradeDate || today,
+    close: result.currentPrice,
+    open: result.open,
+    high: result.high,
+    low: result.low,
+    volume: result.volume
+  }
+}
+
+// 오프라인 대체 일봉: 체결가는 해당일 종가로, 나머지 영업일은 직전(없으면 최초) 알려진 종가로 채움
+export function buildStandInPrices(
+  known: DailyClose[],
+  tradePrices: DailyClose[],
+  days: string[],
+  fallbackClose: number | null
+): DailyClose[] {
+  const dayset = new Set(days)
+  const knownDates = new Set(known.map(c => c.date))
+  const anchors = new Map<string, number>()
+  for (const t of tradePrices) {
+    if (t.close > 0 && !knownDates.has(t.date)) anchors.set(t.date, t.close)
+  }
+
+  const filled = buildStandInRates(
+    [...known, ...[...anchors].map(([date, close]) => ({ date, close }))].map(c => ({ date: c.date, rate: c.close })),
+    days,
+    fallbackClose
+  ).map(r => ({ date: r.date, close: r.rate }))
+
+  return [
+    ...[...anchors].filter(([date]) => dayset.has(date)).map(([date, close]) => ({ date, close })),
+    ...filled
+  ].sort((a, b) => a.date.localeCompare(b.date))
+}
+
+// 매매/배당 표시 위치: 매수·매도는 체결가, 배당은 당일(없으면 직전) 종가
+export function placeMarkers(bars: DailyClose[], markers: Array<Omit<PriceMarker, 'chart_price'>>): PriceMarker[] {
+  return markers.map(m => ({
+    ...m,
+    chart_price: m.type === 'DIVIDEND' || !(m.price > 0) ? closeOnOrBefore(bars, m.date) : m.price
+  }))
+}
+
+// ===== DB 연동 =====
+
+// STANDIN 값은 실제 값(API/CSV)을 덮어쓰지 않음, 시가/고가/저가가 없는 갱신은 기존 값 유지
+export function savePriceHistory(stockCode: string, bars: DailyBar[], source: PriceSource): number {
+  const db = getDatabase()
+  const stmt = db.prepare(`
+    INSERT INTO price_history (stock_code, date, open, high, low, close, volume, source)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT(stock_code, date) DO UPDATE SET
+      open = COALESCE(excluded.open, price_history.open),
+      high = COALESCE(excluded.high, price_history.high),
+      low = COALESCE(excluded.low, price_history.low),
+      close = excluded.close,
+      volume = COALESCE(excluded.volume, price_history.volume),
+      source = excluded.source,
+      updated_at = datetime('now')
+    WHERE excluded.source != 'STANDIN' OR price_history.source = 'STANDIN'
+  `)
+
+  let saved = 0
+  db.transaction(() => {
+    for (const b of bars) {
+      saved += stmt.run(stockCode, b.date, b.open ?? null, b.high ?? null, b.low ?? null, b.close, b.volume ?? null, source).changes
+    }
+  })()
+  return saved
+}
+
+// 시세 갱신 결과를 당일 일봉으로 기록 (실패해도 시세 갱신은 계속)
+export function recordQuotes(results: StockPriceResult[]): number {
+  const today = new Date().toISOString().split('T')[0]
+  let saved = 0
+  try {
+    for (const result of results) {
+      const bar = quoteToBar(result, today)
+      if (bar) saved += savePriceHistory(result.stockCode, [bar], 'API')
+    }
+  } catch (error) {
+    console.error('Failed to record price history:', error)
+  }
+  return saved
+}
+
+export function getPriceHistory(stockCode: string, startDate?: string): PriceBar[] {
+  const db = getDatabase()
+  return db.prepare(`
+    SELECT date, open, high, low, close, volume, source FROM price_history
+    WHERE stock_code = ? AND date >= ?
+    ORDER BY date ASC
+  `).all(stockCode, startDate || '') as PriceBar[]
+}
+
+export function getPriceCoverage(stockCode: string): PriceCoverage {
+  const db = getDatabase()
+  const row = db.prepare(`
+    SELECT COUNT(*) as count, MIN(date) as first_date, MAX(date) as last_date,
+           SUM(CASE WHEN source = 'STANDIN' THEN 1 ELSE 0 END) as stand_in
+    FROM price_history WHERE stock_code = ?
+  `).get(stockCode) as { count: number; first_date: string | null; last_date: string | null; stand_in: number | null }
+  return { ...row, stand_in: row.stand_in || 0 }
+}
+
+// 오프라인 경로: 저장된 실제 종가 + 매수/매도 체결가 + 보유종목 현재가로 대체값 생성
+function saveStandInPrices(stockCode: string, startDate: string, endDate: string): number {
+  const db = getDatabase()
+  const known = db.prepare(`
+    SELECT date, close FROM price_history
+    WHERE stock_code = ? AND source != 'STANDIN'
+    ORDER BY date
+  `).all(stockCode) as DailyClose[]
+  const tradePrices = db.prepare(`
+    SELECT date, price as close FROM transactions
+    WHERE stock_code = ? AND type IN ('BUY', 'SELL') AND price > 0
+    ORDER BY date, created_at
+  `).all(stockCode) as DailyClose[]
+  const current = db.prepare(`
+    SELECT current_price FROM priced_holdings WHERE stock_code = ? AND current_price > 0 LIMIT 1
+  `).get(stockCode) as { current_price: number } | undefined
+
+  const standIns = buildStandInPrices(known, tradePrices, listBusinessDays(startDate, endDate), current?.current_price ?? null)
+  return savePriceHistory(stockCode, standIns, 'STANDIN')
+}
+
+// 시작일 미지정 시 해당 종목 첫 거래일부터 (거래가 없으면 1년 전부터)
+export async function backfillPriceHistory(stockCode: string, startDate?: string): Promise<PriceHistoryResult> {
+  const db = getDatabase()
+  const endDate = new Date().toISOString().split('T')[0]
+  const holding = db.prepare(`
+    SELECT stock_name, currency FROM holdings WHERE stock_code = ?
+    UNION ALL
+    SELECT stock_name, currency FROM transactions WHERE stock_code = ?
+    LIMIT 1
+  `).get(stockCode, stockCode) as { stock_name: string; currency: string } | undefined
+  const start = startDate ||
+    (db.prepare('SELECT MIN(date) as first_date FROM transactions WHERE stock_code = ?').get(stockCode) as { first_date: string | null }).first_date ||
+    windowBaseDate('1Y', endDate) as string
+
+  // 시세 조회 제외 종목·분류 불가 종목은 바로 대체값
+  const security = findSecurity({ code: stockCode, name: holding?.stock_name })
+  const market = classifyMarket(stockCode, holding?.stock_name, holding?.currency, security)
+  let errors: string[] = []
+
+  if (market && (!security || security.quote_enabled)) {
+    const request = { stockCode, stockName: holding?.stock_name, currency: holding?.currency, market, security }
+    const fetched = await fetchHistoryFromProviders(request, start, endDate)
+    if (fetched.provider) {
+      return { success: true, stock_code: stockCode, saved: savePriceHistory(stockCode, fetched.bars, 'API'), standIn: 0, provider: fetched.provider }
+    }
+    errors = fetched.errors
+  }
+
+  const saved = saveStandInPrices(stockCode, start, endDate)
+  return {
+    success: saved > 0 || getPriceCoverage(stockCode).count > 0,
+    stock_code: stockCode,
+    saved,
+    standIn: saved,
+    provider: 'STANDIN',
+    error: `Offline stand-in used: ${errors.length > 0 ? errors.join(', ') : '조회 가능한 시세 심볼이 없습니다'}`
+  }
+}
+
+export function importPriceCsvFile(filePath: string, stockCode: string): PriceHistoryResult {
+  try {
+    if (!stockCode.trim()) {
+      throw new Error('종목코드를 선택해주세요')
+    }
+    const bars = parsePriceCsv(fs.readFileSync(filePath, 'utf-8'))
+    if (bars.length === 0) {
+      return { success: false, stock_code: stockCode, saved: 0, standIn: 0, error: '유효한 시세 데이터가 없습니다' }
+    }
+    return { success: true, stock_code: stockCode, saved: savePriceHistory(stockCode, bars, 'CSV'), standIn: 0, provider: 'CSV' }
+  } catch (error) {
+    return { success: false, stock_code: stockCode, saved: 0, standIn: 0, error: error instanceof Error ? error.message : 'Unknown error' }
+  }
+}
+
+// 종목 차트: 일봉 + 우리 매수/매도/배당 거래 (userId null = 가족 전체)
+export function getPriceChart(stockCode: string, userId: string | null, startDate?: string): PriceChart {
+  const db = getDatabase()
+  const bars = getPriceHistory(stockCode, startDate)
+  const info = db.prepare(`
+    SELECT MAX(stock_name) as stock_name, MAX(currency) as currency FROM (
+      SELECT stock_name, currency FROM holdings WHERE stock_code = ?
+      UNION ALL
+      SELECT stock_name, currency FROM transactions WHERE stock_code = ?
+    )
+  `).get(stockCode, stockCode) as { stock_name: string | null; currency: string | null }
+  const transactions = db.prepare(`
+    SELECT t.id, t.date, t.type, t.quantity, t.price, t.total_amount, t.account_id
+    FROM transactions t
+    JOIN accounts a ON t.account_id = a.id
+    WHERE t.stock_code = ? AND t.type IN ('BUY', 'SELL', 'DIVIDEND')
+      AND (? IS NULL OR a.user_id = ?) AND t.date >= ?
+    ORDER BY t.date, t.created_at
+  `).all(stockCode, userId, userId, startDate || '') as Array<Omit<PriceMarker, 'chart_price'>>
+
+  return {
+    stock_code: stockCode,
+    stock_name: info.stock_name || stockCode,
+    currency: info.currency || 'KRW',
+    bars,
+    markers: placeMarkers(bars, transactions),
+    coverage: getPriceCoverage(stockCode)
+  }
+}
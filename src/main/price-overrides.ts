@@ -0,0 +1,109 @@
+/**
+ * Price Overrides
+ * 비상장·시세 조회 불가 종목의 수동 시세 (평가일, 메모, 만료일)
+ * 유효한 수동 시세가 있으면 보유종목 평가에 우선 적용하고 시세 갱신 대상에서 제외
+ */
+
+import { getDatabase } from './database'
+import { instrumentCodeOf } from './quotes'
+
+// ===== 타입 정의 =====
+export interface PriceOverride {
+  instrument_code: string
+  price: number
+  currency: string
+  valuation_date: string        // 평가 기준일 (YYYY-MM-DD)
+  note: string | null
+  expires_at: string | null     // 만료일 (해당 일자까지 유효, 없으면 무기한)
+  updated_at: string
+}
+
+export interface PriceOverrideInput {
+  stock_code: string            // 보유종목 코드 (표준 코드로 해석해 저장)
+  price: number
+  currency: string
+  valuation_date: string
+  note?: string | null
+  expires_at?: string | null
+}
+
+export interface PriceOverrideWithStatus extends PriceOverride {
+  active: boolean
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+// ===== 검증 (순수 함수) =====
+
+export function validateOverride(input: PriceOverrideInput): void {
+  if (!input.stock_code?.trim()) {
+    throw new Error('종목코드가 필요합니다')
+  }
+  if (!Number.isFinite(input.price) || input.price <= 0) {
+    throw new Error('수동 시세는 0보다 커야 합니다')
+  }
+  if (!DATE_PATTERN.test(input.valuation_date) || isNaN(Date.parse(input.valuation_date))) {
+    throw new Error('평가일은 YYYY-MM-DD 형식이어야 합니다')
+  }
+  if (input.expires_at) {
+    if (!DATE_PATTERN.test(input.expires_at) || isNaN(Date.parse(input.expires_at))) {
+      throw new Error('만료일은 YYYY-MM-DD 형식이어야 합니다')
+    }
+    if (input.expires_at < input.valuation_date) {
+      throw new Error('만료일은 평가일 이후여야 합니다')
+    }
+  }
+}
+
+export function isOverrideActive(override: Pick<PriceOverride, 'expires_at'>, today: string): boolean {
+  return !override.expires_at || override.expires_at >= today
+}
+
+// ===== DB 연동 =====
+
+function localToday(): string {
+  const now = new Date()
+  return new Date(now.getTime() - now.getTimezoneOffset() * 60 * 1000).toISOString().split('T')[0]
+}
+
+export function getPriceOverrides(): PriceOverrideWithStatus[] {
+  const db = getDatabase()
+  const rows = db.prepare(`
+    SELECT instrument_code, price, currency, valuation_date, note, expires_at, updated_at
+    FROM price_overrides
+    ORDER BY instrument_code
+  `).all() as PriceOverride[]
+
+  const today = localToday()
+  return rows.map(row => ({ ...row, active: isOverrideActive(row, today) }))
+}
+
+// 시세 갱신에서 제외할 종목 (유효한 수동 시세)
+export function getActiveOverrideCodes(): Set<string> {
+  return new Set(getPriceOverrides().filter(o => o.active).map(o => o.instrument_code))
+}
+
+export function setPriceOverride(input: PriceOverrideInput): PriceOverride {
+  validateOverride(input)
+
+  const db = getDatabase()
+  const instrumentCode = instrumentCodeOf(input.stock_code.trim())
+  db.prepare(`
+    INSERT INTO price_overrides (instrument_code, price, currency, valuation_date, note, expires_at, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?, datetime('now'))
+    ON CONFLICT(instrument_code) DO UPDATE SET
+      price = excluded.price,
+      currency = excluded.currency,
+      valuation_date = excluded.valuation_date,
+      note = excluded.note,
+      expires_at = excluded.expires_at,
+      updated_at = excluded.updated_at
+  `).run(instrumentCode, input.price, input.currency, input.valuation_date, input.note?.trim() || null, input.expires_at || null)
+
+  return db.prepare('SELECT * FROM price_overrides WHERE instrument_code = ?').get(instrumentCode) as PriceOverride
+}
+
+export function deletePriceOverride(instrumentCode: string): boolean {
+  const db = getDatabase()
+  return db.prepare('DELETE FROM price_overrides WHERE instrument_code = ?').run(instrumentCode).changes > 0
+}
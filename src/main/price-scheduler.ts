@@ -0,0 +1,420 @@
+/**
+ * Price Refresh Scheduler
+ * 거래소 개장 시간·휴장일에 맞춰 보유종목 시세를 백그라운드로 갱신
+ * 하루 호출 예산(기본 4회)을 거래소별로 나눠 장중/장마감 후 슬롯에 실행하고, 갱신 결과는 렌더러로 이벤트 전송
+ */
+
+import { v4 as uuidv4 } from 'uuid'
+import { getDatabase, getSetting, setSetting } from './database'
+import { BulkPriceResult, holdingMarket, updateAllHoldingPrices } from './market-data-api'
+import { ProviderMarket } from './market-data-providers'
+import { recordPortfolioSnapshot } from './portfolio-snapshots'
+import { getQuoteTargets } from './quotes'
+
+// ===== 타입 정의 =====
+export type ExchangeCode = 'KRX' | 'NYSE'
+export type RefreshTrigger = 'SCHEDULED' | 'MANUAL'
+
+export interface ExchangeSession {
+  code: ExchangeCode
+  name: string
+  timeZone: string
+  open: number          // 현지 시각 (자정 기준 분)
+  close: number
+  market: ProviderMarket
+}
+
+export interface ZonedParts {
+  date: string          // 현지 날짜 (YYYY-MM-DD)
+  minutes: number       // 현지 시각 (자정 기준 분)
+  weekday: number       // 0 = 일요일
+}
+
+export interface MarketHoliday {
+  exchange: ExchangeCode
+  date: string
+  name: string | null
+  builtin: boolean
+}
+
+export interface RefreshConfig {
+  enabled: boolean
+  dailyBudget: number   // 하루 최대 갱신 횟수 (수동 새로고침 포함)
+}
+
+export interface PriceUpdateEvent {
+  exchange: ExchangeCode | 'ALL'
+  trigger: RefreshTrigger
+  updated: number
+  failed: number
+  ran_at: string
+}
+
+export interface ExchangeStatus {
+  code: ExchangeCode
+  name: string
+  active: boolean       // 해당 시장 보유종목 존재 여부
+  open: boolean
+  holiday: string | null
+  runs_per_day: number
+  last_run: string | null
+  next_run: string | null
+}
+
+export interface SchedulerStatus {
+  enabled: boolean
+  daily_budget: number
+  runs_today: number
+  running: boolean
+  exchanges: ExchangeStatus[]
+}
+
+export const EXCHANGES: Record<ExchangeCode, ExchangeSession> = {
+  KRX: { code: 'KRX', name: '한국거래소', timeZone: 'Asia/Seoul', open: 9 * 60, close: 15 * 60 + 30, market: 'KR' },
+  NYSE: { code: 'NYSE', name: '뉴욕증권거래소', timeZone: 'America/New_York', open: 9 * 60 + 30, close: 16 * 60, market: 'US' }
+}
+
+// 거래소 공지 기준 휴장일 (주말 제외, 이후 연도·임시 휴장일은 설정에서 추가)
+const BUILTIN_HOLIDAYS: Record<ExchangeCode, string[]> = {
+  KRX: [
+    '2025-01-01', '2025-01-27', '2025-01-28', '2025-01-29', '2025-01-30', '2025-03-03', '2025-05-01',
+    '2025-05-05', '2025-05-06', '2025-06-03', '2025-06-06', '2025-08-15', '2025-10-03', '2025-10-06',
+    '2025-10-07', '2025-10-08', '2025-10-09', '2025-12-25', '2025-12-31',
+    '2026-01-01', '2026-02-16', '2026-02-17', '2026-02-18', '2026-03-02', '2026-05-01', '2026-05-05',
+    '2026-05-25', '2026-06-03', '2026-08-17', '2026-09-24', '2026-09-25', '2026-10-05', '2026-10-09',
+    '2026-12-25', '2026-12-31',
+    '2027-01-01', '2027-02-08', '2027-02-09', '2027-03-01', '2027-05-05', '2027-05-13', '2027-08-16',
+    '2027-09-14', '2027-09-15', '2027-09-16', '2027-10-04', '2027-10-11', '2027-12-27', '2027-12-31'
+  ],
+  NYSE: [
+    '2025-01-01', '2025-01-09', '2025-01-20', '2025-02-17', '2025-04-18', '2025-05-26', '2025-06-19',
+    '2025-07-04', '2025-09-01', '2025-11-27', '2025-12-25',
+    '2026-01-01', '2026-01-19', '2026-02-16', '2026-04-03', '2026-05-25', '2026-06-19', '2026-07-03',
+    '2026-09-07', '2026-11-26', '2026-12-25',
+    '2027-01-01', '2027-01-18', '2027-02-15', '2027-03-26', '2027-05-31', '2027-06-18', '2027-07-05',
+    '2027-09-06', '2027-11-25', '2027-12-24'
+  ]
+}
+
+const ENABLED_SETTING = 'price_refresh_enabled'
+const BUDGET_SETTING = 'price_refresh_daily_budget'
+const DEFAULT_DAILY_BUDGET = 4
+const MAX_DAILY_BUDGET = 100
+const POST_CLOSE_DELAY_MIN = 10       // 장 마감 후 종가 확정 대기
+const LOOKBACK_DAYS = 7
+const CHECK_INTERVAL_MS = 60 * 1000
+const INITIAL_DELAY_MS = 15 * 1000
+
+let running = false
+
+// ===== 시간대 계산 (순수 함수) =====
+
+const formatters = new Map<string, Intl.DateTimeFormat>()
+
+function formatterFor(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit'
+    })
+    formatters.set(timeZone, formatter)
+  }
+  return formatter
+}
+
+function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`)
+  d.setUTCDate(d.getUTCDate() + days)
+  return d.toISOString().split('T')[0]
+}
+
+export function zonedParts(instant: Date, timeZone: string): ZonedParts {
+  const parts: Record<string, string> = {}
+  for (const part of formatterFor(timeZone).formatToParts(instant)) {
+    parts[part.type] = part.value
+  }
+  const date = `${parts.year}-${parts.month}-${parts.day}`
+  return {
+    date,
+    minutes: Number(parts.hour) * 60 + Number(parts.minute),
+    weekday: new Date(`${date}T00:00:00Z`).getUTCDay()
+  }
+}
+
+// 현지 날짜·시각 → UTC 시점 (서머타임 전환일 보정을 위해 오프셋을 두 번 계산)
+export function zonedTimeToInstant(date: string, minutes: number, timeZone: string): Date {
+  const wallClock = Date.parse(`${date}T00:00:00Z`) + minutes * 60 * 1000
+  const offsetAt = (instant: number): number => {
+    const parts = zonedParts(new Date(instant), timeZone)
+    return Date.parse(`${parts.date}T00:00:00Z`) + parts.minutes * 60 * 1000 - instant
+  }
+
+  let instant = wallClock - offsetAt(wallClock)
+  instant = wallClock - offsetAt(instant)
+  return new Date(instant)
+}
+
+export function isTradingDay(date: string, holidays: Set<string>): boolean {
+  const weekday = new Date(`${date}T00:00:00Z`).getUTCDay()
+  return weekday !== 0 && weekday !== 6 && !holidays.has(date)
+}
+
+// 하루 갱신 슬롯 (현지 분): 장중 균등 분할 + 장 마감 후 1회 (runs = 1이면 장 마감 후만)
+export function sessionSlots(open: number, close: number, runs: number): number[] {
+  const slots: number[] = []
+  for (let k = 1; k < runs; k++) {
+    slots.push(Math.round(open + ((close - open) * k) / runs))
+  }
+  slots.push(close + POST_CLOSE_DELAY_MIN)
+  return slots
+}
+
+function slotsOn(session: ExchangeSession, date: string, runs: number): Date[] {
+  return sessionSlots(session.open, session.close, runs).map(m => zonedTimeToInstant(date, m, session.timeZone))
+}
+
+// 현재 시점 이전의 가장 최근 슬롯 (휴장일·주말 건너뜀)
+export function latestDueSlot(session: ExchangeSession, holidays: Set<string>, runs: number, now: Date): Date | null {
+  const today = zonedParts(now, session.timeZone).date
+  for (let i = 0; i <= LOOKBACK_DAYS; i++) {
+    const date = addDays(today, -i)
+    if (!isTradingDay(date, holidays)) continue
+    const due = slotsOn(session, date, runs).filter(slot => slot <= now)
+    if (due.length > 0) return due[due.length - 1]
+  }
+  return null
+}
+
+export function nextSlot(session: ExchangeSession, holidays: Set<string>, runs: number, now: Date): Date | null {
+  const today = zonedParts(now, session.timeZone).date
+  for (let i = 0; i <= LOOKBACK_DAYS * 2; i++) {
+    const date = addDays(today, i)
+    if (!isTradingDay(date, holidays)) continue
+    const upcoming = slotsOn(session, date, runs).find(slot => slot > now)
+    if (upcoming) return upcoming
+  }
+  return null
+}
+
+export function isSessionOpen(session: ExchangeSession, holidays: Set<string>, now: Date): boolean {
+  const { date, minutes } = zonedParts(now, session.timeZone)
+  return isTradingDay(date, holidays) && minutes >= session.open && minutes < session.close
+}
+
+// 하루 예산을 보유종목이 있는 거래소끼리 균등 분배 (거래소당 최소 1회)
+export function allocateRuns(dailyBudget: number, activeCount: number): number {
+  if (activeCount <= 0) return 0
+  return Math.max(1, Math.floor(dailyBudget / activeCount))
+}
+
+// ===== DB 연동 =====
+
+// 예산 집계 기준일 (한국 시간)
+function budgetDate(now: Date = new Date()): string {
+  return zonedParts(now, EXCHANGES.KRX.timeZone).date
+}
+
+export function getRefreshConfig(): RefreshConfig {
+  const budget = Number(getSetting(BUDGET_SETTING))
+  return {
+    enabled: getSetting(ENABLED_SETTING) !== '0',
+    dailyBudget: Number.isInteger(budget) && budget > 0 ? budget : DEFAULT_DAILY_BUDGET
+  }
+}
+
+export function setRefreshConfig(config: Partial<RefreshConfig>): RefreshConfig {
+  if (config.dailyBudget !== undefined) {
+    if (!Number.isInteger(config.dailyBudget) || config.dailyBudget < 1 || config.dailyBudget > MAX_DAILY_BUDGET) {
+      throw new Error(`하루 갱신 횟수는 1~${MAX_DAILY_BUDGET} 사이 정수여야 합니다`)
+    }
+    setSetting(BUDGET_SETTING, String(config.dailyBudget))
+  }
+  if (config.enabled !== undefined) {
+    setSetting(ENABLED_SETTING, config.enabled ? '1' : '0')
+  }
+  return getRefreshConfig()
+}
+
+export function getHolidays(exchange: ExchangeCode): MarketHoliday[] {
+  const db = getDatabase()
+  const custom = db.prepare(`
+    SELECT exchange, date, name FROM market_holidays WHERE exchange = ?
+  `).all(exchange) as Array<{ exchange: ExchangeCode; date: string; name: string | null }>
+
+  const customDates = new Set(custom.map(h => h.date))
+  const builtin = BUILTIN_HOLIDAYS[exchange]
+    .filter(date => !customDates.has(date))
+    .map(date => ({ exchange, date, name: null, builtin: true }))
+
+  return [...builtin, ...custom.map(h => ({ ...h, builtin: false }))]
+    .sort((a, b) => a.date.localeCompare(b.date))
+}
+
+function holidaySet(exchange: ExchangeCode): Set<string> {
+  return new Set(getHolidays(exchange).map(h => h.date))
+}
+
+export function addHoliday(exchange: ExchangeCode, date: string, name: string | null): void {
+  if (!EXCHANGES[exchange]) {
+    throw new Error(`알 수 없는 거래소: ${exchange}`)
+  }
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || isNaN(Date.parse(date))) {
+    throw new Error('휴장일은 YYYY-MM-DD 형식이어야 합니다')
+  }
+  const db = getDatabase()
+  db.prepare(`
+    INSERT INTO market_holidays (exchange, date, name) VALUES (?, ?, ?)
+    ON CONFLICT(exchange, date) DO UPDATE SET name = excluded.name
+  `).run(exchange, date, name?.trim() || null)
+}
+
+export function deleteHoliday(exchange: ExchangeCode, date: string): void {
+  const db = getDatabase()
+  db.prepare('DELETE FROM market_holidays WHERE exchange = ? AND date = ?').run(exchange, date)
+}
+
+export function logRefreshRun(exchange: ExchangeCode | 'ALL', trigger: RefreshTrigger, result: BulkPriceResult): PriceUpdateEvent {
+  const db = getDatabase()
+  const now = new Date()
+  const event: PriceUpdateEvent = {
+    exchange,
+    trigger,
+    updated: result.updated,
+    failed: result.failed,
+    ran_at: now.toISOString()
+  }
+  db.prepare(`
+    INSERT INTO price_refresh_runs (id, exchange, trigger, run_date, ran_at, updated, failed)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `).run(uuidv4(), exchange, trigger, budgetDate(now), event.ran_at, event.updated, event.failed)
+  return event
+}
+
+function getRunsToday(now: Date): number {
+  const db = getDatabase()
+  const row = db.prepare('SELECT COUNT(*) AS count FROM price_refresh_runs WHERE run_date = ?')
+    .get(budgetDate(now)) as { count: number }
+  return row.count
+}
+
+// 해당 거래소의 마지막 갱신 시각 (수동 전체 갱신 포함)
+function getLastRunAt(exchange: ExchangeCode): string | null {
+  const db = getDatabase()
+  const row = db.prepare(`
+    SELECT MAX(ran_at) AS ran_at FROM price_refresh_runs WHERE exchange IN (?, 'ALL')
+  `).get(exchange) as { ran_at: string | null }
+  return row.ran_at
+}
+
+// 보유종목이 있는 거래소 (가족 전체 기준)
+function activeExchanges(): ExchangeCode[] {
+  const markets = new Set(getQuoteTargets(null).map(h => holdingMarket(h.instrument_code, h.stock_name, h.currency)))
+  return (Object.keys(EXCHANGES) as ExchangeCode[]).filter(code => markets.has(EXCHANGES[code].market))
+}
+
+export function getSchedulerStatus(now: Date = new Date()): SchedulerStatus {
+  const config = getRefreshConfig()
+  const active = activeExchanges()
+  const runs = allocateRuns(config.dailyBudget, active.length)
+
+  const exchanges = (Object.values(EXCHANGES)).map(session => {
+    const holidays = getHolidays(session.code)
+    const today = zonedParts(now, session.timeZone).date
+    const holiday = holidays.find(h => h.date === today)
+    const dates = new Set(holidays.map(h => h.date))
+    const isActive = active.includes(session.code)
+    const next = config.enabled && isActive ? nextSlot(session, dates, runs, now) : null
+
+    return {
+      code: session.code,
+      name: session.name,
+      active: isActive,
+      open: isSessionOpen(session, dates, now),
+      holiday: holiday ? (holiday.name || '휴장일') : null,
+      runs_per_day: isActive ? runs : 0,
+      last_run: getLastRunAt(session.code),
+      next_run: next ? next.toISOString() : null
+    }
+  })
+
+  return {
+    enabled: config.enabled,
+    daily_budget: config.dailyBudget,
+    runs_today: getRunsToday(now),
+    running,
+    exchanges
+  }
+}
+
+// 갱신된 시세로 가족 구성원별 당일 순자산 스냅샷 기록
+async function recordSnapshotsAfterRefresh(): Promise<void> {
+  const db = getDatabase()
+  const users = db.prepare(`
+    SELECT u.id FROM users u WHERE EXISTS (SELECT 1 FROM accounts a WHERE a.user_id = u.id)
+  `).all() as Array<{ id: string }>
+
+  for (const user of users) {
+    try {
+      await recordPortfolioSnapshot(user.id)
+    } catch (error) {
+      console.error(`[PriceScheduler] Failed to record snapshot for ${user.id}:`, error)
+    }
+  }
+}
+
+// 예산 안에서 슬롯이 돌아온 거래소 시세 갱신 (실행한 갱신 결과 반환)
+export async function checkDueRefreshes(onUpdate?: (event: PriceUpdateEvent) => void, now: Date = new Date()): Promise<PriceUpdateEvent[]> {
+  const config = getRefreshConfig()
+  if (!config.enabled || running) return []
+
+  const active = activeExchanges()
+  const runs = allocateRuns(config.dailyBudget, active.length)
+  const events: PriceUpdateEvent[] = []
+
+  running = true
+  try {
+    for (const code of active) {
+      if (getRunsToday(now) >= config.dailyBudget) {
+        console.log('[PriceScheduler] Daily budget exhausted, skipping')
+        break
+      }
+
+      const due = latestDueSlot(EXCHANGES[code], holidaySet(code), runs, now)
+      const lastRun = getLastRunAt(code)
+      if (!due || (lastRun && Date.parse(lastRun) >= due.getTime())) continue
+
+      console.log(`[PriceScheduler] Refreshing ${code} holdings (slot ${due.toISOString()})`)
+      const result = await updateAllHoldingPrices(null, EXCHANGES[code].market)
+      const event = logRefreshRun(code, 'SCHEDULED', result)
+      await recordSnapshotsAfterRefresh()
+
+      events.push(event)
+      onUpdate?.(event)
+    }
+  } finally {
+    running = false
+  }
+  return events
+}
+
+// 앱 실행 중 1분마다 갱신 슬롯 확인 (반환값으로 중지)
+export function startPriceRefreshScheduler(
+  onUpdate: (event: PriceUpdateEvent) => void,
+  intervalMs: number = CHECK_INTERVAL_MS
+): () => void {
+  const check = (): void => {
+    checkDueRefreshes(onUpdate).catch(error => console.error('[PriceScheduler] Scheduled check failed:', error))
+  }
+  const initial = setTimeout(check, INITIAL_DELAY_MS)
+  const timer = setInterval(check, intervalMs)
+  return () => {
+    clearTimeout(initial)
+    clearInterval(timer)
+  }
+}
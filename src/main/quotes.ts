@@ -0,0 +1,93 @@
+/**
+ * Quotes
+ * 종목(표준 코드)별 최신 시세 - 가족 전체가 공유하며 보유종목은 priced_holdings 뷰로 조인
+ * 같은 종목을 여러 계좌·코드로 보유해도 한 번만 조회/저장
+ */
+
+import { getDatabase } from './database'
+import type { StockPriceResult } from './market-data-api'
+
+// ===== 타입 정의 =====
+export interface Quote {
+  instrument_code: string
+  price: number
+  prev_close: number | null
+  currency: string
+  source: string        // 시세 공급자 id (naver, yahoo, fixture ...)
+  as_of: string         // 시세 조회 시각 (ISO)
+}
+
+export interface QuoteTarget {
+  instrument_code: string
+  stock_name: string
+  currency: string
+}
+
+// ===== 시세 변환 (순수 함수) =====
+
+export function quoteFromResult(result: StockPriceResult): Quote | null {
+  if (!result.success || !(result.currentPrice > 0)) return null
+
+  const prevClose = result.prevClose || (result.currentPrice - (result.change || 0))
+  return {
+    instrument_code: result.stockCode,
+    price: result.currentPrice,
+    prev_close: prevClose > 0 ? prevClose : result.currentPrice,
+    currency: result.currency,
+    source: result.provider || 'API',
+    as_of: result.timestamp
+  }
+}
+
+// ===== DB 연동 =====
+
+export function saveQuotes(quotes: Quote[]): number {
+  if (quotes.length === 0) return 0
+  const db = getDatabase()
+  const upsert = db.prepare(`
+    INSERT INTO quotes (instrument_code, price, prev_close, currency, source, as_of, updated_at)
+    VALUES (@instrument_code, @price, @prev_close, @currency, @source, @as_of, datetime('now'))
+    ON CONFLICT(instrument_code) DO UPDATE SET
+      price = excluded.price,
+      prev_close = excluded.prev_close,
+      currency = excluded.currency,
+      source = excluded.source,
+      as_of = excluded.as_of,
+      updated_at = excluded.updated_at
+  `)
+
+  db.transaction(() => {
+    for (const quote of quotes) upsert.run(quote)
+  })()
+  return quotes.length
+}
+
+export function getQuote(instrumentCode: string): Quote | null {
+  const db = getDatabase()
+  const row = db.prepare(`
+    SELECT instrument_code, price, prev_close, currency, source, as_of FROM quotes WHERE instrument_code = ?
+  `).get(instrumentCode) as Quote | undefined
+  return row || null
+}
+
+// 시세를 조회할 종목 (userId null = 가족 전체, 표준 코드 기준 중복 제거)
+export function getQuoteTargets(userId: string | null): QuoteTarget[] {
+  const db = getDatabase()
+  return db.prepare(`
+    SELECT h.instrument_code, MAX(h.stock_name) AS stock_name, MAX(h.currency) AS currency
+    FROM priced_holdings h
+    JOIN accounts a ON h.account_id = a.id
+    WHERE ? IS NULL OR a.user_id = ?
+    GROUP BY h.instrument_code
+    ORDER BY h.instrument_code
+  `).all(userId, userId) as QuoteTarget[]
+}
+
+// 보유종목 코드 → 시세 키 (보유하지 않은 코드는 그대로)
+export function instrumentCodeOf(stockCode: string): string {
+  const db = getDatabase()
+  const row = db.prepare(`
+    SELECT instrument_code FROM priced_holdings WHERE stock_code = ? LIMIT 1
+  `).get(stockCode) as { instrument_code: string } | undefined
+  return row ? row.instrument_code : stockCode
+}
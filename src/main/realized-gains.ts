@@ -0,0 +1,212 @@
+/**
+ * Realized Gain/Loss Report
+ * tax_lot_matches(매도 ↔ 매수 lot 매칭) 기반 실현손익
+ * 연도별 / 계좌별 / 계좌유형별 / 종목별 집계 (거래일 환율로 기준통화 환산)
+ */
+
+import { getDatabase } from './database'
+import { fetchExchangeRate } from './market-data-api'
+import { getFxRateOnDate } from './fx-history'
+import { getBaseCurrency } from './valuation'
+
+// ===== 타입 정의 =====
+export interface RealizedMatchRecord {
+  id: string
+  sell_transaction_id: string
+  lot_id: string
+  account_id: string
+  brokerage: string
+  account_type: string
+  account_alias: string | null
+  stock_code: string
+  stock_name: string
+  currency: string
+  quantity: number
+  proceeds: number
+  cost_basis: number
+  fees: number
+  buy_fx_rate: number | null
+  sell_fx_rate: number | null
+  acquired_date: string
+  sold_date: string
+  method: string
+}
+
+export interface RealizedGainRow extends RealizedMatchRecord {
+  gain: number              // 원 통화 기준 (수수료/세금은 원가와 매도금액에 반영됨)
+  gain_percent: number
+  holding_days: number
+  proceeds_krw: number
+  cost_basis_krw: number
+  fees_krw: number
+  gain_krw: number
+  proceeds_base: number     // 기준통화 (매수 원가는 매수일, 매도 금액은 매도일 환율)
+  cost_basis_base: number
+  fees_base: number
+  gain_base: number
+  fx_estimated: boolean     // 거래일 환율이 없어 현재 환율로 추정
+}
+
+export interface RealizedGainGroup {
+  key: string
+  count: number
+  quantity: number
+  proceeds: number          // 이하 기준통화
+  cost_basis: number
+  fees: number
+  gain: number
+  gain_percent: number
+  avg_holding_days: number  // 수량 가중 평균 보유기간
+}
+
+export interface RealizedGainSummary {
+  totals: RealizedGainGroup
+  byYear: RealizedGainGroup[]
+  byAccount: RealizedGainGroup[]
+  byAccountType: RealizedGainGroup[]
+  byStock: RealizedGainGroup[]
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// ===== 계산 (순수 함수) =====
+
+export function holdingDays(acquiredDate: string, soldDate: string): number {
+  const diff = new Date(`${soldDate}T00:00:00Z`).getTime() - new Date(`${acquiredDate}T00:00:00Z`).getTime()
+  return Math.max(Math.round(diff / DAY_MS), 0)
+}
+
+// 외화: 매수 원가는 매수일 환율, 매도 금액/수수료는 매도일 환율로 원화 환산
+// 기준통화 환산도 같은 거래일 기준 (baseRateOn: 해당 일자의 1 기준통화 = ? KRW, KRW 기준이면 1)
+// 매수 비용은 cost_basis에, 매도 비용은 proceeds에 이미 반영되어 fees는 표시용
+export function toRealizedGainRow(
+  record: RealizedMatchRecord,
+  currentFxRate: number = 0,
+  baseRateOn: (date: string) => number = () => 1
+): RealizedGainRow {
+  const isKrw = !record.currency || record.currency === 'KRW'
+  const sellRate = isKrw ? 1 : (record.sell_fx_rate ?? record.buy_fx_rate ?? currentFxRate)
+  const buyRate = isKrw ? 1 : (record.buy_fx_rate ?? record.sell_fx_rate ?? currentFxRate)
+
+  const gain = record.proceeds - record.cost_basis
+  const proceedsKrw = record.proceeds * sellRate
+  const costKrw = record.cost_basis * buyRate
+  const feesKrw = record.fees * sellRate
+  const sellBaseRate = baseRateOn(record.sold_date)
+  const buyBaseRate = baseRateOn(record.acquired_date)
+  const baseMissing = !(sellBaseRate > 0) || !(buyBaseRate > 0)
+  const proceedsBase = baseMissing ? 0 : proceedsKrw / sellBaseRate
+  const costBase = baseMissing ? 0 : costKrw / buyBaseRate
+
+  return {
+    ...record,
+    gain,
+    gain_percent: record.cost_basis > 0 ? (gain / record.cost_basis) * 100 : 0,
+    holding_days: holdingDays(record.acquired_date, record.sold_date),
+    proceeds_krw: proceedsKrw,
+    cost_basis_krw: costKrw,
+    fees_krw: feesKrw,
+    gain_krw: proceedsKrw - costKrw,
+    proceeds_base: proceedsBase,
+    cost_basis_base: costBase,
+    fees_base: baseMissing ? 0 : feesKrw / sellBaseRate,
+    gain_base: proceedsBase - costBase,
+    // 기준통화 환율이 없으면 기준통화 금액은 0 (합계 제외)
+    fx_estimated: baseMissing || (!isKrw && (record.buy_fx_rate === null || record.sell_fx_rate === null))
+  }
+}
+
+function groupRows(rows: RealizedGainRow[], keyOf: (row: RealizedGainRow) => string): RealizedGainGroup[] {
+  const map = new Map<string, RealizedGainGroup & { weightedDays: number }>()
+
+  for (const row of rows) {
+    const key = keyOf(row)
+    const group = map.get(key) || {
+      key, count: 0, quantity: 0, proceeds: 0, cost_basis: 0, fees: 0, gain: 0, gain_percent: 0, avg_holding_days: 0, weightedDays: 0
+    }
+    group.count++
+    group.quantity += row.quantity
+    group.proceeds += row.proceeds_base
+    group.cost_basis += row.cost_basis_base
+    group.fees += row.fees_base
+    group.gain += row.gain_base
+    group.weightedDays += row.holding_days * row.quantity
+    map.set(key, group)
+  }
+
+  return [...map.values()].map(({ weightedDays, ...group }) => ({
+    ...group,
+    gain_percent: group.cost_basis > 0 ? (group.gain / group.cost_basis) * 100 : 0,
+    avg_holding_days: group.quantity > 0 ? weightedDays / group.quantity : 0
+  }))
+}
+
+export function summarizeRealizedGains(rows: RealizedGainRow[]): RealizedGainSummary {
+  const totals = groupRows(rows, () => 'TOTAL')[0] || {
+    key: 'TOTAL', count: 0, quantity: 0, proceeds: 0, cost_basis: 0, fees: 0, gain: 0, gain_percent: 0, avg_holding_days: 0
+  }
+
+  return {
+    totals,
+    byYear: groupRows(rows, r => r.sold_date.substring(0, 4)).sort((a, b) => b.key.localeCompare(a.key)),
+    byAccount: groupRows(rows, r => r.account_id).sort((a, b) => b.gain - a.gain),
+    byAccountType: groupRows(rows, r => r.account_type).sort((a, b) => b.gain - a.gain),
+    byStock: groupRows(rows, r => r.stock_code).sort((a, b) => b.gain - a.gain)
+  }
+}
+
+// ===== DB 조회 =====
+
+export async function getRealizedGains(userId: string, year?: number): Promise<{
+  baseCurrency: string
+  rows: RealizedGainRow[]
+  summary: RealizedGainSummary
+  years: number[]
+}> {
+  const db = getDatabase()
+
+  const records = db.prepare(`
+    SELECT
+      m.id, m.sell_transaction_id, m.lot_id, m.account_id,
+      a.brokerage, a.account_type, a.account_alias,
+      m.stock_code, l.stock_name, l.currency,
+      m.quantity, m.proceeds, m.cost_basis, m.fees,
+      m.buy_fx_rate, m.sell_fx_rate, m.acquired_date, m.sold_date, m.method
+    FROM tax_lot_matches m
+    JOIN tax_lots l ON m.lot_id = l.id
+    JOIN accounts a ON m.account_id = a.id
+    WHERE a.user_id = ?
+    ORDER BY m.sold_date DESC, m.id
+  `).all(userId) as RealizedMatchRecord[]
+
+  const years = [...new Set(records.map(r => parseInt(r.sold_date.substring(0, 4))))].sort((a, b) => b - a)
+  const filtered = year ? records.filter(r => r.sold_date.startsWith(String(year))) : records
+
+  // 거래일 환율이 없는 외화 매칭은 해당 통화의 현재 환율로 추정
+  const currentRates = new Map<string, number>()
+  const estimatedCurrencies = new Set(
+    filtered
+      .filter(r => r.currency && r.currency !== 'KRW' && (r.buy_fx_rate === null || r.sell_fx_rate === null))
+      .map(r => r.currency)
+  )
+  for (const currency of estimatedCurrencies) {
+    const fx = await fetchExchangeRate(currency, 'KRW')
+    currentRates.set(currency, fx.success ? fx.rate : 0)
+  }
+
+  // 기준통화가 KRW가 아니면 거래일의 기준통화/KRW 환율 (이력이 없으면 현재 환율)
+  const baseCurrency = getBaseCurrency()
+  let baseRateOn = (_date: string): number => 1
+  if (baseCurrency !== 'KRW' && filtered.length > 0) {
+    const current = await fetchExchangeRate(baseCurrency, 'KRW')
+    const fallback = current.success ? current.rate : 0
+    const cache = new Map<string, number>()
+    baseRateOn = (date: string): number => {
+      if (!cache.has(date)) cache.set(date, getFxRateOnDate(`${baseCurrency}/KRW`, date)?.rate ?? fallback)
+      return cache.get(date) as number
+    }
+  }
+
+  const rows = filtered.map(r => toRealizedGainRow(r, currentRates.get(r.currency) ?? 0, baseRateOn))
+  return { baseCurrency, rows, summary: summarizeRealizedGains(rows), years }
+}
@@ -0,0 +1,380 @@
+/**
+ * Target Allocation & Rebalancing
+ * 자산군/지역/통화/종목별 목표 비중 설정, 현재 비중과의 차이(drift) 계산 및 매수·매도 계획 생성
+ * 계좌별 리밸런싱 정책(매도 허용/매수만/제외)을 지켜 과세계좌 매도를 피함
+ */
+
+import { v4 as uuidv4 } from 'uuid'
+import { getDatabase } from './database'
+import { getCashBalances } from './cash-ledger'
+import { loadFxTable, toBaseCurrency } from './valuation'
+import { accountLabel } from './performance'
+
+// ===== 타입 정의 =====
+export type AllocationDimension = 'ASSET_CLASS' | 'REGION' | 'CURRENCY' | 'STOCK'
+export type RebalancePolicy = 'AUTO' | 'FULL' | 'BUY_ONLY' | 'HOLD'
+
+export const ALLOCATION_DIMENSIONS: AllocationDimension[] = ['ASSET_CLASS', 'REGION', 'CURRENCY', 'STOCK']
+export const REBALANCE_POLICIES: RebalancePolicy[] = ['AUTO', 'FULL', 'BUY_ONLY', 'HOLD']
+
+// 예수금은 모든 기준에서 별도 항목으로 취급
+export const CASH_KEY = 'CASH'
+
+// 매도해도 과세되지 않는 계좌유형 (AUTO 정책에서 매도 허용)
+const TAX_ADVANTAGED_ACCOUNT_TYPES = ['PENSION', 'IRP', 'ISA']
+
+export interface AllocationTarget {
+  key: string
+  weight: number              // 목표 비중 (%)
+}
+
+export interface ClassifiableHolding {
+  stock_code: string
+  stock_name: string
+  currency: string
+}
+
+export interface RebalanceAccount {
+  id: string
+  label: string
+  policy: Exclude<RebalancePolicy, 'AUTO'>
+  cash: number                // 예수금 (기준통화 환산)
+}
+
+export interface RebalancePosition extends ClassifiableHolding {
+  account_id: string
+  quantity: number
+  price: number               // 현재가 (원 통화)
+  price_base: number          // 현재가 (기준통화 환산)
+}
+
+export interface AllocationDrift {
+  key: string
+  current_value: number
+  current_weight: number      // %
+  target_weight: number       // % (목표 미설정 항목은 0)
+  target_value: number
+  drift: number               // 현재 - 목표 (%p)
+  delta: number               // 목표 도달에 필요한 금액 (양수: 매수, 음수: 매도)
+}
+
+export interface RebalanceTrade {
+  action: 'BUY' | 'SELL'
+  account_id: string
+  account_label: string
+  key: string
+  stock_code: string | null   // null: 해당 항목 보유종목이 없어 종목 선택 필요
+  stock_name: string | null
+  currency: string
+  quantity: number
+  price: number
+  amount: number              // 기준통화 환산 금액
+}
+
+export interface RebalancePlan {
+  baseCurrency: string
+  dimension: AllocationDimension
+  user_id: string | null      // null: 가족 전체
+  total_value: number
+  targets: AllocationTarget[]
+  drift: AllocationDrift[]
+  trades: RebalanceTrade[]
+  unfunded: number            // 예수금 부족으로 매수하지 못한 금액
+  blocked: number             // 계좌 정책상 매도할 수 없는 초과 금액
+}
+
+// ===== 분류 (순수 함수) =====
+
+const BOND_KEYWORDS = ['채권', '국채', '국고채', '회사채', '단기채', '금리', 'TREASURY', 'BOND']
+const BOND_TICKERS = ['TLT', 'IEF', 'SHY', 'BND', 'AGG', 'SGOV', 'BIL']
+const COMMODITY_KEYWORDS = ['금현물', '골드', '원유', 'WTI', '은선물', '구리', 'GOLD', 'SILVER']
+const COMMODITY_TICKERS = ['GLD', 'IAU', 'SLV', 'USO']
+const REIT_KEYWORDS = ['리츠', '부동산', 'REIT']
+
+const REGION_KEYWORDS: Array<{ region: string; keywords: string[] }> = [
+  { region: 'US', keywords: ['미국', 'S&P', '나스닥', 'NASDAQ', '다우존스', '필라델피아'] },
+  { region: 'CN', keywords: ['중국', '차이나', 'CHINA', '항셍'] },
+  { region: 'JP', keywords: ['일본', '니케이', 'TOPIX'] },
+  { region: 'IN', keywords: ['인도', 'INDIA'] },
+  { region: 'GLOBAL', keywords: ['글로벌', '선진국', '전세계', 'MSCI WORLD', 'MSCI ACWI'] }
+]
+
+const CURRENCY_REGIONS: Record<string, string> = { KRW: 'KR', USD: 'US', JPY: 'JP', CNY: 'CN', HKD: 'CN' }
+
+function containsAny(name: string, keywords: string[]): boolean {
+  const upper = name.toUpperCase()
+  return keywords.some(k => upper.includes(k.toUpperCase()))
+}
+
+export function assetClassOf(holding: ClassifiableHolding): string {
+  const code = holding.stock_code.toUpperCase()
+  if (BOND_TICKERS.includes(code) || containsAny(holding.stock_name, BOND_KEYWORDS)) return 'BOND'
+  if (COMMODITY_TICKERS.includes(code) || containsAny(holding.stock_name, COMMODITY_KEYWORDS)) return 'COMMODITY'
+  if (containsAny(holding.stock_name, REIT_KEYWORDS)) return 'REIT'
+  return 'EQUITY'
+}
+
+// 원화 상장 ETF는 종목명으로 투자 지역 판별 (예: TIGER 미국S&P500 → US)
+export function regionOf(holding: ClassifiableHolding): string {
+  const currency = (holding.currency || 'KRW').toUpperCase()
+  if (currency !== 'KRW') return CURRENCY_REGIONS[currency] || currency
+  const match = REGION_KEYWORDS.find(r => containsAny(holding.stock_name, r.keywords))
+  return match ? match.region : 'KR'
+}
+
+export function allocationKeyOf(dimension: AllocationDimension, holding: ClassifiableHolding): string {
+  switch (dimension) {
+    case 'ASSET_CLASS':
+      return assetClassOf(holding)
+    case 'REGION':
+      return regionOf(holding)
+    case 'CURRENCY':
+      return (holding.currency || 'KRW').toUpperCase()
+    case 'STOCK':
+      return holding.stock_code
+  }
+}
+
+export function effectiveRebalancePolicy(accountType: string, policy: RebalancePolicy | null | undefined): Exclude<RebalancePolicy, 'AUTO'> {
+  if (policy && policy !== 'AUTO') return policy
+  return TAX_ADVANTAGED_ACCOUNT_TYPES.includes(accountType) ? 'FULL' : 'BUY_ONLY'
+}
+
+// 비중은 0 이상, 항목 중복 불가, 합계 100%
+export function validateTargets(targets: AllocationTarget[]): void {
+  if (targets.length === 0) return
+
+  const keys = new Set<string>()
+  let sum = 0
+  for (const t of targets) {
+    if (!t.key.trim()) throw new Error('목표 항목을 입력해주세요')
+    if (keys.has(t.key)) throw new Error(`중복된 목표 항목입니다: ${t.key}`)
+    if (!(t.weight >= 0)) throw new Error(`목표 비중이 올바르지 않습니다: ${t.key}`)
+    keys.add(t.key)
+    sum += t.weight
+  }
+  if (Math.abs(sum - 100) > 0.01) {
+    throw new Error(`목표 비중 합계가 100%가 아닙니다 (${sum.toFixed(2)}%)`)
+  }
+}
+
+// ===== 리밸런싱 계산 (순수 함수) =====
+
+export function computeDrift(values: Map<string, number>, targets: AllocationTarget[]): AllocationDrift[] {
+  const total = [...values.values()].reduce((sum, v) => sum + v, 0)
+  const targetMap = new Map(targets.map(t => [t.key, t.weight]))
+  const keys = [...new Set([...targets.map(t => t.key), ...values.keys()])]
+
+  return keys.map(key => {
+    const currentValue = values.get(key) || 0
+    const targetWeight = targetMap.get(key) || 0
+    const currentWeight = total > 0 ? (currentValue / total) * 100 : 0
+    const targetValue = (total * targetWeight) / 100
+    return {
+      key,
+      current_value: currentValue,
+      current_weight: currentWeight,
+      target_weight: targetWeight,
+      target_value: targetValue,
+      drift: currentWeight - targetWeight,
+      delta: targetValue - currentValue
+    }
+  }).sort((a, b) => Math.abs(b.drift) - Math.abs(a.drift))
+}
+
+// 초과 항목은 매도 허용 계좌에서만 매도하고, 매도대금은 같은 계좌 안에서만 재투자
+// 부족 항목은 해당 항목의 최대 보유종목을 이미 보유한 계좌 → 예수금이 많은 계좌 순으로 매수
+export function planRebalance(
+  dimension: AllocationDimension,
+  accounts: RebalanceAccount[],
+  positions: RebalancePosition[],
+  targets: AllocationTarget[]
+): { drift: AllocationDrift[]; trades: RebalanceTrade[]; unfunded: number; blocked: number } {
+  const accountMap = new Map(accounts.map(a => [a.id, a]))
+  const keyOf = (p: RebalancePosition): string => allocationKeyOf(dimension, p)
+
+  const values = new Map<string, number>()
+  for (const p of positions) {
+    values.set(keyOf(p), (values.get(keyOf(p)) || 0) + p.quantity * p.price_base)
+  }
+  const totalCash = accounts.reduce((sum, a) => sum + a.cash, 0)
+  if (totalCash !== 0) values.set(CASH_KEY, totalCash)
+
+  const drift = computeDrift(values, targets)
+  if (targets.length === 0) return { drift, trades: [], unfunded: 0, blocked: 0 }
+
+  const trades: RebalanceTrade[] = []
+  const available = new Map(accounts.map(a => [a.id, a.policy === 'HOLD' ? 0 : Math.max(a.cash, 0)]))
+  let blocked = 0
+  let unfunded = 0
+
+  const pushTrade = (action: 'BUY' | 'SELL', key: string, p: RebalancePosition | null, accountId: string, quantity: number, amount: number) => {
+    trades.push({
+      action,
+      account_id: accountId,
+      account_label: accountMap.get(accountId)?.label || accountId,
+      key,
+      stock_code: p ? p.stock_code : null,
+      stock_name: p ? p.stock_name : null,
+      currency: p ? p.currency : '',
+      quantity,
+      price: p ? p.price : 0,
+      amount
+    })
+  }
+
+  // 1. 초과 항목 매도
+  for (const d of drift.filter(d => d.key !== CASH_KEY && d.delta < 0)) {
+    let remaining = -d.delta
+    const candidates = positions
+      .filter(p => keyOf(p) === d.key && p.price_base > 0 && accountMap.get(p.account_id)?.policy === 'FULL')
+      .sort((a, b) => b.quantity * b.price_base - a.quantity * a.price_base)
+
+    const sellable = candidates.reduce((sum, p) => sum + p.quantity * p.price_base, 0)
+    blocked += Math.max(0, remaining - sellable)
+
+    for (const p of candidates) {
+      const quantity = Math.min(p.quantity, Math.floor(remaining / p.price_base))
+      if (quantity <= 0) continue
+      const amount = quantity * p.price_base
+      pushTrade('SELL', d.key, p, p.account_id, quantity, amount)
+      available.set(p.account_id, (available.get(p.account_id) || 0) + amount)
+      remaining -= amount
+    }
+  }
+
+  // 2. 부족 항목 매수 (목표 예수금은 남겨둠)
+  const cashTarget = drift.find(d => d.key === CASH_KEY)?.target_value || 0
+  let budget = [...available.values()].reduce((sum, v) => sum + v, 0) - cashTarget
+
+  for (const d of drift.filter(d => d.key !== CASH_KEY && d.delta > 0).sort((a, b) => b.delta - a.delta)) {
+    let remaining = Math.min(d.delta, Math.max(budget, 0))
+    const shortfall = d.delta - remaining
+
+    // 매수할 종목: 해당 항목에서 평가금액이 가장 큰 보유종목
+    const byStock = new Map<string, { position: RebalancePosition; value: number }>()
+    for (const p of positions.filter(p => keyOf(p) === d.key && p.price_base > 0)) {
+      const existing = byStock.get(p.stock_code) || { position: p, value: 0 }
+      existing.value += p.quantity * p.price_base
+      byStock.set(p.stock_code, existing)
+    }
+    const instrument = [...byStock.values()].sort((a, b) => b.value - a.value)[0]?.position || null
+
+    const buyable = accounts
+      .filter(a => a.policy !== 'HOLD' && (available.get(a.id) || 0) > 0)
+      .sort((a, b) => {
+        if (instrument) {
+          const holdsA = positions.some(p => p.account_id === a.id && p.stock_code === instrument.stock_code) ? 1 : 0
+          const holdsB = positions.some(p => p.account_id === b.id && p.stock_code === instrument.stock_code) ? 1 : 0
+          if (holdsA !== holdsB) return holdsB - holdsA
+        }
+        return (available.get(b.id) || 0) - (available.get(a.id) || 0)
+      })
+
+    for (const account of buyable) {
+      if (remaining <= 0) break
+      const spend = Math.min(remaining, available.get(account.id) || 0)
+
+      if (!instrument) {
+        pushTrade('BUY', d.key, null, account.id, 0, spend)
+      } else {
+        const quantity = Math.floor(spend / instrument.price_base)
+        if (quantity <= 0) continue
+        pushTrade('BUY', d.key, instrument, account.id, quantity, quantity * instrument.price_base)
+      }
+
+      const spent = trades[trades.length - 1].amount
+      available.set(account.id, (available.get(account.id) || 0) - spent)
+      budget -= spent
+      remaining -= spent
+    }
+
+    unfunded += shortfall + Math.max(remaining, 0)
+  }
+
+  return { drift, trades, unfunded, blocked }
+}
+
+// ===== DB 연동 =====
+
+export function getAllocationTargets(userId: string | null, dimension: AllocationDimension): AllocationTarget[] {
+  const db = getDatabase()
+  return db.prepare(`
+    SELECT target_key as key, weight FROM allocation_targets
+    WHERE user_id IS ? AND dimension = ?
+    ORDER BY weight DESC
+  `).all(userId, dimension) as AllocationTarget[]
+}
+
+// 해당 범위·기준의 목표를 통째로 교체 (빈 목록이면 삭제)
+export function setAllocationTargets(userId: string | null, dimension: AllocationDimension, targets: AllocationTarget[]): AllocationTarget[] {
+  if (!ALLOCATION_DIMENSIONS.includes(dimension)) {
+    throw new Error(`지원하지 않는 배분 기준입니다: ${dimension}`)
+  }
+  const normalized = targets.map(t => ({ key: t.key.trim(), weight: Number(t.weight) }))
+  validateTargets(normalized)
+
+  const db = getDatabase()
+  const insert = db.prepare(`
+    INSERT INTO allocation_targets (id, user_id, dimension, target_key, weight) VALUES (?, ?, ?, ?, ?)
+  `)
+  db.transaction(() => {
+    db.prepare('DELETE FROM allocation_targets WHERE user_id IS ? AND dimension = ?').run(userId, dimension)
+    for (const t of normalized) {
+      insert.run(uuidv4(), userId, dimension, t.key, t.weight)
+    }
+  })()
+
+  return getAllocationTargets(userId, dimension)
+}
+
+export async function getRebalancePlan(userId: string | null, dimension: AllocationDimension): Promise<RebalancePlan> {
+  const db = getDatabase()
+  const userFilter = userId ? 'WHERE user_id = ?' : ''
+  const params = userId ? [userId] : []
+
+  const accountRows = db.prepare(`
+    SELECT id, user_id, brokerage, account_type, account_alias, rebalance_policy FROM accounts ${userFilter}
+  `).all(...params) as Array<{
+    id: string
+    user_id: string
+    brokerage: string
+    account_type: string
+    account_alias: string | null
+    rebalance_policy: RebalancePolicy | null
+  }>
+
+  const holdings = db.prepare(`
+    SELECT h.account_id, h.stock_code, h.stock_name, h.currency, h.quantity, h.current_price as price
+    FROM priced_holdings h
+    JOIN accounts a ON h.account_id = a.id
+    WHERE h.quantity > 0 ${userId ? 'AND a.user_id = ?' : ''}
+  `).all(...params) as Array<Omit<RebalancePosition, 'price_base'>>
+
+  const cash = [...new Set(accountRows.map(a => a.user_id))].flatMap(id => getCashBalances(id))
+  const fx = await loadFxTable([...holdings.map(h => h.currency), ...cash.map(c => c.currency)])
+
+  const accounts: RebalanceAccount[] = accountRows.map(a => ({
+    id: a.id,
+    label: accountLabel(a),
+    policy: effectiveRebalancePolicy(a.account_type, a.rebalance_policy),
+    cash: cash.filter(c => c.account_id === a.id).reduce((sum, c) => sum + (toBaseCurrency(c.balance, c.currency, fx) ?? 0), 0)
+  }))
+  // 환율이 없는 외화 보유분은 제외
+  const positions: RebalancePosition[] = holdings.flatMap(h => {
+    const priceBase = toBaseCurrency(h.price, h.currency, fx)
+    return priceBase === null ? [] : [{ ...h, price_base: priceBase }]
+  })
+
+  const targets = getAllocationTargets(userId, dimension)
+  const plan = planRebalance(dimension, accounts, positions, targets)
+
+  return {
+    baseCurrency: fx.baseCurrency,
+    dimension,
+    user_id: userId,
+    total_value: plan.drift.reduce((sum, d) => sum + d.current_value, 0),
+    targets,
+    ...plan
+  }
+}
@@ -0,0 +1,381 @@
+/**
+ * Holdings Reconciliation
+ * 증권사 잔고 스냅샷(API 동기화 / 엑셀 잔고)과 거래내역 원장(tax lot)을 계좌별로 대사
+ * 증권사 예수금도 스냅샷으로만 저장하고 원장 예수금과 비교 (원장 잔고를 덮어쓰지 않음)
+ * 불일치 종목은 조정 거래 추가 또는 증권사 값 수용(수량·평균단가 조정 거래)으로 해소
+ */
+
+import { getDatabase } from './database'
+import { v4 as uuidv4 } from 'uuid'
+import { resolveTradeFxRate } from './fx-history'
+import { replayHolding, ensureOpeningBalance } from './ledger-replay'
+import { CashBalance, getCashBalances } from './cash-ledger'
+
+// ===== 타입 정의 =====
+export type BrokerSnapshotSource = 'API' | 'EXCEL'
+
+export type ReconciliationStatus =
+  | 'MATCHED'
+  | 'QUANTITY_MISMATCH'
+  | 'AVG_COST_MISMATCH'
+  | 'BROKER_ONLY'   // 증권사 잔고에만 있음 (매수 거래 누락)
+  | 'LEDGER_ONLY'   // 원장에만 있음 (매도 거래 누락)
+
+export interface Position {
+  stock_code: string
+  stock_name: string
+  currency: string
+  quantity: number
+  avg_cost: number
+}
+
+export interface BrokerPosition extends Position {
+  source: BrokerSnapshotSource
+  captured_at: string
+}
+
+export interface ReconciliationItem {
+  stock_code: string
+  stock_name: string
+  currency: string
+  broker_quantity: number
+  broker_avg_cost: number
+  ledger_quantity: number
+  ledger_avg_cost: number
+  quantity_diff: number       // 증권사 - 원장
+  avg_cost_diff: number
+  status: ReconciliationStatus
+  can_adjust: boolean         // 수량 차이를 조정 거래로 해소 가능
+}
+
+export interface BrokerCash {
+  currency: string
+  balance: number
+  source: BrokerSnapshotSource
+  captured_at: string
+}
+
+export interface CashReconciliationItem {
+  currency: string
+  broker_balance: number
+  ledger_balance: number | null   // 원장에서 예수금을 추적하지 않는 통화는 null
+  diff: number                    // 증권사 - 원장
+  matched: boolean
+  captured_at: string
+}
+
+export interface ReconciliationReport {
+  account_id: string
+  snapshot_source: BrokerSnapshotSource | null
+  snapshot_at: string | null
+  items: ReconciliationItem[]
+  cash: CashReconciliationItem[]
+  mismatches: number
+}
+
+export interface Adjustment {
+  type: 'BUY' | 'SELL'
+  quantity: number
+  price: number
+}
+
+export interface SnapshotRow {
+  stock_code: string
+  stock_name: string
+  quantity: number
+  avg_cost: number
+  currency: string
+}
+
+const QUANTITY_TOLERANCE = 1e-6
+const AVG_COST_TOLERANCE = 0.001    // 증권사 평균단가 반올림 허용 (0.1%)
+const CASH_TOLERANCE = 0.01
+
+// ===== 대사 (순수 함수) =====
+
+function sameQuantity(a: number, b: number): boolean {
+  return Math.abs(a - b) <= QUANTITY_TOLERANCE
+}
+
+function sameAvgCost(a: number, b: number): boolean {
+  if (a === b) return true
+  return Math.abs(a - b) <= Math.max(Math.abs(a), Math.abs(b)) * AVG_COST_TOLERANCE
+}
+
+export function reconcilePositions(broker: Position[], ledger: Position[]): ReconciliationItem[] {
+  const brokerMap = new Map(broker.map(p => [p.stock_code, p]))
+  const ledgerMap = new Map(ledger.map(p => [p.stock_code, p]))
+  const codes = [...new Set([...brokerMap.keys(), ...ledgerMap.keys()])]
+
+  const items: ReconciliationItem[] = []
+  for (const code of codes) {
+    const b = brokerMap.get(code)
+    const l = ledgerMap.get(code)
+    const brokerQuantity = b?.quantity ?? 0
+    const ledgerQuantity = l?.quantity ?? 0
+    if (brokerQuantity <= QUANTITY_TOLERANCE && ledgerQuantity <= QUANTITY_TOLERANCE) continue
+
+    const item: ReconciliationItem = {
+      stock_code: code,
+      stock_name: (b || l)!.stock_name,
+      currency: (b || l)!.currency,
+      broker_quantity: brokerQuantity,
+      broker_avg_cost: b?.avg_cost ?? 0,
+      ledger_quantity: ledgerQuantity,
+      ledger_avg_cost: ledgerQuantity > QUANTITY_TOLERANCE ? (l?.avg_cost ?? 0) : 0,
+      quantity_diff: brokerQuantity - ledgerQuantity,
+      avg_cost_diff: 0,
+      status: 'MATCHED',
+      can_adjust: false
+    }
+    item.avg_cost_diff = item.broker_avg_cost - item.ledger_avg_cost
+
+    if (ledgerQuantity <= QUANTITY_TOLERANCE) {
+      item.status = 'BROKER_ONLY'
+    } else if (brokerQuantity <= QUANTITY_TOLERANCE) {
+      item.status = 'LEDGER_ONLY'
+    } else if (!sameQuantity(brokerQuantity, ledgerQuantity)) {
+      item.status = 'QUANTITY_MISMATCH'
+    } else if (!sameAvgCost(item.broker_avg_cost, item.ledger_avg_cost)) {
+      item.status = 'AVG_COST_MISMATCH'
+    }
+
+    item.can_adjust = !sameQuantity(brokerQuantity, ledgerQuantity)
+    items.push(item)
+  }
+
+  // 불일치 먼저, 같은 상태 내에서는 종목명 순
+  return items.sort((a, b) => {
+    const rank = (s: ReconciliationStatus): number => (s === 'MATCHED' ? 1 : 0)
+    return rank(a.status) - rank(b.status) || a.stock_name.localeCompare(b.stock_name)
+  })
+}
+
+// 추적하지 않는 통화는 비교 기준이 없으므로 불일치로 보지 않음
+export function reconcileCash(broker: BrokerCash[], ledger: CashBalance[]): CashReconciliationItem[] {
+  const ledgerMap = new Map(ledger.map(c => [c.currency, c.balance]))
+
+  return broker.map(b => {
+    const ledgerBalance = ledgerMap.get(b.currency) ?? null
+    const diff = ledgerBalance === null ? 0 : b.balance - ledgerBalance
+    return {
+      currency: b.currency,
+      broker_balance: b.balance,
+      ledger_balance: ledgerBalance,
+      diff,
+      matched: Math.abs(diff) <= CASH_TOLERANCE,
+      captured_at: b.captured_at
+    }
+  })
+}
+
+// 원장을 증권사 잔고에 맞추는 조정 거래
+// 매수: 조정 후 평균단가가 증권사 평균단가가 되도록 단가 역산 / 매도: 원장 평균단가 (실현손익 0)
+export function buildAdjustment(item: ReconciliationItem): Adjustment | null {
+  if (!item.can_adjust) return null
+
+  if (item.quantity_diff > 0) {
+    const targetCost = item.broker_quantity * item.broker_avg_cost
+    const ledgerCost = item.ledger_quantity * item.ledger_avg_cost
+    const price = (targetCost - ledgerCost) / item.quantity_diff
+    return { type: 'BUY', quantity: item.quantity_diff, price: price > 0 ? price : item.broker_avg_cost }
+  }
+  return { type: 'SELL', quantity: -item.quantity_diff, price: item.ledger_avg_cost }
+}
+
+// 증권사 값 수용: 원장을 증권사 수량·평균단가로 맞추는 조정 거래
+// 수량 조정 거래 하나로 평균단가까지 맞지 않으면 원장 보유분 전량 매도(원장 평균단가, 실현손익 0) 후 증권사 값으로 매수
+export function buildAcceptance(item: ReconciliationItem): Adjustment[] {
+  if (item.status === 'MATCHED') return []
+
+  const adjustment = buildAdjustment(item)
+  if (adjustment) {
+    // 매수: 역산 단가가 양수일 때만 정확 / 매도: 원장 평균단가가 유지되므로 증권사 평균단가와 같을 때만
+    const exact = adjustment.type === 'BUY'
+      ? item.broker_quantity * item.broker_avg_cost > item.ledger_quantity * item.ledger_avg_cost
+      : item.broker_quantity <= QUANTITY_TOLERANCE || sameAvgCost(item.ledger_avg_cost, item.broker_avg_cost)
+    if (exact) return [adjustment]
+  }
+
+  const reset: Adjustment[] = []
+  if (item.ledger_quantity > QUANTITY_TOLERANCE) {
+    reset.push({ type: 'SELL', quantity: item.ledger_quantity, price: item.ledger_avg_cost })
+  }
+  if (item.broker_quantity > QUANTITY_TOLERANCE) {
+    reset.push({ type: 'BUY', quantity: item.broker_quantity, price: item.broker_avg_cost })
+  }
+  return reset
+}
+
+// ===== DB 연동 =====
+
+// 증권사 잔고 스냅샷 저장 (replace: 계좌 전체 교체, 아니면 종목별 갱신)
+export function recordBrokerSnapshot(
+  accountId: string,
+  rows: SnapshotRow[],
+  source: BrokerSnapshotSource,
+  replace: boolean
+): void {
+  const db = getDatabase()
+  const upsert = db.prepare(`
+    INSERT INTO broker_holdings (account_id, stock_code, stock_name, quantity, avg_cost, currency, source, captured_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, datetime('now'))
+    ON CONFLICT(account_id, stock_code) DO UPDATE SET
+      stock_name = excluded.stock_name,
+      quantity = excluded.quantity,
+      avg_cost = excluded.avg_cost,
+      currency = excluded.currency,
+      source = excluded.source,
+      captured_at = excluded.captured_at
+  `)
+
+  db.transaction(() => {
+    if (replace) {
+      db.prepare('DELETE FROM broker_holdings WHERE account_id = ?').run(accountId)
+    }
+    for (const row of rows) {
+      upsert.run(accountId, row.stock_code, row.stock_name, row.quantity, row.avg_cost, row.currency, source)
+    }
+  })()
+}
+
+// 증권사 예수금 스냅샷 저장 (원장 예수금은 거래내역으로만 계산)
+export function recordBrokerCash(accountId: string, currency: string, balance: number, source: BrokerSnapshotSource): void {
+  const db = getDatabase()
+  db.prepare(`
+    INSERT INTO broker_cash_balances (account_id, currency, balance, source, captured_at)
+    VALUES (?, ?, ?, ?, datetime('now'))
+    ON CONFLICT(account_id, currency) DO UPDATE SET
+      balance = excluded.balance,
+      source = excluded.source,
+      captured_at = excluded.captured_at
+  `).run(accountId, currency.toUpperCase(), balance, source)
+}
+
+// 원장 보유분: tax lot + 거래내역 없는 스냅샷 보유종목 (첫 거래 시 기초잔고로 원장에 편입되므로 원장으로 간주)
+function loadLedgerPositions(accountId: string): Position[] {
+  const db = getDatabase()
+  const lots = db.prepare(`
+    SELECT
+      stock_code,
+      MAX(stock_name) as stock_name,
+      MAX(currency) as currency,
+      SUM(remaining_quantity) as quantity,
+      COALESCE(SUM(remaining_quantity * unit_cost) / NULLIF(SUM(remaining_quantity), 0), 0) as avg_cost
+    FROM tax_lots
+    WHERE account_id = ?
+    GROUP BY stock_code
+  `).all(accountId) as Position[]
+
+  const snapshots = db.prepare(`
+    SELECT stock_code, stock_name, currency, quantity, avg_cost
+    FROM holdings h
+    WHERE account_id = ? AND NOT EXISTS (
+      SELECT 1 FROM transactions t
+      WHERE t.account_id = h.account_id AND t.stock_code = h.stock_code AND t.type IN ('BUY', 'SELL')
+    )
+  `).all(accountId) as Position[]
+
+  return [...lots, ...snapshots]
+}
+
+export function getReconciliationReport(accountId: string): ReconciliationReport {
+  const db = getDatabase()
+
+  const broker = db.prepare(`
+    SELECT stock_code, stock_name, currency, quantity, avg_cost, source, captured_at
+    FROM broker_holdings WHERE account_id = ?
+  `).all(accountId) as BrokerPosition[]
+
+  const brokerCash = db.prepare(`
+    SELECT currency, balance, source, captured_at
+    FROM broker_cash_balances WHERE account_id = ?
+  `).all(accountId) as BrokerCash[]
+
+  // 스냅샷이 없으면 비교 대상 없음
+  if (broker.length === 0 && brokerCash.length === 0) {
+    return { account_id: accountId, snapshot_source: null, snapshot_at: null, items: [], cash: [], mismatches: 0 }
+  }
+
+  const latest = [...broker, ...brokerCash].reduce((a, b) => (b.captured_at > a.captured_at ? b : a))
+  const items = reconcilePositions(broker, loadLedgerPositions(accountId))
+
+  const account = db.prepare('SELECT user_id FROM accounts WHERE id = ?').get(accountId) as { user_id: string } | undefined
+  const cash = account ? reconcileCash(brokerCash, getCashBalances(account.user_id, accountId)) : []
+
+  return {
+    account_id: accountId,
+    snapshot_source: latest.source,
+    snapshot_at: latest.captured_at,
+    items,
+    cash,
+    mismatches: items.filter(i => i.status !== 'MATCHED').length + cash.filter(c => !c.matched).length
+  }
+}
+
+function findItem(accountId: string, stockCode: string): ReconciliationItem {
+  const item = getReconciliationReport(accountId).items.find(i => i.stock_code === stockCode)
+  if (!item) {
+    throw new Error('Reconciliation item not found')
+  }
+  return item
+}
+
+// 조정 거래 기록 후 원장 재생 (같은 날 여러 건이면 입력 순서대로 재생되도록 생성시각을 1초씩 증가)
+// 스냅샷 보유종목은 원장으로 간주해 대사했으므로 먼저 기초잔고로 편입
+function recordAdjustments(accountId: string, item: ReconciliationItem, adjustments: Adjustment[], tradeDate: string): string[] {
+  const db = getDatabase()
+  const insert = db.prepare(`
+    INSERT INTO transactions (id, account_id, stock_code, stock_name, type, quantity, price, total_amount, currency, date, is_manual, source, fx_rate, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 1, 'ADJUSTMENT', ?, datetime('now', ?))
+  `)
+
+  return db.transaction(() => {
+    ensureOpeningBalance(accountId, item.stock_code, tradeDate)
+
+    const ids = adjustments.map((adjustment, index) => {
+      const id = uuidv4()
+      insert.run(
+        id,
+        accountId,
+        item.stock_code,
+        item.stock_name,
+        adjustment.type,
+        adjustment.quantity,
+        adjustment.price,
+        adjustment.quantity * adjustment.price,
+        item.currency,
+        tradeDate,
+        resolveTradeFxRate(item.currency, tradeDate),
+        `+${index} seconds`
+      )
+      return id
+    })
+
+    replayHolding(accountId, item.stock_code)
+    return ids
+  })()
+}
+
+// 조정 거래를 추가하여 원장 수량을 증권사 잔고에 맞춤
+export function addAdjustingTransaction(accountId: string, stockCode: string, date?: string): { transactionId: string } {
+  const item = findItem(accountId, stockCode)
+  const adjustment = buildAdjustment(item)
+  if (!adjustment) {
+    throw new Error('Quantity already matches; accept the broker value instead')
+  }
+
+  const [transactionId] = recordAdjustments(accountId, item, [adjustment], date || new Date().toISOString().split('T')[0])
+  return { transactionId }
+}
+
+// 증권사 수량·평균단가를 조정 거래로 원장에 반영 (원장 재생 후에도 유지)
+export function acceptBrokerValue(accountId: string, stockCode: string, date?: string): { transactionIds: string[] } {
+  const item = findItem(accountId, stockCode)
+  const adjustments = buildAcceptance(item)
+  if (adjustments.length === 0) {
+    throw new Error('Broker value already matches the ledger')
+  }
+
+  return { transactionIds: recordAdjustments(accountId, item, adjustments, date || new Date().toISOString().split('T')[0]) }
+}
@@ -0,0 +1,607 @@
+/**
+ * Security Master
+ * 종목 기준정보 (표준코드, Yahoo/네이버 심볼, 한글/영문명, 시장, 거래소, 상품유형, 섹터, 통화) 및 별칭
+ * 파서, 시세 조회, 종목 검색, 보유종목이 모두 이 테이블을 통해 종목을 식별
+ */
+
+import { getDatabase } from './database'
+
+// ===== 타입 정의 =====
+export type AssetType = 'STOCK' | 'ETF' | 'ETN' | 'REIT' | 'FUND'
+export type SecuritySource = 'SEED' | 'USER' | 'AUTO'
+
+export const ASSET_TYPES: AssetType[] = ['STOCK', 'ETF', 'ETN', 'REIT', 'FUND']
+
+export interface Security {
+  code: string                  // 표준코드 (국내 6자리, 해외 티커)
+  name_ko: string | null
+  name_en: string | null
+  yahoo_symbol: string | null
+  naver_symbol: string | null
+  market: string                // KR, US, ...
+  exchange: string | null       // KOSPI, KOSDAQ, NASDAQ, NYSE, ...
+  asset_type: AssetType
+  sector: string | null
+  currency: string
+  quote_enabled: number         // 0이면 시세 조회 제외
+  source: SecuritySource
+}
+
+export type SecurityInput = Pick<Security, 'code'> & Partial<Omit<Security, 'code' | 'source'>>
+
+export interface SecurityAlias {
+  alias_key: string             // 정규화된 별칭 (공백 제거, 대문자)
+  alias: string
+  code: string
+}
+
+export interface SecurityIndex {
+  byCode: Map<string, Security>
+  byAlias: Map<string, Security>
+  nameAliases: Array<[string, Security]>   // 부분 매칭용 (표준코드 자체는 제외)
+}
+
+// ===== 기본 종목 데이터 (최초 실행 시 securities 테이블에 적재) =====
+
+// 해외주식 한글명 → 티커 (섹터별)
+const OVERSEAS_STOCK_SEEDS: Array<{ sector: string | null; stocks: Record<string, string> }> = [
+  {
+    sector: 'Technology',
+    stocks: {
+      // 빅테크
+      '애플': 'AAPL',
+      '마이크로소프트': 'MSFT',
+      '알파벳': 'GOOGL',
+      '구글': 'GOOGL',
+      '아마존': 'AMZN',
+      '아마존닷컴': 'AMZN',
+      '메타': 'META',
+      '메타 플랫폼스': 'META',
+      '엔비디아': 'NVDA',
+      '테슬라': 'TSLA',
+      '넷플릭스': 'NFLX',
+      // 반도체/테크
+      '브로드컴': 'AVGO',
+      '어도비': 'ADBE',
+      '세일즈포스': 'CRM',
+      '오라클': 'ORCL',
+      '인텔': 'INTC',
+      'AMD': 'AMD',
+      '퀄컴': 'QCOM',
+      '마이크론': 'MU',
+      'ASML': 'ASML',
+      'TSMC': 'TSM',
+      '대만반도체': 'TSM',
+      '어플라이드머티리얼즈': 'AMAT',
+      '램리서치': 'LRCX',
+      'KLA': 'KLAC',
+      '시놉시스': 'SNPS',
+      '케이던스': 'CDNS',
+      '마벨테크놀로지': 'MRVL',
+      'ARM': 'ARM',
+      '암홀딩스': 'ARM',
+      '팔란티어': 'PLTR',
+      '스노우플레이크': 'SNOW',
+      '크라우드스트라이크': 'CRWD',
+      '데이터독': 'DDOG',
+      '서비스나우': 'NOW',
+      'IBM': 'IBM',
+      // AI/클라우드
+      '코어위브': 'CRWV',
+      '슈퍼마이크로': 'SMCI',
+      'C3.ai': 'AI',
+      '빅베어AI': 'BBAI',
+      '사운드하운드': 'SOUN',
+      '넷스코프': 'NTSK',
+      '리졸브AI': 'RZLV',
+      '리졸브 AI': 'RZLV',
+      '트윌리오': 'TWLO',
+      '줌비디오': 'ZM',
+      '도큐사인': 'DOCU',
+      '로블록스': 'RBLX',
+      '유니티': 'U'
+    }
+  },
+  {
+    sector: 'Financials',
+    stocks: {
+      'JP모건': 'JPM',
+      'JP모간': 'JPM',
+      '뱅크오브아메리카': 'BAC',
+      '웰스파고': 'WFC',
+      '골드만삭스': 'GS',
+      '모건스탠리': 'MS',
+      '비자': 'V',
+      '마스터카드': 'MA',
+      '아메리칸익스프레스': 'AXP',
+      '페이팔': 'PYPL',
+      '블랙록': 'BLK',
+      '찰스슈왑': 'SCHW',
+      'HSBC': 'HSBC',
+      'HSBC홀딩스': 'HSBC',
+      '버크셔해서웨이': 'BRK.B',
+      '코인베이스': 'COIN',
+      '로빈후드': 'HOOD',
+      '업스타트': 'UPST',
+      '어펌': 'AFRM',
+      '불리쉬': 'BWLSH'  // Bullish
+    }
+  },
+  {
+    sector: 'Health Care',
+    stocks: {
+      '존슨앤드존슨': 'JNJ',
+      '존슨앤존슨': 'JNJ',
+      '유나이티드헬스': 'UNH',
+      '화이자': 'PFE',
+      '머크': 'MRK',
+      '애브비': 'ABBV',
+      '일라이릴리': 'LLY',
+      '노보노디스크': 'NVO',
+      '암젠': 'AMGN',
+      '길리어드': 'GILD',
+      '모더나': 'MRNA',
+      '바이오엔테크': 'BNTX'
+    }
+  },
+  {
+    sector: 'Consumer',
+    stocks: {
+      '월마트': 'WMT',
+      '코스트코': 'COST',
+      '홈디포': 'HD',
+      '맥도날드': 'MCD',
+      '스타벅스': 'SBUX',
+      '나이키': 'NKE',
+      '코카콜라': 'KO',
+      '펩시코': 'PEP',
+      '프록터앤드갬블': 'PG',
+      'P&G': 'PG',
+      '루이비통': 'LVMUY',
+      'LVMH': 'LVMUY',
+      '리비안': 'RIVN',
+      '루시드': 'LCID'
+    }
+  },
+  {
+    sector: 'Industrials',
+    stocks: {
+      '보잉': 'BA',
+      '캐터필러': 'CAT',
+      '유니온퍼시픽': 'UNP',
+      '허니웰': 'HON',
+      '3M': 'MMM',
+      '레이시온': 'RTX',
+      '록히드마틴': 'LMT',
+      '제너럴일렉트릭': 'GE',
+      'GE': 'GE',
+      // 항공/우주
+      '아처 에비에이션': 'ACHR',
+      '아처에비에이션': 'ACHR',
+      '조비 에비에이션': 'JOBY',
+      '조비에비에이션': 'JOBY',
+      '버진갤럭틱': 'SPCE',
+      '로켓랩': 'RKLB'
+    }
+  },
+  {
+    sector: 'Energy',
+    stocks: {
+      '엑손모빌': 'XOM',
+      '셰브론': 'CVX',
+      '카메코': 'CCJ',
+      '우라늄에너지': 'UEC'
+    }
+  },
+  {
+    sector: 'Communication',
+    stocks: {
+      'AT&T': 'T',
+      '버라이즌': 'VZ',
+      '티모바일': 'TMUS',
+      '디즈니': 'DIS',
+      '월트디즈니': 'DIS',
+      '컴캐스트': 'CMCSA'
+    }
+  },
+  {
+    sector: null,
+    stocks: {
+      // 중국 ADR
+      '알리바바': 'BABA',
+      '텐센트': 'TCEHY',
+      '바이두': 'BIDU',
+      'JD닷컴': 'JD',
+      '징동': 'JD',
+      '핀둬둬': 'PDD',
+      '니오': 'NIO',
+      '샤오펑': 'XPEV',
+      '리오토': 'LI',
+      'BYD': 'BYDDY',
+      '비야디': 'BYDDY',
+      // 암호화폐/블록체인
+      '마라홀딩스': 'MARA',
+      '마라 홀딩스': 'MARA',
+      '비트마인 이머션 테크놀로지스': 'BTBT',
+      '비트마인 이머전 테크놀로지스': 'BTBT',  // 오타 대응
+      '비트마인': 'BTBT',
+      '라이엇플랫폼스': 'RIOT',
+      '마이크로스트래티지': 'MSTR'
+    }
+  }
+]
+
+// 시세 조회 오류가 나는 종목 (별칭 포함)
+const QUOTE_DISABLED_SEEDS: Record<string, string[]> = {
+  HSBC: ['HSBC.L', 'HSBC.N']
+}
+
+// ===== 종목명 규칙 (마스터에 없는 종목 판별용) =====
+
+// 해외 ETF 운용사 패턴 (한국 ETF가 아닌 미국 ETF)
+const OVERSEAS_ETF_PATTERNS = [
+  'YIELDMAX',
+  'PROSHARES',
+  'DIREXION',
+  'GRAYSCALE',
+  'ISHARES',
+  'SPDR',
+  'INVESCO',
+  'VANECK',
+  'ARK ',
+  'REX ',
+]
+
+// 한국 기업이지만 영문 이름인 경우 (해외 주식으로 오인 방지)
+const KOREAN_COMPANIES_ENGLISH_NAME = [
+  'NAVER', 'KAKAO', 'LG', 'SK', 'POSCO', 'HYUNDAI', 'SAMSUNG',
+  'HANWHA', 'CJ', 'LOTTE', 'GS', 'KUMHO', 'HANA', 'SHINHAN',
+  'KB', 'NH', 'WOORI', 'DOUZONE', 'NCSOFT', 'NEXON', 'NETMARBLE',
+  'KRAFTON', 'PEARL ABYSS', 'DEVSISTERS', 'COM2US'
+]
+
+// 한국 ETF 브랜드 (해외지수 추종이어도 한국 ETF)
+const KOREAN_ETF_PREFIXES = [
+  'KODEX', 'TIGER', 'KBSTAR', 'ARIRANG', 'HANARO',
+  'KOSEF', 'KINDEX', 'SOL', 'ACE', 'RISE', 'KoAct',
+  'TIMEFOLIO', 'FOCUS', 'PLUS', 'SMART', 'WOORI'
+]
+
+// ===== 종목 식별 (순수 함수) =====
+
+export function normalizeSecurityKey(value: string): string {
+  return value.replace(/\s+/g, '').toUpperCase()
+}
+
+// Yahoo는 클래스 주식을 하이픈으로 표기 (BRK.B → BRK-B)
+export function toYahooSymbol(ticker: string): string {
+  return ticker.replace(/\.([A-Z])$/, '-$1')
+}
+
+export function isKoreanEtfName(stockName: string): boolean {
+  const upperName = stockName.toUpperCase()
+  return KOREAN_ETF_PREFIXES.some(prefix => upperName.startsWith(prefix.toUpperCase()))
+}
+
+export function isKoreanCompanyEnglishName(stockName: string): boolean {
+  const upperName = stockName.trim().toUpperCase()
+  return KOREAN_COMPANIES_ENGLISH_NAME.some(name => upperName.startsWith(name))
+}
+
+// 마스터에 없는 종목명으로 해외주식 여부 추정
+export function guessOverseasTicker(stockName: string): { isOverseas: boolean; ticker: string } {
+  const trimmedName = stockName.trim()
+  const upperName = trimmedName.toUpperCase()
+
+  if (isKoreanCompanyEnglishName(trimmedName)) {
+    return { isOverseas: false, ticker: '' }
+  }
+
+  // 해외 ETF 패턴 (YIELDMAX, REX 등) - 티커 추출 시도
+  for (const pattern of OVERSEAS_ETF_PATTERNS) {
+    if (upperName.includes(pattern.trim())) {
+      const possibleTicker = trimmedName.split(/\s+/).find(w => /^[A-Z]{2,5}$/.test(w))
+      return { isOverseas: true, ticker: possibleTicker || pattern.trim() }
+    }
+  }
+
+  // 영문 티커 형식 (1-5자리 대문자)
+  if (/^[A-Z]{1,5}$/.test(trimmedName)) {
+    return { isOverseas: true, ticker: trimmedName }
+  }
+
+  // 영문 티커 + 한글 설명 형식 (예: "AAPL 애플")
+  const tickerMatch = trimmedName.match(/^([A-Z]{1,5})\s/)
+  if (tickerMatch) {
+    return { isOverseas: true, ticker: tickerMatch[1] }
+  }
+
+  return { isOverseas: false, ticker: '' }
+}
+
+// 기본 종목 데이터 → securities/security_aliases 행
+export function buildSeedSecurities(): { securities: Security[]; aliases: SecurityAlias[] } {
+  const securities = new Map<string, Security>()
+  const aliases: SecurityAlias[] = []
+
+  for (const group of OVERSEAS_STOCK_SEEDS) {
+    for (const [name, ticker] of Object.entries(group.stocks)) {
+      if (!securities.has(ticker)) {
+        securities.set(ticker, {
+          code: ticker,
+          name_ko: /[가-힣]/.test(name) ? name : null,
+          name_en: null,
+          yahoo_symbol: toYahooSymbol(ticker),
+          naver_symbol: null,
+          market: 'US',
+          exchange: null,
+          asset_type: 'STOCK',
+          sector: group.sector,
+          currency: 'USD',
+          quote_enabled: QUOTE_DISABLED_SEEDS[ticker] ? 0 : 1,
+          source: 'SEED'
+        })
+      } else if (!securities.get(ticker)!.name_ko && /[가-힣]/.test(name)) {
+        securities.get(ticker)!.name_ko = name
+      }
+      if (name !== ticker) {
+        aliases.push({ alias_key: normalizeSecurityKey(name), alias: name, code: ticker })
+      }
+    }
+  }
+
+  for (const [code, extra] of Object.entries(QUOTE_DISABLED_SEEDS)) {
+    for (const alias of extra) {
+      aliases.push({ alias_key: normalizeSecurityKey(alias), alias, code })
+    }
+  }
+
+  return { securities: [...securities.values()], aliases }
+}
+
+export function buildSecurityIndex(securities: Security[], aliases: SecurityAlias[]): SecurityIndex {
+  const byCode = new Map(securities.map(s => [s.code.toUpperCase(), s]))
+  const byAlias = new Map<string, Security>()
+  const nameAliases: Array<[string, Security]> = []
+
+  const addAlias = (value: string | null, security: Security, forPartial: boolean) => {
+    if (!value) return
+    const key = normalizeSecurityKey(value)
+    if (!key || byAlias.has(key)) return
+    byAlias.set(key, security)
+    if (forPartial && key.length >= 2) nameAliases.push([key, security])
+  }
+
+  for (const s of securities) {
+    addAlias(s.name_ko, s, true)
+    addAlias(s.name_en, s, true)
+    addAlias(s.yahoo_symbol, s, false)
+    addAlias(s.naver_symbol, s, false)
+  }
+  for (const a of aliases) {
+    const security = byCode.get(a.code.toUpperCase())
+    if (security) addAlias(a.alias, security, a.alias_key !== security.code.toUpperCase())
+  }
+
+  return { byCode, byAlias, nameAliases }
+}
+
+// 코드 → 별칭 → 종목명 정확 매칭 → 종목명 부분 매칭 순 (allowPartial=false면 부분 매칭 생략)
+export function resolveSecurity(
+  index: SecurityIndex,
+  query: { code?: string | null; name?: string | null },
+  allowPartial: boolean = true
+): Security | null {
+  const code = query.code?.trim()
+  if (code) {
+    const found = index.byCode.get(code.toUpperCase()) || index.byAlias.get(normalizeSecurityKey(code))
+    if (found) return found
+  }
+
+  const name = query.name?.trim()
+  if (!name) return null
+
+  const key = normalizeSecurityKey(name)
+  const exact = index.byAlias.get(key)
+  if (exact) return exact
+
+  // 한국 기업 영문명, 한국 ETF는 해외 종목명과 부분 매칭하지 않음
+  if (!allowPartial || isKoreanCompanyEnglishName(name) || isKoreanEtfName(name)) return null
+  const partial = index.nameAliases.find(([alias]) => key.includes(alias) || alias.includes(key))
+  return partial ? partial[1] : null
+}
+
+// ===== DB 연동 =====
+
+let securityIndex: SecurityIndex | null = null
+
+function invalidateSecurityIndex(): void {
+  securityIndex = null
+}
+
+export function getSecurityIndex(): SecurityIndex {
+  if (!securityIndex) {
+    const db = getDatabase()
+    securityIndex = buildSecurityIndex(
+      db.prepare('SELECT * FROM securities').all() as Security[],
+      db.prepare('SELECT * FROM security_aliases').all() as SecurityAlias[]
+    )
+  }
+  return securityIndex
+}
+
+export function findSecurity(query: { code?: string | null; name?: string | null }): Security | null {
+  return resolveSecurity(getSecurityIndex(), query)
+}
+
+// 기본 종목 적재 + 기존 ticker_mappings를 별칭으로 이관 (사용자 수정분은 유지)
+export function seedSecurities(): void {
+  const db = getDatabase()
+  const { securities, aliases } = buildSeedSecurities()
+
+  const insertSecurity = db.prepare(`
+    INSERT OR IGNORE INTO securities
+      (code, name_ko, name_en, yahoo_symbol, naver_symbol, market, exchange, asset_type, sector, currency, quote_enabled, source)
+    VALUES
+      (@code, @name_ko, @name_en, @yahoo_symbol, @naver_symbol, @market, @exchange, @asset_type, @sector, @currency, @quote_enabled, @source)
+  `)
+  const insertAlias = db.prepare('INSERT OR IGNORE INTO security_aliases (alias_key, alias, code) VALUES (?, ?, ?)')
+
+  db.transaction(() => {
+    for (const s of securities) insertSecurity.run(s)
+    for (const a of aliases) insertAlias.run(a.alias_key, a.alias, a.code)
+
+    const mappings = db.prepare('SELECT stock_name, ticker, market FROM ticker_mappings').all() as Array<{ stock_name: string; ticker: string; market: string }>
+    for (const m of mappings) {
+      syncTickerMapping(m.stock_name, m.ticker, m.market)
+    }
+  })()
+
+  invalidateSecurityIndex()
+}
+
+export function getSecurities(): Array<Security & { aliases: string | null }> {
+  const db = getDatabase()
+  return db.prepare(`
+    SELECT s.*, GROUP_CONCAT(a.alias, ', ') as aliases
+    FROM securities s
+    LEFT JOIN security_aliases a ON a.code = s.code
+    GROUP BY s.code
+    ORDER BY s.market, COALESCE(s.name_ko, s.name_en, s.code)
+  `).all() as Array<Security & { aliases: string | null }>
+}
+
+export function upsertSecurity(input: SecurityInput, source: SecuritySource = 'USER'): Security {
+  const code = input.code?.trim().toUpperCase()
+  if (!code) throw new Error('종목코드를 입력해주세요')
+  if (input.asset_type && !ASSET_TYPES.includes(input.asset_type)) {
+    throw new Error(`지원하지 않는 상품유형입니다: ${input.asset_type}`)
+  }
+
+  const db = getDatabase()
+  const existing = db.prepare('SELECT * FROM securities WHERE code = ?').get(code) as Security | undefined
+  const market = input.market || existing?.market || 'KR'
+  const merged: Security = {
+    code,
+    name_ko: input.name_ko !== undefined ? input.name_ko : existing?.name_ko ?? null,
+    name_en: input.name_en !== undefined ? input.name_en : existing?.name_en ?? null,
+    yahoo_symbol: input.yahoo_symbol !== undefined ? input.yahoo_symbol : existing?.yahoo_symbol ?? null,
+    naver_symbol: input.naver_symbol !== undefined ? input.naver_symbol : existing?.naver_symbol ?? null,
+    market,
+    exchange: input.exchange !== undefined ? input.exchange : existing?.exchange ?? null,
+    asset_type: input.asset_type || existing?.asset_type || 'STOCK',
+    sector: input.sector !== undefined ? input.sector : existing?.sector ?? null,
+    currency: (input.currency || existing?.currency || (market === 'KR' ? 'KRW' : 'USD')).toUpperCase(),
+    quote_enabled: input.quote_enabled ?? existing?.quote_enabled ?? 1,
+    source: existing && source === 'AUTO' ? existing.source : source
+  }
+
+  db.prepare(`
+    INSERT INTO securities
+      (code, name_ko, name_en, yahoo_symbol, naver_symbol, market, exchange, asset_type, sector, currency, quote_enabled, source)
+    VALUES
+      (@code, @name_ko, @name_en, @yahoo_symbol, @naver_symbol, @market, @exchange, @asset_type, @sector, @currency, @quote_enabled, @source)
+    ON CONFLICT(code) DO UPDATE SET
+      name_ko = excluded.name_ko, name_en = excluded.name_en,
+      yahoo_symbol = excluded.yahoo_symbol, naver_symbol = excluded.naver_symbol,
+      market = excluded.market, exchange = excluded.exchange, asset_type = excluded.asset_type,
+      sector = excluded.sector, currency = excluded.currency, quote_enabled = excluded.quote_enabled,
+      source = excluded.source, updated_at = datetime('now')
+  `).run(merged)
+
+  invalidateSecurityIndex()
+  return merged
+}
+
+export function deleteSecurity(code: string): void {
+  const db = getDatabase()
+  db.prepare('DELETE FROM securities WHERE code = ?').run(code.toUpperCase())
+  invalidateSecurityIndex()
+}
+
+// 같은 별칭이 다른 종목을 가리키고 있으면 새 종목으로 교체
+export function addSecurityAlias(alias: string, code: string): void {
+  const key = normalizeSecurityKey(alias)
+  if (!key) throw new Error('별칭을 입력해주세요')
+
+  const db = getDatabase()
+  db.prepare(`
+    INSERT INTO security_aliases (alias_key, alias, code) VALUES (?, ?, ?)
+    ON CONFLICT(alias_key) DO UPDATE SET alias = excluded.alias, code = excluded.code
+  `).run(key, alias.trim(), code.toUpperCase())
+  invalidateSecurityIndex()
+}
+
+export function removeSecurityAlias(alias: string): void {
+  const db = getDatabase()
+  db.prepare('DELETE FROM security_aliases WHERE alias_key = ?').run(normalizeSecurityKey(alias))
+  invalidateSecurityIndex()
+}
+
+// 설정 화면의 수동 티커 매핑 → 종목 마스터 (종목명은 별칭으로)
+// market: US, KR_KOSPI, KR_KOSDAQ
+export function syncTickerMapping(stockName: string, ticker: string, market: string): void {
+  const code = ticker.trim().toUpperCase()
+  const exchange = market.startsWith('KR_') ? market.slice(3) : null
+  const krCode = code.match(/^(\d{6})(\.K[SQ])?$/)
+
+  upsertSecurity({
+    code,
+    market: exchange ? 'KR' : market,
+    exchange,
+    yahoo_symbol: code.includes('.') || !exchange ? toYahooSymbol(code) : `${code}.${exchange === 'KOSDAQ' ? 'KQ' : 'KS'}`,
+    naver_symbol: krCode ? krCode[1] : null
+  }, 'USER')
+  addSecurityAlias(stockName, code)
+}
+
+// 시세 조회 중 찾은 코드 기억 (기존 정보는 덮어쓰지 않음)
+export function rememberSecurity(input: SecurityInput, alias?: string): void {
+  const db = getDatabase()
+  const exists = db.prepare('SELECT 1 FROM securities WHERE code = ?').get(input.code.toUpperCase())
+  if (!exists) upsertSecurity(input, 'AUTO')
+  if (alias && normalizeSecurityKey(alias) !== input.code.toUpperCase()) {
+    db.prepare('INSERT OR IGNORE INTO security_aliases (alias_key, alias, code) VALUES (?, ?, ?)')
+      .run(normalizeSecurityKey(alias), alias.trim(), input.code.toUpperCase())
+    invalidateSecurityIndex()
+  }
+}
+
+// 동일 종목 통합: 이전 코드의 마스터 정보·별칭을 대상 코드로 옮기고, 이전 코드/종목명을 별칭으로 등록
+export function mergeSecurityCodes(target: SecurityInput, sourceCodes: string[], aliases: string[]): void {
+  const db = getDatabase()
+  const code = target.code.trim().toUpperCase()
+  const exists = (c: string) => !!db.prepare('SELECT 1 FROM securities WHERE code = ?').get(c)
+
+  db.transaction(() => {
+    for (const source of sourceCodes.map(c => c.trim().toUpperCase()).filter(c => c !== code)) {
+      if (!exists(source)) continue
+      if (exists(code)) {
+        db.prepare('UPDATE security_aliases SET code = ? WHERE code = ?').run(code, source)
+        db.prepare('DELETE FROM securities WHERE code = ?').run(source)
+      } else {
+        // 대상 코드가 마스터에 없으면 이전 코드의 시세 심볼 등을 그대로 사용 (별칭은 ON UPDATE CASCADE)
+        db.prepare("UPDATE securities SET code = ?, updated_at = datetime('now') WHERE code = ?").run(code, source)
+      }
+    }
+    if (!exists(code)) upsertSecurity({ ...target, code }, 'AUTO')
+
+    for (const alias of [...sourceCodes, ...aliases]) {
+      if (normalizeSecurityKey(alias) !== code) addSecurityAlias(alias, code)
+    }
+  })()
+
+  invalidateSecurityIndex()
+}
+
+export function searchSecurities(query: string, limit: number = 10): Security[] {
+  const db = getDatabase()
+  const like = `%${query.trim()}%`
+  return db.prepare(`
+    SELECT DISTINCT s.* FROM securities s
+    LEFT JOIN security_aliases a ON a.code = s.code
+    WHERE s.code LIKE ? OR s.name_ko LIKE ? OR s.name_en LIKE ? OR a.alias LIKE ?
+    ORDER BY CASE WHEN s.code LIKE ? THEN 0 ELSE 1 END, COALESCE(s.name_ko, s.name_en, s.code)
+    LIMIT ?
+  `).all(like, like, like, like, `${query.trim()}%`, limit) as Security[]
+}
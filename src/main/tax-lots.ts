@@ -0,0 +1,325 @@
+/**
+ * Tax Lot Ledger
+ * 매수 건별 lot 기록 및 매도 시 lot 매칭 (FIFO / 이동평균 / 개별 지정)
+ * lot은 거래내역으로부터 결정적으로 재구성됨 (lot ID = 매수 거래 ID)
+ */
+
+import { getDatabase } from './database'
+
+// ===== 타입 정의 =====
+export type CostBasisMethod = 'FIFO' | 'AVERAGE' | 'SPECIFIC'
+
+export const COST_BASIS_METHODS: CostBasisMethod[] = ['FIFO', 'AVERAGE', 'SPECIFIC']
+
+export interface LedgerTransaction {
+  id: string
+  account_id: string
+  stock_code: string
+  stock_name: string
+  type: 'BUY' | 'SELL' | 'DIVIDEND'
+  quantity: number
+  price: number
+  total_amount: number
+  currency: string
+  date: string
+  fx_rate: number | null
+  fee?: number
+  tax?: number
+  created_at?: string
+}
+
+export interface TaxLot {
+  id: string                  // 매수 거래 ID
+  account_id: string
+  stock_code: string
+  stock_name: string
+  acquired_date: string
+  quantity: number            // 최초 매수 수량
+  remaining_quantity: number
+  unit_cost: number           // 매수 수수료/세금 포함 단가
+  fee: number                 // 매수 수수료+세금 (lot 전체, unit_cost에 포함됨)
+  currency: string
+  fx_rate: number | null
+}
+
+export interface LotSelection {
+  lot_id: string
+  quantity: number
+}
+
+export interface LotMatch {
+  sell_transaction_id: string
+  lot_id: string
+  account_id: string
+  stock_code: string
+  quantity: number
+  cost_basis: number          // 매수 비용 포함
+  proceeds: number            // 매도 비용 차감 후
+  fees: number                // 매수/매도 수수료+세금 중 해당 수량 비례분 (표시용, 손익에 이미 반영)
+  buy_fx_rate: number | null
+  sell_fx_rate: number | null
+  acquired_date: string
+  sold_date: string
+  method: CostBasisMethod
+}
+
+export interface LotAllocation {
+  lot_id: string
+  quantity: number
+  cost_basis: number
+}
+
+export interface TaxLotBuildResult {
+  lots: TaxLot[]
+  matches: LotMatch[]
+  unmatchedQuantity: number   // lot이 부족해 매칭되지 못한 매도 수량
+}
+
+const QUANTITY_EPSILON = 1e-9
+
+// ===== 매칭 엔진 (순수 함수) =====
+
+// 결정적 순서: 거래일 → 생성시각 → ID
+export function sortLedger<T extends { date: string; created_at?: string; id: string }>(transactions: T[]): T[] {
+  return [...transactions].sort((a, b) =>
+    a.date.localeCompare(b.date) ||
+    (a.created_at || '').localeCompare(b.created_at || '') ||
+    a.id.localeCompare(b.id)
+  )
+}
+
+function takeFifo(lots: TaxLot[], quantity: number, allocations: Map<string, number>): number {
+  let remaining = quantity
+  for (const lot of lots) {
+    if (remaining <= QUANTITY_EPSILON) break
+    if (lot.remaining_quantity <= QUANTITY_EPSILON) continue
+    const take = Math.min(lot.remaining_quantity, remaining)
+    lot.remaining_quantity -= take
+    remaining -= take
+    allocations.set(lot.id, (allocations.get(lot.id) || 0) + take)
+  }
+  return remaining
+}
+
+// 매도 수량을 lot에 배분 (lots의 remaining_quantity를 직접 차감)
+// SPECIFIC: 지정 lot 우선, 부족분은 FIFO
+// AVERAGE: 모든 lot에서 비례 차감 → 원가 = 수량 × 평균단가
+export function matchSell(
+  lots: TaxLot[],
+  quantity: number,
+  method: CostBasisMethod,
+  selections: LotSelection[] = []
+): { allocations: LotAllocation[]; unmatched: number } {
+  const open = lots.filter(l => l.remaining_quantity > QUANTITY_EPSILON)
+
+  if (method === 'AVERAGE') {
+    const totalQuantity = open.reduce((sum, l) => sum + l.remaining_quantity, 0)
+    if (totalQuantity <= QUANTITY_EPSILON) return { allocations: [], unmatched: quantity }
+
+    const matched = Math.min(quantity, totalQuantity)
+    const avgCost = open.reduce((sum, l) => sum + l.remaining_quantity * l.unit_cost, 0) / totalQuantity
+    const ratio = matched / totalQuantity
+
+    const allocations = open.map(lot => {
+      const take = lot.remaining_quantity * ratio
+      lot.remaining_quantity -= take
+      return { lot_id: lot.id, quantity: take, cost_basis: take * avgCost }
+    })
+    return { allocations, unmatched: quantity - matched }
+  }
+
+  const taken = new Map<string, number>()
+  let remaining = quantity
+
+  if (method === 'SPECIFIC') {
+    for (const selection of selections) {
+      const lot = open.find(l => l.id === selection.lot_id)
+      if (!lot || remaining <= QUANTITY_EPSILON) continue
+      const take = Math.min(lot.remaining_quantity, selection.quantity, remaining)
+      if (take <= 0) continue
+      lot.remaining_quantity -= take
+      remaining -= take
+      taken.set(lot.id, (taken.get(lot.id) || 0) + take)
+    }
+  }
+
+  remaining = takeFifo(open, remaining, taken)
+
+  const allocations = [...taken.entries()].map(([lotId, qty]) => {
+    const lot = open.find(l => l.id === lotId) as TaxLot
+    return { lot_id: lotId, quantity: qty, cost_basis: qty * lot.unit_cost }
+  })
+  return { allocations, unmatched: Math.max(remaining, 0) }
+}
+
+// 종목 하나의 거래내역으로 lot/매칭 재구성
+export function buildTaxLots(
+  transactions: LedgerTransaction[],
+  method: CostBasisMethod,
+  selectionsBySell: Map<string, LotSelection[]> = new Map()
+): TaxLotBuildResult {
+  const lots: TaxLot[] = []
+  const matches: LotMatch[] = []
+  let unmatchedQuantity = 0
+
+  for (const tx of sortLedger(transactions)) {
+    const costs = (tx.fee || 0) + (tx.tax || 0)
+
+    if (tx.type === 'BUY') {
+      // 매수 비용은 취득원가(평균단가)에 포함
+      lots.push({
+        id: tx.id,
+        account_id: tx.account_id,
+        stock_code: tx.stock_code,
+        stock_name: tx.stock_name,
+        acquired_date: tx.date,
+        quantity: tx.quantity,
+        remaining_quantity: tx.quantity,
+        unit_cost: tx.quantity > 0 ? (tx.total_amount + costs) / tx.quantity : tx.price,
+        fee: costs,
+        currency: tx.currency,
+        fx_rate: tx.fx_rate
+      })
+    } else if (tx.type === 'SELL') {
+      const { allocations, unmatched } = matchSell(lots, tx.quantity, method, selectionsBySell.get(tx.id))
+      // 매도 비용은 매도금액에서 차감
+      const unitProceeds = tx.quantity > 0 ? (tx.total_amount - costs) / tx.quantity : tx.price
+      unmatchedQuantity += unmatched
+
+      for (const allocation of allocations) {
+        const lot = lots.find(l => l.id === allocation.lot_id) as TaxLot
+        const buyFee = lot.quantity > 0 ? lot.fee * allocation.quantity / lot.quantity : 0
+        const sellFee = tx.quantity > 0 ? costs * allocation.quantity / tx.quantity : 0
+        matches.push({
+          sell_transaction_id: tx.id,
+          lot_id: allocation.lot_id,
+          account_id: tx.account_id,
+          stock_code: tx.stock_code,
+          quantity: allocation.quantity,
+          cost_basis: allocation.cost_basis,
+          proceeds: allocation.quantity * unitProceeds,
+          fees: buyFee + sellFee,
+          buy_fx_rate: lot.fx_rate,
+          sell_fx_rate: tx.fx_rate,
+          acquired_date: lot.acquired_date,
+          sold_date: tx.date,
+          method
+        })
+      }
+    }
+  }
+
+  for (const lot of lots) {
+    if (lot.remaining_quantity < QUANTITY_EPSILON) lot.remaining_quantity = 0
+  }
+
+  return { lots, matches, unmatchedQuantity }
+}
+
+// 남은 lot의 수량/평균단가
+export function summarizeOpenLots(lots: TaxLot[]): { quantity: number; avgCost: number } {
+  const open = lots.filter(l => l.remaining_quantity > QUANTITY_EPSILON)
+  const quantity = open.reduce((sum, l) => sum + l.remaining_quantity, 0)
+  const cost = open.reduce((sum, l) => sum + l.remaining_quantity * l.unit_cost, 0)
+  return { quantity, avgCost: quantity > 0 ? cost / quantity : 0 }
+}
+
+// ===== DB 연동 =====
+
+export function getCostBasisMethod(accountId: string): CostBasisMethod {
+  const db = getDatabase()
+  const row = db.prepare('SELECT cost_basis_method FROM accounts WHERE id = ?').get(accountId) as { cost_basis_method: string } | undefined
+  return row && COST_BASIS_METHODS.includes(row.cost_basis_method as CostBasisMethod)
+    ? row.cost_basis_method as CostBasisMethod
+    : 'AVERAGE'
+}
+
+export function saveLotSelections(sellTransactionId: string, selections: LotSelection[]): void {
+  const db = getDatabase()
+  db.prepare('DELETE FROM tax_lot_selections WHERE sell_transaction_id = ?').run(sellTransactionId)
+  const insert = db.prepare('INSERT INTO tax_lot_selections (sell_transaction_id, lot_id, quantity) VALUES (?, ?, ?)')
+  for (const s of selections) {
+    if (s.quantity > 0) insert.run(sellTransactionId, s.lot_id, s.quantity)
+  }
+}
+
+// 종목 하나의 lot 재구성 후 DB 반영
+export function rebuildTaxLots(accountId: string, stockCode: string): TaxLotBuildResult {
+  const db = getDatabase()
+  const method = getCostBasisMethod(accountId)
+
+  const transactions = db.prepare(`
+    SELECT id, account_id, stock_code, stock_name, type, quantity, price, total_amount, currency, date, fx_rate, fee, tax, created_at
+    FROM transactions
+    WHERE account_id = ? AND stock_code = ? AND type IN ('BUY', 'SELL')
+  `).all(accountId, stockCode) as LedgerTransaction[]
+
+  const selectionRows = db.prepare(`
+    SELECT s.sell_transaction_id, s.lot_id, s.quantity
+    FROM tax_lot_selections s
+    JOIN transactions t ON s.sell_transaction_id = t.id
+    WHERE t.account_id = ? AND t.stock_code = ?
+  `).all(accountId, stockCode) as Array<LotSelection & { sell_transaction_id: string }>
+
+  const selectionsBySell = new Map<string, LotSelection[]>()
+  for (const row of selectionRows) {
+    const list = selectionsBySell.get(row.sell_transaction_id) || []
+    list.push({ lot_id: row.lot_id, quantity: row.quantity })
+    selectionsBySell.set(row.sell_transaction_id, list)
+  }
+
+  const result = buildTaxLots(transactions, method, selectionsBySell)
+
+  const insertLot = db.prepare(`
+    INSERT INTO tax_lots (id, account_id, stock_code, stock_name, acquired_date, quantity, remaining_quantity, unit_cost, fee, currency, fx_rate)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `)
+  const insertMatch = db.prepare(`
+    INSERT INTO tax_lot_matches (id, sell_transaction_id, lot_id, account_id, stock_code, quantity, cost_basis, proceeds, fees, buy_fx_rate, sell_fx_rate, acquired_date, sold_date, method)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `)
+
+  const apply = db.transaction(() => {
+    db.prepare('DELETE FROM tax_lot_matches WHERE account_id = ? AND stock_code = ?').run(accountId, stockCode)
+    db.prepare('DELETE FROM tax_lots WHERE account_id = ? AND stock_code = ?').run(accountId, stockCode)
+
+    for (const lot of result.lots) {
+      insertLot.run(lot.id, lot.account_id, lot.stock_code, lot.stock_name, lot.acquired_date,
+        lot.quantity, lot.remaining_quantity, lot.unit_cost, lot.fee, lot.currency, lot.fx_rate)
+    }
+    result.matches.forEach((m, index) => {
+      insertMatch.run(`${m.sell_transaction_id}-${index}`, m.sell_transaction_id, m.lot_id, m.account_id, m.stock_code,
+        m.quantity, m.cost_basis, m.proceeds, m.fees, m.buy_fx_rate, m.sell_fx_rate, m.acquired_date, m.sold_date, m.method)
+    })
+  })
+  apply()
+
+  return result
+}
+
+export function rebuildAccountTaxLots(accountId: string): { stocks: number; unmatchedQuantity: number } {
+  const db = getDatabase()
+  const stocks = db.prepare(`
+    SELECT DISTINCT stock_code FROM transactions WHERE account_id = ? AND type IN ('BUY', 'SELL')
+  `).all(accountId) as Array<{ stock_code: string }>
+
+  clearOrphanTaxLots(accountId)
+
+  let unmatchedQuantity = 0
+  for (const { stock_code } of stocks) {
+    unmatchedQuantity += rebuildTaxLots(accountId, stock_code).unmatchedQuantity
+  }
+  return { stocks: stocks.length, unmatchedQuantity }
+}
+
+// 거래가 모두 삭제된 종목의 lot 정리
+export function clearOrphanTaxLots(accountId: string): void {
+  const db = getDatabase()
+  for (const table of ['tax_lot_matches', 'tax_lots']) {
+    db.prepare(`
+      DELETE FROM ${table} WHERE account_id = ? AND stock_code NOT IN (
+        SELECT DISTINCT stock_code FROM transactions WHERE account_id = ? AND type IN ('BUY', 'SELL')
+      )
+    `).run(accountId, accountId)
+  }
+}
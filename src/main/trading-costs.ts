@@ -0,0 +1,139 @@
+/**
+ * Trading Costs
+ * 거래 수수료/세금 배분 및 증권사별 연간 수수료 집계
+ * 증권사 API는 일자·종목 단위로 비용을 제공하므로 체결 건별로 배분하여 저장
+ */
+
+import { getDatabase } from './database'
+import { fetchExchangeRate } from './market-data-api'
+
+// ===== 타입 정의 =====
+export interface DailyTradeCost {
+  date: string          // YYYY-MM-DD
+  stock_code: string
+  fee: number
+  tax: number
+}
+
+export interface CostedTrade {
+  date: string
+  stock_code: string
+  type: 'BUY' | 'SELL'
+  total_amount: number
+}
+
+export interface TradeCostAllocation {
+  fee: number
+  tax: number
+}
+
+export interface FeeRecord {
+  brokerage: string
+  date: string
+  currency: string
+  fee: number
+  tax: number
+  fx_rate: number | null
+}
+
+export interface FeeSummaryRow {
+  brokerage: string
+  year: string
+  fee_krw: number
+  tax_krw: number
+  total_krw: number
+  count: number
+  fx_estimated: boolean  // 거래일 환율이 없어 현재 환율로 환산한 건 포함
+}
+
+// ===== 비용 배분 (순수 함수) =====
+
+// 금액 비례 배분, 반올림 오차는 마지막 건에 반영하여 합계 보존
+function prorate(total: number, weights: number[]): number[] {
+  const sum = weights.reduce((acc, w) => acc + w, 0)
+  if (total === 0 || weights.length === 0) return weights.map(() => 0)
+
+  let assigned = 0
+  return weights.map((w, i) => {
+    if (i === weights.length - 1) return total - assigned
+    const share = sum > 0 ? Math.round(total * w / sum) : Math.round(total / weights.length)
+    assigned += share
+    return share
+  })
+}
+
+// 수수료는 매수/매도 체결금액 비례, 세금(거래세 등)은 매도 체결에만 배분
+// (같은 일자·종목에 매도가 없으면 세금도 전체 체결에 배분)
+export function allocateTradeCosts(trades: CostedTrade[], costs: DailyTradeCost[]): TradeCostAllocation[] {
+  const allocations: TradeCostAllocation[] = trades.map(() => ({ fee: 0, tax: 0 }))
+
+  for (const cost of costs) {
+    const indexes = trades
+      .map((t, i) => (t.date === cost.date && t.stock_code === cost.stock_code ? i : -1))
+      .filter(i => i !== -1)
+    if (indexes.length === 0) continue
+
+    const fees = prorate(cost.fee, indexes.map(i => trades[i].total_amount))
+    indexes.forEach((idx, k) => { allocations[idx].fee += fees[k] })
+
+    const sells = indexes.filter(i => trades[i].type === 'SELL')
+    const taxed = sells.length > 0 ? sells : indexes
+    const taxes = prorate(cost.tax, taxed.map(i => trades[i].total_amount))
+    taxed.forEach((idx, k) => { allocations[idx].tax += taxes[k] })
+  }
+
+  return allocations
+}
+
+// ===== 수수료 집계 (순수 함수) =====
+
+export function summarizeFees(records: FeeRecord[], currentUsdRate: number): FeeSummaryRow[] {
+  const groups = new Map<string, FeeSummaryRow>()
+
+  for (const r of records) {
+    if (r.fee === 0 && r.tax === 0) continue
+
+    const year = r.date.substring(0, 4)
+    const key = `${r.brokerage}|${year}`
+    const group = groups.get(key) || {
+      brokerage: r.brokerage, year, fee_krw: 0, tax_krw: 0, total_krw: 0, count: 0, fx_estimated: false
+    }
+
+    let rate = 1
+    if (r.currency !== 'KRW') {
+      rate = r.fx_rate ?? currentUsdRate
+      if (r.fx_rate === null) group.fx_estimated = true
+    }
+
+    group.fee_krw += r.fee * rate
+    group.tax_krw += r.tax * rate
+    group.total_krw = group.fee_krw + group.tax_krw
+    group.count++
+    groups.set(key, group)
+  }
+
+  return [...groups.values()].sort((a, b) =>
+    b.year.localeCompare(a.year) || b.total_krw - a.total_krw
+  )
+}
+
+// ===== DB 조회 =====
+
+export async function getFeeSummary(userId: string): Promise<FeeSummaryRow[]> {
+  const db = getDatabase()
+
+  const records = db.prepare(`
+    SELECT a.brokerage, t.date, t.currency, t.fee, t.tax, t.fx_rate
+    FROM transactions t
+    JOIN accounts a ON t.account_id = a.id
+    WHERE a.user_id = ? AND (t.fee > 0 OR t.tax > 0)
+  `).all(userId) as FeeRecord[]
+
+  let currentUsdRate = 0
+  if (records.some(r => r.currency !== 'KRW' && r.fx_rate === null)) {
+    const fx = await fetchExchangeRate('USD', 'KRW')
+    currentUsdRate = fx.success ? fx.rate : 0
+  }
+
+  return summarizeFees(records, currentUsdRate)
+}
@@ -0,0 +1,177 @@
+/**
+ * Base-currency Valuation
+ * 통화가 다른 보유종목을 기준통화(기본 KRW)로 환산하여 합산
+ */
+
+import { getSetting, setSetting } from './database'
+import { fetchExchangeRate } from './market-data-api'
+import { getFxRateOnDate } from './fx-history'
+
+// ===== 타입 정의 =====
+export interface FxQuote {
+  currency: string          // 원 통화 (예: USD)
+  pair: string              // 환율 쌍 (예: USD/KRW)
+  rate: number              // 1 currency = rate baseCurrency (환율 없으면 0)
+  timestamp: string | null  // 환율 기준 시각
+  source: 'BASE' | 'LIVE' | 'FALLBACK' | 'MISSING'
+  error?: string
+}
+
+export interface FxTable {
+  baseCurrency: string
+  quotes: Record<string, FxQuote>
+}
+
+export interface ValuationRow {
+  currency: string
+  market_value: number
+  cost_basis: number
+}
+
+export interface CurrencySubtotal {
+  currency: string
+  market_value: number        // 원 통화 기준
+  cost_basis: number          // 원 통화 기준
+  market_value_base: number   // 기준통화 환산
+  cost_basis_base: number     // 기준통화 환산
+  fx_rate: number
+  fx_missing: boolean         // 환율이 없어 기준통화 합계에서 제외됨
+}
+
+export const DEFAULT_BASE_CURRENCY = 'KRW'
+export const SUPPORTED_BASE_CURRENCIES = ['KRW', 'USD']
+
+// ===== 기준통화 설정 =====
+export function getBaseCurrency(): string {
+  const value = getSetting('base_currency')
+  return value && SUPPORTED_BASE_CURRENCIES.includes(value) ? value : DEFAULT_BASE_CURRENCY
+}
+
+export function setBaseCurrency(currency: string): string {
+  const normalized = currency.trim().toUpperCase()
+  if (!SUPPORTED_BASE_CURRENCIES.includes(normalized)) {
+    throw new Error(`지원하지 않는 기준통화입니다: ${currency}`)
+  }
+  setSetting('base_currency', normalized)
+  return normalized
+}
+
+// ===== 환율 테이블 =====
+
+// 환율 이력(fx_rate_history)의 가장 최근 환율 (역방향 쌍만 있으면 역수)
+function lastHistoryRate(currency: string, baseCurrency: string): { rate: number; date: string } | null {
+  const today = new Date().toISOString().split('T')[0]
+  const direct = getFxRateOnDate(`${currency}/${baseCurrency}`, today)
+  if (direct && direct.rate > 0) return { rate: direct.rate, date: direct.date }
+  const inverse = getFxRateOnDate(`${baseCurrency}/${currency}`, today)
+  if (inverse && inverse.rate > 0) return { rate: 1 / inverse.rate, date: inverse.date }
+  return null
+}
+
+// 보유 통화 목록에 대해 기준통화 환율 조회
+// fetchExchangeRate가 캐시 → API → 마지막 저장 환율 순으로 fallback, 그래도 없으면 환율 이력의 마지막 값
+export async function loadFxTable(currencies: string[], baseCurrency: string = getBaseCurrency()): Promise<FxTable> {
+  const quotes: Record<string, FxQuote> = {}
+  const unique = [...new Set(currencies.map(c => (c || DEFAULT_BASE_CURRENCY).toUpperCase()))]
+
+  for (const currency of unique) {
+    const pair = `${currency}/${baseCurrency}`
+
+    if (currency === baseCurrency) {
+      quotes[currency] = { currency, pair, rate: 1, timestamp: null, source: 'BASE' }
+      continue
+    }
+
+    const result = await fetchExchangeRate(currency, baseCurrency)
+    if (result.success && result.rate > 0) {
+      quotes[currency] = {
+        currency,
+        pair,
+        rate: result.rate,
+        timestamp: result.timestamp,
+        source: result.stale || result.error ? 'FALLBACK' : 'LIVE',
+        error: result.error
+      }
+    } else {
+      const history = lastHistoryRate(currency, baseCurrency)
+      quotes[currency] = history
+        ? { currency, pair, rate: history.rate, timestamp: history.date, source: 'FALLBACK', error: `Using fx history (${history.date})` }
+        : { currency, pair, rate: 0, timestamp: null, source: 'MISSING', error: result.error || 'Rate not available' }
+    }
+  }
+
+  return { baseCurrency, quotes }
+}
+
+// 금액을 기준통화로 환산 (환율 없으면 null → 호출부에서 합계 제외)
+export function toBaseCurrency(amount: number, currency: string, fx: FxTable): number | null {
+  const key = (currency || DEFAULT_BASE_CURRENCY).toUpperCase()
+  if (key === fx.baseCurrency) return amount
+  const quote = fx.quotes[key]
+  return quote && quote.rate > 0 ? amount * quote.rate : null
+}
+
+// 응답에 포함할 환율 정보 (기준통화 자체는 제외)
+export function describeFxRates(fx: FxTable): FxQuote[] {
+  return Object.values(fx.quotes).filter(q => q.source !== 'BASE')
+}
+
+// 통화별 소계 (원 통화 + 기준통화 환산)
+export function summarizeByCurrency(rows: ValuationRow[], fx: FxTable): CurrencySubtotal[] {
+  const map = new Map<string, CurrencySubtotal>()
+
+  for (const row of rows) {
+    const currency = (row.currency || DEFAULT_BASE_CURRENCY).toUpperCase()
+    const existing = map.get(currency) || {
+      currency,
+      market_value: 0,
+      cost_basis: 0,
+      market_value_base: 0,
+      cost_basis_base: 0,
+      fx_rate: currency === fx.baseCurrency ? 1 : (fx.quotes[currency]?.rate || 0),
+      fx_missing: toBaseCurrency(0, currency, fx) === null
+    }
+    existing.market_value += row.market_value || 0
+    existing.cost_basis += row.cost_basis || 0
+    existing.market_value_base += toBaseCurrency(row.market_value || 0, currency, fx) ?? 0
+    existing.cost_basis_base += toBaseCurrency(row.cost_basis || 0, currency, fx) ?? 0
+    map.set(currency, existing)
+  }
+
+  return [...map.values()].sort((a, b) => b.market_value_base - a.market_value_base)
+}
+
+// 임의 기준(계좌유형, 증권사 등)으로 묶어 기준통화 합산
+export function aggregateInBaseCurrency<T extends ValuationRow>(
+  rows: T[],
+  keyOf: (row: T) => string,
+  fx: FxTable
+): Array<{ key: string; market_value: number; cost_basis: number }> {
+  const map = new Map<string, { key: string; market_value: number; cost_basis: number }>()
+
+  for (const row of rows) {
+    const key = keyOf(row)
+    const existing = map.get(key) || { key, market_value: 0, cost_basis: 0 }
+    existing.market_value += toBaseCurrency(row.market_value || 0, row.currency, fx) ?? 0
+    existing.cost_basis += toBaseCurrency(row.cost_basis || 0, row.currency, fx) ?? 0
+    map.set(key, existing)
+  }
+
+  return [...map.values()]
+}
+
+// 통화별 금액 목록을 기준통화 합계로
+export function sumInBaseCurrency(rows: Array<{ currency: string; amount: number }>, fx: FxTable): number {
+  return rows.reduce((sum, row) => sum + (toBaseCurrency(row.amount || 0, row.currency, fx) ?? 0), 0)
+}
+
+// 환율이 없어 합계에서 제외된 통화별 금액 (요약 화면 경고용)
+export function findUnconvertible(rows: Array<{ currency: string; amount: number }>, fx: FxTable): Array<{ currency: string; amount: number }> {
+  const map = new Map<string, number>()
+  for (const row of rows) {
+    const currency = (row.currency || DEFAULT_BASE_CURRENCY).toUpperCase()
+    if (toBaseCurrency(0, currency, fx) !== null) continue
+    map.set(currency, (map.get(currency) || 0) + (row.amount || 0))
+  }
+  return [...map.entries()].map(([currency, amount]) => ({ currency, amount }))
+}
@@ -16,9 +16,43 @@ interface Account {
   account_alias: string | null
   api_key: string | null
   api_secret: string | null
+  cost_basis_method: CostBasisMethod
+  rebalance_policy: RebalancePolicy
   created_at: string
 }
 
+type CostBasisMethod = 'FIFO' | 'AVERAGE' | 'SPECIFIC'
+type RebalancePolicy = 'AUTO' | 'FULL' | 'BUY_ONLY' | 'HOLD'
+
+interface TaxLot {
+  id: string
+  account_id: string
+  stock_code: string
+  stock_name: string
+  acquired_date: string
+  quantity: number
+  remaining_quantity: number
+  unit_cost: number
+  currency: string
+  fx_rate: number | null
+}
+
+interface TaxLotMatch {
+  id: string
+  sell_transaction_id: string
+  lot_id: string
+  account_id: string
+  stock_code: string
+  quantity: number
+  cost_basis: number
+  proceeds: number
+  acquired_date: string
+  sold_date: string
+  method: CostBasisMethod
+}
+
+type PriceBasis = 'MANUAL' | 'QUOTE' | 'BROKER'
+
 interface Holding {
   id: string
   account_id: string
@@ -26,9 +60,16 @@ interface Holding {
   stock_name: string
   quantity: number
   avg_cost: number
-  current_price: number
+  current_price: number      // 최신 시세 (quotes), 없으면 증권사 기준가
   currency: string
   last_synced: string | null
+  instrument_code?: string   // 시세 키 (종목 마스터 표준 코드)
+  price_basis?: PriceBasis
+  quote_source?: string | null
+  quote_as_of?: string | null
+  manual_valuation_date?: string | null
+  manual_note?: string | null
+  manual_expires_at?: string | null
 }
 
 interface HoldingWithAccount extends Holding {
@@ -53,34 +94,134 @@ interface Transaction {
   account_id: string
   stock_code: string
   stock_name: string
-  type: 'BUY' | 'SELL' | 'DIVIDEND'
+  type: 'BUY' | 'SELL' | 'DIVIDEND' | 'DEPOSIT' | 'WITHDRAWAL' | 'INTEREST'
   quantity: number
   price: number
   total_amount: number
   currency: string
   date: string
   is_manual: number
-  source: 'API' | 'MANUAL'
+  source: 'API' | 'MANUAL' | 'EXCEL' | 'OPENING' | 'ADJUSTMENT'
+  fx_rate: number | null
+  fee: number
+  tax: number
   created_at: string
 }
 
+interface CashBalance {
+  account_id: string
+  currency: string
+  balance: number
+  reported_balance: number | null
+  as_of: string | null
+  source: 'API' | 'MANUAL' | 'LEDGER'
+}
+
+type CorporateActionType = 'SPLIT' | 'REVERSE_SPLIT' | 'STOCK_DIVIDEND' | 'MERGER' | 'CODE_CHANGE'
+
+interface CorporateAction {
+  id: string
+  type: CorporateActionType
+  stock_code: string
+  stock_name: string
+  new_stock_code: string | null
+  new_stock_name: string | null
+  ratio_from: number
+  ratio_to: number
+  ex_date: string
+  memo: string | null
+  status: 'PENDING' | 'APPLIED' | 'UNDONE'
+  applied_at: string | null
+  undone_at: string | null
+  created_at: string
+  can_undo: boolean
+}
+
+interface ReconciliationItem {
+  stock_code: string
+  stock_name: string
+  currency: string
+  broker_quantity: number
+  broker_avg_cost: number
+  ledger_quantity: number
+  ledger_avg_cost: number
+  quantity_diff: number
+  avg_cost_diff: number
+  status: 'MATCHED' | 'QUANTITY_MISMATCH' | 'AVG_COST_MISMATCH' | 'BROKER_ONLY' | 'LEDGER_ONLY'
+  can_adjust: boolean
+}
+
+interface CashReconciliationItem {
+  currency: string
+  broker_balance: number
+  ledger_balance: number | null
+  diff: number
+  matched: boolean
+  captured_at: string
+}
+
+interface ReconciliationReport {
+  account_id: string
+  snapshot_source: 'API' | 'EXCEL' | null
+  snapshot_at: string | null
+  items: ReconciliationItem[]
+  cash: CashReconciliationItem[]
+  mismatches: number
+}
+
+interface LedgerRebuildResult {
+  success: boolean
+  stocks?: number
+  updated?: number
+  removed?: number
+  incomplete?: string[]   // 매도 수량이 매수보다 많아 보유종목을 유지한 종목코드
+  error?: string
+}
+
 interface TransactionWithAccount extends Transaction {
   brokerage: string
   account_type: string
   account_alias: string | null
 }
 
+interface FxQuote {
+  currency: string
+  pair: string
+  rate: number
+  timestamp: string | null
+  source: 'BASE' | 'LIVE' | 'FALLBACK' | 'MISSING'
+  error?: string
+}
+
+interface CurrencySubtotal {
+  currency: string
+  market_value: number
+  cost_basis: number
+  market_value_base: number
+  cost_basis_base: number
+  fx_rate: number
+  fx_missing: boolean
+}
+
 interface PortfolioSummary {
+  baseCurrency: string
+  fxRates: FxQuote[]
+  excluded: Array<{ currency: string; amount: number }>
   totalMarketValue: number
   totalCostBasis: number
+  totalCash: number
+  totalAssets: number
   totalReturn: number
   totalReturnPercent: number
-  byCurrency: Array<{ currency: string; market_value: number; cost_basis: number }>
-  byAccountType: Array<{ account_type: string; market_value: number; cost_basis: number }>
-  byBrokerage: Array<{ brokerage: string; market_value: number; cost_basis: number }>
+  byCurrency: CurrencySubtotal[]
+  byAccountType: Array<{ account_type: string; market_value: number; cost_basis: number; cash: number }>
+  byBrokerage: Array<{ brokerage: string; market_value: number; cost_basis: number; cash: number }>
 }
 
 interface PortfolioReturns {
+  baseCurrency: string
+  fxRates: FxQuote[]
+  excluded: Array<{ currency: string; amount: number }>
   dailyReturn: number
   dailyReturnPercent: number
   priceReturn: number
@@ -92,13 +233,250 @@ interface PortfolioReturns {
   totalReturnWithDividendsPercent: number
   marketValue: number
   costBasis: number
+  byCurrency: CurrencySubtotal[]
 }
 
-interface ExchangeRate {
+type PerformanceWindow = 'MTD' | 'YTD' | '1Y' | 'ALL'
+
+interface PerformanceResult {
+  start_date: string
+  end_date: string
+  start_value: number
+  end_value: number
+  net_flows: number
+  gain: number
+  twr: number | null
+  twr_annualized: number | null
+  xirr: number | null
+}
+
+interface PerformanceGroup extends PerformanceResult {
+  key: string
+  label: string
+}
+
+interface PerformanceReport {
+  baseCurrency: string
+  window: PerformanceWindow
+  household: PerformanceResult | null
+  byUser: PerformanceGroup[]
+  byAccountType: PerformanceGroup[]
+  byAccount: PerformanceGroup[]
+}
+
+type BenchmarkCode = 'KOSPI' | 'KOSDAQ' | 'SP500' | 'NASDAQ'
+
+interface BenchmarkDefinition {
+  code: BenchmarkCode
+  name: string
+  currency: string
+  yahoo_symbol: string
+  naver_symbol: string | null
+}
+
+interface BenchmarkCoverage extends BenchmarkDefinition {
+  count: number
+  first_date: string | null
+  last_date: string | null
+}
+
+interface BenchmarkSyncResult {
+  success: boolean
+  code: string
+  saved: number
+  provider?: 'YAHOO' | 'NAVER' | 'CSV'
+  error?: string
+}
+
+interface BenchmarkExcessRow {
+  key: string
+  label: string
+  start_date: string
+  end_date: string
+  twr: number | null
+  benchmark_return: number | null
+  benchmark_return_base: number | null
+  excess: number | null
+}
+
+interface BenchmarkComparison {
+  success: boolean
+  error?: string
+  baseCurrency: string
+  window: PerformanceWindow
+  benchmark: BenchmarkDefinition
+  series: Array<{ date: string; portfolio: number; benchmark: number | null; benchmark_base: number | null }>
+  household: BenchmarkExcessRow | null
+  byAccount: BenchmarkExcessRow[]
+}
+
+type AllocationDimension = 'ASSET_CLASS' | 'REGION' | 'CURRENCY' | 'STOCK'
+
+interface AllocationTarget {
+  key: string
+  weight: number
+}
+
+interface AllocationDrift {
+  key: string
+  current_value: number
+  current_weight: number
+  target_weight: number
+  target_value: number
+  drift: number
+  delta: number
+}
+
+interface RebalanceTrade {
+  action: 'BUY' | 'SELL'
+  account_id: string
+  account_label: string
+  key: string
+  stock_code: string | null
+  stock_name: string | null
+  currency: string
+  quantity: number
+  price: number
+  amount: number
+}
+
+interface RebalancePlan {
+  baseCurrency: string
+  dimension: AllocationDimension
+  user_id: string | null
+  total_value: number
+  targets: AllocationTarget[]
+  drift: AllocationDrift[]
+  trades: RebalanceTrade[]
+  unfunded: number
+  blocked: number
+}
+
+interface FxReturnItem {
+  account_id: string
+  stock_code: string
+  stock_name: string
+  currency: string
+  costFxRate: number
+  currentFxRate: number
+  lockedFx: boolean
+  costForeign: number
+  valueForeign: number
+  costBase: number
+  valueBase: number
+  priceGain: number
+  fxGain: number
+  totalGain: number
+}
+
+interface FxReturns {
+  items: FxReturnItem[]
+  totals: { costBase: number; valueBase: number; priceGain: number; fxGain: number; totalGain: number }
+}
+
+interface RealizedGainRow {
   id: string
+  sell_transaction_id: string
+  lot_id: string
+  account_id: string
+  brokerage: string
+  account_type: string
+  account_alias: string | null
+  stock_code: string
+  stock_name: string
+  currency: string
+  quantity: number
+  proceeds: number
+  cost_basis: number
+  fees: number
+  buy_fx_rate: number | null
+  sell_fx_rate: number | null
+  acquired_date: string
+  sold_date: string
+  method: CostBasisMethod
+  gain: number
+  gain_percent: number
+  holding_days: number
+  proceeds_krw: number
+  cost_basis_krw: number
+  fees_krw: number
+  gain_krw: number
+  proceeds_base: number
+  cost_basis_base: number
+  fees_base: number
+  gain_base: number
+  fx_estimated: boolean
+}
+
+interface RealizedGainGroup {
+  key: string
+  count: number
+  quantity: number
+  proceeds: number
+  cost_basis: number
+  fees: number
+  gain: number
+  gain_percent: number
+  avg_holding_days: number
+}
+
+interface RealizedGainsReport {
+  baseCurrency: string
+  rows: RealizedGainRow[]
+  years: number[]
+  summary: {
+    totals: RealizedGainGroup
+    byYear: RealizedGainGroup[]
+    byAccount: RealizedGainGroup[]
+    byAccountType: RealizedGainGroup[]
+    byStock: RealizedGainGroup[]
+  }
+}
+
+interface FeeSummaryRow {
+  brokerage: string
+  year: string
+  fee_krw: number
+  tax_krw: number
+  total_krw: number
+  count: number
+  fx_estimated: boolean
+}
+
+type SnapshotRange = '1M' | '3M' | '1Y' | 'ALL'
+
+interface NetWorthPoint {
+  date: string
+  market_value: number
+  cost_basis: number
+  cash: number
+  dividends: number
+  total: number
+}
+
+interface FxHistoryCoverage {
+  pair: string
+  count: number
+  firstDate: string | null
+  lastDate: string | null
+  standIn: number
+}
+
+interface FxBackfillResult {
+  success: boolean
+  pair: string
+  saved: number
+  standIn: number
+  lockedTransactions?: number
+  missingTransactions?: number
+  error?: string
+}
+
+interface ExchangeRate {
   currency_pair: string
   rate: number
   fetched_at: string
+  stale: boolean
 }
 
 interface ImportRow {
@@ -109,6 +487,8 @@ interface ImportRow {
   quantity: number
   price: number
   currency: string
+  fee?: number
+  tax?: number
   isValid: boolean
   errors: string[]
 }
@@ -132,6 +512,7 @@ interface ImportExecuteResult {
   success: boolean
   imported: number
   skipped: number
+  deleted?: number
   batchId?: string
   error?: string
 }
@@ -147,6 +528,7 @@ interface SyncLog {
 interface SyncResult {
   success: boolean
   synced: number
+  stocks?: Array<{ stock_code: string; stock_name: string }>
   error?: string
 }
 
@@ -172,9 +554,24 @@ interface ExchangeRateResult {
   pair: string
   rate: number
   timestamp: string
+  stale?: boolean
   error?: string
 }
 
+interface StaleQuote {
+  instrument_code: string
+  stock_name: string
+  as_of: string
+}
+
+interface MarketDataStatus {
+  offline: boolean
+  offline_since: string | null
+  quotes_as_of: string | null
+  stale_quotes: StaleQuote[]
+  exchange_rates: ExchangeRateResult[]
+}
+
 interface StockPriceResult {
   success: boolean
   stockCode: string
@@ -184,14 +581,62 @@ interface StockPriceResult {
   changePercent?: number
   currency: string
   timestamp: string
+  provider?: string
   error?: string
 }
 
+type ProviderMarket = 'KR' | 'US'
+
+interface ProviderHealth {
+  successes: number
+  failures: number
+  consecutive_failures: number
+  last_success: string | null
+  last_failure: string | null
+  last_error: string | null
+  cooling_until: string | null
+}
+
+interface ProviderStatus {
+  id: string
+  name: string
+  markets: ProviderMarket[]
+  enabled: boolean
+  supports_history: boolean
+  health: ProviderHealth
+}
+
+type HttpErrorKind = 'RATE_LIMITED' | 'SERVER' | 'CLIENT' | 'TIMEOUT' | 'NETWORK' | 'CIRCUIT_OPEN'
+
+interface HttpSourceStats {
+  id: string
+  name: string
+  requests: number
+  successes: number
+  failures: number
+  retries: number
+  errors: Record<HttpErrorKind, number>
+  last_status: number | null
+  last_error: string | null
+  last_error_at: string | null
+  last_success_at: string | null
+  breakers: Array<{ host: string; state: 'CLOSED' | 'OPEN' | 'HALF_OPEN'; consecutive_failures: number; retry_at: string | null }>
+}
+
+interface ProviderOverview {
+  providers: ProviderStatus[]
+  priority: Record<ProviderMarket, string[]>
+  disabled: string[]
+  fixturePath: string | null
+}
+
 interface BulkPriceResult {
   success: boolean
   updated: number
   failed: number
   results: StockPriceResult[]
+  manual?: number
+  canceled?: boolean
   exchangeRate?: ExchangeRateResult
 }
 
@@ -233,9 +678,29 @@ interface HoldingsSaveResult {
   success: boolean
   imported: number
   updated?: number
+  batchId?: string
   error?: string
 }
 
+interface ImportBatch {
+  id: string
+  account_id: string
+  brokerage: string
+  account_type: string
+  account_alias: string | null
+  kind: 'TRANSACTIONS' | 'HOLDINGS'
+  file_name: string | null
+  overwrite: number
+  total_rows: number
+  imported: number
+  skipped: number
+  deleted: number
+  status: 'ACTIVE' | 'UNDONE'
+  created_at: string
+  undone_at: string | null
+  can_undo: boolean       // 계좌별 가장 최근 가져오기만 되돌리기 가능
+}
+
 interface HoldingWithChange extends HoldingWithAccount {
   prev_close: number
   day_change_percent: number
@@ -343,6 +808,205 @@ interface TickerMapping {
   created_at: string
 }
 
+type SecurityAssetType = 'STOCK' | 'ETF' | 'ETN' | 'REIT' | 'FUND'
+
+interface Security {
+  code: string
+  name_ko: string | null
+  name_en: string | null
+  yahoo_symbol: string | null
+  naver_symbol: string | null
+  market: string
+  exchange: string | null
+  asset_type: SecurityAssetType
+  sector: string | null
+  currency: string
+  quote_enabled: number
+  source: 'SEED' | 'USER' | 'AUTO'
+  aliases: string | null
+}
+
+type SecurityInput = Pick<Security, 'code'> & Partial<Omit<Security, 'code' | 'source' | 'aliases'>>
+
+interface Instrument {
+  stock_code: string
+  stock_name: string
+  currency: string
+  holding_count: number
+  transaction_count: number
+}
+
+interface InstrumentMergeCandidate {
+  key: string
+  suggested_code: string
+  instruments: Instrument[]
+}
+
+interface InstrumentMergeResult {
+  success: boolean
+  target_code?: string
+  transactions?: number
+  holdings?: number
+  accounts?: number
+  error?: string
+}
+
+type ExposureDimension = 'SECTOR' | 'COUNTRY' | 'ASSET_CLASS'
+
+interface ExposureRow {
+  key: string
+  value: number
+  weight: number
+  look_through_value: number
+}
+
+interface ExposureReport {
+  baseCurrency: string
+  user_id: string | null
+  dimension: ExposureDimension
+  look_through: boolean
+  total_value: number
+  looked_through_value: number
+  rows: ExposureRow[]
+  etfs_without_data: Array<{ stock_code: string; stock_name: string; value: number }>
+}
+
+interface ConstituentCoverage {
+  etf_code: string
+  count: number
+  total_weight: number
+  imported_at: string
+}
+
+type PriceSource = 'API' | 'CSV' | 'STANDIN'
+
+interface PriceBar {
+  date: string
+  open: number | null
+  high: number | null
+  low: number | null
+  close: number
+  volume: number | null
+  source: PriceSource
+}
+
+interface PriceMarker {
+  id: string
+  date: string
+  type: 'BUY' | 'SELL' | 'DIVIDEND'
+  quantity: number
+  price: number
+  total_amount: number
+  account_id: string
+  chart_price: number | null
+}
+
+interface PriceChart {
+  stock_code: string
+  stock_name: string
+  currency: string
+  bars: PriceBar[]
+  markers: PriceMarker[]
+  coverage: { count: number; first_date: string | null; last_date: string | null; stand_in: number }
+}
+
+interface PriceHistoryResult {
+  success: boolean
+  stock_code: string
+  saved: number
+  standIn: number
+  provider?: string
+  error?: string
+}
+
+interface PriceOverride {
+  instrument_code: string
+  price: number
+  currency: string
+  valuation_date: string
+  note: string | null
+  expires_at: string | null
+  updated_at: string
+  active?: boolean
+}
+
+interface PriceOverrideInput {
+  stock_code: string
+  price: number
+  currency: string
+  valuation_date: string
+  note?: string | null
+  expires_at?: string | null
+}
+
+type ExchangeCode = 'KRX' | 'NYSE'
+
+interface RefreshConfig {
+  enabled: boolean
+  dailyBudget: number
+}
+
+interface PriceUpdateEvent {
+  exchange: ExchangeCode | 'ALL'
+  trigger: 'SCHEDULED' | 'MANUAL'
+  updated: number
+  failed: number
+  ran_at: string
+}
+
+interface ExchangeStatus {
+  code: ExchangeCode
+  name: string
+  active: boolean
+  open: boolean
+  holiday: string | null
+  runs_per_day: number
+  last_run: string | null
+  next_run: string | null
+}
+
+interface SchedulerStatus {
+  enabled: boolean
+  daily_budget: number
+  runs_today: number
+  running: boolean
+  exchanges: ExchangeStatus[]
+}
+
+interface MarketHoliday {
+  exchange: ExchangeCode
+  date: string
+  name: string | null
+  builtin: boolean
+}
+
+type JobKind = 'PRICE_REFRESH' | 'ACCOUNT_SYNC'
+type JobStatus = 'RUNNING' | 'COMPLETED' | 'CANCELED' | 'FAILED'
+
+interface JobItem {
+  key: string
+  label: string
+  success: boolean
+  error?: string
+}
+
+interface JobProgress {
+  job_id: string
+  kind: JobKind
+  status: JobStatus
+  total: number
+  completed: number
+  succeeded: number
+  failed: number
+  current: string | null
+  item?: JobItem
+  items?: JobItem[]
+  result?: BulkPriceResult | { holdings: SyncResult; transactions: SyncTransactionsResult | null }
+  error?: string
+  started_at: string
+  finished_at: string | null
+}
+
 interface FailedStock {
   stock_code: string
   stock_name: string
@@ -386,7 +1050,7 @@ interface API {
     }) => Promise<Account>
     update: (
       id: string,
-      data: { account_alias?: string; api_key?: string; api_secret?: string }
+      data: { account_alias?: string; api_key?: string; api_secret?: string; cost_basis_method?: CostBasisMethod; rebalance_policy?: RebalancePolicy }
     ) => Promise<Account>
     delete: (id: string) => Promise<{ success: boolean }>
   }
@@ -405,6 +1069,40 @@ interface API {
       current_price: number
       currency?: string
     }) => Promise<Holding>
+    rebuildAccount: (accountId: string) => Promise<LedgerRebuildResult>
+  }
+  reconciliation: {
+    getReport: (accountId: string) => Promise<ReconciliationReport>
+    addAdjustment: (accountId: string, stockCode: string, date?: string) => Promise<{ success: boolean; transactionId?: string; error?: string }>
+    acceptBroker: (accountId: string, stockCode: string) => Promise<{ success: boolean; transactionIds?: string[]; error?: string }>
+  }
+  cash: {
+    getBalances: (userId: string, accountId?: string) => Promise<CashBalance[]>
+    setBalance: (accountId: string, currency: string, balance: number, asOf?: string) => Promise<{ success: boolean; error?: string }>
+    clearBalance: (accountId: string, currency: string) => Promise<{ success: boolean }>
+  }
+  corporateAction: {
+    getAll: () => Promise<CorporateAction[]>
+    create: (data: {
+      type: CorporateActionType
+      stock_code: string
+      stock_name?: string
+      new_stock_code?: string
+      new_stock_name?: string
+      ratio_from: number
+      ratio_to: number
+      ex_date: string
+      memo?: string
+    }) => Promise<{ success: boolean; action?: CorporateAction; error?: string }>
+    delete: (id: string) => Promise<{ success: boolean; error?: string }>
+    apply: (id: string) => Promise<{ success: boolean; transactions?: number; holdings?: number; accounts?: number; skippedAccounts?: number; error?: string }>
+    undo: (id: string) => Promise<{ success: boolean; error?: string }>
+  }
+  taxLot: {
+    getByHolding: (accountId: string, stockCode: string) => Promise<TaxLot[]>
+    getOpenByAccount: (accountId: string) => Promise<TaxLot[]>
+    getMatches: (sellTransactionId: string) => Promise<TaxLotMatch[]>
+    rebuildAccount: (accountId: string) => Promise<{ success: boolean; stocks?: number; unmatchedQuantity?: number; error?: string }>
   }
   transaction: {
     getByAccount: (accountId: string, limit?: number) => Promise<Transaction[]>
@@ -413,48 +1111,118 @@ interface API {
       account_id: string
       stock_code: string
       stock_name: string
-      type: 'BUY' | 'SELL' | 'DIVIDEND'
+      type: 'BUY' | 'SELL' | 'DIVIDEND' | 'DEPOSIT' | 'WITHDRAWAL' | 'INTEREST'
       quantity: number
       price: number
       currency?: string
       date: string
       is_manual?: boolean
+      fee?: number
+      tax?: number
+      lot_selections?: Array<{ lot_id: string; quantity: number }>
     }) => Promise<Transaction>
     delete: (id: string) => Promise<{ success: boolean }>
     update: (id: string, data: {
       account_id: string
       stock_code: string
       stock_name: string
-      type: 'BUY' | 'SELL' | 'DIVIDEND'
+      type: 'BUY' | 'SELL' | 'DIVIDEND' | 'DEPOSIT' | 'WITHDRAWAL' | 'INTEREST'
       quantity: number
       price: number
       currency: string
       date: string
+      fee?: number
+      tax?: number
     }) => Promise<Transaction>
   }
   portfolio: {
     getSummary: (userId: string) => Promise<PortfolioSummary>
     getReturns: (userId: string) => Promise<PortfolioReturns>
+    getPerformance: (window?: PerformanceWindow) => Promise<PerformanceReport>
+    getFxReturns: (userId: string) => Promise<FxReturns>
+    getRealizedGains: (userId: string, year?: number) => Promise<RealizedGainsReport>
+    getFeeSummary: (userId: string) => Promise<FeeSummaryRow[]>
+  }
+  snapshot: {
+    getHistory: (userId: string, range: SnapshotRange) => Promise<{ baseCurrency: string; points: NetWorthPoint[] }>
+    record: (userId: string) => Promise<{ success: boolean; saved?: number; error?: string }>
+    backfill: (userId: string) => Promise<{ success: boolean; created?: number; from?: string | null; to?: string | null; error?: string }>
+  }
+  settings: {
+    getBaseCurrency: () => Promise<string>
+    setBaseCurrency: (currency: string) => Promise<{ success: boolean; baseCurrency?: string; error?: string }>
   }
   exchangeRate: {
     get: (currencyPair: string) => Promise<ExchangeRate | null>
     update: (currencyPair: string, rate: number) => Promise<{ success: boolean; rate: number }>
   }
+  fxHistory: {
+    getCoverage: (currencyPair?: string) => Promise<FxHistoryCoverage>
+    getRange: (currencyPair: string, startDate: string, endDate: string) => Promise<Array<{ date: string; rate: number; source: 'API' | 'CSV' | 'STANDIN' }>>
+    selectCsv: () => Promise<{ success: boolean; canceled?: boolean; filePath?: string }>
+    importCsv: (filePath: string, currencyPair?: string) => Promise<FxBackfillResult>
+    backfill: (startDate?: string, endDate?: string) => Promise<FxBackfillResult>
+  }
+  benchmark: {
+    getCoverage: () => Promise<BenchmarkCoverage[]>
+    sync: (code: BenchmarkCode, startDate?: string) => Promise<BenchmarkSyncResult>
+    selectCsv: () => Promise<{ success: boolean; filePath?: string; canceled?: boolean }>
+    importCsv: (filePath: string, code: BenchmarkCode) => Promise<BenchmarkSyncResult>
+    compare: (code: BenchmarkCode, window?: PerformanceWindow) => Promise<BenchmarkComparison>
+  }
+  exposure: {
+    getReport: (userId: string | null, dimension: ExposureDimension, lookThrough?: boolean) => Promise<ExposureReport>
+    selectCsv: () => Promise<{ success: boolean; filePath?: string; canceled?: boolean }>
+    importConstituents: (filePath: string, etfCode?: string) => Promise<{ success: boolean; etfs: number; saved: number; error?: string }>
+    getConstituentCoverage: () => Promise<ConstituentCoverage[]>
+    deleteConstituents: (etfCode: string) => Promise<{ success: boolean }>
+  }
+  priceHistory: {
+    getChart: (stockCode: string, userId: string | null, startDate?: string) => Promise<PriceChart>
+    backfill: (stockCode: string, startDate?: string) => Promise<PriceHistoryResult>
+    selectCsv: () => Promise<{ success: boolean; filePath?: string; canceled?: boolean }>
+    importCsv: (filePath: string, stockCode: string) => Promise<PriceHistoryResult>
+  }
+  rebalance: {
+    getTargets: (userId: string | null, dimension: AllocationDimension) => Promise<AllocationTarget[]>
+    setTargets: (
+      userId: string | null,
+      dimension: AllocationDimension,
+      targets: AllocationTarget[]
+    ) => Promise<{ success: boolean; targets?: AllocationTarget[]; error?: string }>
+    getPlan: (userId: string | null, dimension: AllocationDimension) => Promise<RebalancePlan>
+  }
+  security: {
+    getAll: () => Promise<Security[]>
+    upsert: (data: SecurityInput) => Promise<{ success: boolean; security?: Security; error?: string }>
+    delete: (code: string) => Promise<{ success: boolean }>
+    addAlias: (alias: string, code: string) => Promise<{ success: boolean; error?: string }>
+    removeAlias: (alias: string) => Promise<{ success: boolean }>
+  }
+  instrument: {
+    getAll: () => Promise<Instrument[]>
+    getMergeCandidates: () => Promise<InstrumentMergeCandidate[]>
+    merge: (targetCode: string, sourceCodes: string[]) => Promise<InstrumentMergeResult>
+  }
   onTriggerSync: (callback: () => void) => () => void
+  onPricesUpdated: (callback: (event: PriceUpdateEvent) => void) => () => void
+  onJobProgress: (callback: (progress: JobProgress) => void) => () => void
   requestRefresh: () => void
   import: {
     selectFile: () => Promise<{ success: boolean; canceled?: boolean; filePath?: string }>
     selectMultipleFiles: () => Promise<{ success: boolean; canceled?: boolean; filePaths: string[] }>
     parseFile: (filePath: string) => Promise<ImportResult>
-    execute: (accountId: string, rows: ImportRow[], overwrite?: boolean) => Promise<ImportExecuteResult>
+    execute: (accountId: string, rows: ImportRow[], overwrite?: boolean, fileName?: string) => Promise<ImportExecuteResult>
     getTemplate: () => Promise<{
       columns: string[]
       sampleData: (string | number)[][]
     }>
     getBrokerageList: () => Promise<BrokerageOption[]>
     parseHoldings: (filePath: string) => Promise<HoldingsImportResult>
-    saveHoldings: (accountId: string, holdings: ParsedHolding[]) => Promise<HoldingsSaveResult>
-    replaceHoldings: (accountId: string, holdings: ParsedHolding[]) => Promise<HoldingsSaveResult>
+    saveHoldings: (accountId: string, holdings: ParsedHolding[], fileName?: string) => Promise<HoldingsSaveResult>
+    replaceHoldings: (accountId: string, holdings: ParsedHolding[], fileName?: string) => Promise<HoldingsSaveResult>
+    getHistory: (userId: string) => Promise<ImportBatch[]>
+    undoBatch: (batchId: string) => Promise<{ success: boolean; deletedTransactions?: number; restoredHoldings?: number; error?: string }>
   }
   seed: {
     importDemoData: () => Promise<SeedResult>
@@ -464,15 +1232,43 @@ interface API {
     holdings: (accountId: string) => Promise<SyncResult>
     transactions: (accountId: string, startDate?: string, endDate?: string) => Promise<SyncTransactionsResult>
     all: (accountId: string) => Promise<SyncAllResult>
+    startAll: (accountId: string) => Promise<{ jobId: string }>
     getLogs: (accountId: string, limit?: number) => Promise<SyncLog[]>
     getLastSync: (accountId: string) => Promise<SyncLog | null>
   }
   marketData: {
     getExchangeRate: (from: string, to: string, forceRefresh?: boolean) => Promise<ExchangeRateResult>
+    getLastExchangeRate: (from: string, to: string) => Promise<ExchangeRateResult>
+    getStatus: (userId: string) => Promise<MarketDataStatus>
     getStockPrice: (stockCode: string) => Promise<StockPriceResult>
     updateStockPrice: (stockCode: string) => Promise<StockPriceResult>
     refreshAll: (userId: string) => Promise<BulkPriceResult>
+    startRefresh: (userId: string) => Promise<{ jobId: string }>
     clearCache: () => Promise<{ success: boolean }>
+    getProviders: () => Promise<ProviderOverview>
+    setProviderEnabled: (id: string, enabled: boolean) => Promise<{ success: boolean }>
+    setProviderPriority: (market: ProviderMarket, ids: string[]) => Promise<{ success: boolean; error?: string }>
+    resetProviderHealth: () => Promise<{ success: boolean }>
+    getHttpStats: () => Promise<HttpSourceStats[]>
+    resetHttpStats: () => Promise<{ success: boolean }>
+    selectFixture: () => Promise<{ success: boolean; filePath?: string; canceled?: boolean }>
+    setFixturePath: (filePath: string | null) => Promise<{ success: boolean; error?: string }>
+  }
+  priceOverride: {
+    getAll: () => Promise<PriceOverride[]>
+    set: (input: PriceOverrideInput) => Promise<{ success: boolean; override?: PriceOverride; error?: string }>
+    delete: (instrumentCode: string) => Promise<{ success: boolean }>
+  }
+  jobs: {
+    cancel: (jobId: string) => Promise<{ success: boolean }>
+    getRunning: () => Promise<JobProgress[]>
+  }
+  priceScheduler: {
+    getStatus: () => Promise<SchedulerStatus>
+    setConfig: (config: Partial<RefreshConfig>) => Promise<{ success: boolean; config?: RefreshConfig; error?: string }>
+    getHolidays: (exchange: ExchangeCode) => Promise<MarketHoliday[]>
+    addHoliday: (exchange: ExchangeCode, date: string, name: string | null) => Promise<{ success: boolean; error?: string }>
+    deleteHoliday: (exchange: ExchangeCode, date: string) => Promise<{ success: boolean }>
   }
   strategy: {
     getAll: (userId: string) => Promise<TradingStrategy[]>
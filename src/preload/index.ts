@@ -1,4 +1,4 @@
-import { contextBridge, ipcRenderer } from 'electron'
+import { contextBridge, ipcRenderer, IpcRendererEvent } from 'electron'
 import { electronAPI } from '@electron-toolkit/preload'
 
 // Custom APIs for renderer
@@ -23,7 +23,7 @@ const api = {
       api_key?: string
       api_secret?: string
     }) => ipcRenderer.invoke('account:create', data),
-    update: (id: string, data: { account_alias?: string; api_key?: string; api_secret?: string }) =>
+    update: (id: string, data: { account_alias?: string; api_key?: string; api_secret?: string; cost_basis_method?: 'FIFO' | 'AVERAGE' | 'SPECIFIC'; rebalance_policy?: 'AUTO' | 'FULL' | 'BUY_ONLY' | 'HOLD' }) =>
       ipcRenderer.invoke('account:update', id, data),
     delete: (id: string) => ipcRenderer.invoke('account:delete', id)
   },
@@ -48,7 +48,52 @@ const api = {
       avg_cost: number
       current_price: number
       currency?: string
-    }) => ipcRenderer.invoke('holding:upsert', data)
+    }) => ipcRenderer.invoke('holding:upsert', data),
+    rebuildAccount: (accountId: string) => ipcRenderer.invoke('holding:rebuildAccount', accountId)
+  },
+
+  // Reconciliation APIs (증권사 잔고 ↔ 거래내역 원장 대사)
+  reconciliation: {
+    getReport: (accountId: string) => ipcRenderer.invoke('reconciliation:getReport', accountId),
+    addAdjustment: (accountId: string, stockCode: string, date?: string) =>
+      ipcRenderer.invoke('reconciliation:addAdjustment', accountId, stockCode, date),
+    acceptBroker: (accountId: string, stockCode: string) =>
+      ipcRenderer.invoke('reconciliation:acceptBroker', accountId, stockCode)
+  },
+
+  // Cash APIs (예수금)
+  cash: {
+    getBalances: (userId: string, accountId?: string) => ipcRenderer.invoke('cash:getBalances', userId, accountId),
+    setBalance: (accountId: string, currency: string, balance: number, asOf?: string) =>
+      ipcRenderer.invoke('cash:setBalance', accountId, currency, balance, asOf),
+    clearBalance: (accountId: string, currency: string) => ipcRenderer.invoke('cash:clearBalance', accountId, currency)
+  },
+
+  // Corporate Action APIs (분할/병합/주식배당/합병/코드변경)
+  corporateAction: {
+    getAll: () => ipcRenderer.invoke('corporateAction:getAll'),
+    create: (data: {
+      type: 'SPLIT' | 'REVERSE_SPLIT' | 'STOCK_DIVIDEND' | 'MERGER' | 'CODE_CHANGE'
+      stock_code: string
+      stock_name?: string
+      new_stock_code?: string
+      new_stock_name?: string
+      ratio_from: number
+      ratio_to: number
+      ex_date: string
+      memo?: string
+    }) => ipcRenderer.invoke('corporateAction:create', data),
+    delete: (id: string) => ipcRenderer.invoke('corporateAction:delete', id),
+    apply: (id: string) => ipcRenderer.invoke('corporateAction:apply', id),
+    undo: (id: string) => ipcRenderer.invoke('corporateAction:undo', id)
+  },
+
+    // Tax Lot APIs (매수 lot / 매도 매칭)
+  taxLot: {
+    getByHolding: (accountId: string, stockCode: string) => ipcRenderer.invoke('taxLot:getByHolding', accountId, stockCode),
+    getOpenByAccount: (accountId: string) => ipcRenderer.invoke('taxLot:getOpenByAccount', accountId),
+    getMatches: (sellTransactionId: string) => ipcRenderer.invoke('taxLot:getMatches', sellTransactionId),
+    rebuildAccount: (accountId: string) => ipcRenderer.invoke('taxLot:rebuildAccount', accountId)
   },
 
   // Transaction APIs
@@ -61,21 +106,41 @@ const api = {
       account_id: string
       stock_code: string
       stock_name: string
-      type: 'BUY' | 'SELL' | 'DIVIDEND'
+      type: 'BUY' | 'SELL' | 'DIVIDEND' | 'DEPOSIT' | 'WITHDRAWAL' | 'INTEREST'
       quantity: number
       price: number
       currency?: string
       date: string
       is_manual?: boolean
+      fee?: number
+      tax?: number
+      lot_selections?: Array<{ lot_id: string; quantity: number }>
     }) => ipcRenderer.invoke('transaction:create', data),
     delete: (id: string) => ipcRenderer.invoke('transaction:delete', id),
-    update: (id: string, data: { account_id: string; stock_code: string; stock_name: string; type: 'BUY' | 'SELL' | 'DIVIDEND'; quantity: number; price: number; currency: string; date: string }) => ipcRenderer.invoke('transaction:update', id, data)
+    update: (id: string, data: { account_id: string; stock_code: string; stock_name: string; type: 'BUY' | 'SELL' | 'DIVIDEND' | 'DEPOSIT' | 'WITHDRAWAL' | 'INTEREST'; quantity: number; price: number; currency: string; date: string; fee?: number; tax?: number }) => ipcRenderer.invoke('transaction:update', id, data)
   },
 
   // Portfolio APIs
   portfolio: {
     getSummary: (userId: string) => ipcRenderer.invoke('portfolio:getSummary', userId),
-    getReturns: (userId: string) => ipcRenderer.invoke('portfolio:getReturns', userId)
+    getReturns: (userId: string) => ipcRenderer.invoke('portfolio:getReturns', userId),
+    getPerformance: (window?: string) => ipcRenderer.invoke('portfolio:getPerformance', window),
+    getFxReturns: (userId: string) => ipcRenderer.invoke('portfolio:getFxReturns', userId),
+    getRealizedGains: (userId: string, year?: number) => ipcRenderer.invoke('portfolio:getRealizedGains', userId, year),
+    getFeeSummary: (userId: string) => ipcRenderer.invoke('portfolio:getFeeSummary', userId)
+  },
+
+  // Portfolio Snapshot APIs (순자산 추이)
+  snapshot: {
+    getHistory: (userId: string, range: string) => ipcRenderer.invoke('snapshot:getHistory', userId, range),
+    record: (userId: string) => ipcRenderer.invoke('snapshot:record', userId),
+    backfill: (userId: string) => ipcRenderer.invoke('snapshot:backfill', userId)
+  },
+
+  // Settings APIs
+  settings: {
+    getBaseCurrency: () => ipcRenderer.invoke('settings:getBaseCurrency'),
+    setBaseCurrency: (currency: string) => ipcRenderer.invoke('settings:setBaseCurrency', currency)
   },
 
   // Exchange Rate APIs
@@ -85,12 +150,88 @@ const api = {
       ipcRenderer.invoke('exchangeRate:update', currencyPair, rate)
   },
 
+  // FX History APIs (일자별 환율)
+  fxHistory: {
+    getCoverage: (currencyPair?: string) => ipcRenderer.invoke('fxHistory:getCoverage', currencyPair),
+    getRange: (currencyPair: string, startDate: string, endDate: string) =>
+      ipcRenderer.invoke('fxHistory:getRange', currencyPair, startDate, endDate),
+    selectCsv: () => ipcRenderer.invoke('fxHistory:selectCsv'),
+    importCsv: (filePath: string, currencyPair?: string) => ipcRenderer.invoke('fxHistory:importCsv', filePath, currencyPair),
+    backfill: (startDate?: string, endDate?: string) => ipcRenderer.invoke('fxHistory:backfill', startDate, endDate)
+  },
+
+  // Benchmark APIs (지수 비교)
+  benchmark: {
+    getCoverage: () => ipcRenderer.invoke('benchmark:getCoverage'),
+    sync: (code: string, startDate?: string) => ipcRenderer.invoke('benchmark:sync', code, startDate),
+    selectCsv: () => ipcRenderer.invoke('benchmark:selectCsv'),
+    importCsv: (filePath: string, code: string) => ipcRenderer.invoke('benchmark:importCsv', filePath, code),
+    compare: (code: string, window?: string) => ipcRenderer.invoke('benchmark:compare', code, window)
+  },
+
+  // Exposure APIs (섹터/국가/자산군 노출도, userId null = 가족 전체)
+  exposure: {
+    getReport: (userId: string | null, dimension: string, lookThrough?: boolean) =>
+      ipcRenderer.invoke('exposure:getReport', userId, dimension, lookThrough),
+    selectCsv: () => ipcRenderer.invoke('exposure:selectCsv'),
+    importConstituents: (filePath: string, etfCode?: string) => ipcRenderer.invoke('exposure:importConstituents', filePath, etfCode),
+    getConstituentCoverage: () => ipcRenderer.invoke('exposure:getConstituentCoverage'),
+    deleteConstituents: (etfCode: string) => ipcRenderer.invoke('exposure:deleteConstituents', etfCode)
+  },
+
+  // Price history APIs (종목별 일봉, userId null = 가족 전체 거래 표시)
+  priceHistory: {
+    getChart: (stockCode: string, userId: string | null, startDate?: string) =>
+      ipcRenderer.invoke('priceHistory:getChart', stockCode, userId, startDate),
+    backfill: (stockCode: string, startDate?: string) => ipcRenderer.invoke('priceHistory:backfill', stockCode, startDate),
+    selectCsv: () => ipcRenderer.invoke('priceHistory:selectCsv'),
+    importCsv: (filePath: string, stockCode: string) => ipcRenderer.invoke('priceHistory:importCsv', filePath, stockCode)
+  },
+
+  // Rebalancing APIs (목표 비중, userId null = 가족 전체)
+  rebalance: {
+    getTargets: (userId: string | null, dimension: string) => ipcRenderer.invoke('rebalance:getTargets', userId, dimension),
+    setTargets: (userId: string | null, dimension: string, targets: Array<{ key: string; weight: number }>) =>
+      ipcRenderer.invoke('rebalance:setTargets', userId, dimension, targets),
+    getPlan: (userId: string | null, dimension: string) => ipcRenderer.invoke('rebalance:getPlan', userId, dimension)
+  },
+
+  // Security master APIs (종목 마스터)
+  security: {
+    getAll: () => ipcRenderer.invoke('security:getAll'),
+    upsert: (data: Record<string, unknown> & { code: string }) => ipcRenderer.invoke('security:upsert', data),
+    delete: (code: string) => ipcRenderer.invoke('security:delete', code),
+    addAlias: (alias: string, code: string) => ipcRenderer.invoke('security:addAlias', alias, code),
+    removeAlias: (alias: string) => ipcRenderer.invoke('security:removeAlias', alias)
+  },
+
+  // Instrument identity APIs (동일 종목 통합)
+  instrument: {
+    getAll: () => ipcRenderer.invoke('instrument:getAll'),
+    getMergeCandidates: () => ipcRenderer.invoke('instrument:getMergeCandidates'),
+    merge: (targetCode: string, sourceCodes: string[]) => ipcRenderer.invoke('instrument:merge', targetCode, sourceCodes)
+  },
+
   // Sync trigger
   onTriggerSync: (callback: () => void) => {
     ipcRenderer.on('trigger-sync', callback)
     return () => ipcRenderer.removeListener('trigger-sync', callback)
   },
 
+  // 백그라운드 시세 갱신 완료 이벤트
+  onPricesUpdated: (callback: (event: unknown) => void) => {
+    const listener = (_: IpcRendererEvent, event: unknown) => callback(event)
+    ipcRenderer.on('prices-updated', listener)
+    return () => ipcRenderer.removeListener('prices-updated', listener)
+  },
+
+  // 시세 갱신/동기화 작업 진행 이벤트
+  onJobProgress: (callback: (progress: unknown) => void) => {
+    const listener = (_: IpcRendererEvent, progress: unknown) => callback(progress)
+    ipcRenderer.on('job-progress', listener)
+    return () => ipcRenderer.removeListener('job-progress', listener)
+  },
+
   // Request refresh (F5)
   requestRefresh: () => ipcRenderer.send('refresh-data'),
 
@@ -109,12 +250,16 @@ const api = {
       currency: string
       isValid: boolean
       errors: string[]
-    }>, overwrite?: boolean) => ipcRenderer.invoke('import:execute', accountId, rows, overwrite),
+    }>, overwrite?: boolean, fileName?: string) => ipcRenderer.invoke('import:execute', accountId, rows, overwrite, fileName),
     getTemplate: () => ipcRenderer.invoke('import:getTemplate'),
     getBrokerageList: () => ipcRenderer.invoke('import:getBrokerageList'),
     parseHoldings: (filePath: string) => ipcRenderer.invoke('import:parseHoldings', filePath),
-    saveHoldings: (accountId: string, holdings: any[]) => ipcRenderer.invoke('import:saveHoldings', accountId, holdings),
-    replaceHoldings: (accountId: string, holdings: any[]) => ipcRenderer.invoke('import:replaceHoldings', accountId, holdings)
+    saveHoldings: (accountId: string, holdings: any[], fileName?: string) =>
+      ipcRenderer.invoke('import:saveHoldings', accountId, holdings, fileName),
+    replaceHoldings: (accountId: string, holdings: any[], fileName?: string) =>
+      ipcRenderer.invoke('import:replaceHoldings', accountId, holdings, fileName),
+    getHistory: (userId: string) => ipcRenderer.invoke('import:getHistory', userId),
+    undoBatch: (batchId: string) => ipcRenderer.invoke('import:undoBatch', batchId)
   },
 
   // KIS API Sync APIs
@@ -125,6 +270,7 @@ const api = {
     transactions: (accountId: string, startDate?: string, endDate?: string) =>
       ipcRenderer.invoke('sync:transactions', accountId, startDate, endDate),
     all: (accountId: string) => ipcRenderer.invoke('sync:all', accountId),
+    startAll: (accountId: string) => ipcRenderer.invoke('sync:startAll', accountId),
     getLogs: (accountId: string, limit?: number) =>
       ipcRenderer.invoke('sync:getLogs', accountId, limit),
     getLastSync: (accountId: string) => ipcRenderer.invoke('sync:getLastSync', accountId)
@@ -139,13 +285,55 @@ const api = {
   marketData: {
     getExchangeRate: (from: string, to: string, forceRefresh?: boolean) =>
       ipcRenderer.invoke('marketData:getExchangeRate', from, to, forceRefresh),
+    getLastExchangeRate: (from: string, to: string) =>
+      ipcRenderer.invoke('marketData:getLastExchangeRate', from, to),
+    getStatus: (userId: string) => ipcRenderer.invoke('marketData:getStatus', userId),
     getStockPrice: (stockCode: string) =>
       ipcRenderer.invoke('marketData:getStockPrice', stockCode),
     updateStockPrice: (stockCode: string) =>
       ipcRenderer.invoke('marketData:updateStockPrice', stockCode),
     refreshAll: (userId: string) =>
       ipcRenderer.invoke('marketData:refreshAll', userId),
-    clearCache: () => ipcRenderer.invoke('marketData:clearCache')
+    startRefresh: (userId: string) => ipcRenderer.invoke('marketData:startRefresh', userId),
+    clearCache: () => ipcRenderer.invoke('marketData:clearCache'),
+    getProviders: () => ipcRenderer.invoke('marketData:getProviders'),
+    setProviderEnabled: (id: string, enabled: boolean) => ipcRenderer.invoke('marketData:setProviderEnabled', id, enabled),
+    setProviderPriority: (market: string, ids: string[]) => ipcRenderer.invoke('marketData:setProviderPriority', market, ids),
+    resetProviderHealth: () => ipcRenderer.invoke('marketData:resetProviderHealth'),
+    getHttpStats: () => ipcRenderer.invoke('marketData:getHttpStats'),
+    resetHttpStats: () => ipcRenderer.invoke('marketData:resetHttpStats'),
+    selectFixture: () => ipcRenderer.invoke('marketData:selectFixture'),
+    setFixturePath: (filePath: string | null) => ipcRenderer.invoke('marketData:setFixturePath', filePath)
+  },
+
+  // Price override APIs (수동 시세)
+  priceOverride: {
+    getAll: () => ipcRenderer.invoke('priceOverride:getAll'),
+    set: (input: {
+      stock_code: string
+      price: number
+      currency: string
+      valuation_date: string
+      note?: string | null
+      expires_at?: string | null
+    }) => ipcRenderer.invoke('priceOverride:set', input),
+    delete: (instrumentCode: string) => ipcRenderer.invoke('priceOverride:delete', instrumentCode)
+  },
+
+  // Job APIs (진행 상황/취소)
+  jobs: {
+    cancel: (jobId: string) => ipcRenderer.invoke('jobs:cancel', jobId),
+    getRunning: () => ipcRenderer.invoke('jobs:getRunning')
+  },
+
+  // Price refresh scheduler APIs (백그라운드 시세 갱신)
+  priceScheduler: {
+    getStatus: () => ipcRenderer.invoke('priceScheduler:getStatus'),
+    setConfig: (config: { enabled?: boolean; dailyBudget?: number }) => ipcRenderer.invoke('priceScheduler:setConfig', config),
+    getHolidays: (exchange: string) => ipcRenderer.invoke('priceScheduler:getHolidays', exchange),
+    addHoliday: (exchange: string, date: string, name: string | null) =>
+      ipcRenderer.invoke('priceScheduler:addHoliday', exchange, date, name),
+    deleteHoliday: (exchange: string, date: string) => ipcRenderer.invoke('priceScheduler:deleteHoliday', exchange, date)
   },
 
   // Dividend Analysis APIs
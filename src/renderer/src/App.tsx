@@ -8,6 +8,7 @@ import Holdings from './pages/Holdings'
 import Import from './pages/Import'
 import Settings from './pages/Settings'
 import TradingSignals from './pages/TradingSignals'
+import Rebalancing from './pages/Rebalancing'
 
 interface User {
   id: string
@@ -94,6 +95,7 @@ function App(): JSX.Element {
         <Route path="/import" element={<Import userId={currentUserId!} />} />
         <Route path="/accounts" element={<Accounts userId={currentUserId!} />} />
         <Route path="/signals" element={<TradingSignals userId={currentUserId!} />} />
+        <Route path="/rebalancing" element={<Rebalancing userId={currentUserId!} />} />
         <Route path="/settings" element={<Settings userId={currentUserId!} />} />
       </Routes>
     </Layout>
@@ -0,0 +1,227 @@
+import { useEffect, useState } from 'react'
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts'
+
+type BenchmarkCode = 'KOSPI' | 'KOSDAQ' | 'SP500' | 'NASDAQ'
+type PerformanceWindow = 'MTD' | 'YTD' | '1Y' | 'ALL'
+
+interface BenchmarkCoverage {
+  code: BenchmarkCode
+  name: string
+  currency: string
+  count: number
+  first_date: string | null
+  last_date: string | null
+}
+
+interface BenchmarkExcessRow {
+  key: string
+  label: string
+  start_date: string
+  end_date: string
+  twr: number | null
+  benchmark_return: number | null
+  benchmark_return_base: number | null
+  excess: number | null
+}
+
+interface BenchmarkComparisonData {
+  success: boolean
+  error?: string
+  baseCurrency: string
+  benchmark: { code: BenchmarkCode; name: string; currency: string }
+  series: Array<{ date: string; portfolio: number; benchmark: number | null; benchmark_base: number | null }>
+  household: BenchmarkExcessRow | null
+  byAccount: BenchmarkExcessRow[]
+}
+
+interface BenchmarkComparisonProps {
+  refreshKey?: string | null
+}
+
+const WINDOW_LABELS: Record<PerformanceWindow, string> = {
+  MTD: '이번 달',
+  YTD: '올해',
+  '1Y': '1년',
+  ALL: '전체'
+}
+
+function formatPercent(value: number | null): string {
+  if (value === null) return '-'
+  return `${value >= 0 ? '+' : ''}${value.toFixed(2)}%`
+}
+
+function signClass(value: number | null): string {
+  if (value === null) return 'text-right'
+  return `text-right ${value >= 0 ? 'text-success' : 'text-danger'}`
+}
+
+export default function BenchmarkComparison({ refreshKey }: BenchmarkComparisonProps): JSX.Element {
+  const [coverage, setCoverage] = useState<BenchmarkCoverage[]>([])
+  const [code, setCode] = useState<BenchmarkCode>('KOSPI')
+  const [period, setPeriod] = useState<PerformanceWindow>('YTD')
+  const [comparison, setComparison] = useState<BenchmarkComparisonData | null>(null)
+  const [syncing, setSyncing] = useState(false)
+
+  const selected = coverage.find(c => c.code === code)
+  const converted = comparison ? comparison.benchmark.currency !== comparison.baseCurrency : false
+
+  useEffect(() => {
+    loadCoverage()
+  }, [])
+
+  useEffect(() => {
+    loadComparison()
+  }, [code, period, refreshKey])
+
+  const loadCoverage = async () => {
+    try {
+      setCoverage(await window.api.benchmark.getCoverage())
+    } catch (error) {
+      console.error('Failed to load benchmark coverage:', error)
+    }
+  }
+
+  const loadComparison = async () => {
+    try {
+      const result = await window.api.benchmark.compare(code, period)
+      setComparison(result.success ? result : null)
+    } catch (error) {
+      console.error('Failed to load benchmark comparison:', error)
+    }
+  }
+
+  const reload = async () => {
+    await loadCoverage()
+    await loadComparison()
+  }
+
+  const handleSync = async () => {
+    setSyncing(true)
+    try {
+      const result = await window.api.benchmark.sync(code)
+      if (!result.success) {
+        alert('지수 업데이트 실패: ' + result.error)
+      }
+      await reload()
+    } finally {
+      setSyncing(false)
+    }
+  }
+
+  const handleImportCsv = async () => {
+    const file = await window.api.benchmark.selectCsv()
+    if (!file.success || !file.filePath) return
+
+    const result = await window.api.benchmark.importCsv(file.filePath, code)
+    if (!result.success) {
+      alert('CSV 가져오기 실패: ' + result.error)
+    } else {
+      alert(`${result.saved}건의 지수 데이터를 저장했습니다.`)
+    }
+    await reload()
+  }
+
+  const rows = comparison ? [...(comparison.household ? [comparison.household] : []), ...comparison.byAccount] : []
+
+  return (
+    <div className="card">
+      <div className="card-header">
+        <h3 className="card-title">지수 대비 성과</h3>
+        <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center' }}>
+          <select value={code} onChange={(e) => setCode(e.target.value as BenchmarkCode)}>
+            {coverage.map(c => (
+              <option key={c.code} value={c.code}>{c.name}</option>
+            ))}
+          </select>
+          <button className="btn btn-sm btn-secondary" onClick={handleSync} disabled={syncing}>
+            {syncing ? '업데이트 중...' : '지수 업데이트'}
+          </button>
+          <button className="btn btn-sm btn-secondary" onClick={handleImportCsv}>
+            CSV 가져오기
+          </button>
+          <div className="view-toggle">
+            {(Object.keys(WINDOW_LABELS) as PerformanceWindow[]).map(w => (
+              <button key={w} className={period === w ? 'active' : ''} onClick={() => setPeriod(w)}>
+                {WINDOW_LABELS[w]}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {selected && (
+        <div className="text-muted" style={{ fontSize: '0.8rem', marginBottom: '0.5rem' }}>
+          {selected.count > 0
+            ? `${selected.name} 지수 ${selected.count}일 (${selected.first_date} ~ ${selected.last_date})`
+            : `${selected.name} 지수 이력이 없습니다. 지수 업데이트 또는 CSV 가져오기를 이용하세요.`}
+        </div>
+      )}
+
+      <div className="chart-container">
+        {comparison && comparison.series.length > 1 ? (
+          <ResponsiveContainer width="100%" height={250}>
+            <LineChart data={comparison.series}>
+              <CartesianGrid strokeDasharray="3 3" stroke="rgba(148, 163, 184, 0.1)" />
+              <XAxis dataKey="date" tick={{ fill: '#94a3b8', fontSize: 12 }} minTickGap={40} />
+              <YAxis tick={{ fill: '#94a3b8', fontSize: 12 }} tickFormatter={(v) => `${Number(v).toFixed(0)}%`} width={50} />
+              <Tooltip formatter={(value) => formatPercent(typeof value === 'number' ? value : null)} />
+              <Line type="monotone" dataKey="portfolio" name="포트폴리오" stroke="#3b82f6" dot={false} strokeWidth={2} />
+              <Line
+                type="monotone"
+                dataKey={converted ? 'benchmark_base' : 'benchmark'}
+                name={converted ? `${comparison.benchmark.name} (${comparison.baseCurrency} 환산)` : comparison.benchmark.name}
+                stroke="#f59e0b"
+                dot={false}
+                connectNulls
+              />
+              {converted && (
+                <Line
+                  type="monotone"
+                  dataKey="benchmark"
+                  name={`${comparison.benchmark.name} (${comparison.benchmark.currency})`}
+                  stroke="#8b5cf6"
+                  strokeDasharray="4 4"
+                  dot={false}
+                  connectNulls
+                />
+              )}
+            </LineChart>
+          </ResponsiveContainer>
+        ) : (
+          <div className="chart-empty">비교할 순자산 스냅샷이 부족합니다</div>
+        )}
+      </div>
+
+      {comparison && rows.length > 0 && (
+        <div className="table-container">
+          <table>
+            <thead>
+              <tr>
+                <th>계좌</th>
+                <th>기간</th>
+                <th className="text-right">TWR</th>
+                <th className="text-right">지수 ({comparison.benchmark.currency})</th>
+                {converted && <th className="text-right">지수 ({comparison.baseCurrency} 환산)</th>}
+                <th className="text-right">초과수익</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(row => (
+                <tr key={row.key}>
+                  <td>{row.label}</td>
+                  <td className="text-muted" style={{ fontSize: '0.8rem' }}>{row.start_date} ~ {row.end_date}</td>
+                  <td className={signClass(row.twr)}>{formatPercent(row.twr)}</td>
+                  <td className={signClass(row.benchmark_return)}>{formatPercent(row.benchmark_return)}</td>
+                  {converted && <td className={signClass(row.benchmark_return_base)}>{formatPercent(row.benchmark_return_base)}</td>}
+                  <td className={signClass(row.excess)}>
+                    {row.excess === null ? '-' : `${row.excess >= 0 ? '+' : ''}${row.excess.toFixed(2)}%p`}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,356 @@
+import { useEffect, useState } from 'react'
+
+type CorporateActionType = 'SPLIT' | 'REVERSE_SPLIT' | 'STOCK_DIVIDEND' | 'MERGER' | 'CODE_CHANGE'
+
+interface CorporateAction {
+  id: string
+  type: CorporateActionType
+  stock_code: string
+  stock_name: string
+  new_stock_code: string | null
+  new_stock_name: string | null
+  ratio_from: number
+  ratio_to: number
+  ex_date: string
+  memo: string | null
+  status: 'PENDING' | 'APPLIED' | 'UNDONE'
+  applied_at: string | null
+  undone_at: string | null
+  created_at: string
+  can_undo: boolean
+}
+
+interface CorporateActionsProps {
+  onChanged?: () => void
+}
+
+const TYPE_LABELS: Record<CorporateActionType, string> = {
+  SPLIT: '액면분할',
+  REVERSE_SPLIT: '액면병합',
+  STOCK_DIVIDEND: '주식배당',
+  MERGER: '합병',
+  CODE_CHANGE: '종목코드 변경'
+}
+
+const STATUS_LABELS: Record<CorporateAction['status'], string> = {
+  PENDING: '대기',
+  APPLIED: '적용됨',
+  UNDONE: '되돌림'
+}
+
+const initialFormData = {
+  type: 'SPLIT' as CorporateActionType,
+  stock_code: '',
+  stock_name: '',
+  new_stock_code: '',
+  new_stock_name: '',
+  ratio_from: '1',
+  ratio_to: '',
+  ex_date: new Date().toISOString().split('T')[0],
+  memo: ''
+}
+
+export default function CorporateActions({ onChanged }: CorporateActionsProps): JSX.Element {
+  const [actions, setActions] = useState<CorporateAction[]>([])
+  const [showModal, setShowModal] = useState(false)
+  const [formData, setFormData] = useState(initialFormData)
+  const [busyId, setBusyId] = useState<string | null>(null)
+
+  const renames = formData.type === 'MERGER' || formData.type === 'CODE_CHANGE'
+
+  useEffect(() => {
+    loadActions()
+  }, [])
+
+  const loadActions = async () => {
+    try {
+      setActions(await window.api.corporateAction.getAll())
+    } catch (error) {
+      console.error('Failed to load corporate actions:', error)
+    }
+  }
+
+  const closeModal = () => {
+    setShowModal(false)
+    setFormData(initialFormData)
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const result = await window.api.corporateAction.create({
+      type: formData.type,
+      stock_code: formData.stock_code.trim(),
+      stock_name: formData.stock_name.trim() || undefined,
+      new_stock_code: renames ? formData.new_stock_code.trim() : undefined,
+      new_stock_name: renames ? formData.new_stock_name.trim() || undefined : undefined,
+      ratio_from: parseFloat(formData.ratio_from),
+      ratio_to: formData.type === 'CODE_CHANGE' ? parseFloat(formData.ratio_from) : parseFloat(formData.ratio_to),
+      ex_date: formData.ex_date,
+      memo: formData.memo.trim() || undefined
+    })
+
+    if (!result.success) {
+      alert('등록 실패: ' + result.error)
+      return
+    }
+    closeModal()
+    await loadActions()
+  }
+
+  const runAction = async (
+    action: CorporateAction,
+    message: string,
+    run: (id: string) => Promise<{ success: boolean; error?: string }>
+  ) => {
+    if (!confirm(message)) return
+
+    setBusyId(action.id)
+    try {
+      const result = await run(action.id)
+      if (!result.success) {
+        alert('처리 실패: ' + result.error)
+      }
+      await loadActions()
+      onChanged?.()
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const describeAction = (action: CorporateAction): string => {
+    const name = action.stock_name || action.stock_code
+    if (action.type === 'MERGER' || action.type === 'CODE_CHANGE') {
+      return `${name} → ${action.new_stock_name || action.new_stock_code}`
+    }
+    return name
+  }
+
+  return (
+    <div className="card">
+      <div className="card-header">
+        <h3 className="card-title">기업행위</h3>
+        <button className="btn btn-sm btn-primary" onClick={() => setShowModal(true)}>
+          + 기업행위 등록
+        </button>
+      </div>
+
+      {actions.length === 0 ? (
+        <div className="empty-state">
+          <p>등록된 기업행위가 없습니다. 액면분할, 주식배당, 합병 등을 등록하면 권리락일 이전 거래의 수량과 단가가 조정됩니다.</p>
+        </div>
+      ) : (
+        <div className="table-container">
+          <table>
+            <thead>
+              <tr>
+                <th>권리락일</th>
+                <th>유형</th>
+                <th>종목</th>
+                <th className="text-right">비율</th>
+                <th>메모</th>
+                <th>상태</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {actions.map(action => (
+                <tr key={action.id} style={action.status === 'UNDONE' ? { opacity: 0.5 } : undefined}>
+                  <td>{action.ex_date}</td>
+                  <td>{TYPE_LABELS[action.type]}</td>
+                  <td>{describeAction(action)}</td>
+                  <td className="text-right">{action.ratio_from} : {action.ratio_to}</td>
+                  <td>{action.memo || '-'}</td>
+                  <td>
+                    {STATUS_LABELS[action.status]}
+                    {action.status === 'APPLIED' && (
+                      <span className="text-muted" style={{ fontSize: '0.8rem', marginLeft: '6px' }}>({action.applied_at})</span>
+                    )}
+                  </td>
+                  <td>
+                    <div style={{ display: 'flex', gap: '4px' }}>
+                      {action.status !== 'APPLIED' && (
+                        <button
+                          className="btn btn-sm btn-primary"
+                          disabled={busyId === action.id}
+                          onClick={() => runAction(
+                            action,
+                            `${describeAction(action)} ${TYPE_LABELS[action.type]}을(를) 적용합니다.\n${action.ex_date} 이전 거래내역과 보유종목의 수량·단가가 조정됩니다. 계속하시겠습니까?`,
+                            async (id) => {
+                              const result = await window.api.corporateAction.apply(id)
+                              if (result.success && result.skippedAccounts) {
+                                alert(`${result.skippedAccounts}개 계좌는 주식배당 입고(취득단가 0 매수)가 이미 기록되어 있어 조정하지 않았습니다.`)
+                              }
+                              return result
+                            }
+                          )}
+                        >
+                          적용
+                        </button>
+                      )}
+                      {action.can_undo && (
+                        <button
+                          className="btn btn-sm btn-secondary"
+                          disabled={busyId === action.id}
+                          onClick={() => runAction(
+                            action,
+                            '적용 이전 상태로 되돌립니다. 계속하시겠습니까?',
+                            window.api.corporateAction.undo
+                          )}
+                        >
+                          되돌리기
+                        </button>
+                      )}
+                      {action.status !== 'APPLIED' && (
+                        <button
+                          className="btn btn-sm btn-danger"
+                          disabled={busyId === action.id}
+                          onClick={() => runAction(action, '이 기업행위를 삭제하시겠습니까?', window.api.corporateAction.delete)}
+                        >
+                          삭제
+                        </button>
+                      )}
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {showModal && (
+        <div className="modal-overlay" onClick={closeModal}>
+          <div className="modal" onClick={(e) => e.stopPropagation()}>
+            <div className="modal-header">
+              <h2>기업행위 등록</h2>
+              <button className="modal-close" onClick={closeModal}>
+                &times;
+              </button>
+            </div>
+
+            <form onSubmit={handleSubmit}>
+              <div className="form-row">
+                <div className="form-group">
+                  <label>유형 *</label>
+                  <select
+                    value={formData.type}
+                    onChange={(e) => setFormData({ ...formData, type: e.target.value as CorporateActionType })}
+                    required
+                  >
+                    {(Object.keys(TYPE_LABELS) as CorporateActionType[]).map(type => (
+                      <option key={type} value={type}>{TYPE_LABELS[type]}</option>
+                    ))}
+                  </select>
+                </div>
+
+                <div className="form-group">
+                  <label>권리락일 *</label>
+                  <input
+                    type="date"
+                    value={formData.ex_date}
+                    onChange={(e) => setFormData({ ...formData, ex_date: e.target.value })}
+                    required
+                  />
+                </div>
+              </div>
+
+              <div className="form-row">
+                <div className="form-group">
+                  <label>종목코드 *</label>
+                  <input
+                    type="text"
+                    value={formData.stock_code}
+                    onChange={(e) => setFormData({ ...formData, stock_code: e.target.value })}
+                    placeholder="예: 005930"
+                    required
+                  />
+                </div>
+
+                <div className="form-group">
+                  <label>종목명</label>
+                  <input
+                    type="text"
+                    value={formData.stock_name}
+                    onChange={(e) => setFormData({ ...formData, stock_name: e.target.value })}
+                    placeholder="예: 삼성전자"
+                  />
+                </div>
+              </div>
+
+              {renames && (
+                <div className="form-row">
+                  <div className="form-group">
+                    <label>새 종목코드 *</label>
+                    <input
+                      type="text"
+                      value={formData.new_stock_code}
+                      onChange={(e) => setFormData({ ...formData, new_stock_code: e.target.value })}
+                      required
+                    />
+                  </div>
+
+                  <div className="form-group">
+                    <label>새 종목명</label>
+                    <input
+                      type="text"
+                      value={formData.new_stock_name}
+                      onChange={(e) => setFormData({ ...formData, new_stock_name: e.target.value })}
+                    />
+                  </div>
+                </div>
+              )}
+
+              {formData.type !== 'CODE_CHANGE' && (
+                <div className="form-row">
+                  <div className="form-group">
+                    <label>기존 주식 수 *</label>
+                    <input
+                      type="number"
+                      value={formData.ratio_from}
+                      onChange={(e) => setFormData({ ...formData, ratio_from: e.target.value })}
+                      min="0"
+                      step="any"
+                      required
+                    />
+                  </div>
+
+                  <div className="form-group">
+                    <label>조정 후 주식 수 *</label>
+                    <input
+                      type="number"
+                      value={formData.ratio_to}
+                      onChange={(e) => setFormData({ ...formData, ratio_to: e.target.value })}
+                      placeholder={formData.type === 'STOCK_DIVIDEND' ? '예: 1.05 (5% 주식배당)' : '예: 50'}
+                      min="0"
+                      step="any"
+                      required
+                    />
+                  </div>
+                </div>
+              )}
+
+              <div className="form-group">
+                <label>메모</label>
+                <input
+                  type="text"
+                  value={formData.memo}
+                  onChange={(e) => setFormData({ ...formData, memo: e.target.value })}
+                />
+              </div>
+
+              <div className="modal-footer">
+                <button type="button" className="btn btn-secondary" onClick={closeModal}>
+                  취소
+                </button>
+                <button type="submit" className="btn btn-primary">
+                  등록
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
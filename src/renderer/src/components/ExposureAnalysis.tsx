@@ -0,0 +1,241 @@
+import { useEffect, useState } from 'react'
+
+type ExposureDimension = 'SECTOR' | 'COUNTRY' | 'ASSET_CLASS'
+
+interface ExposureRow {
+  key: string
+  value: number
+  weight: number
+  look_through_value: number
+}
+
+interface ExposureReport {
+  baseCurrency: string
+  user_id: string | null
+  dimension: ExposureDimension
+  look_through: boolean
+  total_value: number
+  looked_through_value: number
+  rows: ExposureRow[]
+  etfs_without_data: Array<{ stock_code: string; stock_name: string; value: number }>
+}
+
+interface ConstituentCoverage {
+  etf_code: string
+  count: number
+  total_weight: number
+  imported_at: string
+}
+
+interface ExposureAnalysisProps {
+  userId: string
+  refreshKey?: string | null
+}
+
+const DIMENSION_LABELS: Record<ExposureDimension, string> = {
+  SECTOR: '섹터',
+  COUNTRY: '국가',
+  ASSET_CLASS: '자산군'
+}
+
+const KEY_LABELS: Record<string, string> = {
+  UNKNOWN: '미분류',
+  EQUITY: '주식',
+  BOND: '채권',
+  COMMODITY: '원자재',
+  REIT: '리츠',
+  CASH: '현금성',
+  KR: '한국',
+  US: '미국',
+  CN: '중국',
+  HK: '홍콩',
+  JP: '일본',
+  TW: '대만',
+  IN: '인도',
+  GB: '영국',
+  DE: '독일',
+  FR: '프랑스',
+  NL: '네덜란드',
+  CA: '캐나다',
+  CH: '스위스',
+  GLOBAL: '글로벌'
+}
+
+function formatCurrency(value: number, currency: string): string {
+  return new Intl.NumberFormat('ko-KR', {
+    style: 'currency',
+    currency,
+    maximumFractionDigits: currency === 'KRW' ? 0 : 2
+  }).format(value)
+}
+
+export default function ExposureAnalysis({ userId, refreshKey }: ExposureAnalysisProps): JSX.Element {
+  const [household, setHousehold] = useState(false)
+  const [dimension, setDimension] = useState<ExposureDimension>('COUNTRY')
+  const [lookThrough, setLookThrough] = useState(true)
+  const [report, setReport] = useState<ExposureReport | null>(null)
+  const [coverage, setCoverage] = useState<ConstituentCoverage[]>([])
+  const [importEtf, setImportEtf] = useState('')
+
+  useEffect(() => {
+    loadReport()
+  }, [userId, household, dimension, lookThrough, refreshKey])
+
+  const loadReport = async () => {
+    try {
+      const [reportData, coverageData] = await Promise.all([
+        window.api.exposure.getReport(household ? null : userId, dimension, lookThrough),
+        window.api.exposure.getConstituentCoverage()
+      ])
+      setReport(reportData)
+      setCoverage(coverageData)
+    } catch (error) {
+      console.error('Failed to load exposure report:', error)
+    }
+  }
+
+  const handleImportCsv = async () => {
+    const file = await window.api.exposure.selectCsv()
+    if (!file.success || !file.filePath) return
+
+    const result = await window.api.exposure.importConstituents(file.filePath, importEtf || undefined)
+    if (!result.success) {
+      alert('구성종목 가져오기 실패: ' + result.error)
+    } else {
+      alert(`ETF ${result.etfs}개, 구성종목 ${result.saved}건을 저장했습니다.`)
+    }
+    await loadReport()
+  }
+
+  const handleDeleteConstituents = async (etfCode: string) => {
+    if (!confirm(`${etfCode} 구성종목 데이터를 삭제하시겠습니까?`)) return
+    await window.api.exposure.deleteConstituents(etfCode)
+    await loadReport()
+  }
+
+  const currency = report?.baseCurrency || 'KRW'
+  const coveragePercent = report && report.total_value > 0 ? (report.looked_through_value / report.total_value) * 100 : 0
+
+  return (
+    <div className="card">
+      <div className="card-header">
+        <h3 className="card-title">노출도 ({DIMENSION_LABELS[dimension]})</h3>
+        <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center' }}>
+          <select value={household ? 'household' : 'user'} onChange={(e) => setHousehold(e.target.value === 'household')}>
+            <option value="user">현재 사용자</option>
+            <option value="household">가족 전체</option>
+          </select>
+          <div className="view-toggle">
+            {(Object.keys(DIMENSION_LABELS) as ExposureDimension[]).map(d => (
+              <button key={d} className={dimension === d ? 'active' : ''} onClick={() => setDimension(d)}>
+                {DIMENSION_LABELS[d]}
+              </button>
+            ))}
+          </div>
+          <label style={{ fontSize: '0.85rem' }}>
+            <input type="checkbox" checked={lookThrough} onChange={(e) => setLookThrough(e.target.checked)} /> ETF 투시
+          </label>
+        </div>
+      </div>
+
+      {!report || report.rows.length === 0 ? (
+        <div className="empty-state">
+          <p>보유종목이 없습니다.</p>
+        </div>
+      ) : (
+        <>
+          <div className="text-muted" style={{ fontSize: '0.85rem', marginBottom: '0.5rem' }}>
+            총 {formatCurrency(report.total_value, currency)}
+            {report.look_through && ` · ETF 투시 ${coveragePercent.toFixed(1)}%`}
+          </div>
+          <div className="table-container">
+            <table>
+              <thead>
+                <tr>
+                  <th>{DIMENSION_LABELS[dimension]}</th>
+                  <th className="text-right">평가금액</th>
+                  <th className="text-right">비중</th>
+                  <th style={{ width: '35%' }}></th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.rows.map(row => (
+                  <tr key={row.key}>
+                    <td>
+                      {KEY_LABELS[row.key] || row.key}
+                      {row.look_through_value > 0 && (
+                        <span className="text-muted" style={{ fontSize: '0.8rem' }}>
+                          {' '}(투시 {formatCurrency(row.look_through_value, currency)})
+                        </span>
+                      )}
+                    </td>
+                    <td className="text-right">{formatCurrency(row.value, currency)}</td>
+                    <td className="text-right">{row.weight.toFixed(1)}%</td>
+                    <td>
+                      <div style={{ background: 'var(--primary)', height: '8px', borderRadius: '4px', width: `${Math.min(row.weight, 100)}%` }} />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+
+      {/* ETF constituents */}
+      <div style={{ marginTop: '1rem' }}>
+        <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center', flexWrap: 'wrap' }}>
+          <strong style={{ fontSize: '0.9rem' }}>ETF 구성종목</strong>
+          <select value={importEtf} onChange={(e) => setImportEtf(e.target.value)}>
+            <option value="">파일의 ETF 코드 열 사용</option>
+            {report?.etfs_without_data.map(e => (
+              <option key={e.stock_code} value={e.stock_code}>{e.stock_name} ({e.stock_code})</option>
+            ))}
+            {coverage.map(c => (
+              <option key={c.etf_code} value={c.etf_code}>{c.etf_code} (갱신)</option>
+            ))}
+          </select>
+          <button className="btn btn-sm btn-secondary" onClick={handleImportCsv}>CSV 가져오기</button>
+          <span className="text-muted" style={{ fontSize: '0.8rem' }}>
+            열: ETF코드, 종목명, 비중(%), 종목코드, 섹터, 국가, 자산군
+          </span>
+        </div>
+
+        {report && report.etfs_without_data.length > 0 && (
+          <div className="text-muted" style={{ fontSize: '0.85rem', marginTop: '0.5rem' }}>
+            구성종목 데이터가 없는 ETF: {report.etfs_without_data.map(e => `${e.stock_name}(${e.stock_code})`).join(', ')}
+          </div>
+        )}
+
+        {coverage.length > 0 && (
+          <div className="table-container" style={{ marginTop: '0.5rem' }}>
+            <table>
+              <thead>
+                <tr>
+                  <th>ETF</th>
+                  <th className="text-right">구성종목 수</th>
+                  <th className="text-right">비중 합계</th>
+                  <th>가져온 시각</th>
+                  <th></th>
+                </tr>
+              </thead>
+              <tbody>
+                {coverage.map(c => (
+                  <tr key={c.etf_code}>
+                    <td><code>{c.etf_code}</code></td>
+                    <td className="text-right">{c.count}</td>
+                    <td className="text-right">{c.total_weight.toFixed(1)}%</td>
+                    <td>{c.imported_at}</td>
+                    <td>
+                      <button className="btn btn-sm btn-danger" onClick={() => handleDeleteConstituents(c.etf_code)}>삭제</button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,123 @@
+import { useEffect, useState } from 'react'
+
+interface FxReturnItem {
+  account_id: string
+  stock_code: string
+  stock_name: string
+  currency: string
+  costFxRate: number
+  currentFxRate: number
+  lockedFx: boolean
+  valueBase: number
+  priceGain: number
+  fxGain: number
+  totalGain: number
+}
+
+interface FxReturnTotals {
+  costBase: number
+  valueBase: number
+  priceGain: number
+  fxGain: number
+  totalGain: number
+}
+
+interface FxReturnAnalysisProps {
+  userId: string
+}
+
+function formatCurrency(value: number): string {
+  return new Intl.NumberFormat('ko-KR', { style: 'currency', currency: 'KRW' }).format(value)
+}
+
+function formatRate(value: number): string {
+  return value.toLocaleString('ko-KR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })
+}
+
+export default function FxReturnAnalysis({ userId }: FxReturnAnalysisProps): JSX.Element | null {
+  const [items, setItems] = useState<FxReturnItem[]>([])
+  const [totals, setTotals] = useState<FxReturnTotals | null>(null)
+
+  useEffect(() => {
+    loadFxReturns()
+  }, [userId])
+
+  const loadFxReturns = async () => {
+    try {
+      const result = await window.api.portfolio.getFxReturns(userId)
+      setItems(result.items)
+      setTotals(result.totals)
+    } catch (error) {
+      console.error('Failed to load FX returns:', error)
+    }
+  }
+
+  // 외화 보유종목이 없으면 표시하지 않음
+  if (!totals || items.length === 0) return null
+
+  return (
+    <div className="card">
+      <div className="card-header">
+        <h3 className="card-title">해외주식 손익 분해 (주가 / 환차익)</h3>
+      </div>
+
+      <div className="stats-grid">
+        <div className="stat-card">
+          <div className="stat-label">주가 손익</div>
+          <div className={`stat-value ${totals.priceGain >= 0 ? 'positive' : 'negative'}`}>
+            {formatCurrency(totals.priceGain)}
+          </div>
+        </div>
+        <div className="stat-card">
+          <div className="stat-label">환차익</div>
+          <div className={`stat-value ${totals.fxGain >= 0 ? 'positive' : 'negative'}`}>
+            {formatCurrency(totals.fxGain)}
+          </div>
+        </div>
+        <div className="stat-card">
+          <div className="stat-label">원화 기준 총 손익</div>
+          <div className={`stat-value ${totals.totalGain >= 0 ? 'positive' : 'negative'}`}>
+            {formatCurrency(totals.totalGain)}
+          </div>
+        </div>
+      </div>
+
+      <table>
+        <thead>
+          <tr>
+            <th>종목</th>
+            <th className="text-right">매수 환율</th>
+            <th className="text-right">현재 환율</th>
+            <th className="text-right">평가금액 (원화)</th>
+            <th className="text-right">주가 손익</th>
+            <th className="text-right">환차익</th>
+          </tr>
+        </thead>
+        <tbody>
+          {items.map(item => (
+            <tr key={`${item.account_id}-${item.stock_code}`}>
+              <td>
+                <div>{item.stock_name}</div>
+                <div className="text-muted" style={{ fontSize: '0.8rem' }}>{item.stock_code}</div>
+              </td>
+              <td className="text-right">
+                {formatRate(item.costFxRate)}
+                {!item.lockedFx && (
+                  <span className="badge" style={{ marginLeft: '6px' }} title="거래일 환율 이력이 없어 현재 환율을 사용했습니다">추정</span>
+                )}
+              </td>
+              <td className="text-right">{formatRate(item.currentFxRate)}</td>
+              <td className="text-right">{formatCurrency(item.valueBase)}</td>
+              <td className={`text-right ${item.priceGain >= 0 ? 'text-success' : 'text-danger'}`}>
+                {formatCurrency(item.priceGain)}
+              </td>
+              <td className={`text-right ${item.fxGain >= 0 ? 'text-success' : 'text-danger'}`}>
+                {formatCurrency(item.fxGain)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
@@ -0,0 +1,117 @@
+import { useEffect, useState } from 'react'
+
+type HttpErrorKind = 'RATE_LIMITED' | 'SERVER' | 'CLIENT' | 'TIMEOUT' | 'NETWORK' | 'CIRCUIT_OPEN'
+
+interface HttpSourceStats {
+  id: string
+  name: string
+  requests: number
+  successes: number
+  failures: number
+  retries: number
+  errors: Record<HttpErrorKind, number>
+  last_status: number | null
+  last_error: string | null
+  last_error_at: string | null
+  last_success_at: string | null
+  breakers: Array<{ host: string; state: 'CLOSED' | 'OPEN' | 'HALF_OPEN'; consecutive_failures: number; retry_at: string | null }>
+}
+
+const ERROR_LABELS: Record<HttpErrorKind, string> = {
+  RATE_LIMITED: '호출 제한(429)',
+  SERVER: '서버 오류(5xx)',
+  CLIENT: '요청 오류(4xx)',
+  TIMEOUT: '시간 초과',
+  NETWORK: '네트워크',
+  CIRCUIT_OPEN: '차단'
+}
+
+function formatTime(timestamp: string | null): string {
+  if (!timestamp) return '-'
+  return new Date(timestamp).toLocaleString('ko-KR', { month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit' })
+}
+
+export default function HttpSourceStats(): JSX.Element {
+  const [sources, setSources] = useState<HttpSourceStats[]>([])
+
+  useEffect(() => {
+    loadStats()
+  }, [])
+
+  const loadStats = async () => {
+    try {
+      setSources(await window.api.marketData.getHttpStats())
+    } catch (error) {
+      console.error('Failed to load HTTP stats:', error)
+    }
+  }
+
+  const handleReset = async () => {
+    await window.api.marketData.resetHttpStats()
+    await loadStats()
+  }
+
+  return (
+    <div className="card mt-2" style={{ maxWidth: '1000px' }}>
+      <div className="card-header">
+        <h3 className="card-title">외부 API 호출 상태</h3>
+        <div style={{ display: 'flex', gap: '0.5rem' }}>
+          <button className="btn btn-sm btn-secondary" onClick={loadStats}>새로고침</button>
+          <button className="btn btn-sm btn-secondary" onClick={handleReset}>초기화</button>
+        </div>
+      </div>
+
+      <p className="text-muted mt-2" style={{ fontSize: '0.85rem' }}>
+        출처별 호출 제한과 재시도를 적용합니다. 연속 5회 실패한 호스트는 1분간 호출을 차단합니다. (앱 실행 이후 집계)
+      </p>
+
+      {sources.length === 0 ? (
+        <div className="empty-state">아직 외부 API 호출 기록이 없습니다.</div>
+      ) : (
+        <div className="table-container mt-2">
+          <table>
+            <thead>
+              <tr>
+                <th>출처</th>
+                <th className="text-right">호출</th>
+                <th className="text-right">성공</th>
+                <th className="text-right">실패</th>
+                <th className="text-right">재시도</th>
+                <th>오류 유형</th>
+                <th>최근 오류</th>
+              </tr>
+            </thead>
+            <tbody>
+              {sources.map(s => {
+                const open = s.breakers.filter(b => b.state !== 'CLOSED')
+                const errorKinds = (Object.keys(ERROR_LABELS) as HttpErrorKind[]).filter(k => s.errors[k] > 0)
+                return (
+                  <tr key={s.id}>
+                    <td>
+                      {s.name}
+                      {open.map(b => (
+                        <div key={b.host} className="text-danger" style={{ fontSize: '0.8rem' }}>
+                          {b.host} {b.state === 'OPEN' ? `차단 ~${formatTime(b.retry_at)}` : '재시도 대기'}
+                        </div>
+                      ))}
+                    </td>
+                    <td className="text-right">{s.requests}</td>
+                    <td className="text-right">{s.successes}</td>
+                    <td className={`text-right ${s.failures > 0 ? 'text-danger' : ''}`}>{s.failures}</td>
+                    <td className="text-right">{s.retries}</td>
+                    <td style={{ fontSize: '0.8rem' }}>
+                      {errorKinds.length > 0 ? errorKinds.map(k => `${ERROR_LABELS[k]} ${s.errors[k]}`).join(', ') : '-'}
+                    </td>
+                    <td className="text-muted" style={{ fontSize: '0.8rem' }}>
+                      {s.last_error ? `${s.last_error} (${formatTime(s.last_error_at)})` : '-'}
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,136 @@
+import { useEffect, useState } from 'react'
+
+interface ImportBatch {
+  id: string
+  account_id: string
+  brokerage: string
+  account_type: string
+  account_alias: string | null
+  kind: 'TRANSACTIONS' | 'HOLDINGS'
+  file_name: string | null
+  overwrite: number
+  total_rows: number
+  imported: number
+  skipped: number
+  deleted: number
+  status: 'ACTIVE' | 'UNDONE'
+  created_at: string
+  undone_at: string | null
+  can_undo: boolean
+}
+
+interface ImportHistoryProps {
+  userId: string
+  refreshKey: number
+  onUndone?: () => void
+}
+
+const BROKERAGE_LABELS: Record<string, string> = {
+  KOREA_INV: '한국투자',
+  HANWHA: '한화투자',
+  MIRAE: '미래에셋',
+  SAMSUNG: '삼성증권',
+  KIWOOM: '키움증권',
+  NH: 'NH투자',
+  KB: 'KB증권',
+  TOSS: '토스증권',
+  KAKAO: '카카오페이',
+  OTHER: '기타'
+}
+
+const KIND_LABELS: Record<ImportBatch['kind'], string> = {
+  TRANSACTIONS: '거래내역',
+  HOLDINGS: '보유종목'
+}
+
+export default function ImportHistory({ userId, refreshKey, onUndone }: ImportHistoryProps): JSX.Element | null {
+  const [batches, setBatches] = useState<ImportBatch[]>([])
+  const [undoingId, setUndoingId] = useState<string | null>(null)
+
+  useEffect(() => {
+    loadHistory()
+  }, [userId, refreshKey])
+
+  const loadHistory = async () => {
+    try {
+      setBatches(await window.api.import.getHistory(userId))
+    } catch (error) {
+      console.error('Failed to load import history:', error)
+    }
+  }
+
+  const handleUndo = async (batch: ImportBatch) => {
+    if (!confirm(`${batch.file_name || '가져오기'} (${batch.created_at})를 되돌립니다.\n가져온 데이터를 삭제하고 가져오기 이전 상태로 복원합니다. 계속하시겠습니까?`)) {
+      return
+    }
+
+    setUndoingId(batch.id)
+    try {
+      const result = await window.api.import.undoBatch(batch.id)
+      if (!result.success) {
+        alert('되돌리기 실패: ' + result.error)
+      }
+      await loadHistory()
+      onUndone?.()
+    } finally {
+      setUndoingId(null)
+    }
+  }
+
+  if (batches.length === 0) return null
+
+  return (
+    <div className="card mt-2">
+      <div className="card-header">
+        <h3 className="card-title">가져오기 기록</h3>
+      </div>
+      <div className="table-container">
+        <table>
+          <thead>
+            <tr>
+              <th>일시</th>
+              <th>파일</th>
+              <th>계좌</th>
+              <th>유형</th>
+              <th className="text-right">전체</th>
+              <th className="text-right">가져옴</th>
+              <th className="text-right">건너뜀</th>
+              <th className="text-right">삭제</th>
+              <th></th>
+            </tr>
+          </thead>
+          <tbody>
+            {batches.map(batch => (
+              <tr key={batch.id} style={batch.status === 'UNDONE' ? { opacity: 0.5 } : undefined}>
+                <td>{batch.created_at}</td>
+                <td>{batch.file_name || '-'}</td>
+                <td>{batch.account_alias || BROKERAGE_LABELS[batch.brokerage] || batch.brokerage}</td>
+                <td>
+                  {KIND_LABELS[batch.kind]}
+                  {batch.overwrite === 1 && <span className="badge" style={{ marginLeft: '6px' }}>덮어쓰기</span>}
+                </td>
+                <td className="text-right">{batch.total_rows}</td>
+                <td className="text-right">{batch.imported}</td>
+                <td className="text-right">{batch.skipped}</td>
+                <td className="text-right">{batch.deleted}</td>
+                <td>
+                  {batch.status === 'UNDONE' ? (
+                    <span className="text-muted" style={{ fontSize: '0.8rem' }}>되돌림 ({batch.undone_at})</span>
+                  ) : batch.can_undo && (
+                    <button
+                      className="btn btn-sm btn-danger"
+                      onClick={() => handleUndo(batch)}
+                      disabled={undoingId === batch.id}
+                    >
+                      {undoingId === batch.id ? '되돌리는 중...' : '되돌리기'}
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,203 @@
+import { useEffect, useState } from 'react'
+
+interface Instrument {
+  stock_code: string
+  stock_name: string
+  currency: string
+  holding_count: number
+  transaction_count: number
+}
+
+interface MergeCandidate {
+  key: string
+  suggested_code: string
+  instruments: Instrument[]
+}
+
+interface InstrumentMergeProps {
+  onMerged?: () => void
+}
+
+export default function InstrumentMerge({ onMerged }: InstrumentMergeProps): JSX.Element {
+  const [candidates, setCandidates] = useState<MergeCandidate[]>([])
+  const [instruments, setInstruments] = useState<Instrument[]>([])
+  const [targets, setTargets] = useState<Record<string, string>>({})
+  const [filter, setFilter] = useState('')
+  const [selected, setSelected] = useState<string[]>([])
+  const [manualTarget, setManualTarget] = useState('')
+  const [merging, setMerging] = useState(false)
+
+  useEffect(() => {
+    loadData()
+  }, [])
+
+  const loadData = async () => {
+    try {
+      const [candidateData, instrumentData] = await Promise.all([
+        window.api.instrument.getMergeCandidates(),
+        window.api.instrument.getAll()
+      ])
+      setCandidates(candidateData)
+      setInstruments(instrumentData)
+      setTargets(Object.fromEntries(candidateData.map(c => [c.key, c.suggested_code])))
+    } catch (error) {
+      console.error('Failed to load instruments:', error)
+    }
+  }
+
+  const merge = async (targetCode: string, codes: string[]) => {
+    const sources = codes.filter(c => c !== targetCode)
+    if (sources.length === 0) {
+      alert('통합할 종목을 하나 이상 선택해주세요')
+      return
+    }
+    if (!confirm(`${sources.join(', ')} → ${targetCode}\n거래내역·보유종목·배당·매매 신호를 하나의 종목으로 통합하시겠습니까?`)) {
+      return
+    }
+
+    setMerging(true)
+    try {
+      const result = await window.api.instrument.merge(targetCode, sources)
+      if (!result.success) {
+        alert('통합 실패: ' + result.error)
+        return
+      }
+      alert(`${result.target_code}(으)로 통합했습니다 (거래 ${result.transactions}건, 보유종목 ${result.holdings}건)`)
+      setSelected([])
+      setManualTarget('')
+      await loadData()
+      onMerged?.()
+    } finally {
+      setMerging(false)
+    }
+  }
+
+  const toggleSelected = (code: string) => {
+    if (selected.includes(code)) {
+      setSelected(selected.filter(c => c !== code))
+      if (manualTarget === code) setManualTarget('')
+    } else {
+      setSelected([...selected, code])
+    }
+  }
+
+  const query = filter.trim().toLowerCase()
+  const filtered = query
+    ? instruments.filter(i => i.stock_code.toLowerCase().includes(query) || i.stock_name.toLowerCase().includes(query))
+    : instruments
+
+  return (
+    <div className="card mt-2" style={{ maxWidth: '1000px' }}>
+      <div className="card-header">
+        <h3 className="card-title">동일 종목 통합</h3>
+        <button className="btn btn-sm btn-secondary" onClick={loadData}>새로고침</button>
+      </div>
+
+      <p className="text-muted mt-2" style={{ fontSize: '0.85rem' }}>
+        증권사마다 다른 코드·종목명으로 저장된 같은 종목을 하나로 합칩니다. 이전 코드와 종목명은 종목 마스터 별칭으로 등록되어 이후 가져오기에도 적용됩니다.
+      </p>
+
+      {/* Suggested groups */}
+      {candidates.length > 0 ? (
+        <div className="table-container mt-2">
+          <table>
+            <thead>
+              <tr>
+                <th>추정 종목</th>
+                <th>코드 (통화 · 보유 · 거래)</th>
+                <th>대상 코드</th>
+                <th style={{ width: '80px' }}></th>
+              </tr>
+            </thead>
+            <tbody>
+              {candidates.map(c => (
+                <tr key={c.key}>
+                  <td>{c.instruments[0].stock_name}</td>
+                  <td>
+                    {c.instruments.map(i => (
+                      <div key={`${i.stock_code}-${i.currency}`}>
+                        <code>{i.stock_code}</code>
+                        <span className="text-muted"> {i.currency} · {i.holding_count} · {i.transaction_count}</span>
+                      </div>
+                    ))}
+                  </td>
+                  <td>
+                    <select value={targets[c.key] || c.suggested_code} onChange={(e) => setTargets({ ...targets, [c.key]: e.target.value })}>
+                      {[...new Set(c.instruments.map(i => i.stock_code))].map(code => (
+                        <option key={code} value={code}>{code}</option>
+                      ))}
+                    </select>
+                  </td>
+                  <td>
+                    <button
+                      className="btn btn-sm btn-primary"
+                      disabled={merging}
+                      onClick={() => merge(targets[c.key] || c.suggested_code, c.instruments.map(i => i.stock_code))}
+                    >
+                      통합
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <p className="text-muted mt-2">자동으로 찾은 중복 종목이 없습니다. 아래에서 직접 선택해 통합할 수 있습니다.</p>
+      )}
+
+      {/* Manual merge */}
+      <div className="form-row mt-2" style={{ gap: '0.5rem', alignItems: 'flex-end' }}>
+        <div className="form-group" style={{ flex: 2, marginBottom: 0 }}>
+          <label>종목 검색</label>
+          <input type="text" value={filter} onChange={(e) => setFilter(e.target.value)} placeholder="코드 또는 종목명" />
+        </div>
+        <div className="form-group" style={{ flex: 1, marginBottom: 0 }}>
+          <label>대상 코드</label>
+          <select value={manualTarget} onChange={(e) => setManualTarget(e.target.value)}>
+            <option value="">선택</option>
+            {selected.map(code => <option key={code} value={code}>{code}</option>)}
+          </select>
+        </div>
+        <button
+          className="btn btn-primary"
+          disabled={merging || !manualTarget || selected.length < 2}
+          onClick={() => merge(manualTarget, selected)}
+        >
+          선택 종목 통합 ({selected.length})
+        </button>
+      </div>
+
+      {query && (
+        <div className="table-container mt-2" style={{ maxHeight: '300px', overflowY: 'auto' }}>
+          <table>
+            <thead>
+              <tr>
+                <th style={{ width: '40px' }}></th>
+                <th>코드</th>
+                <th>종목명</th>
+                <th>통화</th>
+                <th className="text-right">보유</th>
+                <th className="text-right">거래</th>
+              </tr>
+            </thead>
+            <tbody>
+              {filtered.map(i => (
+                <tr key={`${i.stock_code}-${i.currency}`}>
+                  <td>
+                    <input type="checkbox" checked={selected.includes(i.stock_code)} onChange={() => toggleSelected(i.stock_code)} />
+                  </td>
+                  <td><code>{i.stock_code}</code></td>
+                  <td>{i.stock_name}</td>
+                  <td>{i.currency}</td>
+                  <td className="text-right">{i.holding_count}</td>
+                  <td className="text-right">{i.transaction_count}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,141 @@
+import { useEffect, useRef, useState } from 'react'
+
+type JobKind = 'PRICE_REFRESH' | 'ACCOUNT_SYNC'
+type JobStatus = 'RUNNING' | 'COMPLETED' | 'CANCELED' | 'FAILED'
+
+interface JobItem {
+  key: string
+  label: string
+  success: boolean
+  error?: string
+}
+
+interface JobProgress {
+  job_id: string
+  kind: JobKind
+  status: JobStatus
+  total: number
+  completed: number
+  succeeded: number
+  failed: number
+  current: string | null
+  item?: JobItem
+  items?: JobItem[]
+  error?: string
+}
+
+const KIND_LABELS: Record<JobKind, string> = {
+  PRICE_REFRESH: '시세 갱신',
+  ACCOUNT_SYNC: '증권사 동기화'
+}
+
+// 작업 시작 → jobId 기준으로 진행 이벤트 수신 (응답보다 먼저 도착한 이벤트도 반영)
+export function useJob(onFinish?: (job: JobProgress) => void) {
+  const [job, setJob] = useState<JobProgress | null>(null)
+  const [starting, setStarting] = useState(false)
+  const jobIdRef = useRef<string | null>(null)
+  const earlyRef = useRef<Map<string, JobProgress>>(new Map())
+  const onFinishRef = useRef(onFinish)
+  onFinishRef.current = onFinish
+
+  const apply = (progress: JobProgress) => {
+    setJob(progress)
+    if (progress.status !== 'RUNNING') {
+      jobIdRef.current = null
+      onFinishRef.current?.(progress)
+    }
+  }
+
+  useEffect(() => {
+    return window.api.onJobProgress((progress) => {
+      if (progress.job_id === jobIdRef.current) {
+        apply(progress)
+      } else {
+        earlyRef.current.set(progress.job_id, progress)
+      }
+    })
+  }, [])
+
+  const start = async (launch: () => Promise<{ jobId: string }>) => {
+    setStarting(true)
+    setJob(null)
+    try {
+      const { jobId } = await launch()
+      jobIdRef.current = jobId
+      const early = earlyRef.current.get(jobId)
+      earlyRef.current.clear()
+      if (early) apply(early)
+    } finally {
+      setStarting(false)
+    }
+  }
+
+  const cancel = async () => {
+    if (job) await window.api.jobs.cancel(job.job_id)
+  }
+
+  return {
+    job,
+    running: starting || job?.status === 'RUNNING',
+    start,
+    cancel,
+    dismiss: () => setJob(null)
+  }
+}
+
+interface JobProgressBarProps {
+  job: JobProgress | null
+  onCancel: () => void
+  onDismiss: () => void
+}
+
+export default function JobProgressBar({ job, onCancel, onDismiss }: JobProgressBarProps): JSX.Element | null {
+  if (!job) return null
+
+  const percent = job.total > 0 ? Math.min(100, Math.round((job.completed / job.total) * 100)) : 0
+  const running = job.status === 'RUNNING'
+  const failures = (job.items || []).filter(i => !i.success)
+
+  const summary = (): string => {
+    if (job.status === 'FAILED') return `${KIND_LABELS[job.kind]} 실패: ${job.error}`
+    const counts = `성공 ${job.succeeded}건, 실패 ${job.failed}건`
+    if (job.status === 'CANCELED') return `${KIND_LABELS[job.kind]} 취소됨 (${job.completed}/${job.total} 처리, ${counts})`
+    return `${KIND_LABELS[job.kind]} 완료 (${counts})`
+  }
+
+  return (
+    <div className="card job-progress">
+      <div className="job-progress-header">
+        <span className={!running && (job.status === 'FAILED' || failures.length > 0) ? 'text-danger' : ''}>
+          {running ? `${KIND_LABELS[job.kind]} 중... ${job.completed}/${job.total}` : summary()}
+        </span>
+        {running ? (
+          <button className="btn btn-sm btn-secondary" onClick={onCancel}>취소</button>
+        ) : (
+          <button className="btn btn-sm btn-secondary" onClick={onDismiss}>닫기</button>
+        )}
+      </div>
+
+      {running && (
+        <>
+          <div className="progress-bar">
+            <div className="progress-bar-fill" style={{ width: `${percent}%` }} />
+          </div>
+          {job.current && (
+            <div className="text-muted" style={{ fontSize: '0.8rem' }}>{job.current}</div>
+          )}
+        </>
+      )}
+
+      {!running && failures.length > 0 && (
+        <ul className="job-progress-failures">
+          {failures.map(f => (
+            <li key={f.key}>
+              <strong>{f.label}</strong> <span className="text-muted">{f.error || '알 수 없는 오류'}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -103,6 +103,10 @@ export default function Layout({
             <span className="nav-icon">📈</span>
             매매 신호
           </NavLink>
+          <NavLink to="/rebalancing" className={({ isActive }) => (isActive ? 'active' : '')}>
+            <span className="nav-icon">⚖️</span>
+            리밸런싱
+          </NavLink>
           <NavLink to="/settings" className={({ isActive }) => (isActive ? 'active' : '')}>
             <span className="nav-icon">⚙️</span>
             설정
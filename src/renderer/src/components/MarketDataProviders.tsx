@@ -0,0 +1,188 @@
+import { useEffect, useState } from 'react'
+
+type ProviderMarket = 'KR' | 'US'
+
+interface ProviderHealth {
+  successes: number
+  failures: number
+  consecutive_failures: number
+  last_success: string | null
+  last_failure: string | null
+  last_error: string | null
+  cooling_until: string | null
+}
+
+interface ProviderStatus {
+  id: string
+  name: string
+  markets: ProviderMarket[]
+  enabled: boolean
+  supports_history: boolean
+  health: ProviderHealth
+}
+
+interface ProviderOverview {
+  providers: ProviderStatus[]
+  priority: Record<ProviderMarket, string[]>
+  disabled: string[]
+  fixturePath: string | null
+}
+
+const MARKET_LABELS: Record<ProviderMarket, string> = {
+  KR: '국내',
+  US: '해외'
+}
+
+function formatTime(timestamp: string | null): string {
+  if (!timestamp) return '-'
+  return new Date(timestamp).toLocaleString('ko-KR', { month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit' })
+}
+
+// 저장된 우선순위 순 → 나머지는 등록 순 (메인 프로세스 정렬과 동일)
+function orderedFor(overview: ProviderOverview, market: ProviderMarket): ProviderStatus[] {
+  const priority = overview.priority[market]
+  const rank = (id: string): number => (priority.includes(id) ? priority.indexOf(id) : priority.length)
+  return overview.providers
+    .map((p, order) => ({ p, order }))
+    .filter(({ p }) => p.markets.includes(market))
+    .sort((a, b) => rank(a.p.id) - rank(b.p.id) || a.order - b.order)
+    .map(({ p }) => p)
+}
+
+export default function MarketDataProviders(): JSX.Element {
+  const [overview, setOverview] = useState<ProviderOverview | null>(null)
+
+  useEffect(() => {
+    loadProviders()
+  }, [])
+
+  const loadProviders = async () => {
+    try {
+      setOverview(await window.api.marketData.getProviders())
+    } catch (error) {
+      console.error('Failed to load market data providers:', error)
+    }
+  }
+
+  const handleToggle = async (provider: ProviderStatus) => {
+    await window.api.marketData.setProviderEnabled(provider.id, !provider.enabled)
+    await loadProviders()
+  }
+
+  const handleMove = async (market: ProviderMarket, index: number, direction: -1 | 1) => {
+    if (!overview) return
+    const ids = orderedFor(overview, market).map(p => p.id)
+    const target = index + direction
+    if (target < 0 || target >= ids.length) return
+    ;[ids[index], ids[target]] = [ids[target], ids[index]]
+
+    const result = await window.api.marketData.setProviderPriority(market, ids)
+    if (!result.success) {
+      alert('우선순위 저장 실패: ' + result.error)
+    }
+    await loadProviders()
+  }
+
+  const handleSelectFixture = async () => {
+    const file = await window.api.marketData.selectFixture()
+    if (!file.success || !file.filePath) return
+
+    const result = await window.api.marketData.setFixturePath(file.filePath)
+    if (!result.success) {
+      alert('픽스처 파일 설정 실패: ' + result.error)
+    }
+    await loadProviders()
+  }
+
+  const handleClearFixture = async () => {
+    await window.api.marketData.setFixturePath(null)
+    await loadProviders()
+  }
+
+  const handleResetHealth = async () => {
+    await window.api.marketData.resetProviderHealth()
+    await loadProviders()
+  }
+
+  if (!overview) {
+    return <div className="card mt-2" style={{ maxWidth: '1000px' }}><p className="text-muted">불러오는 중...</p></div>
+  }
+
+  return (
+    <div className="card mt-2" style={{ maxWidth: '1000px' }}>
+      <div className="card-header">
+        <h3 className="card-title">시세 공급자</h3>
+        <button className="btn btn-sm btn-secondary" onClick={handleResetHealth}>상태 초기화</button>
+      </div>
+
+      <p className="text-muted mt-2" style={{ fontSize: '0.85rem' }}>
+        시장별 우선순위대로 시세를 조회합니다. 연속 3회 실패한 공급자는 5분간 후순위로 밀립니다.
+      </p>
+
+      <div className="table-container mt-2">
+        <table>
+          <thead>
+            <tr>
+              <th>공급자</th>
+              <th>시장</th>
+              <th className="text-right">성공</th>
+              <th className="text-right">실패</th>
+              <th>최근 성공</th>
+              <th>최근 오류</th>
+              <th style={{ width: '80px' }}>사용</th>
+            </tr>
+          </thead>
+          <tbody>
+            {overview.providers.map(p => (
+              <tr key={p.id}>
+                <td>
+                  {p.name} <code className="text-muted">{p.id}</code>
+                  {p.health.cooling_until && new Date(p.health.cooling_until) > new Date() && (
+                    <span className="text-danger" style={{ fontSize: '0.8rem' }}> (대기 ~{formatTime(p.health.cooling_until)})</span>
+                  )}
+                </td>
+                <td>{p.markets.map(m => MARKET_LABELS[m]).join(', ')}{p.supports_history ? ' · 일봉' : ''}</td>
+                <td className="text-right">{p.health.successes}</td>
+                <td className="text-right">{p.health.failures}</td>
+                <td>{formatTime(p.health.last_success)}</td>
+                <td className="text-muted" style={{ fontSize: '0.8rem' }}>{p.health.last_error || '-'}</td>
+                <td>
+                  <input type="checkbox" checked={p.enabled} onChange={() => handleToggle(p)} />
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="form-row mt-2" style={{ gap: '1rem', alignItems: 'flex-start' }}>
+        {(Object.keys(MARKET_LABELS) as ProviderMarket[]).map(market => (
+          <div key={market} style={{ flex: 1 }}>
+            <strong style={{ fontSize: '0.9rem' }}>{MARKET_LABELS[market]} 조회 순서</strong>
+            {orderedFor(overview, market).map((p, index, list) => (
+              <div key={p.id} style={{ display: 'flex', gap: '4px', alignItems: 'center', marginTop: '4px' }}>
+                <span style={{ flex: 1 }} className={p.enabled ? '' : 'text-muted'}>
+                  {index + 1}. {p.name}{p.enabled ? '' : ' (사용 안 함)'}
+                </span>
+                <button className="btn btn-sm btn-secondary" disabled={index === 0} onClick={() => handleMove(market, index, -1)}>↑</button>
+                <button className="btn btn-sm btn-secondary" disabled={index === list.length - 1} onClick={() => handleMove(market, index, 1)}>↓</button>
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+
+      <div className="form-row mt-2" style={{ gap: '0.5rem', alignItems: 'center', flexWrap: 'wrap' }}>
+        <strong style={{ fontSize: '0.9rem' }}>픽스처 파일</strong>
+        <code style={{ fontSize: '0.8rem' }}>{overview.fixturePath || '지정 안 함'}</code>
+        <button className="btn btn-sm btn-secondary" onClick={handleSelectFixture}>파일 선택</button>
+        {overview.fixturePath && (
+          <button className="btn btn-sm btn-danger" onClick={handleClearFixture}>해제</button>
+        )}
+        <span className="text-muted" style={{ fontSize: '0.8rem' }}>
+          네트워크 없이 JSON 파일의 시세·일봉을 사용합니다. 네이버/Yahoo를 끄면 완전 오프라인으로 동작합니다.
+        </span>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,91 @@
+import { useCallback, useEffect, useState } from 'react'
+
+interface ExchangeRateResult {
+  success: boolean
+  pair: string
+  rate: number
+  timestamp: string
+  stale?: boolean
+}
+
+interface MarketDataStatus {
+  offline: boolean
+  offline_since: string | null
+  quotes_as_of: string | null
+  stale_quotes: Array<{ instrument_code: string; stock_name: string; as_of: string }>
+  exchange_rates: ExchangeRateResult[]
+}
+
+function formatDateTime(timestamp: string): string {
+  return new Date(timestamp).toLocaleString('ko-KR', { month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit' })
+}
+
+// 저장된 시세·환율 상태 (시세 갱신 이벤트, 브라우저 온라인/오프라인 전환 시 다시 조회)
+export function useMarketDataStatus(userId: string) {
+  const [status, setStatus] = useState<MarketDataStatus | null>(null)
+
+  const reload = useCallback(async () => {
+    try {
+      const next = await window.api.marketData.getStatus(userId)
+      setStatus({ ...next, offline: next.offline || !navigator.onLine })
+    } catch (error) {
+      console.error('Failed to load market data status:', error)
+    }
+  }, [userId])
+
+  useEffect(() => {
+    reload()
+    const cleanupPrices = window.api.onPricesUpdated(() => {
+      reload()
+    })
+    window.addEventListener('online', reload)
+    window.addEventListener('offline', reload)
+    return () => {
+      cleanupPrices()
+      window.removeEventListener('online', reload)
+      window.removeEventListener('offline', reload)
+    }
+  }, [reload])
+
+  return { status, reload }
+}
+
+interface MarketDataStatusBadgesProps {
+  status: MarketDataStatus | null
+}
+
+export default function MarketDataStatusBadges({ status }: MarketDataStatusBadgesProps): JSX.Element | null {
+  if (!status) return null
+
+  const staleRates = status.exchange_rates.filter(r => r.stale)
+  if (!status.offline && status.stale_quotes.length === 0 && staleRates.length === 0) return null
+
+  return (
+    <span className="market-data-status">
+      {status.offline && (
+        <span
+          className="badge badge-offline"
+          title={`네트워크에 연결할 수 없어 마지막으로 저장된 시세·환율을 표시합니다${status.offline_since ? ` (${formatDateTime(status.offline_since)}부터)` : ''}`}
+        >
+          오프라인
+        </span>
+      )}
+      {status.stale_quotes.length > 0 && (
+        <span
+          className="badge badge-stale"
+          title={`최근 장 마감 이후 갱신되지 않은 시세\n${status.stale_quotes.map(q => `${q.stock_name} (${formatDateTime(q.as_of)})`).join('\n')}`}
+        >
+          시세 지연 {status.stale_quotes.length}
+        </span>
+      )}
+      {staleRates.length > 0 && (
+        <span
+          className="badge badge-stale"
+          title={staleRates.map(r => `${r.pair} ${r.rate.toLocaleString()} (${formatDateTime(r.timestamp)} 기준)`).join('\n')}
+        >
+          환율 지연
+        </span>
+      )}
+    </span>
+  )
+}
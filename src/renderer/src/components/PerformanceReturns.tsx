@@ -0,0 +1,155 @@
+import { useEffect, useState } from 'react'
+
+type PerformanceWindow = 'MTD' | 'YTD' | '1Y' | 'ALL'
+
+interface PerformanceResult {
+  start_date: string
+  end_date: string
+  start_value: number
+  end_value: number
+  net_flows: number
+  gain: number
+  twr: number | null
+  twr_annualized: number | null
+  xirr: number | null
+}
+
+interface PerformanceGroup extends PerformanceResult {
+  key: string
+  label: string
+}
+
+interface PerformanceReport {
+  baseCurrency: string
+  window: PerformanceWindow
+  household: PerformanceResult | null
+  byUser: PerformanceGroup[]
+  byAccountType: PerformanceGroup[]
+  byAccount: PerformanceGroup[]
+}
+
+interface PerformanceReturnsProps {
+  refreshKey?: string | null
+}
+
+const WINDOW_LABELS: Record<PerformanceWindow, string> = {
+  MTD: '이번 달',
+  YTD: '올해',
+  '1Y': '1년',
+  ALL: '전체'
+}
+
+const ACCOUNT_TYPE_LABELS: Record<string, string> = {
+  PENSION: '연금저축',
+  IRP: 'IRP',
+  ISA: 'ISA',
+  OVERSEAS: '해외주식',
+  GENERAL: '일반'
+}
+
+function formatCurrency(value: number, currency: string): string {
+  return new Intl.NumberFormat('ko-KR', {
+    style: 'currency',
+    currency,
+    maximumFractionDigits: currency === 'KRW' ? 0 : 2
+  }).format(value)
+}
+
+function formatPercent(value: number | null): string {
+  if (value === null) return '-'
+  return `${value >= 0 ? '+' : ''}${value.toFixed(2)}%`
+}
+
+function signClass(value: number | null): string {
+  if (value === null) return 'text-right'
+  return `text-right ${value >= 0 ? 'text-success' : 'text-danger'}`
+}
+
+export default function PerformanceReturns({ refreshKey }: PerformanceReturnsProps): JSX.Element | null {
+  const [period, setPeriod] = useState<PerformanceWindow>('YTD')
+  const [report, setReport] = useState<PerformanceReport | null>(null)
+
+  useEffect(() => {
+    loadPerformance()
+  }, [period, refreshKey])
+
+  const loadPerformance = async () => {
+    try {
+      setReport(await window.api.portfolio.getPerformance(period))
+    } catch (error) {
+      console.error('Failed to load performance:', error)
+    }
+  }
+
+  if (!report) return null
+
+  const currency = report.baseCurrency
+  const rows: Array<{ section: string; group: PerformanceGroup }> = [
+    ...(report.household ? [{ section: '가족 전체', group: { key: 'household', label: '합계', ...report.household } }] : []),
+    ...report.byUser.map(group => ({ section: '사용자', group })),
+    ...report.byAccountType.map(group => ({
+      section: '계좌유형',
+      group: { ...group, label: ACCOUNT_TYPE_LABELS[group.label] || group.label }
+    })),
+    ...report.byAccount.map(group => ({ section: '계좌', group }))
+  ]
+
+  return (
+    <div className="card">
+      <div className="card-header">
+        <h3 className="card-title">기간 수익률 (시간가중 / 금액가중)</h3>
+        <div className="view-toggle">
+          {(Object.keys(WINDOW_LABELS) as PerformanceWindow[]).map(w => (
+            <button key={w} className={period === w ? 'active' : ''} onClick={() => setPeriod(w)}>
+              {WINDOW_LABELS[w]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {rows.length === 0 ? (
+        <div className="empty-state">
+          <p>순자산 스냅샷이 없어 수익률을 계산할 수 없습니다. 순자산 추이에서 과거 데이터를 채워주세요.</p>
+        </div>
+      ) : (
+        <div className="table-container">
+          <table>
+            <thead>
+              <tr>
+                <th>구분</th>
+                <th>이름</th>
+                <th>기간</th>
+                <th className="text-right">기초 평가</th>
+                <th className="text-right">순유입</th>
+                <th className="text-right">기말 평가</th>
+                <th className="text-right">손익</th>
+                <th className="text-right" title="입출금 시점과 무관한 운용 성과">TWR</th>
+                <th className="text-right" title="입출금 시점을 반영한 연환산 수익률">XIRR (연)</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(({ section, group }) => (
+                <tr key={`${section}-${group.key}`}>
+                  <td className="text-muted">{section}</td>
+                  <td>{group.label}</td>
+                  <td className="text-muted" style={{ fontSize: '0.8rem' }}>{group.start_date} ~ {group.end_date}</td>
+                  <td className="text-right">{formatCurrency(group.start_value, currency)}</td>
+                  <td className="text-right">{formatCurrency(group.net_flows, currency)}</td>
+                  <td className="text-right">{formatCurrency(group.end_value, currency)}</td>
+                  <td className={signClass(group.gain)}>{formatCurrency(group.gain, currency)}</td>
+                  <td className={signClass(group.twr)}>
+                    {formatPercent(group.twr)}
+                    {group.twr_annualized !== null && (
+                      <div className="text-muted" style={{ fontSize: '0.8rem' }}>연 {formatPercent(group.twr_annualized)}</div>
+                    )}
+                  </td>
+                  <td className={signClass(group.xirr)}>{formatPercent(group.xirr)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,4 +1,5 @@
-import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip, Legend } from 'recharts'
+import { useEffect, useState } from 'react'
+import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip, Legend, AreaChart, Area, XAxis, YAxis, CartesianGrid } from 'recharts'
 
 interface ChartData {
   name: string
@@ -6,9 +7,22 @@ interface ChartData {
   color?: string
 }
 
+type SnapshotRange = '1M' | '3M' | '1Y' | 'ALL'
+
+interface NetWorthPoint {
+  date: string
+  market_value: number
+  cost_basis: number
+  cash: number
+  dividends: number
+  total: number
+}
+
 interface PortfolioChartsProps {
-  byAccountType: Array<{ account_type: string; market_value: number; cost_basis: number }>
-  byBrokerage: Array<{ brokerage: string; market_value: number; cost_basis: number }>
+  userId: string
+  refreshKey?: string | null
+  byAccountType: Array<{ account_type: string; market_value: number; cost_basis: number; cash?: number }>
+  byBrokerage: Array<{ brokerage: string; market_value: number; cost_basis: number; cash?: number }>
 }
 
 const ACCOUNT_TYPE_LABELS: Record<string, string> = {
@@ -30,6 +44,13 @@ const BROKERAGE_LABELS: Record<string, string> = {
   OTHER: '기타'
 }
 
+const RANGE_LABELS: Record<SnapshotRange, string> = {
+  '1M': '1개월',
+  '3M': '3개월',
+  '1Y': '1년',
+  ALL: '전체'
+}
+
 const COLORS = [
   '#3b82f6', // blue
   '#8b5cf6', // purple
@@ -62,21 +83,114 @@ function CustomTooltip({ active, payload }: { active?: boolean; payload?: Array<
   return null
 }
 
-export default function PortfolioCharts({ byAccountType, byBrokerage }: PortfolioChartsProps): JSX.Element {
+function NetWorthTooltip({ active, payload, label }: { active?: boolean; label?: string; payload?: Array<{ payload: NetWorthPoint }> }) {
+  if (active && payload && payload.length) {
+    const point = payload[0].payload
+    return (
+      <div className="chart-tooltip">
+        <div className="tooltip-label">{label}</div>
+        <div className="tooltip-value">{formatCurrency(point.total)}</div>
+        <div className="tooltip-percent">평가 {formatCurrency(point.market_value)} · 예수금 {formatCurrency(point.cash)}</div>
+        <div className="tooltip-percent">원금 {formatCurrency(point.cost_basis)} · 누적배당 {formatCurrency(point.dividends)}</div>
+      </div>
+    )
+  }
+  return null
+}
+
+function NetWorthChart({ userId, refreshKey }: { userId: string; refreshKey?: string | null }): JSX.Element {
+  const [range, setRange] = useState<SnapshotRange>('3M')
+  const [points, setPoints] = useState<NetWorthPoint[]>([])
+  const [baseCurrency, setBaseCurrency] = useState('KRW')
+  const [backfilling, setBackfilling] = useState(false)
+
+  useEffect(() => {
+    loadHistory()
+  }, [userId, range, refreshKey])
+
+  const loadHistory = async () => {
+    try {
+      const history = await window.api.snapshot.getHistory(userId, range)
+      setPoints(history.points)
+      setBaseCurrency(history.baseCurrency)
+    } catch (error) {
+      console.error('Failed to load net worth history:', error)
+    }
+  }
+
+  const handleBackfill = async () => {
+    setBackfilling(true)
+    try {
+      const result = await window.api.snapshot.backfill(userId)
+      if (!result.success) {
+        alert('과거 데이터 생성 실패: ' + result.error)
+      }
+      await loadHistory()
+    } finally {
+      setBackfilling(false)
+    }
+  }
+
+  return (
+    <div className="chart-card card" style={{ marginBottom: '1.5rem' }}>
+      <div className="card-header">
+        <h3 className="card-title">순자산 추이 ({baseCurrency})</h3>
+        <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center' }}>
+          <button className="btn btn-sm btn-secondary" onClick={handleBackfill} disabled={backfilling}>
+            {backfilling ? '생성 중...' : '거래내역으로 과거 채우기'}
+          </button>
+          <div className="view-toggle">
+            {(Object.keys(RANGE_LABELS) as SnapshotRange[]).map(r => (
+              <button key={r} className={range === r ? 'active' : ''} onClick={() => setRange(r)}>
+                {RANGE_LABELS[r]}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+      <div className="chart-container">
+        {points.length > 1 ? (
+          <ResponsiveContainer width="100%" height={250}>
+            <AreaChart data={points}>
+              <defs>
+                <linearGradient id="netWorthFill" x1="0" y1="0" x2="0" y2="1">
+                  <stop offset="5%" stopColor={COLORS[0]} stopOpacity={0.4} />
+                  <stop offset="95%" stopColor={COLORS[0]} stopOpacity={0} />
+                </linearGradient>
+              </defs>
+              <CartesianGrid strokeDasharray="3 3" stroke="rgba(148, 163, 184, 0.1)" />
+              <XAxis dataKey="date" tick={{ fill: '#94a3b8', fontSize: 12 }} minTickGap={40} />
+              <YAxis tick={{ fill: '#94a3b8', fontSize: 12 }} tickFormatter={formatCurrency} width={60} />
+              <Tooltip content={<NetWorthTooltip />} />
+              <Area type="monotone" dataKey="total" stroke={COLORS[0]} fill="url(#netWorthFill)" strokeWidth={2} />
+              <Area type="monotone" dataKey="cost_basis" stroke={COLORS[1]} fill="none" strokeDasharray="4 4" />
+            </AreaChart>
+          </ResponsiveContainer>
+        ) : (
+          <div className="chart-empty">
+            기록된 스냅샷이 부족합니다. 시세 새로고침 시 매일 기록되며, 거래내역으로 과거 추이를 채울 수 있습니다.
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default function PortfolioCharts({ userId, refreshKey, byAccountType, byBrokerage }: PortfolioChartsProps): JSX.Element {
   const accountTypeData: ChartData[] = byAccountType
-    .filter(item => item.market_value > 0)
+    .filter(item => item.market_value + (item.cash || 0) > 0)
     .map((item, index) => ({
       name: ACCOUNT_TYPE_LABELS[item.account_type] || item.account_type,
-      value: item.market_value,
+      value: item.market_value + (item.cash || 0),
       color: COLORS[index % COLORS.length]
     }))
     .sort((a, b) => b.value - a.value)
 
   const brokerageData: ChartData[] = byBrokerage
-    .filter(item => item.market_value > 0)
+    .filter(item => item.market_value + (item.cash || 0) > 0)
     .map((item, index) => ({
       name: BROKERAGE_LABELS[item.brokerage] || item.brokerage,
-      value: item.market_value,
+      value: item.market_value + (item.cash || 0),
       color: COLORS[index % COLORS.length]
     }))
     .sort((a, b) => b.value - a.value)
@@ -88,6 +202,8 @@ export default function PortfolioCharts({ byAccountType, byBrokerage }: Portfoli
 
   return (
     <div className="portfolio-charts">
+      <NetWorthChart userId={userId} refreshKey={refreshKey} />
+
       <div className="charts-grid">
         {/* Account Type Chart */}
         <div className="chart-card card">
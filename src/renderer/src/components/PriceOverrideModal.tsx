@@ -0,0 +1,134 @@
+import { useState } from 'react'
+
+interface PriceOverrideTarget {
+  stock_code: string
+  stock_name: string
+  currency: string
+  current_price: number
+  instrument_code?: string
+  price_basis?: 'MANUAL' | 'QUOTE' | 'BROKER'
+  manual_valuation_date?: string | null
+  manual_note?: string | null
+  manual_expires_at?: string | null
+}
+
+interface PriceOverrideModalProps {
+  holding: PriceOverrideTarget
+  onClose: () => void
+  onSaved: () => void
+}
+
+function today(): string {
+  const now = new Date()
+  return new Date(now.getTime() - now.getTimezoneOffset() * 60 * 1000).toISOString().split('T')[0]
+}
+
+export default function PriceOverrideModal({ holding, onClose, onSaved }: PriceOverrideModalProps): JSX.Element {
+  const isManual = holding.price_basis === 'MANUAL'
+  const [formData, setFormData] = useState({
+    price: holding.current_price > 0 ? String(holding.current_price) : '',
+    valuation_date: (isManual && holding.manual_valuation_date) || today(),
+    note: (isManual && holding.manual_note) || '',
+    expires_at: (isManual && holding.manual_expires_at) || ''
+  })
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const result = await window.api.priceOverride.set({
+      stock_code: holding.stock_code,
+      price: Number(formData.price),
+      currency: holding.currency,
+      valuation_date: formData.valuation_date,
+      note: formData.note || null,
+      expires_at: formData.expires_at || null
+    })
+    if (!result.success) {
+      alert('수동 시세 저장 실패: ' + result.error)
+      return
+    }
+    onSaved()
+  }
+
+  const handleDelete = async () => {
+    if (!confirm('수동 시세를 해제하고 자동 시세로 되돌릴까요?')) return
+    await window.api.priceOverride.delete(holding.instrument_code || holding.stock_code)
+    onSaved()
+  }
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal" onClick={(e) => e.stopPropagation()}>
+        <div className="modal-header">
+          <h2>수동 시세 - {holding.stock_name}</h2>
+          <button className="modal-close" onClick={onClose}>
+            &times;
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit}>
+          <p className="text-muted" style={{ fontSize: '0.85rem' }}>
+            비상장·시세 조회가 안 되는 종목의 평가 가격을 직접 입력합니다. 만료일까지 자동 시세 갱신보다 우선 적용되며,
+            같은 종목을 보유한 모든 계좌에 반영됩니다.
+          </p>
+
+          <div className="form-row">
+            <div className="form-group">
+              <label>가격 ({holding.currency}) *</label>
+              <input
+                type="number"
+                step="any"
+                min="0"
+                value={formData.price}
+                onChange={(e) => setFormData({ ...formData, price: e.target.value })}
+                required
+              />
+            </div>
+            <div className="form-group">
+              <label>평가일 *</label>
+              <input
+                type="date"
+                value={formData.valuation_date}
+                onChange={(e) => setFormData({ ...formData, valuation_date: e.target.value })}
+                required
+              />
+            </div>
+          </div>
+
+          <div className="form-row">
+            <div className="form-group">
+              <label>만료일</label>
+              <input
+                type="date"
+                value={formData.expires_at}
+                onChange={(e) => setFormData({ ...formData, expires_at: e.target.value })}
+              />
+            </div>
+            <div className="form-group">
+              <label>메모</label>
+              <input
+                type="text"
+                placeholder="예: 2024년 감사보고서 기준"
+                value={formData.note}
+                onChange={(e) => setFormData({ ...formData, note: e.target.value })}
+              />
+            </div>
+          </div>
+
+          <div className="modal-footer">
+            {isManual && (
+              <button type="button" className="btn btn-danger" onClick={handleDelete}>
+                해제
+              </button>
+            )}
+            <button type="button" className="btn btn-secondary" onClick={onClose}>
+              취소
+            </button>
+            <button type="submit" className="btn btn-primary">
+              저장
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,217 @@
+import { useEffect, useState } from 'react'
+
+type ExchangeCode = 'KRX' | 'NYSE'
+
+interface ExchangeStatus {
+  code: ExchangeCode
+  name: string
+  active: boolean
+  open: boolean
+  holiday: string | null
+  runs_per_day: number
+  last_run: string | null
+  next_run: string | null
+}
+
+interface SchedulerStatus {
+  enabled: boolean
+  daily_budget: number
+  runs_today: number
+  running: boolean
+  exchanges: ExchangeStatus[]
+}
+
+interface MarketHoliday {
+  exchange: ExchangeCode
+  date: string
+  name: string | null
+  builtin: boolean
+}
+
+function formatTime(timestamp: string | null): string {
+  if (!timestamp) return '-'
+  return new Date(timestamp).toLocaleString('ko-KR', { month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit' })
+}
+
+export default function PriceRefreshSchedule(): JSX.Element {
+  const [status, setStatus] = useState<SchedulerStatus | null>(null)
+  const [budget, setBudget] = useState('')
+  const [exchange, setExchange] = useState<ExchangeCode>('KRX')
+  const [holidays, setHolidays] = useState<MarketHoliday[]>([])
+  const [newDate, setNewDate] = useState('')
+  const [newName, setNewName] = useState('')
+
+  useEffect(() => {
+    loadStatus()
+
+    const cleanup = window.api.onPricesUpdated(() => {
+      loadStatus()
+    })
+    return cleanup
+  }, [])
+
+  useEffect(() => {
+    loadHolidays()
+  }, [exchange])
+
+  const loadStatus = async () => {
+    try {
+      const data = await window.api.priceScheduler.getStatus()
+      setStatus(data)
+      setBudget(String(data.daily_budget))
+    } catch (error) {
+      console.error('Failed to load price refresh status:', error)
+    }
+  }
+
+  const loadHolidays = async () => {
+    try {
+      setHolidays(await window.api.priceScheduler.getHolidays(exchange))
+    } catch (error) {
+      console.error('Failed to load market holidays:', error)
+    }
+  }
+
+  const handleToggle = async () => {
+    if (!status) return
+    await window.api.priceScheduler.setConfig({ enabled: !status.enabled })
+    await loadStatus()
+  }
+
+  const handleSaveBudget = async () => {
+    const result = await window.api.priceScheduler.setConfig({ dailyBudget: Number(budget) })
+    if (!result.success) {
+      alert('저장 실패: ' + result.error)
+    }
+    await loadStatus()
+  }
+
+  const handleAddHoliday = async () => {
+    if (!newDate) return
+    const result = await window.api.priceScheduler.addHoliday(exchange, newDate, newName || null)
+    if (!result.success) {
+      alert('휴장일 추가 실패: ' + result.error)
+      return
+    }
+    setNewDate('')
+    setNewName('')
+    await loadHolidays()
+    await loadStatus()
+  }
+
+  const handleDeleteHoliday = async (holiday: MarketHoliday) => {
+    await window.api.priceScheduler.deleteHoliday(holiday.exchange, holiday.date)
+    await loadHolidays()
+    await loadStatus()
+  }
+
+  if (!status) {
+    return <div className="card mt-2" style={{ maxWidth: '1000px' }}><p className="text-muted">불러오는 중...</p></div>
+  }
+
+  const thisYear = String(new Date().getFullYear())
+  const visibleHolidays = holidays.filter(h => h.date >= thisYear)
+
+  return (
+    <div className="card mt-2" style={{ maxWidth: '1000px' }}>
+      <div className="card-header">
+        <h3 className="card-title">시세 자동 갱신</h3>
+        <label style={{ display: 'flex', gap: '6px', alignItems: 'center' }}>
+          <input type="checkbox" checked={status.enabled} onChange={handleToggle} />
+          사용
+        </label>
+      </div>
+
+      <p className="text-muted mt-2" style={{ fontSize: '0.85rem' }}>
+        보유종목이 있는 거래소의 장중·장마감 후에 시세를 갱신합니다. 주말과 휴장일은 건너뛰며, 수동 새로고침도 하루 횟수에 포함됩니다.
+      </p>
+
+      <div className="form-row mt-2" style={{ gap: '0.5rem', alignItems: 'center' }}>
+        <strong style={{ fontSize: '0.9rem' }}>하루 최대 갱신 횟수</strong>
+        <input
+          type="number"
+          min={1}
+          max={100}
+          value={budget}
+          onChange={(e) => setBudget(e.target.value)}
+          style={{ width: '80px' }}
+        />
+        <button className="btn btn-sm btn-secondary" onClick={handleSaveBudget}>저장</button>
+        <span className="text-muted" style={{ fontSize: '0.85rem' }}>
+          오늘 {status.runs_today} / {status.daily_budget}회 사용{status.running ? ' · 갱신 중...' : ''}
+        </span>
+      </div>
+
+      <div className="table-container mt-2">
+        <table>
+          <thead>
+            <tr>
+              <th>거래소</th>
+              <th>상태</th>
+              <th className="text-right">하루 갱신</th>
+              <th>최근 갱신</th>
+              <th>다음 갱신</th>
+            </tr>
+          </thead>
+          <tbody>
+            {status.exchanges.map(e => (
+              <tr key={e.code}>
+                <td>{e.name} <code className="text-muted">{e.code}</code></td>
+                <td>
+                  {e.holiday
+                    ? <span className="text-danger">휴장 ({e.holiday})</span>
+                    : e.open ? <span className="text-success">개장</span> : <span className="text-muted">장 마감</span>}
+                  {!e.active && <span className="text-muted" style={{ fontSize: '0.8rem' }}> · 보유종목 없음</span>}
+                </td>
+                <td className="text-right">{e.runs_per_day}회</td>
+                <td>{formatTime(e.last_run)}</td>
+                <td>{formatTime(e.next_run)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="mt-2">
+        <div className="view-toggle">
+          {status.exchanges.map(e => (
+            <button key={e.code} className={exchange === e.code ? 'active' : ''} onClick={() => setExchange(e.code)}>
+              {e.code} 휴장일
+            </button>
+          ))}
+        </div>
+
+        <div className="form-row mt-2" style={{ gap: '0.5rem', alignItems: 'center' }}>
+          <input type="date" value={newDate} onChange={(e) => setNewDate(e.target.value)} />
+          <input type="text" placeholder="휴장 사유 (선택)" value={newName} onChange={(e) => setNewName(e.target.value)} />
+          <button className="btn btn-sm btn-primary" onClick={handleAddHoliday} disabled={!newDate}>휴장일 추가</button>
+        </div>
+
+        <div className="table-container mt-2" style={{ maxHeight: '240px', overflowY: 'auto' }}>
+          <table>
+            <thead>
+              <tr>
+                <th>날짜</th>
+                <th>사유</th>
+                <th style={{ width: '80px' }}></th>
+              </tr>
+            </thead>
+            <tbody>
+              {visibleHolidays.map(h => (
+                <tr key={h.date}>
+                  <td>{h.date}</td>
+                  <td className={h.builtin ? 'text-muted' : ''}>{h.name || (h.builtin ? '기본 휴장일' : '-')}</td>
+                  <td>
+                    {!h.builtin && (
+                      <button className="btn btn-sm btn-danger" onClick={() => handleDeleteHoliday(h)}>삭제</button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  )
+}
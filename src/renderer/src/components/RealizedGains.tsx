@@ -0,0 +1,329 @@
+import { useEffect, useState } from 'react'
+
+interface RealizedGainRow {
+  id: string
+  account_id: string
+  brokerage: string
+  account_type: string
+  account_alias: string | null
+  stock_code: string
+  stock_name: string
+  currency: string
+  quantity: number
+  proceeds: number
+  cost_basis: number
+  fees: number
+  acquired_date: string
+  sold_date: string
+  gain: number
+  gain_percent: number
+  holding_days: number
+  gain_base: number
+  fx_estimated: boolean
+}
+
+interface RealizedGainGroup {
+  key: string
+  count: number
+  quantity: number
+  proceeds: number
+  cost_basis: number
+  fees: number
+  gain: number
+  gain_percent: number
+  avg_holding_days: number
+}
+
+interface FeeSummaryRow {
+  brokerage: string
+  year: string
+  fee_krw: number
+  tax_krw: number
+  total_krw: number
+  count: number
+  fx_estimated: boolean
+}
+
+interface RealizedGainsProps {
+  userId: string
+}
+
+const ACCOUNT_TYPE_LABELS: Record<string, string> = {
+  PENSION: '연금저축',
+  IRP: 'IRP',
+  ISA: 'ISA',
+  OVERSEAS: '해외주식',
+  GENERAL: '일반'
+}
+
+const BROKERAGE_LABELS: Record<string, string> = {
+  KOREA_INV: '한국투자',
+  HANWHA: '한화투자',
+  MIRAE: '미래에셋',
+  SAMSUNG: '삼성증권',
+  KIWOOM: '키움증권',
+  NH: 'NH투자',
+  KB: 'KB증권',
+  OTHER: '기타'
+}
+
+function formatCurrency(value: number, currency: string = 'KRW'): string {
+  if (currency === 'USD') {
+    return new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(value)
+  }
+  return new Intl.NumberFormat('ko-KR', { style: 'currency', currency: 'KRW' }).format(value)
+}
+
+function formatPercent(value: number): string {
+  const sign = value >= 0 ? '+' : ''
+  return `${sign}${value.toFixed(2)}%`
+}
+
+function GroupTable({ title, groups, labelOf, currency }: {
+  title: string
+  groups: RealizedGainGroup[]
+  labelOf: (key: string) => string
+  currency: string
+}): JSX.Element {
+  return (
+    <div className="card">
+      <div className="card-header">
+        <h3 className="card-title">{title}</h3>
+      </div>
+      <table>
+        <thead>
+          <tr>
+            <th>구분</th>
+            <th className="text-right">실현손익</th>
+            <th className="text-right">수익률</th>
+            <th className="text-right">수수료</th>
+            <th className="text-right">평균 보유일</th>
+          </tr>
+        </thead>
+        <tbody>
+          {groups.map(group => (
+            <tr key={group.key}>
+              <td>{labelOf(group.key)}</td>
+              <td className={`text-right ${group.gain >= 0 ? 'text-success' : 'text-danger'}`}>
+                {formatCurrency(group.gain, currency)}
+              </td>
+              <td className={`text-right ${group.gain >= 0 ? 'text-success' : 'text-danger'}`}>
+                {formatPercent(group.gain_percent)}
+              </td>
+              <td className="text-right">{formatCurrency(group.fees, currency)}</td>
+              <td className="text-right">{Math.round(group.avg_holding_days)}일</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
+
+export default function RealizedGains({ userId }: RealizedGainsProps): JSX.Element {
+  const [rows, setRows] = useState<RealizedGainRow[]>([])
+  const [years, setYears] = useState<number[]>([])
+  const [baseCurrency, setBaseCurrency] = useState('KRW')
+  const [selectedYear, setSelectedYear] = useState<number | null>(new Date().getFullYear())
+  const [summary, setSummary] = useState<{
+    totals: RealizedGainGroup
+    byAccount: RealizedGainGroup[]
+    byAccountType: RealizedGainGroup[]
+    byStock: RealizedGainGroup[]
+  } | null>(null)
+  const [feeSummary, setFeeSummary] = useState<FeeSummaryRow[]>([])
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    loadRealizedGains()
+  }, [userId, selectedYear])
+
+  const loadRealizedGains = async () => {
+    setLoading(true)
+    try {
+      const [report, fees] = await Promise.all([
+        window.api.portfolio.getRealizedGains(userId, selectedYear ?? undefined),
+        window.api.portfolio.getFeeSummary(userId)
+      ])
+      setBaseCurrency(report.baseCurrency)
+      setRows(report.rows)
+      setYears(report.years)
+      setSummary(report.summary)
+      setFeeSummary(fees)
+    } catch (error) {
+      console.error('Failed to load realized gains:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  if (loading || !summary) {
+    return <div className="loading-spinner" style={{ margin: '2rem auto' }}></div>
+  }
+
+  const accountLabel = (accountId: string): string => {
+    const row = rows.find(r => r.account_id === accountId)
+    if (!row) return accountId
+    return row.account_alias || `${BROKERAGE_LABELS[row.brokerage] || row.brokerage} ${ACCOUNT_TYPE_LABELS[row.account_type] || row.account_type}`
+  }
+  const stockLabel = (stockCode: string): string => rows.find(r => r.stock_code === stockCode)?.stock_name || stockCode
+
+  const yearOptions = [...new Set([new Date().getFullYear(), ...years])].sort((a, b) => b - a)
+  const visibleFees = selectedYear ? feeSummary.filter(f => f.year === String(selectedYear)) : feeSummary
+
+  return (
+    <div className="realized-gains">
+      <div className="card">
+        <div className="card-header">
+          <h3 className="card-title">실현손익 {selectedYear ? `(${selectedYear}년)` : '(전체)'}</h3>
+          <div className="header-actions">
+            <select
+              value={selectedYear ?? ''}
+              onChange={(e) => setSelectedYear(e.target.value ? parseInt(e.target.value) : null)}
+              className="glass-select"
+            >
+              <option value="">전체</option>
+              {yearOptions.map(year => (
+                <option key={year} value={year}>{year}년</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div className="stats-grid">
+          <div className="stat-card">
+            <div className="stat-label">실현손익 ({baseCurrency})</div>
+            <div className={`stat-value ${summary.totals.gain >= 0 ? 'positive' : 'negative'}`}>
+              {formatCurrency(summary.totals.gain, baseCurrency)}
+            </div>
+            <div className={`stat-change ${summary.totals.gain_percent >= 0 ? 'positive' : 'negative'}`}>
+              {formatPercent(summary.totals.gain_percent)}
+            </div>
+          </div>
+          <div className="stat-card">
+            <div className="stat-label">매도금액</div>
+            <div className="stat-value">{formatCurrency(summary.totals.proceeds, baseCurrency)}</div>
+          </div>
+          <div className="stat-card">
+            <div className="stat-label">수수료</div>
+            <div className="stat-value">{formatCurrency(summary.totals.fees, baseCurrency)}</div>
+          </div>
+          <div className="stat-card">
+            <div className="stat-label">평균 보유기간</div>
+            <div className="stat-value">{Math.round(summary.totals.avg_holding_days)}일</div>
+          </div>
+        </div>
+      </div>
+
+      {visibleFees.length > 0 && (
+        <div className="card">
+          <div className="card-header">
+            <h3 className="card-title">증권사별 연간 수수료/세금</h3>
+          </div>
+          <table>
+            <thead>
+              <tr>
+                <th>연도</th>
+                <th>증권사</th>
+                <th className="text-right">거래 건수</th>
+                <th className="text-right">수수료</th>
+                <th className="text-right">세금</th>
+                <th className="text-right">합계</th>
+              </tr>
+            </thead>
+            <tbody>
+              {visibleFees.map(f => (
+                <tr key={`${f.year}-${f.brokerage}`}>
+                  <td>{f.year}년</td>
+                  <td>{BROKERAGE_LABELS[f.brokerage] || f.brokerage}</td>
+                  <td className="text-right">{f.count}</td>
+                  <td className="text-right">{formatCurrency(f.fee_krw)}</td>
+                  <td className="text-right">{formatCurrency(f.tax_krw)}</td>
+                  <td className="text-right">
+                    {formatCurrency(f.total_krw)}
+                    {f.fx_estimated && (
+                      <span className="badge" style={{ marginLeft: '6px' }} title="거래일 환율이 없어 추정 환율을 사용했습니다 (기준통화 환율이 없으면 합계 제외)">추정</span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {rows.length === 0 ? (
+        <div className="empty-state">
+          <h3>실현손익이 없습니다</h3>
+          <p>매도 거래가 기록되면 매수 lot과 매칭하여 실현손익을 계산합니다.</p>
+        </div>
+      ) : (
+        <>
+          <div className="stats-grid">
+            <GroupTable
+              title="계좌유형별"
+              groups={summary.byAccountType}
+              labelOf={key => ACCOUNT_TYPE_LABELS[key] || key}
+              currency={baseCurrency}
+            />
+            <GroupTable title="계좌별" groups={summary.byAccount} labelOf={accountLabel} currency={baseCurrency} />
+          </div>
+
+          <GroupTable title="종목별" groups={summary.byStock} labelOf={stockLabel} currency={baseCurrency} />
+
+          <div className="card">
+            <div className="card-header">
+              <h3 className="card-title">매도 상세 (lot 매칭)</h3>
+            </div>
+            <div className="table-container">
+              <table>
+                <thead>
+                  <tr>
+                    <th>매도일</th>
+                    <th>종목</th>
+                    <th>계좌</th>
+                    <th>매수일</th>
+                    <th className="text-right">보유일</th>
+                    <th className="text-right">수량</th>
+                    <th className="text-right">매도금액</th>
+                    <th className="text-right">원가</th>
+                    <th className="text-right">수수료</th>
+                    <th className="text-right">손익</th>
+                    <th className="text-right">손익 ({baseCurrency})</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map(row => (
+                    <tr key={row.id}>
+                      <td>{row.sold_date}</td>
+                      <td>
+                        <div>{row.stock_name}</div>
+                        <div className="text-muted" style={{ fontSize: '0.8rem' }}>{row.stock_code}</div>
+                      </td>
+                      <td>{accountLabel(row.account_id)}</td>
+                      <td>{row.acquired_date}</td>
+                      <td className="text-right">{row.holding_days}일</td>
+                      <td className="text-right">{row.quantity.toLocaleString(undefined, { maximumFractionDigits: 4 })}</td>
+                      <td className="text-right">{formatCurrency(row.proceeds, row.currency)}</td>
+                      <td className="text-right">{formatCurrency(row.cost_basis, row.currency)}</td>
+                      <td className="text-right">{formatCurrency(row.fees, row.currency)}</td>
+                      <td className={`text-right ${row.gain >= 0 ? 'text-success' : 'text-danger'}`}>
+                        {formatCurrency(row.gain, row.currency)}
+                      </td>
+                      <td className={`text-right ${row.gain_base >= 0 ? 'text-success' : 'text-danger'}`}>
+                        {formatCurrency(row.gain_base, baseCurrency)}
+                        {row.fx_estimated && (
+                          <span className="badge" style={{ marginLeft: '6px' }} title="거래일 환율이 없어 추정 환율을 사용했습니다">추정</span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
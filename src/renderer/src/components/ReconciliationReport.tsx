@@ -0,0 +1,264 @@
+import { useEffect, useState } from 'react'
+
+interface ReconciliationItem {
+  stock_code: string
+  stock_name: string
+  currency: string
+  broker_quantity: number
+  broker_avg_cost: number
+  ledger_quantity: number
+  ledger_avg_cost: number
+  quantity_diff: number
+  avg_cost_diff: number
+  status: 'MATCHED' | 'QUANTITY_MISMATCH' | 'AVG_COST_MISMATCH' | 'BROKER_ONLY' | 'LEDGER_ONLY'
+  can_adjust: boolean
+}
+
+interface CashReconciliationItem {
+  currency: string
+  broker_balance: number
+  ledger_balance: number | null
+  diff: number
+  matched: boolean
+  captured_at: string
+}
+
+interface ReconciliationReportData {
+  snapshot_source: 'API' | 'EXCEL' | null
+  snapshot_at: string | null
+  items: ReconciliationItem[]
+  cash: CashReconciliationItem[]
+  mismatches: number
+}
+
+interface ReconciliationReportProps {
+  accountId: string
+  accountName: string
+  onClose: () => void
+}
+
+const STATUS_LABELS: Record<ReconciliationItem['status'], string> = {
+  MATCHED: '일치',
+  QUANTITY_MISMATCH: '수량 불일치',
+  AVG_COST_MISMATCH: '평균단가 불일치',
+  BROKER_ONLY: '거래내역 없음',
+  LEDGER_ONLY: '증권사 잔고 없음'
+}
+
+const SOURCE_LABELS: Record<string, string> = {
+  API: 'API 동기화',
+  EXCEL: '엑셀 잔고'
+}
+
+function formatCurrency(value: number, currency: string = 'KRW'): string {
+  if (currency === 'USD') {
+    return new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(value)
+  }
+  return new Intl.NumberFormat('ko-KR', { style: 'currency', currency: 'KRW' }).format(value)
+}
+
+function formatQuantity(value: number): string {
+  return value.toLocaleString(undefined, { maximumFractionDigits: 4 })
+}
+
+export default function ReconciliationReport({ accountId, accountName, onClose }: ReconciliationReportProps): JSX.Element {
+  const [report, setReport] = useState<ReconciliationReportData | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [workingStock, setWorkingStock] = useState<string | null>(null)
+
+  useEffect(() => {
+    loadReport()
+  }, [accountId])
+
+  const loadReport = async () => {
+    setLoading(true)
+    try {
+      setReport(await window.api.reconciliation.getReport(accountId))
+    } catch (error) {
+      console.error('Failed to load reconciliation report:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleAdjust = async (item: ReconciliationItem) => {
+    const action = item.quantity_diff > 0 ? '매수' : '매도'
+    if (!confirm(`${item.stock_name} ${formatQuantity(Math.abs(item.quantity_diff))}주 조정 ${action} 거래를 추가합니다. 계속하시겠습니까?`)) {
+      return
+    }
+
+    setWorkingStock(item.stock_code)
+    try {
+      const result = await window.api.reconciliation.addAdjustment(accountId, item.stock_code)
+      if (!result.success) alert('조정 거래 추가 실패: ' + result.error)
+      await loadReport()
+    } finally {
+      setWorkingStock(null)
+    }
+  }
+
+  const handleAccept = async (item: ReconciliationItem) => {
+    setWorkingStock(item.stock_code)
+    try {
+      const result = await window.api.reconciliation.acceptBroker(accountId, item.stock_code)
+      if (!result.success) alert('증권사 값 수용 실패: ' + result.error)
+      await loadReport()
+    } finally {
+      setWorkingStock(null)
+    }
+  }
+
+  // 증권사 예수금을 확인된 잔고로 기록 (스냅샷 시점 이후 거래만 원장으로 반영)
+  const handleAcceptCash = async (cash: CashReconciliationItem) => {
+    if (!confirm(`${cash.currency} 예수금을 증권사 값 ${formatCurrency(cash.broker_balance, cash.currency)}(으)로 맞춥니다. 계속하시겠습니까?`)) {
+      return
+    }
+
+    setWorkingStock(`cash:${cash.currency}`)
+    try {
+      const result = await window.api.cash.setBalance(accountId, cash.currency, cash.broker_balance, cash.captured_at.slice(0, 10))
+      if (!result.success) alert('예수금 반영 실패: ' + result.error)
+      await loadReport()
+    } finally {
+      setWorkingStock(null)
+    }
+  }
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal" style={{ maxWidth: '960px', width: '95%' }} onClick={(e) => e.stopPropagation()}>
+        <div className="modal-header">
+          <h2>잔고 대사 - {accountName}</h2>
+          <button className="modal-close" onClick={onClose}>
+            &times;
+          </button>
+        </div>
+
+        {loading || !report ? (
+          <div className="loading-spinner" style={{ margin: '2rem auto' }}></div>
+        ) : report.snapshot_at === null ? (
+          <div className="empty-state">
+            <h3>증권사 잔고 스냅샷이 없습니다</h3>
+            <p>API 동기화 또는 잔고 파일 가져오기 후 거래내역과 비교할 수 있습니다.</p>
+          </div>
+        ) : (
+          <>
+            <p className="text-muted" style={{ marginBottom: '1rem' }}>
+              기준: {SOURCE_LABELS[report.snapshot_source || ''] || report.snapshot_source} ({report.snapshot_at}) ·{' '}
+              {report.mismatches > 0
+                ? <span className="text-danger">불일치 {report.mismatches}건</span>
+                : <span className="text-success">모두 일치</span>}
+            </p>
+            <div className="table-container">
+              <table>
+                <thead>
+                  <tr>
+                    <th>종목</th>
+                    <th>상태</th>
+                    <th className="text-right">증권사 수량</th>
+                    <th className="text-right">원장 수량</th>
+                    <th className="text-right">증권사 평균단가</th>
+                    <th className="text-right">원장 평균단가</th>
+                    <th></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.items.map(item => (
+                    <tr key={item.stock_code}>
+                      <td>
+                        <div>{item.stock_name}</div>
+                        <div className="text-muted" style={{ fontSize: '0.8rem' }}>{item.stock_code}</div>
+                      </td>
+                      <td>
+                        <span className={`badge ${item.status === 'MATCHED' ? 'text-success' : 'text-danger'}`}>
+                          {STATUS_LABELS[item.status]}
+                        </span>
+                      </td>
+                      <td className="text-right">{formatQuantity(item.broker_quantity)}</td>
+                      <td className={`text-right ${item.quantity_diff !== 0 ? 'text-danger' : ''}`}>
+                        {formatQuantity(item.ledger_quantity)}
+                      </td>
+                      <td className="text-right">{formatCurrency(item.broker_avg_cost, item.currency)}</td>
+                      <td className="text-right">{formatCurrency(item.ledger_avg_cost, item.currency)}</td>
+                      <td>
+                        {item.status !== 'MATCHED' && (
+                          <div style={{ display: 'flex', gap: '4px' }}>
+                            {item.can_adjust && (
+                              <button
+                                className="btn btn-sm btn-secondary"
+                                onClick={() => handleAdjust(item)}
+                                disabled={workingStock === item.stock_code}
+                                title="차이만큼 조정 거래를 추가하여 원장을 맞춤"
+                              >
+                                조정 거래
+                              </button>
+                            )}
+                            <button
+                              className="btn btn-sm btn-primary"
+                              onClick={() => handleAccept(item)}
+                              disabled={workingStock === item.stock_code}
+                              title="조정 거래를 추가하여 원장 수량·평균단가를 증권사 값으로 맞춤"
+                            >
+                              증권사 값 수용
+                            </button>
+                          </div>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            {report.cash.length > 0 && (
+              <div className="table-container" style={{ marginTop: '1rem' }}>
+                <table>
+                  <thead>
+                    <tr>
+                      <th>예수금</th>
+                      <th>상태</th>
+                      <th className="text-right">증권사 예수금</th>
+                      <th className="text-right">원장 예수금</th>
+                      <th className="text-right">차이</th>
+                      <th></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.cash.map(cash => (
+                      <tr key={cash.currency}>
+                        <td>{cash.currency}</td>
+                        <td>
+                          <span className={`badge ${cash.ledger_balance === null ? 'text-muted' : cash.matched ? 'text-success' : 'text-danger'}`}>
+                            {cash.ledger_balance === null ? '원장 미추적' : cash.matched ? '일치' : '금액 불일치'}
+                          </span>
+                        </td>
+                        <td className="text-right">{formatCurrency(cash.broker_balance, cash.currency)}</td>
+                        <td className="text-right">{cash.ledger_balance === null ? '-' : formatCurrency(cash.ledger_balance, cash.currency)}</td>
+                        <td className={`text-right ${cash.matched ? '' : 'text-danger'}`}>{formatCurrency(cash.diff, cash.currency)}</td>
+                        <td>
+                          {(!cash.matched || cash.ledger_balance === null) && (
+                            <button
+                              className="btn btn-sm btn-primary"
+                              onClick={() => handleAcceptCash(cash)}
+                              disabled={workingStock === `cash:${cash.currency}`}
+                              title="증권사 예수금을 원장 예수금 기준으로 기록 (이후 거래만 원장으로 반영)"
+                            >
+                              증권사 값 수용
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </>
+        )}
+
+        <div className="modal-footer">
+          <button className="btn btn-secondary" onClick={onClose}>닫기</button>
+        </div>
+      </div>
+    </div>
+  )
+}
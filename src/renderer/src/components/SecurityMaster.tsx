@@ -0,0 +1,354 @@
+import { useEffect, useState } from 'react'
+
+type AssetType = 'STOCK' | 'ETF' | 'ETN' | 'REIT' | 'FUND'
+
+interface Security {
+  code: string
+  name_ko: string | null
+  name_en: string | null
+  yahoo_symbol: string | null
+  naver_symbol: string | null
+  market: string
+  exchange: string | null
+  asset_type: AssetType
+  sector: string | null
+  currency: string
+  quote_enabled: number
+  source: 'SEED' | 'USER' | 'AUTO'
+  aliases: string | null
+}
+
+interface SecurityForm {
+  code: string
+  name_ko: string
+  name_en: string
+  yahoo_symbol: string
+  naver_symbol: string
+  market: string
+  exchange: string
+  asset_type: AssetType
+  sector: string
+  currency: string
+  quote_enabled: boolean
+}
+
+const ASSET_TYPE_LABELS: Record<AssetType, string> = {
+  STOCK: '주식',
+  ETF: 'ETF',
+  ETN: 'ETN',
+  REIT: '리츠',
+  FUND: '펀드'
+}
+
+const SOURCE_LABELS: Record<Security['source'], string> = {
+  SEED: '기본',
+  USER: '사용자',
+  AUTO: '자동'
+}
+
+const EMPTY_FORM: SecurityForm = {
+  code: '',
+  name_ko: '',
+  name_en: '',
+  yahoo_symbol: '',
+  naver_symbol: '',
+  market: 'US',
+  exchange: '',
+  asset_type: 'STOCK',
+  sector: '',
+  currency: 'USD',
+  quote_enabled: true
+}
+
+function toForm(security: Security): SecurityForm {
+  return {
+    code: security.code,
+    name_ko: security.name_ko || '',
+    name_en: security.name_en || '',
+    yahoo_symbol: security.yahoo_symbol || '',
+    naver_symbol: security.naver_symbol || '',
+    market: security.market,
+    exchange: security.exchange || '',
+    asset_type: security.asset_type,
+    sector: security.sector || '',
+    currency: security.currency,
+    quote_enabled: security.quote_enabled === 1
+  }
+}
+
+export default function SecurityMaster(): JSX.Element {
+  const [securities, setSecurities] = useState<Security[]>([])
+  const [filter, setFilter] = useState('')
+  const [form, setForm] = useState<SecurityForm | null>(null)
+  const [editingCode, setEditingCode] = useState<string | null>(null)
+  const [newAlias, setNewAlias] = useState('')
+
+  useEffect(() => {
+    loadSecurities()
+  }, [])
+
+  const loadSecurities = async () => {
+    try {
+      setSecurities(await window.api.security.getAll())
+    } catch (error) {
+      console.error('Failed to load securities:', error)
+    }
+  }
+
+  const query = filter.trim().toLowerCase()
+  const filtered = query
+    ? securities.filter(s => [s.code, s.name_ko, s.name_en, s.aliases]
+      .some(v => v && v.toLowerCase().includes(query)))
+    : securities
+  const editing = editingCode ? securities.find(s => s.code === editingCode) : undefined
+
+  const handleEdit = (security: Security) => {
+    setEditingCode(security.code)
+    setForm(toForm(security))
+    setNewAlias('')
+  }
+
+  const handleNew = () => {
+    setEditingCode(null)
+    setForm(form && !editingCode ? null : { ...EMPTY_FORM })
+  }
+
+  const handleSave = async () => {
+    if (!form) return
+    if (!form.code.trim()) {
+      alert('종목코드를 입력해주세요')
+      return
+    }
+
+    const result = await window.api.security.upsert({
+      code: form.code.trim().toUpperCase(),
+      name_ko: form.name_ko.trim() || null,
+      name_en: form.name_en.trim() || null,
+      yahoo_symbol: form.yahoo_symbol.trim() || null,
+      naver_symbol: form.naver_symbol.trim() || null,
+      market: form.market,
+      exchange: form.exchange.trim() || null,
+      asset_type: form.asset_type,
+      sector: form.sector.trim() || null,
+      currency: form.currency,
+      quote_enabled: form.quote_enabled ? 1 : 0
+    })
+    if (!result.success) {
+      alert('종목 저장 실패: ' + result.error)
+      return
+    }
+    setForm(null)
+    setEditingCode(null)
+    loadSecurities()
+  }
+
+  const handleDelete = async (security: Security) => {
+    if (!confirm(`"${security.name_ko || security.name_en || security.code}" 종목을 마스터에서 삭제하시겠습니까?`)) {
+      return
+    }
+    await window.api.security.delete(security.code)
+    if (editingCode === security.code) {
+      setForm(null)
+      setEditingCode(null)
+    }
+    loadSecurities()
+  }
+
+  const handleAddAlias = async () => {
+    if (!editingCode || !newAlias.trim()) return
+    const result = await window.api.security.addAlias(newAlias.trim(), editingCode)
+    if (!result.success) {
+      alert('별칭 추가 실패: ' + result.error)
+      return
+    }
+    setNewAlias('')
+    loadSecurities()
+  }
+
+  const handleRemoveAlias = async (alias: string) => {
+    await window.api.security.removeAlias(alias)
+    loadSecurities()
+  }
+
+  return (
+    <div className="card mt-2" style={{ maxWidth: '1000px' }}>
+      <div className="card-header">
+        <h3 className="card-title">종목 마스터</h3>
+        <div style={{ display: 'flex', gap: '4px' }}>
+          <input
+            type="text"
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+            placeholder="코드, 이름, 별칭 검색"
+          />
+          <button className="btn btn-sm btn-primary" onClick={handleNew}>
+            {form && !editingCode ? '취소' : '+ 종목 추가'}
+          </button>
+        </div>
+      </div>
+
+      <p className="text-muted mt-2" style={{ fontSize: '0.85rem' }}>
+        가져오기·시세 조회 시 종목명과 코드를 이 목록으로 해석합니다. 별칭에 증권사별 표기를 등록하세요.
+      </p>
+
+      {form && (
+        <div className="mt-2">
+          <div className="form-row" style={{ gap: '0.5rem' }}>
+            <div className="form-group" style={{ flex: 1 }}>
+              <label>종목코드</label>
+              <input
+                type="text"
+                value={form.code}
+                disabled={!!editingCode}
+                onChange={(e) => setForm({ ...form, code: e.target.value })}
+                placeholder="예: 005930, AAPL"
+              />
+            </div>
+            <div className="form-group" style={{ flex: 2 }}>
+              <label>한글명</label>
+              <input type="text" value={form.name_ko} onChange={(e) => setForm({ ...form, name_ko: e.target.value })} />
+            </div>
+            <div className="form-group" style={{ flex: 2 }}>
+              <label>영문명</label>
+              <input type="text" value={form.name_en} onChange={(e) => setForm({ ...form, name_en: e.target.value })} />
+            </div>
+          </div>
+          <div className="form-row" style={{ gap: '0.5rem' }}>
+            <div className="form-group" style={{ flex: 1 }}>
+              <label>시장</label>
+              <select value={form.market} onChange={(e) => setForm({ ...form, market: e.target.value })}>
+                <option value="KR">한국 (KR)</option>
+                <option value="US">미국 (US)</option>
+              </select>
+            </div>
+            <div className="form-group" style={{ flex: 1 }}>
+              <label>거래소</label>
+              <input
+                type="text"
+                value={form.exchange}
+                onChange={(e) => setForm({ ...form, exchange: e.target.value })}
+                placeholder="KOSPI, NASDAQ ..."
+              />
+            </div>
+            <div className="form-group" style={{ flex: 1 }}>
+              <label>유형</label>
+              <select value={form.asset_type} onChange={(e) => setForm({ ...form, asset_type: e.target.value as AssetType })}>
+                {(Object.keys(ASSET_TYPE_LABELS) as AssetType[]).map(t => (
+                  <option key={t} value={t}>{ASSET_TYPE_LABELS[t]}</option>
+                ))}
+              </select>
+            </div>
+            <div className="form-group" style={{ flex: 1 }}>
+              <label>통화</label>
+              <select value={form.currency} onChange={(e) => setForm({ ...form, currency: e.target.value })}>
+                <option value="KRW">KRW</option>
+                <option value="USD">USD</option>
+              </select>
+            </div>
+            <div className="form-group" style={{ flex: 1 }}>
+              <label>섹터</label>
+              <input type="text" value={form.sector} onChange={(e) => setForm({ ...form, sector: e.target.value })} />
+            </div>
+          </div>
+          <div className="form-row" style={{ gap: '0.5rem', alignItems: 'flex-end' }}>
+            <div className="form-group" style={{ flex: 1 }}>
+              <label>Yahoo 심볼</label>
+              <input
+                type="text"
+                value={form.yahoo_symbol}
+                onChange={(e) => setForm({ ...form, yahoo_symbol: e.target.value })}
+                placeholder="예: 005930.KS, BRK-B"
+              />
+            </div>
+            <div className="form-group" style={{ flex: 1 }}>
+              <label>네이버 코드</label>
+              <input
+                type="text"
+                value={form.naver_symbol}
+                onChange={(e) => setForm({ ...form, naver_symbol: e.target.value })}
+                placeholder="예: 005930"
+              />
+            </div>
+            <div className="form-group" style={{ flex: 1 }}>
+              <label>
+                <input
+                  type="checkbox"
+                  checked={form.quote_enabled}
+                  onChange={(e) => setForm({ ...form, quote_enabled: e.target.checked })}
+                />
+                {' '}시세 조회
+              </label>
+            </div>
+            <button className="btn btn-primary" onClick={handleSave}>저장</button>
+          </div>
+
+          {editing && (
+            <div className="form-row" style={{ gap: '0.5rem', alignItems: 'center', flexWrap: 'wrap' }}>
+              <span className="text-muted">별칭:</span>
+              {(editing.aliases ? editing.aliases.split(', ') : []).map(alias => (
+                <span key={alias} style={{ display: 'inline-flex', gap: '4px', alignItems: 'center' }}>
+                  <code>{alias}</code>
+                  <button className="btn btn-sm btn-secondary" onClick={() => handleRemoveAlias(alias)}>×</button>
+                </span>
+              ))}
+              <input
+                type="text"
+                value={newAlias}
+                onChange={(e) => setNewAlias(e.target.value)}
+                placeholder="증권사 표기 종목명"
+              />
+              <button className="btn btn-sm btn-secondary" onClick={handleAddAlias}>별칭 추가</button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {filtered.length > 0 ? (
+        <div className="table-container mt-2" style={{ maxHeight: '400px', overflowY: 'auto' }}>
+          <table>
+            <thead>
+              <tr>
+                <th>코드</th>
+                <th>종목명</th>
+                <th>시장</th>
+                <th>유형</th>
+                <th>시세 심볼</th>
+                <th>별칭</th>
+                <th>출처</th>
+                <th style={{ width: '120px' }}>관리</th>
+              </tr>
+            </thead>
+            <tbody>
+              {filtered.map(s => (
+                <tr key={s.code}>
+                  <td><code>{s.code}</code></td>
+                  <td>
+                    {s.name_ko || s.name_en || '-'}
+                    {s.name_ko && s.name_en && <div className="text-muted" style={{ fontSize: '0.8rem' }}>{s.name_en}</div>}
+                  </td>
+                  <td>{s.market}{s.exchange ? ` · ${s.exchange}` : ''}</td>
+                  <td>{ASSET_TYPE_LABELS[s.asset_type]}</td>
+                  <td>
+                    {s.quote_enabled
+                      ? [s.naver_symbol && `N:${s.naver_symbol}`, s.yahoo_symbol && `Y:${s.yahoo_symbol}`].filter(Boolean).join(' ') || '-'
+                      : <span className="text-muted">조회 안 함</span>}
+                  </td>
+                  <td className="text-muted" style={{ fontSize: '0.8rem' }}>{s.aliases || '-'}</td>
+                  <td>{SOURCE_LABELS[s.source]}</td>
+                  <td>
+                    <div style={{ display: 'flex', gap: '4px' }}>
+                      <button className="btn btn-sm btn-secondary" onClick={() => handleEdit(s)}>수정</button>
+                      <button className="btn btn-sm btn-danger" onClick={() => handleDelete(s)}>삭제</button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <p className="text-muted mt-2">{query ? '검색 결과가 없습니다.' : '등록된 종목이 없습니다.'}</p>
+      )}
+    </div>
+  )
+}
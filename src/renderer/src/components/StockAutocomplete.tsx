@@ -130,7 +130,9 @@ export default function StockAutocomplete({
                 <span className="stock-code">{stock.stock_code}</span>
               </div>
               <div className="autocomplete-item-sub">
-                <span className="stock-price">{formatCurrency(stock.current_price, stock.currency)}</span>
+                {stock.current_price > 0 && (
+                  <span className="stock-price">{formatCurrency(stock.current_price, stock.currency)}</span>
+                )}
                 <span className={`stock-currency ${stock.currency === 'USD' ? 'usd' : 'krw'}`}>
                   {stock.currency}
                 </span>
@@ -0,0 +1,224 @@
+import { useEffect, useState } from 'react'
+import { ComposedChart, Line, Scatter, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts'
+
+type ChartRange = '3M' | '1Y' | 'ALL'
+
+interface PriceBar {
+  date: string
+  open: number | null
+  high: number | null
+  low: number | null
+  close: number
+  volume: number | null
+  source: 'API' | 'CSV' | 'STANDIN'
+}
+
+interface PriceMarker {
+  id: string
+  date: string
+  type: 'BUY' | 'SELL' | 'DIVIDEND'
+  quantity: number
+  price: number
+  total_amount: number
+  account_id: string
+  chart_price: number | null
+}
+
+interface PriceChart {
+  stock_code: string
+  stock_name: string
+  currency: string
+  bars: PriceBar[]
+  markers: PriceMarker[]
+  coverage: { count: number; first_date: string | null; last_date: string | null; stand_in: number }
+}
+
+interface ChartRow {
+  date: string
+  close?: number
+  BUY?: number
+  SELL?: number
+  DIVIDEND?: number
+}
+
+interface StockPriceChartProps {
+  stockCode: string
+  userId: string | null
+  onClose: () => void
+}
+
+const RANGE_LABELS: Record<ChartRange, string> = {
+  '3M': '3개월',
+  '1Y': '1년',
+  ALL: '전체'
+}
+
+const MARKER_LABELS: Record<PriceMarker['type'], string> = {
+  BUY: '매수',
+  SELL: '매도',
+  DIVIDEND: '배당'
+}
+
+const MARKER_COLORS: Record<PriceMarker['type'], string> = {
+  BUY: '#ef4444',
+  SELL: '#3b82f6',
+  DIVIDEND: '#22c55e'
+}
+
+function formatCurrency(value: number, currency: string): string {
+  return new Intl.NumberFormat('ko-KR', {
+    style: 'currency',
+    currency,
+    maximumFractionDigits: currency === 'KRW' ? 0 : 2
+  }).format(value)
+}
+
+function rangeStartDate(range: ChartRange): string | undefined {
+  if (range === 'ALL') return undefined
+  const d = new Date()
+  d.setMonth(d.getMonth() - (range === '3M' ? 3 : 12))
+  return d.toISOString().split('T')[0]
+}
+
+// 일봉과 거래 표시를 날짜 기준으로 합침 (같은 날 같은 종류 거래는 하나만 표시)
+function toChartRows(chart: PriceChart): ChartRow[] {
+  const rows = new Map<string, ChartRow>(chart.bars.map(b => [b.date, { date: b.date, close: b.close }]))
+  for (const m of chart.markers) {
+    if (m.chart_price === null) continue
+    const row = rows.get(m.date) || { date: m.date }
+    row[m.type] = m.chart_price
+    rows.set(m.date, row)
+  }
+  return [...rows.values()].sort((a, b) => a.date.localeCompare(b.date))
+}
+
+export default function StockPriceChart({ stockCode, userId, onClose }: StockPriceChartProps): JSX.Element {
+  const [range, setRange] = useState<ChartRange>('1Y')
+  const [chart, setChart] = useState<PriceChart | null>(null)
+  const [loading, setLoading] = useState(false)
+
+  useEffect(() => {
+    loadChart()
+  }, [stockCode, userId, range])
+
+  const loadChart = async () => {
+    try {
+      setChart(await window.api.priceHistory.getChart(stockCode, userId, rangeStartDate(range)))
+    } catch (error) {
+      console.error('Failed to load price chart:', error)
+    }
+  }
+
+  const handleBackfill = async () => {
+    setLoading(true)
+    try {
+      const result = await window.api.priceHistory.backfill(stockCode)
+      if (!result.success) {
+        alert('시세 이력 조회 실패: ' + result.error)
+      } else if (result.provider === 'STANDIN') {
+        alert(`시세를 조회하지 못해 대체값 ${result.standIn}건을 채웠습니다.\n${result.error || ''}`)
+      }
+      await loadChart()
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleImportCsv = async () => {
+    const file = await window.api.priceHistory.selectCsv()
+    if (!file.success || !file.filePath) return
+
+    const result = await window.api.priceHistory.importCsv(file.filePath, stockCode)
+    if (!result.success) {
+      alert('시세 CSV 가져오기 실패: ' + result.error)
+    } else {
+      alert(`${result.saved}건의 일봉을 저장했습니다.`)
+    }
+    await loadChart()
+  }
+
+  const currency = chart?.currency || 'KRW'
+  const rows = chart ? toChartRows(chart) : []
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal" style={{ maxWidth: '960px', width: '95%' }} onClick={(e) => e.stopPropagation()}>
+        <div className="modal-header">
+          <h2>{chart?.stock_name || stockCode} <span className="text-muted" style={{ fontSize: '0.9rem' }}>{stockCode}</span></h2>
+          <button className="modal-close" onClick={onClose}>
+            &times;
+          </button>
+        </div>
+
+        <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center', marginBottom: '0.75rem', flexWrap: 'wrap' }}>
+          <div className="view-toggle">
+            {(Object.keys(RANGE_LABELS) as ChartRange[]).map(r => (
+              <button key={r} className={range === r ? 'active' : ''} onClick={() => setRange(r)}>
+                {RANGE_LABELS[r]}
+              </button>
+            ))}
+          </div>
+          <button className="btn btn-sm btn-secondary" onClick={handleBackfill} disabled={loading}>
+            {loading ? '조회 중...' : '과거 시세 가져오기'}
+          </button>
+          <button className="btn btn-sm btn-secondary" onClick={handleImportCsv}>CSV 가져오기</button>
+          {chart && chart.coverage.count > 0 && (
+            <span className="text-muted" style={{ fontSize: '0.8rem' }}>
+              {chart.coverage.first_date} ~ {chart.coverage.last_date} · {chart.coverage.count}일
+              {chart.coverage.stand_in > 0 && ` (대체값 ${chart.coverage.stand_in}일)`}
+            </span>
+          )}
+        </div>
+
+        {rows.length > 1 ? (
+          <ResponsiveContainer width="100%" height={300}>
+            <ComposedChart data={rows}>
+              <CartesianGrid strokeDasharray="3 3" stroke="rgba(148, 163, 184, 0.1)" />
+              <XAxis dataKey="date" tick={{ fill: '#94a3b8', fontSize: 12 }} minTickGap={40} />
+              <YAxis tick={{ fill: '#94a3b8', fontSize: 12 }} domain={['auto', 'auto']} width={70} />
+              <Tooltip formatter={(value) => (typeof value === 'number' ? formatCurrency(value, currency) : value)} />
+              <Legend />
+              <Line type="monotone" dataKey="close" name="종가" stroke="#94a3b8" dot={false} connectNulls />
+              {(Object.keys(MARKER_LABELS) as PriceMarker['type'][]).map(type => (
+                <Scatter key={type} dataKey={type} name={MARKER_LABELS[type]} fill={MARKER_COLORS[type]} />
+              ))}
+            </ComposedChart>
+          </ResponsiveContainer>
+        ) : (
+          <div className="chart-empty">저장된 시세 이력이 없습니다. 과거 시세를 가져오거나 CSV(날짜,종가 또는 날짜,시가,고가,저가,종가,거래량)를 가져오세요.</div>
+        )}
+
+        {chart && chart.markers.length > 0 && (
+          <div className="table-container" style={{ marginTop: '1rem', maxHeight: '220px', overflowY: 'auto' }}>
+            <table>
+              <thead>
+                <tr>
+                  <th>일자</th>
+                  <th>구분</th>
+                  <th className="text-right">수량</th>
+                  <th className="text-right">단가</th>
+                  <th className="text-right">금액</th>
+                </tr>
+              </thead>
+              <tbody>
+                {chart.markers.map(m => (
+                  <tr key={m.id}>
+                    <td>{m.date}</td>
+                    <td style={{ color: MARKER_COLORS[m.type] }}>{MARKER_LABELS[m.type]}</td>
+                    <td className="text-right">{m.type === 'DIVIDEND' ? '-' : m.quantity.toLocaleString()}</td>
+                    <td className="text-right">{m.type === 'DIVIDEND' ? '-' : formatCurrency(m.price, currency)}</td>
+                    <td className="text-right">{formatCurrency(m.total_amount, currency)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <div className="modal-footer">
+          <button className="btn btn-secondary" onClick={onClose}>닫기</button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,4 +1,6 @@
 import { useEffect, useState } from 'react'
+import ReconciliationReport from '../components/ReconciliationReport'
+import JobProgressBar, { useJob } from '../components/JobProgressBar'
 
 interface Account {
   id: string
@@ -9,6 +11,8 @@ interface Account {
   account_alias: string | null
   api_key: string | null
   api_secret: string | null
+  cost_basis_method: 'FIFO' | 'AVERAGE' | 'SPECIFIC'
+  rebalance_policy: 'AUTO' | 'FULL' | 'BUY_ONLY' | 'HOLD'
   created_at: string
 }
 
@@ -20,6 +24,15 @@ interface SyncLog {
   error_message: string | null
 }
 
+interface CashBalance {
+  account_id: string
+  currency: string
+  balance: number
+  reported_balance: number | null
+  as_of: string | null
+  source: 'API' | 'MANUAL' | 'LEDGER'
+}
+
 interface AccountsProps {
   userId: string
 }
@@ -35,6 +48,19 @@ const BROKERAGE_LABELS: Record<string, string> = {
   OTHER: '기타'
 }
 
+const COST_BASIS_METHOD_LABELS: Record<string, string> = {
+  AVERAGE: '이동평균',
+  FIFO: '선입선출 (FIFO)',
+  SPECIFIC: '개별 지정'
+}
+
+const REBALANCE_POLICY_LABELS: Record<string, string> = {
+  AUTO: '자동 (연금/IRP/ISA만 매도)',
+  FULL: '매수·매도 허용',
+  BUY_ONLY: '매수만 (매도 없음)',
+  HOLD: '제외'
+}
+
 const ACCOUNT_TYPE_LABELS: Record<string, string> = {
   PENSION: '연금저축',
   IRP: 'IRP',
@@ -43,13 +69,23 @@ const ACCOUNT_TYPE_LABELS: Record<string, string> = {
   GENERAL: '일반'
 }
 
+function formatCurrency(value: number, currency: string = 'KRW'): string {
+  if (currency === 'USD') {
+    return new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(value)
+  }
+  return new Intl.NumberFormat('ko-KR', { style: 'currency', currency: 'KRW' }).format(value)
+}
+
 export default function Accounts({ userId }: AccountsProps): JSX.Element {
   const [accounts, setAccounts] = useState<Account[]>([])
   const [loading, setLoading] = useState(true)
   const [showModal, setShowModal] = useState(false)
   const [editingAccount, setEditingAccount] = useState<Account | null>(null)
   const [syncingAccountId, setSyncingAccountId] = useState<string | null>(null)
+  const [rebuildingAccountId, setRebuildingAccountId] = useState<string | null>(null)
+  const [reconcilingAccount, setReconcilingAccount] = useState<Account | null>(null)
   const [syncLogs, setSyncLogs] = useState<Record<string, SyncLog | null>>({})
+  const [cashBalances, setCashBalances] = useState<CashBalance[]>([])
   const [testingConnection, setTestingConnection] = useState(false)
   const [testResult, setTestResult] = useState<{ success: boolean; message: string } | null>(null)
 
@@ -59,7 +95,9 @@ export default function Accounts({ userId }: AccountsProps): JSX.Element {
     account_number: '',
     account_alias: '',
     api_key: '',
-    api_secret: ''
+    api_secret: '',
+    cost_basis_method: 'AVERAGE',
+    rebalance_policy: 'AUTO'
   })
 
   useEffect(() => {
@@ -87,8 +125,12 @@ export default function Accounts({ userId }: AccountsProps): JSX.Element {
 
   const loadAccounts = async () => {
     try {
-      const data = await window.api.account.getAll(userId)
+      const [data, cash] = await Promise.all([
+        window.api.account.getAll(userId),
+        window.api.cash.getBalances(userId)
+      ])
       setAccounts(data)
+      setCashBalances(cash)
     } catch (error) {
       console.error('Failed to load accounts:', error)
     } finally {
@@ -103,7 +145,9 @@ export default function Accounts({ userId }: AccountsProps): JSX.Element {
       account_number: '',
       account_alias: '',
       api_key: '',
-      api_secret: ''
+      api_secret: '',
+      cost_basis_method: 'AVERAGE',
+      rebalance_policy: 'AUTO'
     })
     setEditingAccount(null)
     setTestResult(null)
@@ -119,7 +163,9 @@ export default function Accounts({ userId }: AccountsProps): JSX.Element {
         account_number: account.account_number,
         account_alias: account.account_alias || '',
         api_key: account.api_key || '',
-        api_secret: account.api_secret || ''
+        api_secret: account.api_secret || '',
+        cost_basis_method: account.cost_basis_method || 'AVERAGE',
+        rebalance_policy: account.rebalance_policy || 'AUTO'
       })
     } else {
       resetForm()
@@ -140,10 +186,12 @@ export default function Accounts({ userId }: AccountsProps): JSX.Element {
         await window.api.account.update(editingAccount.id, {
           account_alias: formData.account_alias || undefined,
           api_key: formData.api_key || undefined,
-          api_secret: formData.api_secret || undefined
+          api_secret: formData.api_secret || undefined,
+          cost_basis_method: formData.cost_basis_method as Account['cost_basis_method'],
+          rebalance_policy: formData.rebalance_policy as Account['rebalance_policy']
         })
       } else {
-        await window.api.account.create({
+        const created = await window.api.account.create({
           user_id: userId,
           brokerage: formData.brokerage,
           account_type: formData.account_type,
@@ -152,6 +200,12 @@ export default function Accounts({ userId }: AccountsProps): JSX.Element {
           api_key: formData.api_key || undefined,
           api_secret: formData.api_secret || undefined
         })
+        if (formData.cost_basis_method !== 'AVERAGE' || formData.rebalance_policy !== 'AUTO') {
+          await window.api.account.update(created.id, {
+            cost_basis_method: formData.cost_basis_method as Account['cost_basis_method'],
+            rebalance_policy: formData.rebalance_policy as Account['rebalance_policy']
+          })
+        }
       }
 
       setShowModal(false)
@@ -176,29 +230,74 @@ export default function Accounts({ userId }: AccountsProps): JSX.Element {
     }
   }
 
+  // 동기화 작업 (진행 상황 표시, 취소 가능) - 종료 시 마지막 동기화 기록 갱신
+  const syncJob = useJob(async () => {
+    const accountId = syncingAccountId
+    setSyncingAccountId(null)
+    if (!accountId) return
+    const log = await window.api.sync.getLastSync(accountId)
+    setSyncLogs((prev) => ({ ...prev, [accountId]: log }))
+  })
+
   const handleSync = async (accountId: string) => {
     setSyncingAccountId(accountId)
     try {
-      const result = await window.api.sync.all(accountId)
-      if (result.holdings.success && result.transactions.success) {
-        alert(`동기화 완료!\n보유종목: ${result.holdings.synced}건 업데이트\n거래내역: ${result.transactions.synced}건 가져옴 (${result.transactions.skipped}건 중복 제외)`)
-      } else {
-        const errors: string[] = []
-        if (!result.holdings.success) errors.push(`보유종목: ${result.holdings.error}`)
-        if (!result.transactions.success) errors.push(`거래내역: ${result.transactions.error}`)
-        alert(`동기화 중 오류 발생:\n${errors.join('\n')}`)
-      }
-      // Refresh sync logs
-      const log = await window.api.sync.getLastSync(accountId)
-      setSyncLogs((prev) => ({ ...prev, [accountId]: log }))
+      await syncJob.start(() => window.api.sync.startAll(accountId))
     } catch (error) {
       console.error('Sync failed:', error)
       alert('동기화 실패: ' + (error instanceof Error ? error.message : '알 수 없는 오류'))
-    } finally {
       setSyncingAccountId(null)
     }
   }
 
+  const handleRebuild = async (accountId: string) => {
+    if (!confirm('거래내역을 처음부터 다시 적용하여 보유종목 수량과 평균단가를 재계산합니다. 계속하시겠습니까?')) {
+      return
+    }
+
+    setRebuildingAccountId(accountId)
+    try {
+      const result = await window.api.holding.rebuildAccount(accountId)
+      if (result.success) {
+        const lines = [`원장 재계산 완료!`, `종목: ${result.stocks}건 (갱신 ${result.updated}건, 청산 ${result.removed}건)`]
+        if (result.incomplete && result.incomplete.length > 0) {
+          lines.push(`매수 내역이 부족하여 유지한 종목: ${result.incomplete.join(', ')}`)
+        }
+        alert(lines.join('\n'))
+      } else {
+        alert('원장 재계산 실패: ' + result.error)
+      }
+    } catch (error) {
+      console.error('Rebuild failed:', error)
+      alert('원장 재계산 실패: ' + (error instanceof Error ? error.message : '알 수 없는 오류'))
+    } finally {
+      setRebuildingAccountId(null)
+    }
+  }
+
+  const handleSetCash = async (account: Account) => {
+    const defaultCurrency = account.account_type === 'OVERSEAS' ? 'USD' : 'KRW'
+    const currency = prompt('예수금 통화 (KRW/USD)', defaultCurrency)?.trim().toUpperCase()
+    if (!currency) return
+
+    const current = cashBalances.find(c => c.account_id === account.id && c.currency === currency)
+    const input = prompt(`증권사 기준 현재 예수금 (${currency})`, current ? String(current.balance) : '')
+    if (input === null) return
+
+    const balance = parseFloat(input.replace(/,/g, ''))
+    if (isNaN(balance)) {
+      alert('금액을 올바르게 입력해주세요')
+      return
+    }
+
+    const result = await window.api.cash.setBalance(account.id, currency, balance)
+    if (!result.success) {
+      alert('예수금 저장 실패: ' + result.error)
+      return
+    }
+    setCashBalances(await window.api.cash.getBalances(userId))
+  }
+
   const handleTestConnection = async () => {
     if (!formData.api_key || !formData.api_secret) {
       setTestResult({ success: false, message: 'API Key와 Secret을 먼저 입력해주세요' })
@@ -243,6 +342,8 @@ export default function Accounts({ userId }: AccountsProps): JSX.Element {
         </button>
       </div>
 
+      <JobProgressBar job={syncJob.job} onCancel={syncJob.cancel} onDismiss={syncJob.dismiss} />
+
       {accounts.length === 0 ? (
         <div className="empty-state">
           <h3>등록된 계좌가 없습니다</h3>
@@ -260,6 +361,21 @@ export default function Accounts({ userId }: AccountsProps): JSX.Element {
                   <button className="btn btn-sm btn-secondary" onClick={() => handleOpenModal(account)}>
                     수정
                   </button>
+                  <button
+                    className="btn btn-sm btn-secondary"
+                    onClick={() => handleRebuild(account.id)}
+                    disabled={rebuildingAccountId === account.id}
+                    title="거래내역으로 보유종목 재계산"
+                  >
+                    {rebuildingAccountId === account.id ? '재계산 중...' : '원장 재계산'}
+                  </button>
+                  <button
+                    className="btn btn-sm btn-secondary"
+                    onClick={() => setReconcilingAccount(account)}
+                    title="증권사 잔고와 거래내역 비교"
+                  >
+                    잔고 대사
+                  </button>
                   <button className="btn btn-sm btn-danger" onClick={() => handleDelete(account.id)}>
                     삭제
                   </button>
@@ -279,6 +395,26 @@ export default function Accounts({ userId }: AccountsProps): JSX.Element {
                   <span className="text-muted">계좌번호: </span>
                   {account.account_number.replace(/(.{4})/g, '$1-').slice(0, -1)}
                 </div>
+                <div className="mb-1">
+                  <span className="text-muted">원가 계산: </span>
+                  {COST_BASIS_METHOD_LABELS[account.cost_basis_method] || COST_BASIS_METHOD_LABELS.AVERAGE}
+                </div>
+                <div className="mb-1">
+                  <span className="text-muted">리밸런싱: </span>
+                  {REBALANCE_POLICY_LABELS[account.rebalance_policy] || REBALANCE_POLICY_LABELS.AUTO}
+                </div>
+                <div className="mb-1">
+                  <span className="text-muted">예수금: </span>
+                  {cashBalances.filter(c => c.account_id === account.id).map(c => (
+                    <span key={c.currency} style={{ marginRight: '8px' }} title={c.as_of ? `${c.as_of} 기준 ${c.source === 'API' ? 'API' : '직접 입력'} 잔고 + 이후 거래` : '입출금 거래 기준'}>
+                      {formatCurrency(c.balance, c.currency)}
+                    </span>
+                  ))}
+                  {!cashBalances.some(c => c.account_id === account.id) && <span className="text-muted">-</span>}
+                  <button className="btn btn-sm btn-secondary" style={{ marginLeft: '6px' }} onClick={() => handleSetCash(account)}>
+                    입력
+                  </button>
+                </div>
                 <div className="mb-1">
                   <span className="text-muted">데이터 입력: </span>
                   {account.brokerage === 'KOREA_INV' ? (
@@ -307,7 +443,7 @@ export default function Accounts({ userId }: AccountsProps): JSX.Element {
                       <button
                         className="btn btn-sm btn-primary"
                         onClick={() => handleSync(account.id)}
-                        disabled={syncingAccountId === account.id}
+                        disabled={syncJob.running}
                       >
                         {syncingAccountId === account.id ? '동기화 중...' : '동기화'}
                       </button>
@@ -321,6 +457,14 @@ export default function Accounts({ userId }: AccountsProps): JSX.Element {
       )}
 
       {/* Add/Edit Account Modal */}
+      {reconcilingAccount && (
+        <ReconciliationReport
+          accountId={reconcilingAccount.id}
+          accountName={reconcilingAccount.account_alias || BROKERAGE_LABELS[reconcilingAccount.brokerage]}
+          onClose={() => setReconcilingAccount(null)}
+        />
+      )}
+
       {showModal && (
         <div className="modal-overlay" onClick={() => setShowModal(false)}>
           <div className="modal" onClick={(e) => e.stopPropagation()}>
@@ -390,6 +534,30 @@ export default function Accounts({ userId }: AccountsProps): JSX.Element {
                 />
               </div>
 
+              <div className="form-group">
+                <label>매도 원가 계산 방식</label>
+                <select
+                  value={formData.cost_basis_method}
+                  onChange={(e) => setFormData({ ...formData, cost_basis_method: e.target.value })}
+                >
+                  {Object.entries(COST_BASIS_METHOD_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="form-group">
+                <label>리밸런싱 정책</label>
+                <select
+                  value={formData.rebalance_policy}
+                  onChange={(e) => setFormData({ ...formData, rebalance_policy: e.target.value })}
+                >
+                  {Object.entries(REBALANCE_POLICY_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+              </div>
+
               {formData.brokerage === 'KOREA_INV' && (
                 <>
                   <div className="form-group">
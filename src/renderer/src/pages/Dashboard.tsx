@@ -1,15 +1,45 @@
 import { useEffect, useState, useCallback } from 'react'
 import PortfolioCharts from '../components/PortfolioCharts'
 import DividendAnalysis from '../components/DividendAnalysis'
+import FxReturnAnalysis from '../components/FxReturnAnalysis'
+import PerformanceReturns from '../components/PerformanceReturns'
+import BenchmarkComparison from '../components/BenchmarkComparison'
+import ExposureAnalysis from '../components/ExposureAnalysis'
+import JobProgressBar, { useJob } from '../components/JobProgressBar'
+import MarketDataStatusBadges, { useMarketDataStatus } from '../components/MarketDataStatusBadges'
+
+interface FxQuote {
+  currency: string
+  pair: string
+  rate: number
+  timestamp: string | null
+  source: 'BASE' | 'LIVE' | 'FALLBACK' | 'MISSING'
+  error?: string
+}
+
+interface CurrencySubtotal {
+  currency: string
+  market_value: number
+  cost_basis: number
+  market_value_base: number
+  cost_basis_base: number
+  fx_rate: number
+  fx_missing: boolean
+}
 
 interface PortfolioSummary {
+  baseCurrency: string
+  fxRates: FxQuote[]
+  excluded: Array<{ currency: string; amount: number }>
   totalMarketValue: number
   totalCostBasis: number
+  totalCash: number
+  totalAssets: number
   totalReturn: number
   totalReturnPercent: number
-  byCurrency: Array<{ currency: string; market_value: number; cost_basis: number }>
-  byAccountType: Array<{ account_type: string; market_value: number; cost_basis: number }>
-  byBrokerage: Array<{ brokerage: string; market_value: number; cost_basis: number }>
+  byCurrency: CurrencySubtotal[]
+  byAccountType: Array<{ account_type: string; market_value: number; cost_basis: number; cash: number }>
+  byBrokerage: Array<{ brokerage: string; market_value: number; cost_basis: number; cash: number }>
 }
 
 interface AggregatedHolding {
@@ -24,6 +54,7 @@ interface AggregatedHolding {
 }
 
 interface PortfolioReturns {
+  baseCurrency: string
   dailyReturn: number
   dailyReturnPercent: number
   priceReturn: number
@@ -72,6 +103,11 @@ function formatPercent(value: number): string {
   return `${sign}${value.toFixed(2)}%`
 }
 
+function formatDateTime(timestamp: string | null): string {
+  if (!timestamp) return '-'
+  return new Date(timestamp).toLocaleString('ko-KR', { month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit' })
+}
+
 function formatTime(timestamp: string | null): string {
   if (!timestamp) return '-'
   const date = new Date(timestamp)
@@ -82,21 +118,24 @@ export default function Dashboard({ userId }: DashboardProps): JSX.Element {
   const [summary, setSummary] = useState<PortfolioSummary | null>(null)
   const [holdings, setHoldings] = useState<AggregatedHolding[]>([])
   const [returns, setReturns] = useState<PortfolioReturns | null>(null)
+  const [realizedYtd, setRealizedYtd] = useState<{ gain: number; count: number } | null>(null)
   const [loading, setLoading] = useState(true)
-  const [refreshing, setRefreshing] = useState(false)
   const [lastUpdate, setLastUpdate] = useState<string | null>(null)
   const [exchangeRate, setExchangeRate] = useState<number | null>(null)
+  const marketStatus = useMarketDataStatus(userId)
 
   const loadData = useCallback(async () => {
     try {
-      const [summaryData, holdingsData, returnsData] = await Promise.all([
+      const [summaryData, holdingsData, returnsData, realizedData] = await Promise.all([
         window.api.portfolio.getSummary(userId),
         window.api.holding.getAggregated(userId),
-        window.api.portfolio.getReturns(userId)
+        window.api.portfolio.getReturns(userId),
+        window.api.portfolio.getRealizedGains(userId, new Date().getFullYear())
       ])
       setSummary(summaryData)
       setHoldings(holdingsData)
       setReturns(returnsData)
+      setRealizedYtd({ gain: realizedData.summary.totals.gain, count: realizedData.summary.totals.count })
     } catch (error) {
       console.error('Failed to load dashboard data:', error)
     } finally {
@@ -104,9 +143,15 @@ export default function Dashboard({ userId }: DashboardProps): JSX.Element {
     }
   }, [userId])
 
+  // 현재가 갱신 작업 (종목별 진행 상황 표시, 취소 가능)
+  const refreshJob = useJob(() => {
+    loadData()
+    marketStatus.reload()
+    setLastUpdate(new Date().toISOString())
+  })
+
   // 현재가 및 환율 새로고침
-  const refreshMarketData = useCallback(async () => {
-    setRefreshing(true)
+  const refreshMarketData = async () => {
     try {
       // 환율 조회 (캐시 무시, 강제 새로고침)
       const rateResult = await window.api.marketData.getExchangeRate('USD', 'KRW', true)
@@ -115,73 +160,71 @@ export default function Dashboard({ userId }: DashboardProps): JSX.Element {
       }
 
       // 모든 보유종목 현재가 업데이트
-      const result = await window.api.marketData.refreshAll(userId)
-      console.log(`Market data refreshed: ${result.updated} updated, ${result.failed} failed`)
-
-      // 데이터 다시 로드
-      await loadData()
-      setLastUpdate(new Date().toISOString())
+      await refreshJob.start(() => window.api.marketData.startRefresh(userId))
     } catch (error) {
       console.error('Failed to refresh market data:', error)
-    } finally {
-      setRefreshing(false)
     }
-  }, [userId, loadData])
+  }
 
   useEffect(() => {
-    // 앱 시작 시: 먼저 기존 데이터 표시, 그 후 시세 업데이트
-    let isMounted = true
-
-    const initializeData = async () => {
-      // 1. 먼저 기존 DB 데이터로 빠르게 화면 표시
-      await loadData()
-
-      // 2. 컴포넌트가 아직 마운트되어 있으면 시세 새로고침
-      //    (refreshMarketData는 내부에서 loadData를 다시 호출함)
-      if (isMounted) {
-        refreshMarketData()
+    // 시세는 메인 프로세스가 장중/장마감 후 백그라운드로 갱신 → 저장된 시세·환율 먼저 표시 후 갱신 이벤트 수신
+    loadData()
+    window.api.marketData.getLastExchangeRate('USD', 'KRW').then(rateResult => {
+      if (rateResult.success) {
+        setExchangeRate(rateResult.rate)
       }
-    }
-
-    initializeData()
+    })
 
-    const cleanup = window.api.onTriggerSync(() => {
+    const cleanupSync = window.api.onTriggerSync(() => {
+      loadData()
+    })
+    const cleanupPrices = window.api.onPricesUpdated((event) => {
       loadData()
+      setLastUpdate(event.ran_at)
     })
 
     return () => {
-      isMounted = false
-      cleanup()
+      cleanupSync()
+      cleanupPrices()
     }
-  }, [userId, loadData, refreshMarketData])
+  }, [userId, loadData])
 
   if (loading) {
     return <div className="loading-screen"><div className="loading-spinner"></div></div>
   }
 
-  const hasData = summary && summary.totalMarketValue > 0
+  const hasData = summary && summary.totalAssets > 0
+  const baseCurrency = summary?.baseCurrency || 'KRW'
 
   return (
     <div className="dashboard">
       <div className="page-header">
         <h1>대시보드</h1>
         <div className="header-actions">
-          {lastUpdate && (
+          <MarketDataStatusBadges status={marketStatus.status} />
+          {lastUpdate ? (
             <span className="last-update">
               마지막 업데이트: {formatTime(lastUpdate)}
               {exchangeRate && ` | USD/KRW: ${exchangeRate.toLocaleString()}`}
             </span>
+          ) : marketStatus.status?.quotes_as_of && (
+            <span className="last-update">
+              시세 기준: {formatDateTime(marketStatus.status.quotes_as_of)}
+              {exchangeRate && ` | USD/KRW: ${exchangeRate.toLocaleString()}`}
+            </span>
           )}
           <button
             className="btn btn-primary"
             onClick={refreshMarketData}
-            disabled={refreshing}
+            disabled={refreshJob.running}
           >
-            {refreshing ? '조회 중...' : '시세 새로고침'}
+            {refreshJob.running ? '조회 중...' : '시세 새로고침'}
           </button>
         </div>
       </div>
 
+      <JobProgressBar job={refreshJob.job} onCancel={refreshJob.cancel} onDismiss={refreshJob.dismiss} />
+
       {!hasData ? (
         <div className="empty-state">
           <h3>포트폴리오 데이터가 없습니다</h3>
@@ -189,20 +232,39 @@ export default function Dashboard({ userId }: DashboardProps): JSX.Element {
         </div>
       ) : (
         <>
+          {summary.excluded.length > 0 && (
+            <div className="warning-box">
+              {summary.excluded.map(e => (
+                <div key={e.currency}>
+                  {e.currency}/{baseCurrency} 환율이 없어 {e.currency} 자산 {formatCurrency(e.amount, e.currency)}은 합계에서 제외되었습니다.
+                </div>
+              ))}
+            </div>
+          )}
+
           {/* Main Stats */}
           <div className="stats-grid">
             <div className="stat-card">
               <div className="stat-label">총 평가금액</div>
-              <div className="stat-value">{formatCurrency(summary.totalMarketValue)}</div>
+              <div className="stat-value">{formatCurrency(summary.totalMarketValue, baseCurrency)}</div>
             </div>
+            {summary.totalCash !== 0 && (
+              <div className="stat-card">
+                <div className="stat-label">예수금</div>
+                <div className="stat-value">{formatCurrency(summary.totalCash, baseCurrency)}</div>
+                <div className="stat-sub">
+                  <span>총자산: {formatCurrency(summary.totalAssets, baseCurrency)}</span>
+                </div>
+              </div>
+            )}
             <div className="stat-card">
               <div className="stat-label">총 투자원금</div>
-              <div className="stat-value">{formatCurrency(summary.totalCostBasis)}</div>
+              <div className="stat-value">{formatCurrency(summary.totalCostBasis, baseCurrency)}</div>
             </div>
             <div className="stat-card">
               <div className="stat-label">총 수익</div>
               <div className={`stat-value ${summary.totalReturn >= 0 ? 'positive' : 'negative'}`}>
-                {formatCurrency(summary.totalReturn)}
+                {formatCurrency(summary.totalReturn, baseCurrency)}
               </div>
               <div className={`stat-change ${summary.totalReturnPercent >= 0 ? 'positive' : 'negative'}`}>
                 {formatPercent(summary.totalReturnPercent)}
@@ -216,7 +278,7 @@ export default function Dashboard({ userId }: DashboardProps): JSX.Element {
               <div className="stat-card">
                 <div className="stat-label">일일 변동</div>
                 <div className={`stat-value ${returns.dailyReturn >= 0 ? 'positive' : 'negative'}`}>
-                  {formatCurrency(returns.dailyReturn)}
+                  {formatCurrency(returns.dailyReturn, baseCurrency)}
                 </div>
                 <div className={`stat-change ${returns.dailyReturnPercent >= 0 ? 'positive' : 'negative'}`}>
                   {formatPercent(returns.dailyReturnPercent)}
@@ -225,7 +287,7 @@ export default function Dashboard({ userId }: DashboardProps): JSX.Element {
               <div className="stat-card">
                 <div className="stat-label">평가손익</div>
                 <div className={`stat-value ${returns.priceReturn >= 0 ? 'positive' : 'negative'}`}>
-                  {formatCurrency(returns.priceReturn)}
+                  {formatCurrency(returns.priceReturn, baseCurrency)}
                 </div>
                 <div className={`stat-change ${returns.priceReturnPercent >= 0 ? 'positive' : 'negative'}`}>
                   {formatPercent(returns.priceReturnPercent)}
@@ -233,26 +295,78 @@ export default function Dashboard({ userId }: DashboardProps): JSX.Element {
               </div>
               <div className="stat-card">
                 <div className="stat-label">누적 배당금</div>
-                <div className="stat-value">{formatCurrency(returns.totalDividends)}</div>
+                <div className="stat-value">{formatCurrency(returns.totalDividends, baseCurrency)}</div>
                 <div className="stat-sub">
-                  <span>MTD: {formatCurrency(returns.mtdDividends)}</span>
-                  <span style={{ marginLeft: '8px' }}>YTD: {formatCurrency(returns.ytdDividends)}</span>
+                  <span>MTD: {formatCurrency(returns.mtdDividends, baseCurrency)}</span>
+                  <span style={{ marginLeft: '8px' }}>YTD: {formatCurrency(returns.ytdDividends, baseCurrency)}</span>
                 </div>
               </div>
               <div className="stat-card">
                 <div className="stat-label">총 수익 (배당 포함)</div>
                 <div className={`stat-value ${returns.totalReturnWithDividends >= 0 ? 'positive' : 'negative'}`}>
-                  {formatCurrency(returns.totalReturnWithDividends)}
+                  {formatCurrency(returns.totalReturnWithDividends, baseCurrency)}
                 </div>
                 <div className={`stat-change ${returns.totalReturnWithDividendsPercent >= 0 ? 'positive' : 'negative'}`}>
                   {formatPercent(returns.totalReturnWithDividendsPercent)}
                 </div>
               </div>
+              {realizedYtd && realizedYtd.count > 0 && (
+                <div className="stat-card">
+                  <div className="stat-label">실현손익 (올해)</div>
+                  <div className={`stat-value ${realizedYtd.gain >= 0 ? 'positive' : 'negative'}`}>
+                    {formatCurrency(realizedYtd.gain, baseCurrency)}
+                  </div>
+                  <div className="stat-sub">
+                    <span>매도 매칭 {realizedYtd.count}건</span>
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* By Currency (기준통화 환산) */}
+          {summary.byCurrency.length > 1 && (
+            <div className="card">
+              <div className="card-header">
+                <h3 className="card-title">통화별 (기준통화: {baseCurrency})</h3>
+              </div>
+              <table>
+                <thead>
+                  <tr>
+                    <th>통화</th>
+                    <th className="text-right">평가금액</th>
+                    <th className="text-right">{baseCurrency} 환산</th>
+                    <th className="text-right">적용 환율</th>
+                    <th className="text-right">환율 기준시각</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {summary.byCurrency.map((item) => {
+                    const quote = summary.fxRates.find(q => q.currency === item.currency)
+                    return (
+                      <tr key={item.currency}>
+                        <td>{item.currency}</td>
+                        <td className="text-right">{formatCurrency(item.market_value, item.currency)}</td>
+                        <td className="text-right">{formatCurrency(item.market_value_base, baseCurrency)}</td>
+                        <td className="text-right">
+                          {item.currency === baseCurrency ? '-' : item.fx_rate > 0 ? item.fx_rate.toLocaleString() : '환율 없음'}
+                        </td>
+                        <td className="text-right text-muted">
+                          {quote ? formatDateTime(quote.timestamp) : '-'}
+                          {quote?.error && <span className="badge" style={{ marginLeft: '6px' }} title={quote.error}>캐시</span>}
+                        </td>
+                      </tr>
+                    )
+                  })}
+                </tbody>
+              </table>
             </div>
           )}
 
           {/* Portfolio Charts */}
           <PortfolioCharts
+            userId={userId}
+            refreshKey={lastUpdate}
             byAccountType={summary.byAccountType}
             byBrokerage={summary.byBrokerage}
           />
@@ -279,7 +393,7 @@ export default function Dashboard({ userId }: DashboardProps): JSX.Element {
                     return (
                       <tr key={item.account_type}>
                         <td>{ACCOUNT_TYPE_LABELS[item.account_type] || item.account_type}</td>
-                        <td className="text-right">{formatCurrency(item.market_value)}</td>
+                        <td className="text-right">{formatCurrency(item.market_value, baseCurrency)}</td>
                         <td className={`text-right ${returnVal >= 0 ? 'text-success' : 'text-danger'}`}>
                           {formatPercent(returnPct)}
                         </td>
@@ -310,7 +424,7 @@ export default function Dashboard({ userId }: DashboardProps): JSX.Element {
                     return (
                       <tr key={item.brokerage}>
                         <td>{BROKERAGE_LABELS[item.brokerage] || item.brokerage}</td>
-                        <td className="text-right">{formatCurrency(item.market_value)}</td>
+                        <td className="text-right">{formatCurrency(item.market_value, baseCurrency)}</td>
                         <td className={`text-right ${returnVal >= 0 ? 'text-success' : 'text-danger'}`}>
                           {formatPercent(returnPct)}
                         </td>
@@ -322,6 +436,18 @@ export default function Dashboard({ userId }: DashboardProps): JSX.Element {
             </div>
           </div>
 
+          {/* Sector/Country/Asset-class Exposure (ETF look-through) */}
+          <ExposureAnalysis userId={userId} refreshKey={lastUpdate} />
+
+          {/* Time/Money-weighted Returns */}
+          <PerformanceReturns refreshKey={lastUpdate} />
+
+          {/* Benchmark Comparison */}
+          <BenchmarkComparison refreshKey={lastUpdate} />
+
+          {/* FX Return Split (환차익) */}
+          <FxReturnAnalysis userId={userId} />
+
           {/* Dividend Analysis */}
           <DividendAnalysis userId={userId} />
 
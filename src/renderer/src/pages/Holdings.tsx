@@ -1,4 +1,8 @@
 import { useEffect, useState, useCallback } from 'react'
+import StockPriceChart from '../components/StockPriceChart'
+import PriceOverrideModal from '../components/PriceOverrideModal'
+import JobProgressBar, { useJob } from '../components/JobProgressBar'
+import MarketDataStatusBadges, { useMarketDataStatus } from '../components/MarketDataStatusBadges'
 
 interface HoldingWithChange {
   id: string
@@ -11,6 +15,13 @@ interface HoldingWithChange {
   prev_close: number
   currency: string
   last_synced: string | null
+  instrument_code?: string
+  price_basis?: 'MANUAL' | 'QUOTE' | 'BROKER'
+  quote_source?: string | null
+  quote_as_of?: string | null
+  manual_valuation_date?: string | null
+  manual_note?: string | null
+  manual_expires_at?: string | null
   brokerage: string
   account_type: string
   account_alias: string | null
@@ -58,13 +69,30 @@ function formatTime(timestamp: string | null): string {
   return date.toLocaleTimeString('ko-KR', { hour: '2-digit', minute: '2-digit' })
 }
 
+// 수동 시세 평가일 경과 일수
+function daysSince(date: string): number {
+  const [y, m, d] = date.split('-').map(Number)
+  const start = new Date(y, m - 1, d).getTime()
+  const now = new Date()
+  return Math.max(0, Math.round((new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime() - start) / 86400000))
+}
+
+// 시세 기준 시각 (오늘이면 시각, 이전이면 날짜)
+function formatQuoteAge(timestamp: string): string {
+  const date = new Date(timestamp)
+  if (date.toDateString() === new Date().toDateString()) return formatTime(timestamp)
+  return date.toLocaleDateString('ko-KR', { month: '2-digit', day: '2-digit' })
+}
+
 export default function Holdings({ userId }: HoldingsProps): JSX.Element {
   const [holdings, setHoldings] = useState<HoldingWithChange[]>([])
   const [loading, setLoading] = useState(true)
-  const [refreshing, setRefreshing] = useState(false)
   const [filter, setFilter] = useState<string>('all')
   const [lastUpdate, setLastUpdate] = useState<string | null>(null)
   const [exchangeRate, setExchangeRate] = useState<number | null>(null)
+  const [chartStock, setChartStock] = useState<string | null>(null)
+  const [overrideHolding, setOverrideHolding] = useState<HoldingWithChange | null>(null)
+  const marketStatus = useMarketDataStatus(userId)
 
   const loadHoldings = useCallback(async () => {
     try {
@@ -77,9 +105,15 @@ export default function Holdings({ userId }: HoldingsProps): JSX.Element {
     }
   }, [userId])
 
+  // 현재가 갱신 작업 (종목별 진행 상황 표시, 취소 가능)
+  const refreshJob = useJob(() => {
+    loadHoldings()
+    marketStatus.reload()
+    setLastUpdate(new Date().toISOString())
+  })
+
   // 현재가 새로고침
-  const refreshMarketData = useCallback(async () => {
-    setRefreshing(true)
+  const refreshMarketData = async () => {
     try {
       // 환율 조회
       const rateResult = await window.api.marketData.getExchangeRate('USD', 'KRW')
@@ -88,27 +122,34 @@ export default function Holdings({ userId }: HoldingsProps): JSX.Element {
       }
 
       // 모든 보유종목 현재가 업데이트
-      const result = await window.api.marketData.refreshAll(userId)
-      console.log(`Market data refreshed: ${result.updated} updated, ${result.failed} failed`)
-
-      // 데이터 다시 로드
-      await loadHoldings()
-      setLastUpdate(new Date().toISOString())
+      await refreshJob.start(() => window.api.marketData.startRefresh(userId))
     } catch (error) {
       console.error('Failed to refresh market data:', error)
-    } finally {
-      setRefreshing(false)
     }
-  }, [userId, loadHoldings])
+  }
 
   useEffect(() => {
+    // 저장된 시세·환율 먼저 표시 (네트워크 호출 없음)
     loadHoldings()
+    window.api.marketData.getLastExchangeRate('USD', 'KRW').then(rateResult => {
+      if (rateResult.success) {
+        setExchangeRate(rateResult.rate)
+      }
+    })
 
-    const cleanup = window.api.onTriggerSync(() => {
+    const cleanupSync = window.api.onTriggerSync(() => {
       loadHoldings()
     })
+    // 백그라운드 시세 갱신 완료 시 다시 로드
+    const cleanupPrices = window.api.onPricesUpdated((event) => {
+      loadHoldings()
+      setLastUpdate(event.ran_at)
+    })
 
-    return cleanup
+    return () => {
+      cleanupSync()
+      cleanupPrices()
+    }
   }, [userId, loadHoldings])
 
   const filteredHoldings = holdings.filter((h) => {
@@ -120,6 +161,8 @@ export default function Holdings({ userId }: HoldingsProps): JSX.Element {
     return h.account_type === filter || h.brokerage === filter
   })
 
+  const staleCodes = new Set((marketStatus.status?.stale_quotes || []).map(q => q.instrument_code))
+
   const totalValue = filteredHoldings.reduce((sum, h) => sum + h.quantity * h.current_price, 0)
   const totalCost = filteredHoldings.reduce((sum, h) => sum + h.quantity * h.avg_cost, 0)
   const totalReturn = totalValue - totalCost
@@ -152,22 +195,30 @@ export default function Holdings({ userId }: HoldingsProps): JSX.Element {
               <option value="KB">KB증권</option>
             </optgroup>
           </select>
-          {lastUpdate && (
+          <MarketDataStatusBadges status={marketStatus.status} />
+          {lastUpdate ? (
             <span className="last-update">
               업데이트: {formatTime(lastUpdate)}
               {exchangeRate && ` | USD/KRW: ${exchangeRate.toLocaleString()}`}
             </span>
+          ) : marketStatus.status?.quotes_as_of && (
+            <span className="last-update">
+              시세 기준: {formatQuoteAge(marketStatus.status.quotes_as_of)}
+              {exchangeRate && ` | USD/KRW: ${exchangeRate.toLocaleString()}`}
+            </span>
           )}
           <button
             className="btn btn-secondary"
             onClick={refreshMarketData}
-            disabled={refreshing}
+            disabled={refreshJob.running}
           >
-            {refreshing ? '조회 중...' : '시세 새로고침'}
+            {refreshJob.running ? '조회 중...' : '시세 새로고침'}
           </button>
         </div>
       </div>
 
+      <JobProgressBar job={refreshJob.job} onCancel={refreshJob.cancel} onDismiss={refreshJob.dismiss} />
+
       {holdings.length === 0 ? (
         <div className="empty-state">
           <h3>보유종목이 없습니다</h3>
@@ -224,7 +275,11 @@ export default function Holdings({ userId }: HoldingsProps): JSX.Element {
                     return (
                       <tr key={holding.id}>
                         <td>
-                          <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+                          <div
+                            style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', cursor: 'pointer' }}
+                            title="시세 차트 보기"
+                            onClick={() => setChartStock(holding.stock_code)}
+                          >
                             {holding.stock_name}
                             {isOverseas && (
                               <span className="badge badge-overseas">해외</span>
@@ -242,7 +297,31 @@ export default function Holdings({ userId }: HoldingsProps): JSX.Element {
                         </td>
                         <td className="text-right">{holding.quantity.toLocaleString()}</td>
                         <td className="text-right">{formatCurrency(holding.avg_cost, holding.currency)}</td>
-                        <td className="text-right">{formatCurrency(holding.current_price, holding.currency)}</td>
+                        <td
+                          className="text-right"
+                          style={{ cursor: 'pointer' }}
+                          title={
+                            holding.price_basis === 'MANUAL'
+                              ? `수동 시세 · 평가일 ${holding.manual_valuation_date}${holding.manual_note ? ` · ${holding.manual_note}` : ''}${holding.manual_expires_at ? ` · ${holding.manual_expires_at} 만료` : ''}`
+                              : holding.quote_as_of
+                                ? `${holding.quote_source} 시세 · ${new Date(holding.quote_as_of).toLocaleString('ko-KR')} (클릭하여 수동 시세 입력)`
+                                : '증권사 기준가 (클릭하여 수동 시세 입력)'
+                          }
+                          onClick={() => setOverrideHolding(holding)}
+                        >
+                          <div>
+                            {holding.price_basis === 'MANUAL' && <span className="badge badge-manual">수동</span>}{' '}
+                            {formatCurrency(holding.current_price, holding.currency)}
+                          </div>
+                          <div className="text-muted" style={{ fontSize: '0.75rem' }}>
+                            {holding.price_basis === 'MANUAL' && holding.manual_valuation_date
+                              ? `${holding.manual_valuation_date.substring(5).replace('-', '/')} 평가 · ${daysSince(holding.manual_valuation_date)}일 전`
+                              : holding.quote_as_of ? formatQuoteAge(holding.quote_as_of) : '증권사 기준'}
+                            {holding.price_basis === 'QUOTE' && holding.instrument_code && staleCodes.has(holding.instrument_code) && (
+                              <span className="badge badge-stale" style={{ marginLeft: '4px' }} title="최근 장 마감 이후 갱신되지 않은 시세">지연</span>
+                            )}
+                          </div>
+                        </td>
                         <td className={`text-right ${dayChange >= 0 ? 'text-success' : 'text-danger'} ${isHighChange ? 'high-change' : ''}`}>
                           {formatPercent(dayChange)}
                         </td>
@@ -260,6 +339,21 @@ export default function Holdings({ userId }: HoldingsProps): JSX.Element {
           </div>
         </>
       )}
+
+      {chartStock && (
+        <StockPriceChart stockCode={chartStock} userId={userId} onClose={() => setChartStock(null)} />
+      )}
+
+      {overrideHolding && (
+        <PriceOverrideModal
+          holding={overrideHolding}
+          onClose={() => setOverrideHolding(null)}
+          onSaved={() => {
+            setOverrideHolding(null)
+            loadHoldings()
+          }}
+        />
+      )}
     </div>
   )
 }
@@ -1,4 +1,5 @@
 import { useEffect, useState } from 'react'
+import ImportHistory from '../components/ImportHistory'
 
 interface Account {
   id: string
@@ -95,6 +96,7 @@ export default function Import({ userId }: ImportProps): JSX.Element {
   // 다중 파일 상태
   const [parsedFiles, setParsedFiles] = useState<ParsedFile[]>([])
   const [overwriteMode, setOverwriteMode] = useState(true) // 기본: 덮어쓰기 모드
+  const [historyKey, setHistoryKey] = useState(0)
 
   useEffect(() => {
     loadAccounts()
@@ -354,8 +356,8 @@ export default function Import({ userId }: ImportProps): JSX.Element {
         console.log(`Importing ${file.fileName} to account ${file.matchedAccountId}, overwrite: ${shouldOverwrite}`)
 
         const result = shouldOverwrite
-          ? await window.api.import.replaceHoldings(file.matchedAccountId, file.parseResult.holdings)
-          : await window.api.import.saveHoldings(file.matchedAccountId, file.parseResult.holdings)
+          ? await window.api.import.replaceHoldings(file.matchedAccountId, file.parseResult.holdings, file.fileName)
+          : await window.api.import.saveHoldings(file.matchedAccountId, file.parseResult.holdings, file.fileName)
 
         console.log(`Import result for ${file.fileName}:`, result)
 
@@ -383,6 +385,7 @@ export default function Import({ userId }: ImportProps): JSX.Element {
     }
 
     setImporting(false)
+    setHistoryKey(key => key + 1)
   }
 
   // 완료된 파일 정리
@@ -653,6 +656,8 @@ export default function Import({ userId }: ImportProps): JSX.Element {
               </div>
             </div>
           )}
+
+          <ImportHistory userId={userId} refreshKey={historyKey} />
         </>
       )}
     </div>
@@ -0,0 +1,324 @@
+import { useEffect, useState } from 'react'
+
+type AllocationDimension = 'ASSET_CLASS' | 'REGION' | 'CURRENCY' | 'STOCK'
+
+interface AllocationTarget {
+  key: string
+  weight: number
+}
+
+interface AllocationDrift {
+  key: string
+  current_value: number
+  current_weight: number
+  target_weight: number
+  target_value: number
+  drift: number
+  delta: number
+}
+
+interface RebalanceTrade {
+  action: 'BUY' | 'SELL'
+  account_id: string
+  account_label: string
+  key: string
+  stock_code: string | null
+  stock_name: string | null
+  currency: string
+  quantity: number
+  price: number
+  amount: number
+}
+
+interface RebalancePlan {
+  baseCurrency: string
+  dimension: AllocationDimension
+  user_id: string | null
+  total_value: number
+  targets: AllocationTarget[]
+  drift: AllocationDrift[]
+  trades: RebalanceTrade[]
+  unfunded: number
+  blocked: number
+}
+
+interface RebalancingProps {
+  userId: string
+}
+
+const DIMENSION_LABELS: Record<AllocationDimension, string> = {
+  ASSET_CLASS: '자산군',
+  REGION: '지역',
+  CURRENCY: '통화',
+  STOCK: '종목'
+}
+
+const KEY_LABELS: Record<string, string> = {
+  CASH: '예수금',
+  EQUITY: '주식',
+  BOND: '채권',
+  COMMODITY: '원자재',
+  REIT: '리츠',
+  KR: '한국',
+  US: '미국',
+  CN: '중국',
+  JP: '일본',
+  IN: '인도',
+  GLOBAL: '글로벌'
+}
+
+function formatCurrency(value: number, currency: string): string {
+  return new Intl.NumberFormat('ko-KR', {
+    style: 'currency',
+    currency,
+    maximumFractionDigits: currency === 'KRW' ? 0 : 2
+  }).format(value)
+}
+
+export default function Rebalancing({ userId }: RebalancingProps): JSX.Element {
+  const [household, setHousehold] = useState(false)
+  const [dimension, setDimension] = useState<AllocationDimension>('ASSET_CLASS')
+  const [plan, setPlan] = useState<RebalancePlan | null>(null)
+  const [targets, setTargets] = useState<AllocationTarget[]>([])
+  const [saving, setSaving] = useState(false)
+
+  const scope = household ? null : userId
+  const targetSum = targets.reduce((sum, t) => sum + (Number(t.weight) || 0), 0)
+
+  useEffect(() => {
+    loadPlan()
+  }, [userId, household, dimension])
+
+  const loadPlan = async () => {
+    try {
+      const result = await window.api.rebalance.getPlan(scope, dimension)
+      setPlan(result)
+      setTargets(result.targets)
+    } catch (error) {
+      console.error('Failed to load rebalance plan:', error)
+    }
+  }
+
+  const labelOf = (key: string): string => KEY_LABELS[key] || key
+
+  const handleFillCurrent = () => {
+    if (!plan) return
+    setTargets(plan.drift
+      .filter(d => d.current_weight > 0)
+      .map(d => ({ key: d.key, weight: Math.round(d.current_weight * 10) / 10 })))
+  }
+
+  const handleTargetChange = (index: number, field: keyof AllocationTarget, value: string) => {
+    setTargets(targets.map((t, i) => i !== index ? t : {
+      ...t,
+      [field]: field === 'weight' ? Number(value) : value
+    }))
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+    try {
+      const result = await window.api.rebalance.setTargets(scope, dimension, targets)
+      if (!result.success) {
+        alert('목표 저장 실패: ' + result.error)
+        return
+      }
+      await loadPlan()
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const currency = plan?.baseCurrency || 'KRW'
+
+  return (
+    <div className="rebalancing-page">
+      <div className="page-header">
+        <h1>리밸런싱</h1>
+        <div className="header-actions">
+          <select value={household ? 'household' : 'user'} onChange={(e) => setHousehold(e.target.value === 'household')}>
+            <option value="user">현재 사용자</option>
+            <option value="household">가족 전체</option>
+          </select>
+          <div className="view-toggle">
+            {(Object.keys(DIMENSION_LABELS) as AllocationDimension[]).map(d => (
+              <button key={d} className={dimension === d ? 'active' : ''} onClick={() => setDimension(d)}>
+                {DIMENSION_LABELS[d]}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {/* Target Weights */}
+      <div className="card mb-2">
+        <div className="card-header">
+          <h3 className="card-title">목표 비중 ({DIMENSION_LABELS[dimension]})</h3>
+          <div style={{ display: 'flex', gap: '4px' }}>
+            <button className="btn btn-sm btn-secondary" onClick={handleFillCurrent}>현재 비중으로 채우기</button>
+            <button className="btn btn-sm btn-secondary" onClick={() => setTargets([...targets, { key: '', weight: 0 }])}>항목 추가</button>
+            <button className="btn btn-sm btn-primary" onClick={handleSave} disabled={saving}>
+              {saving ? '저장 중...' : '저장'}
+            </button>
+          </div>
+        </div>
+
+        {targets.length === 0 ? (
+          <div className="empty-state">
+            <p>목표 비중이 없습니다. 항목을 추가하거나 현재 비중으로 채운 뒤 저장하세요.</p>
+          </div>
+        ) : (
+          <div className="table-container">
+            <table>
+              <thead>
+                <tr>
+                  <th>항목</th>
+                  <th className="text-right">목표 비중 (%)</th>
+                  <th></th>
+                </tr>
+              </thead>
+              <tbody>
+                {targets.map((t, index) => (
+                  <tr key={index}>
+                    <td>
+                      <input
+                        type="text"
+                        value={t.key}
+                        onChange={(e) => handleTargetChange(index, 'key', e.target.value.toUpperCase())}
+                        placeholder={dimension === 'STOCK' ? '종목코드 또는 CASH' : 'EQUITY, BOND, CASH ...'}
+                        list="allocation-keys"
+                      />
+                      {KEY_LABELS[t.key] && <span className="text-muted" style={{ marginLeft: '6px' }}>{KEY_LABELS[t.key]}</span>}
+                    </td>
+                    <td className="text-right">
+                      <input
+                        type="number"
+                        value={t.weight}
+                        min={0}
+                        max={100}
+                        step={0.1}
+                        onChange={(e) => handleTargetChange(index, 'weight', e.target.value)}
+                        style={{ width: '100px', textAlign: 'right' }}
+                      />
+                    </td>
+                    <td>
+                      <button className="btn btn-sm btn-danger" onClick={() => setTargets(targets.filter((_, i) => i !== index))}>
+                        삭제
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+                <tr>
+                  <td><strong>합계</strong></td>
+                  <td className={`text-right ${Math.abs(targetSum - 100) > 0.01 ? 'text-danger' : ''}`}>
+                    <strong>{targetSum.toFixed(1)}%</strong>
+                  </td>
+                  <td></td>
+                </tr>
+              </tbody>
+            </table>
+            <datalist id="allocation-keys">
+              {plan?.drift.map(d => <option key={d.key} value={d.key}>{labelOf(d.key)}</option>)}
+            </datalist>
+          </div>
+        )}
+      </div>
+
+      {/* Drift */}
+      {plan && (
+        <div className="card mb-2">
+          <div className="card-header">
+            <h3 className="card-title">현재 비중 vs 목표</h3>
+            <span className="text-muted">총 {formatCurrency(plan.total_value, currency)}</span>
+          </div>
+          <div className="table-container">
+            <table>
+              <thead>
+                <tr>
+                  <th>항목</th>
+                  <th className="text-right">평가금액</th>
+                  <th className="text-right">현재 비중</th>
+                  <th className="text-right">목표 비중</th>
+                  <th className="text-right">차이</th>
+                  <th className="text-right">조정 금액</th>
+                </tr>
+              </thead>
+              <tbody>
+                {plan.drift.map(d => (
+                  <tr key={d.key}>
+                    <td>{labelOf(d.key)}{KEY_LABELS[d.key] && <span className="text-muted"> ({d.key})</span>}</td>
+                    <td className="text-right">{formatCurrency(d.current_value, currency)}</td>
+                    <td className="text-right">{d.current_weight.toFixed(1)}%</td>
+                    <td className="text-right">{plan.targets.length > 0 ? `${d.target_weight.toFixed(1)}%` : '-'}</td>
+                    <td className={`text-right ${d.drift > 0 ? 'text-success' : d.drift < 0 ? 'text-danger' : ''}`}>
+                      {plan.targets.length > 0 ? `${d.drift >= 0 ? '+' : ''}${d.drift.toFixed(1)}%p` : '-'}
+                    </td>
+                    <td className="text-right">{plan.targets.length > 0 ? formatCurrency(d.delta, currency) : '-'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {/* Trade Plan */}
+      {plan && plan.targets.length > 0 && (
+        <div className="card">
+          <div className="card-header">
+            <h3 className="card-title">매매 계획</h3>
+            <span className="text-muted" style={{ fontSize: '0.8rem' }}>
+              매도는 매도 허용 계좌(기본: 연금저축/IRP/ISA)에서만, 매도대금은 같은 계좌에서 재투자
+            </span>
+          </div>
+
+          {plan.trades.length === 0 ? (
+            <div className="empty-state">
+              <p>목표 비중에 맞추기 위한 매매가 없습니다.</p>
+            </div>
+          ) : (
+            <div className="table-container">
+              <table>
+                <thead>
+                  <tr>
+                    <th>구분</th>
+                    <th>계좌</th>
+                    <th>항목</th>
+                    <th>종목</th>
+                    <th className="text-right">수량</th>
+                    <th className="text-right">현재가</th>
+                    <th className="text-right">금액</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {plan.trades.map((t, index) => (
+                    <tr key={index}>
+                      <td className={t.action === 'BUY' ? 'text-success' : 'text-danger'}>{t.action === 'BUY' ? '매수' : '매도'}</td>
+                      <td>{t.account_label}</td>
+                      <td>{labelOf(t.key)}</td>
+                      <td>
+                        {t.stock_code
+                          ? <>{t.stock_name} <span className="text-muted">({t.stock_code})</span></>
+                          : <span className="text-muted">종목 선택 필요</span>}
+                      </td>
+                      <td className="text-right">{t.stock_code ? t.quantity.toLocaleString() : '-'}</td>
+                      <td className="text-right">{t.stock_code ? formatCurrency(t.price, t.currency) : '-'}</td>
+                      <td className="text-right">{formatCurrency(t.amount, currency)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {(plan.unfunded >= 1 || plan.blocked >= 1) && (
+            <div className="text-muted" style={{ fontSize: '0.85rem', marginTop: '0.5rem' }}>
+              {plan.unfunded >= 1 && <div>예수금 부족으로 매수하지 못한 금액: {formatCurrency(plan.unfunded, currency)} (입금 필요)</div>}
+              {plan.blocked >= 1 && <div>매도 제한 계좌에 있어 줄이지 못한 초과 금액: {formatCurrency(plan.blocked, currency)}</div>}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,9 +1,15 @@
 import { useState, useEffect } from 'react'
+import SecurityMaster from '../components/SecurityMaster'
+import InstrumentMerge from '../components/InstrumentMerge'
+import MarketDataProviders from '../components/MarketDataProviders'
+import PriceRefreshSchedule from '../components/PriceRefreshSchedule'
+import HttpSourceStats from '../components/HttpSourceStats'
 
 interface ExchangeRate {
   currency_pair: string
   rate: number
   fetched_at: string
+  stale: boolean
 }
 
 interface User {
@@ -20,6 +26,14 @@ interface TickerMapping {
   created_at: string
 }
 
+interface FxHistoryCoverage {
+  pair: string
+  count: number
+  firstDate: string | null
+  lastDate: string | null
+  standIn: number
+}
+
 interface SettingsProps {
   userId: string
 }
@@ -34,9 +48,16 @@ export default function Settings({ userId }: SettingsProps): JSX.Element {
   const [mappings, setMappings] = useState<TickerMapping[]>([])
   const [newMapping, setNewMapping] = useState({ stock_name: '', ticker: '', market: 'US' })
   const [showAddMapping, setShowAddMapping] = useState(false)
+  const [baseCurrency, setBaseCurrency] = useState('KRW')
+  const [fxCoverage, setFxCoverage] = useState<FxHistoryCoverage | null>(null)
+  const [fxBackfillStart, setFxBackfillStart] = useState('')
+  const [fxBackfilling, setFxBackfilling] = useState(false)
+  const [securityRefresh, setSecurityRefresh] = useState(0)
 
   useEffect(() => {
     loadExchangeRate()
+    loadBaseCurrency()
+    loadFxCoverage()
     loadUsers()
     loadMappings()
   }, [])
@@ -64,6 +85,72 @@ export default function Settings({ userId }: SettingsProps): JSX.Element {
     }
   }
 
+  const loadBaseCurrency = async () => {
+    try {
+      const currency = await window.api.settings.getBaseCurrency()
+      setBaseCurrency(currency)
+    } catch (error) {
+      console.error('Failed to load base currency:', error)
+    }
+  }
+
+  const handleChangeBaseCurrency = async (currency: string) => {
+    try {
+      const result = await window.api.settings.setBaseCurrency(currency)
+      if (result.success && result.baseCurrency) {
+        setBaseCurrency(result.baseCurrency)
+      } else {
+        alert(`기준통화 변경 실패: ${result.error}`)
+      }
+    } catch (error) {
+      console.error('Failed to update base currency:', error)
+    }
+  }
+
+  const loadFxCoverage = async () => {
+    try {
+      const coverage = await window.api.fxHistory.getCoverage('USD/KRW')
+      setFxCoverage(coverage)
+    } catch (error) {
+      console.error('Failed to load FX history coverage:', error)
+    }
+  }
+
+  const handleFxBackfill = async () => {
+    setFxBackfilling(true)
+    try {
+      const result = await window.api.fxHistory.backfill(fxBackfillStart || undefined)
+      if (result.success) {
+        const note = result.standIn > 0 ? ` (오프라인 대체값 ${result.standIn}건)` : ''
+        alert(`환율 이력 ${result.saved}건 저장${note}\n거래 환율 기록: ${result.lockedTransactions ?? 0}건`)
+      } else {
+        alert(`환율 이력 백필 실패: ${result.error}`)
+      }
+      loadFxCoverage()
+    } catch (error) {
+      console.error('Failed to backfill FX history:', error)
+    } finally {
+      setFxBackfilling(false)
+    }
+  }
+
+  const handleFxCsvImport = async () => {
+    try {
+      const file = await window.api.fxHistory.selectCsv()
+      if (!file.success || !file.filePath) return
+
+      const result = await window.api.fxHistory.importCsv(file.filePath, 'USD/KRW')
+      if (result.success) {
+        alert(`환율 이력 ${result.saved}건 가져오기 완료\n거래 환율 기록: ${result.lockedTransactions ?? 0}건`)
+      } else {
+        alert(`CSV 가져오기 실패: ${result.error}`)
+      }
+      loadFxCoverage()
+    } catch (error) {
+      console.error('Failed to import FX CSV:', error)
+    }
+  }
+
   const handleUpdateRate = async () => {
     const rate = parseFloat(manualRate)
     if (isNaN(rate) || rate <= 0) {
@@ -249,6 +336,17 @@ export default function Settings({ userId }: SettingsProps): JSX.Element {
           <h3 className="card-title">환율</h3>
         </div>
 
+        <div className="form-group mt-2">
+          <label>기준통화</label>
+          <select value={baseCurrency} onChange={(e) => handleChangeBaseCurrency(e.target.value)}>
+            <option value="KRW">KRW (원화)</option>
+            <option value="USD">USD (달러)</option>
+          </select>
+          <p className="text-muted mt-2" style={{ fontSize: '0.85rem' }}>
+            * 대시보드의 총 평가금액/수익은 기준통화로 환산하여 표시됩니다.
+          </p>
+        </div>
+
         <div className="form-group mt-2">
           <label>USD/KRW 환율</label>
           <div className="flex gap-1">
@@ -268,11 +366,46 @@ export default function Settings({ userId }: SettingsProps): JSX.Element {
           {usdKrw && (
             <p className="text-muted mt-2" style={{ fontSize: '0.85rem' }}>
               마지막 업데이트: {new Date(usdKrw.fetched_at).toLocaleString()}
+              {usdKrw.stale && <span className="badge badge-stale" style={{ marginLeft: '6px' }}>지연</span>}
             </p>
           )}
         </div>
       </div>
 
+      {/* FX History Section */}
+      <div className="card mt-2" style={{ maxWidth: '600px' }}>
+        <div className="card-header">
+          <h3 className="card-title">환율 이력 (USD/KRW)</h3>
+        </div>
+
+        <p className="text-muted mt-2" style={{ fontSize: '0.85rem' }}>
+          {fxCoverage && fxCoverage.count > 0
+            ? `${fxCoverage.firstDate} ~ ${fxCoverage.lastDate} (${fxCoverage.count}일${fxCoverage.standIn > 0 ? `, 대체값 ${fxCoverage.standIn}일` : ''})`
+            : '저장된 환율 이력이 없습니다'}
+        </p>
+
+        <div className="form-group mt-2">
+          <label>백필 시작일 (비우면 첫 외화 거래일)</label>
+          <div className="flex gap-1">
+            <input
+              type="date"
+              value={fxBackfillStart}
+              onChange={(e) => setFxBackfillStart(e.target.value)}
+              style={{ flex: 1 }}
+            />
+            <button className="btn btn-primary" onClick={handleFxBackfill} disabled={fxBackfilling}>
+              {fxBackfilling ? '조회 중...' : '온라인 백필'}
+            </button>
+            <button className="btn btn-secondary" onClick={handleFxCsvImport}>
+              CSV 가져오기
+            </button>
+          </div>
+          <p className="text-muted mt-2" style={{ fontSize: '0.85rem' }}>
+            * CSV 형식: 날짜,환율 (예: 2024-01-02,1300.50). 외화 거래는 거래일 환율로 원화 원가가 고정됩니다.
+          </p>
+        </div>
+      </div>
+
       {/* Ticker Mapping Section */}
       <div className="card mt-2" style={{ maxWidth: '800px' }}>
         <div className="card-header">
@@ -358,6 +491,16 @@ export default function Settings({ userId }: SettingsProps): JSX.Element {
         )}
       </div>
 
+      <SecurityMaster key={securityRefresh} />
+
+      <InstrumentMerge onMerged={() => setSecurityRefresh(k => k + 1)} />
+
+      <MarketDataProviders />
+
+      <HttpSourceStats />
+
+      <PriceRefreshSchedule />
+
       <div className="card mt-2" style={{ maxWidth: '600px' }}>
         <div className="card-header">
           <h3 className="card-title">단축키</h3>
@@ -1,24 +1,40 @@
 import { useEffect, useState } from 'react'
 import StockAutocomplete from '../components/StockAutocomplete'
+import RealizedGains from '../components/RealizedGains'
+import CorporateActions from '../components/CorporateActions'
 
 interface Account {
   id: string
   brokerage: string
   account_type: string
   account_alias: string | null
+  cost_basis_method: 'FIFO' | 'AVERAGE' | 'SPECIFIC'
 }
 
+interface TaxLot {
+  id: string
+  acquired_date: string
+  quantity: number
+  remaining_quantity: number
+  unit_cost: number
+  currency: string
+}
+
+type TransactionType = 'BUY' | 'SELL' | 'DIVIDEND' | 'DEPOSIT' | 'WITHDRAWAL' | 'INTEREST'
+
 interface TransactionWithAccount {
   id: string
   account_id: string
   stock_code: string
   stock_name: string
-  type: 'BUY' | 'SELL' | 'DIVIDEND'
+  type: TransactionType
   quantity: number
   price: number
   total_amount: number
   currency: string
   date: string
+  fee: number
+  tax: number
   is_manual: number
   source: string
   brokerage: string
@@ -41,6 +57,13 @@ const BROKERAGE_LABELS: Record<string, string> = {
   OTHER: '기타'
 }
 
+// 종목 없이 예수금만 변동하는 거래
+const CASH_TYPE_LABELS: Record<string, string> = {
+  DEPOSIT: '입금',
+  WITHDRAWAL: '출금',
+  INTEREST: '이자'
+}
+
 function formatCurrency(value: number, currency: string = 'KRW'): string {
   if (currency === 'USD') {
     return new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(value)
@@ -54,15 +77,20 @@ export default function Transactions({ userId }: TransactionsProps): JSX.Element
   const [loading, setLoading] = useState(true)
   const [showModal, setShowModal] = useState(false)
   const [editingTransaction, setEditingTransaction] = useState<TransactionWithAccount | null>(null)
+  const [view, setView] = useState<'list' | 'realized' | 'corporate'>('list')
+  const [openLots, setOpenLots] = useState<TaxLot[]>([])
+  const [lotSelections, setLotSelections] = useState<Record<string, string>>({})
 
   // Form state
   const [formData, setFormData] = useState({
     account_id: '',
     stock_code: '',
     stock_name: '',
-    type: 'BUY' as 'BUY' | 'SELL' | 'DIVIDEND',
+    type: 'BUY' as TransactionType,
     quantity: '',
     price: '',
+    fee: '',
+    tax: '',
     currency: 'KRW',
     date: new Date().toISOString().split('T')[0]
   })
@@ -71,6 +99,24 @@ export default function Transactions({ userId }: TransactionsProps): JSX.Element
     loadData()
   }, [userId])
 
+  const isCash = formData.type in CASH_TYPE_LABELS
+
+  // 개별 지정 계좌의 매도: 남은 매수 lot 조회
+  const selectedAccount = accounts.find(a => a.id === formData.account_id)
+  const pickLots = showModal && !editingTransaction && formData.type === 'SELL' &&
+    selectedAccount?.cost_basis_method === 'SPECIFIC' && formData.stock_code.length > 0
+
+  useEffect(() => {
+    if (!pickLots) {
+      setOpenLots([])
+      setLotSelections({})
+      return
+    }
+    window.api.taxLot.getByHolding(formData.account_id, formData.stock_code.toUpperCase())
+      .then(lots => setOpenLots(lots.filter(l => l.remaining_quantity > 0)))
+      .catch(error => console.error('Failed to load tax lots:', error))
+  }, [pickLots, formData.account_id, formData.stock_code])
+
   const loadData = async () => {
     try {
       const [txData, accountData] = await Promise.all([
@@ -92,36 +138,52 @@ export default function Transactions({ userId }: TransactionsProps): JSX.Element
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
 
-    if (!formData.account_id || !formData.stock_code || !formData.quantity || !formData.price) {
+    if (!formData.account_id || !formData.price || (!isCash && (!formData.stock_code || !formData.quantity))) {
       alert('필수 항목을 모두 입력해주세요')
       return
     }
 
+    // 현금 거래는 수량 1, 단가 = 금액으로 저장
+    const stockCode = isCash ? '' : formData.stock_code.toUpperCase()
+    const stockName = isCash
+      ? (formData.stock_name || CASH_TYPE_LABELS[formData.type])
+      : (formData.stock_name || formData.stock_code.toUpperCase())
+    const quantity = isCash ? 1 : parseFloat(formData.quantity)
+
     try {
       if (editingTransaction) {
         // Update existing transaction
         await window.api.transaction.update(editingTransaction.id, {
           account_id: formData.account_id,
-          stock_code: formData.stock_code.toUpperCase(),
-          stock_name: formData.stock_name || formData.stock_code.toUpperCase(),
+          stock_code: stockCode,
+          stock_name: stockName,
           type: formData.type,
-          quantity: parseFloat(formData.quantity),
+          quantity,
           price: parseFloat(formData.price),
           currency: formData.currency,
-          date: formData.date
+          date: formData.date,
+          fee: parseFloat(formData.fee) || 0,
+          tax: parseFloat(formData.tax) || 0
         })
       } else {
         // Create new transaction
         await window.api.transaction.create({
           account_id: formData.account_id,
-          stock_code: formData.stock_code.toUpperCase(),
-          stock_name: formData.stock_name || formData.stock_code.toUpperCase(),
+          stock_code: stockCode,
+          stock_name: stockName,
           type: formData.type,
-          quantity: parseFloat(formData.quantity),
+          quantity,
           price: parseFloat(formData.price),
           currency: formData.currency,
           date: formData.date,
-          is_manual: true
+          fee: parseFloat(formData.fee) || 0,
+          tax: parseFloat(formData.tax) || 0,
+          is_manual: true,
+          lot_selections: pickLots
+            ? Object.entries(lotSelections)
+              .map(([lot_id, quantity]) => ({ lot_id, quantity: parseFloat(quantity) }))
+              .filter(s => s.quantity > 0)
+            : undefined
         })
       }
 
@@ -142,6 +204,8 @@ export default function Transactions({ userId }: TransactionsProps): JSX.Element
       type: tx.type,
       quantity: tx.quantity.toString(),
       price: tx.price.toString(),
+      fee: tx.fee ? tx.fee.toString() : '',
+      tax: tx.tax ? tx.tax.toString() : '',
       currency: tx.currency,
       date: tx.date
     })
@@ -151,6 +215,7 @@ export default function Transactions({ userId }: TransactionsProps): JSX.Element
   const closeModal = () => {
     setShowModal(false)
     setEditingTransaction(null)
+    setLotSelections({})
     setFormData({
       account_id: accounts[0]?.id || '',
       stock_code: '',
@@ -158,6 +223,8 @@ export default function Transactions({ userId }: TransactionsProps): JSX.Element
       type: 'BUY',
       quantity: '',
       price: '',
+      fee: '',
+      tax: '',
       currency: 'KRW',
       date: new Date().toISOString().split('T')[0]
     })
@@ -182,12 +249,36 @@ export default function Transactions({ userId }: TransactionsProps): JSX.Element
     <div className="transactions-page">
       <div className="page-header">
         <h1>거래내역</h1>
-        <button className="btn btn-primary" onClick={() => setShowModal(true)} disabled={accounts.length === 0}>
-          + 거래 추가
-        </button>
+        <div className="header-actions">
+          <button
+            className={`btn ${view === 'list' ? 'btn-primary' : 'btn-secondary'}`}
+            onClick={() => setView('list')}
+          >
+            거래내역
+          </button>
+          <button
+            className={`btn ${view === 'realized' ? 'btn-primary' : 'btn-secondary'}`}
+            onClick={() => setView('realized')}
+          >
+            실현손익
+          </button>
+          <button
+            className={`btn ${view === 'corporate' ? 'btn-primary' : 'btn-secondary'}`}
+            onClick={() => setView('corporate')}
+          >
+            기업행위
+          </button>
+          <button className="btn btn-primary" onClick={() => setShowModal(true)} disabled={accounts.length === 0}>
+            + 거래 추가
+          </button>
+        </div>
       </div>
 
-      {accounts.length === 0 ? (
+      {view === 'realized' ? (
+        <RealizedGains userId={userId} />
+      ) : view === 'corporate' ? (
+        <CorporateActions onChanged={loadData} />
+      ) : accounts.length === 0 ? (
         <div className="empty-state">
           <h3>등록된 계좌가 없습니다</h3>
           <p>거래내역을 기록하려면 먼저 계좌를 추가해주세요.</p>
@@ -230,8 +321,8 @@ export default function Transactions({ userId }: TransactionsProps): JSX.Element
                     <td>
                       <div>{tx.account_alias || BROKERAGE_LABELS[tx.brokerage]}</div>
                     </td>
-                    <td className="text-right">{tx.quantity.toLocaleString()}</td>
-                    <td className="text-right">{formatCurrency(tx.price, tx.currency)}</td>
+                    <td className="text-right">{tx.type in CASH_TYPE_LABELS ? '-' : tx.quantity.toLocaleString()}</td>
+                    <td className="text-right">{tx.type in CASH_TYPE_LABELS ? '-' : formatCurrency(tx.price, tx.currency)}</td>
                     <td className="text-right">{formatCurrency(tx.total_amount, tx.currency)}</td>
                     <td>
                       <span className="text-muted" style={{ fontSize: '0.8rem' }}>
@@ -239,7 +330,7 @@ export default function Transactions({ userId }: TransactionsProps): JSX.Element
                       </span>
                     </td>
                     <td>
-                      {(tx.source === 'MANUAL' || tx.source === 'EXCEL') && (
+                      {(tx.source === 'MANUAL' || tx.source === 'EXCEL' || tx.source === 'OPENING' || tx.source === 'ADJUSTMENT') && (
                         <div style={{ display: 'flex', gap: '4px' }}>
                           <button
                             className="btn btn-sm btn-secondary"
@@ -297,13 +388,16 @@ export default function Transactions({ userId }: TransactionsProps): JSX.Element
                   <select
                     value={formData.type}
                     onChange={(e) =>
-                      setFormData({ ...formData, type: e.target.value as 'BUY' | 'SELL' | 'DIVIDEND' })
+                      setFormData({ ...formData, type: e.target.value as TransactionType })
                     }
                     required
                   >
                     <option value="BUY">매수</option>
                     <option value="SELL">매도</option>
                     <option value="DIVIDEND">배당</option>
+                    <option value="DEPOSIT">입금</option>
+                    <option value="WITHDRAWAL">출금</option>
+                    <option value="INTEREST">이자</option>
                   </select>
                 </div>
 
@@ -318,6 +412,17 @@ export default function Transactions({ userId }: TransactionsProps): JSX.Element
                 </div>
               </div>
 
+              {isCash ? (
+                <div className="form-group">
+                  <label>메모</label>
+                  <input
+                    type="text"
+                    value={formData.stock_name}
+                    onChange={(e) => setFormData({ ...formData, stock_name: e.target.value })}
+                    placeholder={CASH_TYPE_LABELS[formData.type]}
+                  />
+                </div>
+              ) : (
               <div className="form-row">
                 <StockAutocomplete
                   userId={userId}
@@ -344,8 +449,10 @@ export default function Transactions({ userId }: TransactionsProps): JSX.Element
                   />
                 </div>
               </div>
+              )}
 
               <div className="form-row">
+                {!isCash && (
                 <div className="form-group">
                   <label>수량 *</label>
                   <input
@@ -358,9 +465,10 @@ export default function Transactions({ userId }: TransactionsProps): JSX.Element
                     required
                   />
                 </div>
+                )}
 
                 <div className="form-group">
-                  <label>단가 *</label>
+                  <label>{isCash ? '금액 *' : '단가 *'}</label>
                   <input
                     type="number"
                     value={formData.price}
@@ -371,8 +479,68 @@ export default function Transactions({ userId }: TransactionsProps): JSX.Element
                     required
                   />
                 </div>
+
+                <div className="form-group">
+                  <label>수수료</label>
+                  <input
+                    type="number"
+                    value={formData.fee}
+                    onChange={(e) => setFormData({ ...formData, fee: e.target.value })}
+                    placeholder="0"
+                    min="0"
+                    step="any"
+                  />
+                </div>
+
+                <div className="form-group">
+                  <label>세금</label>
+                  <input
+                    type="number"
+                    value={formData.tax}
+                    onChange={(e) => setFormData({ ...formData, tax: e.target.value })}
+                    placeholder="0"
+                    min="0"
+                    step="any"
+                  />
+                </div>
               </div>
 
+              {pickLots && openLots.length > 0 && (
+                <div className="form-group">
+                  <label>매도할 매수 lot 지정 (미지정 수량은 선입선출)</label>
+                  <table>
+                    <thead>
+                      <tr>
+                        <th>매수일</th>
+                        <th className="text-right">잔여 수량</th>
+                        <th className="text-right">매수 단가</th>
+                        <th className="text-right">매도 수량</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {openLots.map((lot) => (
+                        <tr key={lot.id}>
+                          <td>{lot.acquired_date}</td>
+                          <td className="text-right">{lot.remaining_quantity.toLocaleString()}</td>
+                          <td className="text-right">{formatCurrency(lot.unit_cost, lot.currency)}</td>
+                          <td className="text-right">
+                            <input
+                              type="number"
+                              value={lotSelections[lot.id] || ''}
+                              onChange={(e) => setLotSelections({ ...lotSelections, [lot.id]: e.target.value })}
+                              min="0"
+                              max={lot.remaining_quantity}
+                              step="any"
+                              style={{ width: '90px' }}
+                            />
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
               <div className="form-group">
                 <label>통화</label>
                 <select
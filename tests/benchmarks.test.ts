@@ -0,0 +1,90 @@
+/**
+ * Benchmark Comparison Unit Tests
+ *
+ * PRD 요구사항 테스트:
+ * - KOSPI/KOSDAQ/S&P 500/NASDAQ 지수 대비 성과 비교
+ * - 휴장일은 직전 종가 기준
+ * - 해외 지수 수익률의 원화 환산 (환율 변동 반영)
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+
+vi.mock('../src/main/database', () => ({
+  getDatabase: () => ({
+    prepare: () => ({
+      run: vi.fn(),
+      get: vi.fn(),
+      all: vi.fn()
+    })
+  }),
+  getSetting: () => null,
+  setSetting: vi.fn()
+}))
+
+vi.mock('../src/main/market-data-api', () => ({
+  fetchExchangeRate: vi.fn(),
+  fetchYahooHistory: vi.fn(),
+  fetchNaverDailyHistory: vi.fn()
+}))
+
+import {
+  findBenchmark,
+  closeOnOrBefore,
+  benchmarkReturn,
+  convertReturn
+} from '../src/main/benchmarks'
+
+const closes = [
+  { date: '2024-01-02', close: 2600 },
+  { date: '2024-01-03', close: 2580 },
+  { date: '2024-01-05', close: 2650 },
+  { date: '2024-01-08', close: 2860 }
+]
+
+describe('findBenchmark', () => {
+  it('should resolve supported benchmarks with their currency', () => {
+    expect(findBenchmark('KOSPI').currency).toBe('KRW')
+    expect(findBenchmark('SP500').currency).toBe('USD')
+  })
+
+  it('should throw for unknown benchmarks', () => {
+    expect(() => findBenchmark('NIKKEI')).toThrow('Unknown benchmark')
+  })
+})
+
+describe('closeOnOrBefore', () => {
+  it('should use the last close on or before the date', () => {
+    expect(closeOnOrBefore(closes, '2024-01-03')).toBe(2580)
+    expect(closeOnOrBefore(closes, '2024-01-04')).toBe(2580)
+    expect(closeOnOrBefore(closes, '2024-12-31')).toBe(2860)
+  })
+
+  it('should return null before the first close', () => {
+    expect(closeOnOrBefore(closes, '2023-12-29')).toBeNull()
+    expect(closeOnOrBefore([], '2024-01-02')).toBeNull()
+  })
+})
+
+describe('benchmarkReturn', () => {
+  it('should compute the cumulative return between two dates', () => {
+    expect(benchmarkReturn(closes, '2024-01-02', '2024-01-08')).toBeCloseTo(10, 6)
+    expect(benchmarkReturn(closes, '2024-01-06', '2024-01-07')).toBe(0)
+  })
+
+  it('should return null without a starting close', () => {
+    expect(benchmarkReturn(closes, '2023-12-29', '2024-01-08')).toBeNull()
+  })
+})
+
+describe('convertReturn', () => {
+  it('should compound the index return with the FX change', () => {
+    // 지수 +10%, 환율 1300 → 1430 (+10%) → 원화 기준 +21%
+    expect(convertReturn(10, 1300, 1430)).toBeCloseTo(21, 6)
+    expect(convertReturn(10, 1, 1)).toBeCloseTo(10, 6)
+  })
+
+  it('should return null without a return or valid rates', () => {
+    expect(convertReturn(null, 1300, 1430)).toBeNull()
+    expect(convertReturn(10, 0, 1430)).toBeNull()
+  })
+})
@@ -121,12 +121,24 @@ describe('Transaction Type Parsing', () => {
     const result = parseWithBrokerageConfig(headers, rows, 'AUTO')
 
     expect(result[0].type).toBe('DIVIDEND')
-    expect(result[1].type).toBe('DIVIDEND')
+    expect(result[1].type).toBe('BUY')
     expect(result[2].type).toBe('BUY')
     expect(result[3].type).toBe('SELL')
   })
 })
 
+describe('Stock Dividend Parsing', () => {
+  it('should record stock dividends as zero-cost buys instead of cash', () => {
+    const headers = ['거래일자', '종목코드', '종목명', '거래구분', '수량', '단가', '통화']
+    const row = ['2025-01-16', '005930', '삼성전자', '주식배당', 10, 72000, 'KRW']
+
+    const [result] = parseWithBrokerageConfig(headers, [row], 'AUTO')
+    expect(result.type).toBe('BUY')
+    expect(result.price).toBe(0)
+    expect(result.isValid).toBe(true)
+  })
+})
+
 describe('Date Parsing', () => {
   it('should parse YYYY-MM-DD format', () => {
     const headers = ['거래일자', '종목코드', '종목명', '거래구분', '수량', '단가', '통화']
@@ -252,6 +264,15 @@ describe('Number Parsing', () => {
     expect(result[0].isValid).toBe(false)
     expect(result[0].errors).toContain('Invalid price')
   })
+
+  it('should parse fees and taxes as positive amounts', () => {
+    const headers = ['거래일자', '종목코드', '종목명', '거래구분', '수량', '단가', '수수료', '제세금']
+    const row = ['2025-01-15', '005930', '삼성전자', '매도', 10, 75000, '-112', '1,350']
+
+    const result = parseWithBrokerageConfig(headers, [row], 'AUTO')
+    expect(result[0].fee).toBe(112)
+    expect(result[0].tax).toBe(1350)
+  })
 })
 
 describe('Stock Code Parsing', () => {
@@ -0,0 +1,94 @@
+/**
+ * Cash Ledger Unit Tests
+ *
+ * PRD 요구사항 테스트:
+ * - 입금/출금/이자 거래 및 매매·배당 현금흐름 반영
+ * - 계좌별·통화별 예수금 (증권사 보고값 이후 거래만 반영)
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+
+vi.mock('../src/main/database', () => ({
+  getDatabase: () => ({
+    prepare: () => ({
+      run: vi.fn(),
+      get: vi.fn(),
+      all: vi.fn()
+    })
+  })
+}))
+
+import { CashFlowRecord, cashFlowOf, computeCashBalances } from '../src/main/cash-ledger'
+
+function flow(type: string, totalAmount: number, date: string, overrides: Partial<CashFlowRecord> = {}): CashFlowRecord {
+  return {
+    account_id: 'acc-1',
+    type,
+    source: 'MANUAL',
+    currency: 'KRW',
+    total_amount: totalAmount,
+    fee: 0,
+    tax: 0,
+    date,
+    ...overrides
+  }
+}
+
+describe('cashFlowOf', () => {
+  it('should include fees and taxes in trade cash flows', () => {
+    expect(cashFlowOf(flow('BUY', 100000, '2024-01-02', { fee: 15 }))).toBe(-100015)
+    expect(cashFlowOf(flow('SELL', 100000, '2024-01-02', { fee: 15, tax: 180 }))).toBe(99805)
+  })
+
+  it('should treat deposits, interest and dividends as inflows', () => {
+    expect(cashFlowOf(flow('DEPOSIT', 500000, '2024-01-02'))).toBe(500000)
+    expect(cashFlowOf(flow('INTEREST', 120, '2024-01-02', { tax: 18 }))).toBe(102)
+    expect(cashFlowOf(flow('DIVIDEND', 3610, '2024-01-02'))).toBe(3610)
+    expect(cashFlowOf(flow('WITHDRAWAL', 200000, '2024-01-02'))).toBe(-200000)
+  })
+
+  it('should ignore opening balances and adjustments', () => {
+    expect(cashFlowOf(flow('BUY', 100000, '2024-01-02', { source: 'OPENING' }))).toBe(0)
+    expect(cashFlowOf(flow('SELL', 100000, '2024-01-02', { source: 'ADJUSTMENT' }))).toBe(0)
+  })
+})
+
+describe('computeCashBalances', () => {
+  it('should track the ledger balance once deposits are recorded', () => {
+    const [balance] = computeCashBalances([
+      flow('DEPOSIT', 1000000, '2024-01-02'),
+      flow('BUY', 700000, '2024-01-03'),
+      flow('DIVIDEND', 5000, '2024-04-15')
+    ], [])
+
+    expect(balance.balance).toBe(305000)
+    expect(balance.source).toBe('LEDGER')
+  })
+
+  it('should not report a cash balance for trade-only accounts', () => {
+    expect(computeCashBalances([flow('BUY', 700000, '2024-01-03')], [])).toHaveLength(0)
+  })
+
+  it('should apply only flows after the reported balance date', () => {
+    const [balance] = computeCashBalances([
+      flow('BUY', 700000, '2024-01-03'),
+      flow('SELL', 200000, '2024-02-01'),
+      flow('SELL', 100000, '2024-02-05')
+    ], [
+      { account_id: 'acc-1', currency: 'KRW', balance: 50000, as_of: '2024-02-01', source: 'API' }
+    ])
+
+    expect(balance.balance).toBe(150000)
+    expect(balance.reported_balance).toBe(50000)
+  })
+
+  it('should keep currencies separate', () => {
+    const balances = computeCashBalances([
+      flow('DEPOSIT', 1000, '2024-01-02', { currency: 'USD' }),
+      flow('DEPOSIT', 500000, '2024-01-02')
+    ], [])
+
+    expect(balances.find(b => b.currency === 'USD')?.balance).toBe(1000)
+    expect(balances.find(b => b.currency === 'KRW')?.balance).toBe(500000)
+  })
+})
@@ -0,0 +1,57 @@
+/**
+ * Corporate Actions DB Tests
+ *
+ * 실제 SQLite(in-memory)에서 기업행위 적용/되돌리기 검증:
+ * - 적용 시 거래내역·보유종목 조정 후 원장 재생
+ * - 주식배당 입고를 이미 가져온 계좌는 이중 반영하지 않음
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+vi.mock('electron', () => ({ app: { getPath: () => '' } }))
+
+import { sqliteAvailable, openTestDatabase, seedAccount, insertTrade } from './helpers/test-database'
+import { createCorporateAction, applyCorporateAction, undoCorporateAction } from '../src/main/corporate-actions'
+import { replayHolding } from '../src/main/ledger-replay'
+import type Database from 'better-sqlite3'
+
+describe.skipIf(!sqliteAvailable)('applyCorporateAction (SQLite)', () => {
+  let db: Database.Database
+
+  beforeEach(async () => {
+    db = await openTestDatabase()
+    seedAccount(db)
+    insertTrade(db, { id: 'b1', type: 'BUY', date: '2024-01-02', quantity: 100, price: 50000 })
+    replayHolding('acc-1', '005930')
+  })
+
+  const holding = (accountId: string = 'acc-1') => db.prepare("SELECT quantity, avg_cost FROM holdings WHERE account_id = ? AND stock_code = '005930'")
+    .get(accountId) as { quantity: number; avg_cost: number } | undefined
+
+  it('should apply and undo a split end-to-end', () => {
+    const action = createCorporateAction({ type: 'SPLIT', stock_code: '005930', ratio_from: 1, ratio_to: 5, ex_date: '2024-03-01' })
+
+    expect(applyCorporateAction(action.id)).toMatchObject({ transactions: 1, holdings: 1, accounts: 1, skippedAccounts: 0 })
+    expect(db.prepare("SELECT quantity, price FROM transactions WHERE id = 'b1'").get()).toEqual({ quantity: 500, price: 10000 })
+    expect(holding()).toEqual({ quantity: 500, avg_cost: 10000 })
+
+    undoCorporateAction(action.id)
+    expect(holding()).toEqual({ quantity: 100, avg_cost: 50000 })
+  })
+
+  it('should skip accounts that already imported the stock dividend as a zero-cost buy', () => {
+    // acc-1: 증권사 파일의 주식배당 입고 5주 (취득단가 0)
+    insertTrade(db, { id: 'd1', type: 'BUY', date: '2024-04-01', quantity: 5, price: 0 })
+    replayHolding('acc-1', '005930')
+    // acc-2: 입고 기록 없음 → 기업행위로 조정
+    seedAccount(db, 'acc-2')
+    insertTrade(db, { id: 'b2', type: 'BUY', date: '2024-01-02', quantity: 100, price: 50000, account_id: 'acc-2' })
+    replayHolding('acc-2', '005930')
+
+    const action = createCorporateAction({ type: 'STOCK_DIVIDEND', stock_code: '005930', ratio_from: 100, ratio_to: 105, ex_date: '2024-03-01' })
+    expect(applyCorporateAction(action.id)).toMatchObject({ accounts: 1, skippedAccounts: 1 })
+
+    expect(holding('acc-1')?.quantity).toBe(105)
+    expect(holding('acc-2')?.quantity).toBeCloseTo(105)
+  })
+})
@@ -0,0 +1,113 @@
+/**
+ * Corporate Actions Unit Tests
+ *
+ * PRD 요구사항 테스트:
+ * - 액면분할/병합/주식배당: 수량 × 비율, 주당 가격 ÷ 비율 (거래금액 불변)
+ * - 합병/종목코드 변경: 새 종목코드로 이전, 기존 보유분과 가중평균
+ * - 가장 최근에 적용한 기업행위만 되돌리기 가능
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+
+vi.mock('../src/main/database', () => ({
+  getDatabase: () => ({
+    prepare: () => ({
+      run: vi.fn(),
+      get: vi.fn(),
+      all: vi.fn()
+    })
+  })
+}))
+
+import {
+  actionFactor,
+  adjustTrade,
+  validateCorporateAction,
+  mergePositions,
+  findUndoableActionId,
+  type CorporateActionInput
+} from '../src/main/corporate-actions'
+
+const split: CorporateActionInput = {
+  type: 'SPLIT', stock_code: '005930', ratio_from: 1, ratio_to: 50, ex_date: '2018-05-04'
+}
+
+describe('adjustTrade', () => {
+  const trade = { stock_code: '005930', stock_name: '삼성전자', quantity: 2, price: 2500000 }
+
+  it('should multiply quantity and divide price by the split ratio', () => {
+    const adjusted = adjustTrade(trade, split)
+    expect(actionFactor(split)).toBe(50)
+    expect(adjusted.quantity).toBe(100)
+    expect(adjusted.price).toBe(50000)
+    expect(adjusted.quantity * adjusted.price).toBe(trade.quantity * trade.price)
+  })
+
+  it('should reduce quantity for a reverse split', () => {
+    const adjusted = adjustTrade(
+      { ...trade, quantity: 100, price: 1000 },
+      { type: 'REVERSE_SPLIT', stock_code: '005930', ratio_from: 10, ratio_to: 1, ex_date: '2024-01-02' }
+    )
+    expect(adjusted.quantity).toBe(10)
+    expect(adjusted.price).toBe(10000)
+  })
+
+  it('should move trades to the new stock code on a merger', () => {
+    const adjusted = adjustTrade(
+      { ...trade, stock_code: '000030', stock_name: '우리은행', quantity: 10, price: 15000 },
+      {
+        type: 'MERGER', stock_code: '000030', new_stock_code: '316140', new_stock_name: '우리금융지주',
+        ratio_from: 1, ratio_to: 1, ex_date: '2019-02-13'
+      }
+    )
+    expect(adjusted.stock_code).toBe('316140')
+    expect(adjusted.stock_name).toBe('우리금융지주')
+    expect(adjusted.quantity).toBe(10)
+    expect(adjusted.price).toBe(15000)
+  })
+})
+
+describe('validateCorporateAction', () => {
+  it('should accept a valid split', () => {
+    expect(validateCorporateAction(split)).toEqual([])
+  })
+
+  it('should reject ratios that contradict the action type', () => {
+    expect(validateCorporateAction({ ...split, ratio_from: 5, ratio_to: 1 }))
+      .toContain('Ratio must increase the share count')
+    expect(validateCorporateAction({ ...split, type: 'REVERSE_SPLIT' }))
+      .toContain('Ratio must decrease the share count')
+    expect(validateCorporateAction({ ...split, ratio_to: 0 })).toContain('Ratio must be positive')
+  })
+
+  it('should require a different new stock code for code changes', () => {
+    const codeChange: CorporateActionInput = { ...split, type: 'CODE_CHANGE', ratio_to: 1 }
+    expect(validateCorporateAction(codeChange)).toContain('Missing new stock code')
+    expect(validateCorporateAction({ ...codeChange, new_stock_code: '005930' })).toContain('New stock code must differ')
+    expect(validateCorporateAction({ ...codeChange, new_stock_code: '005935' })).toEqual([])
+  })
+})
+
+describe('mergePositions', () => {
+  it('should combine quantities with a weighted average cost', () => {
+    expect(mergePositions({ quantity: 10, avg_cost: 1000 }, { quantity: 30, avg_cost: 2000 }))
+      .toEqual({ quantity: 40, avg_cost: 1750 })
+  })
+})
+
+describe('findUndoableActionId', () => {
+  it('should allow only the most recently applied action', () => {
+    expect(findUndoableActionId([
+      { id: 'a', status: 'APPLIED', applied_at: '2024-05-01 10:00:00' },
+      { id: 'b', status: 'APPLIED', applied_at: '2024-05-02 10:00:00' },
+      { id: 'c', status: 'PENDING', applied_at: null }
+    ])).toBe('b')
+  })
+
+  it('should return null when nothing is applied', () => {
+    expect(findUndoableActionId([
+      { id: 'a', status: 'UNDONE', applied_at: '2024-05-01 10:00:00' },
+      { id: 'b', status: 'PENDING', applied_at: null }
+    ])).toBeNull()
+  })
+})
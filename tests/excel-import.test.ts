@@ -122,7 +122,7 @@ describe('Transaction Type Mapping', () => {
     '배당': 'DIVIDEND',
     '배당금': 'DIVIDEND',
     '현금배당': 'DIVIDEND',
-    '주식배당': 'DIVIDEND',
+    '주식배당': 'BUY',
     '입고': 'BUY',
     '출고': 'SELL',
     'buy': 'BUY',
@@ -135,6 +135,7 @@ describe('Transaction Type Mapping', () => {
   it('should map Korean buy terms to BUY', () => {
     expect(TYPE_MAPPINGS['매수']).toBe('BUY')
     expect(TYPE_MAPPINGS['입고']).toBe('BUY')
+    expect(TYPE_MAPPINGS['주식배당']).toBe('BUY')
   })
 
   it('should map Korean sell terms to SELL', () => {
@@ -146,7 +147,6 @@ describe('Transaction Type Mapping', () => {
     expect(TYPE_MAPPINGS['배당']).toBe('DIVIDEND')
     expect(TYPE_MAPPINGS['배당금']).toBe('DIVIDEND')
     expect(TYPE_MAPPINGS['현금배당']).toBe('DIVIDEND')
-    expect(TYPE_MAPPINGS['주식배당']).toBe('DIVIDEND')
   })
 
   it('should map English terms correctly', () => {
@@ -0,0 +1,121 @@
+/**
+ * Exposure Analytics Unit Tests
+ *
+ * PRD 요구사항 테스트:
+ * - 섹터/국가/자산군별 노출도
+ * - 로컬 파일의 ETF 구성종목 비중으로 ETF 투시 (미국 지수 추종 KODEX/TIGER → 미국)
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+
+vi.mock('../src/main/database', () => ({
+  getDatabase: () => ({
+    prepare: () => ({
+      run: vi.fn(),
+      get: vi.fn(),
+      all: vi.fn()
+    })
+  }),
+  getSetting: () => null,
+  setSetting: vi.fn()
+}))
+
+vi.mock('../src/main/market-data-api', () => ({
+  fetchExchangeRate: vi.fn()
+}))
+
+import {
+  EtfConstituent,
+  ExposurePosition,
+  parseConstituentCsv,
+  normalizeCountry,
+  normalizeAssetClass,
+  isEtfPosition,
+  computeExposure
+} from '../src/main/exposure'
+
+describe('parseConstituentCsv', () => {
+  it('should parse Korean headers, percent signs and quoted numbers', () => {
+    const csv = [
+      'ETF코드,종목명,종목코드,비중(%),섹터,국가',
+      '360750,Apple,AAPL,7.1%,IT,미국',
+      '360750,"Microsoft",MSFT,"6.5",IT,United States',
+      '360750,현금,,0,,'
+    ].join('\n')
+
+    expect(parseConstituentCsv(csv)).toEqual([
+      { etf_code: '360750', constituent_code: 'AAPL', constituent_name: 'Apple', weight: 7.1, sector: 'IT', country: 'US', asset_class: null },
+      { etf_code: '360750', constituent_code: 'MSFT', constituent_name: 'Microsoft', weight: 6.5, sector: 'IT', country: 'US', asset_class: null }
+    ])
+  })
+
+  it('should use the given ETF code when the file has no ETF column', () => {
+    const rows = parseConstituentCsv('name,weight\nApple,5\nApple,2', '379800')
+    expect(rows).toEqual([expect.objectContaining({ etf_code: '379800', constituent_name: 'Apple', weight: 7 })])
+    expect(() => parseConstituentCsv('name,weight\nApple,5')).toThrow('ETF 코드')
+    expect(() => parseConstituentCsv('etf,name\nX,Apple')).toThrow('비중')
+  })
+})
+
+describe('normalization', () => {
+  it('should map country and asset-class names to codes', () => {
+    expect(normalizeCountry('대한민국')).toBe('KR')
+    expect(normalizeCountry('japan')).toBe('JP')
+    expect(normalizeCountry('de')).toBe('DE')
+    expect(normalizeCountry('')).toBeNull()
+    expect(normalizeAssetClass('채권')).toBe('BOND')
+    expect(normalizeAssetClass('equity')).toBe('EQUITY')
+  })
+
+  it('should detect ETFs by master type or name', () => {
+    expect(isEtfPosition('KODEX 200')).toBe(true)
+    expect(isEtfPosition('Vanguard S&P 500 ETF')).toBe(true)
+    expect(isEtfPosition('VOO', 'ETF')).toBe(true)
+    expect(isEtfPosition('삼성전자', 'STOCK')).toBe(false)
+  })
+})
+
+describe('computeExposure', () => {
+  const position = (stock_code: string, stock_name: string, value: number, extra: Partial<ExposurePosition> = {}): ExposurePosition =>
+    ({ stock_code, stock_name, currency: 'KRW', value, sector: null, is_etf: false, ...extra })
+  const constituent = (etf_code: string, constituent_name: string, weight: number, extra: Partial<EtfConstituent> = {}): EtfConstituent =>
+    ({ etf_code, constituent_code: null, constituent_name, weight, sector: null, country: null, asset_class: null, ...extra })
+
+  const positions = [
+    position('005930', '삼성전자', 600, { sector: 'IT' }),
+    position('069500', 'KODEX 200', 400, { is_etf: true })
+  ]
+  const constituents = new Map([
+    ['069500', [
+      constituent('069500', '삼성전자', 30, { sector: 'IT', country: 'KR' }),
+      constituent('069500', 'Apple', 20, { sector: 'IT', country: 'US' })
+    ]]
+  ])
+
+  it('should look through ETFs and leave the uncovered remainder on the ETF itself', () => {
+    const result = computeExposure('COUNTRY', positions, constituents, true)
+
+    expect(result.total_value).toBe(1000)
+    expect(result.looked_through_value).toBe(200)
+    expect(result.rows).toEqual([
+      { key: 'KR', value: 920, weight: 92, look_through_value: 120 },
+      { key: 'US', value: 80, weight: 8, look_through_value: 80 }
+    ])
+  })
+
+  it('should classify ETFs as a whole without look-through', () => {
+    const result = computeExposure('SECTOR', positions, constituents, false)
+    expect(result.rows).toEqual([
+      { key: 'IT', value: 600, weight: 60, look_through_value: 0 },
+      { key: 'UNKNOWN', value: 400, weight: 40, look_through_value: 0 }
+    ])
+  })
+
+  it('should normalize constituent weights above 100% and fall back to the ETF region', () => {
+    const result = computeExposure('COUNTRY', [position('360750', 'TIGER 미국S&P500', 100, { is_etf: true })], new Map([
+      ['360750', [constituent('360750', 'A', 80), constituent('360750', 'B', 80, { country: 'CA' })]]
+    ]), true)
+
+    expect(result.rows.map(r => [r.key, r.value])).toEqual([['US', 50], ['CA', 50]])
+  })
+})
@@ -0,0 +1,51 @@
+/**
+ * FX History DB Tests
+ *
+ * 실제 SQLite(in-memory)에서 거래일 환율 고정 검증:
+ * - 거래일 이후 환율이나 대체값은 고정하지 않음
+ * - 이력 보강 후 다시 고정하면 거래일 실제 환율로 갱신
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+vi.mock('electron', () => ({ app: { getPath: () => '' } }))
+
+import { sqliteAvailable, openTestDatabase, seedAccount, insertTrade } from './helpers/test-database'
+import { saveFxRates, resolveTradeFxRate, lockTransactionFxRates } from '../src/main/fx-history'
+import type Database from 'better-sqlite3'
+
+describe.skipIf(!sqliteAvailable)('trade fx rate locking (SQLite)', () => {
+  let db: Database.Database
+
+  beforeEach(async () => {
+    db = await openTestDatabase()
+    seedAccount(db)
+  })
+
+  const lockedRate = () => (db.prepare("SELECT fx_rate FROM transactions WHERE id = 't-1'").get() as { fx_rate: number | null }).fx_rate
+
+  it('should not lock a rate dated after the trade or a stand-in rate', () => {
+    saveFxRates('USD/KRW', [{ date: '2024-06-03', rate: 1380 }], 'API')
+    expect(resolveTradeFxRate('USD', '2024-05-31')).toBeNull()
+    expect(resolveTradeFxRate('USD', '2024-06-04')).toBe(1380)
+
+    saveFxRates('USD/KRW', [{ date: '2024-05-30', rate: 1370 }], 'STANDIN')
+    expect(resolveTradeFxRate('USD', '2024-05-31')).toBeNull()
+  })
+
+  it('should re-lock trades once the history covers their date', () => {
+    insertTrade(db, { id: 't-1', type: 'BUY', date: '2024-05-31', quantity: 10, price: 100, stock_code: 'AAPL', stock_name: 'Apple', currency: 'USD' })
+    // 이전 버전에서 이후 날짜 환율로 고정된 거래
+    db.prepare("UPDATE transactions SET fx_rate = 1380 WHERE id = 't-1'").run()
+    saveFxRates('USD/KRW', [{ date: '2024-06-03', rate: 1380 }], 'API')
+
+    expect(lockTransactionFxRates()).toEqual({ updated: 0, missing: 1 })
+    expect(lockedRate()).toBeNull()
+
+    saveFxRates('USD/KRW', [{ date: '2024-05-31', rate: 1365 }], 'CSV')
+    expect(lockTransactionFxRates()).toEqual({ updated: 1, missing: 0 })
+    expect(lockedRate()).toBe(1365)
+    const lot = db.prepare("SELECT fx_rate FROM tax_lots WHERE account_id = 'acc-1' AND stock_code = 'AAPL'").get() as { fx_rate: number }
+    expect(lot.fx_rate).toBe(1365)
+  })
+})
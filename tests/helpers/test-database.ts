@@ -0,0 +1,52 @@
+/**
+ * 실제 SQLite(in-memory)로 스키마·SQL을 검증하는 테스트용 헬퍼
+ * better-sqlite3가 Electron용으로만 빌드된 환경에서는 해당 테스트를 건너뜀
+ * (사용하는 테스트 파일에서 vi.mock('electron', ...)으로 app 모킹 필요)
+ */
+
+import Database from 'better-sqlite3'
+import { initDatabase, closeDatabase, getDatabase } from '../../src/main/database'
+
+export const sqliteAvailable = ((): boolean => {
+  try {
+    new Database(':memory:').close()
+    return true
+  } catch {
+    return false
+  }
+})()
+
+export async function openTestDatabase(): Promise<Database.Database> {
+  closeDatabase()
+  await initDatabase(':memory:')
+  return getDatabase()
+}
+
+export function seedAccount(db: Database.Database, accountId: string = 'acc-1', userId: string = 'user-1'): void {
+  db.prepare('INSERT OR IGNORE INTO users (id, name) VALUES (?, ?)').run(userId, '테스트')
+  db.prepare(`
+    INSERT INTO accounts (id, user_id, brokerage, account_type, account_number) VALUES (?, ?, 'KOREA_INV', 'GENERAL', ?)
+  `).run(accountId, userId, accountId)
+}
+
+export function insertTrade(
+  db: Database.Database,
+  trade: { id: string; type: string; date: string; quantity: number; price: number; stock_code?: string; stock_name?: string; currency?: string; source?: string; account_id?: string }
+): void {
+  db.prepare(`
+    INSERT INTO transactions (id, account_id, stock_code, stock_name, type, quantity, price, total_amount, currency, date, source)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    trade.id,
+    trade.account_id ?? 'acc-1',
+    trade.stock_code ?? '005930',
+    trade.stock_name ?? '삼성전자',
+    trade.type,
+    trade.quantity,
+    trade.price,
+    trade.quantity * trade.price,
+    trade.currency ?? 'KRW',
+    trade.date,
+    trade.source ?? 'MANUAL'
+  )
+}
@@ -6,7 +6,20 @@
  * 2. 해외주식 달러 자동 감지 (500배 기준)
  */
 
-import { describe, it, expect, beforeEach } from 'vitest'
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+
+vi.mock('../src/main/database', () => ({
+  getDatabase: () => ({
+    prepare: () => ({
+      run: vi.fn(),
+      get: vi.fn(),
+      all: vi.fn()
+    })
+  }),
+  getSetting: () => null,
+  setSetting: vi.fn()
+}))
+
 import { ParsedHolding, detectCurrencyByPriceRatio } from '../src/main/holdings-parser'
 
 // ===== 테스트 1: 중복 Import 덮어쓰기 =====
@@ -0,0 +1,172 @@
+/**
+ * HTTP Client Unit Tests
+ *
+ * PRD 요구사항 테스트:
+ * - 호스트별 호출 제한 (토큰 버킷)
+ * - 429/5xx 지터 백오프 재시도
+ * - 연속 실패 시 서킷 브레이커로 호출 차단
+ * - 출처별 오류 통계
+ * - 호출부 취소 신호로 진행 중인 호출·재시도 대기 중단
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import {
+  takeToken,
+  classifyStatus,
+  parseRetryAfter,
+  backoffDelay,
+  breakerAllows,
+  recordBreaker,
+  sourceForHost,
+  httpFetch,
+  getHttpStats,
+  getNetworkStatus,
+  resetHttpStats
+} from '../src/main/http-client'
+
+const mockFetch = vi.fn()
+global.fetch = mockFetch
+
+describe('takeToken', () => {
+  it('should allow bursts and then wait for refills', () => {
+    let state = takeToken(undefined, 2, 2, 0)
+    expect(state.waitMs).toBe(0)
+    state = takeToken(state.bucket, 2, 2, 0)
+    expect(state.waitMs).toBe(0)
+    state = takeToken(state.bucket, 2, 2, 0)
+    expect(state.waitMs).toBe(500)
+    // 대기 중인 호출이 있으면 다음 호출은 그 뒤로 예약
+    expect(takeToken(state.bucket, 2, 2, 0).waitMs).toBe(1000)
+    expect(takeToken(state.bucket, 2, 2, 1000).waitMs).toBe(0)
+  })
+})
+
+describe('retry policy', () => {
+  it('should classify statuses', () => {
+    expect(classifyStatus(200)).toBeNull()
+    expect(classifyStatus(404)).toBe('CLIENT')
+    expect(classifyStatus(429)).toBe('RATE_LIMITED')
+    expect(classifyStatus(503)).toBe('SERVER')
+  })
+
+  it('should back off exponentially with jitter and honor Retry-After', () => {
+    expect(backoffDelay(0, null, () => 0)).toBe(250)
+    expect(backoffDelay(0, null, () => 1)).toBe(500)
+    expect(backoffDelay(2, null, () => 1)).toBe(2000)
+    expect(backoffDelay(10, null, () => 1)).toBe(8000)
+    expect(backoffDelay(0, 3000)).toBe(3000)
+
+    expect(parseRetryAfter('2', 0)).toBe(2000)
+    expect(parseRetryAfter(new Date(5000).toUTCString(), 1000)).toBe(4000)
+    expect(parseRetryAfter(null, 0)).toBeNull()
+  })
+})
+
+describe('circuit breaker', () => {
+  it('should open after consecutive failures and probe after the cooldown', () => {
+    let breaker = recordBreaker(undefined, false, 0)
+    for (let i = 0; i < 3; i++) breaker = recordBreaker(breaker, false, 0)
+    expect(breaker.state).toBe('CLOSED')
+
+    breaker = recordBreaker(breaker, false, 1000)
+    expect(breaker).toMatchObject({ state: 'OPEN', opened_at: 1000 })
+    expect(breakerAllows(breaker, 30_000).allowed).toBe(false)
+
+    const probe = breakerAllows(breaker, 61_000)
+    expect(probe).toMatchObject({ allowed: true, breaker: { state: 'HALF_OPEN' } })
+    expect(breakerAllows(probe.breaker, 61_000).allowed).toBe(false)
+    expect(recordBreaker(probe.breaker, false, 62_000)).toMatchObject({ state: 'OPEN', opened_at: 62_000 })
+    expect(recordBreaker(probe.breaker, true, 62_000).state).toBe('CLOSED')
+  })
+})
+
+describe('httpFetch', () => {
+  const url = 'https://openapi.koreainvestment.com:9443/uapi/test'
+
+  beforeEach(() => {
+    mockFetch.mockReset()
+    resetHttpStats()
+  })
+
+  it('should map hosts to sources', () => {
+    expect(sourceForHost('fchart.stock.naver.com').id).toBe('naver')
+    expect(sourceForHost('example.com')).toMatchObject({ id: 'example.com', ratePerSec: 2 })
+  })
+
+  it('should retry rate-limited responses and record statistics', async () => {
+    mockFetch
+      .mockResolvedValueOnce(new Response('', { status: 429, headers: { 'Retry-After': '0' } }))
+      .mockResolvedValueOnce(new Response('{}', { status: 200 }))
+
+    const response = await httpFetch(url)
+    expect(response.status).toBe(200)
+    expect(mockFetch).toHaveBeenCalledTimes(2)
+
+    const [kis] = getHttpStats()
+    expect(kis).toMatchObject({ id: 'kis', requests: 1, successes: 1, failures: 0, retries: 1 })
+  })
+
+  it('should return client errors without retrying', async () => {
+    mockFetch.mockResolvedValueOnce(new Response('', { status: 404 }))
+
+    const response = await httpFetch(url)
+    expect(response.status).toBe(404)
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+    expect(getHttpStats()[0].errors.CLIENT).toBe(1)
+  })
+
+  it('should open the circuit after repeated network failures', async () => {
+    mockFetch.mockRejectedValue(new TypeError('fetch failed'))
+
+    for (let i = 0; i < 5; i++) {
+      await expect(httpFetch(url, {}, { retries: 0 })).rejects.toThrow('fetch failed')
+    }
+    await expect(httpFetch(url, {}, { retries: 0 })).rejects.toThrow('일시 차단')
+    expect(mockFetch).toHaveBeenCalledTimes(5)
+
+    const [kis] = getHttpStats()
+    expect(kis.errors).toMatchObject({ NETWORK: 5, CIRCUIT_OPEN: 1 })
+    expect(getNetworkStatus()).toMatchObject({ offline: true, last_error: 'fetch failed' })
+    expect(kis.breakers[0]).toMatchObject({ host: 'openapi.koreainvestment.com', state: 'OPEN' })
+  })
+
+  it('should skip retries while offline and recover on the next response', async () => {
+    mockFetch.mockRejectedValueOnce(new TypeError('fetch failed'))
+    await expect(httpFetch(url, {}, { retries: 0 })).rejects.toThrow('fetch failed')
+    expect(getNetworkStatus().offline).toBe(true)
+
+    // 오프라인 중에는 재시도 없이 한 번만 호출
+    mockFetch.mockResolvedValueOnce(new Response('', { status: 503 }))
+    const response = await httpFetch(url)
+    expect(response.status).toBe(503)
+    expect(mockFetch).toHaveBeenCalledTimes(2)
+    expect(getNetworkStatus()).toEqual({ offline: false, since: null, last_error: null })
+  })
+
+  it('should abort an in-flight request when the caller cancels', async () => {
+    mockFetch.mockImplementation((_: string, init: RequestInit) => new Promise((_resolve, reject) => {
+      init.signal?.addEventListener('abort', () => reject(Object.assign(new Error('aborted'), { name: 'AbortError' })))
+    }))
+    const controller = new AbortController()
+
+    const pending = httpFetch(url, { signal: controller.signal })
+    setTimeout(() => controller.abort(), 10)
+    await expect(pending).rejects.toThrow('요청 취소')
+
+    // 취소는 오류 통계·네트워크 상태에 반영하지 않음
+    expect(getHttpStats()[0]).toMatchObject({ failures: 0, errors: { TIMEOUT: 0, NETWORK: 0 } })
+    expect(getNetworkStatus().offline).toBe(false)
+  })
+
+  it('should stop waiting for a retry when the caller cancels', async () => {
+    mockFetch.mockResolvedValue(new Response('', { status: 429, headers: { 'Retry-After': '60' } }))
+    const controller = new AbortController()
+
+    const started = Date.now()
+    const pending = httpFetch(url, { signal: controller.signal })
+    setTimeout(() => controller.abort(), 10)
+    await expect(pending).rejects.toThrow('요청 취소')
+    expect(Date.now() - started).toBeLessThan(5000)
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+  })
+})
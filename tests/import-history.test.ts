@@ -0,0 +1,68 @@
+/**
+ * Import History Unit Tests
+ *
+ * PRD 요구사항 테스트:
+ * - 가져오기 배치 기록 (일시, 파일, 계좌, 건수)
+ * - 원클릭 되돌리기: 가져오기 이전 보유종목으로 복원
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+
+vi.mock('../src/main/database', () => ({
+  getDatabase: () => ({
+    prepare: () => ({
+      run: vi.fn(),
+      get: vi.fn(),
+      all: vi.fn()
+    })
+  })
+}))
+
+import { findUndoableBatchIds, planHoldingsRestore } from '../src/main/import-history'
+
+describe('findUndoableBatchIds', () => {
+  it('should allow only the latest active batch per account', () => {
+    const undoable = findUndoableBatchIds([
+      { id: 'a1', account_id: 'acc-1', status: 'ACTIVE', created_at: '2024-05-01 10:00:00' },
+      { id: 'a2', account_id: 'acc-1', status: 'ACTIVE', created_at: '2024-05-02 10:00:00' },
+      { id: 'b1', account_id: 'acc-2', status: 'ACTIVE', created_at: '2024-05-01 09:00:00' }
+    ])
+    expect([...undoable].sort()).toEqual(['a2', 'b1'])
+  })
+
+  it('should fall back to the previous batch once the latest is undone', () => {
+    const undoable = findUndoableBatchIds([
+      { id: 'a1', account_id: 'acc-1', status: 'ACTIVE', created_at: '2024-05-01 10:00:00' },
+      { id: 'a2', account_id: 'acc-1', status: 'UNDONE', created_at: '2024-05-02 10:00:00' }
+    ])
+    expect([...undoable]).toEqual(['a1'])
+  })
+})
+
+describe('planHoldingsRestore', () => {
+  const before = [
+    { stock_code: '005930', quantity: 10 },
+    { stock_code: '000660', quantity: 5 }
+  ]
+
+  it('should restore previous rows and remove rows added by the import', () => {
+    const plan = planHoldingsRestore(before, [
+      { stock_code: '005930' },
+      { stock_code: '035720' }
+    ], null)
+
+    expect(plan.restore.map(h => h.stock_code)).toEqual(['005930', '000660'])
+    expect(plan.remove).toEqual(['035720'])
+  })
+
+  it('should limit the restore to the stocks touched by the batch', () => {
+    const plan = planHoldingsRestore(before, [
+      { stock_code: '005930' },
+      { stock_code: '000660' },
+      { stock_code: '035720' }
+    ], ['005930', '035720'])
+
+    expect(plan.restore.map(h => h.stock_code)).toEqual(['005930'])
+    expect(plan.remove).toEqual(['035720'])
+  })
+})
@@ -0,0 +1,45 @@
+/**
+ * Instrument Identity DB Tests
+ *
+ * 실제 SQLite(in-memory)에서 종목 통합 검증:
+ * - 기초잔고 스냅샷도 대상 코드로 이관되어 원장 재생 시 이전 코드로 되살아나지 않음
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+vi.mock('electron', () => ({ app: { getPath: () => '' } }))
+
+import { sqliteAvailable, openTestDatabase, seedAccount, insertTrade } from './helpers/test-database'
+import { mergeInstruments } from '../src/main/instrument-identity'
+import { ensureOpeningBalance, replayAccount, replayHolding } from '../src/main/ledger-replay'
+import type Database from 'better-sqlite3'
+
+describe.skipIf(!sqliteAvailable)('mergeInstruments (SQLite)', () => {
+  let db: Database.Database
+
+  beforeEach(async () => {
+    db = await openTestDatabase()
+    seedAccount(db)
+  })
+
+  it('should move opening balances to the target code', () => {
+    // 종목명으로만 저장된 스냅샷 보유종목 + 이후 매수
+    db.prepare(`
+      INSERT INTO holdings (id, account_id, stock_code, stock_name, quantity, avg_cost, current_price, currency, last_synced)
+      VALUES ('h-1', 'acc-1', '삼성전자', '삼성전자', 100, 70000, 80000, 'KRW', '2024-06-10 15:00:00')
+    `).run()
+    ensureOpeningBalance('acc-1', '삼성전자', '2024-06-12')
+    insertTrade(db, { id: 't-1', type: 'BUY', date: '2024-06-12', quantity: 10, price: 80000, stock_code: '삼성전자' })
+    replayHolding('acc-1', '삼성전자')
+
+    mergeInstruments('005930', ['삼성전자'])
+    replayAccount('acc-1')
+
+    const openings = db.prepare("SELECT stock_code, quantity FROM opening_balances WHERE account_id = 'acc-1'").all()
+    expect(openings).toEqual([{ stock_code: '005930', quantity: 100 }])
+    const openingTrades = db.prepare("SELECT stock_code, quantity FROM transactions WHERE account_id = 'acc-1' AND source = 'OPENING'").all()
+    expect(openingTrades).toEqual([{ stock_code: '005930', quantity: 100 }])
+    const holdings = db.prepare("SELECT stock_code, quantity FROM holdings WHERE account_id = 'acc-1'").all()
+    expect(holdings).toEqual([{ stock_code: '005930', quantity: 110 }])
+  })
+})
@@ -0,0 +1,111 @@
+/**
+ * Instrument Identity Unit Tests
+ *
+ * PRD 요구사항 테스트:
+ * - 증권사별로 다른 종목코드/종목명을 하나의 표준 코드로 해석
+ * - 같은 종목으로 보이는 코드 묶음 자동 탐지 및 대상 코드 추천
+ * - 통화가 다른 종목은 통합하지 않음
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+
+vi.mock('../src/main/database', () => ({
+  getDatabase: () => ({
+    prepare: () => ({
+      run: vi.fn(),
+      get: vi.fn(),
+      all: vi.fn()
+    })
+  }),
+  getSetting: () => null,
+  setSetting: vi.fn()
+}))
+
+import { Security, buildSecurityIndex } from '../src/main/securities'
+import {
+  Instrument,
+  canonicalCode,
+  findMergeCandidates,
+  suggestTargetCode,
+  validateMerge
+} from '../src/main/instrument-identity'
+
+const security = (overrides: Partial<Security> & { code: string }): Security => ({
+  name_ko: null,
+  name_en: null,
+  yahoo_symbol: null,
+  naver_symbol: null,
+  market: 'KR',
+  exchange: null,
+  asset_type: 'STOCK',
+  sector: null,
+  currency: 'KRW',
+  quote_enabled: 1,
+  source: 'USER',
+  ...overrides
+})
+
+const instrument = (stock_code: string, stock_name: string, currency = 'KRW', holding_count = 1, transaction_count = 0): Instrument =>
+  ({ stock_code, stock_name, currency, holding_count, transaction_count })
+
+const index = buildSecurityIndex(
+  [
+    security({ code: 'AAPL', name_ko: '애플', market: 'US', currency: 'USD' }),
+    security({ code: '0052D0', name_ko: 'SOL 미국배당다우존스', asset_type: 'ETF' })
+  ],
+  [{ alias_key: 'APPLEINC', alias: 'Apple Inc', code: 'AAPL' }]
+)
+
+describe('canonicalCode', () => {
+  it('should map broker codes and names to the master code', () => {
+    expect(canonicalCode(index, 'Apple Inc', 'Apple Inc')).toBe('AAPL')
+    expect(canonicalCode(index, '', '애플')).toBe('AAPL')
+    expect(canonicalCode(index, '', 'SOL 미국배당 다우존스')).toBe('0052D0')
+  })
+
+  it('should keep unknown codes and never partially match names', () => {
+    expect(canonicalCode(index, '005930', '삼성전자')).toBe('005930')
+    expect(canonicalCode(index, '', '애플 (AAPL)')).toBe('애플 (AAPL)')
+  })
+})
+
+describe('findMergeCandidates', () => {
+  it('should group codes resolving to the same security or sharing a name', () => {
+    const candidates = findMergeCandidates([
+      instrument('AAPL', 'Apple', 'USD'),
+      instrument('애플', '애플', 'USD', 1, 3),
+      instrument('0052D0', 'SOL 미국배당다우존스'),
+      instrument('SOL 미국배당다우존스', 'SOL 미국배당다우존스'),
+      instrument('KODEX200', 'KODEX 200'),
+      instrument('069500', 'KODEX200'),
+      instrument('005930', '삼성전자')
+    ], index)
+
+    expect(candidates.map(c => [c.key, c.suggested_code])).toEqual([
+      ['0052D0', '0052D0'],
+      ['AAPL', 'AAPL'],
+      ['NAME:KODEX200', '069500']
+    ])
+  })
+})
+
+describe('suggestTargetCode', () => {
+  it('should prefer real codes over name-only codes, then usage', () => {
+    expect(suggestTargetCode('NAME:X', [instrument('X ETF', 'X ETF', 'KRW', 5, 50), instrument('A00001', 'X ETF')])).toBe('A00001')
+    expect(suggestTargetCode('NAME:X', [instrument('B1', 'X', 'KRW', 1, 0), instrument('A1', 'X', 'KRW', 1, 4)])).toBe('A1')
+  })
+})
+
+describe('validateMerge', () => {
+  const instruments = [instrument('AAPL', 'Apple', 'USD'), instrument('애플', '애플', 'USD'), instrument('애플KR', '애플', 'KRW')]
+
+  it('should require a target and at least one other code', () => {
+    expect(() => validateMerge('', ['애플'], instruments)).toThrow('대상')
+    expect(() => validateMerge('AAPL', ['AAPL'], instruments)).toThrow('하나 이상')
+    expect(() => validateMerge('AAPL', ['애플'], instruments)).not.toThrow()
+  })
+
+  it('should reject merging different currencies', () => {
+    expect(() => validateMerge('AAPL', ['애플KR'], instruments)).toThrow('통화')
+  })
+})
@@ -0,0 +1,74 @@
+/**
+ * Jobs Unit Tests
+ *
+ * PRD 요구사항 테스트:
+ * - 시세 갱신/동기화를 ID가 있는 작업으로 실행
+ * - 종목별 진행 이벤트와 종료 시 성공/실패 목록
+ * - 취소 요청 시 남은 항목 중단
+ */
+
+import { describe, it, expect } from 'vitest'
+import { startJob, cancelJob, getRunningJobs, applyItem, progressPercent, JobContext, JobProgress } from '../src/main/jobs'
+
+// 종료 이벤트까지 수집
+function runJob(run: (context: JobContext) => Promise<unknown>): Promise<{ id: string; events: JobProgress[] }> {
+  return new Promise(resolve => {
+    const events: JobProgress[] = []
+    const id = startJob('PRICE_REFRESH', run, progress => {
+      events.push(progress)
+      if (progress.status !== 'RUNNING') resolve({ id, events })
+    })
+  })
+}
+
+describe('progress helpers', () => {
+  it('should count successes and failures', () => {
+    const base = { total: 2, completed: 0, succeeded: 0, failed: 0 } as JobProgress
+    const next = applyItem(applyItem(base, { key: 'A', label: 'A', success: true }), { key: 'B', label: 'B', success: false })
+    expect(next).toMatchObject({ completed: 2, succeeded: 1, failed: 1 })
+    expect(progressPercent({ total: 4, completed: 1 })).toBe(25)
+    expect(progressPercent({ total: 0, completed: 0 })).toBe(0)
+  })
+})
+
+describe('startJob', () => {
+  it('should emit per-item progress and the final item list', async () => {
+    const { events } = await runJob(async ({ setTotal, reportItem }) => {
+      setTotal(2)
+      reportItem({ key: '005930', label: '삼성전자', success: true })
+      reportItem({ key: 'AAPL', label: 'Apple', success: false, error: '조회 실패' })
+      return { updated: 1 }
+    })
+
+    const progress = events.filter(e => e.item)
+    expect(progress.map(e => [e.completed, e.item?.key])).toEqual([[1, '005930'], [2, 'AAPL']])
+
+    const last = events[events.length - 1]
+    expect(last).toMatchObject({ status: 'COMPLETED', total: 2, succeeded: 1, failed: 1, result: { updated: 1 } })
+    expect(last.items?.filter(i => !i.success)).toEqual([{ key: 'AAPL', label: 'Apple', success: false, error: '조회 실패' }])
+    expect(getRunningJobs()).toHaveLength(0)
+  })
+
+  it('should stop remaining items when canceled', async () => {
+    const { events } = await runJob(async ({ signal, setTotal, reportItem }) => {
+      setTotal(5)
+      for (let i = 0; i < 5; i++) {
+        if (signal.aborted) break
+        reportItem({ key: String(i), label: String(i), success: true })
+        // 두 번째 항목 처리 후 취소 요청 → 이후 항목은 처리하지 않음
+        if (i === 1) expect(cancelJob(getRunningJobs()[0].job_id)).toBe(true)
+      }
+    })
+
+    const last = events[events.length - 1]
+    expect(last).toMatchObject({ status: 'CANCELED', completed: 2, total: 5 })
+    expect(cancelJob(last.job_id)).toBe(false)
+  })
+
+  it('should report failures thrown by the job', async () => {
+    const { events } = await runJob(async () => {
+      throw new Error('Account not found')
+    })
+    expect(events[events.length - 1]).toMatchObject({ status: 'FAILED', error: 'Account not found', items: [] })
+  })
+})
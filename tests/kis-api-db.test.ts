@@ -0,0 +1,157 @@
+/**
+ * KIS API Sync DB Tests
+ *
+ * 실제 SQLite(in-memory)에서 증권사 동기화 검증:
+ * - 잔고 동기화 시 종목별로 반영되는 즉시 진행 보고
+ * - 조회 중 취소되면 기존 잔고를 건드리지 않음
+ * - 증권사 예수금은 대사용 스냅샷으로만 저장 (원장 예수금 유지)
+ * - 거래내역 동기화 시 스냅샷 보유종목을 기초잔고로 편입 후 원장 재생
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+vi.mock('electron', () => ({ app: { getPath: () => '' } }))
+
+import { sqliteAvailable, openTestDatabase, seedAccount } from './helpers/test-database'
+import { clearTokenCache, syncHoldings, syncTransactions } from '../src/main/kis-api'
+import { getCashBalances } from '../src/main/cash-ledger'
+import { getReconciliationReport } from '../src/main/reconciliation'
+import { replayAccount } from '../src/main/ledger-replay'
+import type Database from 'better-sqlite3'
+
+const mockFetch = vi.fn()
+global.fetch = mockFetch
+
+function jsonResponse(body: unknown): Response {
+  return new Response(JSON.stringify(body), { status: 200, headers: { 'Content-Type': 'application/json' } })
+}
+
+function balanceResponse(cash: string): Response {
+  return jsonResponse({
+    rt_cd: '0',
+    msg_cd: '',
+    msg1: '',
+    output1: [
+      { pdno: '005930', prdt_name: '삼성전자', hldg_qty: '10', pchs_avg_pric: '70000', prpr: '72000', evlu_amt: '', evlu_pfls_amt: '', evlu_pfls_rt: '' },
+      { pdno: '000660', prdt_name: 'SK하이닉스', hldg_qty: '5', pchs_avg_pric: '180000', prpr: '190000', evlu_amt: '', evlu_pfls_amt: '', evlu_pfls_rt: '' }
+    ],
+    output2: [{ dnca_tot_amt: cash, tot_evlu_amt: '', pchs_amt_smtl_amt: '', evlu_amt_smtl_amt: '', evlu_pfls_smtl_amt: '' }]
+  })
+}
+
+describe.skipIf(!sqliteAvailable)('syncHoldings (SQLite)', () => {
+  let db: Database.Database
+
+  beforeEach(async () => {
+    db = await openTestDatabase()
+    seedAccount(db)
+    db.prepare("UPDATE accounts SET api_key = 'key', api_secret = 'secret', account_number = '1234567801' WHERE id = 'acc-1'").run()
+    clearTokenCache('acc-1')
+    mockFetch.mockReset()
+    mockFetch.mockImplementation(async (url: string) =>
+      url.includes('/oauth2/tokenP')
+        ? jsonResponse({ access_token: 'token', token_type: 'Bearer', expires_in: 86400 })
+        : balanceResponse('1000000')
+    )
+  })
+
+  it('should report each stock as its holding is saved', async () => {
+    const onStart = vi.fn()
+    const saved: number[] = []
+    const result = await syncHoldings('acc-1', {
+      onStart,
+      onItem: () => {
+        saved.push((db.prepare("SELECT COUNT(*) as count FROM holdings WHERE account_id = 'acc-1'").get() as { count: number }).count)
+      }
+    })
+
+    expect(result.success).toBe(true)
+    expect(onStart).toHaveBeenCalledWith(2)
+    // 보고 시점에 해당 종목까지 저장되어 있음
+    expect(saved).toEqual([1, 2])
+  })
+
+  it('should leave existing holdings untouched when canceled during the fetch', async () => {
+    db.prepare(`
+      INSERT INTO holdings (id, account_id, stock_code, stock_name, quantity, avg_cost, currency) VALUES ('h-1', 'acc-1', '035720', '카카오', 3, 50000, 'KRW')
+    `).run()
+    const controller = new AbortController()
+    mockFetch.mockImplementation(async (url: string) => {
+      if (url.includes('/oauth2/tokenP')) return jsonResponse({ access_token: 'token', token_type: 'Bearer', expires_in: 86400 })
+      controller.abort()
+      return balanceResponse('1000000')
+    })
+    const onItem = vi.fn()
+
+    const result = await syncHoldings('acc-1', { signal: controller.signal, onItem })
+
+    expect(result).toMatchObject({ success: false, canceled: true })
+    expect(onItem).not.toHaveBeenCalled()
+    const codes = (db.prepare("SELECT stock_code FROM holdings WHERE account_id = 'acc-1'").all() as Array<{ stock_code: string }>).map(h => h.stock_code)
+    expect(codes).toEqual(['035720'])
+  })
+
+  it('should record the broker cash for reconciliation without overwriting the ledger balance', async () => {
+    db.prepare(`
+      INSERT INTO transactions (id, account_id, stock_code, stock_name, type, quantity, price, total_amount, currency, date, source)
+      VALUES ('t-1', 'acc-1', '', '', 'DEPOSIT', 1, 900000, 900000, 'KRW', '2024-06-01', 'MANUAL')
+    `).run()
+
+    await syncHoldings('acc-1')
+
+    expect(getCashBalances('user-1', 'acc-1')).toEqual([expect.objectContaining({ currency: 'KRW', balance: 900000, source: 'LEDGER' })])
+    expect(getReconciliationReport('acc-1').cash).toEqual([
+      expect.objectContaining({ currency: 'KRW', broker_balance: 1000000, ledger_balance: 900000, diff: 100000, matched: false })
+    ])
+  })
+})
+
+describe.skipIf(!sqliteAvailable)('syncTransactions (SQLite)', () => {
+  let db: Database.Database
+
+  beforeEach(async () => {
+    db = await openTestDatabase()
+    seedAccount(db)
+    db.prepare("UPDATE accounts SET api_key = 'key', api_secret = 'secret', account_number = '1234567801' WHERE id = 'acc-1'").run()
+    clearTokenCache('acc-1')
+    mockFetch.mockReset()
+    mockFetch.mockImplementation(async (url: string) => {
+      if (url.includes('/oauth2/tokenP')) return jsonResponse({ access_token: 'token', token_type: 'Bearer', expires_in: 86400 })
+      if (url.includes('inquire-daily-ccld')) {
+        return jsonResponse({
+          rt_cd: '0',
+          msg_cd: '',
+          msg1: '',
+          output1: [
+            { ord_dt: '20240612', pdno: '005930', prdt_name: '삼성전자', sll_buy_dvsn_cd: '02', ord_qty: '10', tot_ccld_qty: '10', tot_ccld_amt: '800000', avg_prvs: '80000' }
+          ],
+          ctx_area_fk100: '',
+          ctx_area_nk100: ''
+        })
+      }
+      return jsonResponse({ rt_cd: '0', msg_cd: '', msg1: '', output1: [], ctx_area_fk100: '', ctx_area_nk100: '' })
+    })
+  })
+
+  const holding = () => db.prepare("SELECT quantity, avg_cost FROM holdings WHERE account_id = 'acc-1' AND stock_code = '005930'")
+    .get() as { quantity: number; avg_cost: number }
+
+  it('should fold synced holdings into the ledger before adding synced trades', async () => {
+    db.prepare(`
+      INSERT INTO holdings (id, account_id, stock_code, stock_name, quantity, avg_cost, current_price, currency, last_synced)
+      VALUES ('h-1', 'acc-1', '005930', '삼성전자', 100, 70000, 80000, 'KRW', '2024-06-10 15:00:00')
+    `).run()
+
+    const result = await syncTransactions('acc-1')
+
+    expect(result).toMatchObject({ success: true, synced: 1 })
+    expect(holding().quantity).toBe(110)
+    expect(holding().avg_cost).toBeCloseTo((100 * 70000 + 10 * 80000) / 110)
+    const opening = db.prepare("SELECT quantity, price FROM transactions WHERE account_id = 'acc-1' AND source = 'OPENING'").get()
+    expect(opening).toEqual({ quantity: 100, price: 70000 })
+
+    // 원장 재생 후에도 스냅샷 수량 유지
+    replayAccount('acc-1')
+    expect(holding().quantity).toBe(110)
+  })
+})
@@ -0,0 +1,87 @@
+/**
+ * Ledger Replay DB Tests
+ *
+ * 실제 SQLite(in-memory)에서 원장 재생 SQL 검증:
+ * - 기존 보유종목이 있는 상태에서 재생
+ * - 거래 추가/삭제 후 보유종목 재계산
+ * - 스냅샷 보유종목에 과거 거래내역을 가져와도 이중 집계되지 않음
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+vi.mock('electron', () => ({ app: { getPath: () => '' } }))
+
+import { sqliteAvailable, openTestDatabase, seedAccount, insertTrade } from './helpers/test-database'
+import { replayHolding, replayAccount, ensureOpeningBalance } from '../src/main/ledger-replay'
+import type Database from 'better-sqlite3'
+
+describe.skipIf(!sqliteAvailable)('replayHolding (SQLite)', () => {
+  let db: Database.Database
+
+  beforeEach(async () => {
+    db = await openTestDatabase()
+    seedAccount(db)
+  })
+
+  const holding = () => db.prepare("SELECT quantity, avg_cost, last_synced FROM holdings WHERE account_id = 'acc-1' AND stock_code = '005930'")
+    .get() as { quantity: number; avg_cost: number; last_synced: string } | undefined
+
+  it('should create and then update an existing holding row', () => {
+    insertTrade(db, { id: 'b1', type: 'BUY', date: '2024-01-02', quantity: 10, price: 70000 })
+    expect(replayHolding('acc-1', '005930').action).toBe('UPSERT')
+    expect(holding()).toMatchObject({ quantity: 10, avg_cost: 70000 })
+
+    // 보유종목 행이 있는 상태에서 재생 (UPDATE 경로)
+    insertTrade(db, { id: 'b2', type: 'BUY', date: '2024-02-01', quantity: 10, price: 80000 })
+    replayHolding('acc-1', '005930')
+    expect(holding()).toMatchObject({ quantity: 20, avg_cost: 75000 })
+    expect(holding()?.last_synced).toMatch(/^\d{4}-\d{2}-\d{2} /)
+  })
+
+  it('should remove the holding when everything is sold', () => {
+    insertTrade(db, { id: 'b1', type: 'BUY', date: '2024-01-02', quantity: 10, price: 70000 })
+    replayHolding('acc-1', '005930')
+    insertTrade(db, { id: 's1', type: 'SELL', date: '2024-03-01', quantity: 10, price: 90000 })
+
+    expect(replayAccount('acc-1')).toMatchObject({ stocks: 1, removed: 1 })
+    expect(holding()).toBeUndefined()
+  })
+
+  describe('snapshot holdings', () => {
+    beforeEach(() => {
+      // 잔고 가져오기로만 존재하는 보유종목 10주 (2024-06-01 기준)
+      db.prepare(`
+        INSERT INTO holdings (id, account_id, stock_code, stock_name, quantity, avg_cost, current_price, currency, last_synced)
+        VALUES ('h1', 'acc-1', '005930', '삼성전자', 10, 70000, 80000, 'KRW', '2024-06-01 09:00:00')
+      `).run()
+    })
+
+    // 가져오기와 같은 순서: 기초잔고 편입 → 거래 기록 → 재생
+    const record = (trade: Parameters<typeof insertTrade>[1]) => {
+      ensureOpeningBalance('acc-1', '005930', trade.date)
+      insertTrade(db, trade)
+      replayHolding('acc-1', '005930')
+    }
+    const opening = () => db.prepare("SELECT quantity, date FROM transactions WHERE source = 'OPENING'").get() as { quantity: number; date: string } | undefined
+
+    it('should add later trades on top of the snapshot', () => {
+      record({ id: 'b1', type: 'BUY', date: '2024-07-01', quantity: 5, price: 90000 })
+      expect(opening()).toEqual({ quantity: 10, date: '2024-06-01' })
+      expect(holding()?.quantity).toBe(15)
+    })
+
+    it('should not double count older history imported after the snapshot', () => {
+      record({ id: 'b0', type: 'BUY', date: '2024-01-02', quantity: 10, price: 70000 })
+      expect(opening()).toBeUndefined()
+      expect(holding()).toMatchObject({ quantity: 10, avg_cost: 70000 })
+    })
+
+    it('should shrink an existing opening balance when older history arrives later', () => {
+      record({ id: 'b1', type: 'BUY', date: '2024-07-01', quantity: 5, price: 90000 })
+      record({ id: 'b0', type: 'BUY', date: '2024-01-02', quantity: 6, price: 70000 })
+
+      expect(opening()?.quantity).toBe(4)
+      expect(holding()?.quantity).toBe(15)
+    })
+  })
+})
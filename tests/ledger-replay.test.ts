@@ -0,0 +1,133 @@
+/**
+ * Ledger Replay Unit Tests
+ *
+ * PRD 요구사항 테스트:
+ * - 거래 수정/삭제 시 보유종목을 거래내역 재생으로 재계산
+ * - 동일한 거래내역은 입력 순서와 무관하게 동일한 보유종목
+ * - 스냅샷 기초잔고는 기준일 이전 거래만큼 차감
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+
+vi.mock('../src/main/database', () => ({
+  getDatabase: () => ({
+    prepare: () => ({
+      run: vi.fn(),
+      get: vi.fn(),
+      all: vi.fn()
+    })
+  })
+}))
+
+import { LedgerTransaction, buildTaxLots } from '../src/main/tax-lots'
+import { resolveReplayedHolding, isLedgerTrade, sizeOpeningBalance } from '../src/main/ledger-replay'
+
+function tx(id: string, type: 'BUY' | 'SELL', date: string, quantity: number, price: number): LedgerTransaction {
+  return {
+    id,
+    account_id: 'acc-1',
+    stock_code: '005930',
+    stock_name: '삼성전자',
+    type,
+    quantity,
+    price,
+    total_amount: quantity * price,
+    currency: 'KRW',
+    date,
+    fx_rate: null
+  }
+}
+
+describe('resolveReplayedHolding', () => {
+  it('should recompute quantity and average cost from the full history', () => {
+    const result = buildTaxLots([
+      tx('b1', 'BUY', '2024-01-02', 10, 70000),
+      tx('b2', 'BUY', '2024-02-01', 10, 80000),
+      tx('s1', 'SELL', '2024-03-01', 5, 90000)
+    ], 'AVERAGE')
+
+    const holding = resolveReplayedHolding(result)
+    expect(holding.action).toBe('UPSERT')
+    expect(holding.quantity).toBeCloseTo(15)
+    expect(holding.avgCost).toBeCloseTo(75000)
+  })
+
+  it('should reflect an edited past buy', () => {
+    const original = resolveReplayedHolding(buildTaxLots([
+      tx('b1', 'BUY', '2024-01-02', 10, 70000),
+      tx('b2', 'BUY', '2024-02-01', 10, 80000)
+    ], 'AVERAGE'))
+    const edited = resolveReplayedHolding(buildTaxLots([
+      tx('b1', 'BUY', '2024-01-02', 30, 70000),
+      tx('b2', 'BUY', '2024-02-01', 10, 80000)
+    ], 'AVERAGE'))
+
+    expect(original.quantity).toBe(20)
+    expect(edited.quantity).toBe(40)
+    expect(edited.avgCost).toBeCloseTo(72500)
+  })
+
+  it('should be independent of input order', () => {
+    const ledger = [
+      tx('b1', 'BUY', '2024-01-02', 10, 70000),
+      tx('s1', 'SELL', '2024-01-15', 4, 75000),
+      tx('b2', 'BUY', '2024-02-01', 10, 80000)
+    ]
+    const forward = resolveReplayedHolding(buildTaxLots(ledger, 'FIFO'))
+    const reversed = resolveReplayedHolding(buildTaxLots([...ledger].reverse(), 'FIFO'))
+
+    expect(reversed).toEqual(forward)
+    expect(forward.quantity).toBe(16)
+  })
+
+  it('should remove the holding when everything is sold', () => {
+    const holding = resolveReplayedHolding(buildTaxLots([
+      tx('b1', 'BUY', '2024-01-02', 10, 70000),
+      tx('s1', 'SELL', '2024-03-01', 10, 90000)
+    ], 'FIFO'))
+    expect(holding.action).toBe('DELETE')
+  })
+
+  it('should remove the holding when the last trade is deleted', () => {
+    expect(resolveReplayedHolding(buildTaxLots([], 'AVERAGE')).action).toBe('DELETE')
+  })
+
+  it('should flag an incomplete ledger instead of overwriting the holding', () => {
+    const holding = resolveReplayedHolding(buildTaxLots([
+      tx('b1', 'BUY', '2024-01-02', 5, 70000),
+      tx('s1', 'SELL', '2024-03-01', 8, 90000)
+    ], 'FIFO'))
+
+    expect(holding.action).toBe('INCOMPLETE')
+    expect(holding.unmatchedQuantity).toBe(3)
+  })
+})
+
+describe('isLedgerTrade', () => {
+  it('should only replay buys and sells', () => {
+    expect(isLedgerTrade('BUY')).toBe(true)
+    expect(isLedgerTrade('SELL')).toBe(true)
+    expect(isLedgerTrade('DIVIDEND')).toBe(false)
+  })
+})
+
+describe('sizeOpeningBalance', () => {
+  it('should keep the full snapshot without earlier trades', () => {
+    expect(sizeOpeningBalance({ quantity: 10, avgCost: 70000 }, [])).toEqual({ quantity: 10, avgCost: 70000 })
+  })
+
+  it('should subtract the net of trades before the snapshot date', () => {
+    // 스냅샷 15주 @72000 중 10주 @70000는 과거 매수 → 기초잔고 5주 @76000
+    const opening = sizeOpeningBalance({ quantity: 15, avgCost: 72000 }, [
+      { type: 'BUY', quantity: 12, price: 70000 },
+      { type: 'SELL', quantity: 2, price: 75000 }
+    ])
+    expect(opening.quantity).toBe(5)
+    expect(opening.avgCost).toBeCloseTo(76000)
+  })
+
+  it('should drop the opening balance when earlier trades explain the snapshot', () => {
+    expect(sizeOpeningBalance({ quantity: 10, avgCost: 70000 }, [{ type: 'BUY', quantity: 10, price: 70000 }]))
+      .toEqual({ quantity: 0, avgCost: 0 })
+  })
+})
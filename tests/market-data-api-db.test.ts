@@ -0,0 +1,43 @@
+/**
+ * Market Data API DB Tests
+ *
+ * 실제 SQLite(in-memory)에서 저장된 시세 캐시 검증:
+ * - 앱 시작 시 불러온 시세는 전일종가·통화를 유지한 채 캐시에서 반환
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+vi.mock('electron', () => ({ app: { getPath: () => '' } }))
+
+import { sqliteAvailable, openTestDatabase } from './helpers/test-database'
+import { clearMarketDataCache, fetchStockPrice, loadPersistedMarketData } from '../src/main/market-data-api'
+import { quoteFromResult } from '../src/main/quotes'
+import type Database from 'better-sqlite3'
+
+const mockFetch = vi.fn()
+global.fetch = mockFetch
+
+describe.skipIf(!sqliteAvailable)('fetchStockPrice cache (SQLite)', () => {
+  let db: Database.Database
+
+  beforeEach(async () => {
+    db = await openTestDatabase()
+    clearMarketDataCache()
+    mockFetch.mockReset()
+  })
+
+  it('should return persisted quotes with their previous close and currency', async () => {
+    const asOf = new Date().toISOString()
+    db.prepare(`
+      INSERT INTO quotes (instrument_code, price, prev_close, currency, source, as_of) VALUES ('AAPL', 190, 185, 'USD', 'yahoo', ?)
+    `).run(asOf)
+    expect(loadPersistedMarketData().quotes).toBe(1)
+
+    const result = await fetchStockPrice('AAPL', 'Apple Inc.')
+    expect(mockFetch).not.toHaveBeenCalled()
+    expect(result).toMatchObject({ success: true, currentPrice: 190, prevClose: 185, currency: 'USD', timestamp: asOf })
+
+    // 캐시 결과로 다시 저장해도 일간 변동·통화 유지
+    expect(quoteFromResult(result)).toMatchObject({ price: 190, prev_close: 185, currency: 'USD' })
+  })
+})
@@ -8,7 +8,14 @@
  */
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
-import { clearMarketDataCache } from '../src/main/market-data-api'
+import {
+  clearMarketDataCache,
+  fetchExchangeRate,
+  getLastExchangeRate,
+  isExchangeRateStale,
+  saveExchangeRate,
+  toIsoTimestamp
+} from '../src/main/market-data-api'
 
 // Mock fetch globally
 const mockFetch = vi.fn()
@@ -216,6 +223,40 @@ describe('Cache Management', () => {
   })
 })
 
+describe('Persisted Exchange Rates', () => {
+  beforeEach(() => {
+    clearMarketDataCache()
+    mockFetch.mockReset()
+  })
+
+  it('should normalize SQLite timestamps to UTC ISO strings', () => {
+    expect(toIsoTimestamp('2025-01-15 01:00:00')).toBe('2025-01-15T01:00:00Z')
+    expect(toIsoTimestamp('2025-01-15T01:00:00.000Z')).toBe('2025-01-15T01:00:00.000Z')
+  })
+
+  it('should mark rates older than a day as stale', () => {
+    const now = Date.parse('2025-01-16T02:00:00Z')
+    expect(isExchangeRateStale('2025-01-15T03:00:00Z', now)).toBe(false)
+    expect(isExchangeRateStale('2025-01-15T01:00:00Z', now)).toBe(true)
+  })
+
+  it('should serve the last saved rate without network access', () => {
+    expect(getLastExchangeRate('USD', 'KRW').success).toBe(false)
+
+    saveExchangeRate('USD/KRW', 1400)
+    expect(getLastExchangeRate('USD', 'KRW')).toMatchObject({ success: true, rate: 1400, stale: false })
+    expect(mockFetch).not.toHaveBeenCalled()
+  })
+
+  it('should fall back to the last saved rate when the API fails', async () => {
+    saveExchangeRate('USD/KRW', 1400)
+    mockFetch.mockResolvedValueOnce(new Response('', { status: 404 }))
+
+    const result = await fetchExchangeRate('USD', 'KRW', true)
+    expect(result).toMatchObject({ success: true, rate: 1400, stale: true })
+  })
+})
+
 describe('Currency Detection', () => {
   it('should identify USD stocks by currency', () => {
     const holding = {
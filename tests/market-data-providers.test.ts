@@ -0,0 +1,181 @@
+/**
+ * Market Data Provider Unit Tests
+ *
+ * PRD 요구사항 테스트:
+ * - 시세 공급자 등록부 (시장별 우선순위, 사용 여부)
+ * - 공급자 상태 추적 (연속 실패 시 후순위)
+ * - 파일 기반 픽스처 공급자로 오프라인 조회
+ */
+
+import * as fs from 'fs'
+import * as path from 'path'
+import { describe, it, expect, vi, afterEach } from 'vitest'
+
+vi.mock('../src/main/database', () => ({
+  getDatabase: () => ({
+    prepare: () => ({
+      run: vi.fn(),
+      get: vi.fn(),
+      all: vi.fn()
+    })
+  }),
+  getSetting: () => null,
+  setSetting: vi.fn()
+}))
+
+import {
+  MarketDataProvider,
+  ProviderHealth,
+  QuoteRequest,
+  classifyMarket,
+  orderProviders,
+  recordOutcome,
+  registerProvider,
+  unregisterProvider,
+  fetchQuoteFromProviders,
+  fetchHistoryFromProviders,
+  getProviderStatus
+} from '../src/main/market-data-providers'
+import { parseFixture, fixtureQuote, fixtureHistory } from '../src/main/market-data-fixtures'
+import type { Security } from '../src/main/securities'
+
+const fixture = parseFixture(fs.readFileSync(path.join(__dirname, 'fixtures', 'market-data.json'), 'utf-8'))
+
+function stubProvider(id: string, markets: Array<'KR' | 'US'>, price: number | null | Error): MarketDataProvider {
+  return {
+    id,
+    name: id,
+    markets,
+    fetchQuote: vi.fn(async (request: QuoteRequest) => {
+      if (price instanceof Error) throw price
+      if (price === null) return null
+      return {
+        success: price > 0,
+        stockCode: `${request.stockCode}.X`,
+        currentPrice: price,
+        currency: 'KRW',
+        timestamp: '2024-01-05T00:00:00Z',
+        error: price > 0 ? undefined : 'HTTP 500'
+      }
+    })
+  }
+}
+
+const request: QuoteRequest = { stockCode: '005930', stockName: '삼성전자', currency: 'KRW', market: 'KR', security: null }
+
+describe('classifyMarket', () => {
+  it('should prefer the security master market', () => {
+    expect(classifyMarket('SPY', undefined, 'KRW', { market: 'US' } as Security)).toBe('US')
+  })
+
+  it('should classify by currency, code and name', () => {
+    expect(classifyMarket('AAPL', 'Apple', 'USD', null)).toBe('US')
+    expect(classifyMarket('005930', undefined, undefined, null)).toBe('KR')
+    expect(classifyMarket('0052D0', 'TIGER 미국S&P500', undefined, null)).toBe('KR')
+    expect(classifyMarket('XYZ', undefined, undefined, null)).toBeNull()
+  })
+})
+
+describe('orderProviders', () => {
+  const a = stubProvider('a', ['KR', 'US'], 1)
+  const b = stubProvider('b', ['KR'], 1)
+  const c = stubProvider('c', ['US'], 1)
+
+  it('should filter by market and follow the saved priority', () => {
+    const ordered = orderProviders([a, b, c], 'KR', ['b'], [], new Map(), 0)
+    expect(ordered.map(p => p.id)).toEqual(['b', 'a'])
+  })
+
+  it('should skip disabled providers and push cooling providers to the end', () => {
+    const health = new Map<string, ProviderHealth>([
+      ['a', { ...recordOutcome(undefined, false, 'x', 0), cooling_until: new Date(60_000).toISOString() }]
+    ])
+    expect(orderProviders([a, b, c], 'KR', [], [], health, 0).map(p => p.id)).toEqual(['b', 'a'])
+    expect(orderProviders([a, b, c], 'KR', [], [], health, 120_000).map(p => p.id)).toEqual(['a', 'b'])
+    expect(orderProviders([a, b, c], 'US', [], ['c'], new Map(), 0).map(p => p.id)).toEqual(['a'])
+  })
+})
+
+describe('recordOutcome', () => {
+  it('should start a cooldown after consecutive failures and clear it on success', () => {
+    let health = recordOutcome(undefined, false, 'HTTP 500', 0)
+    health = recordOutcome(health, false, 'HTTP 500', 1000)
+    expect(health.cooling_until).toBeNull()
+
+    health = recordOutcome(health, false, 'HTTP 500', 2000)
+    expect(health.consecutive_failures).toBe(3)
+    expect(Date.parse(health.cooling_until as string)).toBe(2000 + 5 * 60 * 1000)
+
+    health = recordOutcome(health, true, null, 3000)
+    expect(health).toMatchObject({ successes: 1, failures: 3, consecutive_failures: 0, cooling_until: null, last_error: 'HTTP 500' })
+  })
+})
+
+describe('fetchQuoteFromProviders', () => {
+  afterEach(() => {
+    for (const id of ['down', 'skip', 'up', 'broken']) unregisterProvider(id)
+  })
+
+  it('should fall through failing and non-applicable providers', async () => {
+    const down = stubProvider('down', ['KR'], 0)
+    const skip = stubProvider('skip', ['KR'], null)
+    const up = stubProvider('up', ['KR'], 71000)
+    ;[down, skip, up].forEach(registerProvider)
+
+    const result = await fetchQuoteFromProviders(request)
+    expect(result).toMatchObject({ success: true, stockCode: '005930', currentPrice: 71000, provider: 'up' })
+
+    const status = getProviderStatus()
+    expect(status.find(s => s.id === 'down')?.health.failures).toBe(1)
+    expect(status.find(s => s.id === 'skip')?.health.failures).toBe(0)
+    expect(status.find(s => s.id === 'up')?.health.successes).toBe(1)
+  })
+
+  it('should collect errors when every provider fails', async () => {
+    registerProvider(stubProvider('broken', ['KR'], new Error('offline')))
+    const result = await fetchQuoteFromProviders(request)
+    expect(result.success).toBe(false)
+    expect(result.error).toContain('broken: offline')
+  })
+})
+
+describe('fixture provider', () => {
+  it('should answer quotes by code or master symbol', () => {
+    expect(fixtureQuote(fixture, request)).toMatchObject({
+      success: true, stockCode: '005930', currentPrice: 71000, prevClose: 70000, change: 1000, tradeDate: '2024-01-05'
+    })
+
+    const aliased: QuoteRequest = {
+      stockCode: '애플',
+      market: 'US',
+      security: { code: 'AAPL', yahoo_symbol: 'AAPL', naver_symbol: null } as Security
+    }
+    expect(fixtureQuote(fixture, aliased)).toMatchObject({ stockCode: '애플', currentPrice: 181.18, currency: 'USD' })
+    expect(fixtureQuote(fixture, { ...request, stockCode: '035720' })).toBeNull()
+  })
+
+  it('should slice history to the requested range', () => {
+    expect(fixtureHistory(fixture, request, '2024-01-03', '2024-01-04')?.map(b => b.close)).toEqual([77000, 76600])
+    expect(fixtureHistory(fixture, { ...request, stockCode: '000660' }, '2024-01-01', '2024-01-31')).toBeNull()
+  })
+
+  it('should reject malformed fixture files', () => {
+    expect(() => parseFixture('not json')).toThrow('JSON')
+    expect(() => parseFixture('{}')).toThrow('quotes')
+  })
+
+  it('should serve history through the registry', async () => {
+    registerProvider({
+      id: 'offline',
+      name: 'offline',
+      markets: ['KR'],
+      fetchQuote: async (r) => fixtureQuote(fixture, r),
+      fetchHistory: async (r, start, end) => fixtureHistory(fixture, r, start, end)
+    })
+    const result = await fetchHistoryFromProviders(request, '2024-01-01', '2024-01-31')
+    unregisterProvider('offline')
+
+    expect(result.provider).toBe('offline')
+    expect(result.bars).toHaveLength(4)
+  })
+})
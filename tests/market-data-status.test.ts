@@ -0,0 +1,55 @@
+/**
+ * Market Data Status Unit Tests
+ *
+ * PRD 요구사항 테스트:
+ * - 최근 장 마감 이후 갱신되지 않은 시세는 지연 표시
+ * - 주말·휴장일에는 직전 거래일 종가 기준
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+
+vi.mock('../src/main/database', () => ({
+  getDatabase: () => ({
+    prepare: () => ({
+      run: vi.fn(),
+      get: vi.fn(),
+      all: vi.fn()
+    })
+  }),
+  getSetting: () => null,
+  setSetting: vi.fn()
+}))
+
+vi.mock('../src/main/portfolio-snapshots', () => ({
+  recordPortfolioSnapshot: vi.fn()
+}))
+
+import { isQuoteStale } from '../src/main/market-data-status'
+import { EXCHANGES } from '../src/main/price-scheduler'
+
+describe('isQuoteStale', () => {
+  const noHolidays = new Set<string>()
+
+  it('should keep quotes fetched after the last close fresh', () => {
+    // KRX 2025-01-15(수) 15:40 종가 확정 → 16:00 조회 시세는 최신
+    const now = new Date('2025-01-15T08:00:00Z')
+    expect(isQuoteStale('2025-01-15T07:00:00Z', EXCHANGES.KRX, noHolidays, now)).toBe(false)
+    expect(isQuoteStale('2025-01-15T06:00:00Z', EXCHANGES.KRX, noHolidays, now)).toBe(true)
+  })
+
+  it('should not mark intraday quotes stale before the close', () => {
+    // 장중에는 전일 종가 이후 조회한 시세 유지
+    const now = new Date('2025-01-15T03:00:00Z')
+    expect(isQuoteStale('2025-01-14T07:00:00Z', EXCHANGES.KRX, noHolidays, now)).toBe(false)
+    expect(isQuoteStale('2025-01-14T05:00:00Z', EXCHANGES.KRX, noHolidays, now)).toBe(true)
+  })
+
+  it('should measure against the previous trading day over weekends and holidays', () => {
+    // 2025-01-20(월) 오전: 금요일(01-17) 종가 이후 시세면 최신
+    const monday = new Date('2025-01-20T13:00:00Z')
+    expect(isQuoteStale('2025-01-17T21:30:00Z', EXCHANGES.NYSE, noHolidays, monday)).toBe(false)
+    // 01-20을 휴장일로 지정해도 같은 기준
+    expect(isQuoteStale('2025-01-17T21:30:00Z', EXCHANGES.NYSE, new Set(['2025-01-20']), new Date('2025-01-20T22:00:00Z'))).toBe(false)
+    expect(isQuoteStale('2025-01-17T21:30:00Z', EXCHANGES.NYSE, noHolidays, new Date('2025-01-20T22:00:00Z'))).toBe(true)
+  })
+})
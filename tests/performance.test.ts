@@ -0,0 +1,146 @@
+/**
+ * Performance Returns Unit Tests
+ *
+ * PRD 요구사항 테스트:
+ * - 시간가중수익률(TWR): 입출금 시점과 무관한 운용 성과
+ * - 금액가중수익률(XIRR): 입출금 시점을 반영한 연환산 수익률
+ * - 이번 달/올해/1년/전체 기간, 계좌 합산
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+
+vi.mock('../src/main/database', () => ({
+  getDatabase: () => ({
+    prepare: () => ({
+      run: vi.fn(),
+      get: vi.fn(),
+      all: vi.fn()
+    })
+  }),
+  getSetting: () => null,
+  setSetting: vi.fn()
+}))
+
+vi.mock('../src/main/market-data-api', () => ({
+  fetchExchangeRate: vi.fn()
+}))
+
+import {
+  windowBaseDate,
+  externalFlowOf,
+  combineValueSeries,
+  computeTwr,
+  computeXirr,
+  measurePerformance
+} from '../src/main/performance'
+
+describe('windowBaseDate', () => {
+  it('should return the valuation date just before each window', () => {
+    expect(windowBaseDate('MTD', '2024-05-15')).toBe('2024-04-30')
+    expect(windowBaseDate('YTD', '2024-05-15')).toBe('2023-12-31')
+    expect(windowBaseDate('1Y', '2024-05-15')).toBe('2023-05-15')
+    expect(windowBaseDate('ALL', '2024-05-15')).toBeNull()
+  })
+})
+
+describe('externalFlowOf', () => {
+  const tx = { type: 'BUY', source: 'MANUAL', total_amount: 10000, fee: 15, tax: 0, date: '2024-01-02' }
+
+  it('should treat only deposits and withdrawals as flows when cash is tracked', () => {
+    expect(externalFlowOf(tx, true)).toBe(0)
+    expect(externalFlowOf({ ...tx, type: 'DEPOSIT' }, true)).toBe(9985)
+    expect(externalFlowOf({ ...tx, type: 'WITHDRAWAL', fee: 0 }, true)).toBe(-10000)
+  })
+
+  it('should treat trades and dividends as flows when cash is not tracked', () => {
+    expect(externalFlowOf(tx, false)).toBe(10015)
+    expect(externalFlowOf({ ...tx, type: 'SELL', tax: 20 }, false)).toBe(-9965)
+    expect(externalFlowOf({ ...tx, type: 'DIVIDEND', fee: 0 }, false)).toBe(-10000)
+  })
+
+  it('should always count opening balances as inflows', () => {
+    expect(externalFlowOf({ ...tx, source: 'OPENING' }, true)).toBe(10000)
+  })
+})
+
+describe('combineValueSeries', () => {
+  it('should carry forward the last value of accounts without a point on a date', () => {
+    expect(combineValueSeries([
+      [{ date: '2024-01-01', value: 100 }, { date: '2024-01-03', value: 120 }],
+      [{ date: '2024-01-02', value: 50 }]
+    ])).toEqual([
+      { date: '2024-01-01', value: 100 },
+      { date: '2024-01-02', value: 150 },
+      { date: '2024-01-03', value: 170 }
+    ])
+  })
+})
+
+describe('computeTwr', () => {
+  it('should exclude the effect of deposits', () => {
+    // 100 → 110 (+10%), 입금 100 후 210 → 231 (+10%)
+    const twr = computeTwr([
+      { date: '2024-01-01', value: 100 },
+      { date: '2024-01-02', value: 110 },
+      { date: '2024-01-03', value: 210 },
+      { date: '2024-01-04', value: 231 }
+    ], [{ date: '2024-01-03', amount: 100 }])
+
+    expect(twr).toBeCloseTo(21, 6)
+  })
+
+  it('should return null without a starting value', () => {
+    expect(computeTwr([{ date: '2024-01-01', value: 100 }], [])).toBeNull()
+  })
+})
+
+describe('computeXirr', () => {
+  it('should annualize a single one-year investment', () => {
+    const xirr = computeXirr([
+      { date: '2023-01-01', amount: -1000 },
+      { date: '2024-01-01', amount: 1100 }
+    ])
+    expect(xirr).toBeCloseTo(10, 4)
+  })
+
+  it('should return null when all flows have the same sign', () => {
+    expect(computeXirr([{ date: '2023-01-01', amount: -1000 }])).toBeNull()
+  })
+})
+
+describe('measurePerformance', () => {
+  const values = [
+    { date: '2023-12-29', value: 1000 },
+    { date: '2024-03-29', value: 1600 },
+    { date: '2024-06-28', value: 1650 }
+  ]
+  const flows = [
+    { date: '2023-06-01', amount: 1000 },
+    { date: '2024-03-29', amount: 500 }
+  ]
+
+  it('should use the last value before the window as the starting value', () => {
+    const result = measurePerformance(values, flows, '2023-12-31')
+
+    expect(result).toMatchObject({
+      start_date: '2023-12-29',
+      end_date: '2024-06-28',
+      start_value: 1000,
+      end_value: 1650,
+      net_flows: 500,
+      gain: 150
+    })
+    expect(result?.twr).toBeCloseTo((1100 / 1000) * (1650 / 1600) * 100 - 100, 6)
+    expect(result?.twr_annualized).toBeNull()
+    expect(result?.xirr).not.toBeNull()
+  })
+
+  it('should start from zero when the portfolio began inside the window', () => {
+    const result = measurePerformance(values, flows, null)
+
+    expect(result?.start_date).toBe('2023-06-01')
+    expect(result?.start_value).toBe(0)
+    expect(result?.net_flows).toBe(1500)
+    expect(result?.gain).toBe(150)
+  })
+})
@@ -19,7 +19,20 @@
  *   - QA-3 (Regression Tester): 기존 기능 보호, 변경 감지
  */
 
-import { describe, it, expect, beforeEach } from 'vitest'
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+
+vi.mock('../src/main/database', () => ({
+  getDatabase: () => ({
+    prepare: () => ({
+      run: vi.fn(),
+      get: vi.fn(),
+      all: vi.fn()
+    })
+  }),
+  getSetting: () => null,
+  setSetting: vi.fn()
+}))
+
 import { detectCurrencyByPriceRatio, ParsedHolding } from '../src/main/holdings-parser'
 
 // ============================================================
@@ -0,0 +1,112 @@
+/**
+ * Portfolio Snapshots Unit Tests
+ *
+ * PRD 요구사항 테스트:
+ * - 거래내역으로 과거 일자별 평가금액/원가/예수금/누적배당 재구성
+ * - 일자별 합산 및 기준통화 환산 (순자산 추이 차트)
+ * - 1M/3M/1Y/전체 조회 범위
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+
+vi.mock('../src/main/database', () => ({
+  getDatabase: () => ({
+    prepare: () => ({
+      run: vi.fn(),
+      get: vi.fn(),
+      all: vi.fn()
+    })
+  }),
+  getSetting: () => null,
+  setSetting: vi.fn()
+}))
+
+vi.mock('../src/main/market-data-api', () => ({
+  fetchExchangeRate: vi.fn()
+}))
+
+import {
+  buildBackfillSnapshots,
+  buildNetWorthSeries,
+  rangeStartDate,
+  type SnapshotTrade
+} from '../src/main/portfolio-snapshots'
+
+function trade(overrides: Partial<SnapshotTrade>): SnapshotTrade {
+  return {
+    account_id: 'acc-1',
+    stock_code: '005930',
+    currency: 'KRW',
+    type: 'BUY',
+    source: 'MANUAL',
+    quantity: 0,
+    price: 0,
+    total_amount: 0,
+    fee: 0,
+    tax: 0,
+    date: '2024-01-02',
+    ...overrides
+  }
+}
+
+describe('rangeStartDate', () => {
+  it('should subtract the range from the end date', () => {
+    expect(rangeStartDate('1M', '2024-05-15')).toBe('2024-04-15')
+    expect(rangeStartDate('3M', '2024-05-15')).toBe('2024-02-15')
+    expect(rangeStartDate('1Y', '2024-05-15')).toBe('2023-05-15')
+    expect(rangeStartDate('ALL', '2024-05-15')).toBeNull()
+  })
+})
+
+describe('buildBackfillSnapshots', () => {
+  it('should value positions at the latest trade price with average cost', () => {
+    const snapshots = buildBackfillSnapshots([
+      trade({ quantity: 10, price: 1000, total_amount: 10000, fee: 100, date: '2024-01-02' }),
+      trade({ type: 'SELL', quantity: 5, price: 1200, total_amount: 6000, date: '2024-01-04' })
+    ], ['2024-01-01', '2024-01-03', '2024-01-04'])
+
+    expect(snapshots).toHaveLength(2)
+    expect(snapshots[0]).toMatchObject({ date: '2024-01-03', market_value: 10000, cost_basis: 10100 })
+    expect(snapshots[1]).toMatchObject({ date: '2024-01-04', market_value: 6000, cost_basis: 5050 })
+  })
+
+  it('should track cash only for accounts with deposits and accumulate dividends', () => {
+    const snapshots = buildBackfillSnapshots([
+      trade({ type: 'DEPOSIT', stock_code: '', quantity: 1, price: 50000, total_amount: 50000 }),
+      trade({ quantity: 10, price: 1000, total_amount: 10000 }),
+      trade({ type: 'DIVIDEND', total_amount: 500, tax: 77, date: '2024-01-03' }),
+      trade({ account_id: 'acc-2', quantity: 1, price: 3000, total_amount: 3000 })
+    ], ['2024-01-03'])
+
+    const acc1 = snapshots.find(s => s.account_id === 'acc-1')
+    const acc2 = snapshots.find(s => s.account_id === 'acc-2')
+    expect(acc1).toMatchObject({ cash: 40423, dividends: 423 })
+    expect(acc2).toMatchObject({ cash: 0, market_value: 3000 })
+  })
+})
+
+describe('buildNetWorthSeries', () => {
+  const rows = [
+    { date: '2024-01-02', currency: 'KRW', market_value: 1000000, cost_basis: 900000, cash: 100000, dividends: 0, fx_rate: 1 },
+    { date: '2024-01-02', currency: 'USD', market_value: 1000, cost_basis: 800, cash: 0, dividends: 10, fx_rate: 1300 },
+    { date: '2024-01-01', currency: 'USD', market_value: 500, cost_basis: 500, cash: 0, dividends: 0, fx_rate: null }
+  ]
+
+  it('should sum each date in KRW using the stored rates', () => {
+    const series = buildNetWorthSeries(rows, () => 1)
+
+    expect(series.map(p => p.date)).toEqual(['2024-01-02'])
+    expect(series[0]).toMatchObject({
+      market_value: 2300000,
+      cost_basis: 1940000,
+      cash: 100000,
+      dividends: 13000,
+      total: 2400000
+    })
+  })
+
+  it('should convert to a non-KRW base currency with the rate of that date', () => {
+    const series = buildNetWorthSeries(rows, () => 1250)
+    expect(series[0].total).toBeCloseTo(2400000 / 1250)
+  })
+})
@@ -0,0 +1,112 @@
+/**
+ * Price History Unit Tests
+ *
+ * PRD 요구사항 테스트:
+ * - 종목별 일봉 이력 (시세 갱신 / CSV / 오프라인 대체값)
+ * - 종목 차트에 매수/매도/배당 거래 표시
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+
+vi.mock('../src/main/database', () => ({
+  getDatabase: () => ({
+    prepare: () => ({
+      run: vi.fn(),
+      get: vi.fn(),
+      all: vi.fn()
+    })
+  }),
+  getSetting: () => null,
+  setSetting: vi.fn()
+}))
+
+vi.mock('../src/main/market-data-api', () => ({
+  fetchExchangeRate: vi.fn(),
+  fetchYahooHistory: vi.fn(),
+  fetchNaverDailyHistory: vi.fn()
+}))
+
+import {
+  parsePriceCsv,
+  quoteToBar,
+  buildStandInPrices,
+  placeMarkers
+} from '../src/main/price-history'
+
+describe('parsePriceCsv', () => {
+  it('should parse date,close rows with header and quoted values', () => {
+    const csv = ['날짜,종가', '2024-01-03,"71,500"', '2024.01.02,70000', 'invalid,line', ''].join('\n')
+    expect(parsePriceCsv(csv)).toEqual([
+      { date: '2024-01-02', close: 70000 },
+      { date: '2024-01-03', close: 71500 }
+    ])
+  })
+
+  it('should parse OHLC rows with volume', () => {
+    const csv = 'Date,Open,High,Low,Close,Volume\r\n2024-01-02,185.5,188.4,183.9,185.6,82488700'
+    expect(parsePriceCsv(csv)).toEqual([
+      { date: '2024-01-02', open: 185.5, high: 188.4, low: 183.9, close: 185.6, volume: 82488700 }
+    ])
+  })
+})
+
+describe('quoteToBar', () => {
+  const quote = {
+    success: true,
+    stockCode: 'AAPL',
+    currentPrice: 190,
+    open: 188,
+    high: 191,
+    low: 187,
+    volume: 1000,
+    currency: 'USD',
+    timestamp: '2024-01-03T01:00:00Z'
+  }
+
+  it('should use the market date when provided', () => {
+    expect(quoteToBar({ ...quote, tradeDate: '2024-01-02' }, '2024-01-03')).toEqual({
+      date: '2024-01-02', close: 190, open: 188, high: 191, low: 187, volume: 1000
+    })
+  })
+
+  it('should skip failed quotes', () => {
+    expect(quoteToBar({ ...quote, success: false }, '2024-01-03')).toBeNull()
+    expect(quoteToBar({ ...quote, currentPrice: 0 }, '2024-01-03')).toBeNull()
+  })
+})
+
+describe('buildStandInPrices', () => {
+  const days = ['2024-01-02', '2024-01-03', '2024-01-04', '2024-01-05']
+
+  it('should use trade prices as anchors and carry forward closes', () => {
+    const known = [{ date: '2024-01-02', close: 100 }]
+    const trades = [{ date: '2024-01-04', close: 110 }, { date: '2024-01-02', close: 99 }]
+    expect(buildStandInPrices(known, trades, days, null)).toEqual([
+      { date: '2024-01-03', close: 100 },
+      { date: '2024-01-04', close: 110 },
+      { date: '2024-01-05', close: 110 }
+    ])
+  })
+
+  it('should fall back to the current price without any history', () => {
+    expect(buildStandInPrices([], [], days.slice(0, 2), 50)).toEqual([
+      { date: '2024-01-02', close: 50 },
+      { date: '2024-01-03', close: 50 }
+    ])
+    expect(buildStandInPrices([], [], days, null)).toEqual([])
+  })
+})
+
+describe('placeMarkers', () => {
+  const bars = [{ date: '2024-01-02', close: 100 }, { date: '2024-01-04', close: 105 }]
+  const base = { quantity: 1, total_amount: 0, account_id: 'a1' }
+
+  it('should place trades at their price and dividends at the close', () => {
+    const markers = placeMarkers(bars, [
+      { ...base, id: 't1', date: '2024-01-02', type: 'BUY', price: 98 },
+      { ...base, id: 't2', date: '2024-01-03', type: 'DIVIDEND', price: 0 },
+      { ...base, id: 't3', date: '2024-01-01', type: 'DIVIDEND', price: 0 }
+    ])
+    expect(markers.map(m => m.chart_price)).toEqual([98, 100, null])
+  })
+})
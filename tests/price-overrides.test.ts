@@ -0,0 +1,47 @@
+/**
+ * Price Override Unit Tests
+ *
+ * PRD 요구사항 테스트:
+ * - 비상장·조회 불가 종목 수동 시세 (평가일, 메모, 만료일)
+ * - 만료된 수동 시세는 자동 시세로 복귀
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+
+vi.mock('../src/main/database', () => ({
+  getDatabase: () => ({
+    prepare: () => ({
+      run: vi.fn(),
+      get: vi.fn(),
+      all: vi.fn()
+    })
+  }),
+  getSetting: () => null,
+  setSetting: vi.fn()
+}))
+
+import { validateOverride, isOverrideActive } from '../src/main/price-overrides'
+
+describe('validateOverride', () => {
+  const input = { stock_code: 'HSBC', price: 9.8, currency: 'USD', valuation_date: '2024-01-05' }
+
+  it('should accept a price with an optional expiry', () => {
+    expect(() => validateOverride(input)).not.toThrow()
+    expect(() => validateOverride({ ...input, expires_at: '2024-03-31', note: '브로커 평가가' })).not.toThrow()
+  })
+
+  it('should reject invalid prices and dates', () => {
+    expect(() => validateOverride({ ...input, price: 0 })).toThrow('0보다')
+    expect(() => validateOverride({ ...input, stock_code: ' ' })).toThrow('종목코드')
+    expect(() => validateOverride({ ...input, valuation_date: '2024/01/05' })).toThrow('평가일')
+    expect(() => validateOverride({ ...input, expires_at: '2024-01-01' })).toThrow('만료일은 평가일 이후')
+  })
+})
+
+describe('isOverrideActive', () => {
+  it('should stay active through the expiry date', () => {
+    expect(isOverrideActive({ expires_at: null }, '2030-01-01')).toBe(true)
+    expect(isOverrideActive({ expires_at: '2024-03-31' }, '2024-03-31')).toBe(true)
+    expect(isOverrideActive({ expires_at: '2024-03-31' }, '2024-04-01')).toBe(false)
+  })
+})
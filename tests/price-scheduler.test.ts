@@ -0,0 +1,111 @@
+/**
+ * Price Scheduler Unit Tests
+ *
+ * PRD 요구사항 테스트:
+ * - 한국/미국 장 시간에 맞춘 시세 자동 갱신 (서머타임 포함)
+ * - 주말·휴장일 건너뛰기
+ * - 하루 호출 예산을 거래소별로 분배
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+
+vi.mock('../src/main/database', () => ({
+  getDatabase: () => ({
+    prepare: () => ({
+      run: vi.fn(),
+      get: vi.fn(),
+      all: vi.fn()
+    })
+  }),
+  getSetting: () => null,
+  setSetting: vi.fn()
+}))
+
+vi.mock('../src/main/market-data-api', () => ({
+  holdingMarket: vi.fn(),
+  updateAllHoldingPrices: vi.fn()
+}))
+
+vi.mock('../src/main/portfolio-snapshots', () => ({
+  recordPortfolioSnapshot: vi.fn()
+}))
+
+import {
+  EXCHANGES,
+  zonedParts,
+  zonedTimeToInstant,
+  isTradingDay,
+  sessionSlots,
+  latestDueSlot,
+  nextSlot,
+  isSessionOpen,
+  allocateRuns
+} from '../src/main/price-scheduler'
+
+const none = new Set<string>()
+
+describe('zonedParts / zonedTimeToInstant', () => {
+  it('should convert between local market time and UTC', () => {
+    expect(zonedParts(new Date('2025-01-02T15:00:00Z'), 'Asia/Seoul')).toEqual({ date: '2025-01-03', minutes: 0, weekday: 5 })
+    expect(zonedTimeToInstant('2025-01-02', 9 * 60, 'Asia/Seoul').toISOString()).toBe('2025-01-02T00:00:00.000Z')
+  })
+
+  it('should follow daylight saving time in New York', () => {
+    expect(zonedTimeToInstant('2025-03-07', 9 * 60 + 30, 'America/New_York').toISOString()).toBe('2025-03-07T14:30:00.000Z')
+    expect(zonedTimeToInstant('2025-03-10', 9 * 60 + 30, 'America/New_York').toISOString()).toBe('2025-03-10T13:30:00.000Z')
+  })
+})
+
+describe('isTradingDay', () => {
+  it('should skip weekends and holidays', () => {
+    expect(isTradingDay('2025-01-03', none)).toBe(true)
+    expect(isTradingDay('2025-01-04', none)).toBe(false)
+    expect(isTradingDay('2025-01-01', new Set(['2025-01-01']))).toBe(false)
+  })
+})
+
+describe('sessionSlots', () => {
+  it('should split the session and always refresh after the close', () => {
+    expect(sessionSlots(540, 930, 1)).toEqual([940])
+    expect(sessionSlots(540, 930, 2)).toEqual([735, 940])
+    expect(sessionSlots(540, 930, 3)).toEqual([670, 800, 940])
+  })
+})
+
+describe('latestDueSlot / nextSlot', () => {
+  const krx = EXCHANGES.KRX
+  const nyse = EXCHANGES.NYSE
+
+  it('should return the latest slot that has passed today', () => {
+    // KST 12:20 → 장중 슬롯 12:15
+    expect(latestDueSlot(krx, none, 2, new Date('2025-01-02T03:20:00Z'))?.toISOString()).toBe('2025-01-02T03:15:00.000Z')
+  })
+
+  it('should fall back past holidays and weekends', () => {
+    // KST 12:00 (슬롯 전) → 1/1 휴장 → 12/31 장마감 후 슬롯
+    const holidays = new Set(['2025-01-01'])
+    expect(latestDueSlot(krx, holidays, 2, new Date('2025-01-02T03:00:00Z'))?.toISOString()).toBe('2024-12-31T06:40:00.000Z')
+    // 토요일 → 금요일 장마감 후
+    expect(latestDueSlot(krx, none, 2, new Date('2025-01-04T03:00:00Z'))?.toISOString()).toBe('2025-01-03T06:40:00.000Z')
+  })
+
+  it('should schedule New York sessions in New York time', () => {
+    expect(latestDueSlot(nyse, none, 1, new Date('2025-01-03T21:30:00Z'))?.toISOString()).toBe('2025-01-03T21:10:00.000Z')
+    expect(nextSlot(nyse, none, 1, new Date('2025-01-03T21:30:00Z'))?.toISOString()).toBe('2025-01-06T21:10:00.000Z')
+  })
+
+  it('should report whether the session is open', () => {
+    expect(isSessionOpen(krx, none, new Date('2025-01-02T03:00:00Z'))).toBe(true)
+    expect(isSessionOpen(krx, none, new Date('2025-01-02T07:00:00Z'))).toBe(false)
+    expect(isSessionOpen(krx, new Set(['2025-01-02']), new Date('2025-01-02T03:00:00Z'))).toBe(false)
+  })
+})
+
+describe('allocateRuns', () => {
+  it('should split the daily budget across active exchanges', () => {
+    expect(allocateRuns(4, 2)).toBe(2)
+    expect(allocateRuns(4, 1)).toBe(4)
+    expect(allocateRuns(1, 2)).toBe(1)
+    expect(allocateRuns(4, 0)).toBe(0)
+  })
+})
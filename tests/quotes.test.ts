@@ -0,0 +1,57 @@
+/**
+ * Quotes Unit Tests
+ *
+ * PRD 요구사항 테스트:
+ * - 종목별 최신 시세를 한 번만 저장 (가족 전체 공유)
+ * - 시세 출처·기준 시각 보관
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+
+vi.mock('../src/main/database', () => ({
+  getDatabase: () => ({
+    prepare: () => ({
+      run: vi.fn(),
+      get: vi.fn(),
+      all: vi.fn()
+    })
+  }),
+  getSetting: () => null,
+  setSetting: vi.fn()
+}))
+
+import { quoteFromResult } from '../src/main/quotes'
+
+describe('quoteFromResult', () => {
+  const result = {
+    success: true,
+    stockCode: '005930',
+    currentPrice: 71000,
+    prevClose: 70000,
+    currency: 'KRW',
+    provider: 'naver',
+    timestamp: '2024-01-05T06:40:00Z'
+  }
+
+  it('should keep the provider and as-of time', () => {
+    expect(quoteFromResult(result)).toEqual({
+      instrument_code: '005930',
+      price: 71000,
+      prev_close: 70000,
+      currency: 'KRW',
+      source: 'naver',
+      as_of: '2024-01-05T06:40:00Z'
+    })
+  })
+
+  it('should derive the previous close from the change', () => {
+    const quote = quoteFromResult({ ...result, prevClose: undefined, change: 500, provider: undefined })
+    expect(quote).toMatchObject({ prev_close: 70500, source: 'API' })
+    expect(quoteFromResult({ ...result, prevClose: undefined })?.prev_close).toBe(71000)
+  })
+
+  it('should skip failed quotes', () => {
+    expect(quoteFromResult({ ...result, success: false })).toBeNull()
+    expect(quoteFromResult({ ...result, currentPrice: 0 })).toBeNull()
+  })
+})
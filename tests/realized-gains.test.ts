@@ -0,0 +1,181 @@
+/**
+ * Realized Gain/Loss Unit Tests
+ *
+ * PRD 요구사항 테스트:
+ * - 연도별 / 계좌별 / 계좌유형별 / 종목별 실현손익
+ * - 보유기간 및 수수료 반영
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+
+const { mockAll } = vi.hoisted(() => ({ mockAll: vi.fn() }))
+
+vi.mock('../src/main/database', () => ({
+  getDatabase: () => ({
+    prepare: () => ({
+      run: vi.fn(),
+      get: vi.fn(),
+      all: mockAll
+    })
+  }),
+  getSetting: () => null
+}))
+
+vi.mock('../src/main/market-data-api', () => ({
+  fetchExchangeRate: vi.fn()
+}))
+
+import {
+  RealizedMatchRecord,
+  holdingDays,
+  toRealizedGainRow,
+  summarizeRealizedGains,
+  getRealizedGains
+} from '../src/main/realized-gains'
+import { fetchExchangeRate } from '../src/main/market-data-api'
+
+function record(overrides: Partial<RealizedMatchRecord>): RealizedMatchRecord {
+  return {
+    id: 'm1',
+    sell_transaction_id: 's1',
+    lot_id: 'b1',
+    account_id: 'acc-1',
+    brokerage: 'KOREA_INV',
+    account_type: 'GENERAL',
+    account_alias: null,
+    stock_code: '005930',
+    stock_name: '삼성전자',
+    currency: 'KRW',
+    quantity: 10,
+    proceeds: 900000,
+    cost_basis: 700000,
+    fees: 1000,
+    buy_fx_rate: null,
+    sell_fx_rate: null,
+    acquired_date: '2024-01-02',
+    sold_date: '2024-03-02',
+    method: 'FIFO',
+    ...overrides
+  }
+}
+
+describe('holdingDays', () => {
+  it('should count calendar days between buy and sell', () => {
+    expect(holdingDays('2024-01-02', '2024-03-02')).toBe(60)
+    expect(holdingDays('2024-01-02', '2024-01-02')).toBe(0)
+  })
+})
+
+describe('toRealizedGainRow', () => {
+  it('should not subtract fees twice (already in proceeds and cost basis)', () => {
+    const row = toRealizedGainRow(record({}))
+    expect(row.gain).toBe(200000)
+    expect(row.gain_krw).toBe(200000)
+    expect(row.fees_krw).toBe(1000)
+    expect(row.holding_days).toBe(60)
+    expect(row.fx_estimated).toBe(false)
+  })
+
+  it('should convert foreign gains with buy-date and sell-date rates', () => {
+    const row = toRealizedGainRow(record({
+      currency: 'USD',
+      proceeds: 1200,
+      cost_basis: 1000,
+      fees: 0,
+      buy_fx_rate: 1300,
+      sell_fx_rate: 1400
+    }))
+
+    expect(row.gain).toBe(200)
+    expect(row.cost_basis_krw).toBe(1300000)
+    expect(row.proceeds_krw).toBe(1680000)
+    expect(row.gain_krw).toBe(380000)
+  })
+
+  it('should convert to the base currency with trade-date rates', () => {
+    // USD 기준: 매수일 1300, 매도일 1400 → 원 통화 금액 그대로
+    const usdRate = (date: string): number => (date === '2024-01-02' ? 1300 : 1400)
+    const row = toRealizedGainRow(record({
+      currency: 'USD', proceeds: 1200, cost_basis: 1000, fees: 0, buy_fx_rate: 1300, sell_fx_rate: 1400
+    }), 0, usdRate)
+    expect(row.cost_basis_base).toBeCloseTo(1000)
+    expect(row.proceeds_base).toBeCloseTo(1200)
+    expect(row.gain_base).toBeCloseTo(200)
+
+    // 원화 거래도 거래일 환율로 환산
+    const krw = toRealizedGainRow(record({}), 0, usdRate)
+    expect(krw.gain_base).toBeCloseTo(900000 / 1400 - 700000 / 1300)
+    expect(summarizeRealizedGains([row, krw]).totals.gain).toBeCloseTo(200 + krw.gain_base)
+  })
+
+  it('should flag rows without a base currency rate', () => {
+    const row = toRealizedGainRow(record({}), 0, () => 0)
+    expect(row.fx_estimated).toBe(true)
+    expect(row.gain_base).toBe(0)
+  })
+
+  it('should flag foreign rows without trade-date rates', () => {
+    const row = toRealizedGainRow(record({ currency: 'USD', proceeds: 110, cost_basis: 100, fees: 0 }), 1350)
+    expect(row.fx_estimated).toBe(true)
+    expect(row.gain_krw).toBeCloseTo(13500)
+  })
+})
+
+describe('summarizeRealizedGains', () => {
+  const rows = [
+    toRealizedGainRow(record({ id: 'm1', sold_date: '2024-03-02', quantity: 10 })),
+    toRealizedGainRow(record({
+      id: 'm2', account_id: 'acc-2', account_type: 'ISA', stock_code: '000660', stock_name: 'SK하이닉스',
+      quantity: 30, proceeds: 300000, cost_basis: 400000, fees: 0,
+      acquired_date: '2023-01-02', sold_date: '2023-01-12'
+    }))
+  ]
+
+  it('should total gains across matches', () => {
+    const summary = summarizeRealizedGains(rows)
+    expect(summary.totals.gain).toBe(100000)
+    expect(summary.totals.fees).toBe(1000)
+    expect(summary.totals.count).toBe(2)
+  })
+
+  it('should weight holding days by quantity', () => {
+    const summary = summarizeRealizedGains(rows)
+    // (60 * 10 + 10 * 30) / 40
+    expect(summary.totals.avg_holding_days).toBeCloseTo(22.5)
+  })
+
+  it('should group by year, account type and stock', () => {
+    const summary = summarizeRealizedGains(rows)
+    expect(summary.byYear.map(g => g.key)).toEqual(['2024', '2023'])
+    expect(summary.byAccountType.find(g => g.key === 'ISA')?.gain).toBe(-100000)
+    expect(summary.byStock[0].key).toBe('005930')
+    expect(summary.byAccount).toHaveLength(2)
+  })
+
+  it('should return zero totals without matches', () => {
+    const summary = summarizeRealizedGains([])
+    expect(summary.totals.gain).toBe(0)
+    expect(summary.byYear).toEqual([])
+  })
+})
+
+describe('getRealizedGains', () => {
+  it('should estimate missing trade-date rates with each currency\'s own rate', async () => {
+    mockAll.mockReturnValue([
+      record({ id: 'm1', stock_code: 'AAPL', currency: 'USD', proceeds: 100, cost_basis: 80, fees: 0 }),
+      record({ id: 'm2', stock_code: '7203', currency: 'JPY', proceeds: 10000, cost_basis: 8000, fees: 0 })
+    ])
+    vi.mocked(fetchExchangeRate).mockImplementation(async (from: string) => ({
+      success: true,
+      pair: `${from}/KRW`,
+      rate: from === 'USD' ? 1300 : 9,
+      timestamp: '2024-06-01T00:00:00Z'
+    }))
+
+    const { rows } = await getRealizedGains('user-1')
+
+    expect(rows.find(r => r.stock_code === 'AAPL')?.gain_krw).toBe(20 * 1300)
+    expect(rows.find(r => r.stock_code === '7203')?.gain_krw).toBe(2000 * 9)
+    expect(fetchExchangeRate).toHaveBeenCalledWith('JPY', 'KRW')
+  })
+})
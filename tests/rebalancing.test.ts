@@ -0,0 +1,155 @@
+/**
+ * Target Allocation & Rebalancing Unit Tests
+ *
+ * PRD 요구사항 테스트:
+ * - 자산군/지역/통화/종목별 목표 비중 및 현재 비중과의 차이
+ * - 목표 복귀를 위한 구체적인 매수·매도 계획
+ * - 계좌별 제약: 과세계좌 매도 없이 IRP/ISA 안에서 리밸런싱
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+
+vi.mock('../src/main/database', () => ({
+  getDatabase: () => ({
+    prepare: () => ({
+      run: vi.fn(),
+      get: vi.fn(),
+      all: vi.fn()
+    })
+  }),
+  getSetting: () => null,
+  setSetting: vi.fn()
+}))
+
+vi.mock('../src/main/market-data-api', () => ({
+  fetchExchangeRate: vi.fn()
+}))
+
+import {
+  assetClassOf,
+  regionOf,
+  effectiveRebalancePolicy,
+  validateTargets,
+  computeDrift,
+  planRebalance,
+  RebalanceAccount,
+  RebalancePosition
+} from '../src/main/rebalancing'
+
+describe('classification', () => {
+  it('should classify asset classes by name and ticker', () => {
+    expect(assetClassOf({ stock_code: '148070', stock_name: 'KOSEF 국고채10년', currency: 'KRW' })).toBe('BOND')
+    expect(assetClassOf({ stock_code: 'TLT', stock_name: 'iShares 20+ Year', currency: 'USD' })).toBe('BOND')
+    expect(assetClassOf({ stock_code: '411060', stock_name: 'ACE KRX금현물', currency: 'KRW' })).toBe('COMMODITY')
+    expect(assetClassOf({ stock_code: '005930', stock_name: '삼성전자', currency: 'KRW' })).toBe('EQUITY')
+  })
+
+  it('should treat Korean-listed overseas ETFs as their target region', () => {
+    expect(regionOf({ stock_code: '360750', stock_name: 'TIGER 미국S&P500', currency: 'KRW' })).toBe('US')
+    expect(regionOf({ stock_code: '005930', stock_name: '삼성전자', currency: 'KRW' })).toBe('KR')
+    expect(regionOf({ stock_code: 'AAPL', stock_name: 'Apple', currency: 'USD' })).toBe('US')
+  })
+})
+
+describe('effectiveRebalancePolicy', () => {
+  it('should allow sells only in tax-advantaged accounts by default', () => {
+    expect(effectiveRebalancePolicy('ISA', 'AUTO')).toBe('FULL')
+    expect(effectiveRebalancePolicy('IRP', null)).toBe('FULL')
+    expect(effectiveRebalancePolicy('GENERAL', 'AUTO')).toBe('BUY_ONLY')
+    expect(effectiveRebalancePolicy('GENERAL', 'FULL')).toBe('FULL')
+  })
+})
+
+describe('validateTargets', () => {
+  it('should require weights to add up to 100%', () => {
+    expect(() => validateTargets([{ key: 'EQUITY', weight: 60 }, { key: 'BOND', weight: 40 }])).not.toThrow()
+    expect(() => validateTargets([{ key: 'EQUITY', weight: 60 }])).toThrow('100%')
+  })
+
+  it('should reject duplicate keys and negative weights', () => {
+    expect(() => validateTargets([{ key: 'EQUITY', weight: 50 }, { key: 'EQUITY', weight: 50 }])).toThrow('중복')
+    expect(() => validateTargets([{ key: 'EQUITY', weight: 110 }, { key: 'BOND', weight: -10 }])).toThrow('비중')
+  })
+})
+
+describe('computeDrift', () => {
+  it('should compare current and target weights including untargeted keys', () => {
+    const drift = computeDrift(new Map([['EQUITY', 800], ['BOND', 150], ['REIT', 50]]), [
+      { key: 'EQUITY', weight: 60 },
+      { key: 'BOND', weight: 40 }
+    ])
+
+    const equity = drift.find(d => d.key === 'EQUITY')
+    expect(equity).toMatchObject({ current_weight: 80, target_weight: 60, drift: 20, delta: -200 })
+    expect(drift.find(d => d.key === 'REIT')).toMatchObject({ target_weight: 0, delta: -50 })
+    expect(drift[0].key).toBe('BOND')
+  })
+})
+
+describe('planRebalance', () => {
+  const equity = { stock_code: '005930', stock_name: '삼성전자', currency: 'KRW' }
+  const bond = { stock_code: '148070', stock_name: 'KOSEF 국고채10년', currency: 'KRW' }
+  const targets = [{ key: 'EQUITY', weight: 50 }, { key: 'BOND', weight: 50 }]
+
+  it('should sell overweight holdings and reinvest inside the same account', () => {
+    const accounts: RebalanceAccount[] = [{ id: 'isa', label: 'ISA', policy: 'FULL', cash: 0 }]
+    const positions: RebalancePosition[] = [
+      { ...equity, account_id: 'isa', quantity: 15, price: 100, price_base: 100 },
+      { ...bond, account_id: 'isa', quantity: 5, price: 100, price_base: 100 }
+    ]
+
+    const plan = planRebalance('ASSET_CLASS', accounts, positions, targets)
+
+    expect(plan.trades).toEqual([
+      expect.objectContaining({ action: 'SELL', account_id: 'isa', stock_code: '005930', quantity: 5, amount: 500 }),
+      expect.objectContaining({ action: 'BUY', account_id: 'isa', stock_code: '148070', quantity: 5, amount: 500 })
+    ])
+    expect(plan.unfunded).toBe(0)
+    expect(plan.blocked).toBe(0)
+  })
+
+  it('should not sell in buy-only accounts and report the blocked amount', () => {
+    const accounts: RebalanceAccount[] = [
+      { id: 'general', label: '일반', policy: 'BUY_ONLY', cash: 0 },
+      { id: 'isa', label: 'ISA', policy: 'FULL', cash: 0 }
+    ]
+    const positions: RebalancePosition[] = [
+      { ...equity, account_id: 'general', quantity: 10, price: 100, price_base: 100 },
+      { ...equity, account_id: 'isa', quantity: 2, price: 100, price_base: 100 },
+      { ...bond, account_id: 'isa', quantity: 4, price: 100, price_base: 100 }
+    ]
+
+    const plan = planRebalance('ASSET_CLASS', accounts, positions, targets)
+
+    // 주식 초과 400 중 ISA 보유분 200만 매도 가능
+    expect(plan.trades.filter(t => t.action === 'SELL')).toEqual([
+      expect.objectContaining({ account_id: 'isa', quantity: 2 })
+    ])
+    expect(plan.trades.some(t => t.account_id === 'general' && t.action === 'SELL')).toBe(false)
+    expect(plan.blocked).toBe(200)
+    expect(plan.unfunded).toBe(200)
+  })
+
+  it('should keep the cash target and flag buys without an existing holding', () => {
+    const accounts: RebalanceAccount[] = [{ id: 'isa', label: 'ISA', policy: 'FULL', cash: 1000 }]
+    const positions: RebalancePosition[] = [
+      { ...equity, account_id: 'isa', quantity: 10, price: 100, price_base: 100 }
+    ]
+
+    const plan = planRebalance('ASSET_CLASS', accounts, positions, [
+      { key: 'EQUITY', weight: 50 },
+      { key: 'BOND', weight: 40 },
+      { key: 'CASH', weight: 10 }
+    ])
+
+    expect(plan.trades).toEqual([
+      expect.objectContaining({ action: 'BUY', key: 'BOND', stock_code: null, amount: 800 })
+    ])
+  })
+
+  it('should plan nothing without targets', () => {
+    const plan = planRebalance('ASSET_CLASS', [{ id: 'isa', label: 'ISA', policy: 'FULL', cash: 100 }], [], [])
+    expect(plan.trades).toEqual([])
+    expect(plan.drift).toHaveLength(1)
+  })
+})
@@ -0,0 +1,96 @@
+/**
+ * Holdings Reconciliation DB Tests
+ *
+ * 실제 SQLite(in-memory)에서 대사·수용 검증:
+ * - 거래내역 없는 스냅샷 보유종목은 원장으로 간주
+ * - 증권사 값 수용은 조정 거래로 기록되어 원장 재생 후에도 유지
+ * - 기존 API 예수금은 마이그레이션 시 대사용 스냅샷으로 이관
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { mkdtempSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+
+vi.mock('electron', () => ({ app: { getPath: () => '' } }))
+
+import { sqliteAvailable, openTestDatabase, seedAccount, insertTrade } from './helpers/test-database'
+import { recordBrokerSnapshot, getReconciliationReport, acceptBrokerValue } from '../src/main/reconciliation'
+import { replayHolding, replayAccount } from '../src/main/ledger-replay'
+import { getCashBalances } from '../src/main/cash-ledger'
+import { initDatabase, closeDatabase, getDatabase } from '../src/main/database'
+import type Database from 'better-sqlite3'
+
+describe.skipIf(!sqliteAvailable)('reconciliation (SQLite)', () => {
+  let db: Database.Database
+
+  beforeEach(async () => {
+    db = await openTestDatabase()
+    seedAccount(db)
+  })
+
+  const snapshot = (quantity: number, avgCost: number) => recordBrokerSnapshot('acc-1', [
+    { stock_code: '005930', stock_name: '삼성전자', quantity, avg_cost: avgCost, currency: 'KRW' }
+  ], 'API', true)
+  const status = () => getReconciliationReport('acc-1').items[0]?.status
+  const holding = () => db.prepare("SELECT quantity, avg_cost FROM holdings WHERE account_id = 'acc-1' AND stock_code = '005930'")
+    .get() as { quantity: number; avg_cost: number } | undefined
+
+  it('should treat snapshot-only holdings as ledger-backed', () => {
+    db.prepare(`
+      INSERT INTO holdings (id, account_id, stock_code, stock_name, quantity, avg_cost, current_price, currency, last_synced)
+      VALUES ('h1', 'acc-1', '005930', '삼성전자', 10, 70000, 80000, 'KRW', '2024-06-01 09:00:00')
+    `).run()
+    snapshot(10, 70000)
+    expect(status()).toBe('MATCHED')
+
+    // 수용 시 기초잔고로 편입 후 차이만 조정
+    snapshot(12, 71000)
+    expect(status()).toBe('QUANTITY_MISMATCH')
+    acceptBrokerValue('acc-1', '005930', '2024-07-01')
+    expect(db.prepare("SELECT source, quantity FROM transactions ORDER BY date").all())
+      .toEqual([{ source: 'OPENING', quantity: 10 }, { source: 'ADJUSTMENT', quantity: 2 }])
+    expect(status()).toBe('MATCHED')
+  })
+
+  it('should keep an accepted average cost through a ledger replay', () => {
+    insertTrade(db, { id: 'b1', type: 'BUY', date: '2024-01-02', quantity: 10, price: 70000 })
+    replayHolding('acc-1', '005930')
+    snapshot(8, 72000)
+
+    expect(acceptBrokerValue('acc-1', '005930', '2024-07-01').transactionIds).toHaveLength(2)
+    replayAccount('acc-1')
+
+    expect(holding()).toEqual({ quantity: 8, avg_cost: 72000 })
+    expect(status()).toBe('MATCHED')
+  })
+})
+
+describe.skipIf(!sqliteAvailable)('broker cash migration (SQLite)', () => {
+  it('should move legacy API cash balances out of the ledger', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'fam-db-'))
+    const dbPath = join(dir, 'test.db')
+    try {
+      closeDatabase()
+      await initDatabase(dbPath)
+      seedAccount(getDatabase())
+      // 이전 버전에서 증권사 예수금이 원장 예수금으로 저장된 상태
+      getDatabase().prepare(`
+        INSERT INTO cash_balances (account_id, currency, balance, as_of, source, updated_at)
+        VALUES ('acc-1', 'KRW', 1000000, '2024-06-01', 'API', '2024-06-01 15:00:00')
+      `).run()
+      insertTrade(getDatabase(), { id: 'd1', type: 'DEPOSIT', date: '2024-06-03', quantity: 1, price: 500000, stock_code: '', stock_name: '' })
+      closeDatabase()
+
+      await initDatabase(dbPath)
+
+      expect(getCashBalances('user-1', 'acc-1')).toEqual([expect.objectContaining({ currency: 'KRW', balance: 500000, source: 'LEDGER' })])
+      expect(getReconciliationReport('acc-1').cash).toEqual([
+        expect.objectContaining({ currency: 'KRW', broker_balance: 1000000, ledger_balance: 500000 })
+      ])
+    } finally {
+      closeDatabase()
+      rmSync(dir, { recursive: true, force: true })
+    }
+  })
+})
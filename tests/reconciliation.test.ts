@@ -0,0 +1,131 @@
+/**
+ * Holdings Reconciliation Unit Tests
+ *
+ * PRD 요구사항 테스트:
+ * - 증권사 잔고(API/엑셀)와 거래내역 원장의 수량/평균단가 불일치 보고
+ * - 조정 거래 또는 증권사 값 수용으로 불일치 해소
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+
+vi.mock('../src/main/database', () => ({
+  getDatabase: () => ({
+    prepare: () => ({
+      run: vi.fn(),
+      get: vi.fn(),
+      all: vi.fn()
+    })
+  })
+}))
+
+vi.mock('../src/main/market-data-api', () => ({
+  fetchExchangeRate: vi.fn(),
+  FRANKFURTER_API: 'https://api.frankfurter.app'
+}))
+
+import { Position, reconcilePositions, buildAdjustment, buildAcceptance, reconcileCash } from '../src/main/reconciliation'
+
+function position(stockCode: string, quantity: number, avgCost: number): Position {
+  return { stock_code: stockCode, stock_name: stockCode, currency: 'KRW', quantity, avg_cost: avgCost }
+}
+
+describe('reconcilePositions', () => {
+  it('should mark identical positions as matched', () => {
+    const items = reconcilePositions([position('005930', 10, 70000)], [position('005930', 10, 70000)])
+    expect(items[0].status).toBe('MATCHED')
+  })
+
+  it('should tolerate broker rounding of the average cost', () => {
+    const items = reconcilePositions([position('005930', 10, 70001)], [position('005930', 10, 70000.4)])
+    expect(items[0].status).toBe('MATCHED')
+  })
+
+  it('should report quantity mismatches', () => {
+    const [item] = reconcilePositions([position('005930', 12, 71000)], [position('005930', 10, 70000)])
+    expect(item.status).toBe('QUANTITY_MISMATCH')
+    expect(item.quantity_diff).toBe(2)
+    expect(item.can_adjust).toBe(true)
+  })
+
+  it('should report average cost mismatches with equal quantity', () => {
+    const [item] = reconcilePositions([position('005930', 10, 72000)], [position('005930', 10, 70000)])
+    expect(item.status).toBe('AVG_COST_MISMATCH')
+    expect(item.avg_cost_diff).toBe(2000)
+    expect(item.can_adjust).toBe(false)
+  })
+
+  it('should report stocks missing from either side', () => {
+    const items = reconcilePositions([position('AAA', 5, 100)], [position('BBB', 3, 200)])
+    expect(items.find(i => i.stock_code === 'AAA')?.status).toBe('BROKER_ONLY')
+    expect(items.find(i => i.stock_code === 'BBB')?.status).toBe('LEDGER_ONLY')
+  })
+
+  it('should skip fully sold stocks on both sides', () => {
+    expect(reconcilePositions([], [position('005930', 0, 0)])).toHaveLength(0)
+  })
+
+  it('should list mismatches before matched items', () => {
+    const items = reconcilePositions(
+      [position('AAA', 5, 100), position('BBB', 5, 100)],
+      [position('AAA', 5, 100), position('BBB', 4, 100)]
+    )
+    expect(items.map(i => i.stock_code)).toEqual(['BBB', 'AAA'])
+  })
+})
+
+describe('buildAdjustment', () => {
+  it('should buy the shortfall at a price that reproduces the broker average cost', () => {
+    const [item] = reconcilePositions([position('005930', 20, 75000)], [position('005930', 10, 70000)])
+    const adjustment = buildAdjustment(item)
+
+    expect(adjustment).toEqual({ type: 'BUY', quantity: 10, price: 80000 })
+    // (10 × 70000 + 10 × 80000) / 20 = 75000
+  })
+
+  it('should sell the excess at the ledger average cost', () => {
+    const [item] = reconcilePositions([position('005930', 6, 70000)], [position('005930', 10, 70000)])
+    expect(buildAdjustment(item)).toEqual({ type: 'SELL', quantity: 4, price: 70000 })
+  })
+
+  it('should not adjust when only the average cost differs', () => {
+    const [item] = reconcilePositions([position('005930', 10, 72000)], [position('005930', 10, 70000)])
+    expect(buildAdjustment(item)).toBeNull()
+  })
+})
+
+describe('buildAcceptance', () => {
+  it('should reuse a single adjustment when it reproduces the broker values', () => {
+    const [item] = reconcilePositions([position('005930', 20, 75000)], [position('005930', 10, 70000)])
+    expect(buildAcceptance(item)).toEqual([{ type: 'BUY', quantity: 10, price: 80000 }])
+  })
+
+  it('should reset the position when the average cost cannot be reached by one trade', () => {
+    const [item] = reconcilePositions([position('005930', 10, 72000)], [position('005930', 10, 70000)])
+    expect(buildAcceptance(item)).toEqual([
+      { type: 'SELL', quantity: 10, price: 70000 },
+      { type: 'BUY', quantity: 10, price: 72000 }
+    ])
+  })
+
+  it('should have nothing to accept for matched items', () => {
+    const [item] = reconcilePositions([position('005930', 10, 70000)], [position('005930', 10, 70000)])
+    expect(buildAcceptance(item)).toEqual([])
+  })
+})
+
+describe('reconcileCash', () => {
+  const broker = (currency: string, balance: number) => ({ currency, balance, source: 'API' as const, captured_at: '2024-06-01 09:00:00' })
+  const ledger = (currency: string, balance: number) => ({
+    account_id: 'acc-1', currency, balance, reported_balance: null, as_of: null, source: 'LEDGER' as const
+  })
+
+  it('should compare the broker cash with the ledger balance', () => {
+    const [krw, usd] = reconcileCash([broker('KRW', 1000000), broker('USD', 500)], [ledger('KRW', 1000000), ledger('USD', 450)])
+    expect(krw).toMatchObject({ ledger_balance: 1000000, diff: 0, matched: true })
+    expect(usd).toMatchObject({ ledger_balance: 450, diff: 50, matched: false })
+  })
+
+  it('should not flag currencies the ledger does not track', () => {
+    expect(reconcileCash([broker('KRW', 1000000)], [])[0]).toMatchObject({ ledger_balance: null, diff: 0, matched: true })
+  })
+})
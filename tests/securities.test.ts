@@ -0,0 +1,117 @@
+/**
+ * Securities Master Unit Tests
+ *
+ * PRD 요구사항 테스트:
+ * - 종목 마스터(코드, 한/영 이름, 시세 심볼, 시장, 유형, 통화)와 별칭
+ * - 가져오기·시세 조회 시 하드코딩 맵 대신 마스터로 종목 해석
+ * - 한국 기업 영문명/한국 ETF를 해외 종목으로 오인하지 않음
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+
+vi.mock('../src/main/database', () => ({
+  getDatabase: () => ({
+    prepare: () => ({
+      run: vi.fn(),
+      get: vi.fn(),
+      all: vi.fn()
+    })
+  }),
+  getSetting: () => null,
+  setSetting: vi.fn()
+}))
+
+import {
+  Security,
+  buildSeedSecurities,
+  buildSecurityIndex,
+  resolveSecurity,
+  guessOverseasTicker,
+  isKoreanEtfName,
+  toYahooSymbol
+} from '../src/main/securities'
+
+const security = (overrides: Partial<Security> & { code: string }): Security => ({
+  name_ko: null,
+  name_en: null,
+  yahoo_symbol: null,
+  naver_symbol: null,
+  market: 'KR',
+  exchange: null,
+  asset_type: 'STOCK',
+  sector: null,
+  currency: 'KRW',
+  quote_enabled: 1,
+  source: 'USER',
+  ...overrides
+})
+
+describe('buildSeedSecurities', () => {
+  const { securities, aliases } = buildSeedSecurities()
+  const byCode = new Map(securities.map(s => [s.code, s]))
+
+  it('should seed overseas stocks with Yahoo symbols and Korean aliases', () => {
+    expect(byCode.get('AAPL')).toMatchObject({ market: 'US', currency: 'USD', source: 'SEED', yahoo_symbol: 'AAPL' })
+    expect(byCode.get('BRK.B')?.yahoo_symbol).toBe('BRK-B')
+    expect(aliases.some(a => a.alias === '애플' && a.code === 'AAPL')).toBe(true)
+  })
+
+  it('should disable quotes for securities without a working feed', () => {
+    expect(byCode.get('HSBC')?.quote_enabled).toBe(0)
+    expect(aliases.some(a => a.alias === 'HSBC.L' && a.code === 'HSBC')).toBe(true)
+  })
+})
+
+describe('resolveSecurity', () => {
+  const index = buildSecurityIndex(
+    [
+      security({ code: '005930', name_ko: '삼성전자', naver_symbol: '005930', yahoo_symbol: '005930.KS' }),
+      security({ code: 'VOO', name_en: 'Vanguard S&P 500 ETF', market: 'US', currency: 'USD', asset_type: 'ETF' }),
+      security({ code: 'TSLA', name_ko: '테슬라', market: 'US', currency: 'USD' })
+    ],
+    [{ alias_key: 'SAMSUNGELEC', alias: 'Samsung Elec', code: '005930' }]
+  )
+
+  it('should resolve by code, quote symbol and alias', () => {
+    expect(resolveSecurity(index, { code: 'voo' })?.code).toBe('VOO')
+    expect(resolveSecurity(index, { code: '005930.KS' })?.code).toBe('005930')
+    expect(resolveSecurity(index, { name: 'Samsung Elec' })?.code).toBe('005930')
+  })
+
+  it('should match names ignoring spacing and partially', () => {
+    expect(resolveSecurity(index, { name: 'Vanguard S&P500 ETF' })?.code).toBe('VOO')
+    expect(resolveSecurity(index, { name: '테슬라 (TSLA)' })?.code).toBe('TSLA')
+  })
+
+  it('should not partially match Korean ETFs or Korean companies with English names', () => {
+    expect(resolveSecurity(index, { name: 'TIGER 미국테슬라밸류체인' })).toBeNull()
+    expect(resolveSecurity(index, { name: 'SAMSUNG ELECTRONICS PFD' })).toBeNull()
+    expect(resolveSecurity(index, { code: '', name: '' })).toBeNull()
+  })
+})
+
+describe('guessOverseasTicker', () => {
+  it('should extract tickers from unknown overseas names', () => {
+    expect(guessOverseasTicker('NVDY')).toEqual({ isOverseas: true, ticker: 'NVDY' })
+    expect(guessOverseasTicker('AAPL 애플')).toEqual({ isOverseas: true, ticker: 'AAPL' })
+    expect(guessOverseasTicker('YieldMax TSLY Option Income')).toEqual({ isOverseas: true, ticker: 'TSLY' })
+  })
+
+  it('should keep Korean names domestic', () => {
+    expect(guessOverseasTicker('GS')).toEqual({ isOverseas: false, ticker: '' })
+    expect(guessOverseasTicker('현대차')).toEqual({ isOverseas: false, ticker: '' })
+  })
+})
+
+describe('helpers', () => {
+  it('should detect Korean ETF brands case-insensitively', () => {
+    expect(isKoreanEtfName('KODEX 200')).toBe(true)
+    expect(isKoreanEtfName('KoAct 배당성장')).toBe(true)
+    expect(isKoreanEtfName('삼성전자')).toBe(false)
+  })
+
+  it('should convert class shares to Yahoo notation', () => {
+    expect(toYahooSymbol('BRK.B')).toBe('BRK-B')
+    expect(toYahooSymbol('005930.KS')).toBe('005930.KS')
+  })
+})
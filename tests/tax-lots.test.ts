@@ -0,0 +1,170 @@
+/**
+ * Tax Lot Ledger Unit Tests
+ *
+ * PRD 요구사항 테스트:
+ * - 매수/매도 매칭 방식: FIFO vs 이동평균 vs 수동지정 (계좌별 설정)
+ * - 매도 후에도 매수 lot과 원가 보존
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+
+vi.mock('../src/main/database', () => ({
+  getDatabase: () => ({
+    prepare: () => ({
+      run: vi.fn(),
+      get: vi.fn(),
+      all: vi.fn()
+    })
+  })
+}))
+
+import {
+  LedgerTransaction,
+  buildTaxLots,
+  matchSell,
+  sortLedger,
+  summarizeOpenLots
+} from '../src/main/tax-lots'
+
+function tx(id: string, type: 'BUY' | 'SELL', date: string, quantity: number, price: number): LedgerTransaction {
+  return {
+    id,
+    account_id: 'acc-1',
+    stock_code: '005930',
+    stock_name: '삼성전자',
+    type,
+    quantity,
+    price,
+    total_amount: quantity * price,
+    currency: 'KRW',
+    date,
+    fx_rate: null
+  }
+}
+
+const LEDGER = [
+  tx('b1', 'BUY', '2024-01-02', 10, 70000),
+  tx('b2', 'BUY', '2024-02-01', 10, 80000),
+  tx('s1', 'SELL', '2024-03-01', 15, 90000)
+]
+
+describe('sortLedger', () => {
+  it('should order by date, then created_at, then id', () => {
+    const sorted = sortLedger([
+      { id: 'b', date: '2024-01-02', created_at: '2024-01-02 10:00:00' },
+      { id: 'a', date: '2024-01-02', created_at: '2024-01-02 10:00:00' },
+      { id: 'c', date: '2024-01-01', created_at: '2024-01-05 10:00:00' }
+    ])
+    expect(sorted.map(t => t.id)).toEqual(['c', 'a', 'b'])
+  })
+})
+
+describe('FIFO matching', () => {
+  it('should consume the oldest lot first', () => {
+    const result = buildTaxLots(LEDGER, 'FIFO')
+
+    expect(result.matches).toHaveLength(2)
+    expect(result.matches[0]).toMatchObject({ lot_id: 'b1', quantity: 10, cost_basis: 700000, proceeds: 900000 })
+    expect(result.matches[1]).toMatchObject({ lot_id: 'b2', quantity: 5, cost_basis: 400000, proceeds: 450000 })
+    expect(result.lots.find(l => l.id === 'b1')?.remaining_quantity).toBe(0)
+    expect(result.lots.find(l => l.id === 'b2')?.remaining_quantity).toBe(5)
+  })
+
+  it('should leave the remaining lots at their own cost', () => {
+    const result = buildTaxLots(LEDGER, 'FIFO')
+    expect(summarizeOpenLots(result.lots)).toEqual({ quantity: 5, avgCost: 80000 })
+  })
+})
+
+describe('Moving average matching', () => {
+  it('should use the average cost and reduce lots pro rata', () => {
+    const result = buildTaxLots(LEDGER, 'AVERAGE')
+    const totalCost = result.matches.reduce((sum, m) => sum + m.cost_basis, 0)
+
+    expect(totalCost).toBeCloseTo(15 * 75000)
+    expect(result.lots.find(l => l.id === 'b1')?.remaining_quantity).toBeCloseTo(2.5)
+    expect(result.lots.find(l => l.id === 'b2')?.remaining_quantity).toBeCloseTo(2.5)
+  })
+
+  it('should keep the average cost unchanged after a sell', () => {
+    const result = buildTaxLots(LEDGER, 'AVERAGE')
+    const open = summarizeOpenLots(result.lots)
+    expect(open.quantity).toBeCloseTo(5)
+    expect(open.avgCost).toBeCloseTo(75000)
+  })
+})
+
+describe('Specific lot matching', () => {
+  it('should consume the selected lots first', () => {
+    const selections = new Map([['s1', [{ lot_id: 'b2', quantity: 10 }]]])
+    const result = buildTaxLots(LEDGER, 'SPECIFIC', selections)
+
+    expect(result.matches[0]).toMatchObject({ lot_id: 'b2', quantity: 10, cost_basis: 800000 })
+    // 나머지 5주는 FIFO
+    expect(result.matches[1]).toMatchObject({ lot_id: 'b1', quantity: 5, cost_basis: 350000 })
+    expect(summarizeOpenLots(result.lots)).toEqual({ quantity: 5, avgCost: 70000 })
+  })
+
+  it('should cap a selection at the lot remaining quantity', () => {
+    const lots = buildTaxLots(LEDGER.slice(0, 2), 'SPECIFIC').lots
+    const { allocations, unmatched } = matchSell(lots, 12, 'SPECIFIC', [{ lot_id: 'b1', quantity: 20 }])
+
+    expect(allocations.find(a => a.lot_id === 'b1')?.quantity).toBe(10)
+    expect(allocations.find(a => a.lot_id === 'b2')?.quantity).toBe(2)
+    expect(unmatched).toBe(0)
+  })
+})
+
+describe('Fees', () => {
+  it('should allocate buy and sell fees to matches by quantity', () => {
+    const result = buildTaxLots([
+      { ...tx('b1', 'BUY', '2024-01-02', 10, 1000), fee: 100 },
+      { ...tx('s1', 'SELL', '2024-01-03', 5, 1200), fee: 30 }
+    ], 'FIFO')
+
+    expect(result.matches[0].fees).toBe(80)
+    expect(result.lots[0].fee).toBe(100)
+  })
+
+  it('should include buy fees and taxes in the lot unit cost', () => {
+    const result = buildTaxLots([
+      { ...tx('b1', 'BUY', '2024-01-02', 10, 1000), fee: 80, tax: 20 }
+    ], 'AVERAGE')
+
+    expect(result.lots[0].unit_cost).toBe(1010)
+    expect(summarizeOpenLots(result.lots).avgCost).toBe(1010)
+  })
+
+  it('should deduct sell fees and taxes from the proceeds', () => {
+    const result = buildTaxLots([
+      { ...tx('b1', 'BUY', '2024-01-02', 10, 1000), fee: 100 },
+      { ...tx('s1', 'SELL', '2024-01-03', 10, 1200), fee: 30, tax: 270 }
+    ], 'FIFO')
+
+    expect(result.matches[0].cost_basis).toBe(10100)
+    expect(result.matches[0].proceeds).toBe(11700)
+    expect(result.matches[0].fees).toBe(400)
+  })
+})
+
+describe('Unmatched sells', () => {
+  it('should report sell quantity exceeding open lots', () => {
+    const result = buildTaxLots([
+      tx('b1', 'BUY', '2024-01-02', 5, 1000),
+      tx('s1', 'SELL', '2024-01-03', 8, 1200)
+    ], 'FIFO')
+
+    expect(result.unmatchedQuantity).toBe(3)
+    expect(result.matches[0].quantity).toBe(5)
+  })
+
+  it('should not match a sell dated before any buy', () => {
+    const result = buildTaxLots([
+      tx('s1', 'SELL', '2024-01-01', 5, 1200),
+      tx('b1', 'BUY', '2024-01-02', 5, 1000)
+    ], 'FIFO')
+
+    expect(result.unmatchedQuantity).toBe(5)
+    expect(result.lots[0].remaining_quantity).toBe(5)
+  })
+})
@@ -0,0 +1,83 @@
+/**
+ * Trading Costs Unit Tests
+ *
+ * PRD 요구사항 테스트:
+ * - 증권사 API 일자·종목별 수수료/세금의 체결 건별 배분
+ * - 증권사별 연간 수수료/세금 집계 (원화 기준)
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+
+vi.mock('../src/main/database', () => ({
+  getDatabase: () => ({
+    prepare: () => ({
+      run: vi.fn(),
+      get: vi.fn(),
+      all: vi.fn()
+    })
+  })
+}))
+
+vi.mock('../src/main/market-data-api', () => ({
+  fetchExchangeRate: vi.fn()
+}))
+
+import { CostedTrade, allocateTradeCosts, summarizeFees } from '../src/main/trading-costs'
+
+describe('allocateTradeCosts', () => {
+  const trades: CostedTrade[] = [
+    { date: '2024-05-02', stock_code: '005930', type: 'BUY', total_amount: 300000 },
+    { date: '2024-05-02', stock_code: '005930', type: 'SELL', total_amount: 100000 },
+    { date: '2024-05-02', stock_code: '005930', type: 'SELL', total_amount: 300000 },
+    { date: '2024-05-03', stock_code: '005930', type: 'BUY', total_amount: 500000 }
+  ]
+
+  it('should split fees by amount and charge taxes to sells only', () => {
+    const allocations = allocateTradeCosts(trades, [
+      { date: '2024-05-02', stock_code: '005930', fee: 70, tax: 800 }
+    ])
+
+    expect(allocations.map(a => a.fee)).toEqual([30, 10, 30, 0])
+    expect(allocations.map(a => a.tax)).toEqual([0, 200, 600, 0])
+  })
+
+  it('should preserve the daily total when rounding', () => {
+    const allocations = allocateTradeCosts(trades.slice(0, 3), [
+      { date: '2024-05-02', stock_code: '005930', fee: 100, tax: 0 }
+    ])
+
+    expect(allocations.reduce((sum, a) => sum + a.fee, 0)).toBe(100)
+  })
+
+  it('should ignore costs without a matching trade', () => {
+    const allocations = allocateTradeCosts(trades, [
+      { date: '2024-05-10', stock_code: '005930', fee: 50, tax: 10 }
+    ])
+
+    expect(allocations.every(a => a.fee === 0 && a.tax === 0)).toBe(true)
+  })
+})
+
+describe('summarizeFees', () => {
+  it('should total fees and taxes per brokerage per year in KRW', () => {
+    const rows = summarizeFees([
+      { brokerage: 'KIWOOM', date: '2024-03-01', currency: 'KRW', fee: 150, tax: 0, fx_rate: null },
+      { brokerage: 'KIWOOM', date: '2024-09-01', currency: 'KRW', fee: 100, tax: 2000, fx_rate: null },
+      { brokerage: 'KIWOOM', date: '2023-09-01', currency: 'KRW', fee: 80, tax: 0, fx_rate: null },
+      { brokerage: 'TOSS', date: '2024-06-01', currency: 'USD', fee: 1, tax: 0.5, fx_rate: 1300 }
+    ], 1400)
+
+    expect(rows.map(r => `${r.year}|${r.brokerage}`)).toEqual(['2024|KIWOOM', '2024|TOSS', '2023|KIWOOM'])
+    expect(rows[0]).toMatchObject({ fee_krw: 250, tax_krw: 2000, total_krw: 2250, count: 2 })
+    expect(rows[1]).toMatchObject({ fee_krw: 1300, tax_krw: 650, total_krw: 1950, fx_estimated: false })
+  })
+
+  it('should use the current rate when the trade date rate is missing', () => {
+    const [row] = summarizeFees([
+      { brokerage: 'TOSS', date: '2024-06-01', currency: 'USD', fee: 2, tax: 0, fx_rate: null }
+    ], 1400)
+
+    expect(row.fee_krw).toBe(2800)
+    expect(row.fx_estimated).toBe(true)
+  })
+})
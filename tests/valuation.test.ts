@@ -0,0 +1,188 @@
+/**
+ * Base-currency Valuation Unit Tests
+ *
+ * PRD 요구사항 테스트:
+ * - F-2.8: 기준통화(기본 KRW) 환산 합산
+ * - 통화별 소계 및 적용 환율/기준시각 표시
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+const settings = new Map<string, string>()
+const mockFetchExchangeRate = vi.fn()
+const mockGetFxRateOnDate = vi.fn()
+
+vi.mock('../src/main/database', () => ({
+  getSetting: (key: string) => settings.get(key) ?? null,
+  setSetting: (key: string, value: string) => { settings.set(key, value) }
+}))
+
+vi.mock('../src/main/market-data-api', () => ({
+  fetchExchangeRate: (...args: unknown[]) => mockFetchExchangeRate(...args)
+}))
+
+vi.mock('../src/main/fx-history', () => ({
+  getFxRateOnDate: (...args: unknown[]) => mockGetFxRateOnDate(...args)
+}))
+
+import {
+  FxTable,
+  getBaseCurrency,
+  setBaseCurrency,
+  loadFxTable,
+  toBaseCurrency,
+  summarizeByCurrency,
+  aggregateInBaseCurrency,
+  sumInBaseCurrency,
+  describeFxRates,
+  findUnconvertible
+} from '../src/main/valuation'
+
+const KRW_FX: FxTable = {
+  baseCurrency: 'KRW',
+  quotes: {
+    KRW: { currency: 'KRW', pair: 'KRW/KRW', rate: 1, timestamp: null, source: 'BASE' },
+    USD: { currency: 'USD', pair: 'USD/KRW', rate: 1400, timestamp: '2025-01-15T10:00:00Z', source: 'LIVE' }
+  }
+}
+
+beforeEach(() => {
+  settings.clear()
+  mockFetchExchangeRate.mockReset()
+  mockGetFxRateOnDate.mockReset()
+  mockGetFxRateOnDate.mockReturnValue(null)
+})
+
+describe('Base Currency Setting', () => {
+  it('should default to KRW', () => {
+    expect(getBaseCurrency()).toBe('KRW')
+  })
+
+  it('should persist a supported base currency', () => {
+    expect(setBaseCurrency('usd')).toBe('USD')
+    expect(getBaseCurrency()).toBe('USD')
+  })
+
+  it('should reject unsupported currencies', () => {
+    expect(() => setBaseCurrency('JPY')).toThrow()
+    expect(getBaseCurrency()).toBe('KRW')
+  })
+})
+
+describe('loadFxTable', () => {
+  it('should use identity rate for the base currency without fetching', async () => {
+    const fx = await loadFxTable(['KRW', 'KRW'], 'KRW')
+    expect(fx.quotes.KRW.rate).toBe(1)
+    expect(mockFetchExchangeRate).not.toHaveBeenCalled()
+  })
+
+  it('should fetch foreign currency rates once per currency', async () => {
+    mockFetchExchangeRate.mockResolvedValue({ success: true, pair: 'USD/KRW', rate: 1400, timestamp: '2025-01-15T10:00:00Z' })
+    const fx = await loadFxTable(['USD', 'KRW', 'usd'], 'KRW')
+    expect(mockFetchExchangeRate).toHaveBeenCalledTimes(1)
+    expect(mockFetchExchangeRate).toHaveBeenCalledWith('USD', 'KRW')
+    expect(fx.quotes.USD.rate).toBe(1400)
+    expect(fx.quotes.USD.source).toBe('LIVE')
+  })
+
+  it('should mark database fallback rates', async () => {
+    mockFetchExchangeRate.mockResolvedValue({ success: true, pair: 'USD/KRW', rate: 1380, timestamp: '2025-01-14T10:00:00Z', error: 'Using database fallback' })
+    const fx = await loadFxTable(['USD'], 'KRW')
+    expect(fx.quotes.USD.source).toBe('FALLBACK')
+    expect(fx.quotes.USD.timestamp).toBe('2025-01-14T10:00:00Z')
+  })
+
+  it('should fall back to the last fx history rate when fetching fails', async () => {
+    mockFetchExchangeRate.mockResolvedValue({ success: false, pair: 'USD/KRW', rate: 0, timestamp: '', error: 'Network error' })
+    mockGetFxRateOnDate.mockImplementation((pair: string) => (pair === 'USD/KRW' ? { date: '2025-01-10', rate: 1390, source: 'API' } : null))
+
+    const fx = await loadFxTable(['USD'], 'KRW')
+    expect(fx.quotes.USD).toMatchObject({ rate: 1390, source: 'FALLBACK', timestamp: '2025-01-10' })
+
+    // 역방향 쌍만 있으면 역수
+    const usdBase = await loadFxTable(['KRW'], 'USD')
+    expect(usdBase.quotes.KRW.rate).toBeCloseTo(1 / 1390)
+  })
+
+  it('should mark missing rates with zero', async () => {
+    mockFetchExchangeRate.mockResolvedValue({ success: false, pair: 'USD/KRW', rate: 0, timestamp: '', error: 'Network error' })
+    const fx = await loadFxTable(['USD'], 'KRW')
+    expect(fx.quotes.USD.source).toBe('MISSING')
+    expect(fx.quotes.USD.rate).toBe(0)
+  })
+
+  it('should use the configured base currency by default', async () => {
+    settings.set('base_currency', 'USD')
+    mockFetchExchangeRate.mockResolvedValue({ success: true, pair: 'KRW/USD', rate: 0.0007, timestamp: '2025-01-15T10:00:00Z' })
+    const fx = await loadFxTable(['KRW', 'USD'])
+    expect(fx.baseCurrency).toBe('USD')
+    expect(mockFetchExchangeRate).toHaveBeenCalledWith('KRW', 'USD')
+  })
+})
+
+describe('Base Currency Conversion', () => {
+  it('should convert foreign amounts using the quote rate', () => {
+    expect(toBaseCurrency(100, 'USD', KRW_FX)).toBe(140000)
+    expect(toBaseCurrency(50000, 'KRW', KRW_FX)).toBe(50000)
+  })
+
+  it('should return null for amounts without a rate', () => {
+    expect(toBaseCurrency(100, 'EUR', KRW_FX)).toBeNull()
+  })
+
+  it('should exclude unconvertible amounts from totals and report them', () => {
+    const rows = [
+      { currency: 'KRW', amount: 10000 },
+      { currency: 'EUR', amount: 50 },
+      { currency: 'eur', amount: 25 }
+    ]
+    expect(sumInBaseCurrency(rows, KRW_FX)).toBe(10000)
+    expect(findUnconvertible(rows, KRW_FX)).toEqual([{ currency: 'EUR', amount: 75 }])
+
+    const [eur] = summarizeByCurrency([{ currency: 'EUR', market_value: 100, cost_basis: 90 }], KRW_FX)
+    expect(eur).toMatchObject({ fx_missing: true, market_value_base: 0 })
+  })
+
+  it('should summarize per currency with native and base values', () => {
+    const rows = [
+      { currency: 'KRW', market_value: 1000000, cost_basis: 900000 },
+      { currency: 'USD', market_value: 1000, cost_basis: 800 },
+      { currency: 'USD', market_value: 500, cost_basis: 500 }
+    ]
+    const result = summarizeByCurrency(rows, KRW_FX)
+
+    expect(result[0].currency).toBe('USD')
+    expect(result[0].market_value).toBe(1500)
+    expect(result[0].market_value_base).toBe(2100000)
+    expect(result[0].cost_basis_base).toBe(1820000)
+    expect(result[0].fx_rate).toBe(1400)
+    expect(result[1].market_value_base).toBe(1000000)
+  })
+
+  it('should aggregate mixed currencies per key in base currency', () => {
+    const rows = [
+      { account_type: 'GENERAL', currency: 'KRW', market_value: 1000000, cost_basis: 900000 },
+      { account_type: 'OVERSEAS', currency: 'USD', market_value: 1000, cost_basis: 800 },
+      { account_type: 'GENERAL', currency: 'USD', market_value: 100, cost_basis: 100 }
+    ]
+    const result = aggregateInBaseCurrency(rows, r => r.account_type, KRW_FX)
+    const general = result.find(r => r.key === 'GENERAL')
+
+    expect(general?.market_value).toBe(1140000)
+    expect(general?.cost_basis).toBe(1040000)
+  })
+
+  it('should sum amounts in base currency', () => {
+    const total = sumInBaseCurrency([
+      { currency: 'KRW', amount: 10000 },
+      { currency: 'USD', amount: 10 }
+    ], KRW_FX)
+    expect(total).toBe(24000)
+  })
+
+  it('should not report the base currency as an FX rate', () => {
+    const rates = describeFxRates(KRW_FX)
+    expect(rates).toHaveLength(1)
+    expect(rates[0].pair).toBe('USD/KRW')
+  })
+})